@@ -47,6 +47,16 @@ import ShippingSettings from "@/pages/shipping-settings";
 import ShippingTracking from "@/pages/shipping-tracking";
 import Customers from "@/pages/customers";
 import CustomerRegistrationRequests from "@/pages/customer-registration-requests";
+import PriceLists from "@/pages/price-lists";
+import Returns from "@/pages/returns";
+import Negotiations from "@/pages/negotiations";
+import PurchaseOrders from "@/pages/purchase-orders";
+import StockLots from "@/pages/stock-lots";
+import Warehouses from "@/pages/warehouses";
+import Picking from "@/pages/picking";
+import DeliveryRuns from "@/pages/delivery-runs";
+import FulfilmentSlots from "@/pages/fulfilment-slots";
+import PriceChanges from "@/pages/price-changes";
 import AuthSuccess from "@/pages/auth-success";
 import SuperAdmin from "@/pages/super-admin";
 import { LoadingDemo } from "@/pages/loading-demo";
@@ -106,6 +116,16 @@ function AuthenticatedRoutes() {
             <Route path="/products" component={ProductManagement} />
             <Route path="/customers" component={Customers} />
             <Route path="/customer-registration-requests" component={CustomerRegistrationRequests} />
+            <Route path="/price-lists" component={PriceLists} />
+            <Route path="/returns" component={Returns} />
+            <Route path="/negotiations" component={Negotiations} />
+            <Route path="/purchase-orders" component={PurchaseOrders} />
+            <Route path="/stock-lots" component={StockLots} />
+            <Route path="/warehouses" component={Warehouses} />
+            <Route path="/picking" component={Picking} />
+            <Route path="/delivery-runs" component={DeliveryRuns} />
+            <Route path="/fulfilment-slots" component={FulfilmentSlots} />
+            <Route path="/price-changes" component={PriceChanges} />
             <Route path="/orders" component={OrdersFresh} />
             <Route path="/analytics" component={Analytics} />
             <Route path="/business-performance" component={BusinessPerformance} />
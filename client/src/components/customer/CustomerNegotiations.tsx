@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+import {
+  NEGOTIATION_STATUS_LABELS,
+  NEGOTIATION_ACTION_LABELS,
+  type NegotiationStatus,
+  type NegotiationAction
+} from "@shared/negotiations";
+import { MessageSquare, ShoppingCart, Check, X, Loader2 } from "lucide-react";
+
+interface NegotiationMessage {
+  id: number;
+  senderRole: string;
+  action: string;
+  price?: string | null;
+  message?: string | null;
+  createdAt: string;
+}
+
+export interface CustomerNegotiation {
+  id: number;
+  productId: number;
+  productName: string | null;
+  quantity: number;
+  offeredPrice: string;
+  counterPrice?: string | null;
+  agreedPrice?: string | null;
+  status: string;
+  expiresAt?: string | null;
+  messages: NegotiationMessage[];
+}
+
+interface CustomerNegotiationsProps {
+  onCheckout: (negotiation: CustomerNegotiation) => void;
+}
+
+const NEGOTIATION_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  countered: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-purple-100 text-purple-800',
+};
+
+export function CustomerNegotiations({ onCheckout }: CustomerNegotiationsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [offerPrices, setOfferPrices] = useState<Record<number, string>>({});
+
+  const { data: negotiations = [] } = useQuery<CustomerNegotiation[]>({
+    queryKey: ['/api/customer/negotiations'],
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, action, price }: { id: number; action: 'accept' | 'decline' | 'counter'; price?: number }) => {
+      const response = await apiRequest("POST", `/api/customer/negotiations/${id}/respond`, { action, price });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customer/negotiations'] });
+      setOfferPrices(prev => ({ ...prev, [variables.id]: '' }));
+      toast({
+        title: variables.action === 'accept' ? "Price Locked" : "Response Sent",
+        description: variables.action === 'accept'
+          ? "You can now check out at the agreed price."
+          : "Your supplier has been sent your response.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to respond to offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Closed negotiations stay in the supplier's inbox; the buyer only needs the live ones
+  const openNegotiations = negotiations.filter(negotiation => ['pending', 'countered', 'accepted'].includes(negotiation.status));
+  if (openNegotiations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center">
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Price Negotiations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {openNegotiations.map(negotiation => (
+          <div key={negotiation.id} className="border rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex justify-between items-start gap-2">
+              <div className="min-w-0">
+                <div className="font-medium">{negotiation.productName || 'Product'}</div>
+                <div className="text-xs text-gray-500">
+                  {negotiation.quantity} units
+                  {negotiation.expiresAt && ` · ${negotiation.status === 'accepted' ? 'Price held until' : 'Respond by'} ${new Date(negotiation.expiresAt).toLocaleDateString('en-GB')}`}
+                </div>
+              </div>
+              <Badge className={`${NEGOTIATION_STATUS_COLORS[negotiation.status] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                {NEGOTIATION_STATUS_LABELS[negotiation.status as NegotiationStatus] || negotiation.status}
+              </Badge>
+            </div>
+
+            <div className="space-y-1">
+              {negotiation.messages.map(message => (
+                <div key={message.id} className="flex justify-between text-xs text-gray-600">
+                  <span>
+                    {message.senderRole === 'buyer' ? 'You' : message.senderRole === 'wholesaler' ? 'Supplier' : 'System'}
+                    {' · '}
+                    {NEGOTIATION_ACTION_LABELS[message.action as NegotiationAction] || message.action}
+                    {message.message && ` - "${message.message}"`}
+                  </span>
+                  {message.price && <span>{formatCurrency(message.price)}</span>}
+                </div>
+              ))}
+            </div>
+
+            {negotiation.status === 'countered' && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1 text-xs"
+                    disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ id: negotiation.id, action: 'accept' })}
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    Accept {formatCurrency(negotiation.counterPrice || '0')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 text-xs text-red-600"
+                    disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ id: negotiation.id, action: 'decline' })}
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="New offer per unit"
+                    className="h-8 text-xs"
+                    value={offerPrices[negotiation.id] || ''}
+                    onChange={(e) => setOfferPrices(prev => ({ ...prev, [negotiation.id]: e.target.value }))}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs"
+                    disabled={!parseFloat(offerPrices[negotiation.id]) || respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ id: negotiation.id, action: 'counter', price: parseFloat(offerPrices[negotiation.id]) })}
+                  >
+                    {respondMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Send Offer
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {negotiation.status === 'accepted' && negotiation.agreedPrice && (
+              <Button size="sm" className="w-full text-xs" onClick={() => onCheckout(negotiation)}>
+                <ShoppingCart className="h-3 w-3 mr-1" />
+                Add {negotiation.quantity} to cart at {formatCurrency(negotiation.agreedPrice)} each
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
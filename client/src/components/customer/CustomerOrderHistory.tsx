@@ -12,6 +12,10 @@ import { QuikpikFooter } from "@/components/ui/quikpik-footer";
 import { formatDeliveryAddress } from "@shared/utils/address-formatter";
 import { DeliveryAddressDisplay } from "@/components/shared/DeliveryAddressDisplay";
 import { DynamicDeliveryAddressDisplay } from "@/components/shared/DynamicDeliveryAddressDisplay";
+import { OrderReturnSection } from "./OrderReturnSection";
+import { OrderEditHistory } from "./OrderEditHistory";
+import { OrderInvoices } from "./OrderInvoices";
+import { RepeatOrderButton } from "./CustomerStandingOrders";
 
 interface CustomerOrderHistoryProps {
   wholesalerId: string;
@@ -19,6 +23,7 @@ interface CustomerOrderHistoryProps {
 }
 
 interface OrderItem {
+  id?: number;
   productName: string;
   quantity: number;
   unitPrice: string;
@@ -304,6 +309,20 @@ const OrderDetailsModal = ({ order, wholesalerId, customerPhone }: { order: Orde
           </div>
         </div>
 
+        {/* Returns */}
+        <OrderReturnSection orderId={order.id} items={order.items} />
+
+        {/* Changes made by the wholesaler after the order was placed */}
+        <OrderEditHistory orderId={order.id} />
+
+        {/* Invoice and credit notes */}
+        <OrderInvoices orderId={order.id} />
+
+        {/* Standing order */}
+        <div className="flex justify-end">
+          <RepeatOrderButton orderId={order.id} paymentMethod={order.paymentMethod} />
+        </div>
+
         {/* Payment Summary */}
         <div>
           <h3 className="font-medium mb-1 text-sm sm:text-base">Payment Summary</h3>
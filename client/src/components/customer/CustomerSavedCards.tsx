@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, useStripe, useElements, PaymentElement } from "@stripe/react-stripe-js";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CreditCard, Plus, Trash2, Loader2 } from "lucide-react";
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+export const formatSavedCard = (card: Pick<SavedCard, 'brand' | 'last4'>) =>
+  `${card.brand.charAt(0).toUpperCase()}${card.brand.slice(1)} ending ${card.last4}`;
+
+function AddCardFormContent({ onAdded, onCancel }: { onAdded: (paymentMethodId: string) => void; onCancel?: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveCard = async () => {
+    if (!stripe || !elements) return;
+    setIsSaving(true);
+    const { error, setupIntent } = await stripe.confirmSetup({
+      elements,
+      confirmParams: { return_url: window.location.href },
+      redirect: "if_required",
+    });
+    setIsSaving(false);
+
+    if (error || !setupIntent?.payment_method) {
+      toast({
+        title: "Card Not Saved",
+        description: error?.message || "Please check your card details and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['/api/customer/payment-methods'] });
+    toast({ title: "Card Saved", description: "You can now use this card at checkout and for standing orders." });
+    onAdded(typeof setupIntent.payment_method === 'string' ? setupIntent.payment_method : setupIntent.payment_method.id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <PaymentElement />
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={saveCard} disabled={!stripe || isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CreditCard className="h-4 w-4 mr-1" />}
+          Save Card
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Save a new card to the customer's account. The card is confirmed with a
+ * SetupIntent so it can be charged later without the customer present.
+ */
+export function AddCardForm({ onAdded, onCancel }: { onAdded: (paymentMethodId: string) => void; onCancel?: () => void }) {
+  const { toast } = useToast();
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  const startSetupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/customer/payment-methods/setup");
+      return response.json();
+    },
+    onSuccess: (setup) => setClientSecret(setup.clientSecret),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Could not start card setup", variant: "destructive" });
+    },
+  });
+
+  if (!clientSecret) {
+    return (
+      <Button type="button" size="sm" variant="outline" onClick={() => startSetupMutation.mutate()} disabled={startSetupMutation.isPending}>
+        {startSetupMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+        Add Card
+      </Button>
+    );
+  }
+
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret }}>
+      <AddCardFormContent
+        onAdded={(paymentMethodId) => { setClientSecret(null); onAdded(paymentMethodId); }}
+        onCancel={() => { setClientSecret(null); onCancel?.(); }}
+      />
+    </Elements>
+  );
+}
+
+export function CustomerSavedCards() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: cards = [], isLoading } = useQuery<SavedCard[]>({
+    queryKey: ['/api/customer/payment-methods'],
+    retry: false,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Something went wrong", variant: "destructive" });
+  };
+
+  const defaultMutation = useMutation({
+    mutationFn: async (paymentMethodId: string) => {
+      const response = await apiRequest("POST", `/api/customer/payment-methods/${paymentMethodId}/default`);
+      return response.json();
+    },
+    onSuccess: (updated: SavedCard[]) => {
+      queryClient.setQueryData(['/api/customer/payment-methods'], updated);
+      toast({ title: "Default Card Updated" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (paymentMethodId: string) => {
+      const response = await apiRequest("DELETE", `/api/customer/payment-methods/${paymentMethodId}`);
+      return response.json();
+    },
+    onSuccess: (updated: SavedCard[]) => {
+      queryClient.setQueryData(['/api/customer/payment-methods'], updated);
+      toast({ title: "Card Removed" });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading saved cards...</p>
+      ) : cards.length === 0 ? (
+        <p className="text-sm text-gray-600">No saved cards yet. Save one at checkout or add one here.</p>
+      ) : (
+        cards.map(card => (
+          <div key={card.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <CreditCard className="h-4 w-4 flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm font-medium">{formatSavedCard(card)}</div>
+                <div className="text-xs text-gray-600">Expires {String(card.expMonth).padStart(2, '0')}/{card.expYear}</div>
+              </div>
+              {card.isDefault && <Badge variant="secondary" className="text-xs">Default</Badge>}
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              {!card.isDefault && (
+                <Button size="sm" variant="ghost" onClick={() => defaultMutation.mutate(card.id)} disabled={defaultMutation.isPending}>
+                  Make Default
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-600"
+                onClick={() => {
+                  if (window.confirm(`Remove ${formatSavedCard(card)}?`)) {
+                    removeMutation.mutate(card.id);
+                  }
+                }}
+                disabled={removeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+      <AddCardForm onAdded={() => {}} />
+    </div>
+  );
+}
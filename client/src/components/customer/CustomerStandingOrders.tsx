@@ -0,0 +1,559 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AddCardForm, formatSavedCard, type SavedCard } from "./CustomerSavedCards";
+import { format } from "date-fns";
+import {
+  STANDING_ORDER_CADENCE_LABELS,
+  STANDING_ORDER_RUN_STATUS_LABELS,
+  STANDING_ORDER_SHORTFALL_LABELS,
+  STANDING_ORDER_STATUS_LABELS,
+  type StandingOrderCadence,
+  type StandingOrderRunStatus,
+  type StandingOrderStatus
+} from "@shared/standing-orders";
+import { Repeat, Pause, Play, SkipForward, Pencil, Trash2 } from "lucide-react";
+
+interface StandingOrder {
+  id: number;
+  name: string;
+  cadence: string;
+  status: string;
+  nextRunDate: string;
+  fulfillmentType: string;
+  deliveryAddressId: number | null;
+  shortfallAction: string;
+  paymentMethod: string;
+  stripePaymentMethodId: string | null;
+  cardBrand: string | null;
+  cardLast4: string | null;
+  items: Array<{
+    id: number;
+    productId: number;
+    productName: string | null;
+    productStatus: string | null;
+    quantity: number;
+    sellingType: string;
+  }>;
+  recentRuns: Array<{
+    id: number;
+    scheduledFor: string;
+    status: string;
+    orderId: number | null;
+    message: string | null;
+  }>;
+}
+
+interface DeliveryAddress {
+  id: number;
+  addressLine1: string;
+  city: string;
+  postalCode: string;
+  label?: string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+};
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  ordered: 'text-green-700',
+  partial: 'text-orange-700',
+  skipped: 'text-gray-600',
+  failed: 'text-red-700',
+};
+
+// Run dates are stored as midnight UTC, so read them back as a plain date
+const toDateInput = (value: string) => value.slice(0, 10);
+const formatRunDate = (value: string) => format(new Date(`${toDateInput(value)}T12:00:00`), 'EEE d MMM yyyy');
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return format(date, 'yyyy-MM-dd');
+};
+
+/**
+ * Card or on-account choice for a standing order. Card runs are charged
+ * off-session to one of the customer's saved cards.
+ */
+function StandingOrderPayment({
+  paymentMethod,
+  paymentMethodId,
+  onChange,
+}: {
+  paymentMethod: string;
+  paymentMethodId: string | null;
+  onChange: (paymentMethod: string, paymentMethodId: string | null) => void;
+}) {
+  const { data: cards = [] } = useQuery<SavedCard[]>({
+    queryKey: ['/api/customer/payment-methods'],
+    retry: false,
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label>Payment</Label>
+      <Select value={paymentMethod} onValueChange={(value) => onChange(value, paymentMethodId)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="card">Card</SelectItem>
+          <SelectItem value="account">Pay on account</SelectItem>
+        </SelectContent>
+      </Select>
+      {paymentMethod === 'card' && (
+        <>
+          {cards.length > 0 && (
+            <Select value={paymentMethodId || ''} onValueChange={(value) => onChange('card', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a saved card" />
+              </SelectTrigger>
+              <SelectContent>
+                {cards.map(card => (
+                  <SelectItem key={card.id} value={card.id}>
+                    {formatSavedCard(card)}{card.isDefault ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <AddCardForm onAdded={(id) => onChange('card', id)} />
+        </>
+      )}
+    </div>
+  );
+}
+
+interface RepeatOrderButtonProps {
+  orderId: number;
+  paymentMethod?: string;
+}
+
+/**
+ * Turn a past order into a standing order
+ */
+export function RepeatOrderButton({ orderId, paymentMethod: orderPaymentMethod }: RepeatOrderButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState({ cadence: 'weekly', nextRunDate: '', shortfallAction: 'send_available' });
+  const [paymentMethod, setPaymentMethod] = useState(orderPaymentMethod === 'account' ? 'account' : 'card');
+  const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/customer/standing-orders", {
+        fromOrderId: orderId,
+        ...form,
+        nextRunDate: form.nextRunDate || undefined,
+        paymentMethod,
+        paymentMethodId: paymentMethodId || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (standingOrder: StandingOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customer/standing-orders'] });
+      setIsOpen(false);
+      toast({
+        title: "Standing Order Set Up",
+        description: `Your first repeat order is due ${formatRunDate(standingOrder.nextRunDate)}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Could not set up the standing order", variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Button size="sm" variant="outline" onClick={() => setIsOpen(true)}>
+        <Repeat className="h-4 w-4 mr-1" />
+        Repeat Automatically
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Repeat This Order</DialogTitle>
+            <DialogDescription>
+              We'll place this order for you on a schedule at the prices on the day. You can pause, skip or change it any time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>How often</Label>
+                <Select value={form.cadence} onValueChange={(value) => setForm(prev => ({ ...prev, cadence: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STANDING_ORDER_CADENCE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`repeat-start-${orderId}`}>First order</Label>
+                <Input
+                  id={`repeat-start-${orderId}`}
+                  type="date"
+                  min={tomorrow()}
+                  value={form.nextRunDate}
+                  onChange={(e) => setForm(prev => ({ ...prev, nextRunDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>If something is out of stock</Label>
+              <Select value={form.shortfallAction} onValueChange={(value) => setForm(prev => ({ ...prev, shortfallAction: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STANDING_ORDER_SHORTFALL_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <StandingOrderPayment
+              paymentMethod={paymentMethod}
+              paymentMethodId={paymentMethodId}
+              onChange={(method, id) => { setPaymentMethod(method); setPaymentMethodId(id); }}
+            />
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || (paymentMethod === 'card' && !paymentMethodId)}
+              >
+                Set Up Standing Order
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface CustomerStandingOrdersProps {
+  wholesalerId: string;
+}
+
+export function CustomerStandingOrders({ wholesalerId }: CustomerStandingOrdersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<StandingOrder | null>(null);
+  const [editForm, setEditForm] = useState({
+    name: '',
+    cadence: 'weekly',
+    nextRunDate: '',
+    shortfallAction: 'send_available',
+    fulfillmentType: 'pickup',
+    deliveryAddressId: '',
+    quantities: {} as Record<number, string>,
+  });
+  const [paymentMethod, setPaymentMethod] = useState('card');
+  const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null);
+
+  const { data: standingOrders = [] } = useQuery<StandingOrder[]>({
+    queryKey: ['/api/customer/standing-orders'],
+    retry: false,
+  });
+
+  const { data: addresses = [] } = useQuery<DeliveryAddress[]>({
+    queryKey: [`/api/customer/delivery-addresses/${wholesalerId}`],
+    enabled: !!editing,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Something went wrong", variant: "destructive" });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'pause' | 'resume' | 'skip' | 'cancel' }) => {
+      const response = await apiRequest("POST", `/api/customer/standing-orders/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (standingOrder: StandingOrder, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customer/standing-orders'] });
+      const descriptions = {
+        pause: "No orders will be placed until you resume it.",
+        resume: `Your next order is due ${formatRunDate(standingOrder.nextRunDate)}.`,
+        skip: `Skipped. Your next order is now due ${formatRunDate(standingOrder.nextRunDate)}.`,
+        cancel: "No more orders will be placed.",
+      };
+      toast({ title: "Standing Order Updated", description: descriptions[action] });
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const items = editing!.items
+        .map(item => ({
+          productId: item.productId,
+          sellingType: item.sellingType,
+          quantity: parseInt(editForm.quantities[item.id] ?? String(item.quantity)) || 0,
+        }))
+        .filter(item => item.quantity > 0);
+      const response = await apiRequest("PATCH", `/api/customer/standing-orders/${editing!.id}`, {
+        name: editForm.name,
+        cadence: editForm.cadence,
+        nextRunDate: editForm.nextRunDate !== toDateInput(editing!.nextRunDate) ? editForm.nextRunDate : undefined,
+        shortfallAction: editForm.shortfallAction,
+        fulfillmentType: editForm.fulfillmentType,
+        deliveryAddressId: editForm.fulfillmentType === 'delivery' ? editForm.deliveryAddressId : null,
+        paymentMethod,
+        paymentMethodId: paymentMethodId && paymentMethodId !== editing!.stripePaymentMethodId ? paymentMethodId : undefined,
+        items,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customer/standing-orders'] });
+      setEditing(null);
+      toast({ title: "Standing Order Saved", description: "Your changes apply from the next order." });
+    },
+    onError,
+  });
+
+  const openEditor = (standingOrder: StandingOrder) => {
+    setEditing(standingOrder);
+    setEditForm({
+      name: standingOrder.name,
+      cadence: standingOrder.cadence,
+      nextRunDate: toDateInput(standingOrder.nextRunDate),
+      shortfallAction: standingOrder.shortfallAction,
+      fulfillmentType: standingOrder.fulfillmentType,
+      deliveryAddressId: standingOrder.deliveryAddressId ? String(standingOrder.deliveryAddressId) : '',
+      quantities: {},
+    });
+    setPaymentMethod(standingOrder.paymentMethod);
+    setPaymentMethodId(standingOrder.stripePaymentMethodId);
+  };
+
+  if (standingOrders.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Repeat className="h-5 w-5 mr-2" />
+          Standing Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {standingOrders.map(standingOrder => (
+          <div key={standingOrder.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{standingOrder.name}</span>
+                  <Badge className={`${STATUS_COLORS[standingOrder.status] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                    {STANDING_ORDER_STATUS_LABELS[standingOrder.status as StandingOrderStatus] || standingOrder.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-600">
+                  {STANDING_ORDER_CADENCE_LABELS[standingOrder.cadence as StandingOrderCadence] || standingOrder.cadence}
+                  {' · '}{standingOrder.fulfillmentType === 'delivery' ? 'Delivery' : 'Collection'}
+                  {' · '}{standingOrder.paymentMethod === 'account'
+                    ? 'On account'
+                    : standingOrder.cardLast4 ? `${standingOrder.cardBrand || 'Card'} ending ${standingOrder.cardLast4}` : 'Card'}
+                </p>
+                {standingOrder.status === 'active' && (
+                  <p className="text-xs font-medium">Next order: {formatRunDate(standingOrder.nextRunDate)}</p>
+                )}
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => openEditor(standingOrder)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="text-xs text-gray-700 space-y-0.5">
+              {standingOrder.items.map(item => (
+                <div key={item.id}>
+                  {item.quantity} {item.sellingType === 'pallets' ? 'pallets' : 'units'} × {item.productName || 'Product'}
+                  {item.productStatus && item.productStatus !== 'active' && <span className="text-orange-700"> (currently unavailable)</span>}
+                </div>
+              ))}
+            </div>
+
+            {standingOrder.recentRuns.length > 0 && (
+              <div className="text-xs space-y-0.5 border-t pt-2">
+                {standingOrder.recentRuns.slice(0, 3).map(run => (
+                  <div key={run.id} className="flex justify-between gap-2">
+                    <span>{formatRunDate(run.scheduledFor)}</span>
+                    <span className={`text-right ${RUN_STATUS_COLORS[run.status] || ''}`}>
+                      {STANDING_ORDER_RUN_STATUS_LABELS[run.status as StandingOrderRunStatus] || run.status}
+                      {run.message && ` - ${run.message}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {standingOrder.status === 'active' ? (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: standingOrder.id, action: 'skip' })} disabled={actionMutation.isPending}>
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Skip Next
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: standingOrder.id, action: 'pause' })} disabled={actionMutation.isPending}>
+                    <Pause className="h-4 w-4 mr-1" />
+                    Pause
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: standingOrder.id, action: 'resume' })} disabled={actionMutation.isPending}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600"
+                onClick={() => {
+                  if (window.confirm(`Cancel "${standingOrder.name}"? No more orders will be placed.`)) {
+                    actionMutation.mutate({ id: standingOrder.id, action: 'cancel' });
+                  }
+                }}
+                disabled={actionMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Standing Order</DialogTitle>
+            <DialogDescription>Changes apply from the next order. Set a quantity to 0 to remove an item.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="standing-order-name">Name</Label>
+                <Input
+                  id="standing-order-name"
+                  value={editForm.name}
+                  onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Items</Label>
+                {editing.items.map(item => (
+                  <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="flex-1 min-w-0 break-words">{item.productName || 'Product'}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20 h-8"
+                      value={editForm.quantities[item.id] ?? String(item.quantity)}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, quantities: { ...prev.quantities, [item.id]: e.target.value } }))}
+                    />
+                    <span className="text-xs text-gray-500 w-12">{item.sellingType === 'pallets' ? 'pallets' : 'units'}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>How often</Label>
+                  <Select value={editForm.cadence} onValueChange={(value) => setEditForm(prev => ({ ...prev, cadence: value }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STANDING_ORDER_CADENCE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="standing-order-next">Next order</Label>
+                  <Input
+                    id="standing-order-next"
+                    type="date"
+                    min={tomorrow()}
+                    value={editForm.nextRunDate}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, nextRunDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Fulfilment</Label>
+                <Select value={editForm.fulfillmentType} onValueChange={(value) => setEditForm(prev => ({ ...prev, fulfillmentType: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pickup">Collection</SelectItem>
+                    <SelectItem value="delivery">Delivery</SelectItem>
+                  </SelectContent>
+                </Select>
+                {editForm.fulfillmentType === 'delivery' && (
+                  <Select value={editForm.deliveryAddressId} onValueChange={(value) => setEditForm(prev => ({ ...prev, deliveryAddressId: value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a delivery address" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {addresses.map(address => (
+                        <SelectItem key={address.id} value={String(address.id)}>
+                          {address.label ? `${address.label} - ` : ''}{address.addressLine1}, {address.city} {address.postalCode}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>If something is out of stock</Label>
+                <Select value={editForm.shortfallAction} onValueChange={(value) => setEditForm(prev => ({ ...prev, shortfallAction: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STANDING_ORDER_SHORTFALL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <StandingOrderPayment
+                paymentMethod={paymentMethod}
+                paymentMethodId={paymentMethodId}
+                onChange={(method, id) => { setPaymentMethod(method); setPaymentMethodId(id); }}
+              />
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={saveMutation.isPending || (paymentMethod === 'card' && !paymentMethodId)}
+                >
+                  Save Changes
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency } from "@shared/utils/currency";
+import {
+  ORDER_EDIT_SETTLEMENT_LABELS,
+  describeOrderEditChange,
+  type OrderEditLineChange,
+  type OrderEditSettlement
+} from "@shared/order-edits";
+import { Pencil } from "lucide-react";
+
+interface CustomerOrderEdit {
+  id: number;
+  changes: OrderEditLineChange[];
+  totalBefore: string;
+  totalAfter: string;
+  settlement: OrderEditSettlement;
+  settlementStatus: string;
+  reason?: string | null;
+  createdAt: string;
+}
+
+const SETTLEMENT_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Changes the wholesaler made to the order after it was placed, with the
+ * charge or refund that settled each one
+ */
+export function OrderEditHistory({ orderId }: { orderId: number }) {
+  const { data: edits = [] } = useQuery<CustomerOrderEdit[]>({
+    queryKey: [`/api/customer/orders/${orderId}/edits`],
+    retry: false,
+  });
+
+  if (edits.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1 text-sm sm:text-base flex items-center">
+        <Pencil className="h-4 w-4 mr-1" />
+        Order Changes
+      </h3>
+      <div className="space-y-2">
+        {edits.map(edit => {
+          const difference = parseFloat(edit.totalAfter) - parseFloat(edit.totalBefore);
+          return (
+            <div key={edit.id} className="p-2 bg-gray-50 rounded-lg text-xs space-y-1">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-gray-600">{new Date(edit.createdAt).toLocaleDateString('en-GB')}</span>
+                {edit.settlement !== 'none' && (
+                  <Badge className={`${SETTLEMENT_STATUS_COLORS[edit.settlementStatus] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                    {ORDER_EDIT_SETTLEMENT_LABELS[edit.settlement]}
+                  </Badge>
+                )}
+              </div>
+              {edit.changes.map((change, index) => (
+                <div key={index}>{describeOrderEditChange(change)}</div>
+              ))}
+              {edit.reason && <div className="text-gray-600">Reason: {edit.reason}</div>}
+              <div className="font-medium">
+                New total {formatCurrency(parseFloat(edit.totalAfter))}
+                {difference !== 0 && ` (${difference > 0 ? '+' : '-'}${formatCurrency(Math.abs(difference))})`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatCurrency } from "@shared/utils/currency";
+import { INVOICE_DOCUMENT_LABELS, type InvoiceDocumentType } from "@shared/invoices";
+import { Download, FileText } from "lucide-react";
+
+interface CustomerInvoice {
+  id: number;
+  documentType: InvoiceDocumentType;
+  invoiceNumber: string;
+  reason?: string | null;
+  total: string;
+  currency: string;
+  issuedAt: string;
+}
+
+/**
+ * The order's invoice and any credit notes, as PDFs
+ */
+export function OrderInvoices({ orderId }: { orderId: number }) {
+  const { data: documents = [] } = useQuery<CustomerInvoice[]>({
+    queryKey: [`/api/customer/orders/${orderId}/invoices`],
+    retry: false,
+  });
+
+  if (documents.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1 text-sm sm:text-base flex items-center">
+        <FileText className="h-4 w-4 mr-1" />
+        Invoices
+      </h3>
+      <div className="space-y-2">
+        {documents.map(document => (
+          <a
+            key={document.id}
+            href={`/api/customer/invoices/${document.id}/pdf`}
+            className="flex justify-between items-center gap-2 p-2 bg-gray-50 rounded-lg text-xs hover:bg-gray-100"
+          >
+            <div className="min-w-0">
+              <div className="font-medium">
+                {INVOICE_DOCUMENT_LABELS[document.documentType]} {document.invoiceNumber}
+              </div>
+              <div className="text-gray-600 truncate">
+                {new Date(document.issuedAt).toLocaleDateString('en-GB')}
+                {document.reason ? ` · ${document.reason}` : ''}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="font-medium">
+                {document.documentType === 'credit_note' ? '-' : ''}{formatCurrency(document.total, document.currency)}
+              </span>
+              <Download className="h-3 w-3" />
+            </div>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
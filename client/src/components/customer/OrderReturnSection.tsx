@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+import { RETURN_STATUS_LABELS, RETURN_OUTCOME_LABELS, type ReturnStatus, type ReturnLineOutcome } from "@shared/returns";
+import { RotateCcw, Loader2 } from "lucide-react";
+
+interface ReturnableItem {
+  id?: number;
+  productName: string;
+  quantity: number;
+}
+
+interface CustomerReturn {
+  id: number;
+  returnNumber: string;
+  status: string;
+  reason: string;
+  wholesalerNotes?: string | null;
+  refundAmount?: string | null;
+  createdAt: string;
+  items: Array<{
+    id: number;
+    productName: string | null;
+    quantity: number;
+    outcome: string;
+  }>;
+}
+
+interface OrderReturnSectionProps {
+  orderId: number;
+  items: ReturnableItem[];
+}
+
+const RETURN_STATUS_COLORS: Record<string, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  received: 'bg-purple-100 text-purple-800',
+  inspected: 'bg-indigo-100 text-indigo-800',
+  refunding: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+export function OrderReturnSection({ orderId, items }: OrderReturnSectionProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<{ returns: CustomerReturn[]; returnableQuantities: Record<number, number> }>({
+    queryKey: [`/api/customer/orders/${orderId}/returns`],
+    retry: false,
+  });
+
+  const requestReturnMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(quantities)
+        .map(([orderItemId, quantity]) => ({ orderItemId: parseInt(orderItemId), quantity: parseInt(quantity) || 0 }))
+        .filter(line => line.quantity > 0);
+      const response = await apiRequest("POST", `/api/customer/orders/${orderId}/returns`, { lines, reason });
+      return response.json();
+    },
+    onSuccess: (returnRequest) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customer/orders/${orderId}/returns`] });
+      setIsRequesting(false);
+      setQuantities({});
+      setReason("");
+      toast({
+        title: "Return Requested",
+        description: `Return ${returnRequest.returnNumber} has been sent to your supplier for approval.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Return Failed",
+        description: error.message || "Failed to request a return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Not signed in to the portal, or order not returnable
+  if (isLoading || !data) return null;
+
+  const returnableItems = items.filter(item => item.id && (data.returnableQuantities[item.id] || 0) > 0);
+  const hasSelection = Object.values(quantities).some(quantity => parseInt(quantity) > 0);
+
+  if (data.returns.length === 0 && returnableItems.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1 text-sm sm:text-base flex items-center">
+        <RotateCcw className="h-4 w-4 mr-2 text-gray-600" />
+        Returns
+      </h3>
+
+      {data.returns.length > 0 && (
+        <div className="space-y-2 mb-2">
+          {data.returns.map(returnRequest => (
+            <div key={returnRequest.id} className="p-2 bg-gray-50 rounded-lg text-xs space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{returnRequest.returnNumber}</span>
+                <Badge className={`${RETURN_STATUS_COLORS[returnRequest.status] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                  {RETURN_STATUS_LABELS[returnRequest.status as ReturnStatus] || returnRequest.status}
+                </Badge>
+              </div>
+              {returnRequest.items.map(item => (
+                <div key={item.id} className="flex justify-between text-gray-600">
+                  <span>{item.quantity} × {item.productName || 'Product'}</span>
+                  {item.outcome !== 'pending' && (
+                    <span>{RETURN_OUTCOME_LABELS[item.outcome as ReturnLineOutcome] || item.outcome}</span>
+                  )}
+                </div>
+              ))}
+              {returnRequest.wholesalerNotes && (
+                <div className="text-gray-600 italic">{returnRequest.wholesalerNotes}</div>
+              )}
+              {returnRequest.refundAmount && ['inspected', 'refunding', 'refunded'].includes(returnRequest.status) && (
+                <div className="font-medium">Refund: {formatCurrency(returnRequest.refundAmount)}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {returnableItems.length > 0 && (
+        isRequesting ? (
+          <div className="p-2 bg-gray-50 rounded-lg space-y-2">
+            {returnableItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex-1 min-w-0 break-words">{item.productName}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={data.returnableQuantities[item.id!]}
+                  placeholder={`0-${data.returnableQuantities[item.id!]}`}
+                  className="h-7 w-20 text-xs"
+                  value={quantities[item.id!] || ''}
+                  onChange={(e) => setQuantities(prev => ({ ...prev, [item.id!]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <Textarea
+              placeholder="Why are you returning these items?"
+              className="text-xs"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" className="flex-1 text-xs" onClick={() => setIsRequesting(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="flex-1 text-xs"
+                disabled={!hasSelection || !reason.trim() || requestReturnMutation.isPending}
+                onClick={() => requestReturnMutation.mutate()}
+              >
+                {requestReturnMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Submit Return
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" variant="outline" className="w-full text-xs" onClick={() => setIsRequesting(true)}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Request a Return
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PromotionalPricingCalculator } from "@shared/promotional-pricing";
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from "@shared/payment-terms";
+import { formatCurrency } from "@shared/utils/currency";
+import { FileText, Loader2 } from "lucide-react";
+
+interface CreditAccount {
+  enabled: boolean;
+  paymentTerms: string;
+  creditLimit: number | null;
+  outstandingBalance: number;
+  availableCredit: number | null;
+  reason?: string;
+}
+
+interface PayOnAccountOptionProps {
+  wholesalerId: string;
+  cart: Array<{ product: any; quantity: number; sellingType: "units" | "pallets"; negotiationId?: number }>;
+  customerData: any;
+  orderTotal: number;
+  onSuccess: (orderData: any) => void;
+}
+
+export function PayOnAccountOption({ wholesalerId, cart, customerData, orderTotal, onSuccess }: PayOnAccountOptionProps) {
+  const { toast } = useToast();
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+
+  const { data: creditAccount } = useQuery<CreditAccount>({
+    queryKey: [`/api/customer/credit-account/${wholesalerId}`],
+    enabled: !!wholesalerId,
+    retry: false,
+  });
+
+  if (!creditAccount?.enabled) {
+    return null;
+  }
+
+  const availableCredit = creditAccount.availableCredit ?? 0;
+  const exceedsCredit = orderTotal > availableCredit;
+  const termsLabel = PAYMENT_TERMS_LABELS[creditAccount.paymentTerms as PaymentTerms] || creditAccount.paymentTerms;
+
+  const handlePlaceOrder = async () => {
+    setIsPlacingOrder(true);
+    try {
+      const response = await apiRequest("POST", "/api/customer/create-payment", {
+        paymentMethod: 'account',
+        customerData: {
+          name: customerData.name,
+          email: customerData.email,
+          phone: customerData.phone,
+          address: customerData.selectedDeliveryAddress?.addressLine1 || customerData.address,
+          selectedDeliveryAddress: customerData.selectedDeliveryAddress,
+          selectedDeliveryAddressId: customerData.selectedDeliveryAddress?.id
+        },
+        items: cart.map(item => ({
+          productId: item.product.id,
+          productName: item.product.name,
+          quantity: item.quantity || 0,
+          unitPrice: item.sellingType === 'pallets'
+            ? parseFloat(item.product.palletPrice || "0") || 0
+            : PromotionalPricingCalculator.calculatePromotionalPricing(
+                parseFloat(item.product.price) || 0,
+                item.quantity,
+                item.product.promotionalOffers || [],
+                item.product.promoPrice ? parseFloat(item.product.promoPrice) : undefined,
+                item.product.promoActive
+              ).effectivePrice,
+          sellingType: item.sellingType,
+          negotiationId: item.negotiationId
+        })),
+        shippingInfo: {
+          option: customerData.shippingOption,
+          collectionWarehouseId: customerData.shippingOption === 'pickup' ? customerData.collectionWarehouseId : undefined,
+          slotId: customerData.slotId,
+          slotDate: customerData.slotDate
+        }
+      });
+      const orderData = await response.json();
+
+      toast({
+        title: "Order Placed on Account",
+        description: `Order ${orderData.orderNumber} is due for payment by ${new Date(orderData.paymentDueDate).toLocaleDateString('en-GB')}`,
+      });
+      onSuccess(orderData);
+    } catch (error: any) {
+      console.error('❌ Failed to place order on account:', error);
+      let description = "Please try again or pay by card.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d+:\s*/, '')).message || description;
+      } catch {
+        // Non-JSON error body - keep the generic message
+      }
+      toast({
+        title: "Unable to Place Order on Account",
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4 border-blue-200 bg-blue-50">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileText className="h-5 w-5 text-blue-700" />
+            <h4 className="font-medium text-blue-900">Pay on Account</h4>
+          </div>
+          <Badge variant="outline" className="border-blue-300 text-blue-800">{termsLabel}</Badge>
+        </div>
+        <p className="text-sm text-blue-800">
+          Available credit: <strong>{formatCurrency(availableCredit)}</strong>
+          {creditAccount.creditLimit != null && <> of {formatCurrency(creditAccount.creditLimit)}</>}
+        </p>
+        {exceedsCredit ? (
+          <p className="text-sm text-red-700">
+            This order ({formatCurrency(orderTotal)}) exceeds your available credit. Please pay by card below.
+          </p>
+        ) : (
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={handlePlaceOrder}
+            disabled={isPlacingOrder || cart.length === 0}
+          >
+            {isPlacingOrder ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+            Place Order on Account ({formatCurrency(orderTotal)})
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -27,7 +27,15 @@ import {
   Truck,
   Book,
   Contact,
-  Megaphone
+  Megaphone,
+  RotateCcw,
+  Handshake,
+  ClipboardList,
+  Layers,
+  Warehouse,
+  History,
+  PackageCheck,
+  CalendarClock
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
@@ -45,8 +53,17 @@ interface NavigationItem {
 const navigation: NavigationItem[] = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard, onboardingId: "dashboard", tabName: "dashboard" },
   { name: "Products", href: "/products", icon: Package, onboardingId: "products-list", tabName: "products" },
+  { name: "Purchasing", href: "/purchase-orders", icon: ClipboardList, tabName: "products" },
+  { name: "Batches & Expiry", href: "/stock-lots", icon: Layers, tabName: "products" },
+  { name: "Warehouses", href: "/warehouses", icon: Warehouse, tabName: "products" },
+  { name: "Price Changes", href: "/price-changes", icon: History, tabName: "products" },
   { name: "Customers", href: "/customers", icon: Users, onboardingId: "customer-groups", tabName: "customers" },
   { name: "Orders", href: "/orders", icon: ShoppingCart, onboardingId: "orders", tabName: "orders" },
+  { name: "Picking", href: "/picking", icon: PackageCheck, tabName: "orders" },
+  { name: "Delivery Runs", href: "/delivery-runs", icon: Truck, tabName: "orders" },
+  { name: "Delivery Slots", href: "/fulfilment-slots", icon: CalendarClock, tabName: "orders" },
+  { name: "Returns", href: "/returns", icon: RotateCcw, tabName: "orders" },
+  { name: "Negotiations", href: "/negotiations", icon: Handshake, tabName: "orders" },
 
   { name: "Broadcast", href: "/campaigns", icon: MessageSquare, onboardingId: "campaigns", tabName: "campaigns" },
   { name: "Business Performance", href: "/business-performance", icon: TrendingUp, tabName: "analytics", premiumOnly: true },
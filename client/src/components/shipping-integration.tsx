@@ -51,6 +51,8 @@ interface ShippingIntegrationProps {
 
 interface ShippingQuote {
   service: string;
+  serviceId?: string;
+  providerAccountId?: number | null;
   carrier: string;
   price: number;
   deliveryTime: string;
@@ -147,7 +149,8 @@ export default function ShippingIntegration({ order }: ShippingIntegrationProps)
       
       const shippingOrderData = {
         orderId: order.id,
-        service: selectedQuote.service,
+        service: selectedQuote.serviceId || selectedQuote.service,
+        providerAccountId: selectedQuote.providerAccountId ?? null,
         customerDetails: {
           name: order.customerName,
           email: order.customerEmail,
@@ -176,7 +179,7 @@ export default function ShippingIntegration({ order }: ShippingIntegrationProps)
     onSuccess: (data) => {
       toast({
         title: "Shipping Order Created",
-        description: "Your shipping order has been successfully created with Parcel2Go."
+        description: "Your shipping order has been successfully booked with the carrier."
       });
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
       setIsOpen(false);
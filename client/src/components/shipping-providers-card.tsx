@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2, Truck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  DEFAULT_TABLE_RATE_SETTINGS,
+  SHIPPING_PROVIDER_LABELS,
+  type ShippingProviderKey,
+  type TableRateSettings
+} from "@shared/shipping-providers";
+
+interface ShippingProviderAccount {
+  id: number;
+  provider: ShippingProviderKey;
+  name: string;
+  credentials: { clientId: string; environment: 'sandbox' | 'live'; hasSecret: boolean } | null;
+  settings: TableRateSettings | null;
+  isEnabled: boolean;
+}
+
+// Table-rate services as edited: numbers stay as typed until saved
+interface ServiceForm {
+  id: string;
+  name: string;
+  transitTime: string;
+  freeOverValue: string;
+  weightBands: Array<{ maxWeightKg: string; price: string }>;
+  postcodeBands: Array<{ prefixes: string; surcharge: string }>;
+}
+
+interface CarrierForm {
+  id: number | null;
+  provider: ShippingProviderKey;
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  environment: 'sandbox' | 'live';
+  hasSecret: boolean;
+  services: ServiceForm[];
+}
+
+const toServiceForms = (settings: TableRateSettings): ServiceForm[] =>
+  settings.services.map(service => ({
+    id: service.id,
+    name: service.name,
+    transitTime: service.transitTime,
+    freeOverValue: service.freeOverValue != null ? String(service.freeOverValue) : '',
+    weightBands: service.weightBands.map(band => ({
+      maxWeightKg: band.maxWeightKg != null ? String(band.maxWeightKg) : '',
+      price: String(band.price),
+    })),
+    postcodeBands: service.postcodeBands.map(band => ({
+      prefixes: band.prefixes.join(', '),
+      surcharge: band.surcharge != null ? String(band.surcharge) : '',
+    })),
+  }));
+
+const toSettings = (services: ServiceForm[]) => ({
+  services: services.map(service => ({
+    id: service.id,
+    name: service.name,
+    transitTime: service.transitTime,
+    freeOverValue: service.freeOverValue === '' ? null : service.freeOverValue,
+    weightBands: service.weightBands.map(band => ({
+      maxWeightKg: band.maxWeightKg === '' ? null : band.maxWeightKg,
+      price: band.price,
+    })),
+    postcodeBands: service.postcodeBands.map(band => ({
+      prefixes: band.prefixes.split(',').map(prefix => prefix.trim()).filter(Boolean),
+      surcharge: band.surcharge === '' ? null : band.surcharge,
+    })),
+  })),
+});
+
+const newCarrierForm = (provider: ShippingProviderKey): CarrierForm => ({
+  id: null,
+  provider,
+  name: provider === 'table_rate' ? 'Our delivery' : SHIPPING_PROVIDER_LABELS[provider],
+  clientId: '',
+  clientSecret: '',
+  environment: 'live',
+  hasSecret: false,
+  services: toServiceForms(DEFAULT_TABLE_RATE_SETTINGS),
+});
+
+const describeRates = (settings: TableRateSettings | null) => {
+  const services = settings?.services || [];
+  return services.map(service => service.name).join(', ') || 'No services';
+};
+
+export default function ShippingProvidersCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<CarrierForm | null>(null);
+
+  const { data: accounts = [], isLoading } = useQuery<ShippingProviderAccount[]>({
+    queryKey: ['/api/shipping/providers'],
+  });
+
+  const invalidateProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shipping/providers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shipping/status'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (carrier: CarrierForm) => {
+      const body = carrier.provider === 'parcel2go'
+        ? {
+            name: carrier.name,
+            credentials: { clientId: carrier.clientId, clientSecret: carrier.clientSecret, environment: carrier.environment },
+          }
+        : { name: carrier.name, settings: toSettings(carrier.services) };
+      const response = carrier.id
+        ? await apiRequest("PATCH", `/api/shipping/providers/${carrier.id}`, body)
+        : await apiRequest("POST", "/api/shipping/providers", { ...body, provider: carrier.provider });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProviders();
+      setForm(null);
+      toast({ title: "Carrier Saved", description: "Customers will see its delivery options at checkout." });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: number; isEnabled: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/shipping/providers/${id}`, { isEnabled });
+      return response.json();
+    },
+    onSuccess: () => invalidateProviders(),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/shipping/providers/${id}`);
+    },
+    onSuccess: () => {
+      invalidateProviders();
+      toast({ title: "Carrier Removed", description: "It will no longer be offered at checkout." });
+    },
+    onError,
+  });
+
+  const editAccount = (account: ShippingProviderAccount) => {
+    setForm({
+      id: account.id,
+      provider: account.provider,
+      name: account.name,
+      clientId: account.credentials?.clientId || '',
+      clientSecret: '',
+      environment: account.credentials?.environment || 'live',
+      hasSecret: !!account.credentials?.hasSecret,
+      services: toServiceForms(account.settings || DEFAULT_TABLE_RATE_SETTINGS),
+    });
+  };
+
+  const updateService = (index: number, updates: Partial<ServiceForm>) => {
+    if (!form) return;
+    setForm({ ...form, services: form.services.map((service, i) => (i === index ? { ...service, ...updates } : service)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Truck className="h-5 w-5" />
+          <span>Delivery Carriers</span>
+        </CardTitle>
+        <CardDescription>
+          Connect your own Parcel2Go account, or set weight and postcode band prices for deliveries you arrange yourself.
+          Customers are quoted by every enabled carrier.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading carriers...</p>
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No carriers connected yet. Quotes use the platform's Parcel2Go account until you add one.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {accounts.map(account => (
+              <div key={account.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{account.name}</span>
+                    <Badge variant="secondary">{SHIPPING_PROVIDER_LABELS[account.provider]}</Badge>
+                    {account.provider === 'parcel2go' && account.credentials?.environment === 'sandbox' && (
+                      <Badge variant="outline">Sandbox</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {account.provider === 'parcel2go'
+                      ? `Client ID ${account.credentials?.clientId || 'not set'}`
+                      : describeRates(account.settings)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={account.isEnabled}
+                    onCheckedChange={(checked) => toggleMutation.mutate({ id: account.id, isEnabled: checked })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => editAccount(account)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(`Remove ${account.name}? Labels and tracking for orders already booked with it will stop working.`)) {
+                        deleteMutation.mutate(account.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setForm(newCarrierForm('parcel2go'))}>
+            <Plus className="h-4 w-4 mr-1" /> Connect Parcel2Go
+          </Button>
+          <Button variant="outline" onClick={() => setForm(newCarrierForm('table_rate'))}>
+            <Plus className="h-4 w-4 mr-1" /> Add table rates
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {form && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{form.id ? `Edit ${form.name}` : `Add ${SHIPPING_PROVIDER_LABELS[form.provider]}`}</DialogTitle>
+                <DialogDescription>
+                  {form.provider === 'parcel2go'
+                    ? 'Quotes and bookings will be made on your own Parcel2Go account.'
+                    : 'Prices include VAT. The first weight band the order fits in is charged, plus any postcode surcharge.'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <Label>Name shown to customers</Label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+
+                {form.provider === 'parcel2go' ? (
+                  <>
+                    <div>
+                      <Label>Client ID</Label>
+                      <Input value={form.clientId} onChange={(e) => setForm({ ...form, clientId: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label>Client secret</Label>
+                      <Input
+                        type="password"
+                        value={form.clientSecret}
+                        placeholder={form.hasSecret ? 'Leave blank to keep the saved secret' : ''}
+                        onChange={(e) => setForm({ ...form, clientSecret: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Environment</Label>
+                      <Select
+                        value={form.environment}
+                        onValueChange={(value) => setForm({ ...form, environment: value as 'sandbox' | 'live' })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="live">Live</SelectItem>
+                          <SelectItem value="sandbox">Sandbox</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {form.services.map((service, index) => (
+                      <div key={index} className="space-y-3 rounded-lg border p-3">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                          <div>
+                            <Label>Service</Label>
+                            <Input value={service.name} onChange={(e) => updateService(index, { name: e.target.value })} />
+                          </div>
+                          <div>
+                            <Label>Delivery time</Label>
+                            <Input
+                              value={service.transitTime}
+                              placeholder="e.g. 2-3 business days"
+                              onChange={(e) => updateService(index, { transitTime: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <Label>Free over (£)</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={service.freeOverValue}
+                              placeholder="Never free"
+                              onChange={(e) => updateService(index, { freeOverValue: e.target.value })}
+                            />
+                          </div>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Weight bands</Label>
+                          {service.weightBands.map((band, bandIndex) => (
+                            <div key={bandIndex} className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min="0"
+                                value={band.maxWeightKg}
+                                placeholder="No limit"
+                                onChange={(e) => updateService(index, {
+                                  weightBands: service.weightBands.map((b, i) => (i === bandIndex ? { ...b, maxWeightKg: e.target.value } : b)),
+                                })}
+                              />
+                              <span className="text-sm text-gray-500 whitespace-nowrap">kg for £</span>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={band.price}
+                                onChange={(e) => updateService(index, {
+                                  weightBands: service.weightBands.map((b, i) => (i === bandIndex ? { ...b, price: e.target.value } : b)),
+                                })}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateService(index, { weightBands: service.weightBands.filter((_, i) => i !== bandIndex) })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateService(index, { weightBands: [...service.weightBands, { maxWeightKg: '', price: '' }] })}
+                          >
+                            <Plus className="h-4 w-4 mr-1" /> Weight band
+                          </Button>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Postcode surcharges</Label>
+                          {service.postcodeBands.map((band, bandIndex) => (
+                            <div key={bandIndex} className="flex items-center gap-2">
+                              <Input
+                                value={band.prefixes}
+                                placeholder="e.g. BT, IV, PA20"
+                                onChange={(e) => updateService(index, {
+                                  postcodeBands: service.postcodeBands.map((b, i) => (i === bandIndex ? { ...b, prefixes: e.target.value } : b)),
+                                })}
+                              />
+                              <span className="text-sm text-gray-500 whitespace-nowrap">add £</span>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={band.surcharge}
+                                placeholder="No delivery"
+                                onChange={(e) => updateService(index, {
+                                  postcodeBands: service.postcodeBands.map((b, i) => (i === bandIndex ? { ...b, surcharge: e.target.value } : b)),
+                                })}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateService(index, { postcodeBands: service.postcodeBands.filter((_, i) => i !== bandIndex) })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateService(index, { postcodeBands: [...service.postcodeBands, { prefixes: '', surcharge: '' }] })}
+                          >
+                            <Plus className="h-4 w-4 mr-1" /> Postcode band
+                          </Button>
+                        </div>
+
+                        {form.services.length > 1 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setForm({ ...form, services: form.services.filter((_, i) => i !== index) })}
+                          >
+                            Remove service
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({
+                        ...form,
+                        services: [...form.services, { id: '', name: '', transitTime: '', freeOverValue: '', weightBands: [{ maxWeightKg: '', price: '' }], postcodeBands: [] }],
+                      })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" /> Add service
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                <Button onClick={() => saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? 'Saving...' : 'Save Carrier'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCOUNTING_EXPORT_FORMATS,
+  type AccountingExportFormat,
+  type AccountingSettings
+} from '@shared/accounting-export';
+
+interface AccountingExportRecord {
+  id: number;
+  format: AccountingExportFormat;
+  periodStart: string;
+  periodEnd: string;
+  rowCount: number;
+  lastExportedAt: string;
+}
+
+type AccountField = Exclude<keyof AccountingSettings, 'categoryAccounts'>;
+
+const ACCOUNT_FIELDS: Array<{ key: AccountField; label: string }> = [
+  { key: 'salesAccount', label: 'Sales' },
+  { key: 'deliveryAccount', label: 'Delivery' },
+  { key: 'transactionFeeAccount', label: 'Transaction fees' },
+  { key: 'platformFeeAccount', label: 'Platform fees' },
+  { key: 'receivablesAccount', label: 'Accounts receivable' },
+  { key: 'stripeClearingAccount', label: 'Stripe clearing' },
+  { key: 'bankAccount', label: 'Bank' },
+  { key: 'vatAccount', label: 'VAT' },
+];
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Invoices, credit notes, payouts and platform fees as CSV for Xero,
+ * QuickBooks or a general journal, plus the account codes they post to
+ */
+export function AccountingExportCard() {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<AccountingExportFormat>('xero');
+  const [from, setFrom] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+  });
+  const [to, setTo] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 0));
+  });
+  const [downloading, setDownloading] = useState(false);
+  const [showCodes, setShowCodes] = useState(false);
+  const [codes, setCodes] = useState<AccountingSettings | null>(null);
+
+  const { data: settings } = useQuery<AccountingSettings>({
+    queryKey: ['/api/accounting/settings'],
+  });
+
+  const { data: history = [] } = useQuery<AccountingExportRecord[]>({
+    queryKey: ['/api/accounting/exports'],
+  });
+
+  const { data: products = [] } = useQuery<Array<{ category?: string | null }>>({
+    queryKey: ['/api/products'],
+    enabled: showCodes,
+  });
+
+  useEffect(() => {
+    if (settings) setCodes(settings);
+  }, [settings]);
+
+  const categories = Array.from(new Set(
+    products.map(product => product.category?.trim()).filter((category): category is string => !!category)
+  )).sort();
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: AccountingSettings) => {
+      const response = await apiRequest("PUT", '/api/accounting/settings', updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/accounting/settings'] });
+      toast({ title: "Account Codes Saved", description: "Future exports will use these account codes." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save account codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch('/api/accounting/exports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ format, from, to }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to export');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `${format}-export.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      queryClient.invalidateQueries({ queryKey: ['/api/accounting/exports'] });
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Accounting Export
+        </CardTitle>
+        <CardDescription>
+          Each invoice, credit note, payout and fee is exported once per format. Exporting the same period again gives the same file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as AccountingExportFormat)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNTING_EXPORT_FORMATS) as AccountingExportFormat[]).map(key => (
+                  <SelectItem key={key} value={key}>{ACCOUNTING_EXPORT_FORMATS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+            <span className="text-sm text-gray-500">to</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          <Button onClick={handleExport} disabled={downloading || !from || !to || from > to}>
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">{ACCOUNTING_EXPORT_FORMATS[format].description}</p>
+
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium">Previous exports</h4>
+            {history.slice(0, 5).map(record => (
+              <div key={record.id} className="flex justify-between text-xs text-gray-600 border rounded p-2">
+                <span>
+                  {ACCOUNTING_EXPORT_FORMATS[record.format]?.label || record.format} ·{' '}
+                  {new Date(record.periodStart).toLocaleDateString('en-GB')} – {new Date(record.periodEnd).toLocaleDateString('en-GB')}
+                </span>
+                <span>
+                  {record.rowCount} row{record.rowCount === 1 ? '' : 's'} · {new Date(record.lastExportedAt).toLocaleDateString('en-GB')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <button
+            type="button"
+            className="flex items-center text-sm font-medium text-gray-700"
+            onClick={() => setShowCodes(!showCodes)}
+          >
+            {showCodes ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+            Account codes
+          </button>
+
+          {showCodes && codes && (
+            <div className="mt-3 space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {ACCOUNT_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs">{field.label}</Label>
+                    <Input
+                      value={codes[field.key]}
+                      onChange={(e) => setCodes({ ...codes, [field.key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {categories.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Sales account by product category</h4>
+                  <p className="text-xs text-gray-500">Leave blank to use the sales account.</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {categories.map(category => (
+                      <div key={category} className="space-y-1">
+                        <Label className="text-xs truncate">{category}</Label>
+                        <Input
+                          value={codes.categoryAccounts[category] || ''}
+                          placeholder={codes.salesAccount}
+                          onChange={(e) => setCodes({
+                            ...codes,
+                            categoryAccounts: { ...codes.categoryAccounts, [category]: e.target.value }
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saveMutation.isPending}
+                onClick={() => saveMutation.mutate(codes)}
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save Account Codes'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, Check, Clock, PoundSterling } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@shared/utils/currency';
+import { AGED_DEBT_BUCKET_LABELS, PAYMENT_TERMS_LABELS, type AgedDebtBucket, type PaymentTerms } from '@shared/payment-terms';
+
+interface AgedDebtor {
+  customerId: string;
+  customerName: string;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+  paymentTerms: string;
+  creditLimit: number | null;
+  current: number;
+  days30: number;
+  days60: number;
+  days90Plus: number;
+  total: number;
+  orders: Array<{
+    id: number;
+    orderNumber: string;
+    total: number;
+    createdAt: string;
+    paymentDueDate: string | null;
+    bucket: AgedDebtBucket;
+  }>;
+}
+
+interface AgedDebtorsReport {
+  debtors: AgedDebtor[];
+  totals: Record<AgedDebtBucket | 'total', number>;
+}
+
+const BUCKETS: AgedDebtBucket[] = ['current', 'days30', 'days60', 'days90Plus'];
+
+const BUCKET_COLORS: Record<AgedDebtBucket, string> = {
+  current: 'text-green-700',
+  days30: 'text-yellow-700',
+  days60: 'text-orange-700',
+  days90Plus: 'text-red-700',
+};
+
+export function AgedDebtorsPanel() {
+  const { toast } = useToast();
+  const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
+
+  const { data: report, isLoading } = useQuery<AgedDebtorsReport>({
+    queryKey: ['/api/customers/aged-debtors'],
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/mark-paid`);
+      return response.json();
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/aged-debtors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: "Payment Recorded",
+        description: `Order ${order.orderNumber} has been marked as paid.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6">
+          <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-20 bg-gray-200 rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const debtors = report?.debtors || [];
+  const totals = report?.totals || { current: 0, days30: 0, days60: 0, days90Plus: 0, total: 0 };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
+        {BUCKETS.map(bucket => (
+          <Card key={bucket}>
+            <CardContent className="p-4">
+              <p className="text-xs sm:text-sm text-gray-600">{AGED_DEBT_BUCKET_LABELS[bucket]}</p>
+              <p className={`text-lg sm:text-xl font-bold ${BUCKET_COLORS[bucket]}`}>{formatCurrency(totals[bucket])}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs sm:text-sm text-gray-600">Total Outstanding</p>
+            <p className="text-lg sm:text-xl font-bold">{formatCurrency(totals.total)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <PoundSterling className="h-5 w-5" />
+            <span>Aged Debtors</span>
+          </CardTitle>
+          <CardDescription>
+            Unpaid on-account orders grouped by customer and invoice age
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {debtors.length === 0 ? (
+            <div className="text-center py-12">
+              <Check className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Outstanding Balances</h3>
+              <p className="text-gray-600">All on-account orders have been paid.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">Customer</th>
+                    <th className="py-2 pr-4">Terms</th>
+                    {BUCKETS.map(bucket => (
+                      <th key={bucket} className="py-2 pr-4 text-right">{AGED_DEBT_BUCKET_LABELS[bucket]}</th>
+                    ))}
+                    <th className="py-2 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {debtors.map(debtor => {
+                    const isExpanded = expandedCustomerId === debtor.customerId;
+                    return (
+                      <React.Fragment key={debtor.customerId}>
+                        <tr
+                          className="border-b hover:bg-gray-50 cursor-pointer"
+                          onClick={() => setExpandedCustomerId(isExpanded ? null : debtor.customerId)}
+                        >
+                          <td className="py-3 pr-4">
+                            <div className="flex items-center space-x-2">
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              <div>
+                                <p className="font-medium">{debtor.customerName}</p>
+                                {debtor.creditLimit != null && (
+                                  <p className="text-xs text-gray-500">Limit {formatCurrency(debtor.creditLimit)}</p>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <Badge variant="outline">
+                              {PAYMENT_TERMS_LABELS[debtor.paymentTerms as PaymentTerms] || debtor.paymentTerms}
+                            </Badge>
+                          </td>
+                          {BUCKETS.map(bucket => (
+                            <td key={bucket} className={`py-3 pr-4 text-right ${debtor[bucket] > 0 ? BUCKET_COLORS[bucket] : 'text-gray-400'}`}>
+                              {formatCurrency(debtor[bucket])}
+                            </td>
+                          ))}
+                          <td className="py-3 text-right font-semibold">{formatCurrency(debtor.total)}</td>
+                        </tr>
+                        {isExpanded && debtor.orders.map(order => (
+                          <tr key={order.id} className="bg-gray-50 border-b text-xs sm:text-sm">
+                            <td className="py-2 pr-4 pl-8">{order.orderNumber}</td>
+                            <td className="py-2 pr-4 text-gray-600" colSpan={2}>
+                              <div className="flex items-center space-x-1">
+                                <Clock className="h-3 w-3" />
+                                <span>
+                                  Due {order.paymentDueDate ? new Date(order.paymentDueDate).toLocaleDateString('en-GB') : 'N/A'}
+                                </span>
+                              </div>
+                            </td>
+                            <td className="py-2 pr-4 text-gray-600" colSpan={2}>
+                              Placed {new Date(order.createdAt).toLocaleDateString('en-GB')}
+                            </td>
+                            <td className="py-2 pr-4 text-right">{formatCurrency(order.total)}</td>
+                            <td className="py-2 text-right">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  markPaidMutation.mutate(order.id);
+                                }}
+                                disabled={markPaidMutation.isPending}
+                              >
+                                <Check className="h-3 w-3 mr-1" />
+                                Mark Paid
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@shared/utils/currency';
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from '@shared/payment-terms';
+
+interface CreditTerms {
+  paymentTerms: string;
+  creditLimit: number | null;
+  outstandingBalance: number;
+  availableCredit: number | null;
+}
+
+interface CustomerCreditTermsDialogProps {
+  customer: { id: string; firstName?: string; lastName?: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CustomerCreditTermsDialog({ customer, open, onOpenChange }: CustomerCreditTermsDialogProps) {
+  const { toast } = useToast();
+  const [paymentTerms, setPaymentTerms] = useState<string>('immediate');
+  const [creditLimit, setCreditLimit] = useState<string>('');
+
+  const { data: creditTerms } = useQuery<CreditTerms>({
+    queryKey: [`/api/customers/${customer?.id}/credit-terms`],
+    enabled: open && !!customer?.id,
+  });
+
+  useEffect(() => {
+    if (creditTerms) {
+      setPaymentTerms(creditTerms.paymentTerms in PAYMENT_TERMS_LABELS ? creditTerms.paymentTerms : 'immediate');
+      setCreditLimit(creditTerms.creditLimit != null ? creditTerms.creditLimit.toFixed(2) : '');
+    }
+  }, [creditTerms]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/customers/${customer?.id}/credit-terms`, {
+        paymentTerms,
+        creditLimit: creditLimit === '' ? null : parseFloat(creditLimit)
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer?.id}/credit-terms`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/aged-debtors'] });
+      toast({
+        title: "Credit Terms Updated",
+        description: `Payment terms saved for ${customer?.firstName || 'customer'}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update credit terms. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Credit Terms</DialogTitle>
+          <DialogDescription>
+            Allow {customer?.firstName || 'this customer'} {customer?.lastName || ''} to order on account and pay later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Payment Terms</Label>
+            <Select value={paymentTerms} onValueChange={setPaymentTerms}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_TERMS_LABELS) as PaymentTerms[]).map(terms => (
+                  <SelectItem key={terms} value={terms}>{PAYMENT_TERMS_LABELS[terms]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit-limit">Credit Limit (£)</Label>
+            <Input
+              id="credit-limit"
+              type="number"
+              min="0"
+              step="0.01"
+              value={creditLimit}
+              onChange={(e) => setCreditLimit(e.target.value)}
+              placeholder="e.g. 2000.00"
+              disabled={paymentTerms === 'immediate'}
+            />
+          </div>
+
+          {creditTerms && creditTerms.outstandingBalance > 0 && (
+            <p className="text-sm text-gray-600">
+              Current outstanding balance: <strong>{formatCurrency(creditTerms.outstandingBalance)}</strong>
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save Terms'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CreditCard } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@shared/utils/currency';
+
+interface OrderCharge {
+  id: number;
+  type: string;
+  amount: string;
+  transactionFee: string;
+  status: string;
+  reason?: string | null;
+  failureMessage?: string | null;
+  createdAt: string;
+}
+
+interface OrderChargesPanelProps {
+  orderId: number;
+}
+
+const CHARGE_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Charge the customer's saved card for delivery that cost more than quoted
+ */
+export function OrderChargesPanel({ orderId }: OrderChargesPanelProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: charges = [] } = useQuery<OrderCharge[]>({
+    queryKey: [`/api/orders/${orderId}/charges`],
+  });
+
+  const topUpMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/delivery-top-up`, { amount, reason });
+      return response.json();
+    },
+    onSuccess: (charge: OrderCharge) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/charges`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      setAmount('');
+      setReason('');
+      toast({
+        title: "Customer Charged",
+        description: `${formatCurrency(parseFloat(charge.amount) + parseFloat(charge.transactionFee))} charged to the customer's saved card.`,
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/charges`] });
+      toast({
+        title: "Charge Failed",
+        description: error.message || "Failed to charge delivery top-up",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <h3 className="font-medium mb-2 text-sm flex items-center">
+        <CreditCard className="h-4 w-4 mr-2 text-blue-600" />
+        Delivery Top-up
+      </h3>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder="Amount"
+          className="h-8 w-24 text-xs"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <Input
+          placeholder="Reason (e.g. oversized parcel)"
+          className="h-8 text-xs flex-1"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <Button
+          size="sm"
+          className="h-8 text-xs"
+          disabled={!(parseFloat(amount) > 0) || topUpMutation.isPending}
+          onClick={() => {
+            if (window.confirm(`Charge the customer's saved card ${formatCurrency(parseFloat(amount))} plus the 5.5% card fee?`)) {
+              topUpMutation.mutate();
+            }
+          }}
+        >
+          Charge
+        </Button>
+      </div>
+
+      {charges.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {charges.map(charge => (
+            <div key={charge.id} className="flex justify-between items-center border rounded p-2 text-xs">
+              <div>
+                <span className="font-medium">{formatCurrency(parseFloat(charge.amount) + parseFloat(charge.transactionFee))}</span>
+                {charge.reason && <span className="text-gray-500"> - {charge.reason}</span>}
+                {charge.failureMessage && <div className="text-red-600">{charge.failureMessage}</div>}
+              </div>
+              <Badge className={`${CHARGE_STATUS_COLORS[charge.status] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                {charge.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pencil, Plus } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@shared/utils/currency';
+import {
+  EDITABLE_ORDER_STATUSES,
+  ORDER_EDIT_SETTLEMENT_LABELS,
+  describeOrderEditChange,
+  type OrderEditLineChange,
+  type OrderEditSettlement,
+} from '@shared/order-edits';
+
+interface EditableOrderItem {
+  id: number;
+  productId: number;
+  quantity: number;
+  sellingType?: string;
+  product: { id: number; name: string };
+}
+
+interface OrderEdit {
+  id: number;
+  changes: OrderEditLineChange[];
+  totalBefore: string;
+  totalAfter: string;
+  settlement: OrderEditSettlement;
+  settlementStatus: string;
+  settlementMessage?: string | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+interface OrderEditPreview {
+  changes: OrderEditLineChange[];
+  totalBefore: number;
+  totalAfter: number;
+  difference: number;
+  settlement: OrderEditSettlement;
+}
+
+interface OrderEditPanelProps {
+  order: { id: number; status: string; items?: EditableOrderItem[] };
+  onEdited: () => void;
+}
+
+const SETTLEMENT_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Change quantities, remove lines or add products on an order that hasn't
+ * shipped. The change is priced first so the wholesaler sees what the
+ * customer will be charged or refunded before confirming.
+ */
+export function OrderEditPanel({ order, onEdited }: OrderEditPanelProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [added, setAdded] = useState<{ productId: number; quantity: string }[]>([]);
+  const [newProductId, setNewProductId] = useState('');
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<OrderEditPreview | null>(null);
+
+  const { data: edits = [] } = useQuery<OrderEdit[]>({
+    queryKey: [`/api/orders/${order.id}/edits`],
+  });
+
+  const { data: products = [] } = useQuery<{ id: number; name: string; status: string }[]>({
+    queryKey: ['/api/products'],
+    enabled: isEditing,
+  });
+
+  const canEdit = EDITABLE_ORDER_STATUSES.includes(order.status);
+
+  const buildRequest = () => ({
+    lines: [
+      ...(order.items || [])
+        .filter(item => quantities[item.id] !== undefined && parseInt(quantities[item.id]) !== item.quantity)
+        .map(item => ({ orderItemId: item.id, quantity: parseInt(quantities[item.id]) || 0 })),
+      ...added
+        .filter(line => parseInt(line.quantity) > 0)
+        .map(line => ({ productId: line.productId, quantity: parseInt(line.quantity), sellingType: 'units' })),
+    ],
+    reason,
+  });
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setQuantities({});
+    setAdded([]);
+    setNewProductId('');
+    setReason('');
+    setPreview(null);
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Order Not Changed",
+      description: error.message || "Failed to edit order",
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/edit/preview`, buildRequest());
+      return response.json();
+    },
+    onSuccess: (result: OrderEditPreview) => setPreview(result),
+    onError,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/edit`, buildRequest());
+      return response.json();
+    },
+    onSuccess: ({ edit }: { edit: OrderEdit }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}/edits`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}/charges`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      resetForm();
+      onEdited();
+      toast({
+        title: "Order Updated",
+        description: edit.settlementStatus === 'failed'
+          ? `The order was changed but the refund failed: ${edit.settlementMessage}`
+          : "The customer has been told about the change.",
+        variant: edit.settlementStatus === 'failed' ? "destructive" : undefined,
+      });
+    },
+    onError,
+  });
+
+  const settlementDescription = (result: OrderEditPreview) => {
+    if (result.settlement === 'charge') return `Charge the customer's card ${formatCurrency(result.difference)}`;
+    if (result.settlement === 'refund') return `Refund ${formatCurrency(-result.difference)} to the customer's card`;
+    if (result.settlement === 'account') return `Adjust their account balance by ${formatCurrency(result.difference)}`;
+    return 'No payment change';
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-sm flex items-center">
+          <Pencil className="h-4 w-4 mr-2 text-blue-600" />
+          Order Changes
+        </h3>
+        {canEdit && !isEditing && (
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setIsEditing(true)}>
+            Edit Order
+          </Button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="space-y-2 border rounded p-2">
+          {order.items?.map(item => (
+            <div key={item.id} className="flex justify-between items-center text-xs">
+              <span className="flex-1 truncate">
+                {item.product.name}{item.sellingType === 'pallets' ? ' (pallets)' : ''}
+              </span>
+              <Input
+                type="number"
+                min={0}
+                className="h-7 w-20 text-xs"
+                value={quantities[item.id] ?? String(item.quantity)}
+                onChange={(e) => { setQuantities({ ...quantities, [item.id]: e.target.value }); setPreview(null); }}
+              />
+            </div>
+          ))}
+
+          {added.map((line, index) => (
+            <div key={line.productId} className="flex justify-between items-center text-xs">
+              <span className="flex-1 truncate text-green-700">
+                + {products.find(p => p.id === line.productId)?.name || 'Product'}
+              </span>
+              <Input
+                type="number"
+                min={0}
+                className="h-7 w-20 text-xs"
+                value={line.quantity}
+                onChange={(e) => {
+                  setAdded(added.map((a, i) => i === index ? { ...a, quantity: e.target.value } : a));
+                  setPreview(null);
+                }}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Select value={newProductId} onValueChange={setNewProductId}>
+              <SelectTrigger className="h-7 text-xs flex-1">
+                <SelectValue placeholder="Add a product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products
+                  .filter(p => p.status === 'active' && !order.items?.some(i => i.productId === p.id) && !added.some(a => a.productId === p.id))
+                  .map(p => (
+                    <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              disabled={!newProductId}
+              onClick={() => {
+                setAdded([...added, { productId: parseInt(newProductId), quantity: '1' }]);
+                setNewProductId('');
+                setPreview(null);
+              }}
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <Input
+            placeholder="Reason shown to the customer (e.g. out of stock)"
+            className="h-7 text-xs"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+
+          {preview && (
+            <div className="bg-gray-50 rounded p-2 text-xs space-y-1">
+              {preview.changes.map((change, index) => (
+                <div key={index}>{describeOrderEditChange(change)}</div>
+              ))}
+              <div className="font-medium">
+                Total {formatCurrency(preview.totalBefore)} → {formatCurrency(preview.totalAfter)}
+              </div>
+              <div className="text-gray-600">{settlementDescription(preview)}</div>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={resetForm}>
+              Cancel
+            </Button>
+            {preview ? (
+              <Button size="sm" className="h-7 text-xs" disabled={applyMutation.isPending} onClick={() => applyMutation.mutate()}>
+                Confirm Changes
+              </Button>
+            ) : (
+              <Button size="sm" className="h-7 text-xs" disabled={previewMutation.isPending} onClick={() => previewMutation.mutate()}>
+                Review Changes
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {edits.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {edits.map(edit => (
+            <div key={edit.id} className="border rounded p-2 text-xs">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-500">
+                  {new Date(edit.createdAt).toLocaleString('en-GB')} · {formatCurrency(parseFloat(edit.totalBefore))} → {formatCurrency(parseFloat(edit.totalAfter))}
+                </span>
+                {edit.settlement !== 'none' && (
+                  <Badge className={`${SETTLEMENT_STATUS_COLORS[edit.settlementStatus] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                    {ORDER_EDIT_SETTLEMENT_LABELS[edit.settlement]}
+                  </Badge>
+                )}
+              </div>
+              {edit.changes.map((change, index) => (
+                <div key={index}>{describeOrderEditChange(change)}</div>
+              ))}
+              {edit.reason && <div className="text-gray-500">{edit.reason}</div>}
+              {edit.settlementMessage && <div className="text-red-600">{edit.settlementMessage}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
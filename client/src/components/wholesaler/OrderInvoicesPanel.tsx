@@ -0,0 +1,129 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileText, Mail } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@shared/utils/currency';
+import { INVOICE_DOCUMENT_LABELS, type InvoiceDocumentType } from '@shared/invoices';
+
+interface InvoiceDocument {
+  id: number;
+  documentType: InvoiceDocumentType;
+  invoiceNumber: string;
+  reason?: string | null;
+  total: string;
+  currency: string;
+  issuedAt: string;
+  emailedAt?: string | null;
+}
+
+/**
+ * The order's invoice and any credit notes raised against it by refunds,
+ * returns or order changes
+ */
+export function OrderInvoicesPanel({ orderId }: { orderId: number }) {
+  const { toast } = useToast();
+
+  const { data: documents = [] } = useQuery<InvoiceDocument[]>({
+    queryKey: [`/api/orders/${orderId}/invoices`],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Invoice Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  // For orders placed before invoicing, or where issuing at checkout failed
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/invoices`);
+      return response.json();
+    },
+    onSuccess: (document: InvoiceDocument) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/invoices`] });
+      toast({ title: "Invoice Issued", description: `${document.invoiceNumber} has been issued and emailed to the customer.` });
+    },
+    onError,
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/invoices/${id}/email`);
+      return response.json();
+    },
+    onSuccess: (document: InvoiceDocument) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/invoices`] });
+      toast({ title: "Email Sent", description: `${document.invoiceNumber} has been emailed to the customer.` });
+    },
+    onError,
+  });
+
+  const hasInvoice = documents.some(document => document.documentType === 'invoice');
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-sm flex items-center">
+          <FileText className="h-4 w-4 mr-2 text-blue-600" />
+          Invoices
+        </h3>
+        {!hasInvoice && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={issueMutation.isPending}
+            onClick={() => issueMutation.mutate()}
+          >
+            {issueMutation.isPending ? 'Issuing...' : 'Issue Invoice'}
+          </Button>
+        )}
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-xs text-gray-500">No invoice has been issued for this order yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {documents.map(document => (
+            <div key={document.id} className="flex justify-between items-center gap-2 text-xs border rounded p-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{document.invoiceNumber}</span>
+                  <Badge variant={document.documentType === 'credit_note' ? 'secondary' : 'outline'} className="text-xs">
+                    {INVOICE_DOCUMENT_LABELS[document.documentType]}
+                  </Badge>
+                </div>
+                <div className="text-gray-500 truncate">
+                  {new Date(document.issuedAt).toLocaleDateString('en-GB')}
+                  {document.reason ? ` · ${document.reason}` : ''}
+                  {document.emailedAt ? ' · Emailed' : ''}
+                </div>
+              </div>
+              <span className="font-medium">
+                {document.documentType === 'credit_note' ? '-' : ''}{formatCurrency(document.total, document.currency)}
+              </span>
+              <a href={`/api/invoices/${document.id}/pdf`} title="Download PDF">
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0"><Download className="h-3 w-3" /></Button>
+              </a>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                title="Email to customer"
+                disabled={emailMutation.isPending}
+                onClick={() => emailMutation.mutate(document.id)}
+              >
+                <Mail className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Truck, PackageX, Clock, CheckCircle } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { getOutstandingQuantity } from '@shared/order-fulfilment';
+
+interface FulfilmentItem {
+  id: number;
+  quantity: number;
+  fulfilledQuantity?: number;
+  backorderedQuantity?: number;
+  cancelledQuantity?: number;
+  product?: { name: string };
+}
+
+interface OrderShipment {
+  id: number;
+  shipmentNumber: number;
+  status: string;
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  shippingOrderId?: string | null;
+  dispatchedAt?: string | null;
+  deliveredAt?: string | null;
+  items: Array<{ orderItemId: number; quantity: number }>;
+}
+
+interface OrderShipmentsPanelProps {
+  orderId: number;
+}
+
+const SHIPMENT_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  dispatched: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function OrderShipmentsPanel({ orderId }: OrderShipmentsPanelProps) {
+  const { toast } = useToast();
+  const [shipQuantities, setShipQuantities] = useState<Record<number, string>>({});
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+
+  const { data: order } = useQuery<{ items: FulfilmentItem[] }>({
+    queryKey: [`/api/orders/${orderId}`],
+  });
+
+  const { data: shipments = [] } = useQuery<OrderShipment[]>({
+    queryKey: [`/api/orders/${orderId}/shipments`],
+  });
+
+  const items = order?.items || [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}/shipments`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/backorders'] });
+  };
+
+  const createShipmentMutation = useMutation({
+    mutationFn: async (lines: Array<{ orderItemId: number; quantity: number }>) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/shipments`, { lines, carrier, trackingNumber });
+      return response.json();
+    },
+    onSuccess: (shipment) => {
+      refresh();
+      setShipQuantities({});
+      setCarrier('');
+      setTrackingNumber('');
+      toast({
+        title: "Shipment Created",
+        description: `Shipment #${shipment.shipmentNumber} has been recorded.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create shipment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async (line: { orderItemId: number; backorderQuantity?: number; cancelQuantity?: number }) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}/fulfilment`, { lines: [line] });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Order Updated",
+        description: "Line fulfilment has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update order line",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const markDeliveredMutation = useMutation({
+    mutationFn: async (shipmentId: number) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}/shipments/${shipmentId}`, { status: 'delivered' });
+      return response.json();
+    },
+    onSuccess: () => refresh(),
+  });
+
+  const handleShipAllOutstanding = () => {
+    const lines = items
+      .map(item => ({ orderItemId: item.id, quantity: getOutstandingQuantity(item) }))
+      .filter(line => line.quantity > 0);
+    createShipmentMutation.mutate(lines);
+  };
+
+  const handleShipSelected = () => {
+    const lines = Object.entries(shipQuantities)
+      .map(([orderItemId, quantity]) => ({ orderItemId: parseInt(orderItemId), quantity: parseInt(quantity) || 0 }))
+      .filter(line => line.quantity > 0);
+    createShipmentMutation.mutate(lines);
+  };
+
+  const hasOutstanding = items.some(item => getOutstandingQuantity(item) > 0);
+  const hasSelection = Object.values(shipQuantities).some(quantity => parseInt(quantity) > 0);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-medium mb-2 text-sm flex items-center">
+        <Truck className="h-4 w-4 mr-2 text-blue-600" />
+        Fulfilment
+      </h3>
+
+      <div className="space-y-2">
+        {items.map(item => {
+          const outstanding = getOutstandingQuantity(item);
+          const backordered = item.backorderedQuantity || 0;
+          return (
+            <div key={item.id} className="border rounded p-2 text-xs space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{item.product?.name || 'Unknown Product'}</span>
+                <span className="text-gray-500">Ordered {item.quantity}</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {(item.fulfilledQuantity || 0) > 0 && (
+                  <Badge className="bg-blue-100 text-blue-800 text-xs">Shipped {item.fulfilledQuantity}</Badge>
+                )}
+                {outstanding > 0 && (
+                  <Badge className="bg-yellow-100 text-yellow-800 text-xs">To ship {outstanding}</Badge>
+                )}
+                {backordered > 0 && (
+                  <Badge className="bg-orange-100 text-orange-800 text-xs">Backordered {backordered}</Badge>
+                )}
+                {(item.cancelledQuantity || 0) > 0 && (
+                  <Badge className="bg-red-100 text-red-800 text-xs">Cancelled {item.cancelledQuantity}</Badge>
+                )}
+              </div>
+              {(outstanding > 0 || backordered > 0) && (
+                <div className="flex items-center gap-2 pt-1">
+                  {outstanding > 0 && (
+                    <>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={outstanding}
+                        placeholder="Qty"
+                        className="h-7 w-16 text-xs"
+                        value={shipQuantities[item.id] || ''}
+                        onChange={(e) => setShipQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        disabled={adjustMutation.isPending}
+                        onClick={() => adjustMutation.mutate({ orderItemId: item.id, backorderQuantity: outstanding })}
+                      >
+                        <Clock className="h-3 w-3 mr-1" />
+                        Backorder {outstanding}
+                      </Button>
+                    </>
+                  )}
+                  {backordered > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs text-red-600"
+                      disabled={adjustMutation.isPending}
+                      onClick={() => adjustMutation.mutate({ orderItemId: item.id, cancelQuantity: backordered })}
+                    >
+                      <PackageX className="h-3 w-3 mr-1" />
+                      Cancel backorder
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {hasOutstanding && (
+        <div className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Carrier"
+              className="h-8 text-xs"
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+            />
+            <Input
+              placeholder="Tracking number"
+              className="h-8 text-xs"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1 text-xs"
+              disabled={!hasSelection || createShipmentMutation.isPending}
+              onClick={handleShipSelected}
+            >
+              Ship Selected
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 text-xs"
+              disabled={createShipmentMutation.isPending}
+              onClick={handleShipAllOutstanding}
+            >
+              Ship All Outstanding
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {shipments.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {shipments.map(shipment => (
+            <div key={shipment.id} className="flex justify-between items-center border rounded p-2 text-xs">
+              <div>
+                <div className="font-medium">
+                  Shipment #{shipment.shipmentNumber}
+                  <Badge className={`${SHIPMENT_STATUS_COLORS[shipment.status] || 'bg-gray-100 text-gray-800'} text-xs ml-2`}>
+                    {shipment.status}
+                  </Badge>
+                </div>
+                <div className="text-gray-500">
+                  {shipment.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                  {shipment.carrier && ` · ${shipment.carrier}`}
+                  {shipment.trackingNumber && ` · ${shipment.trackingNumber}`}
+                </div>
+              </div>
+              {shipment.status !== 'delivered' && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs"
+                  disabled={markDeliveredMutation.isPending}
+                  onClick={() => markDeliveredMutation.mutate(shipment.id)}
+                >
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Delivered
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
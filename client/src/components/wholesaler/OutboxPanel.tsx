@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Inbox, RotateCcw } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  OUTBOX_MESSAGE_LABELS,
+  OUTBOX_STATUS_LABELS,
+  type OutboxMessageType,
+  type OutboxStatus
+} from '@shared/outbox';
+
+interface OutboxMessage {
+  id: number;
+  type: OutboxMessageType;
+  orderId: number | null;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_VARIANTS: Record<OutboxStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  processing: 'secondary',
+  delivered: 'outline',
+  dead: 'destructive',
+};
+
+/**
+ * Emails, invoices and notifications sent after orders are placed. Failed
+ * messages (the dead letters) can be replayed once the cause is fixed.
+ */
+export function OutboxPanel() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<OutboxStatus | 'all'>('dead');
+
+  const queryKey = status === 'all' ? '/api/admin/outbox' : `/api/admin/outbox?status=${status}`;
+  const { data: messages = [], isLoading } = useQuery<OutboxMessage[]>({
+    queryKey: [queryKey],
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/outbox/${id}/replay`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/outbox') });
+      toast({ title: "Message Queued", description: "It will be sent again in a moment." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              Message Delivery
+            </CardTitle>
+            <CardDescription>
+              Order emails, invoices and notifications. Failures are retried automatically; ones that run out of attempts are listed as failed.
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as OutboxStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All messages</SelectItem>
+              {(Object.keys(OUTBOX_STATUS_LABELS) as OutboxStatus[]).map(key => (
+                <SelectItem key={key} value={key}>{OUTBOX_STATUS_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {status === 'dead' ? 'No failed messages - everything has been delivered.' : 'No messages.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {messages.map(message => (
+              <div key={message.id} className="flex justify-between items-start gap-3 border rounded p-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{OUTBOX_MESSAGE_LABELS[message.type] || message.type}</span>
+                    {message.orderId && <span className="text-gray-500">Order #{message.orderId}</span>}
+                    <Badge variant={STATUS_VARIANTS[message.status]} className="text-xs">
+                      {OUTBOX_STATUS_LABELS[message.status]}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Queued {new Date(message.createdAt).toLocaleString('en-GB')}
+                    {` · ${message.attempts}/${message.maxAttempts} attempts`}
+                    {message.deliveredAt && ` · Delivered ${new Date(message.deliveredAt).toLocaleString('en-GB')}`}
+                    {message.status === 'pending' && message.attempts > 0 && ` · Next try ${new Date(message.nextAttemptAt).toLocaleString('en-GB')}`}
+                  </div>
+                  {message.lastError && message.status !== 'delivered' && (
+                    <div className="text-xs text-red-600 mt-1 break-words">{message.lastError}</div>
+                  )}
+                </div>
+                {(message.status === 'dead' || message.status === 'delivered') && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs shrink-0"
+                    disabled={replayMutation.isPending}
+                    onClick={() => replayMutation.mutate(message.id)}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {message.status === 'dead' ? 'Retry' : 'Send Again'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
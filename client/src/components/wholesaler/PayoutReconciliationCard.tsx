@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ChevronDown, ChevronRight, Landmark } from 'lucide-react';
+import { formatCurrency } from '@shared/utils/currency';
+import {
+  PAYOUT_TRANSACTION_CATEGORY_LABELS,
+  type PayoutReconciliation,
+  type PayoutSummary
+} from '@shared/payout-reconciliation';
+
+/**
+ * Stripe payouts to the wholesaler's bank, each opening up to the charges,
+ * refunds and fees inside it and the orders they belong to
+ */
+export function PayoutReconciliationCard() {
+  const [expandedPayoutId, setExpandedPayoutId] = useState<string | null>(null);
+
+  const { data: payouts = [], isLoading, error } = useQuery<PayoutSummary[]>({
+    queryKey: ['/api/stripe/payouts'],
+    retry: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Payout Reconciliation
+        </CardTitle>
+        <CardDescription>
+          Match each bank payout to the orders inside it. Charges, refunds and fees that can't be linked to an order are flagged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : error ? (
+          <p className="text-sm text-gray-600">{(error as Error).message}</p>
+        ) : payouts.length === 0 ? (
+          <p className="text-sm text-gray-600">No payouts yet. Payouts appear here once Stripe pays your balance into your bank.</p>
+        ) : (
+          <div className="space-y-2">
+            {payouts.map(payout => (
+              <div key={payout.id} className="border rounded-lg">
+                <button
+                  type="button"
+                  className="w-full flex justify-between items-center gap-2 p-3 text-sm text-left hover:bg-gray-50"
+                  onClick={() => setExpandedPayoutId(expandedPayoutId === payout.id ? null : payout.id)}
+                >
+                  <div className="flex items-center gap-2">
+                    {expandedPayoutId === payout.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <span className="font-medium">{new Date(payout.arrivalDate).toLocaleDateString('en-GB')}</span>
+                    <Badge variant="outline" className="text-xs capitalize">{payout.status.replace('_', ' ')}</Badge>
+                    {!payout.automatic && <Badge variant="secondary" className="text-xs">Manual</Badge>}
+                  </div>
+                  <span className="font-medium">{formatCurrency(payout.amount, payout.currency)}</span>
+                </button>
+                {expandedPayoutId === payout.id && <PayoutTransactions payout={payout} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PayoutTransactions({ payout }: { payout: PayoutSummary }) {
+  const { data: reconciliation, isLoading, error } = useQuery<PayoutReconciliation>({
+    queryKey: [`/api/stripe/payouts/${payout.id}/reconciliation`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <div className="h-16 m-3 bg-gray-100 rounded animate-pulse"></div>;
+  }
+  if (error || !reconciliation) {
+    return <p className="p-3 text-sm text-red-600">{(error as Error)?.message || 'Could not load this payout'}</p>;
+  }
+
+  const money = (amount: number) => formatCurrency(amount, payout.currency);
+
+  return (
+    <div className="border-t p-3 space-y-3">
+      {!payout.automatic && (
+        <p className="text-xs text-gray-500">Manual payouts aren't tied to particular transactions, so there is nothing to reconcile.</p>
+      )}
+      {(reconciliation.unmatchedCount > 0 || reconciliation.difference !== 0) && (
+        <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>
+            {reconciliation.unmatchedCount > 0 && `${reconciliation.unmatchedCount} transaction${reconciliation.unmatchedCount === 1 ? '' : 's'} could not be matched to an order. `}
+            {reconciliation.difference !== 0 && `The payout differs from its transactions by ${money(reconciliation.difference)}.`}
+          </span>
+        </div>
+      )}
+
+      {reconciliation.transactions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-2 font-medium">Date</th>
+                <th className="py-2 px-2 font-medium">Type</th>
+                <th className="py-2 px-2 font-medium">Order</th>
+                <th className="py-2 px-2 font-medium text-right">Amount</th>
+                <th className="py-2 px-2 font-medium text-right">Fee</th>
+                <th className="py-2 pl-2 font-medium text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliation.transactions.map(transaction => (
+                <tr key={transaction.id} className={`border-b ${transaction.unmatched ? 'bg-red-50' : ''}`}>
+                  <td className="py-2 pr-2">{new Date(transaction.createdAt).toLocaleDateString('en-GB')}</td>
+                  <td className="py-2 px-2">
+                    {PAYOUT_TRANSACTION_CATEGORY_LABELS[transaction.category]}
+                    {transaction.description && <div className="text-gray-500 truncate max-w-48">{transaction.description}</div>}
+                  </td>
+                  <td className="py-2 px-2">
+                    {transaction.orderNumber ? (
+                      <span>
+                        {transaction.orderNumber}
+                        {transaction.orderChargeId && <span className="text-gray-500"> (extra charge)</span>}
+                      </span>
+                    ) : transaction.unmatched ? (
+                      <span className="text-red-600 font-medium">Unmatched</span>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right">{money(transaction.amount)}</td>
+                  <td className="py-2 px-2 text-right">{money(-transaction.fee)}</td>
+                  <td className="py-2 pl-2 text-right">{money(transaction.net)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2 pr-2" colSpan={3}>Total</td>
+                <td className="py-2 px-2 text-right">{money(reconciliation.totals.gross)}</td>
+                <td className="py-2 px-2 text-right">{money(-reconciliation.totals.fees)}</td>
+                <td className="py-2 pl-2 text-right">{money(reconciliation.totals.net)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
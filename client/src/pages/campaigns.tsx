@@ -142,6 +142,7 @@ interface Campaign {
   includePurchaseLink: boolean;
   campaignType: 'single' | 'multi';
   status: string;
+  scheduledAt?: string;
   createdAt: string;
   specialPrice?: string;
   product?: Product;
@@ -154,6 +155,8 @@ interface Campaign {
   }>;
   sentCampaigns: Array<{
     id: number;
+    status?: string;
+    scheduledAt?: string;
     sentAt?: string;
     recipientCount: number;
     clickCount: number;
@@ -163,6 +166,18 @@ interface Campaign {
   }>;
 }
 
+// Pending scheduled sends with the endpoint that cancels each one
+const getScheduledSends = (campaign: Campaign): Array<{ cancelUrl: string; scheduledAt: string }> => {
+  if (campaign.campaignType === 'single') {
+    return campaign.status === 'scheduled' && campaign.scheduledAt
+      ? [{ cancelUrl: `/api/broadcasts/${campaign.id.split('_')[1]}/cancel`, scheduledAt: campaign.scheduledAt }]
+      : [];
+  }
+  return campaign.sentCampaigns
+    .filter(sent => sent.status === 'scheduled' && sent.scheduledAt)
+    .map(sent => ({ cancelUrl: `/api/template-campaigns/${sent.id}/cancel`, scheduledAt: sent.scheduledAt! }));
+};
+
 // Helper functions for promotional offers (now uses product-level offers only)
 const hasPromotionalOffers = (campaign: Campaign) => {
   if (campaign.campaignType === 'single') {
@@ -227,6 +242,7 @@ export default function Campaigns() {
   const [campaignType, setCampaignType] = useState<'single' | 'multi'>('single');
   const [selectedProducts, setSelectedProducts] = useState<Array<{productId: number; quantity: number; specialPrice?: string}>>([]);
   const [editableMessage, setEditableMessage] = useState<string>("");
+  const [sendLaterAt, setSendLaterAt] = useState<string>("");
   const [isEditingMessage, setIsEditingMessage] = useState<boolean>(false);
   // Removed campaign-level promotional offers - now managed at product level only
   const [activeTab, setActiveTab] = useState<'campaigns'>('campaigns');
@@ -333,6 +349,7 @@ export default function Campaigns() {
         campaignId,
         customerGroupId,
         customMessage: editableMessage || undefined, // Include edited message if exists
+        scheduledAt: sendLaterAt ? new Date(sendLaterAt).toISOString() : undefined,
       });
       
       if (!response.ok) {
@@ -342,12 +359,13 @@ export default function Campaigns() {
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
       setIsSendOpen(false);
+      setSendLaterAt("");
       toast({
-        title: "Campaign Sent",
-        description: "Your marketing campaign has been sent successfully!",
+        title: data?.scheduled ? "Campaign Scheduled" : "Campaign Sent",
+        description: data?.scheduled ? data.message : "Your marketing campaign has been sent successfully!",
       });
     },
     onError: async (error: any, variables) => {
@@ -370,6 +388,28 @@ export default function Campaigns() {
     },
   });
 
+  // Cancel scheduled send mutation
+  const cancelScheduledMutation = useMutation({
+    mutationFn: async (cancelUrl: string) => {
+      const response = await apiRequest("POST", cancelUrl, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      toast({
+        title: "Scheduled Send Cancelled",
+        description: "This campaign will not be sent.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Stock refresh mutation
   const stockRefreshMutation = useMutation({
     mutationFn: async ({ campaignId }: { campaignId: string }) => {
@@ -1253,8 +1293,8 @@ export default function Campaigns() {
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between mb-2">
                 <CardTitle className="text-lg font-semibold truncate">{campaign.title}</CardTitle>
-                <Badge variant={campaign.sentCampaigns.length > 0 ? 'default' : 'outline'}>
-                  {campaign.sentCampaigns.length > 0 ? 'Sent' : 'Draft'}
+                <Badge variant={campaign.status === 'sent' ? 'default' : campaign.status === 'scheduled' ? 'secondary' : 'outline'}>
+                  {campaign.status === 'sent' ? 'Sent' : campaign.status === 'scheduled' ? 'Scheduled' : 'Draft'}
                 </Badge>
               </div>
                 <div className="flex items-center justify-between text-sm">
@@ -1294,6 +1334,28 @@ export default function Campaigns() {
                     })()}
                   </div>
                 )}
+                {getScheduledSends(campaign).map(send => (
+                  <div key={send.cancelUrl} className="flex items-center justify-between text-xs text-blue-700 mt-2">
+                    <span className="flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      Scheduled: {new Date(send.scheduledAt).toLocaleDateString('en-GB', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      disabled={cancelScheduledMutation.isPending}
+                      onClick={() => cancelScheduledMutation.mutate(send.cancelUrl)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                ))}
               </CardHeader>
             <CardContent className="space-y-3 sm:space-y-4">
               {campaign.campaignType === 'single' ? (
@@ -1639,6 +1701,18 @@ export default function Campaigns() {
                 </div>
               )}
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Send Later (Optional)
+                </label>
+                <Input
+                  type="datetime-local"
+                  value={sendLaterAt}
+                  onChange={(e) => setSendLaterAt(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank to send as soon as you pick a group.</p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Select Customer Group
@@ -1648,7 +1722,10 @@ export default function Campaigns() {
                   const selectedGroup = (customerGroups as CustomerGroup[]).find(g => g.id === groupId);
                   
                   if (selectedGroup) {
-                    const confirmMessage = `Are you sure you want to send "${selectedCampaign.title}" to all ${selectedGroup.memberCount || 0} members of "${selectedGroup.name}"?\n\nThis action will immediately send WhatsApp messages to all group members and cannot be undone.`;
+                    const memberCount = selectedGroup.memberCount || 0;
+                    const confirmMessage = sendLaterAt
+                      ? `Schedule "${selectedCampaign.title}" for ${new Date(sendLaterAt).toLocaleString('en-GB')} to all ${memberCount} members of "${selectedGroup.name}"?\n\nYou can cancel or reschedule it until then.`
+                      : `Are you sure you want to send "${selectedCampaign.title}" to all ${memberCount} members of "${selectedGroup.name}"?\n\nThis action will immediately send WhatsApp messages to all group members and cannot be undone.`;
                     
                     if (window.confirm(confirmMessage)) {
                       sendCampaignMutation.mutate({
@@ -35,6 +35,10 @@ import { ModernCustomerHome } from "@/components/customer/ModernCustomerHome";
 import { DeliveryAddressManager } from "@/components/customer/DeliveryAddressManager";
 import { FirstTimeAddressSetup } from "@/components/customer/FirstTimeAddressSetup";
 import { AddressSelector } from "@/components/customer/AddressSelector";
+import { PayOnAccountOption } from "@/components/customer/PayOnAccountOption";
+import { CustomerNegotiations, type CustomerNegotiation } from "@/components/customer/CustomerNegotiations";
+import { CustomerStandingOrders } from "@/components/customer/CustomerStandingOrders";
+import { CustomerSavedCards, formatSavedCard, type SavedCard } from "@/components/customer/CustomerSavedCards";
 import { useOptimizedQuery, useCriticalQuery } from "@/hooks/useOptimizedQuery";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { ProductGridSkeleton } from "@/components/ui/loading-skeletons";
@@ -46,6 +50,8 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PromotionalPricingCalculator, type PromotionalOffer } from "@shared/promotional-pricing";
 import { Product as ProductType, PromotionalOfferType } from "@shared/schema";
 import { cleanAIDescription } from "@shared/utils";
+import type { CollectionDepot } from "@shared/warehouses";
+import type { SlotOption } from "@shared/fulfilment-slots";
 
 import { formatCurrency, formatNumber } from "@shared/utils/currency";
 import { QuikpikFooter } from "@/components/ui/quikpik-footer";
@@ -74,6 +80,7 @@ type CartItem = {
   product: ExtendedProduct;
   quantity: number;
   sellingType: "units" | "pallets";
+  negotiationId?: number; // Checking out at a price agreed through negotiation
 };
 
 // Initialize Stripe
@@ -289,6 +296,9 @@ interface CustomerData {
   country: string;
   notes: string;
   shippingOption: "pickup" | "delivery" | undefined;
+  collectionWarehouseId?: number;
+  slotId?: number;
+  slotDate?: string;
   selectedDeliveryAddress?: any;
   selectedShippingService?: any;
 }
@@ -300,6 +310,7 @@ interface StripeCheckoutFormProps {
   wholesaler: any;
   totalAmount: number;
   clientSecret: string;
+  canSaveCard?: boolean; // Signed-in customers can pay with a saved card or save this one
   onSuccess: (orderData: {
     orderNumber: string;
     cart: CartItem[];
@@ -311,7 +322,7 @@ interface StripeCheckoutFormProps {
   }) => void;
 }
 
-const StripeCheckoutForm = ({ cart, customerData, wholesaler, totalAmount, clientSecret, onSuccess }: StripeCheckoutFormProps) => {
+const StripeCheckoutForm = ({ cart, customerData, wholesaler, totalAmount, clientSecret, canSaveCard, onSuccess }: StripeCheckoutFormProps) => {
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
 
   // Note: Shipping handled directly by supplier - no payment intent recreation needed for shipping changes
@@ -366,6 +377,8 @@ const StripeCheckoutForm = ({ cart, customerData, wholesaler, totalAmount, clien
         onSuccess={onSuccess} 
         totalAmount={totalAmount} 
         wholesaler={wholesaler}
+        clientSecret={clientSecret}
+        canSaveCard={!!canSaveCard}
       />
     </Elements>
   );
@@ -375,15 +388,28 @@ const StripeCheckoutForm = ({ cart, customerData, wholesaler, totalAmount, clien
 const PaymentFormContent = ({ 
   onSuccess, 
   totalAmount, 
-  wholesaler
+  wholesaler,
+  clientSecret,
+  canSaveCard
 }: { 
   onSuccess: (orderData?: any) => void;
   totalAmount: number;
   wholesaler: any;
+  clientSecret: string;
+  canSaveCard: boolean;
 }) => {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
+  const { data: savedCards = [] } = useQuery<SavedCard[]>({
+    queryKey: ['/api/customer/payment-methods'],
+    enabled: canSaveCard,
+    retry: false,
+  });
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [saveCard, setSaveCard] = useState(false);
+  // Pay with the default saved card unless the customer picks another or a new card
+  const paymentCardId = selectedCardId ?? savedCards.find(card => card.isDefault)?.id ?? 'new';
   const [paymentSubmitted, setPaymentSubmitted] = useState(false);
   const [paymentFailureDialog, setPaymentFailureDialog] = useState<{
     isOpen: boolean;
@@ -408,14 +434,26 @@ const PaymentFormContent = ({
     setPaymentSubmitted(true); // Prevent multiple submissions
 
     try {
-      
-      const { error, paymentIntent } = await stripe.confirmPayment({
-        elements,
-        confirmParams: {
-          return_url: `${window.location.origin}/payment-success`,
-        },
-        redirect: "if_required",
-      });
+      let result;
+      if (paymentCardId !== 'new') {
+        // Saved cards are already attached to the customer - Stripe handles any 3D Secure check
+        result = await stripe.confirmCardPayment(clientSecret, { payment_method: paymentCardId });
+      } else {
+        if (saveCard) {
+          await apiRequest("POST", "/api/customer/create-payment/save-card", {
+            paymentIntentId: clientSecret.split('_secret_')[0]
+          });
+          await elements.fetchUpdates();
+        }
+        result = await stripe.confirmPayment({
+          elements,
+          confirmParams: {
+            return_url: `${window.location.origin}/payment-success`,
+          },
+          redirect: "if_required",
+        });
+      }
+      const { error, paymentIntent } = result;
 
       console.log('💳 Payment confirmation result:', { 
         hasError: !!error, 
@@ -630,8 +668,42 @@ const PaymentFormContent = ({
   return (
     <>
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div className="p-4 border rounded-lg">
+        {savedCards.length > 0 && (
+          <div className="space-y-2">
+            {savedCards.map(card => (
+              <label key={card.id} className="flex items-center gap-2 p-3 border rounded-lg cursor-pointer text-sm">
+                <input
+                  type="radio"
+                  name="checkout-card"
+                  checked={paymentCardId === card.id}
+                  onChange={() => setSelectedCardId(card.id)}
+                />
+                <CreditCard className="w-4 h-4" />
+                <span>{formatSavedCard(card)}</span>
+                <span className="text-xs text-gray-500">Expires {String(card.expMonth).padStart(2, '0')}/{card.expYear}</span>
+              </label>
+            ))}
+            <label className="flex items-center gap-2 p-3 border rounded-lg cursor-pointer text-sm">
+              <input
+                type="radio"
+                name="checkout-card"
+                checked={paymentCardId === 'new'}
+                onChange={() => setSelectedCardId('new')}
+              />
+              <Plus className="w-4 h-4" />
+              <span>Use a new card</span>
+            </label>
+          </div>
+        )}
+
+        <div className={`p-4 border rounded-lg ${paymentCardId !== 'new' ? 'hidden' : ''}`}>
           <PaymentElement />
+          {canSaveCard && (
+            <label className="flex items-center gap-2 mt-3 text-sm cursor-pointer">
+              <input type="checkbox" checked={saveCard} onChange={(e) => setSaveCard(e.target.checked)} />
+              Save this card for future orders
+            </label>
+          )}
         </div>
         
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
@@ -1052,13 +1124,33 @@ export default function CustomerPortal() {
     console.log('🚚 FRONTEND: customerData.shippingOption changed to:', customerData.shippingOption);
   }, [customerData.shippingOption]);
 
+  // Delivery days and collection windows the wholesaler takes bookings for (empty when they don't use slots)
+  const { data: collectionSlots = [], isLoading: collectionSlotsLoading } = useQuery<SlotOption[]>({
+    queryKey: [`/api/marketplace/wholesaler/${wholesalerId}/fulfilment-slots?type=collection${customerData.collectionWarehouseId ? `&warehouseId=${customerData.collectionWarehouseId}` : ''}`],
+    enabled: !!wholesalerId && showCheckout,
+  });
+  const { data: deliverySlots = [], isLoading: deliverySlotsLoading } = useQuery<SlotOption[]>({
+    queryKey: [`/api/marketplace/wholesaler/${wholesalerId}/fulfilment-slots?type=delivery`],
+    enabled: !!wholesalerId && showCheckout,
+  });
+  const slotsLoading = collectionSlotsLoading || deliverySlotsLoading;
+  const getSlotOptions = (option?: 'pickup' | 'delivery') =>
+    option === 'delivery' ? deliverySlots : option === 'pickup' ? collectionSlots : [];
+  // A slot has to be booked before paying once the wholesaler offers slots for the chosen option
+  const isSlotMissing = (data: CustomerData, option?: 'pickup' | 'delivery') => {
+    const options = getSlotOptions(option);
+    return options.length > 0 && !options.some(slot => slot.slotId === data.slotId && slot.date === data.slotDate);
+  };
+  const checkoutSlotOptions = getSlotOptions(customerData.shippingOption);
+  const checkoutSlotMissing = isSlotMissing(customerData, customerData.shippingOption);
+
   // Auto-create payment intent when checkout opens with pre-selected shipping
   useEffect(() => {
-    if (showCheckout && customerData.shippingOption && !clientSecret && !isCreatingIntent && cart.length > 0) {
+    if (showCheckout && customerData.shippingOption && !clientSecret && !isCreatingIntent && cart.length > 0 && !slotsLoading && !checkoutSlotMissing) {
       console.log('🚚 AUTO-CREATING: Payment intent on checkout open with pre-selected shipping:', customerData.shippingOption);
       createPaymentIntentForCheckout(customerData.shippingOption);
     }
-  }, [showCheckout, customerData.shippingOption, clientSecret, isCreatingIntent, cart.length]);
+  }, [showCheckout, customerData.shippingOption, clientSecret, isCreatingIntent, cart.length, slotsLoading, checkoutSlotMissing]);
 
 
 
@@ -1430,6 +1522,34 @@ export default function CustomerPortal() {
     });
   }, [toast, isPreviewMode]);
 
+  // Negotiated lines carry the agreed price as the product price so every cart total picks it up
+  const addNegotiatedToCart = useCallback((negotiation: CustomerNegotiation) => {
+    const product = products.find((p: Product) => p.id === negotiation.productId) as ExtendedProduct | undefined;
+    if (!product || !negotiation.agreedPrice) {
+      toast({
+        title: "Product Unavailable",
+        description: "This product is no longer available to order.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCart(prevCart => [
+      ...prevCart.filter(item => !(item.product.id === product.id && item.sellingType === "units")),
+      {
+        product: { ...product, price: negotiation.agreedPrice!, promoPrice: null, promoActive: false, promotionalOffers: [] },
+        quantity: negotiation.quantity,
+        sellingType: "units",
+        negotiationId: negotiation.id
+      }
+    ]);
+
+    toast({
+      title: "Added to Cart",
+      description: `${product.name} (${negotiation.quantity} units) added at your negotiated price`,
+    });
+  }, [products, toast]);
+
   // Simple payment intent creation - use explicit shipping option from radio buttons
   const createPaymentIntentForCheckout = useCallback(async (explicitShippingOption?: 'pickup' | 'delivery') => {
     // CRITICAL FIX: Use explicit shipping option only - no auto-detection
@@ -1511,6 +1631,11 @@ export default function CustomerPortal() {
       console.log('🚚 Payment intent already exists or is being created - SKIPPING (no shipping change)');
       return;
     }
+
+    // Wait for the customer to pick a slot - choosing one creates the payment intent
+    if (slotsLoading || isSlotMissing(customerData, shippingOption)) {
+      return;
+    }
     
     if (!wholesaler) {
       console.log('🚚 No wholesaler data - SKIPPING');
@@ -1582,10 +1707,14 @@ export default function CustomerPortal() {
               return pricing.effectivePrice;
             }
           })(),
-          sellingType: item.sellingType
+          sellingType: item.sellingType,
+          negotiationId: item.negotiationId
         })),
         shippingInfo: {
-          option: shippingOption
+          option: shippingOption,
+          collectionWarehouseId: shippingOption === 'pickup' ? customerData.collectionWarehouseId : undefined,
+          slotId: customerData.slotId,
+          slotDate: customerData.slotDate
         }
       };
       
@@ -1643,7 +1772,7 @@ export default function CustomerPortal() {
     } finally {
       setIsCreatingIntent(false);
     }
-  }, [isCreatingIntent, clientSecret, wholesaler, customerData, cart, toast]);
+  }, [isCreatingIntent, clientSecret, wholesaler, customerData, cart, toast, slotsLoading, collectionSlots, deliverySlots]);
 
   // Helper function to create payment intent with custom customer data (fixes race condition)
   const createPaymentIntentWithCustomData = useCallback(async (customData: typeof customerData, shippingOption: 'pickup' | 'delivery') => {
@@ -1651,6 +1780,10 @@ export default function CustomerPortal() {
       console.log('🚚 Payment intent already exists or is being created - SKIPPING');
       return;
     }
+
+    if (slotsLoading || isSlotMissing(customData, shippingOption)) {
+      return;
+    }
     
     if (!wholesaler) {
       console.log('🚚 No wholesaler data - SKIPPING');
@@ -1712,10 +1845,14 @@ export default function CustomerPortal() {
               return pricing.effectivePrice;
             }
           })(),
-          sellingType: item.sellingType
+          sellingType: item.sellingType,
+          negotiationId: item.negotiationId
         })),
         shippingInfo: {
-          option: shippingOption
+          option: shippingOption,
+          collectionWarehouseId: shippingOption === 'pickup' ? customData.collectionWarehouseId : undefined,
+          slotId: customData.slotId,
+          slotDate: customData.slotDate
         }
       };
       
@@ -1748,7 +1885,7 @@ export default function CustomerPortal() {
     } finally {
       setIsCreatingIntent(false);
     }
-  }, [isCreatingIntent, clientSecret, wholesaler, cart, toast]);
+  }, [isCreatingIntent, clientSecret, wholesaler, cart, toast, slotsLoading, collectionSlots, deliverySlots]);
 
   // Helper function to generate quantity suggestions
   const getQuantitySuggestions = useCallback((product: ExtendedProduct, currentQuantity?: number) => {
@@ -1927,6 +2064,10 @@ export default function CustomerPortal() {
     
     // Refetch session to confirm it's saved
     refetchSession();
+
+    // Reload products so any customer-specific price list is applied
+    queryClient.invalidateQueries({ queryKey: ['wholesaler-products', wholesalerId] });
+    queryClient.invalidateQueries({ queryKey: ['featured-product'] });
     
     toast({
       title: "Welcome!",
@@ -4007,6 +4148,12 @@ export default function CustomerPortal() {
             </TabsContent>
 
             <TabsContent value="orders" className="space-y-6">
+              <CustomerNegotiations onCheckout={addNegotiatedToCart} />
+
+              {authenticatedCustomer && wholesaler?.id && (
+                <CustomerStandingOrders wholesalerId={wholesaler.id} />
+              )}
+
               {/* Customer Order History */}
               {authenticatedCustomer && wholesaler?.id && (
                 <Suspense fallback={<ComponentLoader />}>
@@ -4156,6 +4303,24 @@ export default function CustomerPortal() {
                   </CardContent>
                 </Card>
 
+                {/* Saved Cards */}
+                {authenticatedCustomer && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <CreditCard className="h-5 w-5" />
+                        Saved Cards
+                      </CardTitle>
+                      <p className="text-sm text-gray-600">
+                        Pay faster at checkout and keep standing orders running
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <CustomerSavedCards />
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Theme Preferences */}
                 <Card>
                   <CardHeader>
@@ -4462,6 +4627,41 @@ export default function CustomerPortal() {
                         <p className="text-sm text-gray-600">Collect your order from our location</p>
                       </Label>
                     </div>
+                    {customerData.shippingOption === 'pickup' && wholesaler?.collectionDepots?.length > 1 && (
+                      <div className="ml-6 space-y-2">
+                        <Label className="text-sm">Collection depot</Label>
+                        <Select
+                          value={String(customerData.collectionWarehouseId || wholesaler.collectionDepots.find((depot: CollectionDepot) => depot.isDefault)?.id || wholesaler.collectionDepots[0].id)}
+                          onValueChange={(value) => {
+                            setCustomerData(prev => ({ ...prev, collectionWarehouseId: parseInt(value) }));
+                            // Recreate the payment intent so the order is allocated from the chosen depot
+                            setClientSecret('');
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {wholesaler.collectionDepots.map((depot: CollectionDepot) => (
+                              <SelectItem key={depot.id} value={String(depot.id)}>
+                                {depot.name}{depot.postcode ? ` - ${depot.postcode}` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {(() => {
+                          const depot = wholesaler.collectionDepots.find((d: CollectionDepot) => d.id === customerData.collectionWarehouseId)
+                            || wholesaler.collectionDepots.find((d: CollectionDepot) => d.isDefault);
+                          if (!depot) return null;
+                          return (
+                            <p className="text-xs text-gray-600">
+                              {[depot.addressLine1, depot.city, depot.postcode].filter(Boolean).join(', ')}
+                              {depot.collectionInstructions && <><br />{depot.collectionInstructions}</>}
+                            </p>
+                          );
+                        })()}
+                      </div>
+                    )}
                     <div className={`flex items-center space-x-2 p-2 rounded-lg border-2 transition-colors ${customerData.shippingOption === 'delivery' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
                       <input
                         type="radio"
@@ -4622,6 +4822,36 @@ export default function CustomerPortal() {
                       </div>
                     </div>
                   )}
+
+                  {/* Delivery day or collection time, when the wholesaler takes bookings */}
+                  {customerData.shippingOption && checkoutSlotOptions.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-sm">
+                        {customerData.shippingOption === 'pickup' ? 'Collection time' : 'Delivery day'}
+                        {checkoutSlotMissing && <span className="text-red-500 ml-2 text-sm">*Required</span>}
+                      </Label>
+                      <Select
+                        value={checkoutSlotMissing ? '' : `${customerData.slotId}|${customerData.slotDate}`}
+                        onValueChange={(value) => {
+                          const [slotId, slotDate] = value.split('|');
+                          setCustomerData(prev => ({ ...prev, slotId: parseInt(slotId), slotDate }));
+                          // Recreate the payment intent so the slot is booked with the order
+                          setClientSecret('');
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={customerData.shippingOption === 'pickup' ? 'Choose when to collect' : 'Choose a delivery day'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {checkoutSlotOptions.map(slot => (
+                            <SelectItem key={`${slot.slotId}|${slot.date}`} value={`${slot.slotId}|${slot.date}`}>
+                              {slot.label}{slot.remaining !== null && slot.remaining <= 3 ? ` (${slot.remaining} left)` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
 
                 {/* Order Notes */}
@@ -4650,12 +4880,60 @@ export default function CustomerPortal() {
                         Please select a delivery address to continue with delivery option
                       </p>
                     </div>
+                  ) : customerData.shippingOption && checkoutSlotMissing ? (
+                    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-center">
+                      <p className="text-sm text-amber-800">
+                        Choose {customerData.shippingOption === 'pickup' ? 'a collection time' : 'a delivery day'} above to continue to payment
+                      </p>
+                    </div>
                   ) : customerData.shippingOption ? (
+                    <>
+                    {isAuthenticated && !isGuestMode && wholesalerId && (
+                      <PayOnAccountOption
+                        wholesalerId={wholesalerId}
+                        cart={cart}
+                        customerData={customerData}
+                        orderTotal={cartStats.subtotal}
+                        onSuccess={(orderData) => {
+                          setCompletedOrder({
+                            ...orderData,
+                            cart: cart.map(cartItem => ({
+                              product: cartItem.product,
+                              quantity: cartItem.quantity,
+                              sellingType: cartItem.sellingType
+                            })),
+                            customerData: { ...customerData },
+                            wholesaler: wholesaler,
+                            subtotal: cartStats.subtotal,
+                            transactionFee: 0,
+                            shippingCost: 0,
+                            totalAmount: parseFloat(orderData.total)
+                          });
+                          setCart([]);
+                          setCustomerData(prev => ({
+                            ...prev,
+                            shippingOption: undefined,
+                            slotId: undefined,
+                            slotDate: undefined,
+                            selectedDeliveryAddress: null,
+                            addressExplicitlyCleared: false,
+                            selectedShippingService: undefined
+                          }));
+                          setClientSecret('');
+                          setLastUsedShippingOption(null);
+                          queryClient.invalidateQueries({ queryKey: [`/api/customer/credit-account/${wholesalerId}`] });
+                          refetchProducts();
+                          setShowCheckout(false);
+                          setShowThankYou(true);
+                        }}
+                      />
+                    )}
                     <StripeCheckoutForm
                     cart={cart}
                     customerData={customerData}
                     wholesaler={wholesaler}
                     clientSecret={clientSecret}
+                    canSaveCard={!!authenticatedCustomer}
                     totalAmount={(() => {
                       const subtotal = cartStats.subtotal; // Use pure product subtotal (no shipping)
                       const shipping = 0; // Delivery arranged directly by supplier
@@ -4720,6 +4998,8 @@ export default function CustomerPortal() {
                         ...prev,
                         // Reset to no selection - customer chooses explicitly
                         shippingOption: undefined,
+                        slotId: undefined,
+                        slotDate: undefined,
                         // CRITICAL FIX: Clear selected delivery address to force fresh selection for next order
                         selectedDeliveryAddress: null,
                         // Reset address clearing flag to allow normal auto-selection for next order
@@ -4747,6 +5027,7 @@ export default function CustomerPortal() {
                       setShowThankYou(true);
                     }}
                   />
+                    </>
                   ) : null}
                 </div>
               </div>
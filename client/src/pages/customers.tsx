@@ -50,7 +50,9 @@ import {
   Send,
   Shield,
   ShieldX,
-  UserX
+  UserX,
+  CreditCard,
+  Tag
 } from "lucide-react";
 import { ContextualHelpBubble } from "@/components/ContextualHelpBubble";
 import { helpContent } from "@/data/whatsapp-help-content";
@@ -58,6 +60,8 @@ import { CustomerOrderHistory } from "@/components/customer/CustomerOrderHistory
 import { DynamicTooltip } from "@/components/ui/dynamic-tooltip";
 import CustomerInvitationModal from "@/components/CustomerInvitationModal";
 import { SubscriptionUpgradeModal } from "@/components/subscription/SubscriptionUpgradeModal";
+import { AgedDebtorsPanel } from "@/components/wholesaler/AgedDebtorsPanel";
+import { CustomerCreditTermsDialog } from "@/components/wholesaler/CustomerCreditTermsDialog";
 
 // Form Schemas
 const customerGroupFormSchema = z.object({
@@ -200,6 +204,7 @@ export default function Customers() {
   // Address book state
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [creditTermsCustomer, setCreditTermsCustomer] = useState<Customer | null>(null);
   const [isEditCustomerDialogOpen, setIsEditCustomerDialogOpen] = useState(false);
   const [isAddToGroupDialogOpen, setIsAddToGroupDialogOpen] = useState(false);
   const [isViewCustomerOrdersDialogOpen, setIsViewCustomerOrdersDialogOpen] = useState(false);
@@ -933,6 +938,13 @@ export default function Customers() {
               <span className="xs:hidden sm:hidden">Requests</span>
             </Button>
           </Link>
+
+          <Link href="/price-lists" className="flex-1 sm:flex-initial">
+            <Button variant="outline" className="w-full sm:w-auto flex items-center justify-center space-x-2">
+              <Tag className="h-4 w-4" />
+              <span>Price Lists</span>
+            </Button>
+          </Link>
           
           <Dialog open={isAddCustomerDialogOpen} onOpenChange={setIsAddCustomerDialogOpen}>
             <DialogTrigger asChild>
@@ -1047,7 +1059,7 @@ export default function Customers() {
       </div>
 
       <Tabs defaultValue="address-book" className="space-y-4 sm:space-y-6">
-        <TabsList className="grid w-full grid-cols-2 h-auto">
+        <TabsList className="grid w-full grid-cols-3 h-auto">
           <TabsTrigger value="address-book" className="flex items-center justify-center space-x-1 sm:space-x-2 py-2 sm:py-3">
             <Contact className="h-3 w-3 sm:h-4 sm:w-4" />
             <span className="text-xs sm:text-sm">Directory</span>
@@ -1056,8 +1068,17 @@ export default function Customers() {
             <Users className="h-3 w-3 sm:h-4 sm:w-4" />
             <span className="text-xs sm:text-sm">Groups</span>
           </TabsTrigger>
+          <TabsTrigger value="aged-debtors" className="flex items-center justify-center space-x-1 sm:space-x-2 py-2 sm:py-3">
+            <CreditCard className="h-3 w-3 sm:h-4 sm:w-4" />
+            <span className="text-xs sm:text-sm">Aged Debtors</span>
+          </TabsTrigger>
         </TabsList>
 
+        {/* Aged Debtors Tab */}
+        <TabsContent value="aged-debtors" className="space-y-4 sm:space-y-6">
+          <AgedDebtorsPanel />
+        </TabsContent>
+
         {/* Customer Groups Tab */}
         <TabsContent value="groups" className="space-y-4 sm:space-y-6">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-0">
@@ -1569,6 +1590,10 @@ export default function Customers() {
                               <Edit3 className="h-4 w-4 mr-2" />
                               Edit Customer
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setCreditTermsCustomer(customer)}>
+                              <CreditCard className="h-4 w-4 mr-2" />
+                              Credit Terms
+                            </DropdownMenuItem>
                             <DropdownMenuItem 
                               onClick={() => sendWelcomeMessageMutation.mutate(customer?.id)}
                               disabled={sendWelcomeMessageMutation.isPending}
@@ -1673,6 +1698,14 @@ export default function Customers() {
                           >
                             <Edit3 className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCreditTermsCustomer(customer)}
+                            title="Credit Terms"
+                          >
+                            <CreditCard className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -1820,6 +1853,12 @@ export default function Customers() {
         </TabsContent>
       </Tabs>
 
+      <CustomerCreditTermsDialog
+        customer={creditTermsCustomer}
+        open={!!creditTermsCustomer}
+        onOpenChange={(open) => !open && setCreditTermsCustomer(null)}
+      />
+
       {/* Add Member Dialog */}
       <Dialog open={isAddMemberDialogOpen} onOpenChange={setIsAddMemberDialogOpen}>
         <DialogContent>
@@ -0,0 +1,533 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { Truck, Printer, FileDown, Route, Camera, CheckCircle, XCircle, MapPin } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  DELIVERY_FAILURE_REASONS,
+  DELIVERY_RUN_STATUS_LABELS,
+  DELIVERY_STOP_STATUS_LABELS,
+  type DeliveryRunStatus,
+  type DeliveryStopStatus,
+} from "@shared/delivery-runs";
+
+interface RoutableOrder {
+  id: number;
+  orderNumber: string;
+  customerName?: string | null;
+  postcode: string | null;
+  status: string;
+  createdAt: string;
+}
+
+interface Warehouse {
+  id: number;
+  name: string;
+  isActive: boolean;
+}
+
+interface DeliveryRunSummary {
+  id: number;
+  runNumber: string;
+  deliveryDate: string;
+  driverName: string;
+  status: DeliveryRunStatus;
+  warehouseName: string | null;
+  totalDistanceKm: string | null;
+  stopCount: number;
+  deliveredCount: number;
+  failedCount: number;
+}
+
+interface DeliveryRunStop {
+  id: number;
+  orderId: number;
+  sequence: number;
+  postcode: string | null;
+  legDistanceKm: string | null;
+  status: DeliveryStopStatus;
+  recipientName: string | null;
+  failureReason: string | null;
+  proofPhotoUrl: string | null;
+  orderNumber: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  addressLine1: string | null;
+  city: string | null;
+  deliveryInstructions: string | null;
+}
+
+interface DeliveryRunDetails extends Omit<DeliveryRunSummary, 'stopCount' | 'deliveredCount' | 'failedCount'> {
+  driverPhone: string | null;
+  notes: string | null;
+  stops: DeliveryRunStop[];
+}
+
+const RUN_STATUS_COLORS: Record<DeliveryRunStatus, string> = {
+  planned: 'bg-blue-100 text-blue-800',
+  out_for_delivery: 'bg-orange-100 text-orange-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const STOP_STATUS_COLORS: Record<DeliveryStopStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const openPrintout = (url: string) => window.open(url, '_blank');
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+export default function DeliveryRuns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedOrderIds, setSelectedOrderIds] = useState<number[]>([]);
+  const [deliveryDate, setDeliveryDate] = useState(tomorrow());
+  const [driverName, setDriverName] = useState('');
+  const [driverPhone, setDriverPhone] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [openRunId, setOpenRunId] = useState<number | null>(null);
+  const [activeStopId, setActiveStopId] = useState<number | null>(null);
+  const [recipientName, setRecipientName] = useState('');
+  const [proofPhotoUrl, setProofPhotoUrl] = useState<string | null>(null);
+  const [failureReason, setFailureReason] = useState('');
+
+  const { data: routableOrders = [], isLoading: ordersLoading } = useQuery<RoutableOrder[]>({
+    queryKey: ['/api/delivery-runs/unassigned-orders'],
+  });
+
+  const { data: runs = [] } = useQuery<DeliveryRunSummary[]>({
+    queryKey: ['/api/delivery-runs'],
+  });
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ['/api/warehouses'],
+  });
+  const activeWarehouses = warehouses.filter(warehouse => warehouse.isActive);
+
+  const { data: run } = useQuery<DeliveryRunDetails>({
+    queryKey: [`/api/delivery-runs/${openRunId}`],
+    enabled: !!openRunId,
+  });
+
+  const invalidateRuns = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/delivery-runs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/delivery-runs/unassigned-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+  };
+
+  const onRunUpdated = (updated: DeliveryRunDetails) => {
+    queryClient.setQueryData([`/api/delivery-runs/${updated.id}`], updated);
+    invalidateRuns();
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const resetDropForm = (stopId: number | null) => {
+    setActiveStopId(stopId);
+    setRecipientName('');
+    setProofPhotoUrl(null);
+    setFailureReason('');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/delivery-runs", {
+        deliveryDate,
+        driverName,
+        driverPhone: driverPhone || null,
+        warehouseId: warehouseId || null,
+        orderIds: selectedOrderIds,
+      });
+      return response.json();
+    },
+    onSuccess: (created: DeliveryRunDetails) => {
+      invalidateRuns();
+      setSelectedOrderIds([]);
+      setOpenRunId(created.id);
+      toast({
+        title: "Delivery Run Planned",
+        description: `${created.runNumber} has ${created.stops.length} drops in driving order.`,
+      });
+    },
+    onError,
+  });
+
+  const runActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'optimise' | 'start' | 'cancel' }) => {
+      const response = await apiRequest("POST", `/api/delivery-runs/${id}/${action}`);
+      return { action, updated: await response.json() };
+    },
+    onSuccess: ({ action, updated }: { action: string; updated: DeliveryRunDetails }) => {
+      if (action === 'cancel') {
+        invalidateRuns();
+        setOpenRunId(null);
+        toast({ title: "Delivery Run Cancelled", description: "Its orders can go on another run." });
+        return;
+      }
+      onRunUpdated(updated);
+      if (action === 'start') {
+        toast({ title: "Out for Delivery", description: "Customers have been told to expect their orders." });
+      }
+    },
+    onError,
+  });
+
+  const dropMutation = useMutation({
+    mutationFn: async ({ stopId, outcome }: { stopId: number; outcome: 'delivered' | 'failed' }) => {
+      const response = await apiRequest("POST", `/api/delivery-runs/${openRunId}/stops/${stopId}/${outcome}`, {
+        recipientName: recipientName || null,
+        failureReason: outcome === 'failed' ? failureReason : null,
+        proofPhotoUrl,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: DeliveryRunDetails) => {
+      onRunUpdated(updated);
+      resetDropForm(null);
+      if (updated.status === 'completed') {
+        toast({ title: "Run Complete", description: `Every drop on ${updated.runNumber} has been recorded.` });
+      }
+    },
+    onError,
+  });
+
+  const handleProofUpload = async (): Promise<{ method: "PUT"; url: string }> => {
+    const response = await apiRequest("POST", `/api/delivery-runs/${openRunId}/stops/${activeStopId}/photo-upload`);
+    const data = await response.json();
+    return { method: "PUT" as const, url: data.uploadURL };
+  };
+
+  const toggleOrder = (orderId: number, checked: boolean) => {
+    setSelectedOrderIds(checked ? [...selectedOrderIds, orderId] : selectedOrderIds.filter(id => id !== orderId));
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Delivery Runs</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Put delivery orders on your own van, print the driver's manifest and record each drop
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Plan a Run</CardTitle>
+          <CardDescription>Drops are put in driving order from their postcodes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="delivery-date">Delivery date</Label>
+              <Input id="delivery-date" type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driver-name">Driver</Label>
+              <Input id="driver-name" value={driverName} onChange={(e) => setDriverName(e.target.value)} placeholder="Driver's name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driver-phone">Driver phone</Label>
+              <Input id="driver-phone" value={driverPhone} onChange={(e) => setDriverPhone(e.target.value)} placeholder="Optional" />
+            </div>
+            {activeWarehouses.length > 1 && (
+              <div className="space-y-2">
+                <Label>Loading from</Label>
+                <Select value={warehouseId} onValueChange={setWarehouseId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Default warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses.map(warehouse => (
+                      <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {ordersLoading ? (
+            <p className="text-sm text-gray-600">Loading orders...</p>
+          ) : routableOrders.length === 0 ? (
+            <p className="text-sm text-gray-600">No delivery orders are waiting for a van.</p>
+          ) : (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <Checkbox
+                  checked={selectedOrderIds.length === routableOrders.length}
+                  onCheckedChange={(checked) => setSelectedOrderIds(checked ? routableOrders.map(order => order.id) : [])}
+                />
+                Select all
+              </label>
+              {routableOrders.map(order => (
+                <label key={order.id} className="flex items-center justify-between gap-2 border rounded-lg p-3 cursor-pointer">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Checkbox
+                      checked={selectedOrderIds.includes(order.id)}
+                      onCheckedChange={(checked) => toggleOrder(order.id, !!checked)}
+                    />
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm">{order.orderNumber}</div>
+                      <div className="text-xs text-gray-600 truncate">
+                        {order.customerName || 'Customer'} · {new Date(order.createdAt).toLocaleDateString('en-GB')}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {order.status === 'delivery_failed' && (
+                      <Badge className="bg-red-100 text-red-800 text-xs">Retry</Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">{order.postcode || 'No postcode'}</Badge>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={selectedOrderIds.length === 0 || !driverName.trim() || !deliveryDate || createMutation.isPending}
+            >
+              <Truck className="h-4 w-4 mr-2" />
+              Plan Run{selectedOrderIds.length > 0 ? ` (${selectedOrderIds.length})` : ''}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-600">No delivery runs yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {runs.map(summary => (
+                <div
+                  key={summary.id}
+                  className="border rounded-lg p-3 cursor-pointer hover:bg-gray-50"
+                  onClick={() => { setOpenRunId(summary.id); resetDropForm(null); }}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-medium text-sm">{summary.runNumber}</span>
+                      <span className="text-xs text-gray-600">
+                        {' '}· {new Date(summary.deliveryDate).toLocaleDateString('en-GB')} · {summary.driverName} · {summary.stopCount} drops
+                        {summary.totalDistanceKm ? ` · ~${summary.totalDistanceKm} km` : ''}
+                      </span>
+                    </div>
+                    <Badge className={`${RUN_STATUS_COLORS[summary.status]} text-xs`}>
+                      {DELIVERY_RUN_STATUS_LABELS[summary.status]}
+                    </Badge>
+                  </div>
+                  {summary.status === 'out_for_delivery' && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <Progress value={summary.stopCount ? ((summary.deliveredCount + summary.failedCount) / summary.stopCount) * 100 : 0} className="h-2" />
+                      <span className="text-xs text-gray-600 whitespace-nowrap">
+                        {summary.deliveredCount + summary.failedCount}/{summary.stopCount} drops
+                      </span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!openRunId} onOpenChange={(open) => !open && setOpenRunId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delivery Run {run?.runNumber}</DialogTitle>
+            <DialogDescription>
+              {run && `${new Date(run.deliveryDate).toLocaleDateString('en-GB')} · ${run.driverName}${run.driverPhone ? ` (${run.driverPhone})` : ''}${run.warehouseName ? ` · from ${run.warehouseName}` : ''}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {run && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => openPrintout(`/api/delivery-runs/${run.id}/manifest`)}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Manifest
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => openPrintout(`/api/delivery-runs/${run.id}/manifest?format=pdf`)}>
+                  <FileDown className="h-4 w-4 mr-1" />
+                  PDF
+                </Button>
+                {run.status === 'planned' && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={runActionMutation.isPending}
+                      onClick={() => runActionMutation.mutate({ id: run.id, action: 'optimise' })}
+                    >
+                      <Route className="h-4 w-4 mr-1" />
+                      Re-order Route
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={runActionMutation.isPending}
+                      onClick={() => runActionMutation.mutate({ id: run.id, action: 'start' })}
+                    >
+                      <Truck className="h-4 w-4 mr-1" />
+                      Start Run
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {run.totalDistanceKm && (
+                <p className="text-xs text-gray-600">About {run.totalDistanceKm} km between drops, measured in straight lines.</p>
+              )}
+
+              <div className="space-y-2">
+                {run.stops.map(stop => (
+                  <div key={stop.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-sm">
+                          {stop.sequence}. {stop.customerName || 'Customer'} · {stop.orderNumber}
+                        </div>
+                        <div className="text-xs text-gray-600 flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {[stop.addressLine1, stop.city, stop.postcode].filter(Boolean).join(', ') || 'No address'}
+                          {stop.legDistanceKm ? ` · ${stop.legDistanceKm} km` : ''}
+                        </div>
+                        {stop.deliveryInstructions && (
+                          <div className="text-xs text-gray-600 italic">{stop.deliveryInstructions}</div>
+                        )}
+                        {stop.status === 'delivered' && stop.recipientName && (
+                          <div className="text-xs text-gray-600">Received by {stop.recipientName}</div>
+                        )}
+                        {stop.status === 'failed' && stop.failureReason && (
+                          <div className="text-xs text-red-600">{stop.failureReason}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {stop.proofPhotoUrl && (
+                          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => openPrintout(stop.proofPhotoUrl!)}>
+                            <Camera className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Badge className={`${STOP_STATUS_COLORS[stop.status]} text-xs`}>
+                          {DELIVERY_STOP_STATUS_LABELS[stop.status]}
+                        </Badge>
+                      </div>
+                    </div>
+
+                    {run.status === 'out_for_delivery' && stop.status === 'pending' && (
+                      activeStopId === stop.id ? (
+                        <div className="space-y-2 border-t pt-2">
+                          <Input
+                            value={recipientName}
+                            onChange={(e) => setRecipientName(e.target.value)}
+                            placeholder="Received by"
+                            className="h-8 text-sm"
+                          />
+                          <div className="flex items-center gap-2">
+                            <ObjectUploader
+                              maxNumberOfFiles={1}
+                              maxFileSize={10485760}
+                              onGetUploadParameters={handleProofUpload}
+                              onComplete={(result) => result.successful.length && setProofPhotoUrl(result.successful[0].url)}
+                              buttonClassName="text-xs"
+                            >
+                              <Camera className="h-3 w-3 mr-2" />
+                              {proofPhotoUrl ? 'Retake Photo' : 'Proof Photo'}
+                            </ObjectUploader>
+                            {proofPhotoUrl && <span className="text-xs text-green-600">Photo added</span>}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700"
+                              disabled={dropMutation.isPending}
+                              onClick={() => dropMutation.mutate({ stopId: stop.id, outcome: 'delivered' })}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Delivered
+                            </Button>
+                            <Select value={failureReason} onValueChange={setFailureReason}>
+                              <SelectTrigger className="h-8 w-52 text-xs">
+                                <SelectValue placeholder="Reason it failed" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {DELIVERY_FAILURE_REASONS.map(reason => (
+                                  <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-red-600"
+                              disabled={!failureReason || dropMutation.isPending}
+                              onClick={() => dropMutation.mutate({ stopId: stop.id, outcome: 'failed' })}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Failed
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => resetDropForm(stop.id)}>
+                          Record Drop
+                        </Button>
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {run.status === 'planned' && (
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={runActionMutation.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Cancel ${run.runNumber}? Its orders will go back to waiting for a van.`)) {
+                        runActionMutation.mutate({ id: run.id, action: 'cancel' });
+                      }
+                    }}
+                  >
+                    Cancel Run
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -23,6 +23,21 @@ import {
   ArrowDownRight
 } from "lucide-react";
 import { formatNumber } from "@/lib/utils";
+import { AccountingExportCard } from "@/components/wholesaler/AccountingExportCard";
+import { PayoutReconciliationCard } from "@/components/wholesaler/PayoutReconciliationCard";
+import { getVatRateLabel, type VatBreakdown, type VatSummaryLine } from "@shared/vat";
+
+interface VatReport {
+  from: string;
+  to: string;
+  vatNumber: string | null;
+  orderCount: number;
+  rates: VatSummaryLine[];
+  totals: VatBreakdown;
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
 export default function Financials() {
   const { user } = useAuth();
@@ -30,6 +45,16 @@ export default function Financials() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [dateFilter, setDateFilter] = useState("all");
+  const [vatFrom, setVatFrom] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [vatTo, setVatTo] = useState(() => toDateInput(new Date()));
+
+  const { data: vatReport, isLoading: vatLoading } = useQuery<VatReport>({
+    queryKey: [`/api/vat/report?from=${vatFrom}&to=${vatTo}`],
+    enabled: !!vatFrom && !!vatTo && vatFrom <= vatTo,
+  });
 
   // Fetch invoices from Stripe
   const { data: invoices = [], isLoading: invoicesLoading } = useQuery({
@@ -217,6 +242,75 @@ export default function Financials() {
         </Card>
       </div>
 
+      {/* VAT Report */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              VAT Report
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={vatFrom} onChange={(e) => setVatFrom(e.target.value)} className="w-40" />
+              <span className="text-sm text-gray-500">to</span>
+              <Input type="date" value={vatTo} onChange={(e) => setVatTo(e.target.value)} className="w-40" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {vatLoading ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+          ) : !vatReport?.vatNumber ? (
+            <p className="text-sm text-gray-600">
+              Add your VAT number in Settings to charge VAT and see VAT reports.
+            </p>
+          ) : vatReport.rates.length === 0 ? (
+            <p className="text-sm text-gray-600">No VAT-rated sales in this period.</p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                VAT Reg No {vatReport.vatNumber} · {vatReport.orderCount} order{vatReport.orderCount === 1 ? '' : 's'}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4 font-medium">Rate</th>
+                      <th className="py-2 px-2 font-medium text-right">Net sales</th>
+                      <th className="py-2 px-2 font-medium text-right">VAT</th>
+                      <th className="py-2 pl-2 font-medium text-right">Gross</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vatReport.rates.map(rate => (
+                      <tr key={`${rate.rate}-${rate.percent}`} className="border-b">
+                        <td className="py-2 pr-4">{getVatRateLabel(rate.rate)}</td>
+                        <td className="py-2 px-2 text-right">£{rate.net.toFixed(2)}</td>
+                        <td className="py-2 px-2 text-right">£{rate.vat.toFixed(2)}</td>
+                        <td className="py-2 pl-2 text-right">£{rate.gross.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="py-2 pr-4">Total</td>
+                      <td className="py-2 px-2 text-right">£{vatReport.totals.net.toFixed(2)}</td>
+                      <td className="py-2 px-2 text-right">£{vatReport.totals.vat.toFixed(2)}</td>
+                      <td className="py-2 pl-2 text-right">£{vatReport.totals.gross.toFixed(2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500">
+                Output VAT on orders placed in the period, less quantities cancelled. Includes VAT on delivery charges.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PayoutReconciliationCard />
+
+      <AccountingExportCard />
+
       {/* Filters and Search */}
       <Card>
         <CardHeader>
@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, CalendarOff, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { DAY_NAMES, FULFILMENT_SLOT_TYPE_LABELS, type FulfilmentSlotType } from "@shared/fulfilment-slots";
+
+interface FulfilmentSlot {
+  id: number;
+  type: FulfilmentSlotType;
+  warehouseId: number | null;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number | null;
+  cutoffDaysBefore: number;
+  cutoffTime: string;
+  isActive: boolean;
+}
+
+interface FulfilmentClosure {
+  id: number;
+  startsOn: string;
+  endsOn: string;
+  reason: string | null;
+}
+
+interface Warehouse {
+  id: number;
+  name: string;
+  isActive: boolean;
+  allowCollection: boolean;
+}
+
+const emptySlot = {
+  type: 'delivery' as FulfilmentSlotType,
+  warehouseId: '',
+  dayOfWeek: '1',
+  startTime: '09:00',
+  endTime: '12:00',
+  capacity: '',
+  cutoffDaysBefore: '1',
+  cutoffTime: '17:00',
+};
+
+const describeCutoff = (slot: FulfilmentSlot) =>
+  slot.cutoffDaysBefore === 0
+    ? `Order by ${slot.cutoffTime} on the day`
+    : `Order by ${slot.cutoffTime}, ${slot.cutoffDaysBefore} day${slot.cutoffDaysBefore === 1 ? '' : 's'} before`;
+
+const formatClosureDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function FulfilmentSlots() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [slotForm, setSlotForm] = useState(emptySlot);
+  const [closureStartsOn, setClosureStartsOn] = useState('');
+  const [closureEndsOn, setClosureEndsOn] = useState('');
+  const [closureReason, setClosureReason] = useState('');
+
+  const { data, isLoading } = useQuery<{ slots: FulfilmentSlot[]; closures: FulfilmentClosure[] }>({
+    queryKey: ['/api/fulfilment-slots'],
+  });
+  const slots = data?.slots || [];
+  const closures = data?.closures || [];
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ['/api/warehouses'],
+  });
+  const depots = warehouses.filter(warehouse => warehouse.isActive && warehouse.allowCollection);
+  const depotName = (id: number | null) => warehouses.find(warehouse => warehouse.id === id)?.name;
+
+  const invalidateSlots = () => queryClient.invalidateQueries({ queryKey: ['/api/fulfilment-slots'] });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createSlotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/fulfilment-slots", {
+        ...slotForm,
+        warehouseId: slotForm.type === 'collection' && slotForm.warehouseId ? slotForm.warehouseId : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSlots();
+      setSlotForm({ ...emptySlot, type: slotForm.type });
+      toast({ title: "Slot Added", description: "Customers can book it at checkout." });
+    },
+    onError,
+  });
+
+  const updateSlotMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: Record<string, any> }) => {
+      const response = await apiRequest("PATCH", `/api/fulfilment-slots/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => invalidateSlots(),
+    onError,
+  });
+
+  const deleteSlotMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/fulfilment-slots/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSlots();
+      toast({ title: "Slot Removed", description: "Orders already booked into it keep their time." });
+    },
+    onError,
+  });
+
+  const addClosureMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/fulfilment-closures", {
+        startsOn: closureStartsOn,
+        endsOn: closureEndsOn || closureStartsOn,
+        reason: closureReason || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSlots();
+      setClosureStartsOn('');
+      setClosureEndsOn('');
+      setClosureReason('');
+      toast({ title: "Closure Added", description: "No slots will be offered on those days." });
+    },
+    onError,
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/fulfilment-closures/${id}`);
+    },
+    onSuccess: () => invalidateSlots(),
+    onError,
+  });
+
+  const renderSlots = (type: FulfilmentSlotType) => {
+    const typeSlots = slots
+      .filter(slot => slot.type === type)
+      .sort((a, b) => ((a.dayOfWeek + 6) % 7) - ((b.dayOfWeek + 6) % 7) || a.startTime.localeCompare(b.startTime));
+
+    return (
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">{FULFILMENT_SLOT_TYPE_LABELS[type]} slots</h3>
+        {typeSlots.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {type === 'delivery'
+              ? 'No delivery days set - customers choosing delivery are not asked for a slot.'
+              : 'No collection windows set - customers collecting are not asked for a time.'}
+          </p>
+        ) : (
+          typeSlots.map(slot => (
+            <div key={slot.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+              <div className="min-w-0">
+                <div className="font-medium text-sm">
+                  {DAY_NAMES[slot.dayOfWeek]} {slot.startTime}-{slot.endTime}
+                  {slot.warehouseId && <span className="text-gray-600 font-normal"> · {depotName(slot.warehouseId) || 'Depot'}</span>}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {slot.capacity ? `Up to ${slot.capacity} orders` : 'No order limit'} · {describeCutoff(slot)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {!slot.isActive && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                <Switch
+                  checked={slot.isActive}
+                  onCheckedChange={(checked) => updateSlotMutation.mutate({ id: slot.id, updates: { isActive: checked } })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteSlotMutation.mutate(slot.id)}
+                  disabled={deleteSlotMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Delivery & Collection Slots</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Set the days you deliver and the times customers can collect, and customers pick one at checkout
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add a Slot</CardTitle>
+          <CardDescription>Repeats every week. Leave the limit blank to take any number of orders.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={slotForm.type} onValueChange={(value) => setSlotForm({ ...slotForm, type: value as FulfilmentSlotType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delivery">Delivery</SelectItem>
+                  <SelectItem value="collection">Collection</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={slotForm.dayOfWeek} onValueChange={(value) => setSlotForm({ ...slotForm, dayOfWeek: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                    <SelectItem key={day} value={String(day)}>{DAY_NAMES[day]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slot-start">From</Label>
+              <Input id="slot-start" type="time" value={slotForm.startTime} onChange={(e) => setSlotForm({ ...slotForm, startTime: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slot-end">Until</Label>
+              <Input id="slot-end" type="time" value={slotForm.endTime} onChange={(e) => setSlotForm({ ...slotForm, endTime: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slot-capacity">Order limit</Label>
+              <Input
+                id="slot-capacity"
+                type="number"
+                min="1"
+                value={slotForm.capacity}
+                onChange={(e) => setSlotForm({ ...slotForm, capacity: e.target.value })}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slot-cutoff-days">Cut-off (days before)</Label>
+              <Input
+                id="slot-cutoff-days"
+                type="number"
+                min="0"
+                max="14"
+                value={slotForm.cutoffDaysBefore}
+                onChange={(e) => setSlotForm({ ...slotForm, cutoffDaysBefore: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slot-cutoff-time">Cut-off time</Label>
+              <Input id="slot-cutoff-time" type="time" value={slotForm.cutoffTime} onChange={(e) => setSlotForm({ ...slotForm, cutoffTime: e.target.value })} />
+            </div>
+            {slotForm.type === 'collection' && depots.length > 1 && (
+              <div className="space-y-2">
+                <Label>Depot</Label>
+                <Select value={slotForm.warehouseId || 'all'} onValueChange={(value) => setSlotForm({ ...slotForm, warehouseId: value === 'all' ? '' : value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All depots</SelectItem>
+                    {depots.map(depot => (
+                      <SelectItem key={depot.id} value={String(depot.id)}>{depot.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => createSlotMutation.mutate()} disabled={createSlotMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Slot
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Weekly Slots
+          </CardTitle>
+          <CardDescription>Switch a slot off to stop taking bookings without losing it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading slots...</p>
+          ) : (
+            <>
+              {renderSlots('delivery')}
+              {renderSlots('collection')}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            Closures
+          </CardTitle>
+          <CardDescription>Bank holidays and other days you won't deliver or open for collection</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="closure-start">From</Label>
+              <Input id="closure-start" type="date" value={closureStartsOn} onChange={(e) => setClosureStartsOn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-end">Until</Label>
+              <Input id="closure-end" type="date" value={closureEndsOn} onChange={(e) => setClosureEndsOn(e.target.value)} placeholder="Same day" />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="closure-reason">Reason</Label>
+              <Input id="closure-reason" value={closureReason} onChange={(e) => setClosureReason(e.target.value)} placeholder="e.g. Christmas" />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => addClosureMutation.mutate()} disabled={!closureStartsOn || addClosureMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Closure
+            </Button>
+          </div>
+
+          {closures.length === 0 ? (
+            <p className="text-sm text-gray-600">No upcoming closures.</p>
+          ) : (
+            <div className="space-y-2">
+              {closures.map(closure => (
+                <div key={closure.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm">
+                      {formatClosureDate(closure.startsOn)}
+                      {closure.endsOn.slice(0, 10) !== closure.startsOn.slice(0, 10) && ` - ${formatClosureDate(closure.endsOn)}`}
+                    </div>
+                    {closure.reason && <div className="text-xs text-gray-600">{closure.reason}</div>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteClosureMutation.mutate(closure.id)}
+                    disabled={deleteClosureMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Handshake, Check, X, ArrowLeftRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+import {
+  NEGOTIATION_STATUS_LABELS,
+  NEGOTIATION_ACTION_LABELS,
+  type NegotiationStatus,
+  type NegotiationAction
+} from "@shared/negotiations";
+
+interface Negotiation {
+  id: number;
+  productId: number;
+  productName: string | null;
+  retailerName: string | null;
+  originalPrice: string;
+  offeredPrice: string;
+  counterPrice?: string | null;
+  agreedPrice?: string | null;
+  quantity: number;
+  status: string;
+  expiresAt?: string | null;
+  orderId?: number | null;
+  createdAt: string;
+  messages: Array<{
+    id: number;
+    senderRole: string;
+    action: string;
+    price?: string | null;
+    message?: string | null;
+    createdAt: string;
+  }>;
+}
+
+const NEGOTIATION_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  countered: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-purple-100 text-purple-800',
+};
+
+const SENDER_LABELS: Record<string, string> = {
+  buyer: 'Buyer',
+  wholesaler: 'You',
+  system: 'System',
+};
+
+export default function Negotiations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [countering, setCountering] = useState<Negotiation | null>(null);
+  const [counterPrice, setCounterPrice] = useState("");
+  const [counterMessage, setCounterMessage] = useState("");
+
+  const negotiationsUrl = statusFilter === "all" ? '/api/negotiations' : `/api/negotiations?status=${statusFilter}`;
+  const { data: negotiations = [], isLoading } = useQuery<Negotiation[]>({
+    queryKey: [negotiationsUrl],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: number; action: 'accept' | 'decline' | 'counter'; body?: any }) => {
+      const response = await apiRequest("POST", `/api/negotiations/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/negotiations') });
+      if (variables.action === 'counter') {
+        setCountering(null);
+      }
+      toast({
+        title: "Negotiation Updated",
+        description: "The buyer has been notified of your response.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update negotiation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCounter = (negotiation: Negotiation) => {
+    setCountering(negotiation);
+    setCounterPrice("");
+    setCounterMessage("");
+  };
+
+  const declineNegotiation = (negotiation: Negotiation) => {
+    const message = prompt(`Reason for declining the offer on ${negotiation.productName || 'this product'}? (optional)`);
+    if (message === null) return;
+    actionMutation.mutate({ id: negotiation.id, action: 'decline', body: { message } });
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Negotiations</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Accept, decline or counter price offers from buyers
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All negotiations</SelectItem>
+            {(Object.keys(NEGOTIATION_STATUS_LABELS) as NegotiationStatus[]).map(status => (
+              <SelectItem key={status} value={status}>{NEGOTIATION_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6"><div className="h-16 bg-gray-200 rounded"></div></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : negotiations.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <Handshake className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Negotiations</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Buyers can make offers on products that have price negotiation enabled.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {negotiations.map(negotiation => (
+            <Card key={negotiation.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base">{negotiation.productName || 'Product'}</CardTitle>
+                    <CardDescription>
+                      {negotiation.retailerName || 'Buyer'} · {negotiation.quantity} units · List price {formatCurrency(negotiation.originalPrice)}
+                    </CardDescription>
+                  </div>
+                  <Badge className={NEGOTIATION_STATUS_COLORS[negotiation.status] || 'bg-gray-100 text-gray-800'}>
+                    {NEGOTIATION_STATUS_LABELS[negotiation.status as NegotiationStatus] || negotiation.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm space-y-1 border-l-2 pl-3">
+                  {negotiation.messages.map(message => (
+                    <div key={message.id}>
+                      <div className="flex justify-between">
+                        <span className="font-medium">
+                          {SENDER_LABELS[message.senderRole] || message.senderRole} · {NEGOTIATION_ACTION_LABELS[message.action as NegotiationAction] || message.action}
+                        </span>
+                        <span className="text-gray-600">
+                          {message.price && `${formatCurrency(message.price)} each · `}
+                          {new Date(message.createdAt).toLocaleDateString('en-GB')}
+                        </span>
+                      </div>
+                      {message.message && <p className="text-gray-600 italic">"{message.message}"</p>}
+                    </div>
+                  ))}
+                </div>
+
+                {negotiation.expiresAt && ['pending', 'countered', 'accepted'].includes(negotiation.status) && (
+                  <p className="text-xs text-gray-500">
+                    {negotiation.status === 'accepted' ? 'Price locked until' : 'Expires'} {new Date(negotiation.expiresAt).toLocaleString('en-GB')}
+                  </p>
+                )}
+
+                {negotiation.status === 'pending' && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Accept ${formatCurrency(negotiation.offeredPrice)} per unit for ${negotiation.quantity} units?`)) {
+                          actionMutation.mutate({ id: negotiation.id, action: 'accept' });
+                        }
+                      }}
+                      disabled={actionMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept {formatCurrency(negotiation.offeredPrice)}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openCounter(negotiation)} disabled={actionMutation.isPending}>
+                      <ArrowLeftRight className="h-4 w-4 mr-1" />
+                      Counter
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-red-600" onClick={() => declineNegotiation(negotiation)} disabled={actionMutation.isPending}>
+                      <X className="h-4 w-4 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!countering} onOpenChange={(open) => !open && setCountering(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Counter-offer</DialogTitle>
+            <DialogDescription>
+              {countering && `The buyer offered ${formatCurrency(countering.offeredPrice)} per unit for ${countering.quantity} units of ${countering.productName || 'this product'}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {countering && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="counter-price">Your price per unit</Label>
+                <Input
+                  id="counter-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={counterPrice}
+                  onChange={(e) => setCounterPrice(e.target.value)}
+                />
+              </div>
+              <Textarea
+                placeholder="Message to the buyer (optional)"
+                rows={3}
+                value={counterMessage}
+                onChange={(e) => setCounterMessage(e.target.value)}
+              />
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => actionMutation.mutate({
+                    id: countering.id,
+                    action: 'counter',
+                    body: { price: parseFloat(counterPrice), message: counterMessage || undefined }
+                  })}
+                  disabled={!parseFloat(counterPrice) || actionMutation.isPending}
+                >
+                  Send Counter-offer
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,7 +14,12 @@ import { useAuth } from "@/hooks/useAuth";
 import { DynamicTooltip } from "@/components/ui/dynamic-tooltip";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { useToast } from "@/hooks/use-toast";
-import { Home, Building, Warehouse } from "lucide-react";
+import { Home, Building, Warehouse, Printer } from "lucide-react";
+import { OrderShipmentsPanel } from "@/components/wholesaler/OrderShipmentsPanel";
+import { OrderChargesPanel } from "@/components/wholesaler/OrderChargesPanel";
+import { OrderEditPanel } from "@/components/wholesaler/OrderEditPanel";
+import { OrderInvoicesPanel } from "@/components/wholesaler/OrderInvoicesPanel";
+import { formatSlotLabel } from "@shared/fulfilment-slots";
 // Simple currency formatter
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-GB', {
@@ -35,10 +40,13 @@ interface Order {
   status: string;
   createdAt: string;
   fulfillmentType?: string;
+  slotStartsAt?: string | null;
+  slotEndsAt?: string | null;
   deliveryAddress?: string;
   deliveryAddressId?: number;
   subtotal?: string;
   deliveryCost?: string;
+  paymentMethod?: string;
   items?: OrderItem[];
   orderImages?: Array<{
     id: string;
@@ -423,6 +431,7 @@ export default function OrdersFresh() {
       pending: "bg-yellow-100 text-yellow-800",
       paid: "bg-green-100 text-green-800",
       fulfilled: "bg-blue-100 text-blue-800",
+      partially_shipped: "bg-indigo-100 text-indigo-800",
       cancelled: "bg-red-100 text-red-800",
       ready_for_collection: "bg-orange-100 text-orange-800"
     };
@@ -645,6 +654,9 @@ export default function OrdersFresh() {
                             </Badge>
                           )}
                         </div>
+                        {order.slotStartsAt && order.slotEndsAt && (
+                          <div className="text-xs text-gray-500 mt-1">{formatSlotLabel(order.slotStartsAt, order.slotEndsAt)}</div>
+                        )}
                       </TableCell>
                       <TableCell className="text-xs">
                         {order.status !== 'fulfilled' ? (
@@ -716,6 +728,11 @@ export default function OrdersFresh() {
                             )}
                           </Badge>
                         )}
+                        {order.slotStartsAt && order.slotEndsAt && (
+                          <Badge variant="outline" className="text-xs">
+                            <Clock className="w-2 h-2 mr-1" />{formatSlotLabel(order.slotStartsAt, order.slotEndsAt)}
+                          </Badge>
+                        )}
                       </div>
                       
                       {order.status !== 'fulfilled' && (
@@ -779,9 +796,17 @@ export default function OrdersFresh() {
                 <DialogTitle className="text-lg font-semibold">Order {selectedOrder?.orderNumber || `#${selectedOrder?.id}`}</DialogTitle>
                 <p className="text-sm text-gray-500">Order ID: {selectedOrder?.id}</p>
               </div>
-              <Button variant="ghost" size="sm" onClick={() => setSelectedOrder(null)}>
-                Close
-              </Button>
+              <div className="flex gap-1">
+                {selectedOrder && (
+                  <Button variant="ghost" size="sm" onClick={() => window.open(`/api/orders/${selectedOrder.id}/packing-slip`, '_blank')}>
+                    <Printer className="h-4 w-4 mr-1" />
+                    Packing Slip
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setSelectedOrder(null)}>
+                  Close
+                </Button>
+              </div>
             </div>
           </DialogHeader>
 
@@ -909,6 +934,24 @@ export default function OrdersFresh() {
                 </div>
               </div>
 
+              {/* Partial fulfilment and shipments */}
+              {selectedOrder.status !== 'cancelled' && (
+                <OrderShipmentsPanel orderId={selectedOrder.id} />
+              )}
+
+              {/* Quantity changes before dispatch, with the price difference charged or refunded */}
+              {selectedOrder.status !== 'cancelled' && (
+                <OrderEditPanel order={selectedOrder} onEdited={() => loadOrderDetails(selectedOrder)} />
+              )}
+
+              {/* Invoice and credit notes */}
+              <OrderInvoicesPanel orderId={selectedOrder.id} />
+
+              {/* Extra delivery charged to the customer's saved card */}
+              {selectedOrder.fulfillmentType === 'delivery' && selectedOrder.paymentMethod !== 'account' && selectedOrder.status !== 'cancelled' && (
+                <OrderChargesPanel orderId={selectedOrder.id} />
+              )}
+
               {/* Payment Summary */}
               <div>
                 <h3 className="font-medium mb-2 text-sm">Payment Summary</h3>
@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PackageCheck, Printer, FileDown, ClipboardList } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  PICK_LIST_STATUS_LABELS,
+  consolidatePickLines,
+  formatPickQuantity,
+  isPickLineComplete,
+  type PickListStatus,
+} from "@shared/picking";
+
+interface PickableOrder {
+  id: number;
+  orderNumber: string;
+  customerName?: string | null;
+  fulfillmentType: string;
+  status: string;
+  createdAt: string;
+}
+
+interface PickListSummary {
+  id: number;
+  pickListNumber: string;
+  status: PickListStatus;
+  warehouseName: string | null;
+  orderCount: number;
+  lineCount: number;
+  pickedLineCount: number;
+  createdAt: string;
+}
+
+interface PickListLine {
+  id: number;
+  orderId: number;
+  productId: number;
+  productName: string;
+  sellingType: string;
+  quantity: number;
+  pickedQuantity: number;
+  quantityInPack: number;
+  unitsPerPallet: number;
+  orderNumber: string;
+  customerName: string | null;
+  fulfillmentType: string;
+}
+
+interface PickListDetails extends Omit<PickListSummary, 'orderCount' | 'lineCount' | 'pickedLineCount'> {
+  items: PickListLine[];
+}
+
+const PICK_LIST_STATUS_COLORS: Record<PickListStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const openPrintout = (url: string) => window.open(url, '_blank');
+
+export default function Picking() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedOrderIds, setSelectedOrderIds] = useState<number[]>([]);
+  const [openPickListId, setOpenPickListId] = useState<number | null>(null);
+
+  const { data: pickableOrders = [], isLoading: ordersLoading } = useQuery<PickableOrder[]>({
+    queryKey: ['/api/pick-lists/pickable-orders'],
+  });
+
+  const { data: pickLists = [] } = useQuery<PickListSummary[]>({
+    queryKey: ['/api/pick-lists'],
+  });
+
+  const { data: pickList } = useQuery<PickListDetails>({
+    queryKey: [`/api/pick-lists/${openPickListId}`],
+    enabled: !!openPickListId,
+  });
+
+  const invalidatePicking = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/pick-lists'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/pick-lists/pickable-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pick-lists", { orderIds: selectedOrderIds });
+      return response.json();
+    },
+    onSuccess: (created: PickListDetails) => {
+      invalidatePicking();
+      setSelectedOrderIds([]);
+      setOpenPickListId(created.id);
+      toast({
+        title: "Pick List Created",
+        description: `${created.pickListNumber} is ready to print.`,
+      });
+    },
+    onError,
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: async ({ itemId, pickedQuantity }: { itemId: number; pickedQuantity: number }) => {
+      const response = await apiRequest("PATCH", `/api/pick-lists/${openPickListId}/items/${itemId}`, { pickedQuantity });
+      return response.json();
+    },
+    onSuccess: ({ pickList: updated, advancedOrders }: { pickList: PickListDetails; advancedOrders: string[] }) => {
+      queryClient.setQueryData([`/api/pick-lists/${updated.id}`], updated);
+      invalidatePicking();
+      if (advancedOrders.length > 0) {
+        toast({
+          title: "Order Picked",
+          description: `${advancedOrders.join(', ')} moved on to shipping or collection.`,
+        });
+      }
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/pick-lists/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidatePicking();
+      setOpenPickListId(null);
+      toast({ title: "Pick List Cancelled", description: "Its orders can be added to a new pick list." });
+    },
+    onError,
+  });
+
+  const toggleOrder = (orderId: number, checked: boolean) => {
+    setSelectedOrderIds(checked ? [...selectedOrderIds, orderId] : selectedOrderIds.filter(id => id !== orderId));
+  };
+
+  const orderGroups = pickList
+    ? Array.from(new Set(pickList.items.map(line => line.orderId))).map(orderId => pickList.items.filter(line => line.orderId === orderId))
+    : [];
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Picking</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Batch paid orders into a pick list, print it with packing slips and tick lines off as they are picked
+          </p>
+        </div>
+        <Button onClick={() => createMutation.mutate()} disabled={selectedOrderIds.length === 0 || createMutation.isPending}>
+          <ClipboardList className="h-4 w-4 mr-2" />
+          Create Pick List{selectedOrderIds.length > 0 ? ` (${selectedOrderIds.length})` : ''}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Orders to Pick</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {ordersLoading ? (
+            <p className="text-sm text-gray-600">Loading orders...</p>
+          ) : pickableOrders.length === 0 ? (
+            <p className="text-sm text-gray-600">Every paid order is already picked or on a pick list.</p>
+          ) : (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <Checkbox
+                  checked={selectedOrderIds.length === pickableOrders.length}
+                  onCheckedChange={(checked) => setSelectedOrderIds(checked ? pickableOrders.map(order => order.id) : [])}
+                />
+                Select all
+              </label>
+              {pickableOrders.map(order => (
+                <label key={order.id} className="flex items-center justify-between gap-2 border rounded-lg p-3 cursor-pointer">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Checkbox
+                      checked={selectedOrderIds.includes(order.id)}
+                      onCheckedChange={(checked) => toggleOrder(order.id, !!checked)}
+                    />
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm">{order.orderNumber}</div>
+                      <div className="text-xs text-gray-600 truncate">
+                        {order.customerName || 'Customer'} · {new Date(order.createdAt).toLocaleDateString('en-GB')}
+                      </div>
+                    </div>
+                  </div>
+                  <Badge variant="outline" className="text-xs">
+                    {order.fulfillmentType === 'pickup' ? 'Collection' : 'Delivery'}
+                  </Badge>
+                </label>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Pick Lists</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {pickLists.length === 0 ? (
+            <p className="text-sm text-gray-600">No pick lists yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {pickLists.map(summary => (
+                <div
+                  key={summary.id}
+                  className="border rounded-lg p-3 cursor-pointer hover:bg-gray-50"
+                  onClick={() => setOpenPickListId(summary.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <span className="font-medium text-sm">{summary.pickListNumber}</span>
+                      <span className="text-xs text-gray-600">
+                        {' '}· {summary.orderCount} orders{summary.warehouseName ? ` · ${summary.warehouseName}` : ''}
+                      </span>
+                    </div>
+                    <Badge className={`${PICK_LIST_STATUS_COLORS[summary.status]} text-xs`}>
+                      {PICK_LIST_STATUS_LABELS[summary.status]}
+                    </Badge>
+                  </div>
+                  {summary.status === 'open' && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <Progress value={summary.lineCount ? (summary.pickedLineCount / summary.lineCount) * 100 : 0} className="h-2" />
+                      <span className="text-xs text-gray-600 whitespace-nowrap">{summary.pickedLineCount}/{summary.lineCount} lines</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!openPickListId} onOpenChange={(open) => !open && setOpenPickListId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Pick List {pickList?.pickListNumber}</DialogTitle>
+            <DialogDescription>
+              {pickList?.warehouseName ? `Picking from ${pickList.warehouseName}. ` : ''}
+              Orders move on once all of their lines are picked.
+            </DialogDescription>
+          </DialogHeader>
+
+          {pickList && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => openPrintout(`/api/pick-lists/${pickList.id}/print`)}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Pick List
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openPrintout(`/api/pick-lists/${pickList.id}/packing-slips`)}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Packing Slips
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => openPrintout(`/api/pick-lists/${pickList.id}/print?format=pdf`)}>
+                  <FileDown className="h-4 w-4 mr-1" />
+                  PDF
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => openPrintout(`/api/pick-lists/${pickList.id}/packing-slips?format=pdf`)}>
+                  <FileDown className="h-4 w-4 mr-1" />
+                  Slips PDF
+                </Button>
+              </div>
+
+              <div>
+                <h3 className="font-medium text-sm mb-2">By Product</h3>
+                <div className="space-y-1">
+                  {consolidatePickLines(pickList.items.map(line => ({ ...line, product: line }))).map(line => (
+                    <div key={`${line.productId}-${line.sellingType}`} className="flex justify-between text-sm border-b py-1">
+                      <span className={isPickLineComplete(line) ? 'line-through text-gray-400' : ''}>{line.productName}</span>
+                      <span className="font-medium">{line.display}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="font-medium text-sm">By Order</h3>
+                {orderGroups.map(lines => (
+                  <div key={lines[0].orderId} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-sm">{lines[0].orderNumber} · {lines[0].customerName || 'Customer'}</span>
+                      {lines.every(isPickLineComplete) && <PackageCheck className="h-4 w-4 text-green-600" />}
+                    </div>
+                    {lines.map(line => (
+                      <div key={line.id} className="flex items-center justify-between gap-2 text-sm">
+                        <label className="flex items-center gap-2 min-w-0">
+                          <Checkbox
+                            checked={isPickLineComplete(line)}
+                            disabled={pickList.status !== 'open' || pickMutation.isPending}
+                            onCheckedChange={(checked) => pickMutation.mutate({ itemId: line.id, pickedQuantity: checked ? line.quantity : 0 })}
+                          />
+                          <span className="truncate">{line.productName}</span>
+                        </label>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className="text-xs text-gray-600">{formatPickQuantity(line.quantity, line.sellingType, line)}</span>
+                          {pickList.status === 'open' && (
+                            <Input
+                              type="number"
+                              min={0}
+                              max={line.quantity}
+                              className="h-7 w-16 text-xs"
+                              defaultValue={line.pickedQuantity}
+                              key={`${line.id}-${line.pickedQuantity}`}
+                              onBlur={(e) => {
+                                const pickedQuantity = parseInt(e.target.value) || 0;
+                                if (pickedQuantity !== line.pickedQuantity) {
+                                  pickMutation.mutate({ itemId: line.id, pickedQuantity });
+                                }
+                              }}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              {pickList.status === 'open' && (
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Cancel ${pickList.pickListNumber}? Orders already shipped or ready for collection stay that way.`)) {
+                        cancelMutation.mutate(pickList.id);
+                      }
+                    }}
+                  >
+                    Cancel Pick List
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,478 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Sparkles, Check, X, Undo2, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+
+interface PriceChangeProposal {
+  id: number;
+  productId: number;
+  productName: string | null;
+  livePrice: string | null;
+  currentPrice: string;
+  recommendedPrice: string;
+  proposedPrice: string;
+  guardrail: 'floor' | 'ceiling' | null;
+  reasoning: string | null;
+  confidence: number | null;
+  status: string;
+}
+
+interface PriceChangeBatch {
+  id: number;
+  strategy: string;
+  status: string;
+  createdAt: string;
+  reviewedAt: string | null;
+  rolledBackAt: string | null;
+  proposals: PriceChangeProposal[];
+}
+
+interface PriceHistoryEntry {
+  id: number;
+  priceField: string;
+  oldPrice: string | null;
+  newPrice: string | null;
+  source: string;
+  reason: string | null;
+  changedByName: string | null;
+  createdAt: string;
+}
+
+interface ProductSummary {
+  id: number;
+  name: string;
+  price: string;
+  priceFloor?: string | null;
+  priceCeiling?: string | null;
+}
+
+const STRATEGIES: Record<string, string> = {
+  demand_based: 'Demand based',
+  profit_optimization: 'Profit optimisation',
+  market_penetration: 'Market penetration',
+  inventory_clearance: 'Inventory clearance',
+};
+
+const BATCH_STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  superseded: 'bg-gray-100 text-gray-800',
+  rolled_back: 'bg-purple-100 text-purple-800',
+};
+
+const HISTORY_SOURCES: Record<string, string> = {
+  manual: 'Manual edit',
+  dynamic_pricing: 'Dynamic pricing',
+  rollback: 'Rollback',
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export default function PriceChanges() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [strategy, setStrategy] = useState('demand_based');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [historyProduct, setHistoryProduct] = useState<ProductSummary | null>(null);
+  const [guardrailProduct, setGuardrailProduct] = useState<ProductSummary | null>(null);
+  const [guardrailForm, setGuardrailForm] = useState({ priceFloor: '', priceCeiling: '' });
+
+  const { data: batches = [], isLoading } = useQuery<PriceChangeBatch[]>({
+    queryKey: ['/api/price-changes'],
+  });
+
+  const { data: products = [] } = useQuery<ProductSummary[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<PriceHistoryEntry[]>({
+    queryKey: [`/api/products/${historyProduct?.id}/price-history`],
+    enabled: !!historyProduct,
+  });
+
+  const pendingBatch = batches.find(batch => batch.status === 'pending');
+  const pastBatches = batches.filter(batch => batch.status !== 'pending');
+
+  // Start each review with every reviewable proposal ticked
+  useEffect(() => {
+    setSelected(pendingBatch ? pendingBatch.proposals.filter(p => p.status === 'pending').map(p => p.id) : []);
+  }, [pendingBatch?.id]);
+
+  const invalidatePricing = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/price-changes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/price-changes", { strategy });
+      return response.json();
+    },
+    onSuccess: (batch: PriceChangeBatch | null) => {
+      invalidatePricing();
+      toast({
+        title: batch ? "Recommendations Ready" : "No Changes Recommended",
+        description: batch
+          ? `${batch.proposals.length} price recommendation${batch.proposals.length === 1 ? '' : 's'} waiting for review.`
+          : "Your current prices already match this strategy.",
+      });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'approve' | 'reject' | 'rollback' }) => {
+      const response = await apiRequest("POST", `/api/price-changes/${id}/${action}`, action === 'approve' ? { proposalIds: selected } : {});
+      return response.json();
+    },
+    onSuccess: (result, { action }) => {
+      invalidatePricing();
+      if (action === 'approve') {
+        const applied = result.proposals.filter((p: PriceChangeProposal) => p.status === 'approved').length;
+        const stale = result.proposals.filter((p: PriceChangeProposal) => p.status === 'stale').length;
+        toast({
+          title: "Price Changes Approved",
+          description: `${applied} price${applied === 1 ? '' : 's'} updated.${stale > 0 ? ` ${stale} skipped because the price changed since.` : ''}`,
+        });
+      } else if (action === 'reject') {
+        toast({ title: "Price Changes Rejected", description: "No prices were changed." });
+      } else {
+        toast({
+          title: "Price Changes Rolled Back",
+          description: result.skipped > 0
+            ? `${result.skipped} price${result.skipped === 1 ? ' was' : 's were'} edited since and left as is.`
+            : "The previous prices have been restored.",
+        });
+      }
+    },
+    onError,
+  });
+
+  const guardrailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/products/${guardrailProduct!.id}/price-guardrails`, guardrailForm);
+      return response.json();
+    },
+    onSuccess: (product) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      setGuardrailProduct(null);
+      toast({
+        title: "Guardrails Saved",
+        description: `Automatic prices for ${product.name} will stay within these limits.`,
+      });
+    },
+    onError,
+  });
+
+  const openGuardrails = (product: ProductSummary) => {
+    setGuardrailProduct(product);
+    setGuardrailForm({ priceFloor: product.priceFloor || '', priceCeiling: product.priceCeiling || '' });
+  };
+
+  const toggleProposal = (id: number, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, id] : prev.filter(existing => existing !== id));
+  };
+
+  const renderProposalPrice = (proposal: PriceChangeProposal) => (
+    <div className="text-sm">
+      <span className="text-gray-500">{formatCurrency(proposal.currentPrice)}</span>
+      <span className="mx-1">→</span>
+      <span className="font-medium">{formatCurrency(proposal.proposedPrice)}</span>
+      {proposal.guardrail && (
+        <span className="text-xs text-gray-500"> (recommended {formatCurrency(proposal.recommendedPrice)})</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Price Changes</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Review automatic price recommendations before they go live, and see every price change per product
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={strategy} onValueChange={setStrategy}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STRATEGIES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            {generateMutation.isPending ? 'Generating...' : 'Generate Recommendations'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6"><div className="h-12 bg-gray-200 rounded"></div></CardContent>
+        </Card>
+      ) : pendingBatch ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Awaiting Review: {STRATEGIES[pendingBatch.strategy] || pendingBatch.strategy}
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Generated {new Date(pendingBatch.createdAt).toLocaleString()}. Only ticked changes are applied.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pendingBatch.proposals.map(proposal => {
+              const reviewable = proposal.status === 'pending';
+              return (
+                <div key={proposal.id} className="flex items-start gap-3 border rounded-lg p-3">
+                  <Checkbox
+                    checked={selected.includes(proposal.id)}
+                    disabled={!reviewable}
+                    onCheckedChange={(checked) => toggleProposal(proposal.id, checked === true)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{proposal.productName || `Product #${proposal.productId}`}</span>
+                      {proposal.guardrail && (
+                        <Badge variant="outline" className="text-xs">
+                          Held at price {proposal.guardrail}
+                        </Badge>
+                      )}
+                      {proposal.status === 'blocked' && (
+                        <Badge className="bg-gray-100 text-gray-800 text-xs">Blocked by guardrail</Badge>
+                      )}
+                      {reviewable && proposal.livePrice !== null && Math.abs(parseFloat(proposal.livePrice) - parseFloat(proposal.currentPrice)) >= 0.005 && (
+                        <Badge className="bg-orange-100 text-orange-800 text-xs">
+                          Price changed to {formatCurrency(proposal.livePrice)}
+                        </Badge>
+                      )}
+                      {proposal.confidence !== null && (
+                        <span className="text-xs text-gray-500">{proposal.confidence}% confidence</span>
+                      )}
+                    </div>
+                    {renderProposalPrice(proposal)}
+                    {proposal.reasoning && <p className="text-xs text-gray-600">{proposal.reasoning}</p>}
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => reviewMutation.mutate({ id: pendingBatch.id, action: 'reject' })}
+                disabled={reviewMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject All
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate({ id: pendingBatch.id, action: 'approve' })}
+                disabled={selected.length === 0 || reviewMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Approve {selected.length} Change{selected.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Sparkles className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to Review</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Generate recommendations to queue price changes for review. Prices only change once you approve them.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {pastBatches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Previous Batches</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pastBatches.map(batch => {
+              const applied = batch.proposals.filter(p => p.status === 'approved');
+              return (
+                <div key={batch.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{STRATEGIES[batch.strategy] || batch.strategy}</span>
+                        <Badge className={`${BATCH_STATUS_STYLES[batch.status] || 'bg-gray-100 text-gray-800'} text-xs`}>
+                          {formatStatus(batch.status)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {new Date(batch.createdAt).toLocaleString()}
+                        {batch.status === 'approved' && ` · ${applied.length} price${applied.length === 1 ? '' : 's'} changed`}
+                      </p>
+                    </div>
+                    {batch.status === 'approved' && applied.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reviewMutation.mutate({ id: batch.id, action: 'rollback' })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Roll Back
+                      </Button>
+                    )}
+                  </div>
+                  {(batch.status === 'approved' || batch.status === 'rolled_back') && batch.proposals
+                    .filter(p => p.status === 'approved' || p.status === 'rolled_back')
+                    .map(proposal => (
+                      <div key={proposal.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{proposal.productName || `Product #${proposal.productId}`}</span>
+                        {renderProposalPrice(proposal)}
+                      </div>
+                    ))}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Products</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-600">No products yet.</p>
+          ) : (
+            <div className="divide-y">
+              {products.map(product => (
+                <div key={product.id} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{product.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatCurrency(product.price)}
+                      {(product.priceFloor || product.priceCeiling) && (
+                        <> · automatic prices {product.priceFloor ? `from ${formatCurrency(product.priceFloor)}` : ''}
+                          {product.priceFloor && product.priceCeiling ? ' ' : ''}
+                          {product.priceCeiling ? `up to ${formatCurrency(product.priceCeiling)}` : ''}</>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => openGuardrails(product)}>
+                      <ShieldCheck className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setHistoryProduct(product)}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!historyProduct} onOpenChange={(open) => !open && setHistoryProduct(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Price History</DialogTitle>
+            <DialogDescription>{historyProduct?.name}</DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-600">No price changes recorded yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y">
+              {history.map(entry => (
+                <div key={entry.id} className="py-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span>
+                      {entry.priceField === 'palletPrice' ? 'Pallet price ' : ''}
+                      {entry.oldPrice ? formatCurrency(entry.oldPrice) : 'None'} → {entry.newPrice ? formatCurrency(entry.newPrice) : 'None'}
+                    </span>
+                    <Badge variant="outline" className="text-xs">{HISTORY_SOURCES[entry.source] || entry.source}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.changedByName && ` · ${entry.changedByName}`}
+                  </p>
+                  {entry.reason && <p className="text-xs text-gray-600">{entry.reason}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!guardrailProduct} onOpenChange={(open) => !open && setGuardrailProduct(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Price Guardrails</DialogTitle>
+            <DialogDescription>
+              Automatic recommendations for {guardrailProduct?.name} are held within these limits. Leave blank for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="price-floor">Lowest price (£)</Label>
+                <Input
+                  id="price-floor"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={guardrailForm.priceFloor}
+                  onChange={(e) => setGuardrailForm(prev => ({ ...prev, priceFloor: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-ceiling">Highest price (£)</Label>
+                <Input
+                  id="price-ceiling"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={guardrailForm.priceCeiling}
+                  onChange={(e) => setGuardrailForm(prev => ({ ...prev, priceCeiling: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => guardrailMutation.mutate()} disabled={guardrailMutation.isPending}>
+                Save Guardrails
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
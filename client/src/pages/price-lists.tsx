@@ -0,0 +1,499 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Plus, Tag, Trash2, Users, User, Edit3, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+
+interface PriceList {
+  id: number;
+  name: string;
+  description?: string | null;
+  discountPercentage?: string | null;
+  isActive: boolean;
+  itemCount: number;
+  assignmentCount: number;
+}
+
+interface PriceListDetail extends Omit<PriceList, 'itemCount' | 'assignmentCount'> {
+  items: Array<{
+    id: number;
+    productId: number;
+    unitPrice: string | null;
+    palletPrice: string | null;
+    discountPercentage: string | null;
+  }>;
+  assignments: Array<{
+    id: number;
+    customerId: string | null;
+    customerGroupId: number | null;
+  }>;
+}
+
+interface ProductSummary {
+  id: number;
+  name: string;
+  price: string;
+  palletPrice?: string | null;
+}
+
+type ItemDraft = { unitPrice: string; palletPrice: string; discountPercentage: string };
+
+export default function PriceLists() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newList, setNewList] = useState({ name: "", description: "", discountPercentage: "" });
+  const [editingListId, setEditingListId] = useState<number | null>(null);
+
+  const { data: priceLists = [], isLoading } = useQuery<PriceList[]>({
+    queryKey: ['/api/price-lists'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/price-lists', {
+        name: newList.name,
+        description: newList.description || null,
+        discountPercentage: newList.discountPercentage || null,
+      });
+      return response.json();
+    },
+    onSuccess: (priceList) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+      setIsCreateOpen(false);
+      setNewList({ name: "", description: "", discountPercentage: "" });
+      setEditingListId(priceList.id);
+      toast({ title: "Price List Created", description: `"${priceList.name}" is ready for product prices.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create price list.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/price-lists/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+      toast({ title: "Price List Deleted", description: "Assigned customers will now pay standard prices." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete price list.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <Link href="/customers">
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Customers
+            </Button>
+          </Link>
+          <h1 className="text-xl sm:text-2xl font-bold">Price Lists</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Contract pricing for key accounts and customer groups
+          </p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} className="flex items-center space-x-2">
+          <Plus className="h-4 w-4" />
+          <span>New Price List</span>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6"><div className="h-16 bg-gray-200 rounded"></div></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : priceLists.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <Tag className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Price Lists Yet</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Create a price list with negotiated rates or a percentage markdown, then assign it to a customer or group.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {priceLists.map(priceList => (
+            <Card key={priceList.id} className="hover:shadow-md transition-shadow">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base truncate">{priceList.name}</CardTitle>
+                    {priceList.description && <CardDescription className="truncate">{priceList.description}</CardDescription>}
+                  </div>
+                  <Badge variant={priceList.isActive ? "default" : "secondary"}>
+                    {priceList.isActive ? "Active" : "Inactive"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm text-gray-600 space-y-1">
+                  {priceList.discountPercentage && parseFloat(priceList.discountPercentage) > 0 && (
+                    <p>{parseFloat(priceList.discountPercentage)}% off all other products</p>
+                  )}
+                  <p>{priceList.itemCount} product prices · {priceList.assignmentCount} assigned</p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="outline" className="flex-1" onClick={() => setEditingListId(priceList.id)}>
+                    <Edit3 className="h-4 w-4 mr-1" />
+                    Manage
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => {
+                      if (confirm(`Delete "${priceList.name}"? Assigned customers will revert to standard prices.`)) {
+                        deleteMutation.mutate(priceList.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Price List</DialogTitle>
+            <DialogDescription>You can add product-specific prices after creating the list.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="price-list-name">Name</Label>
+              <Input
+                id="price-list-name"
+                value={newList.name}
+                onChange={(e) => setNewList(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Key Accounts 2026"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-list-description">Description (Optional)</Label>
+              <Textarea
+                id="price-list-description"
+                value={newList.description}
+                onChange={(e) => setNewList(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-list-discount">Markdown on All Products (%)</Label>
+              <Input
+                id="price-list-discount"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={newList.discountPercentage}
+                onChange={(e) => setNewList(prev => ({ ...prev, discountPercentage: e.target.value }))}
+                placeholder="Leave blank for product-specific prices only"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+              <Button onClick={() => createMutation.mutate()} disabled={!newList.name.trim() || createMutation.isPending}>
+                {createMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {editingListId !== null && (
+        <PriceListEditor priceListId={editingListId} onClose={() => setEditingListId(null)} />
+      )}
+    </div>
+  );
+}
+
+function PriceListEditor({ priceListId, onClose }: { priceListId: number; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<number, ItemDraft>>({});
+  const [productSearch, setProductSearch] = useState("");
+  const [assignType, setAssignType] = useState<'customer' | 'group'>('customer');
+  const [assignTargetId, setAssignTargetId] = useState<string>("");
+
+  const { data: priceList } = useQuery<PriceListDetail>({
+    queryKey: [`/api/price-lists/${priceListId}`],
+  });
+  const { data: products = [] } = useQuery<ProductSummary[]>({
+    queryKey: ['/api/products'],
+  });
+  const { data: customers = [] } = useQuery<Array<{ id: string; firstName: string; lastName?: string; businessName?: string }>>({
+    queryKey: ['/api/customers'],
+  });
+  const { data: groups = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/customer-groups'],
+  });
+
+  useEffect(() => {
+    if (priceList) {
+      setDrafts(Object.fromEntries(priceList.items.map(item => [item.productId, {
+        unitPrice: item.unitPrice || "",
+        palletPrice: item.palletPrice || "",
+        discountPercentage: item.discountPercentage || "",
+      }])));
+    }
+  }, [priceList]);
+
+  const filteredProducts = useMemo(
+    () => products.filter(p => p.name.toLowerCase().includes(productSearch.toLowerCase())),
+    [products, productSearch]
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/price-lists/${priceListId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+  };
+
+  const updateListMutation = useMutation({
+    mutationFn: async (updates: Partial<{ isActive: boolean; discountPercentage: string | null }>) => {
+      const response = await apiRequest('PATCH', `/api/price-lists/${priceListId}`, updates);
+      return response.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const saveItemsMutation = useMutation({
+    mutationFn: async () => {
+      const items = Object.entries(drafts)
+        .filter(([, draft]) => draft.unitPrice || draft.palletPrice || draft.discountPercentage)
+        .map(([productId, draft]) => ({
+          productId: parseInt(productId),
+          unitPrice: draft.unitPrice || null,
+          palletPrice: draft.palletPrice || null,
+          discountPercentage: draft.discountPercentage || null,
+        }));
+      const response = await apiRequest('PUT', `/api/price-lists/${priceListId}/items`, { items });
+      return response.json();
+    },
+    onSuccess: (items) => {
+      invalidate();
+      toast({ title: "Prices Saved", description: `${items.length} product prices saved.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save prices. Check the values and try again.", variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/price-lists/${priceListId}/assignments`,
+        assignType === 'customer' ? { customerId: assignTargetId } : { customerGroupId: parseInt(assignTargetId) }
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setAssignTargetId("");
+      toast({ title: "Price List Assigned", description: "The customer will see these prices next time they visit your store." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to assign price list.", variant: "destructive" });
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      await apiRequest('DELETE', `/api/price-lists/${priceListId}/assignments/${assignmentId}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateDraft = (productId: number, field: keyof ItemDraft, value: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [productId]: { ...(prev[productId] || { unitPrice: "", palletPrice: "", discountPercentage: "" }), [field]: value },
+    }));
+  };
+
+  const describeAssignment = (assignment: PriceListDetail['assignments'][number]) => {
+    if (assignment.customerId) {
+      const customer = customers.find(c => c.id === assignment.customerId);
+      return customer ? (customer.businessName || `${customer.firstName} ${customer.lastName || ''}`.trim()) : 'Customer';
+    }
+    return groups.find(g => g.id === assignment.customerGroupId)?.name || 'Customer group';
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{priceList?.name || "Price List"}</DialogTitle>
+          <DialogDescription>
+            Set a fixed price or a markdown per product. Products without an entry use the list-wide markdown.
+          </DialogDescription>
+        </DialogHeader>
+
+        {priceList && (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={priceList.isActive}
+                  onCheckedChange={(isActive) => updateListMutation.mutate({ isActive })}
+                />
+                <Label>Active</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="list-discount" className="whitespace-nowrap">List-wide markdown (%)</Label>
+                <Input
+                  id="list-discount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  className="w-24"
+                  defaultValue={priceList.discountPercentage || ""}
+                  onBlur={(e) => updateListMutation.mutate({ discountPercentage: e.target.value || null })}
+                />
+              </div>
+            </div>
+
+            {/* Assignments */}
+            <div className="space-y-3">
+              <h4 className="font-medium">Assigned To</h4>
+              <div className="flex flex-wrap gap-2">
+                {priceList.assignments.length === 0 && (
+                  <p className="text-sm text-gray-500">Not assigned to anyone yet.</p>
+                )}
+                {priceList.assignments.map(assignment => (
+                  <Badge key={assignment.id} variant="outline" className="flex items-center space-x-1 py-1">
+                    {assignment.customerId ? <User className="h-3 w-3" /> : <Users className="h-3 w-3" />}
+                    <span>{describeAssignment(assignment)}</span>
+                    <button
+                      className="ml-1 text-gray-400 hover:text-red-600"
+                      onClick={() => unassignMutation.mutate(assignment.id)}
+                      aria-label="Remove assignment"
+                    >
+                      ×
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={assignType} onValueChange={(value: 'customer' | 'group') => { setAssignType(value); setAssignTargetId(""); }}>
+                  <SelectTrigger className="sm:w-36"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="customer">Customer</SelectItem>
+                    <SelectItem value="group">Group</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={assignTargetId} onValueChange={setAssignTargetId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={assignType === 'customer' ? "Select a customer" : "Select a group"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignType === 'customer'
+                      ? customers.map(c => (
+                          <SelectItem key={c.id} value={c.id}>
+                            {c.businessName || `${c.firstName} ${c.lastName || ''}`.trim()}
+                          </SelectItem>
+                        ))
+                      : groups.map(g => (
+                          <SelectItem key={g.id} value={g.id.toString()}>{g.name}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => assignMutation.mutate()} disabled={!assignTargetId || assignMutation.isPending}>
+                  Assign
+                </Button>
+              </div>
+            </div>
+
+            {/* Product prices */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="font-medium">Product Prices</h4>
+                <div className="relative w-48">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                  <Input
+                    className="pl-8 h-9"
+                    placeholder="Search products"
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-600">
+                      <th className="p-2">Product</th>
+                      <th className="p-2">Standard</th>
+                      <th className="p-2">Unit Price (£)</th>
+                      <th className="p-2">Pallet Price (£)</th>
+                      <th className="p-2">Markdown (%)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredProducts.map(product => {
+                      const draft = drafts[product.id] || { unitPrice: "", palletPrice: "", discountPercentage: "" };
+                      return (
+                        <tr key={product.id} className="border-t">
+                          <td className="p-2 font-medium">{product.name}</td>
+                          <td className="p-2 text-gray-600 whitespace-nowrap">
+                            {formatCurrency(product.price)}
+                            {product.palletPrice && <span className="block text-xs">{formatCurrency(product.palletPrice)} / pallet</span>}
+                          </td>
+                          <td className="p-2">
+                            <Input type="number" min="0" step="0.01" className="h-8 w-24" value={draft.unitPrice}
+                              onChange={(e) => updateDraft(product.id, 'unitPrice', e.target.value)} />
+                          </td>
+                          <td className="p-2">
+                            <Input type="number" min="0" step="0.01" className="h-8 w-24" value={draft.palletPrice}
+                              disabled={!product.palletPrice}
+                              onChange={(e) => updateDraft(product.id, 'palletPrice', e.target.value)} />
+                          </td>
+                          <td className="p-2">
+                            <Input type="number" min="0" max="100" step="0.01" className="h-8 w-20" value={draft.discountPercentage}
+                              onChange={(e) => updateDraft(product.id, 'discountPercentage', e.target.value)} />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={onClose}>Close</Button>
+                <Button onClick={() => saveItemsMutation.mutate()} disabled={saveItemsMutation.isPending}>
+                  {saveItemsMutation.isPending ? "Saving..." : "Save Prices"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
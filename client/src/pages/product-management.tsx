@@ -26,6 +26,7 @@ import { Plus, Search, Download, Grid, List, Package, Upload, Sparkles, FileText
 import type { Product } from "@shared/schema";
 import { currencies, formatCurrency } from "@/lib/currencies";
 import { UNITS, COMMON_WHOLESALE_FORMATS, formatUnitDisplay, BASE_UNITS } from "@shared/units";
+import { VAT_RATES, VAT_RATE_CODES } from "@shared/vat";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
 import LoadingSkeleton from "@/components/ui/loading-skeleton";
@@ -107,6 +108,7 @@ const productFormSchema = z.object({
   deliveryExcluded: z.boolean().optional(),
   temperatureRequirement: z.enum(["ambient", "chilled", "frozen"]).optional(),
   contentCategory: z.enum(["general", "food", "pharmaceuticals", "electronics", "textiles"]).optional(),
+  vatRate: z.enum(["standard", "reduced", "zero", "exempt"]).optional(),
   specialHandling: z.object({
     fragile: z.boolean().optional(),
     perishable: z.boolean().optional(),
@@ -238,6 +240,7 @@ export default function ProductManagement() {
       deliveryExcluded: false,
       temperatureRequirement: "ambient",
       contentCategory: "general",
+      vatRate: "standard",
       specialHandling: {
         fragile: false,
         perishable: false,
@@ -285,6 +288,7 @@ export default function ProductManagement() {
             deliveryExcluded: Boolean(editingProduct.deliveryExcluded),
             temperatureRequirement: editingProduct.temperatureRequirement || "ambient",
             contentCategory: editingProduct.contentCategory || "general",
+            vatRate: editingProduct.vatRate || "standard",
             specialHandling: editingProduct.specialHandling || {
               fragile: false,
               perishable: false,
@@ -880,6 +884,7 @@ export default function ProductManagement() {
         deliveryExcluded: Boolean(product.deliveryExcluded),
         temperatureRequirement: product.temperatureRequirement || "ambient",
         contentCategory: product.contentCategory || "general",
+        vatRate: product.vatRate || "standard",
         specialHandling: typeof product.specialHandling === 'object' ? product.specialHandling : {},
         shelfLife: String(product.shelfLife || ""),
         lowStockThreshold: String(product.lowStockThreshold || "50"),
@@ -1604,6 +1609,32 @@ export default function ProductManagement() {
                         />
                       </div>
 
+                      <FormField
+                        control={form.control}
+                        name="vatRate"
+                        render={({ field }) => (
+                          <FormItem className="md:w-1/2">
+                            <FormLabel>VAT Rate</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select VAT rate" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {VAT_RATE_CODES.map((rate) => (
+                                  <SelectItem key={rate} value={rate}>{VAT_RATES[rate].label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                            <div className="text-xs text-muted-foreground">
+                              Prices include VAT. Only charged once you add your VAT number in Settings.
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={form.control}
                         name="images"
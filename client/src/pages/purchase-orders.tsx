@@ -0,0 +1,606 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Plus, Trash2, Send, PackageCheck, X, Building2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  calculatePurchaseOrderTotal,
+  getOutstandingReceiptQuantity,
+  type PurchaseOrderStatus
+} from "@shared/purchasing";
+
+interface Supplier {
+  id: number;
+  name: string;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  isActive: boolean;
+}
+
+interface PurchaseOrder {
+  id: number;
+  poNumber: string;
+  supplierName: string;
+  status: string;
+  expectedDeliveryDate?: string | null;
+  totalCost: string;
+  notes?: string | null;
+  createdAt: string;
+  items: Array<{
+    id: number;
+    productName: string | null;
+    quantity: number;
+    unitType: string;
+    unitCost: string;
+    receivedQuantity: number;
+  }>;
+}
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+  unitType: 'units' | 'pallets';
+  unitCost: string;
+}
+
+const PURCHASE_ORDER_STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_LINE: DraftLine = { productId: '', quantity: '', unitType: 'units', unitCost: '' };
+
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreating, setIsCreating] = useState(false);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDeliveryDate, setExpectedDeliveryDate] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([{ ...EMPTY_LINE }]);
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<number, string>>({});
+  const [receivedBatches, setReceivedBatches] = useState<Record<number, { batchCode: string; expiryDate: string }>>({});
+  const [isAddingSupplier, setIsAddingSupplier] = useState(false);
+  const [supplierForm, setSupplierForm] = useState({ name: '', contactName: '', email: '', phone: '' });
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ['/api/purchase-orders'],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ['/api/suppliers'],
+  });
+
+  const { data: products = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: warehouses = [] } = useQuery<Array<{ id: number; name: string; isActive: boolean }>>({
+    queryKey: ['/api/warehouses'],
+  });
+  const activeWarehouses = warehouses.filter(warehouse => warehouse.isActive);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        supplierId,
+        expectedDeliveryDate: expectedDeliveryDate || undefined,
+        warehouseId: warehouseId || undefined,
+        notes: notes || undefined,
+        lines: lines.filter(line => line.productId)
+      });
+      return response.json();
+    },
+    onSuccess: (purchaseOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      setIsCreating(false);
+      setSupplierId('');
+      setExpectedDeliveryDate('');
+      setWarehouseId('');
+      setNotes('');
+      setLines([{ ...EMPTY_LINE }]);
+      toast({
+        title: "Purchase Order Created",
+        description: `${purchaseOrder.poNumber} has been saved as a draft.`,
+      });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: number; action: 'order' | 'cancel' | 'receive'; body?: any }) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      if (variables.action === 'receive') {
+        setReceiving(null);
+        queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/backorders'] });
+      }
+      toast({
+        title: "Purchase Order Updated",
+        description: variables.action === 'receive' ? "Stock has been booked in." : "The purchase order has been updated.",
+      });
+    },
+    onError,
+  });
+
+  const supplierMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/suppliers", supplierForm);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      setIsAddingSupplier(false);
+      setSupplierForm({ name: '', contactName: '', email: '', phone: '' });
+      toast({
+        title: "Supplier Added",
+        description: "You can now raise purchase orders with this supplier.",
+      });
+    },
+    onError,
+  });
+
+  const toggleSupplierMutation = useMutation({
+    mutationFn: async (supplier: Supplier) => {
+      const response = await apiRequest("PATCH", `/api/suppliers/${supplier.id}`, { isActive: !supplier.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+    },
+    onError,
+  });
+
+  const updateLine = (index: number, updates: Partial<DraftLine>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...updates } : line));
+  };
+
+  const openReceiving = (purchaseOrder: PurchaseOrder) => {
+    setReceiving(purchaseOrder);
+    setReceivedQuantities(Object.fromEntries(
+      purchaseOrder.items.map(item => [item.id, String(getOutstandingReceiptQuantity(item))])
+    ));
+    setReceivedBatches({});
+  };
+
+  const draftTotal = calculatePurchaseOrderTotal(
+    lines
+      .filter(line => line.productId)
+      .map(line => ({ quantity: parseInt(line.quantity) || 0, unitCost: parseFloat(line.unitCost) || 0 }))
+  );
+  const activeSuppliers = suppliers.filter(supplier => supplier.isActive);
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Purchasing</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Order stock from your suppliers and book deliveries in
+          </p>
+        </div>
+      </div>
+
+      <Tabs defaultValue="purchase-orders">
+        <TabsList>
+          <TabsTrigger value="purchase-orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="purchase-orders" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setIsCreating(true)} disabled={activeSuppliers.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Purchase Order
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-6"><div className="h-16 bg-gray-200 rounded"></div></CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : purchaseOrders.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-16">
+                <ClipboardList className="h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Purchase Orders</h3>
+                <p className="text-gray-600 text-center max-w-md">
+                  {activeSuppliers.length === 0
+                    ? 'Add a supplier first, then raise a purchase order for the stock you need.'
+                    : 'Raise a purchase order to track stock you have ordered from a supplier.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {purchaseOrders.map(purchaseOrder => (
+                <Card key={purchaseOrder.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="text-base">{purchaseOrder.poNumber}</CardTitle>
+                        <CardDescription>
+                          {purchaseOrder.supplierName}
+                          {purchaseOrder.expectedDeliveryDate && ` · Expected ${new Date(purchaseOrder.expectedDeliveryDate).toLocaleDateString('en-GB')}`}
+                        </CardDescription>
+                      </div>
+                      <Badge className={PURCHASE_ORDER_STATUS_COLORS[purchaseOrder.status] || 'bg-gray-100 text-gray-800'}>
+                        {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status as PurchaseOrderStatus] || purchaseOrder.status}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="text-sm space-y-1">
+                      {purchaseOrder.items.map(item => (
+                        <div key={item.id} className="flex justify-between">
+                          <span>{item.quantity} {item.unitType} × {item.productName || 'Product'}</span>
+                          <span className="text-gray-600">
+                            {formatCurrency(item.unitCost)} each
+                            {item.receivedQuantity > 0 && ` · ${item.receivedQuantity} received`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-sm font-medium">Total: {formatCurrency(purchaseOrder.totalCost)}</p>
+                    {purchaseOrder.notes && <p className="text-sm text-gray-600 italic">{purchaseOrder.notes}</p>}
+
+                    <div className="flex flex-wrap gap-2">
+                      {purchaseOrder.status === 'draft' && (
+                        <Button size="sm" onClick={() => actionMutation.mutate({ id: purchaseOrder.id, action: 'order' })} disabled={actionMutation.isPending}>
+                          <Send className="h-4 w-4 mr-1" />
+                          Mark Ordered
+                        </Button>
+                      )}
+                      {['ordered', 'partially_received'].includes(purchaseOrder.status) && (
+                        <Button size="sm" onClick={() => openReceiving(purchaseOrder)}>
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Receive Goods
+                        </Button>
+                      )}
+                      {['draft', 'ordered'].includes(purchaseOrder.status) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => {
+                            if (confirm(`Cancel ${purchaseOrder.poNumber}?`)) {
+                              actionMutation.mutate({ id: purchaseOrder.id, action: 'cancel' });
+                            }
+                          }}
+                          disabled={actionMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setIsAddingSupplier(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Supplier
+            </Button>
+          </div>
+
+          {suppliers.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-16">
+                <Building2 className="h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Suppliers</h3>
+                <p className="text-gray-600 text-center max-w-md">
+                  Add the suppliers you buy stock from.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {suppliers.map(supplier => (
+                <Card key={supplier.id}>
+                  <CardContent className="p-4 space-y-1">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{supplier.name}</span>
+                      {!supplier.isActive && <Badge className="bg-gray-100 text-gray-800">Inactive</Badge>}
+                    </div>
+                    {supplier.contactName && <p className="text-sm text-gray-600">{supplier.contactName}</p>}
+                    {supplier.email && <p className="text-sm text-gray-600">{supplier.email}</p>}
+                    {supplier.phone && <p className="text-sm text-gray-600">{supplier.phone}</p>}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-2"
+                      onClick={() => toggleSupplierMutation.mutate(supplier)}
+                      disabled={toggleSupplierMutation.isPending}
+                    >
+                      {supplier.isActive ? 'Deactivate' : 'Reactivate'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>
+              Unit costs are per unit or per pallet and are used to work out your product margins when the goods arrive.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeSuppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expected-delivery">Expected delivery</Label>
+                <Input
+                  id="expected-delivery"
+                  type="date"
+                  value={expectedDeliveryDate}
+                  onChange={(e) => setExpectedDeliveryDate(e.target.value)}
+                />
+              </div>
+              {activeWarehouses.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Deliver to</Label>
+                  <Select value={warehouseId} onValueChange={setWarehouseId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Default warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeWarehouses.map(warehouse => (
+                        <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {lines.map((line, index) => (
+                <div key={index} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                  <Select value={line.productId} onValueChange={(value) => updateLine(index, { productId: value })}>
+                    <SelectTrigger className="flex-1 min-w-[160px]">
+                      <SelectValue placeholder="Product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map(product => (
+                        <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Qty"
+                    className="w-20"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Select value={line.unitType} onValueChange={(value) => updateLine(index, { unitType: value as DraftLine['unitType'] })}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="units">Units</SelectItem>
+                      <SelectItem value="pallets">Pallets</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Unit cost"
+                    className="w-28"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => setLines(prev => [...prev, { ...EMPTY_LINE }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            <Textarea
+              placeholder="Notes (optional)"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Total: {formatCurrency(draftTotal)}</span>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!supplierId || !lines.some(line => line.productId) || createMutation.isPending}
+              >
+                Save Draft
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Receive {receiving?.poNumber}</DialogTitle>
+            <DialogDescription>
+              Enter what has arrived. Anything not received stays outstanding on the purchase order.
+            </DialogDescription>
+          </DialogHeader>
+          {receiving && (
+            <div className="space-y-3">
+              {receiving.items.filter(item => getOutstandingReceiptQuantity(item) > 0).map(item => (
+                <div key={item.id} className="space-y-2 border-b pb-3">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-sm flex-1 min-w-0">
+                      {item.productName || 'Product'}
+                      <span className="text-gray-500"> ({getOutstandingReceiptQuantity(item)} {item.unitType} outstanding)</span>
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={getOutstandingReceiptQuantity(item)}
+                      className="w-24"
+                      value={receivedQuantities[item.id] || ''}
+                      onChange={(e) => setReceivedQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Batch code (optional)"
+                      className="h-8 text-xs"
+                      value={receivedBatches[item.id]?.batchCode || ''}
+                      onChange={(e) => setReceivedBatches(prev => ({ ...prev, [item.id]: { expiryDate: prev[item.id]?.expiryDate || '', batchCode: e.target.value } }))}
+                    />
+                    <Input
+                      type="date"
+                      title="Expiry date - defaults from the product's shelf life"
+                      className="h-8 text-xs w-40"
+                      value={receivedBatches[item.id]?.expiryDate || ''}
+                      onChange={(e) => setReceivedBatches(prev => ({ ...prev, [item.id]: { batchCode: prev[item.id]?.batchCode || '', expiryDate: e.target.value } }))}
+                    />
+                  </div>
+                </div>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => actionMutation.mutate({
+                    id: receiving.id,
+                    action: 'receive',
+                    body: {
+                      lines: Object.entries(receivedQuantities).map(([itemId, quantity]) => ({
+                        itemId: parseInt(itemId),
+                        quantity: parseInt(quantity) || 0,
+                        batchCode: receivedBatches[parseInt(itemId)]?.batchCode || undefined,
+                        expiryDate: receivedBatches[parseInt(itemId)]?.expiryDate || undefined
+                      }))
+                    }
+                  })}
+                  disabled={actionMutation.isPending}
+                >
+                  Book In Stock
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isAddingSupplier} onOpenChange={setIsAddingSupplier}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Supplier</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">Name</Label>
+              <Input
+                id="supplier-name"
+                value={supplierForm.name}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contact name</Label>
+              <Input
+                id="supplier-contact"
+                value={supplierForm.contactName}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, contactName: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={supplierForm.email}
+                  onChange={(e) => setSupplierForm(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input
+                  id="supplier-phone"
+                  value={supplierForm.phone}
+                  onChange={(e) => setSupplierForm(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => supplierMutation.mutate()} disabled={!supplierForm.name.trim() || supplierMutation.isPending}>
+                Add Supplier
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Check, X, PackageCheck, ClipboardCheck, PoundSterling } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@shared/utils/currency";
+import {
+  RETURN_STATUS_LABELS,
+  RETURN_OUTCOME_LABELS,
+  calculateReturnRefund,
+  type ReturnStatus,
+  type ReturnLineOutcome
+} from "@shared/returns";
+
+interface ReturnRequest {
+  id: number;
+  returnNumber: string;
+  orderId: number;
+  orderNumber: string;
+  customerName: string | null;
+  status: string;
+  reason: string;
+  wholesalerNotes?: string | null;
+  refundAmount?: string | null;
+  createdAt: string;
+  items: Array<{
+    id: number;
+    productName: string | null;
+    quantity: number;
+    unitPrice: string;
+    outcome: string;
+    inspectionNotes?: string | null;
+  }>;
+}
+
+type InspectionOutcome = 'restock' | 'write_off' | 'rejected';
+
+const RETURN_STATUS_COLORS: Record<string, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  received: 'bg-purple-100 text-purple-800',
+  inspected: 'bg-indigo-100 text-indigo-800',
+  refunding: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+export default function Returns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [inspecting, setInspecting] = useState<ReturnRequest | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<number, InspectionOutcome>>({});
+  const [inspectionNotes, setInspectionNotes] = useState<Record<number, string>>({});
+
+  const returnsUrl = statusFilter === "all" ? '/api/returns' : `/api/returns?status=${statusFilter}`;
+  const { data: returns = [], isLoading } = useQuery<ReturnRequest[]>({
+    queryKey: [returnsUrl],
+  });
+
+  const invalidateReturns = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/returns') });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: number; action: 'approve' | 'reject' | 'receive' | 'inspect' | 'refund'; body?: any }) => {
+      const response = await apiRequest("POST", `/api/returns/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateReturns();
+      if (variables.action === 'inspect') {
+        setInspecting(null);
+        queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      }
+      if (variables.action === 'refund') {
+        queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      }
+      toast({
+        title: "Return Updated",
+        description: "The return has been updated and the customer notified.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openInspection = (returnRequest: ReturnRequest) => {
+    setInspecting(returnRequest);
+    setOutcomes(Object.fromEntries(returnRequest.items.map(item => [item.id, 'restock' as InspectionOutcome])));
+    setInspectionNotes({});
+  };
+
+  const submitInspection = () => {
+    if (!inspecting) return;
+    actionMutation.mutate({
+      id: inspecting.id,
+      action: 'inspect',
+      body: {
+        lines: inspecting.items.map(item => ({
+          itemId: item.id,
+          outcome: outcomes[item.id],
+          notes: inspectionNotes[item.id] || undefined
+        }))
+      }
+    });
+  };
+
+  const rejectReturn = (returnRequest: ReturnRequest) => {
+    const notes = prompt(`Reason for rejecting ${returnRequest.returnNumber}?`);
+    if (notes === null) return;
+    actionMutation.mutate({ id: returnRequest.id, action: 'reject', body: { notes } });
+  };
+
+  const inspectionRefund = inspecting
+    ? calculateReturnRefund(inspecting.items.map(item => ({ ...item, outcome: outcomes[item.id] })))
+    : 0;
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Returns</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Approve, receive and inspect customer returns
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All returns</SelectItem>
+            {(Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]).map(status => (
+              <SelectItem key={status} value={status}>{RETURN_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6"><div className="h-16 bg-gray-200 rounded"></div></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : returns.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <RotateCcw className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Returns</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Customers can request a return from their order history in your store.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {returns.map(returnRequest => (
+            <Card key={returnRequest.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base">{returnRequest.returnNumber}</CardTitle>
+                    <CardDescription>
+                      Order {returnRequest.orderNumber} · {returnRequest.customerName || 'Customer'} · {new Date(returnRequest.createdAt).toLocaleDateString('en-GB')}
+                    </CardDescription>
+                  </div>
+                  <Badge className={RETURN_STATUS_COLORS[returnRequest.status] || 'bg-gray-100 text-gray-800'}>
+                    {RETURN_STATUS_LABELS[returnRequest.status as ReturnStatus] || returnRequest.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-700">"{returnRequest.reason}"</p>
+
+                <div className="text-sm space-y-1">
+                  {returnRequest.items.map(item => (
+                    <div key={item.id} className="flex justify-between">
+                      <span>{item.quantity} × {item.productName || 'Product'}</span>
+                      <span className="text-gray-600">
+                        {formatCurrency(item.quantity * parseFloat(item.unitPrice))}
+                        {item.outcome !== 'pending' && ` · ${RETURN_OUTCOME_LABELS[item.outcome as ReturnLineOutcome] || item.outcome}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {returnRequest.wholesalerNotes && (
+                  <p className="text-sm text-gray-600 italic">Note: {returnRequest.wholesalerNotes}</p>
+                )}
+
+                {returnRequest.refundAmount && ['inspected', 'refunding', 'refunded'].includes(returnRequest.status) && (
+                  <p className="text-sm font-medium">Refund due: {formatCurrency(returnRequest.refundAmount)}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {returnRequest.status === 'requested' && (
+                    <Button size="sm" onClick={() => actionMutation.mutate({ id: returnRequest.id, action: 'approve' })} disabled={actionMutation.isPending}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  )}
+                  {['requested', 'approved'].includes(returnRequest.status) && (
+                    <Button size="sm" variant="outline" className="text-red-600" onClick={() => rejectReturn(returnRequest)} disabled={actionMutation.isPending}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  )}
+                  {returnRequest.status === 'approved' && (
+                    <Button size="sm" onClick={() => actionMutation.mutate({ id: returnRequest.id, action: 'receive' })} disabled={actionMutation.isPending}>
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Mark Received
+                    </Button>
+                  )}
+                  {returnRequest.status === 'received' && (
+                    <Button size="sm" onClick={() => openInspection(returnRequest)}>
+                      <ClipboardCheck className="h-4 w-4 mr-1" />
+                      Inspect
+                    </Button>
+                  )}
+                  {returnRequest.status === 'inspected' && (
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Refund ${formatCurrency(returnRequest.refundAmount || '0')} for ${returnRequest.returnNumber}?`)) {
+                          actionMutation.mutate({ id: returnRequest.id, action: 'refund' });
+                        }
+                      }}
+                      disabled={actionMutation.isPending}
+                    >
+                      <PoundSterling className="h-4 w-4 mr-1" />
+                      Issue Refund
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!inspecting} onOpenChange={(open) => !open && setInspecting(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Inspect {inspecting?.returnNumber}</DialogTitle>
+            <DialogDescription>
+              Restocked items go back into stock. Written-off items are refunded but not restocked.
+            </DialogDescription>
+          </DialogHeader>
+          {inspecting && (
+            <div className="space-y-4">
+              {inspecting.items.map(item => (
+                <div key={item.id} className="space-y-2 border-b pb-3">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-sm font-medium">{item.quantity} × {item.productName || 'Product'}</span>
+                    <Select
+                      value={outcomes[item.id]}
+                      onValueChange={(value) => setOutcomes(prev => ({ ...prev, [item.id]: value as InspectionOutcome }))}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="restock">{RETURN_OUTCOME_LABELS.restock}</SelectItem>
+                        <SelectItem value="write_off">{RETURN_OUTCOME_LABELS.write_off}</SelectItem>
+                        <SelectItem value="rejected">{RETURN_OUTCOME_LABELS.rejected}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    placeholder="Inspection notes (optional)"
+                    className="text-sm"
+                    rows={2}
+                    value={inspectionNotes[item.id] || ''}
+                    onChange={(e) => setInspectionNotes(prev => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium">Refund: {formatCurrency(inspectionRefund)}</span>
+                <Button onClick={submitInspection} disabled={actionMutation.isPending}>
+                  Save Inspection
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
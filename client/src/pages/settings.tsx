@@ -60,6 +60,8 @@ export default function Settings() {
     businessName: user?.businessName || '',
     businessPhone: user?.businessPhone || '',
     businessAddress: user?.businessAddress || '',
+    vatNumber: user?.vatNumber || '',
+    invoiceNumberPrefix: user?.invoiceNumberPrefix || 'INV',
     city: user?.city || '',
     postalCode: user?.postalCode || '',
     country: user?.country || 'United Kingdom',
@@ -82,6 +84,8 @@ export default function Settings() {
         businessName: user.businessName || '',
         businessPhone: user.businessPhone || '',
         businessAddress: user.businessAddress || '',
+        vatNumber: user.vatNumber || '',
+        invoiceNumberPrefix: user.invoiceNumberPrefix || 'INV',
         city: user.city || '',
         postalCode: user.postalCode || '',
         country: user.country || 'United Kingdom',
@@ -237,11 +241,17 @@ export default function Settings() {
         setIsEditingBusiness(false);
         window.location.reload(); // Refresh to show updated data
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating business:', error);
+      let description = "Unable to update business information. Please try again.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d+:\s*/, '')).message || description;
+      } catch {
+        // Non-JSON error body - keep the generic message
+      }
       toast({
         title: "Update Failed",
-        description: "Unable to update business information. Please try again.",
+        description,
         variant: "destructive",
       });
     }
@@ -587,6 +597,8 @@ export default function Settings() {
                               businessName: user?.businessName || '',
                               businessPhone: user?.businessPhone || '',
                               businessAddress: user?.businessAddress || '',
+                              vatNumber: user?.vatNumber || '',
+                              invoiceNumberPrefix: user?.invoiceNumberPrefix || 'INV',
                               city: user?.city || '',
                               postalCode: user?.postalCode || '',
                               country: user?.country || 'United Kingdom',
@@ -620,6 +632,14 @@ export default function Settings() {
                             {user.businessAddress || 'Not set'}
                           </dd>
                         </div>
+                        <div>
+                          <dt className="text-sm font-medium text-gray-500">VAT Number</dt>
+                          <dd className="mt-1 text-sm text-gray-900">{user.vatNumber || 'Not VAT registered'}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-sm font-medium text-gray-500">Invoice Number Prefix</dt>
+                          <dd className="mt-1 text-sm text-gray-900">{user.invoiceNumberPrefix || 'INV'}</dd>
+                        </div>
                         <div>
                           <dt className="text-sm font-medium text-gray-500">City</dt>
                           <dd className="mt-1 text-sm text-gray-900">{user.city || 'Not set'}</dd>
@@ -684,6 +704,33 @@ export default function Settings() {
                             rows={3}
                           />
                         </div>
+                        <div className="sm:col-span-2">
+                          <label className="text-sm font-medium text-gray-500">VAT Number</label>
+                          <input
+                            type="text"
+                            value={businessForm.vatNumber}
+                            onChange={(e) => setBusinessForm({...businessForm, vatNumber: e.target.value})}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="GB123456789"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            VAT is worked out of your prices and shown on invoices once this is set. Leave blank if you are not VAT registered.
+                          </p>
+                        </div>
+                        <div className="sm:col-span-2">
+                          <label className="text-sm font-medium text-gray-500">Invoice Number Prefix</label>
+                          <input
+                            type="text"
+                            value={businessForm.invoiceNumberPrefix}
+                            onChange={(e) => setBusinessForm({...businessForm, invoiceNumberPrefix: e.target.value.toUpperCase()})}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="INV"
+                            maxLength={8}
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            Invoices are numbered {businessForm.invoiceNumberPrefix || 'INV'}-000001 onwards and credit notes {businessForm.invoiceNumberPrefix || 'INV'}-CN-000001. Changing the prefix carries on the same numbering.
+                          </p>
+                        </div>
                         <div>
                           <label className="text-sm font-medium text-gray-500">City</label>
                           <input
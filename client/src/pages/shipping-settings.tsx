@@ -29,6 +29,8 @@ import {
 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import GooglePlacesAutocomplete from '@/components/google-places-autocomplete';
+import ShippingProvidersCard from '@/components/shipping-providers-card';
+import type { ShippingProviderKey } from '@shared/shipping-providers';
 
 interface ShippingQuote {
   service: string;
@@ -46,6 +48,13 @@ interface DropShop {
   openingHours: string;
 }
 
+interface ShippingStatus {
+  configured: boolean;
+  environment: string;
+  providers: { accountId: number | null; name: string; provider: ShippingProviderKey }[];
+  ready: boolean;
+}
+
 interface ShippingService {
   id: string;
   name: string;
@@ -95,7 +104,7 @@ export default function ShippingSettings() {
   }, [currentSettings]);
 
   // Fetch shipping status
-  const { data: shippingStatus, isLoading: statusLoading } = useQuery({
+  const { data: shippingStatus, isLoading: statusLoading } = useQuery<ShippingStatus>({
     queryKey: ['/api/shipping/status'],
     staleTime: 5 * 60 * 1000 // 5 minutes
   });
@@ -254,7 +263,7 @@ export default function ShippingSettings() {
         </CardHeader>
         <CardContent>
           <div className="flex items-center space-x-4">
-            {shippingStatus?.configured ? (
+            {shippingStatus?.configured || (shippingStatus?.providers.length ?? 0) > 0 ? (
               <Badge variant="default" className="bg-green-100 text-green-800 border-green-200">
                 <CheckCircle className="h-4 w-4 mr-1" />
                 Connected
@@ -271,17 +280,19 @@ export default function ShippingSettings() {
             </Badge>
           </div>
 
-          {!shippingStatus?.configured && (
+          {!shippingStatus?.ready && (
             <Alert className="mt-4">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                Parcel2Go integration is not configured. Contact support to enable shipping services.
+                No delivery carrier is set up yet. Connect your Parcel2Go account or add table rates below.
               </AlertDescription>
             </Alert>
           )}
         </CardContent>
       </Card>
 
+      <ShippingProvidersCard />
+
       {shippingStatus?.ready && (
         <Tabs defaultValue="automation" className="space-y-6">
           <TabsList className="grid w-full grid-cols-5">
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { SHIPPING_STATUS_LABELS, SHIPPING_STATUS_COLORS } from '@shared/tracking-schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 
 interface TrackingEvent {
   id: string;
@@ -55,13 +57,34 @@ export default function ShippingTracking() {
     refetchInterval: 60000, // Auto-refresh every minute
   });
 
-  const { data: trackingDetails, isLoading: isLoadingDetails, refetch: refetchDetails } = useQuery({
-    queryKey: ['/api/shipping/tracking', selectedOrder?.id],
+  const { toast } = useToast();
+
+  const { data: trackingDetails, isLoading: isLoadingDetails } = useQuery({
+    queryKey: [`/api/shipping/tracking/${selectedOrder?.id}`],
     enabled: !!selectedOrder,
     staleTime: 15000, // 15 seconds for real-time tracking
     refetchInterval: 30000, // Auto-refresh every 30 seconds
   });
 
+  // Ask the carrier for new scans now instead of waiting for the background sync
+  const refreshTrackingMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      const response = await apiRequest('POST', `/api/shipping/tracking/${orderId}/refresh`);
+      return response.json();
+    },
+    onSuccess: (tracking, orderId) => {
+      queryClient.setQueryData([`/api/shipping/tracking/${orderId}`], tracking);
+      queryClient.invalidateQueries({ queryKey: ['/api/shipping/tracked-orders'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Tracking Not Updated',
+        description: error.message || 'Could not reach the carrier',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const filteredOrders = trackedOrders.filter((order: TrackedOrder) =>
     order.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
     order.trackingNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -237,8 +260,14 @@ export default function ShippingTracking() {
                         Track on {selectedOrder.carrier}
                       </Button>
                     )}
-                    <Button onClick={() => refetchDetails()} variant="outline" size="sm" className="gap-1">
-                      <RefreshCw className="h-4 w-4" />
+                    <Button
+                      onClick={() => refreshTrackingMutation.mutate(selectedOrder.id)}
+                      disabled={refreshTrackingMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${refreshTrackingMutation.isPending ? 'animate-spin' : ''}`} />
                       Update
                     </Button>
                   </div>
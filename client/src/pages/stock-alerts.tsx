@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { AlertTriangle, Package, Check, X, Settings, Eye, EyeOff } from "lucide-react";
+import { AlertTriangle, Package, Check, X, Settings, Eye, EyeOff, CalendarClock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
@@ -15,7 +15,7 @@ interface StockAlert {
   id: number;
   productId: number;
   wholesalerId: string;
-  alertType: 'low_stock' | 'out_of_stock';
+  alertType: 'low_stock' | 'out_of_stock' | 'near_expiry';
   currentStock: number;
   threshold: number;
   isRead: boolean;
@@ -28,6 +28,12 @@ interface StockAlert {
     imageUrl?: string;
     lowStockThreshold: number;
   };
+  stockLot?: {
+    id: number;
+    batchCode: string;
+    expiryDate: string | null;
+    unitType: string;
+  } | null;
 }
 
 interface User {
@@ -161,6 +167,8 @@ export default function StockAlerts() {
         return <X className="h-4 w-4 text-red-500" />;
       case 'low_stock':
         return <AlertTriangle className="h-4 w-4 text-orange-500" />;
+      case 'near_expiry':
+        return <CalendarClock className="h-4 w-4 text-amber-600" />;
       default:
         return <Package className="h-4 w-4" />;
     }
@@ -172,6 +180,8 @@ export default function StockAlerts() {
         return 'bg-red-50 border-red-200';
       case 'low_stock':
         return 'bg-orange-50 border-orange-200';
+      case 'near_expiry':
+        return 'bg-amber-50 border-amber-200';
       default:
         return 'bg-gray-50 border-gray-200';
     }
@@ -302,16 +312,30 @@ export default function StockAlerts() {
                       </div>
                       
                       <div className="text-sm text-gray-600 space-y-1">
-                        <p>
-                          <span className="font-medium">Current Stock:</span> {alert.currentStock} units
-                        </p>
-                        <p>
-                          <span className="font-medium">Alert Threshold:</span> {alert.threshold} units
-                        </p>
+                        {alert.alertType === 'near_expiry' && alert.stockLot ? (
+                          <>
+                            <p>
+                              <span className="font-medium">Batch:</span> {alert.stockLot.batchCode} ({alert.currentStock} {alert.stockLot.unitType} left)
+                            </p>
+                            <p>
+                              <span className="font-medium">Expires:</span>{" "}
+                              {alert.stockLot.expiryDate ? new Date(alert.stockLot.expiryDate).toLocaleDateString('en-GB') : 'Unknown'}
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p>
+                              <span className="font-medium">Current Stock:</span> {alert.currentStock} units
+                            </p>
+                            <p>
+                              <span className="font-medium">Alert Threshold:</span> {alert.threshold} units
+                            </p>
+                          </>
+                        )}
                         <p>
                           <span className="font-medium">Alert Type:</span>{" "}
                           <Badge variant={alert.alertType === 'out_of_stock' ? 'destructive' : 'secondary'}>
-                            {alert.alertType === 'out_of_stock' ? 'Out of Stock' : 'Low Stock'}
+                            {alert.alertType === 'out_of_stock' ? 'Out of Stock' : alert.alertType === 'near_expiry' ? 'Near Expiry' : 'Low Stock'}
                           </Badge>
                         </p>
                         <p className="text-xs text-gray-500">
@@ -333,14 +357,16 @@ export default function StockAlerts() {
                       </Button>
                     )}
                     
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleUpdateProductThreshold(alert)}
-                    >
-                      <Settings className="h-4 w-4 mr-1" />
-                      Adjust
-                    </Button>
+                    {alert.alertType !== 'near_expiry' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleUpdateProductThreshold(alert)}
+                      >
+                        <Settings className="h-4 w-4 mr-1" />
+                        Adjust
+                      </Button>
+                    )}
                     
                     <Button
                       variant="default"
@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Plus, Trash2, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getDaysUntilExpiry } from "@shared/stock-lots";
+
+interface StockLot {
+  id: number;
+  productId: number;
+  productName: string;
+  batchCode: string;
+  expiryDate?: string | null;
+  unitType: string;
+  quantityReceived: number;
+  quantityRemaining: number;
+  receivedAt: string;
+  writtenOffAt?: string | null;
+}
+
+interface LotAllocation {
+  id: number;
+  orderId: number;
+  orderNumber: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  orderDate: string | null;
+  quantity: number;
+}
+
+const EMPTY_LOT = { productId: '', batchCode: '', expiryDate: '', quantity: '', unitType: 'units', addToStock: true };
+
+const getExpiryBadge = (lot: StockLot) => {
+  if (!lot.expiryDate) return { label: 'No expiry', className: 'bg-gray-100 text-gray-800' };
+  const days = getDaysUntilExpiry(lot.expiryDate);
+  if (days <= 0) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+  if (days <= 7) return { label: `${days} day${days === 1 ? '' : 's'} left`, className: 'bg-orange-100 text-orange-800' };
+  return { label: `${days} days left`, className: 'bg-green-100 text-green-800' };
+};
+
+export default function StockLots() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [productFilter, setProductFilter] = useState("all");
+  const [includeEmpty, setIncludeEmpty] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [lotForm, setLotForm] = useState({ ...EMPTY_LOT });
+  const [writingOff, setWritingOff] = useState<StockLot | null>(null);
+  const [writeOffQuantity, setWriteOffQuantity] = useState("");
+  const [writeOffReason, setWriteOffReason] = useState("");
+  const [tracing, setTracing] = useState<StockLot | null>(null);
+
+  const params = new URLSearchParams();
+  if (productFilter !== "all") params.set('productId', productFilter);
+  if (includeEmpty) params.set('includeEmpty', 'true');
+  const lotsUrl = params.toString() ? `/api/stock-lots?${params}` : '/api/stock-lots';
+
+  const { data: lots = [], isLoading } = useQuery<StockLot[]>({
+    queryKey: [lotsUrl],
+  });
+
+  const { data: products = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: allocations = [] } = useQuery<LotAllocation[]>({
+    queryKey: [`/api/stock-lots/${tracing?.id}/orders`],
+    enabled: !!tracing,
+  });
+
+  const invalidateLots = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/stock-lots') });
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stock-alerts'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const addLotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stock-lots", {
+        ...lotForm,
+        expiryDate: lotForm.expiryDate || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (lot) => {
+      invalidateLots();
+      setIsAdding(false);
+      setLotForm({ ...EMPTY_LOT });
+      toast({
+        title: "Batch Recorded",
+        description: `Batch ${lot.batchCode} has been recorded.`,
+      });
+    },
+    onError,
+  });
+
+  const writeOffMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-lots/${writingOff!.id}/write-off`, {
+        quantity: parseInt(writeOffQuantity),
+        reason: writeOffReason || undefined
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLots();
+      setWritingOff(null);
+      toast({
+        title: "Stock Written Off",
+        description: "The batch and product stock have been reduced.",
+      });
+    },
+    onError,
+  });
+
+  const openWriteOff = (lot: StockLot) => {
+    setWritingOff(lot);
+    setWriteOffQuantity(String(lot.quantityRemaining));
+    setWriteOffReason("");
+  };
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Batches & Expiry</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Orders are picked from the batch that expires first
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={productFilter} onValueChange={setProductFilter}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All products</SelectItem>
+              {products.map(product => (
+                <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Batch
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="include-empty" checked={includeEmpty} onCheckedChange={setIncludeEmpty} />
+        <Label htmlFor="include-empty" className="text-sm">Show sold-out and written-off batches</Label>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6"><div className="h-12 bg-gray-200 rounded"></div></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : lots.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <Layers className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Batches</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Batches are created when you receive a purchase order, or you can add one for stock already on the shelf.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {lots.map(lot => {
+            const expiry = getExpiryBadge(lot);
+            return (
+              <Card key={lot.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{lot.productName}</span>
+                      <Badge variant="outline" className="text-xs">Batch {lot.batchCode}</Badge>
+                      <Badge className={`${expiry.className} text-xs`}>{expiry.label}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {lot.quantityRemaining} of {lot.quantityReceived} {lot.unitType} left
+                      {lot.expiryDate && ` · Expires ${new Date(lot.expiryDate).toLocaleDateString('en-GB')}`}
+                      {` · Received ${new Date(lot.receivedAt).toLocaleDateString('en-GB')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setTracing(lot)}>
+                      <Search className="h-4 w-4 mr-1" />
+                      Orders
+                    </Button>
+                    {lot.quantityRemaining > 0 && (
+                      <Button size="sm" variant="outline" className="text-red-600" onClick={() => openWriteOff(lot)}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Write Off
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isAdding} onOpenChange={setIsAdding}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Batch</DialogTitle>
+            <DialogDescription>
+              Leave the expiry blank to work it out from the product's shelf life.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Product</Label>
+              <Select value={lotForm.productId} onValueChange={(value) => setLotForm(prev => ({ ...prev, productId: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="batch-code">Batch code</Label>
+                <Input
+                  id="batch-code"
+                  value={lotForm.batchCode}
+                  onChange={(e) => setLotForm(prev => ({ ...prev, batchCode: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-expiry">Expiry date</Label>
+                <Input
+                  id="batch-expiry"
+                  type="date"
+                  value={lotForm.expiryDate}
+                  onChange={(e) => setLotForm(prev => ({ ...prev, expiryDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="Quantity"
+                value={lotForm.quantity}
+                onChange={(e) => setLotForm(prev => ({ ...prev, quantity: e.target.value }))}
+              />
+              <Select value={lotForm.unitType} onValueChange={(value) => setLotForm(prev => ({ ...prev, unitType: value }))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="units">Units</SelectItem>
+                  <SelectItem value="pallets">Pallets</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="add-to-stock"
+                checked={lotForm.addToStock}
+                onCheckedChange={(checked) => setLotForm(prev => ({ ...prev, addToStock: checked }))}
+              />
+              <Label htmlFor="add-to-stock" className="text-sm">
+                {lotForm.addToStock ? 'New delivery - add to stock' : 'Label stock already on the shelf'}
+              </Label>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => addLotMutation.mutate()}
+                disabled={!lotForm.productId || !lotForm.batchCode.trim() || !parseInt(lotForm.quantity) || addLotMutation.isPending}
+              >
+                Save Batch
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!writingOff} onOpenChange={(open) => !open && setWritingOff(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Write Off Batch {writingOff?.batchCode}</DialogTitle>
+            <DialogDescription>
+              The quantity is removed from the batch and from {writingOff?.productName} stock.
+            </DialogDescription>
+          </DialogHeader>
+          {writingOff && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="write-off-quantity">Quantity ({writingOff.unitType})</Label>
+                <Input
+                  id="write-off-quantity"
+                  type="number"
+                  min={1}
+                  max={writingOff.quantityRemaining}
+                  value={writeOffQuantity}
+                  onChange={(e) => setWriteOffQuantity(e.target.value)}
+                />
+              </div>
+              <Input
+                placeholder="Reason (optional, e.g. expired, damaged)"
+                value={writeOffReason}
+                onChange={(e) => setWriteOffReason(e.target.value)}
+              />
+              <div className="flex justify-end">
+                <Button
+                  variant="destructive"
+                  onClick={() => writeOffMutation.mutate()}
+                  disabled={!parseInt(writeOffQuantity) || writeOffMutation.isPending}
+                >
+                  Write Off
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!tracing} onOpenChange={(open) => !open && setTracing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Orders from Batch {tracing?.batchCode}</DialogTitle>
+            <DialogDescription>
+              Every customer who received this batch of {tracing?.productName}.
+            </DialogDescription>
+          </DialogHeader>
+          {allocations.length === 0 ? (
+            <p className="text-sm text-gray-600">No orders have been picked from this batch.</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {allocations.map(allocation => (
+                <div key={allocation.id} className="flex justify-between border-b pb-2">
+                  <div>
+                    <div className="font-medium">Order {allocation.orderNumber}</div>
+                    <div className="text-gray-600">
+                      {allocation.customerName || 'Customer'}
+                      {allocation.customerEmail && ` · ${allocation.customerEmail}`}
+                    </div>
+                  </div>
+                  <div className="text-right text-gray-600">
+                    <div>{allocation.quantity} {tracing?.unitType}</div>
+                    {allocation.orderDate && <div>{new Date(allocation.orderDate).toLocaleDateString('en-GB')}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import MultiWholesalerDashboard from "@/components/MultiWholesalerDashboard";
+import { OutboxPanel } from "@/components/wholesaler/OutboxPanel";
 
 export default function SuperAdmin() {
   const [activeTab, setActiveTab] = useState("overview");
@@ -59,11 +60,12 @@ export default function SuperAdmin() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Platform Overview</TabsTrigger>
           <TabsTrigger value="wholesalers">Wholesaler Management</TabsTrigger>
           <TabsTrigger value="orders">Order Analytics</TabsTrigger>
           <TabsTrigger value="performance">Performance Insights</TabsTrigger>
+          <TabsTrigger value="delivery">Message Delivery</TabsTrigger>
         </TabsList>
 
         {/* Platform Overview Tab */}
@@ -231,6 +233,11 @@ export default function SuperAdmin() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Message Delivery Tab */}
+        <TabsContent value="delivery" className="space-y-6">
+          <OutboxPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,455 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Warehouse as WarehouseIcon, Plus, Pencil, Star, ArrowRightLeft } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Warehouse {
+  id: number;
+  name: string;
+  addressLine1?: string | null;
+  city?: string | null;
+  postcode?: string | null;
+  isDefault: boolean;
+  allowCollection: boolean;
+  collectionInstructions?: string | null;
+  isActive: boolean;
+}
+
+interface WarehouseStockLevel {
+  warehouseId: number;
+  productId: number;
+  stock: number;
+  palletStock: number;
+}
+
+const EMPTY_WAREHOUSE = { name: '', addressLine1: '', city: '', postcode: '', allowCollection: true, collectionInstructions: '' };
+const EMPTY_TRANSFER = { productId: '', fromWarehouseId: '', toWarehouseId: '', quantity: '', unitType: 'units', reason: '' };
+
+export default function Warehouses() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Warehouse | 'new' | null>(null);
+  const [warehouseForm, setWarehouseForm] = useState({ ...EMPTY_WAREHOUSE });
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [transferForm, setTransferForm] = useState({ ...EMPTY_TRANSFER });
+
+  const { data: warehouses = [], isLoading } = useQuery<Warehouse[]>({
+    queryKey: ['/api/warehouses'],
+  });
+
+  const { data: levels = [] } = useQuery<WarehouseStockLevel[]>({
+    queryKey: ['/api/warehouse-stock'],
+    enabled: warehouses.length > 0,
+  });
+
+  const { data: products = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/products'],
+  });
+
+  const activeWarehouses = warehouses.filter(w => w.isActive);
+
+  const invalidateWarehouses = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/warehouses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/warehouse-stock'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const saveWarehouseMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === 'new'
+        ? await apiRequest("POST", "/api/warehouses", warehouseForm)
+        : await apiRequest("PATCH", `/api/warehouses/${(editing as Warehouse).id}`, warehouseForm);
+      return response.json();
+    },
+    onSuccess: (warehouse) => {
+      invalidateWarehouses();
+      setEditing(null);
+      toast({
+        title: "Warehouse Saved",
+        description: `${warehouse.name} has been saved.`,
+      });
+    },
+    onError,
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/warehouses/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: (warehouse) => {
+      invalidateWarehouses();
+      toast({
+        title: warehouse.isActive ? "Warehouse Reopened" : "Warehouse Closed",
+        description: warehouse.isActive
+          ? `${warehouse.name} can take orders again.`
+          : `${warehouse.name} will no longer be used for orders.`,
+      });
+    },
+    onError,
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/warehouses/${id}/default`);
+      return response.json();
+    },
+    onSuccess: (warehouse) => {
+      invalidateWarehouses();
+      toast({
+        title: "Default Warehouse Changed",
+        description: `${warehouse.name} is now the default warehouse.`,
+      });
+    },
+    onError,
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/warehouse-transfers", transferForm);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateWarehouses();
+      setIsTransferring(false);
+      setTransferForm({ ...EMPTY_TRANSFER });
+      toast({
+        title: "Stock Transferred",
+        description: "The transfer has been recorded in stock movements.",
+      });
+    },
+    onError,
+  });
+
+  const openEditor = (warehouse: Warehouse | 'new') => {
+    setEditing(warehouse);
+    setWarehouseForm(warehouse === 'new' ? { ...EMPTY_WAREHOUSE } : {
+      name: warehouse.name,
+      addressLine1: warehouse.addressLine1 || '',
+      city: warehouse.city || '',
+      postcode: warehouse.postcode || '',
+      allowCollection: warehouse.allowCollection,
+      collectionInstructions: warehouse.collectionInstructions || ''
+    });
+  };
+
+  const getLevel = (warehouseId: number, productId: number) =>
+    levels.find(level => level.warehouseId === warehouseId && level.productId === productId);
+
+  const stockedProducts = products.filter(product => levels.some(level =>
+    level.productId === product.id && (level.stock > 0 || level.palletStock > 0)
+  ));
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Warehouses</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Orders are fulfilled from the buyer's collection depot or the nearest warehouse with the stock
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          {activeWarehouses.length > 1 && (
+            <Button variant="outline" onClick={() => setIsTransferring(true)}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Transfer Stock
+            </Button>
+          )}
+          <Button onClick={() => openEditor('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Warehouse
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6"><div className="h-12 bg-gray-200 rounded"></div></CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : warehouses.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <WarehouseIcon className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Warehouses</h3>
+            <p className="text-gray-600 text-center max-w-md">
+              Add your first warehouse to hold your current stock. Add more to split stock across locations and offer collection depots.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            {warehouses.map(warehouse => (
+              <Card key={warehouse.id} className={warehouse.isActive ? '' : 'opacity-60'}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{warehouse.name}</span>
+                        {warehouse.isDefault && <Badge className="bg-blue-100 text-blue-800 text-xs">Default</Badge>}
+                        {warehouse.allowCollection && warehouse.isActive && <Badge variant="outline" className="text-xs">Collection depot</Badge>}
+                        {!warehouse.isActive && <Badge className="bg-gray-100 text-gray-800 text-xs">Closed</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {[warehouse.addressLine1, warehouse.city, warehouse.postcode].filter(Boolean).join(', ') || 'No address'}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => openEditor(warehouse)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    {warehouse.isActive && !warehouse.isDefault && (
+                      <Button size="sm" variant="outline" onClick={() => setDefaultMutation.mutate(warehouse.id)} disabled={setDefaultMutation.isPending}>
+                        <Star className="h-4 w-4 mr-1" />
+                        Make Default
+                      </Button>
+                    )}
+                    {!warehouse.isDefault && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className={warehouse.isActive ? 'text-red-600' : ''}
+                        onClick={() => setActiveMutation.mutate({ id: warehouse.id, isActive: !warehouse.isActive })}
+                        disabled={setActiveMutation.isPending}
+                      >
+                        {warehouse.isActive ? 'Close' : 'Reopen'}
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Stock by Location</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {stockedProducts.length === 0 ? (
+                <p className="text-sm text-gray-600">No stock held yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2 pr-4 font-medium">Product</th>
+                        {activeWarehouses.map(warehouse => (
+                          <th key={warehouse.id} className="py-2 px-2 font-medium text-right">{warehouse.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stockedProducts.map(product => (
+                        <tr key={product.id} className="border-b last:border-0">
+                          <td className="py-2 pr-4">{product.name}</td>
+                          {activeWarehouses.map(warehouse => {
+                            const level = getLevel(warehouse.id, product.id);
+                            return (
+                              <td key={warehouse.id} className="py-2 px-2 text-right">
+                                {level?.stock || 0}
+                                {!!level?.palletStock && <span className="text-gray-500"> + {level.palletStock} pallets</span>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Warehouse' : 'Edit Warehouse'}</DialogTitle>
+            <DialogDescription>
+              The postcode is used to send delivery orders from the nearest warehouse.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="warehouse-name">Name</Label>
+              <Input
+                id="warehouse-name"
+                value={warehouseForm.name}
+                onChange={(e) => setWarehouseForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="warehouse-address">Address</Label>
+              <Input
+                id="warehouse-address"
+                value={warehouseForm.addressLine1}
+                onChange={(e) => setWarehouseForm(prev => ({ ...prev, addressLine1: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-city">City</Label>
+                <Input
+                  id="warehouse-city"
+                  value={warehouseForm.city}
+                  onChange={(e) => setWarehouseForm(prev => ({ ...prev, city: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warehouse-postcode">Postcode</Label>
+                <Input
+                  id="warehouse-postcode"
+                  value={warehouseForm.postcode}
+                  onChange={(e) => setWarehouseForm(prev => ({ ...prev, postcode: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="warehouse-collection"
+                checked={warehouseForm.allowCollection}
+                onCheckedChange={(checked) => setWarehouseForm(prev => ({ ...prev, allowCollection: checked }))}
+              />
+              <Label htmlFor="warehouse-collection" className="text-sm">Buyers can collect from here</Label>
+            </div>
+            {warehouseForm.allowCollection && (
+              <Textarea
+                placeholder="Collection instructions (optional, e.g. opening hours, which door)"
+                value={warehouseForm.collectionInstructions}
+                onChange={(e) => setWarehouseForm(prev => ({ ...prev, collectionInstructions: e.target.value }))}
+              />
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveWarehouseMutation.mutate()}
+                disabled={!warehouseForm.name.trim() || saveWarehouseMutation.isPending}
+              >
+                Save Warehouse
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTransferring} onOpenChange={setIsTransferring}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Transfer Stock</DialogTitle>
+            <DialogDescription>
+              Move stock between warehouses. Total product stock is unchanged.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Product</Label>
+              <Select value={transferForm.productId} onValueChange={(value) => setTransferForm(prev => ({ ...prev, productId: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select value={transferForm.fromWarehouseId} onValueChange={(value) => setTransferForm(prev => ({ ...prev, fromWarehouseId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map(warehouse => (
+                      <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={transferForm.toWarehouseId} onValueChange={(value) => setTransferForm(prev => ({ ...prev, toWarehouseId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses.map(warehouse => (
+                      <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {transferForm.productId && transferForm.fromWarehouseId && (
+              <p className="text-xs text-gray-500">
+                Available: {getLevel(parseInt(transferForm.fromWarehouseId), parseInt(transferForm.productId))?.stock || 0} units
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="Quantity"
+                value={transferForm.quantity}
+                onChange={(e) => setTransferForm(prev => ({ ...prev, quantity: e.target.value }))}
+              />
+              <Select value={transferForm.unitType} onValueChange={(value) => setTransferForm(prev => ({ ...prev, unitType: value }))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="units">Units</SelectItem>
+                  <SelectItem value="pallets">Pallets</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              placeholder="Reason (optional)"
+              value={transferForm.reason}
+              onChange={(e) => setTransferForm(prev => ({ ...prev, reason: e.target.value }))}
+            />
+            <div className="flex justify-end">
+              <Button
+                onClick={() => transferMutation.mutate()}
+                disabled={
+                  !transferForm.productId || !transferForm.fromWarehouseId || !transferForm.toWarehouseId ||
+                  transferForm.fromWarehouseId === transferForm.toWarehouseId ||
+                  !parseInt(transferForm.quantity) || transferMutation.isPending
+                }
+              >
+                Transfer
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ export interface ReadyForCollectionEmailData {
   orderTotal: string;
   readyTime: string;
   orderUrl: string;
+  collectionSlot?: string; // Booked collection window, e.g. "Tue 14 Oct, 09:00-12:00"
 }
 
 export interface OrderEmailData {
@@ -275,6 +276,7 @@ export function generateReadyForCollectionEmail(data: ReadyForCollectionEmailDat
             <p><strong>Hello ${data.customerName},</strong></p>
             <p>Great news! Your order from <strong>${data.wholesalerName}</strong> is now ready for collection.</p>
             <p><strong>Ready Since:</strong> <span class="highlight">${data.readyTime}</span></p>
+            ${data.collectionSlot ? `<p><strong>Your Collection Slot:</strong> <span class="highlight">${data.collectionSlot}</span></p>` : ''}
             <p><strong>Order Total:</strong> <span class="highlight">£${parseFloat(data.orderTotal).toFixed(2)}</span></p>
         </div>
 
@@ -284,7 +286,9 @@ export function generateReadyForCollectionEmail(data: ReadyForCollectionEmailDat
             ${data.businessAddress ? `<p><strong>Address:</strong> ${data.businessAddress}</p>` : ''}
             ${data.businessPhone ? `<p><strong>Phone:</strong> <a href="tel:${data.businessPhone}" style="color: #3b82f6; text-decoration: none;">${data.businessPhone}</a></p>` : ''}
             <p style="margin-top: 15px; padding: 15px; background-color: #dbeafe; border-radius: 8px; color: #1e40af;">
-                <strong>⚠️ Important:</strong> Please contact ${data.wholesalerName} to arrange a suitable collection time before arriving.
+                ${data.collectionSlot
+                  ? `<strong>⏰ Collection Slot:</strong> Please collect during your booked slot, ${data.collectionSlot}.`
+                  : `<strong>⚠️ Important:</strong> Please contact ${data.wholesalerName} to arrange a suitable collection time before arriving.`}
             </p>
         </div>
 
@@ -302,7 +306,7 @@ export function generateReadyForCollectionEmail(data: ReadyForCollectionEmailDat
 
         <div class="footer">
             <p><strong>Next Steps:</strong></p>
-            <p>1. Contact ${data.wholesalerName} to arrange collection time<br/>
+            <p>1. ${data.collectionSlot ? `Come during your collection slot: ${data.collectionSlot}` : `Contact ${data.wholesalerName} to arrange collection time`}<br/>
             2. Bring a copy of this email or your order number<br/>
             3. Collect your order during business hours</p>
             
@@ -329,15 +333,18 @@ Great news! Your order from ${data.wholesalerName} is now ready for collection.
 
 COLLECTION DETAILS:
 - Ready Since: ${data.readyTime}
+${data.collectionSlot ? `- Collection Slot: ${data.collectionSlot}` : ''}
 - Order Total: £${parseFloat(data.orderTotal).toFixed(2)}
 - Collect From: ${data.wholesalerName}
 ${data.businessAddress ? `- Address: ${data.businessAddress}` : ''}
 ${data.businessPhone ? `- Phone: ${data.businessPhone}` : ''}
 
-IMPORTANT: Please contact ${data.wholesalerName} to arrange a suitable collection time before arriving.
+${data.collectionSlot
+  ? `COLLECTION SLOT: Please collect during your booked slot, ${data.collectionSlot}.`
+  : `IMPORTANT: Please contact ${data.wholesalerName} to arrange a suitable collection time before arriving.`}
 
 Next Steps:
-1. Contact ${data.wholesalerName} to arrange collection time
+1. ${data.collectionSlot ? `Come during your collection slot: ${data.collectionSlot}` : `Contact ${data.wholesalerName} to arrange collection time`}
 2. Bring a copy of this email or your order number
 3. Collect your order during business hours
 
@@ -10,7 +10,15 @@ if (process.env.CUSTOM_DOMAIN === 'quikpik.app') {
 }
 
 const app = express();
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw body so Stripe webhook signatures can be verified
+app.use(express.json({
+  limit: '10mb',
+  verify: (req: any, _res, buf) => {
+    if (req.originalUrl === '/api/webhooks/stripe') {
+      req.rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 app.use((req, res, next) => {
@@ -108,7 +116,73 @@ app.use((req, res, next) => {
       }
     });
     console.log(`🔔 Stock alert system enabled (every 2 hours)`);
-    
+
+    // Dispatch scheduled broadcasts and template campaigns (runs every minute)
+    const { campaignDispatchService } = await import("./services/campaignDispatchService");
+    cron.schedule('* * * * *', async () => {
+      try {
+        await campaignDispatchService.dispatchDueCampaigns();
+      } catch (error) {
+        console.error('❌ Scheduled campaign dispatch failed:', error);
+      }
+    });
+    console.log(`📬 Scheduled campaign dispatcher enabled (every minute)`);
+
+    // Expire unanswered price negotiations and lapsed price locks (runs every 15 minutes)
+    const { negotiationService } = await import("./services/negotiationService");
+    cron.schedule('*/15 * * * *', async () => {
+      try {
+        await negotiationService.expireDueNegotiations();
+      } catch (error) {
+        console.error('❌ Negotiation expiry check failed:', error);
+      }
+    });
+    console.log(`⌛ Negotiation expiry enabled (every 15 minutes)`);
+
+    // Raise near-expiry alerts for batches inside their warning window (runs daily at 6am)
+    const { stockLotService } = await import("./services/stockLotService");
+    cron.schedule('0 6 * * *', async () => {
+      try {
+        await stockLotService.checkNearExpiryLots();
+      } catch (error) {
+        console.error('❌ Near-expiry check failed:', error);
+      }
+    });
+    console.log(`⏳ Near-expiry batch alerts enabled (daily at 6am)`);
+
+    // Generate and charge standing orders that have fallen due (runs daily at 5am)
+    const { standingOrderService } = await import("./services/standingOrderService");
+    cron.schedule('0 5 * * *', async () => {
+      try {
+        await standingOrderService.processDueStandingOrders();
+      } catch (error) {
+        console.error('❌ Standing order run failed:', error);
+      }
+    });
+    console.log(`🔁 Standing order scheduler enabled (daily at 5am)`);
+
+    // Pull carrier tracking for parcels in flight and notify customers of changes (runs every 30 minutes)
+    const { trackingSyncService } = await import("./services/trackingSyncService");
+    cron.schedule('*/30 * * * *', async () => {
+      try {
+        await trackingSyncService.syncInFlightShipments();
+      } catch (error) {
+        console.error('❌ Tracking sync failed:', error);
+      }
+    });
+    console.log(`📡 Parcel tracking sync enabled (every 30 minutes)`);
+
+    // Deliver order side-effects from the outbox, retrying failures with backoff (runs every minute)
+    const { outboxService } = await import("./services/outboxService");
+    cron.schedule('* * * * *', async () => {
+      try {
+        await outboxService.deliverDueMessages();
+      } catch (error) {
+        console.error('❌ Outbox delivery failed:', error);
+      }
+    });
+    console.log(`📬 Outbox delivery enabled (every minute)`);
+
     log(`serving on port ${port}`);
   });
   
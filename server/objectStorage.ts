@@ -170,6 +170,27 @@ export class ObjectStorageService {
     return objectFile;
   }
 
+  // Saves generated content (e.g. invoice PDFs) to the private directory and returns its object path.
+  async uploadObjectEntity(entityId: string, data: Buffer, contentType: string): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    await objectStorageClient.bucket(bucketName).file(objectName).save(data, {
+      contentType,
+      resumable: false,
+    });
+    return `/objects/${entityId}`;
+  }
+
+  // Reads a whole object entity into memory.
+  async readObjectEntity(objectPath: string): Promise<Buffer> {
+    const file = await this.getObjectEntityFile(objectPath);
+    const [contents] = await file.download();
+    return contents;
+  }
+
   normalizeObjectEntityPath(
     rawPath: string,
   ): string {
@@ -1,8 +1,8 @@
 import { storage } from './storage';
-import { generateWholesalerOrderNotificationEmail } from './email-templates';
-import { sendEmail } from './sendgrid-service';
 import { ShippingAutomationService } from './shipping-automation';
-import { getCompleteDeliveryAddress, getEmailDeliveryAddress, getAddressComponentsForEmail } from './utils/address-helper';
+import { getEmailDeliveryAddress, getAddressComponentsForEmail } from './utils/address-helper';
+import { outboxService, getWhatsAppAlertProvider } from './services/outboxService';
+import type { Order } from '@shared/schema';
 
 // CRITICAL FIX: Copy exact address parsing logic from UI order detail page
 function parseAddressForEmail(address: string | null | undefined): {
@@ -273,6 +273,7 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
   // SYSTEMATIC STEP 2: Use Address ID to fetch complete address details and save snapshot
   let deliveryAddressSnapshot = null;
   let deliveryAddressId = null;
+  let deliveryPostcode: string | null = null;
   
   if (fulfillmentType === 'delivery' && selectedDeliveryAddressId) {
     try {
@@ -295,6 +296,7 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
         
         deliveryAddressSnapshot = addressParts.join(', ');
         deliveryAddressId = selectedAddress.id;
+        deliveryPostcode = selectedAddress.postalCode;
         
         console.log(`✅ STEP 2 COMPLETE: Address snapshot saved - ${deliveryAddressSnapshot}`);
       } else {
@@ -305,6 +307,18 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
     }
   }
 
+  // MULTI-WAREHOUSE: Collection depot the buyer chose, or the nearest depot with the stock
+  const { warehouseService } = await import('./services/warehouseService');
+  const warehouseId = await warehouseService.chooseOrderWarehouse(wholesalerId, items, {
+    fulfillmentType,
+    collectionWarehouseId: shippingInfo.collectionWarehouseId,
+    deliveryPostcode
+  });
+
+  // DELIVERY SLOTS: The slot the buyer booked at checkout
+  const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+  const bookedSlot = await fulfilmentSlotService.resolveBookedSlot(wholesalerId, shippingInfo);
+
   // Create order with customer details AND SHIPPING DATA
   const orderData = {
     orderNumber, // Use pre-generated atomic order number
@@ -329,7 +343,9 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
     fulfillmentType: fulfillmentType,
     deliveryCarrier: null, // No carrier needed for simplified delivery system
     deliveryCost: '0.00', // No delivery cost - arranged directly with customer
-    shippingTotal: '0.00' // No shipping total
+    shippingTotal: '0.00', // No shipping total
+    warehouseId,
+    ...bookedSlot
   };
   
   console.log('🚚 Order data with shipping fields:', {
@@ -363,21 +379,56 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
   // CRITICAL FIX: Force reliable order creation by using the same transaction-based approach
   // Import database for transaction consistency
   const { db } = await import('./db');
-  const { eq } = await import('drizzle-orm');
+  const { eq, sql } = await import('drizzle-orm');
   const { orders, orderItems: orderItemsTable } = await import('../shared/schema');
   
   console.log(`🚨 ORDER PROCESSOR DEBUG: Using transaction-based order creation for reliability`);
   
+  let concurrentOrder: Order | undefined;
   const order = await db.transaction(async (trx) => {
     console.log(`🚨 ORDER PROCESSOR TRANSACTION: Starting transaction`);
+
+    // Checkout may be creating this same order right now - wait for it, then check again
+    await trx.execute(sql`select pg_advisory_xact_lock(hashtext(${paymentIntent.id}))`);
+    [concurrentOrder] = await trx.select().from(orders).where(eq(orders.stripePaymentIntentId, paymentIntent.id)).limit(1);
+    if (concurrentOrder) {
+      return concurrentOrder;
+    }
+
+    await fulfilmentSlotService.reserveSlot(trx, bookedSlot, { paid: true });
     
     // Use the reliable createOrderWithTransaction method
     const createdOrder = await storage.createOrderWithTransaction(trx, orderData, orderItems);
+
+    // Negotiated prices are single-use - consume any that were checked out at. The card has
+    // already been charged, so a price another order used first is flagged for the wholesaler
+    const { negotiationService } = await import('./services/negotiationService');
+    const reusedNegotiations: number[] = [];
+    for (const item of items) {
+      if (item.negotiationId && !await negotiationService.markOrdered(parseInt(item.negotiationId), createdOrder.id, trx)) {
+        reusedNegotiations.push(parseInt(item.negotiationId));
+      }
+    }
+    if (reusedNegotiations.length > 0) {
+      const flag = `⚠️ Paid at negotiated prices already used by another order (negotiation ${reusedNegotiations.map(id => `#${id}`).join(', ')}) - please review`;
+      await trx.update(orders).set({ notes: createdOrder.notes ? `${createdOrder.notes}\n${flag}` : flag }).where(eq(orders.id, createdOrder.id));
+    }
+    
+    // Emails, the invoice and the wholesaler's alerts are delivered from the outbox once this commits
+    const whatsappMessage = wholesaler && getWhatsAppAlertProvider(wholesaler)
+      ? `🎉 New Order Received!\n\nOrder: ${createdOrder.orderNumber}\nCustomer: ${customerName}\nPhone: ${customerPhone}\nEmail: ${customerEmail}\nTotal: ${wholesaler.preferredCurrency === 'GBP' ? '£' : '$'}${totalAmount}\n\nOrder ID: ${createdOrder.id}\nStatus: Paid\n\nQuote this reference when communicating with the customer.`
+      : null;
+    await storage.enqueueOutboxMessages(trx, outboxService.getOrderPlacedMessages(createdOrder, { whatsappMessage }));
     
     console.log(`🚨 ORDER PROCESSOR TRANSACTION: Order created successfully: ${createdOrder.id}`);
     return createdOrder;
   });
   
+  if (concurrentOrder) {
+    console.log(`⚠️ Order already exists for payment intent ${paymentIntent.id}: Order #${concurrentOrder.id} (${concurrentOrder.orderNumber})`);
+    return concurrentOrder;
+  }
+
   console.log(`🚨 ORDER PROCESSOR DEBUG: Transaction-based order creation completed, order ID: ${order.id}`);
   
   // 🔒 DATA INTEGRITY: Verify all items were saved correctly
@@ -388,116 +439,7 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
   }
   
   console.log(`✅ Order #${order.id} (Order Number: ${order.orderNumber}) created with ${savedItems.length}/${items.length} items verified for wholesaler ${wholesalerId}, customer ${customerName}, total: ${totalAmount}`);
-
-  // Send order confirmation email to customer
-  try {
-    const { sendOrderConfirmationEmail } = await import('./sendgrid-service');
-    
-    // Get order items for the email
-    const orderItemsFromDB = await storage.getOrderItems(order.id);
-    const orderItemsForEmail = await Promise.all(orderItemsFromDB.map(async (orderItem: any) => {
-      const product = await storage.getProduct(orderItem.productId);
-      return {
-        productName: product?.name || `Product #${orderItem.productId}`,
-        quantity: orderItem.quantity,
-        unitPrice: parseFloat(orderItem.unitPrice),
-        total: parseFloat(orderItem.total)
-      };
-    }));
-
-    const orderConfirmationData = {
-      customerEmail: customerEmail || '',
-      customerName: customerName,
-      orderNumber: order.orderNumber || `ORD-${order.id}`,
-      orderItems: orderItemsForEmail,
-      subtotal: parseFloat(order.subtotal),
-      transactionFee: parseFloat(customerTransactionFee || '0'),
-      totalPaid: parseFloat(totalCustomerPays || '0'),
-      wholesalerName: wholesaler?.businessName || wholesaler?.firstName || 'Your Wholesaler',
-      // Always fetch live address data - prioritize complete data over stored snapshot
-      shippingAddress: await getCompleteDeliveryAddress(order) || 'Address to be confirmed',
-      estimatedDelivery: undefined // Can be enhanced with shipping data later
-    };
-
-    const emailSent = await sendOrderConfirmationEmail(orderConfirmationData);
-    
-    if (emailSent) {
-      console.log(`✅ Order confirmation email sent to ${customerEmail} for order #${order.id}`);
-    } else {
-      console.log(`⚠️ Failed to send order confirmation email to ${customerEmail} for order #${order.id}`);
-    }
-  } catch (emailError) {
-    console.error(`❌ Error sending order confirmation email for order #${order.id}:`, emailError);
-  }
-
-  // Send WhatsApp notification to wholesaler with wholesale reference
-  if (wholesaler && wholesaler.twilioAuthToken && wholesaler.twilioPhoneNumber) {
-    const currencySymbol = wholesaler.preferredCurrency === 'GBP' ? '£' : '$';
-    const message = `🎉 New Order Received!\n\nOrder: ${order.orderNumber}\nCustomer: ${customerName}\nPhone: ${customerPhone}\nEmail: ${customerEmail}\nTotal: ${currencySymbol}${totalAmount}\n\nOrder ID: ${order.id}\nStatus: Paid\n\nQuote this reference when communicating with the customer.`;
-    
-    try {
-      const { whatsappService } = await import('./whatsapp');
-      await whatsappService.sendMessage(wholesaler.businessPhone || wholesaler.twilioPhoneNumber, message, wholesaler.id);
-    } catch (error) {
-      console.error('Failed to send WhatsApp notification:', error);
-    }
-  }
-
-  // Send email notification to wholesaler
-  if (wholesaler && wholesaler.email) {
-    try {
-      // CRITICAL FIX: Use actual database order items for accurate pricing
-      const orderItemsFromDB = await storage.getOrderItems(order.id);
-      const enrichedItemsForEmail = await Promise.all(orderItemsFromDB.map(async (orderItem: any) => {
-        const product = await storage.getProduct(orderItem.productId);
-        return {
-          productName: product?.name || `Product #${orderItem.productId}`,
-          quantity: orderItem.quantity,
-          unitPrice: parseFloat(orderItem.unitPrice).toFixed(2), // Use database unit price
-          total: parseFloat(orderItem.total).toFixed(2) // Use database total
-        };
-      }));
-
-      const emailData: OrderEmailData = {
-        orderNumber: order.orderNumber || `ORD-${order.id}`,
-        customerName,
-        customerEmail: customerEmail || '',
-        customerPhone,
-        // FIXED: Use same simple address approach as customer email template
-        shippingAddress: order.deliveryAddress,
-        total: correctTotal,
-        subtotal: order.subtotal, // CRITICAL FIX: Use actual database subtotal, not metadata
-        platformFee: parseFloat(wholesalerPlatformFee || '0').toFixed(2),
-        customerTransactionFee: parseFloat(customerTransactionFee || '0').toFixed(2),
-        wholesalerPlatformFee: parseFloat(wholesalerPlatformFee || '0').toFixed(2),
-        shippingTotal: '0.00',
-        fulfillmentType: fulfillmentType,
-        items: enrichedItemsForEmail,
-        wholesaler: {
-          businessName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`,
-          firstName: wholesaler.firstName || '',
-          lastName: wholesaler.lastName || '',
-          email: wholesaler.email
-        },
-        orderDate: new Date().toISOString(),
-        paymentMethod: 'Card Payment'
-      };
-
-      const emailTemplate = generateWholesalerOrderNotificationEmail(emailData);
-      
-      await sendEmail({
-        to: wholesaler.email,
-        from: 'hello@quikpik.co',
-        subject: emailTemplate.subject,
-        html: emailTemplate.html
-      });
-      
-      console.log(`📧 Wholesaler notification sent to ${wholesaler.email} for order ${order.orderNumber}`);
-      
-    } catch (emailError) {
-      console.error(`❌ Failed to send wholesaler notification for order #${order.id}:`, emailError);
-    }
-  }
+  outboxService.deliverSoon();
 
   // AUTOMATIC DELIVERY PAYMENT PROCESSING
   // Check if this order requires automatic delivery payment
@@ -532,14 +474,17 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
         shippingInfo: {
           serviceId: shippingInfo.service.serviceId,
           serviceName: shippingInfo.service.serviceName,
-          price: shippingInfo.service.price
+          price: shippingInfo.service.price,
+          providerAccountId: shippingInfo.service.providerAccountId ?? null
         },
         items: items.map((item: any) => ({
+          productId: item.productId,
           productName: item.productName || 'Product',
           quantity: item.quantity,
           unitPrice: item.unitPrice,
           weight: 1.0, // Default weight if not specified
-          value: parseFloat(item.unitPrice) * item.quantity
+          value: parseFloat(item.unitPrice) * item.quantity,
+          sellingType: item.sellingType
         }))
       };
       
@@ -563,83 +508,5 @@ export async function processCustomerPortalOrder(paymentIntent: any) {
     console.log(`ℹ️ No automatic delivery payment required for order ${order.orderNumber} (pickup or manual delivery)`);
   }
 
-  // SEND EMAIL CONFIRMATIONS
-  console.log('📧 Sending order confirmation emails...');
-  
-  // CRITICAL FIX: Get complete address for both emails from database source
-  let completeShippingAddress = undefined;
-  if (fulfillmentType === 'delivery' && deliveryAddressId) {
-    try {
-      const completeAddress = await storage.getDeliveryAddressById(deliveryAddressId);
-      if (completeAddress) {
-        completeShippingAddress = [
-          completeAddress.addressLine1,
-          completeAddress.addressLine2,
-          `${completeAddress.city}${completeAddress.state ? ', ' + completeAddress.state : ''}`,
-          completeAddress.postalCode,
-          completeAddress.country
-        ].filter(Boolean).join('\n');
-      }
-    } catch (addressError) {
-      console.error('❌ Failed to get complete address for emails:', addressError);
-      // Fallback to customerAddress
-      completeShippingAddress = typeof customerAddress === 'string' ? customerAddress : JSON.stringify(customerAddress);
-    }
-  }
-  
-  try {
-    // Import sendgrid service
-    const { sendOrderConfirmationEmail, sendWholesalerOrderNotification } = await import('./sendgrid-service');
-    
-    // Send customer confirmation email
-    const emailSent = await sendOrderConfirmationEmail({
-      customerEmail: customerEmail,
-      customerName: customerName,
-      orderNumber: order.orderNumber || `ORD-${order.id}`,
-      orderItems: items.map((item: any) => ({
-        productName: item.productName || 'Product',
-        quantity: item.quantity,
-        unitPrice: parseFloat(item.unitPrice),
-        total: parseFloat(item.unitPrice) * item.quantity
-      })),
-      subtotal: parseFloat(orderData.subtotal),
-      transactionFee: parseFloat(orderData.customerTransactionFee),
-      totalPaid: parseFloat(orderData.total),
-      wholesalerName: wholesaler?.businessName || 'Supplier',
-      shippingAddress: completeShippingAddress
-    });
-
-    console.log('📧 Customer confirmation email:', emailSent ? '✅ Sent' : '❌ Failed');
-
-    // Send wholesaler notification email
-    if (wholesaler?.email) {
-      const wholesalerEmailSent = await sendWholesalerOrderNotification({
-        wholesalerEmail: wholesaler.email,
-        wholesalerName: wholesaler.businessName || 'Wholesaler',
-        orderNumber: order.orderNumber || `ORD-${order.id}`,
-        customerName: customerName,
-        customerEmail: customerEmail,
-        customerPhone: customerPhone || '',
-        orderItems: items.map((item: any) => ({
-          productName: item.productName || 'Product',
-          quantity: item.quantity,
-          unitPrice: parseFloat(item.unitPrice),
-          total: parseFloat(item.unitPrice) * item.quantity
-        })),
-        subtotal: parseFloat(orderData.subtotal),
-        totalAmount: parseFloat(orderData.total),
-        fulfillmentType: fulfillmentType,
-        // FIXED: Use same complete address as customer email (WORKING APPROACH)
-        shippingAddress: completeShippingAddress
-      });
-
-      console.log('📧 Wholesaler notification email:', wholesalerEmailSent ? '✅ Sent' : '❌ Failed');
-    }
-    
-  } catch (emailError) {
-    console.error('❌ Email notification error:', emailError);
-    // Don't fail the order if emails fail
-  }
-
   return order;
 }
\ No newline at end of file
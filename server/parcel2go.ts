@@ -47,6 +47,7 @@ export interface QuoteRequest {
   deliveryAddress: Address;
   parcels: ParcelDimensions[];
   collectionDate?: string; // ISO date string
+  freight?: boolean; // Parcels are pallets - only pallet/freight services apply
   serviceFilters?: {
     temperatureControlled?: boolean; // Filter for temperature-controlled services
     nextDay?: boolean; // Filter for next-day delivery
@@ -72,6 +73,9 @@ export interface DeliveryQuote {
   specialHandlingSupported?: string[]; // Array of supported special handling types
   maxWeight?: number; // Maximum weight limit for this service in kg
   restrictions?: string[]; // Any restrictions or requirements
+  parcels?: ParcelDimensions[]; // How the consignment was packed for this quote
+  providerAccountId?: number | null; // Wholesaler's carrier account that gave the quote; null = account-level Parcel2Go
+  providerName?: string;
 }
 
 export interface DropShop {
@@ -133,7 +137,7 @@ export interface OrderResponse {
   TotalDiscount: number;
 }
 
-class Parcel2GoService {
+export class Parcel2GoService {
   private accessToken: string | null = null;
   private tokenExpiry: Date | null = null;
   private credentials: Parcel2GoCredentials | null = null;
@@ -281,7 +285,7 @@ class Parcel2GoService {
     })) || [];
 
     // Filter services based on parcel requirements
-    services = this.filterServicesForRequirements(services, request.parcels);
+    services = this.filterServicesForRequirements(services, request.parcels, request.freight);
 
     return services;
   }
@@ -322,7 +326,7 @@ class Parcel2GoService {
   }
 
   // Helper method to filter services based on parcel requirements
-  private filterServicesForRequirements(services: DeliveryQuote[], parcels: ParcelDimensions[]): DeliveryQuote[] {
+  private filterServicesForRequirements(services: DeliveryQuote[], parcels: ParcelDimensions[], freight?: boolean): DeliveryQuote[] {
     return services.filter(service => {
       // Check if service meets temperature requirements
       const hasTemperatureRequirements = parcels.some(p => 
@@ -342,8 +346,9 @@ class Parcel2GoService {
         return false; // Individual parcel exceeds weight limit
       }
       
-      // Filter out standard services for orders requiring pallet delivery
-      if (totalWeight > 70 && service.serviceName && 
+      // Filter out standard services for orders requiring pallet delivery. A packed
+      // multi-parcel consignment says so itself; otherwise go by total weight
+      if ((freight ?? totalWeight > 70) && service.serviceName && 
           !service.serviceName.toLowerCase().includes('pallet') && 
           !service.serviceName.toLowerCase().includes('freight')) {
         return false; // Order too heavy for standard parcel services
@@ -463,6 +468,16 @@ class Parcel2GoService {
     }
   }
 
+  async cancelOrderLine(orderLineId: string): Promise<any> {
+    try {
+      const response = await this.makeRequest(`/orderlines/${orderLineId}/cancel`, {}, 'POST');
+      return response;
+    } catch (error: any) {
+      console.error('Failed to cancel order line:', error);
+      throw new Error(`Failed to cancel order line: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
   async trackOrder(orderLineId: string): Promise<any> {
     try {
       const response = await this.makeRequest(`/tracking/${orderLineId}`);
@@ -7,7 +7,7 @@ import { queryOptimizer, queryCache } from "./utils/connectionPool";
 import compression from "compression";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { getGoogleAuthUrl, verifyGoogleToken, createOrUpdateUser, requireAuth, requireAnyAuth } from "./googleAuth";
-import { insertProductSchema, insertOrderSchema, insertCustomerGroupSchema, insertBroadcastSchema, insertMessageTemplateSchema, insertTemplateProductSchema, insertTemplateCampaignSchema, users, orders, orderItems, products, customerGroups, customerGroupMembers, smsVerificationCodes, insertSMSVerificationCodeSchema, customerRegistrationRequests, insertCustomerRegistrationRequestSchema, campaignOrders, subscriptionPlans, userSubscriptions } from "@shared/schema";
+import { insertProductSchema, insertOrderSchema, insertCustomerGroupSchema, insertBroadcastSchema, insertMessageTemplateSchema, insertTemplateProductSchema, insertTemplateCampaignSchema, users, orders, orderItems, products, customerGroups, customerGroupMembers, smsVerificationCodes, insertSMSVerificationCodeSchema, customerRegistrationRequests, insertCustomerRegistrationRequestSchema, campaignOrders, subscriptionPlans, userSubscriptions, insertPriceListSchema, insertPriceListItemSchema } from "@shared/schema";
 
 // CRITICAL FIX: Copy exact address parsing logic from UI order detail page
 function parseAddressForEmail(address: string | null | undefined): {
@@ -116,8 +116,11 @@ import { generateProductDescription, generateProductImage } from "./ai";
 import { generatePersonalizedTagline, generateCampaignSuggestions, optimizeMessageTiming } from "./ai-taglines";
 import { parcel2goService, createTestCredentials } from "./parcel2go";
 import { formatPhoneToInternational, validatePhoneNumber } from "../shared/phone-utils";
+import { formatSlotLabel } from "../shared/fulfilment-slots";
 import { whatsAppBusinessService } from "./whatsapp-simple";
 import { PreciseShippingCalculator } from "./utils/preciseShippingCalculator";
+import { getCarrierKey } from "@shared/parcel-packing";
+import { getStoredBooking } from "./shipping-providers";
 import { healthCheck } from "./health";
 import { z } from "zod";
 import OpenAI from "openai";
@@ -132,14 +135,15 @@ import { sendEmail } from "./sendgrid-service";
 import { createEmailVerification, verifyEmailCode } from "./email-verification";
 import { generateWholesalerOrderNotificationEmail, generateReadyForCollectionEmail, type OrderEmailData, type ReadyForCollectionEmailData } from "./email-templates";
 import { sendWelcomeMessages } from "./services/welcomeMessageService.js";
-import { orderNotificationService } from "./services/orderNotificationService";
+import type { WelcomeMessagesPayload } from "../shared/outbox";
+import { outboxService, getWhatsAppAlertProvider } from "./services/outboxService";
+import { STRIPE_WEBHOOK_EVENT_STATUSES } from "../shared/stripe-webhook-events";
 // Removed conflicting import - using parseCustomerName defined below
 import { quickOrderService } from "./services/quickOrderService";
 import { multiWholesalerService } from "./services/multiWholesalerService";
 import { db } from "./db";
 import { eq, and, desc, inArray, or, gt, sql, count, sum, gte, lte, lt, ne, asc, isNull } from "drizzle-orm";
 // Subscription logging removed
-import { registerWebhookRoutes } from "./webhook-handler";
 import { getEmailDeliveryAddress } from "./utils/address-helper";
 
 // Helper function to extract session ID from cookie string
@@ -171,6 +175,33 @@ function extractSessionId(cookieString?: string): string | null {
   return null;
 }
 
+// Helper function to resolve customer portal auth from session or fallback cookie
+function getCustomerAuth(req: any): { customerId: string; wholesalerId: string } | null {
+  let customerAuth = req.session?.customerAuth;
+
+  if (!customerAuth && req.cookies?.customer_auth) {
+    try {
+      const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
+      if (cookieData.expires > Date.now()) {
+        customerAuth = {
+          customerId: cookieData.customerId,
+          wholesalerId: cookieData.wholesalerId
+        };
+      }
+    } catch (cookieError) {
+      console.error('Failed to parse customer auth cookie:', cookieError);
+    }
+  }
+
+  return customerAuth || null;
+}
+
+// Platform operators, listed by email in SUPER_ADMIN_EMAILS, who can see data that belongs to no wholesaler
+function isSuperAdmin(user: any): boolean {
+  const emails = (process.env.SUPER_ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+  return user?.role !== 'team_member' && !!user?.email && emails.includes(user.email.toLowerCase());
+}
+
 if (!process.env.STRIPE_SECRET_KEY) {
   console.warn('STRIPE_SECRET_KEY not found. Stripe functionality will not work.');
 }
@@ -229,128 +260,6 @@ async function generateOrderNumber(wholesalerId: string, trx?: any) {
   }
 }
 
-// Function to create and send Stripe invoice to customer
-async function createAndSendStripeInvoice(order: any, items: any[], wholesaler: any, customer: any) {
-  if (!stripe) {
-    console.log("⚠️ Stripe not configured, skipping invoice creation");
-    return;
-  }
-
-  try {
-    // Create or retrieve Stripe customer
-    let stripeCustomer;
-    try {
-      const customers = await stripe.customers.search({
-        query: `email:'${customer.email}'`,
-      });
-      
-      if (customers.data.length > 0) {
-        stripeCustomer = customers.data[0];
-      } else {
-        // Extract customer info from order retailer data or customer object
-        const customerEmail = customer.email || order.retailer?.email || `customer${order.id}@quikpik.co`;
-        const customerName = customer.name || `${order.retailer?.firstName || 'Customer'} ${order.retailer?.lastName || ''}`.trim();
-        const customerPhone = customer.phone || order.retailer?.phoneNumber || order.retailer?.phone_number;
-        
-        stripeCustomer = await stripe.customers.create({
-          email: customerEmail,
-          name: customerName || 'Customer',
-          phone: customerPhone,
-          metadata: {
-            orderType: 'customer_portal',
-            wholesalerId: wholesaler.id,
-            orderId: order.id.toString()
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Error creating/finding Stripe customer:", error);
-      return;
-    }
-
-    // Helper function to get currency symbol
-    const getCurrencySymbol = (currency?: string) => {
-      switch (currency?.toUpperCase()) {
-        case 'USD': return '$';
-        case 'EUR': return '€';
-        case 'GBP': return '£';
-        default: return '£';
-      }
-    };
-
-    // Create invoice
-    const invoice = await stripe.invoices.create({
-      customer: stripeCustomer.id,
-      currency: (wholesaler.preferredCurrency || 'gbp').toLowerCase(),
-      description: `Order #${order.id} from ${wholesaler.businessName || wholesaler.username}`,
-      metadata: {
-        orderId: order.id.toString(),
-        wholesalerId: wholesaler.id,
-        orderType: 'customer_portal'
-      },
-      custom_fields: [
-        {
-          name: 'Order ID',
-          value: order.id.toString()
-        },
-        {
-          name: 'Supplier',
-          value: wholesaler.businessName || wholesaler.username
-        }
-      ]
-    });
-
-    // Add line items to invoice
-    for (const item of items) {
-      await stripe.invoiceItems.create({
-        customer: stripeCustomer.id,
-        invoice: invoice.id,
-        amount: Math.round(parseFloat(item.total) * 100), // Convert to cents
-        currency: (wholesaler.preferredCurrency || 'gbp').toLowerCase(),
-        description: `${item.productName} (${item.quantity} units @ ${getCurrencySymbol(wholesaler.preferredCurrency)}${parseFloat(item.unitPrice).toFixed(2)} each)`,
-        metadata: {
-          productId: item.productId.toString(),
-          quantity: item.quantity.toString(),
-          unitPrice: item.unitPrice
-        }
-      });
-    }
-
-    // Add platform fee as separate line item
-    if (parseFloat(order.platformFee) > 0) {
-      await stripe.invoiceItems.create({
-        customer: stripeCustomer.id,
-        invoice: invoice.id,
-        amount: Math.round(parseFloat(order.platformFee) * 100),
-        currency: (wholesaler.preferredCurrency || 'gbp').toLowerCase(),
-        description: `Platform Service Fee (3.3%)`,
-        metadata: {
-          feeType: 'platform_fee'
-        }
-      });
-    }
-
-    // Finalize and send invoice
-    const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id!);
-    
-    // Mark as paid since payment was already processed
-    await stripe.invoices.pay(finalizedInvoice.id!, {
-      paid_out_of_band: true
-    });
-
-    // Send invoice email to customer
-    await stripe.invoices.sendInvoice(finalizedInvoice.id!);
-
-    console.log(`📄 Stripe invoice created and sent to ${customer.email || customer.name} for order #${order.id}`);
-    return finalizedInvoice;
-    
-  } catch (error) {
-    console.error(`❌ Failed to create Stripe invoice for order #${order.id}:`, error);
-    console.error(`Customer email: ${customer.email}, Customer name: ${customer.name}`);
-    return null;
-  }
-}
-
 function formatNumber(value: number | string): string {
   const num = typeof value === 'string' ? parseFloat(value) : value;
   if (isNaN(num)) return '0';
@@ -817,9 +726,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Add cookie parser middleware for customer authentication
   app.use(cookieParser());
 
-  // WEBHOOK HANDLERS DISABLED - Using standalone webhook server on port 5001 to prevent duplicates
-  // registerWebhookRoutes(app);
-
   // STRIPE WEBHOOKS - MUST BE FIRST TO AVOID VITE CATCH-ALL INTERFERENCE
   // TEST ENDPOINT TO VERIFY LOGGING
   app.post('/api/test-webhook', async (req, res) => {
@@ -1084,6 +990,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('👤 Updating profile for user:', user.id, updates);
 
+      if (updates.vatNumber !== undefined) {
+        const { isValidUkVatNumber, normalizeVatNumber } = await import('../shared/vat');
+        if (updates.vatNumber && !isValidUkVatNumber(updates.vatNumber)) {
+          return res.status(400).json({
+            success: false,
+            message: "Enter a valid UK VAT number, e.g. GB123456789"
+          });
+        }
+        updates.vatNumber = updates.vatNumber ? normalizeVatNumber(updates.vatNumber) : null;
+      }
+
+      if (updates.invoiceNumberPrefix !== undefined) {
+        updates.invoiceNumberPrefix = String(updates.invoiceNumberPrefix || '').trim().toUpperCase() || 'INV';
+        if (!/^[A-Z0-9]{1,8}$/.test(updates.invoiceNumberPrefix)) {
+          return res.status(400).json({
+            success: false,
+            message: "Invoice number prefix can only use letters and numbers (up to 8)"
+          });
+        }
+      }
+
       // Update user profile
       await storage.updateUser(user.id, updates);
 
@@ -1110,111 +1037,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
-  // STRIPE WEBHOOK - Auto-update subscriptions when payment is confirmed
-  app.post('/api/webhooks/stripe', async (req, res) => {
-    console.log(`🚀 MAIN SERVER WEBHOOK EXECUTING at ${new Date().toISOString()}`);
-    console.log(`📦 Event data:`, JSON.stringify(req.body, null, 2));
-    
+  // STRIPE WEBHOOK - Every event is stored before it is processed, and processed once per event ID
+  app.post('/api/webhooks/stripe', async (req: any, res) => {
+    const { stripeWebhookService } = await import('./services/stripeWebhookService');
+
+    let event: Stripe.Event;
     try {
-      const event = req.body;
-      
-      if (event.type === 'checkout.session.completed') {
-        const session = event.data?.object;
-        console.log(`💳 Checkout completed: ${session?.id}`);
-        console.log(`🏷️ Metadata:`, JSON.stringify(session?.metadata, null, 2));
-        
-        const userId = session?.metadata?.userId;
-        const tier = session?.metadata?.targetTier || 
-                     session?.metadata?.tier || 
-                     session?.metadata?.planId;
-        const subscriptionType = session?.metadata?.subscriptionType;
-        
-        if (userId && tier) {
-          console.log(`🔄 Processing ${subscriptionType || 'new'} subscription: ${userId} → ${tier}`);
-          
-          const productLimit = tier === 'premium' ? -1 : (tier === 'standard' ? 50 : 10);
-          
-          // Get subscription details from Stripe if available
-          let subscriptionEndsAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-          if (session.subscription) {
-            try {
-              const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
-              subscriptionEndsAt = new Date(subscription.current_period_end * 1000);
-              
-              // Update user's Stripe subscription ID
-              await storage.updateUser(userId, {
-                stripeSubscriptionId: subscription.id
-              });
-            } catch (error) {
-              console.error('❌ Failed to retrieve subscription details:', error);
-            }
-          }
-          
-          await storage.updateUser(userId, {
-            currentPlan: tier,
-            subscriptionStatus: 'active',
-            productLimit: productLimit,
-            subscriptionEndsAt: subscriptionEndsAt
-          });
-          
-          console.log(`✅ ${subscriptionType || 'New'} subscription processed: ${userId} to ${tier}`);
-          
-          return res.json({
-            received: true,
-            message: `Subscription ${subscriptionType === 'new' ? 'created' : 'updated'} - ${tier}`,
-            userId: userId,
-            tier: tier,
-            productLimit: productLimit
-          });
-        } else {
-          console.log(`❌ Missing metadata: userId=${userId}, tier=${tier}`);
-          return res.status(400).json({ 
-            error: 'Missing user or plan metadata',
-            receivedMetadata: session?.metadata 
-          });
-        }
-      }
+      event = stripeWebhookService.constructEvent(req.rawBody, req.headers['stripe-signature'] as string | undefined, req.body);
+    } catch (error) {
+      console.error('❌ Stripe webhook signature verification failed:', error);
+      return res.status(400).json({ error: 'Invalid signature' });
+    }
+    if (!event?.id || !event.type) {
+      return res.status(400).json({ error: 'Invalid event' });
+    }
 
-      if (event.type === 'payment_intent.succeeded') {
-        const paymentIntent = event.data?.object;
-        console.log(`💰 Payment succeeded: ${paymentIntent?.id}`);
-        console.log(`🏷️ Metadata:`, JSON.stringify(paymentIntent?.metadata, null, 2));
-        
-        const userId = paymentIntent?.metadata?.userId;
-        // Handle all possible tier metadata field names for maximum compatibility
-        const tier = paymentIntent?.metadata?.targetTier || 
-                     paymentIntent?.metadata?.tier || 
-                     paymentIntent?.metadata?.planId;
-        
-        const orderType = paymentIntent?.metadata?.orderType;
-        
-        if (userId && tier) {
-          console.log(`🔄 Processing payment upgrade: ${userId} → ${tier}`);
-          
-          const productLimit = tier === 'premium' ? -1 : (tier === 'standard' ? 10 : 3);
-          
-          await storage.updateUser(userId, {
-            currentPlan: tier,
-            subscriptionStatus: 'active',
-            productLimit: productLimit,
-            subscriptionEndsAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-          });
-          
-          console.log(`✅ Payment upgrade complete: ${userId} to ${tier}`);
-          
-          return res.json({
-            received: true,
-            message: `Subscription upgraded to ${tier}`,
-            userId: userId,
-            tier: tier,
-            productLimit: productLimit
-          });
-        }
-      }
+    try {
+      console.log(`📨 Stripe webhook received: ${event.type} (${event.id})`);
+      const result = await stripeWebhookService.receive(event);
 
-      // Acknowledge all other events
-      res.json({ received: true, type: event.type });
-      
+      // A 500 makes Stripe redeliver the event later
+      if (result.event.status === 'failed') {
+        return res.status(500).json({ error: 'Webhook processing failed', eventId: event.id });
+      }
+      res.json({ received: true, type: event.type, duplicate: result.duplicate });
     } catch (error) {
       console.error('❌ Webhook error:', error);
       return res.status(500).json({ error: 'Webhook processing failed' });
@@ -1955,6 +1801,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return {
           ...order,
           items: items.map(item => ({
+            id: item.orderItemId,
             productName: item.productName,
             quantity: item.quantity,
             unitPrice: item.unitPrice || "0",
@@ -2488,180 +2335,447 @@ The Quikpik Team`
     }
   });
 
-  // Get customer's delivery addresses for a specific wholesaler
-  app.get('/api/customer/delivery-addresses/:wholesalerId', async (req, res) => {
+  // Get customer's credit account (payment terms, limit, available credit) for checkout
+  app.get('/api/customer/credit-account/:wholesalerId', async (req, res) => {
     try {
       const { wholesalerId } = req.params;
-      
-      // Get customer from session or fallback auth
-      let customerAuth = (req.session as any)?.customerAuth;
-      
-      // If session auth fails, try fallback cookie
-      if (!customerAuth && req.cookies?.customer_auth) {
-        try {
-          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
-          if (cookieData.expires > Date.now() && cookieData.wholesalerId === wholesalerId) {
-            customerAuth = {
-              customerId: cookieData.customerId,
-              wholesalerId: cookieData.wholesalerId
-            };
-          }
-        } catch (cookieError) {
-          console.error('Failed to parse customer auth cookie:', cookieError);
-        }
-      }
-      
+      const customerAuth = getCustomerAuth(req);
+
       if (!customerAuth) {
         return res.status(401).json({ error: "Authentication required" });
       }
-      
+
       if (customerAuth.wholesalerId !== wholesalerId) {
         return res.status(403).json({ error: "Access denied for this wholesaler" });
       }
-      
-      const addresses = await storage.getDeliveryAddresses(customerAuth.customerId, wholesalerId);
-      console.log(`📍 Retrieved ${addresses.length} delivery addresses for customer ${customerAuth.customerId}`);
-      
-      res.json(addresses);
+
+      const { creditAccountService } = await import('./services/creditAccountService');
+      const creditCheck = await creditAccountService.checkCreditAvailability(customerAuth.customerId, wholesalerId, 0);
+
+      res.json({
+        enabled: creditCheck.allowed,
+        paymentTerms: creditCheck.paymentTerms,
+        creditLimit: creditCheck.creditLimit,
+        outstandingBalance: creditCheck.outstandingBalance,
+        availableCredit: creditCheck.availableCredit,
+        reason: creditCheck.reason
+      });
     } catch (error) {
-      console.error("❌ Error fetching delivery addresses:", error);
-      res.status(500).json({ error: "Failed to fetch delivery addresses" });
+      console.error("❌ Error fetching credit account:", error);
+      res.status(500).json({ error: "Failed to fetch credit account" });
     }
   });
 
-  // Create new delivery address
-  app.post('/api/customer/delivery-addresses', async (req, res) => {
+  // Changes the wholesaler has made to one of the customer's orders
+  app.get('/api/customer/orders/:orderId/edits', async (req, res) => {
     try {
-      const { wholesalerId, addressLine1, addressLine2, city, state, postalCode, country, label, instructions, isDefault } = req.body;
-      
-      // Get customer from session or fallback auth
-      let customerAuth = (req.session as any)?.customerAuth;
-      
-      if (!customerAuth && req.cookies?.customer_auth) {
-        try {
-          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
-          if (cookieData.expires > Date.now() && cookieData.wholesalerId === wholesalerId) {
-            customerAuth = {
-              customerId: cookieData.customerId,
-              wholesalerId: cookieData.wholesalerId
-            };
-          }
-        } catch (cookieError) {
-          console.error('Failed to parse customer auth cookie:', cookieError);
-        }
-      }
-      
+      const orderId = parseInt(req.params.orderId);
+      const customerAuth = getCustomerAuth(req);
+
       if (!customerAuth) {
         return res.status(401).json({ error: "Authentication required" });
       }
-      
-      // Validate required fields
-      if (!wholesalerId || !addressLine1 || !city || !postalCode) {
-        return res.status(400).json({ error: "Missing required address fields" });
-      }
-      
-      // If this is being set as default, first unset any existing default
-      if (isDefault) {
-        await storage.setDefaultDeliveryAddress(customerAuth.customerId, wholesalerId, -1); // This will unset all defaults
+
+      const order = await storage.getOrder(orderId);
+      if (!order || order.retailerId !== customerAuth.customerId || order.wholesalerId !== customerAuth.wholesalerId) {
+        return res.status(404).json({ error: "Order not found" });
       }
-      
-      const newAddress = await storage.createDeliveryAddress({
-        customerId: customerAuth.customerId,
-        wholesalerId,
-        addressLine1,
-        addressLine2: addressLine2 || null,
-        city,
-        state: state || null,
-        postalCode,
-        country: country || 'United Kingdom',
-        label: label || null,
-        instructions: instructions || null,
-        isDefault: isDefault || false
-      });
-      
-      console.log(`📍 Created new delivery address ${newAddress.id} for customer ${customerAuth.customerId}`);
-      
-      res.status(201).json(newAddress);
+
+      res.json(await storage.getOrderEdits(orderId));
     } catch (error) {
-      console.error("❌ Error creating delivery address:", error);
-      res.status(500).json({ error: "Failed to create delivery address" });
+      console.error("❌ Error fetching order edits:", error);
+      res.status(500).json({ error: "Failed to fetch order changes" });
     }
   });
 
-  // Update delivery address
-  app.put('/api/customer/delivery-addresses/:addressId', async (req, res) => {
+  // Invoice and credit notes issued for one of the customer's orders
+  app.get('/api/customer/orders/:orderId/invoices', async (req, res) => {
     try {
-      const { addressId } = req.params;
-      const { wholesalerId, addressLine1, addressLine2, city, state, postalCode, country, label, instructions, isDefault } = req.body;
-      
-      // Get customer from session or fallback auth
-      let customerAuth = (req.session as any)?.customerAuth;
-      
-      if (!customerAuth && req.cookies?.customer_auth) {
-        try {
-          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
-          if (cookieData.expires > Date.now()) {
-            customerAuth = {
-              customerId: cookieData.customerId,
-              wholesalerId: cookieData.wholesalerId
-            };
-          }
-        } catch (cookieError) {
-          console.error('Failed to parse customer auth cookie:', cookieError);
-        }
-      }
-      
+      const orderId = parseInt(req.params.orderId);
+      const customerAuth = getCustomerAuth(req);
+
       if (!customerAuth) {
         return res.status(401).json({ error: "Authentication required" });
       }
-      
-      // Verify the customer owns this address
-      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
-      if (!existingAddress || existingAddress.customerId !== customerAuth.customerId) {
-        return res.status(403).json({ error: "Address not found or access denied" });
-      }
-      
-      // If this is being set as default, first handle default switching
-      if (isDefault && !existingAddress.isDefault) {
-        await storage.setDefaultDeliveryAddress(customerAuth.customerId, existingAddress.wholesalerId, parseInt(addressId));
+
+      const order = await storage.getOrder(orderId);
+      if (!order || order.retailerId !== customerAuth.customerId || order.wholesalerId !== customerAuth.wholesalerId) {
+        return res.status(404).json({ error: "Order not found" });
       }
-      
-      const updates: any = {};
-      if (addressLine1) updates.addressLine1 = addressLine1;
-      if (addressLine2 !== undefined) updates.addressLine2 = addressLine2;
-      if (city) updates.city = city;
-      if (state !== undefined) updates.state = state;
-      if (postalCode) updates.postalCode = postalCode;
-      if (country) updates.country = country;
-      if (label !== undefined) updates.label = label;
-      if (instructions !== undefined) updates.instructions = instructions;
-      if (isDefault !== undefined) updates.isDefault = isDefault;
-      
-      const updatedAddress = await storage.updateDeliveryAddress(parseInt(addressId), updates);
-      
-      console.log(`📍 Updated delivery address ${addressId} for customer ${customerAuth.customerId}`);
-      
-      res.json(updatedAddress);
+
+      const documents = await storage.getOrderInvoices(orderId);
+      res.json(documents.map(({ id, documentType, invoiceNumber, reason, total, currency, issuedAt }) => ({
+        id, documentType, invoiceNumber, reason, total, currency, issuedAt
+      })));
     } catch (error) {
-      console.error("❌ Error updating delivery address:", error);
-      res.status(500).json({ error: "Failed to update delivery address" });
+      console.error("❌ Error fetching order invoices:", error);
+      res.status(500).json({ error: "Failed to fetch invoices" });
     }
   });
 
-  // Delete delivery address
-  app.delete('/api/customer/delivery-addresses/:addressId', async (req, res) => {
+  app.get('/api/customer/invoices/:id/pdf', async (req, res) => {
     try {
-      const { addressId } = req.params;
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || invoice.customerId !== customerAuth.customerId || invoice.wholesalerId !== customerAuth.wholesalerId) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const { invoiceService } = await import('./services/invoiceService');
+      const pdf = await invoiceService.getPdf(invoice);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("❌ Error downloading invoice:", error);
+      res.status(500).json({ error: "Failed to download invoice" });
+    }
+  });
+
+  // Returns the customer has raised against an order, and what is still returnable
+  app.get('/api/customer/orders/:orderId/returns', async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId);
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      const order = await returnService.getCustomerOrder(orderId, customerAuth.customerId, customerAuth.wholesalerId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const [returns, returnableQuantities] = await Promise.all([
+        storage.getOrderReturnRequests(orderId),
+        returnService.getReturnableQuantities(order)
+      ]);
+
+      res.json({ returns, returnableQuantities });
+    } catch (error) {
+      console.error("❌ Error fetching order returns:", error);
+      res.status(500).json({ error: "Failed to fetch returns" });
+    }
+  });
+
+  app.post('/api/customer/orders/:orderId/returns', async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.orderId);
+      const customerAuth = getCustomerAuth(req);
+      const { lines, reason } = req.body;
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      if (!Array.isArray(lines) || lines.length === 0 || !reason?.trim()) {
+        return res.status(400).json({ error: "Items and a reason are required" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      const order = await returnService.getCustomerOrder(orderId, customerAuth.customerId, customerAuth.wholesalerId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      try {
+        const returnRequest = await returnService.requestReturn(
+          order,
+          customerAuth.customerId,
+          lines.map((line: any) => ({ orderItemId: parseInt(line.orderItemId), quantity: parseInt(line.quantity) || 0 })),
+          reason.trim()
+        );
+        res.json(returnRequest);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error creating return request:", error);
+      res.status(500).json({ error: "Failed to create return request" });
+    }
+  });
+
+  // Price negotiations the customer has open with this wholesaler, with the full offer thread
+  app.get('/api/customer/negotiations', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const negotiations = await storage.getRetailerNegotiations(customerAuth.customerId, customerAuth.wholesalerId);
+      res.json(negotiations);
+    } catch (error) {
+      console.error("❌ Error fetching customer negotiations:", error);
+      res.status(500).json({ error: "Failed to fetch negotiations" });
+    }
+  });
+
+  // Reply to a counter-offer: accept it, decline it, or send a new offer
+  app.post('/api/customer/negotiations/:id/respond', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+      const { action, price, message } = req.body;
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      if (!['accept', 'decline', 'counter'].includes(action)) {
+        return res.status(400).json({ error: "Action must be accept, decline or counter" });
+      }
+
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.getBuyerNegotiation(parseInt(req.params.id), customerAuth.customerId, customerAuth.wholesalerId);
+      if (!negotiation) {
+        return res.status(404).json({ error: "Negotiation not found" });
+      }
+
+      try {
+        const updated = action === 'accept'
+          ? await negotiationService.buyerAccept(negotiation)
+          : action === 'decline'
+            ? await negotiationService.buyerDecline(negotiation, message)
+            : await negotiationService.buyerCounter(negotiation, parseFloat(price), message);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error responding to negotiation:", error);
+      res.status(500).json({ error: "Failed to respond to negotiation" });
+    }
+  });
+
+  // Saved cards: reused at checkout and charged off-session for standing orders and top-ups
+  app.get('/api/customer/payment-methods', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { paymentMethodService } = await import('./services/paymentMethodService');
+      res.json(await paymentMethodService.listCards(customerAuth.customerId));
+    } catch (error) {
+      console.error("❌ Error fetching saved cards:", error);
+      res.status(500).json({ error: "Failed to fetch saved cards" });
+    }
+  });
+
+  app.post('/api/customer/payment-methods/setup', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { paymentMethodService } = await import('./services/paymentMethodService');
+      try {
+        res.json(await paymentMethodService.createSetupIntent(customerAuth.customerId, customerAuth.wholesalerId));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error starting card setup:", error);
+      res.status(500).json({ error: "Failed to start card setup" });
+    }
+  });
+
+  app.post('/api/customer/payment-methods/:id/default', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { paymentMethodService } = await import('./services/paymentMethodService');
+      try {
+        res.json(await paymentMethodService.setDefaultCard(customerAuth.customerId, req.params.id));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error setting default card:", error);
+      res.status(500).json({ error: "Failed to set default card" });
+    }
+  });
+
+  app.delete('/api/customer/payment-methods/:id', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { paymentMethodService } = await import('./services/paymentMethodService');
+      try {
+        res.json(await paymentMethodService.removeCard(customerAuth.customerId, req.params.id));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error removing saved card:", error);
+      res.status(500).json({ error: "Failed to remove saved card" });
+    }
+  });
+
+  // Save the new card entered at checkout - called just before the payment is confirmed
+  app.post('/api/customer/create-payment/save-card', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { paymentMethodService } = await import('./services/paymentMethodService');
+      try {
+        await paymentMethodService.saveCardAtCheckout(customerAuth.customerId, req.body.paymentIntentId);
+        res.json({ success: true });
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error saving checkout card:", error);
+      res.status(500).json({ error: "Failed to save card" });
+    }
+  });
+
+  // Standing orders: the customer's recurring orders with this wholesaler
+  app.get('/api/customer/standing-orders', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      res.json(await storage.getStandingOrders(customerAuth.customerId, customerAuth.wholesalerId));
+    } catch (error) {
+      console.error("❌ Error fetching standing orders:", error);
+      res.status(500).json({ error: "Failed to fetch standing orders" });
+    }
+  });
+
+  app.post('/api/customer/standing-orders', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+      const { fromOrderId, ...input } = req.body;
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      if (!fromOrderId) {
+        return res.status(400).json({ error: "Choose the order to repeat" });
+      }
+
+      const { standingOrderService } = await import('./services/standingOrderService');
+      try {
+        const standingOrder = await standingOrderService.createFromOrder(customerAuth.customerId, customerAuth.wholesalerId, parseInt(fromOrderId), input);
+        res.json(standingOrder);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error creating standing order:", error);
+      res.status(500).json({ error: "Failed to create standing order" });
+    }
+  });
+
+  app.patch('/api/customer/standing-orders/:id', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const standingOrder = await storage.getStandingOrder(parseInt(req.params.id));
+      if (!standingOrder || standingOrder.retailerId !== customerAuth.customerId || standingOrder.wholesalerId !== customerAuth.wholesalerId) {
+        return res.status(404).json({ error: "Standing order not found" });
+      }
+
+      const { standingOrderService } = await import('./services/standingOrderService');
+      try {
+        res.json(await standingOrderService.update(standingOrder, req.body));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error updating standing order:", error);
+      res.status(500).json({ error: "Failed to update standing order" });
+    }
+  });
+
+  // Pause, resume, skip the next run of, or cancel a standing order
+  app.post('/api/customer/standing-orders/:id/:action', async (req, res) => {
+    try {
+      const customerAuth = getCustomerAuth(req);
+      const { action } = req.params;
+
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      if (!['pause', 'resume', 'skip', 'cancel'].includes(action)) {
+        return res.status(404).json({ error: "Unknown action" });
+      }
+
+      const standingOrder = await storage.getStandingOrder(parseInt(req.params.id));
+      if (!standingOrder || standingOrder.retailerId !== customerAuth.customerId || standingOrder.wholesalerId !== customerAuth.wholesalerId) {
+        return res.status(404).json({ error: "Standing order not found" });
+      }
+
+      const { standingOrderService } = await import('./services/standingOrderService');
+      try {
+        const updated = action === 'pause'
+          ? await standingOrderService.pause(standingOrder)
+          : action === 'resume'
+            ? await standingOrderService.resume(standingOrder)
+            : action === 'skip'
+              ? await standingOrderService.skipNext(standingOrder)
+              : await standingOrderService.cancel(standingOrder);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    } catch (error) {
+      console.error("❌ Error updating standing order:", error);
+      res.status(500).json({ error: "Failed to update standing order" });
+    }
+  });
+
+  // Get customer's delivery addresses for a specific wholesaler
+  app.get('/api/customer/delivery-addresses/:wholesalerId', async (req, res) => {
+    try {
+      const { wholesalerId } = req.params;
       
       // Get customer from session or fallback auth
       let customerAuth = (req.session as any)?.customerAuth;
       
+      // If session auth fails, try fallback cookie
       if (!customerAuth && req.cookies?.customer_auth) {
         try {
           const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
-          if (cookieData.expires > Date.now()) {
+          if (cookieData.expires > Date.now() && cookieData.wholesalerId === wholesalerId) {
             customerAuth = {
-              customerId: cookieData.customerId
+              customerId: cookieData.customerId,
+              wholesalerId: cookieData.wholesalerId
             };
           }
         } catch (cookieError) {
@@ -2673,27 +2787,24 @@ The Quikpik Team`
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      // Verify the customer owns this address
-      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
-      if (!existingAddress || existingAddress.customerId !== customerAuth.customerId) {
-        return res.status(403).json({ error: "Address not found or access denied" });
+      if (customerAuth.wholesalerId !== wholesalerId) {
+        return res.status(403).json({ error: "Access denied for this wholesaler" });
       }
       
-      await storage.deleteDeliveryAddress(parseInt(addressId));
-      
-      console.log(`📍 Deleted delivery address ${addressId} for customer ${customerAuth.customerId}`);
+      const addresses = await storage.getDeliveryAddresses(customerAuth.customerId, wholesalerId);
+      console.log(`📍 Retrieved ${addresses.length} delivery addresses for customer ${customerAuth.customerId}`);
       
-      res.json({ success: true, message: "Delivery address deleted successfully" });
+      res.json(addresses);
     } catch (error) {
-      console.error("❌ Error deleting delivery address:", error);
-      res.status(500).json({ error: "Failed to delete delivery address" });
+      console.error("❌ Error fetching delivery addresses:", error);
+      res.status(500).json({ error: "Failed to fetch delivery addresses" });
     }
   });
 
-  // Set default delivery address
-  app.post('/api/customer/delivery-addresses/:addressId/set-default', async (req, res) => {
+  // Create new delivery address
+  app.post('/api/customer/delivery-addresses', async (req, res) => {
     try {
-      const { addressId } = req.params;
+      const { wholesalerId, addressLine1, addressLine2, city, state, postalCode, country, label, instructions, isDefault } = req.body;
       
       // Get customer from session or fallback auth
       let customerAuth = (req.session as any)?.customerAuth;
@@ -2701,9 +2812,10 @@ The Quikpik Team`
       if (!customerAuth && req.cookies?.customer_auth) {
         try {
           const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
-          if (cookieData.expires > Date.now()) {
+          if (cookieData.expires > Date.now() && cookieData.wholesalerId === wholesalerId) {
             customerAuth = {
-              customerId: cookieData.customerId
+              customerId: cookieData.customerId,
+              wholesalerId: cookieData.wholesalerId
             };
           }
         } catch (cookieError) {
@@ -2715,8 +2827,168 @@ The Quikpik Team`
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      // Verify the customer owns this address
-      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
+      // Validate required fields
+      if (!wholesalerId || !addressLine1 || !city || !postalCode) {
+        return res.status(400).json({ error: "Missing required address fields" });
+      }
+      
+      // If this is being set as default, first unset any existing default
+      if (isDefault) {
+        await storage.setDefaultDeliveryAddress(customerAuth.customerId, wholesalerId, -1); // This will unset all defaults
+      }
+      
+      const newAddress = await storage.createDeliveryAddress({
+        customerId: customerAuth.customerId,
+        wholesalerId,
+        addressLine1,
+        addressLine2: addressLine2 || null,
+        city,
+        state: state || null,
+        postalCode,
+        country: country || 'United Kingdom',
+        label: label || null,
+        instructions: instructions || null,
+        isDefault: isDefault || false
+      });
+      
+      console.log(`📍 Created new delivery address ${newAddress.id} for customer ${customerAuth.customerId}`);
+      
+      res.status(201).json(newAddress);
+    } catch (error) {
+      console.error("❌ Error creating delivery address:", error);
+      res.status(500).json({ error: "Failed to create delivery address" });
+    }
+  });
+
+  // Update delivery address
+  app.put('/api/customer/delivery-addresses/:addressId', async (req, res) => {
+    try {
+      const { addressId } = req.params;
+      const { wholesalerId, addressLine1, addressLine2, city, state, postalCode, country, label, instructions, isDefault } = req.body;
+      
+      // Get customer from session or fallback auth
+      let customerAuth = (req.session as any)?.customerAuth;
+      
+      if (!customerAuth && req.cookies?.customer_auth) {
+        try {
+          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
+          if (cookieData.expires > Date.now()) {
+            customerAuth = {
+              customerId: cookieData.customerId,
+              wholesalerId: cookieData.wholesalerId
+            };
+          }
+        } catch (cookieError) {
+          console.error('Failed to parse customer auth cookie:', cookieError);
+        }
+      }
+      
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Verify the customer owns this address
+      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
+      if (!existingAddress || existingAddress.customerId !== customerAuth.customerId) {
+        return res.status(403).json({ error: "Address not found or access denied" });
+      }
+      
+      // If this is being set as default, first handle default switching
+      if (isDefault && !existingAddress.isDefault) {
+        await storage.setDefaultDeliveryAddress(customerAuth.customerId, existingAddress.wholesalerId, parseInt(addressId));
+      }
+      
+      const updates: any = {};
+      if (addressLine1) updates.addressLine1 = addressLine1;
+      if (addressLine2 !== undefined) updates.addressLine2 = addressLine2;
+      if (city) updates.city = city;
+      if (state !== undefined) updates.state = state;
+      if (postalCode) updates.postalCode = postalCode;
+      if (country) updates.country = country;
+      if (label !== undefined) updates.label = label;
+      if (instructions !== undefined) updates.instructions = instructions;
+      if (isDefault !== undefined) updates.isDefault = isDefault;
+      
+      const updatedAddress = await storage.updateDeliveryAddress(parseInt(addressId), updates);
+      
+      console.log(`📍 Updated delivery address ${addressId} for customer ${customerAuth.customerId}`);
+      
+      res.json(updatedAddress);
+    } catch (error) {
+      console.error("❌ Error updating delivery address:", error);
+      res.status(500).json({ error: "Failed to update delivery address" });
+    }
+  });
+
+  // Delete delivery address
+  app.delete('/api/customer/delivery-addresses/:addressId', async (req, res) => {
+    try {
+      const { addressId } = req.params;
+      
+      // Get customer from session or fallback auth
+      let customerAuth = (req.session as any)?.customerAuth;
+      
+      if (!customerAuth && req.cookies?.customer_auth) {
+        try {
+          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
+          if (cookieData.expires > Date.now()) {
+            customerAuth = {
+              customerId: cookieData.customerId
+            };
+          }
+        } catch (cookieError) {
+          console.error('Failed to parse customer auth cookie:', cookieError);
+        }
+      }
+      
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Verify the customer owns this address
+      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
+      if (!existingAddress || existingAddress.customerId !== customerAuth.customerId) {
+        return res.status(403).json({ error: "Address not found or access denied" });
+      }
+      
+      await storage.deleteDeliveryAddress(parseInt(addressId));
+      
+      console.log(`📍 Deleted delivery address ${addressId} for customer ${customerAuth.customerId}`);
+      
+      res.json({ success: true, message: "Delivery address deleted successfully" });
+    } catch (error) {
+      console.error("❌ Error deleting delivery address:", error);
+      res.status(500).json({ error: "Failed to delete delivery address" });
+    }
+  });
+
+  // Set default delivery address
+  app.post('/api/customer/delivery-addresses/:addressId/set-default', async (req, res) => {
+    try {
+      const { addressId } = req.params;
+      
+      // Get customer from session or fallback auth
+      let customerAuth = (req.session as any)?.customerAuth;
+      
+      if (!customerAuth && req.cookies?.customer_auth) {
+        try {
+          const cookieData = JSON.parse(Buffer.from(req.cookies.customer_auth, 'base64').toString());
+          if (cookieData.expires > Date.now()) {
+            customerAuth = {
+              customerId: cookieData.customerId
+            };
+          }
+        } catch (cookieError) {
+          console.error('Failed to parse customer auth cookie:', cookieError);
+        }
+      }
+      
+      if (!customerAuth) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Verify the customer owns this address
+      const existingAddress = await storage.getDeliveryAddress(parseInt(addressId));
       if (!existingAddress || existingAddress.customerId !== customerAuth.customerId) {
         return res.status(403).json({ error: "Address not found or access denied" });
       }
@@ -3038,6 +3310,7 @@ The Quikpik Team`
 
       let optimizedCount = 0;
       let totalRevenueImpact = 0;
+      const recommendations: { productId: number; recommendedPrice: number; reasoning: string }[] = [];
 
       // Apply simple pricing rules
       for (const product of productsToOptimize) {
@@ -3057,21 +3330,29 @@ The Quikpik Team`
 
         if (priceAdjustment !== 0) {
           newPrice = Number(product.currentPrice) * (1 + priceAdjustment);
-          
-          await db
-            .update(products)
-            .set({ price: newPrice.toFixed(2) })
-            .where(eq(products.id, product.productId));
+
+          // Queued for approval rather than applied straight away
+          recommendations.push({
+            productId: product.productId,
+            recommendedPrice: newPrice,
+            reasoning: priceAdjustment > 0
+              ? `${salesVolume} sales in 30 days with ${stock} in stock`
+              : `Only ${salesVolume} sales in 30 days with ${stock} in stock`
+          });
 
           optimizedCount++;
           totalRevenueImpact += salesVolume * (newPrice - Number(product.currentPrice));
         }
       }
 
+      const { priceChangeService } = await import('./services/priceChangeService');
+      const batch = await priceChangeService.queueRecommendations(wholesalerId, 'demand_based', recommendations);
+
       res.json({ 
         success: true, 
         result: {
           optimizedProducts: optimizedCount,
+          priceChangeBatchId: batch?.id ?? null,
           estimatedRevenueImpact: Math.round(totalRevenueImpact * 100) / 100
         }
       });
@@ -3708,6 +3989,13 @@ The Quikpik Team`
         editCount: currentEditCount + 1
       };
       const product = await storage.updateProduct(id, productDataWithEditCount);
+
+      // PRICE HISTORY: Record manual unit/pallet price changes
+      await storage.recordProductPriceChanges(existingProduct, product, {
+        source: 'manual',
+        changedBy: req.user.id,
+        reason: typeof req.body.priceChangeReason === 'string' ? req.body.priceChangeReason.trim() : null
+      });
       
       res.json(product);
     } catch (error) {
@@ -3925,7 +4213,8 @@ The Quikpik Team`
             businessAddress: wholesaler.businessAddress,
             orderTotal: updated.total,
             readyTime: updated.readyToCollectAt ? updated.readyToCollectAt.toLocaleString() : new Date().toLocaleString(),
-            orderUrl: `https://quikpik.app/customer-portal/${wholesaler.id}`
+            orderUrl: `https://quikpik.app/customer-portal/${wholesaler.id}`,
+            collectionSlot: updated.slotStartsAt && updated.slotEndsAt ? formatSlotLabel(updated.slotStartsAt, updated.slotEndsAt) : undefined
           });
 
           await sendEmail({
@@ -3991,7 +4280,8 @@ The Quikpik Team`
             businessAddress: wholesaler.businessAddress,
             orderTotal: order.total,
             readyTime: order.readyToCollectAt.toLocaleString(),
-            orderUrl: `https://quikpik.app/customer-portal/${wholesaler.id}`
+            orderUrl: `https://quikpik.app/customer-portal/${wholesaler.id}`,
+            collectionSlot: order.slotStartsAt && order.slotEndsAt ? formatSlotLabel(order.slotStartsAt, order.slotEndsAt) : undefined
           });
 
           await sendEmail({
@@ -4073,35 +4363,22 @@ The Quikpik Team`
 
       console.log(`📦 Updating order ${orderId} status to: ${status}`);
 
-      // Update order status using storage method
-      const updated = await storage.updateOrderStatus(orderId, status);
+      // Update the status and queue the customer's notification together
+      const updated = await db.transaction(async (trx) => {
+        const [order] = await trx
+          .update(orders)
+          .set({ status })
+          .where(eq(orders.id, orderId))
+          .returning();
+        if (order) {
+          await storage.enqueueOutboxMessages(trx, outboxService.getOrderStatusMessages(order));
+        }
+        return order;
+      });
       if (!updated) {
         return res.status(404).json({ error: 'Order not found' });
       }
-
-      // Send real-time notifications to customer
-      try {
-        const customer = await storage.getUser(updated.retailerId);
-        const wholesaler = await storage.getUser(updated.wholesalerId);
-        
-        if (customer && wholesaler) {
-          await orderNotificationService.sendOrderStatusUpdate({
-            orderId: updated.id,
-            orderNumber: updated.orderNumber,
-            status: updated.status,
-            customerName: `${customer.firstName} ${customer.lastName}`.trim() || 'Customer',
-            customerPhone: customer.phoneNumber || '',
-            customerEmail: customer.email || undefined,
-            wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim(),
-            trackingNumber: updated.deliveryTrackingNumber || undefined,
-            estimatedDelivery: undefined // TODO: Add estimated delivery calculation
-          });
-          console.log(`📱 Real-time notifications sent for order ${orderId}`);
-        }
-      } catch (notificationError) {
-        console.error('❌ Failed to send order notifications:', notificationError);
-        // Don't fail the status update if notifications fail
-      }
+      outboxService.deliverSoon();
 
       console.log(`✅ Order ${orderId} status updated to ${status}`);
       res.json({ success: true, order: updated });
@@ -4428,13 +4705,19 @@ The Quikpik Team`
         });
       }
 
-      const platformFee = subtotal * 0.033; // 3.3% platform fee
-      const total = subtotal + platformFee;
-
       // Get wholesaler from first product
       const firstProduct = await storage.getProduct(items[0].productId);
       const wholesalerId = firstProduct!.wholesalerId;
 
+      // CONTRACT PRICING: The customer's price list rates
+      const { priceListService } = await import('./services/priceListService');
+      const contractPricing = await priceListService.applyToOrderItems(orderItems, userId, wholesalerId);
+      orderItems.splice(0, orderItems.length, ...contractPricing.items);
+      subtotal -= contractPricing.savings;
+
+      const platformFee = subtotal * 0.033; // 3.3% platform fee
+      const total = subtotal + platformFee;
+
       const orderData = insertOrderSchema.parse({
         orderNumber: await generateOrderNumber(wholesalerId),
         wholesalerId,
@@ -4531,11 +4814,58 @@ The Quikpik Team`
       let productSubtotal = 0;
       const validatedItems = [];
 
+      // CONTRACT PRICING: Validate against the customer's price list rates
+      const { priceListService } = await import('./services/priceListService');
+      const pricingCustomerAuth = getCustomerAuth(req);
+      let priceRule: Awaited<ReturnType<typeof priceListService.getCustomerPriceRule>> | undefined;
+
       for (const item of items) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) {
+        const rawProduct = await storage.getProduct(item.productId);
+        if (!rawProduct) {
           return res.status(400).json({ message: `Product ${item.productId} not found` });
         }
+        if (priceRule === undefined) {
+          // Contract rates are only for a customer signed in to this wholesaler's portal
+          priceRule = await priceListService.getCustomerPriceRule(
+            pricingCustomerAuth && pricingCustomerAuth.wholesalerId === rawProduct.wholesalerId ? pricingCustomerAuth.customerId : null,
+            rawProduct.wholesalerId
+          );
+        }
+        const product = priceListService.applyToProduct(rawProduct, priceRule);
+
+        // NEGOTIATED PRICING: An accepted negotiation locks the unit price for the agreed quantity
+        if (item.negotiationId) {
+          if (!pricingCustomerAuth) {
+            return res.status(401).json({ message: "Please sign in to check out at a negotiated price" });
+          }
+          const { negotiationService } = await import('./services/negotiationService');
+          let lockedPrice: number;
+          try {
+            lockedPrice = await negotiationService.getLockedPrice(parseInt(item.negotiationId), pricingCustomerAuth.customerId, product.id, item.quantity);
+          } catch (error: any) {
+            return res.status(400).json({ message: `${product.name}: ${error.message}` });
+          }
+
+          if (item.quantity > product.stock) {
+            return res.status(400).json({ 
+              message: `Insufficient stock for ${product.name}. Available: ${product.stock}` 
+            });
+          }
+
+          // Never above the customer's contract rate
+          const negotiatedPrice = Math.min(lockedPrice, parseFloat(product.price));
+          const negotiatedTotal = negotiatedPrice * item.quantity;
+          productSubtotal += negotiatedTotal;
+          validatedItems.push({
+            ...item,
+            product,
+            sellingType: 'units',
+            negotiationId: parseInt(item.negotiationId),
+            unitPrice: negotiatedPrice.toFixed(2),
+            total: negotiatedTotal.toFixed(2)
+          });
+          continue;
+        }
 
         // CRITICAL FIX: Use promotional pricing calculator to determine correct expected price
         const basePrice = parseFloat(product.price);
@@ -4787,6 +5117,147 @@ The Quikpik Team`
         return res.status(400).json({ message: "Wholesaler not found" });
       }
 
+      // DELIVERY SLOTS: Pickup and own-van delivery must book an open slot once the wholesaler offers them
+      const { fulfilmentSlotService, SlotUnavailableError } = await import('./services/fulfilmentSlotService');
+      let bookedSlot: Awaited<ReturnType<typeof fulfilmentSlotService.checkCheckoutSlot>>;
+      try {
+        bookedSlot = await fulfilmentSlotService.checkCheckoutSlot(wholesaler.id, shippingInfo);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      // MULTI-WAREHOUSE: Refuse before taking payment if no depot can supply the order
+      const { warehouseService } = await import('./services/warehouseService');
+      let orderWarehouseId: number | null;
+      try {
+        orderWarehouseId = await warehouseService.chooseOrderWarehouse(wholesaler.id, validatedItems, {
+          fulfillmentType: shippingInfo?.option === 'delivery' ? 'delivery' : 'pickup',
+          collectionWarehouseId: shippingInfo?.collectionWarehouseId,
+          deliveryPostcode: selectedDeliveryAddress?.postalCode
+        });
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      // ON-ACCOUNT ORDERS: Trade customers with credit terms skip Stripe and are invoiced later
+      if (req.body.paymentMethod === 'account') {
+        const customerAuth = getCustomerAuth(req);
+        if (!customerAuth) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+        if (customerAuth.wholesalerId !== wholesaler.id) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+
+        const { creditAccountService } = await import('./services/creditAccountService');
+        // No card transaction fee on account orders - customer owes products + delivery
+        const accountOrderTotal = amountBeforeFees;
+        const accountOrderItems = validatedItems.map((item: any) => ({
+          orderId: 0,
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          total: item.total,
+          sellingType: item.sellingType || 'units'
+        }));
+        const negotiationIds: number[] = validatedItems
+          .filter((item: any) => item.negotiationId)
+          .map((item: any) => item.negotiationId);
+        const { negotiationService } = await import('./services/negotiationService');
+
+        try {
+          const { order, creditCheck } = await db.transaction(async (trx) => {
+            const creditCheck = await creditAccountService.checkCreditAvailability(
+              customerAuth.customerId,
+              wholesaler.id,
+              accountOrderTotal,
+              trx
+            );
+            if (!creditCheck.allowed) {
+              throw Object.assign(new Error(creditCheck.reason || 'Credit check failed'), { creditCheck });
+            }
+
+            let deliveryAddressSnapshot: string | null = null;
+            let deliveryAddressId: number | null = null;
+            if (shippingInfo?.option === 'delivery' && selectedDeliveryAddress?.id) {
+              const address = await storage.getDeliveryAddressById(parseInt(selectedDeliveryAddress.id));
+              if (address && address.customerId === customerAuth.customerId) {
+                deliveryAddressSnapshot = [address.addressLine1, address.addressLine2, address.city, address.state, address.postalCode, address.country]
+                  .filter(part => part && part.trim())
+                  .join(', ');
+                deliveryAddressId = address.id;
+              }
+            }
+
+            // Nothing is charged up front, so a slot that filled since checkout opened refuses the order
+            await fulfilmentSlotService.reserveSlot(trx, bookedSlot);
+
+            const orderNumber = await generateOrderNumber(wholesaler.id, trx);
+            const order = await storage.createOrderWithTransaction(trx, {
+              orderNumber,
+              wholesalerId: wholesaler.id,
+              retailerId: customerAuth.customerId,
+              customerName,
+              customerEmail,
+              customerPhone,
+              subtotal: productSubtotal.toFixed(2),
+              platformFee: wholesalerPlatformFee.toFixed(2),
+              customerTransactionFee: '0.00',
+              total: accountOrderTotal.toFixed(2),
+              status: 'confirmed',
+              paymentMethod: 'account',
+              paymentStatus: 'unpaid',
+              paymentDueDate: creditCheck.paymentDueDate,
+              deliveryAddress: deliveryAddressSnapshot,
+              deliveryAddressId,
+              fulfillmentType: shippingInfo?.option === 'delivery' ? 'delivery' : 'pickup',
+              deliveryCost: deliveryCost.toFixed(2),
+              warehouseId: orderWarehouseId,
+              ...bookedSlot
+            }, accountOrderItems);
+
+            // Negotiated prices are single-use - nothing has been charged, so refuse the order if another checkout used one first
+            for (const negotiationId of negotiationIds) {
+              if (!await negotiationService.markOrdered(negotiationId, order.id, trx)) {
+                throw Object.assign(new Error('A negotiated price in your basket has already been used or is no longer available'), { negotiationId });
+              }
+            }
+
+            await storage.enqueueOutboxMessages(trx, outboxService.getOrderPlacedMessages(order));
+
+            return { order, creditCheck };
+          });
+
+          console.log(`🧾 ON-ACCOUNT ORDER: ${order.orderNumber} created for customer ${customerAuth.customerId}, due ${order.paymentDueDate?.toISOString()}`);
+          outboxService.deliverSoon();
+
+          return res.json({
+            paymentMethod: 'account',
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            total: order.total,
+            paymentDueDate: order.paymentDueDate,
+            paymentTerms: creditCheck.paymentTerms,
+            availableCredit: creditCheck.availableCredit != null
+              ? Math.max(0, creditCheck.availableCredit - accountOrderTotal)
+              : null
+          });
+        } catch (error: any) {
+          if (error.negotiationId || error instanceof SlotUnavailableError) {
+            return res.status(400).json({ message: error.message });
+          }
+          if (error.creditCheck) {
+            return res.status(402).json({
+              message: error.message,
+              creditLimit: error.creditCheck.creditLimit,
+              outstandingBalance: error.creditCheck.outstandingBalance,
+              availableCredit: error.creditCheck.availableCredit
+            });
+          }
+          throw error;
+        }
+      }
+
       // Create Stripe payment intent with idempotency to prevent duplicates
       if (!stripe) {
         return res.status(500).json({ message: "Stripe not configured" });
@@ -4873,7 +5344,9 @@ The Quikpik Team`
         });
       }
       
+      const checkoutCustomerId = pricingCustomerAuth?.wholesalerId === wholesaler.id ? pricingCustomerAuth.customerId : null;
       let paymentIntent;
+      let paymentConfig: any;
       try {
         
         console.log('💳 Stripe Connect Configuration:', {
@@ -4884,7 +5357,7 @@ The Quikpik Team`
           wholesalerReceives: stripeWholesalerAmount
         });
 
-        const paymentConfig: any = {
+        paymentConfig = {
           amount: stripeAmount, // Total amount customer pays (product + transaction fee) - pre-validated
           currency: 'gbp',
           receipt_email: customerEmail,
@@ -4893,6 +5366,15 @@ The Quikpik Team`
           description: `Purchase from ${wholesaler.businessName || 'Quikpik Wholesaler'}`,
         };
 
+        // Signed-in customers can pay with one of their saved cards, or save the new one
+        if (checkoutCustomerId) {
+          const { paymentMethodService } = await import('./services/paymentMethodService');
+          const stripeCustomerId = await paymentMethodService.getCheckoutCustomer(checkoutCustomerId);
+          if (stripeCustomerId) {
+            paymentConfig.customer = stripeCustomerId;
+          }
+        }
+
         // Add Stripe Connect configuration if wholesaler has Connect account
         if (useConnect) {
           // Additional validation for transfer amounts
@@ -4946,6 +5428,7 @@ The Quikpik Team`
           wholesalerId: firstProduct.wholesalerId,
           wholesalerBusinessName: wholesaler.businessName || 'Quikpik Wholesaler',
           orderType: 'customer_portal',
+          retailerId: checkoutCustomerId || '',
           connectAccountUsed: useConnect ? 'true' : 'false',
           // CRITICAL FIX: Store shipping info to determine delivery vs pickup
           shippingInfo: JSON.stringify(shippingInfo || { option: 'pickup' }),
@@ -4954,7 +5437,8 @@ The Quikpik Team`
             productName: item.product.name,
             quantity: item.quantity,
             unitPrice: parseFloat(item.unitPrice),
-            sellingType: item.sellingType || 'units' // CRITICAL: Preserve selling type for order creation
+            sellingType: item.sellingType || 'units', // CRITICAL: Preserve selling type for order creation
+            ...(item.negotiationId ? { negotiationId: item.negotiationId } : {})
           })))
         }
       }, {
@@ -4987,6 +5471,7 @@ The Quikpik Team`
               automatic_payment_methods: { enabled: true },
               statement_descriptor_suffix: wholesaler.businessName?.slice(0, 10) || 'Quikpik',
               description: `Purchase from ${wholesaler.businessName || 'Quikpik Wholesaler'}`,
+              ...(paymentConfig?.customer ? { customer: paymentConfig.customer } : {}),
               metadata: {
                 customerName,
                 customerEmail,
@@ -5003,6 +5488,7 @@ The Quikpik Team`
                 wholesalerId: firstProduct.wholesalerId,
                 wholesalerBusinessName: wholesaler.businessName || 'Quikpik Wholesaler',
                 orderType: 'customer_portal',
+                retailerId: checkoutCustomerId || '',
                 connectAccountUsed: 'false', // Mark as direct payment
                 shippingInfo: JSON.stringify(shippingInfo || { option: 'pickup' }),
                 items: JSON.stringify(validatedItems.map(item => ({
@@ -5042,6 +5528,8 @@ The Quikpik Team`
 
       res.json({ 
         clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        canSaveCard: !!checkoutCustomerId,
         productSubtotal: productSubtotal.toFixed(2),
         shippingCost: deliveryCost.toString(),
         customerTransactionFee: customerTransactionFee.toFixed(2),
@@ -5118,6 +5606,7 @@ The Quikpik Team`
 
         // Create customer if doesn't exist or update existing one
         let customer = await storage.getUserByPhone(customerPhone);
+        let welcomeMessage: WelcomeMessagesPayload | null = null;
         const { firstName, lastName } = parseCustomerName(customerName);
         
         console.log(`🔍 Customer lookup by phone ${customerPhone}:`, customer ? `Found existing: ${customer.id} (${customer.firstName} ${customer.lastName})` : 'Not found');
@@ -5140,32 +5629,13 @@ The Quikpik Team`
           });
           console.log(`✅ New customer created: ${customer.id} (${customer.firstName} ${customer.lastName}) linked to wholesaler: ${wholesalerId}`);
           
-          // Send welcome messages to new customer (Payment Processing)
-          try {
-            const wholesaler = await storage.getUser(wholesalerId);
-            if (wholesaler) {
-              const customerName = `${firstName} ${lastName}`.trim();
-              const portalUrl = `https://quikpik.app/customer/${userId}`;
-              const wholesalerName = wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim() || 'Your Wholesale Partner';
-              
-              console.log(`📧 Sending welcome messages for new customer ${customerName} linked to wholesaler ${wholesalerName}`);
-              
-              const welcomeResult = await sendWelcomeMessages({
-                customerName,
-                customerEmail: customerEmail || '',
-                customerPhone: customerPhone,
-                wholesalerName,
-                wholesalerEmail: wholesaler.email || 'support@quikpik.co',
-                wholesalerPhone: wholesaler.phoneNumber || '',
-                wholesalerAccountName: `${wholesaler.firstName} ${wholesaler.lastName || ''}`.trim() || 'IBK',
-                portalUrl
-              });
-              
-              console.log(`📨 Welcome messages sent to ${customerName}:`, welcomeResult);
-            }
-          } catch (welcomeError) {
-            console.error('❌ Error sending welcome messages (Payment Processing):', welcomeError);
-          }
+          // Welcome messages are sent from the outbox along with the order
+          welcomeMessage = {
+            customerName: `${firstName} ${lastName}`.trim(),
+            customerEmail: customerEmail || '',
+            customerPhone: customerPhone,
+            portalUrl: `https://quikpik.app/customer/${userId}`
+          };
         } else {
           // Check if email belongs to different customer before updating
           let emailConflict = false;
@@ -5298,6 +5768,18 @@ The Quikpik Team`
           servicePrice: shippingInfo.service?.price
         });
 
+        // MULTI-WAREHOUSE: Collection depot the buyer chose, or the nearest depot with the stock
+        const { warehouseService } = await import('./services/warehouseService');
+        const orderWarehouseId = await warehouseService.chooseOrderWarehouse(wholesalerId, items, {
+          fulfillmentType,
+          collectionWarehouseId: shippingInfo.collectionWarehouseId,
+          deliveryPostcode: selectedDeliveryAddress?.postalCode
+        });
+
+        // DELIVERY SLOTS: The slot the buyer booked at checkout
+        const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+        const bookedSlot = await fulfilmentSlotService.resolveBookedSlot(wholesalerId, shippingInfo);
+
         // ATOMIC ORDER NUMBER GENERATION: Use database transaction with proper sequential numbering AND duplicate checking
         let order, wholesaleRef;
         
@@ -5305,6 +5787,8 @@ The Quikpik Team`
           console.log(`🚨 WEBHOOK TRANSACTION DEBUG: Starting transaction for payment ${paymentIntentId}`);
           const result = await db.transaction(async (trx) => {
             // CRITICAL FIX: Check for existing order WITHIN the transaction for true atomicity
+            // The lock waits out the Stripe webhook if it is creating this order at the same moment
+            await trx.execute(sql`select pg_advisory_xact_lock(hashtext(${paymentIntentId}))`);
             const existingOrderResult = await trx
               .select()
               .from(orders)
@@ -5359,7 +5843,9 @@ The Quikpik Team`
               fulfillmentType: fulfillmentType,
               deliveryCarrier: fulfillmentType === 'delivery' ? 'Supplier Arranged' : null,
               deliveryCost: '0.00', // No cost - arranged directly by supplier
-              shippingTotal: '0.00' // No shipping total - handled separately
+              shippingTotal: '0.00', // No shipping total - handled separately
+              warehouseId: orderWarehouseId,
+              ...bookedSlot
             };
             
             console.log('🚚 SIMPLIFIED DELIVERY: Order data with shipping fields:', {
@@ -5384,6 +5870,8 @@ The Quikpik Team`
             console.log(`🚨 WEBHOOK TRANSACTION DEBUG: Order data:`, orderData);
             console.log(`🚨 WEBHOOK TRANSACTION DEBUG: Items:`, orderItemsData);
             
+            await fulfilmentSlotService.reserveSlot(trx, bookedSlot, { paid: true });
+
             // Use transaction-aware storage method with integrity check
             const createdOrder = await storage.createOrderWithTransaction(trx, orderData, orderItemsData);
             
@@ -5397,6 +5885,18 @@ The Quikpik Team`
             }
             
             console.log(`✅ Order #${createdOrder.id} created with ${savedItems.length}/${items.length} items verified`);
+
+            // Emails, invoices and the wholesaler's alerts are delivered from the outbox once this commits
+            const orderWholesaler = await storage.getUser(wholesalerId);
+            const whatsappMessage = orderWholesaler && getWhatsAppAlertProvider(orderWholesaler)
+              ? `🎉 New Order Received!\n\nWholesale Ref: ${wholesaleRef}\nCustomer: ${customerName}\nPhone: ${customerPhone}\nEmail: ${customerEmail}\nTotal: ${orderWholesaler.preferredCurrency === 'GBP' ? '£' : '$'}${totalAmount}\n\nOrder ID: ${createdOrder.id}\nStatus: Paid\n\nQuote this reference when communicating with the customer.`
+              : null;
+            await storage.enqueueOutboxMessages(trx, outboxService.getOrderPlacedMessages(createdOrder, {
+              stripeInvoice: true,
+              whatsappMessage,
+              welcome: welcomeMessage
+            }));
+
             return { order: createdOrder, wholesaleRef };
           });
           
@@ -5419,154 +5919,7 @@ The Quikpik Team`
         
         console.log(`✅ Order #${order.id} (Wholesale Ref: ${wholesaleRef}) created successfully for wholesaler ${wholesalerId}, customer ${customerName}, total: ${totalAmount}`);
 
-        // Get wholesaler data for emails and notifications
-        const wholesaler = await storage.getWholesalerProfile(wholesalerId);
-
-        // Send customer confirmation email and Stripe invoice
-        if (wholesaler && customerEmail) {
-          try {
-            // Enrich items with product details for email
-            const enrichedItems = await Promise.all(items.map(async (item: any) => {
-              const product = await storage.getProduct(item.productId);
-              return {
-                ...item,
-                productName: product?.name || `Product #${item.productId}`,
-                product: product ? { name: product.name } : null
-              };
-            }));
-            
-            await sendCustomerInvoiceEmail({
-              name: customerName,
-              email: customerEmail,
-              phone: customerPhone,
-              address: selectedDeliveryAddress ? 
-                (() => {
-                  // CRITICAL FIX: Filter out empty address components to prevent incomplete snapshots
-                  const addressParts = [
-                    selectedDeliveryAddress.addressLine1,
-                    selectedDeliveryAddress.addressLine2,
-                    selectedDeliveryAddress.city,
-                    selectedDeliveryAddress.state,
-                    selectedDeliveryAddress.postalCode,
-                    selectedDeliveryAddress.country || 'United Kingdom'
-                  ].filter(part => part && typeof part === 'string' && part.trim() && part.trim() !== 'undefined' && part.trim() !== 'null');
-                  
-                  return addressParts.length > 0 ? addressParts.join(', ') : null;
-                })() : 
-                customerAddress
-            }, order, enrichedItems, wholesaler);
-            console.log(`📧 Confirmation email sent to ${customerEmail} for order #${order.id}`);
-
-            // Create and send Stripe invoice to customer
-            await createAndSendStripeInvoice(order, enrichedItems, wholesaler, {
-              name: customerName,
-              email: customerEmail,
-              phone: customerPhone
-            });
-            
-          } catch (emailError) {
-            console.error(`❌ Failed to send confirmation email for order #${order.id}:`, emailError);
-          }
-        }
-
-        // Send WhatsApp notification to wholesaler with wholesale reference
-        if (wholesaler && (wholesaler as any).twilioAuthToken && (wholesaler as any).twilioPhoneNumber) {
-          const currencySymbol = wholesaler.preferredCurrency === 'GBP' ? '£' : '$';
-          const message = `🎉 New Order Received!\n\nWholesale Ref: ${wholesaleRef}\nCustomer: ${customerName}\nPhone: ${customerPhone}\nEmail: ${customerEmail}\nTotal: ${currencySymbol}${totalAmount}\n\nOrder ID: ${order.id}\nStatus: Paid\n\nQuote this reference when communicating with the customer.`;
-          
-          try {
-            // WhatsApp notification (simplified)
-            if ((wholesaler as any).whatsappEnabled) {
-              if ((wholesaler as any).whatsappAccessToken && (wholesaler as any).whatsappBusinessPhoneId) {
-                await whatsAppBusinessService.sendMessage((wholesaler as any).businessPhone, message, {
-                  accessToken: (wholesaler as any).whatsappAccessToken,
-                  phoneNumberId: (wholesaler as any).whatsappBusinessPhoneId
-                });
-              }
-            }
-          } catch (error) {
-            console.error('Failed to send WhatsApp notification:', error);
-          }
-        }
-
-        // Send email notification to wholesaler
-        if (wholesaler && wholesaler.email) {
-          try {
-            // Prepare order data for email template  
-            const enrichedItemsForEmail = await Promise.all(items.map(async (item: any) => {
-              const product = await storage.getProduct(item.productId);
-              return {
-                productName: product?.name || `Product #${item.productId}`,
-                quantity: item.quantity,
-                unitPrice: item.unitPrice,
-                total: (parseFloat(item.unitPrice) * item.quantity).toFixed(2)
-              };
-            }));
-
-            // FIXED: Get complete address using correct camelCase field names
-            let shippingAddress = undefined;
-            if (fulfillmentType === 'delivery' && order.deliveryAddressId) {
-              try {
-                const completeAddress = await storage.getDeliveryAddressById(order.deliveryAddressId);
-                if (completeAddress) {
-                  shippingAddress = [
-                    completeAddress.addressLine1,
-                    completeAddress.addressLine2,
-                    `${completeAddress.city}${completeAddress.state ? ', ' + completeAddress.state : ''}`,
-                    completeAddress.postalCode,
-                    completeAddress.country
-                  ].filter(Boolean).join('\n');
-                } else {
-                  // Fallback to order deliveryAddress
-                  shippingAddress = order.deliveryAddress;
-                }
-              } catch (addressError) {
-                console.error('❌ Failed to get complete address:', addressError);
-                // Fallback to order deliveryAddress
-                shippingAddress = order.deliveryAddress;
-              }
-            }
-
-            const emailData: OrderEmailData = {
-              orderNumber: order.orderNumber || `ORD-${order.id}`,
-              customerName,
-              customerEmail: customerEmail || '',
-              customerPhone,
-              // Use complete address string like customer email (WORKING APPROACH)  
-              shippingAddress: shippingAddress,
-              total: correctTotal,
-              subtotal: productSubtotal,
-              platformFee: parseFloat(wholesalerPlatformFee || '0').toFixed(2),
-              customerTransactionFee: parseFloat(customerTransactionFee || '0').toFixed(2),
-              wholesalerPlatformFee: parseFloat(wholesalerPlatformFee || '0').toFixed(2),
-              shippingTotal: '0.00',
-              fulfillmentType: shippingInfo && shippingInfo.option === 'delivery' ? 'delivery' : 'pickup',
-              items: enrichedItemsForEmail,
-              wholesaler: {
-                businessName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`,
-                firstName: wholesaler.firstName || '',
-                lastName: wholesaler.lastName || '',
-                email: wholesaler.email
-              },
-              orderDate: new Date().toISOString(),
-              paymentMethod: 'Card Payment'
-            };
-
-            const emailTemplate = generateWholesalerOrderNotificationEmail(emailData);
-            
-            await sendEmail({
-              to: wholesaler.email,
-              from: 'hello@quikpik.co',
-              subject: emailTemplate.subject,
-              html: emailTemplate.html,
-              text: emailTemplate.text
-            });
-
-            console.log(`📧 Wholesaler email notification sent to ${wholesaler.email} for Order #${order.id}`);
-          } catch (error) {
-            console.error('Failed to send wholesaler email notification:', error);
-          }
-        }
+        outboxService.deliverSoon();
 
         res.json({ 
           success: true, 
@@ -5842,18 +6195,20 @@ The Quikpik Team`
         return res.status(400).json({ message: "Cannot cancel fulfilled or archived orders" });
       }
 
-      // Update order status to cancelled
-      const updatedOrder = await storage.updateOrderStatus(id, 'cancelled');
-      
-      // Restore stock for cancelled orders
+      // Cancel everything not yet shipped - restores held stock and drops any backorders
+      const { fulfilmentService } = await import('./services/fulfilmentService');
+      const { getOutstandingQuantity } = await import('../shared/order-fulfilment');
       const orderItems = await storage.getOrderItems(id);
-      for (const item of orderItems) {
-        const product = await storage.getProduct(item.productId);
-        if (product) {
-          await storage.updateProductStock(item.productId, product.stock + item.quantity);
-        }
+      const unshipped = orderItems
+        .map(item => ({ orderItemId: item.id, cancelQuantity: getOutstandingQuantity(item) + item.backorderedQuantity }))
+        .filter(line => line.cancelQuantity > 0);
+      if (unshipped.length > 0) {
+        await fulfilmentService.adjustFulfilment(order, unshipped);
       }
 
+      // Update order status to cancelled
+      const updatedOrder = await storage.updateOrderStatus(id, 'cancelled');
+
       // Send cancellation notification to customer if email available
       try {
         const customer = await storage.getUser(order.retailerId);
@@ -5878,521 +6233,2435 @@ The Quikpik Team`
     }
   });
 
-  // Refund order
-  app.post('/api/orders/:id/refund', requireAuth, async (req: any, res) => {
+  // Warehouse picking: batch paid orders into pick lists and print pick lists and packing slips
+  app.get('/api/pick-lists', requireAuth, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const userId = req.user.id;
-      const { amount, reason } = req.body;
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getPickLists(targetUserId));
+    } catch (error) {
+      console.error("Error fetching pick lists:", error);
+      res.status(500).json({ message: "Failed to fetch pick lists" });
+    }
+  });
 
-      const order = await storage.getOrder(id);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
+  app.get('/api/pick-lists/pickable-orders', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getPickableOrders(targetUserId));
+    } catch (error) {
+      console.error("Error fetching orders to pick:", error);
+      res.status(500).json({ message: "Failed to fetch orders to pick" });
+    }
+  });
 
-      // Only wholesaler can refund order
-      if (order.wholesalerId !== userId) {
-        return res.status(403).json({ message: "Not authorized to refund this order" });
-      }
+  app.post('/api/pick-lists', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { orderIds } = req.body;
 
-      // Can only refund paid orders
-      if (order.status !== 'paid' && order.status !== 'fulfilled') {
-        return res.status(400).json({ message: "Can only refund paid or fulfilled orders" });
+      if (!Array.isArray(orderIds) || orderIds.length === 0) {
+        return res.status(400).json({ message: "Choose at least one order to pick" });
       }
 
-      // Check for payment intent ID 
-      const paymentIntentId = order.stripePaymentIntentId;
-      if (!paymentIntentId) {
-        console.log('Order payment details:', {
-          orderId: id,
-          stripePaymentIntentId: order.stripePaymentIntentId,
-          status: order.status,
-          total: order.total
-        });
-        return res.status(400).json({ message: "No payment information found for this order" });
+      const { pickingService } = await import('./services/pickingService');
+      try {
+        const pickList = await pickingService.createPickList(targetUserId, orderIds.map((id: any) => parseInt(id)), req.user.id);
+        res.json(pickList);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
+    } catch (error) {
+      console.error("Error creating pick list:", error);
+      res.status(500).json({ message: "Failed to create pick list" });
+    }
+  });
 
-      // Create Stripe refund
-      let refund = null;
-      if (stripe) {
-        try {
-          // Prepare refund parameters
-          const refundParams: any = {
-            payment_intent: paymentIntentId,
-            reason: 'requested_by_customer',
-            metadata: {
-              order_id: id.toString(),
-              reason: reason || 'Wholesaler initiated refund'
-            }
-          };
-
-          // Only include amount if specified (for partial refunds)
-          if (amount && amount !== '') {
-            const refundAmount = Math.round(parseFloat(amount) * 100); // Convert to cents
-            if (!isNaN(refundAmount) && refundAmount > 0) {
-              refundParams.amount = refundAmount;
-            }
-          }
-          // For full refunds, omit the amount parameter entirely
+  app.get('/api/pick-lists/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
 
-          refund = await stripe.refunds.create(refundParams);
-        } catch (stripeError: any) {
-          console.error('Stripe refund failed:', stripeError);
-          return res.status(400).json({ 
-            message: `Refund failed: ${stripeError.message}`,
-            error: stripeError.code 
-          });
-        }
+      const { pickingService } = await import('./services/pickingService');
+      const pickList = await pickingService.getWholesalerPickList(parseInt(req.params.id), targetUserId);
+      if (!pickList) {
+        return res.status(404).json({ message: "Pick list not found" });
       }
 
-      // Update order status to refunded or add refund note
-      let updatedOrder;
-      if (refund && refund.amount >= parseFloat(order.total) * 100) {
-        // Full refund - cancel order
-        updatedOrder = await storage.updateOrderStatus(id, 'refunded');
-        
-        // Restore stock for refunded orders
-        const orderItems = await storage.getOrderItems(id);
-        for (const item of orderItems) {
-          const product = await storage.getProduct(item.productId);
-          if (product) {
-            await storage.updateProductStock(item.productId, product.stock + item.quantity);
-          }
-        }
-      } else {
-        // Partial refund - keep order active but add note
-        const currentNotes = order.notes || '';
-        const refundNote = `Partial refund of ${refund ? '$' + (refund.amount / 100).toFixed(2) : amount} processed. Reason: ${reason || 'N/A'}`;
-        await storage.updateOrderNotes(id, currentNotes + '\n' + refundNote);
-        updatedOrder = order;
+      res.json(pickList);
+    } catch (error) {
+      console.error("Error fetching pick list:", error);
+      res.status(500).json({ message: "Failed to fetch pick list" });
+    }
+  });
+
+  // Tick off a line as picked; orders move on once all their lines are picked
+  app.patch('/api/pick-lists/:id/items/:itemId', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { pickingService } = await import('./services/pickingService');
+      const pickList = await pickingService.getWholesalerPickList(parseInt(req.params.id), targetUserId);
+      if (!pickList) {
+        return res.status(404).json({ message: "Pick list not found" });
       }
 
-      // Send refund notification and receipt to customer
       try {
-        const customer = await storage.getUser(order.retailerId);
-        const wholesaler = await storage.getUser(order.wholesalerId);
-        
-        if (customer?.email && wholesaler) {
-          // Create Stripe credit note for professional refund receipt
-          await createStripeRefundReceipt(order, refund, wholesaler, customer, reason);
-          
-          // Also send custom refund receipt email
-          await sendRefundReceipt(customer, order, refund, wholesaler, reason);
-          console.log(`Refund receipt sent to ${customer.email} for order ${id}`);
-        }
-      } catch (error) {
-        console.error('Failed to send refund receipt:', error);
+        const result = await pickingService.pickLine(pickList, parseInt(req.params.itemId), parseInt(req.body.pickedQuantity), req.user.id);
+        res.json(result);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
-
-      res.json({ 
-        message: "Refund processed successfully",
-        order: updatedOrder,
-        refund: refund ? {
-          id: refund.id,
-          amount: refund.amount / 100,
-          status: refund.status
-        } : null,
-        stockRestored: refund && refund.amount >= parseFloat(order.total) * 100
-      });
     } catch (error) {
-      console.error("Error processing refund:", error);
-      res.status(500).json({ message: "Failed to process refund" });
+      console.error("Error recording pick:", error);
+      res.status(500).json({ message: "Failed to record pick" });
     }
   });
 
-  // Upload image to order (wholesaler only)
-  app.post('/api/orders/:orderId/upload-image', requireAuth, async (req: any, res) => {
+  app.post('/api/pick-lists/:id/cancel', requireAuth, async (req: any, res) => {
     try {
-      const { orderId } = req.params;
-      
-      // Use authenticated wholesaler ID for proper data isolation
-      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
-        ? req.user.wholesalerId 
-        : req.user.id;
-      
-      // Verify order belongs to this wholesaler
-      const order = await storage.getOrder(parseInt(orderId));
-      if (!order || order.wholesalerId !== wholesalerId) {
-        return res.status(404).json({ error: "Order not found" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { pickingService } = await import('./services/pickingService');
+      const pickList = await pickingService.getWholesalerPickList(parseInt(req.params.id), targetUserId);
+      if (!pickList) {
+        return res.status(404).json({ message: "Pick list not found" });
+      }
+
+      try {
+        res.json(await pickingService.cancelPickList(pickList));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
-      
-      // Generate presigned URL for image upload
-      const { ObjectStorageService } = await import('./objectStorage.js');
-      const objectStorageService = new ObjectStorageService();
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-      
-      res.json({ uploadURL });
     } catch (error) {
-      console.error("❌ Error generating upload URL for order image:", error);
-      res.status(500).json({ error: "Failed to generate upload URL" });
+      console.error("Error cancelling pick list:", error);
+      res.status(500).json({ message: "Failed to cancel pick list" });
     }
   });
 
-  // Serve private objects/images (for displaying uploaded images)
-  app.get("/objects/:objectPath(*)", async (req, res) => {
+  // Printable pick list (HTML, or PDF with ?format=pdf)
+  app.get('/api/pick-lists/:id/print', requireAuth, async (req: any, res) => {
     try {
-      const { ObjectStorageService } = await import('./objectStorage.js');
-      const objectStorageService = new ObjectStorageService();
-      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
-      objectStorageService.downloadObject(objectFile, res);
-    } catch (error: any) {
-      console.error("Error serving object:", error);
-      if (error.name === 'ObjectNotFoundError') {
-        return res.sendStatus(404);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { pickingService } = await import('./services/pickingService');
+      const pickList = await pickingService.getWholesalerPickList(parseInt(req.params.id), targetUserId);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!pickList || !wholesaler) {
+        return res.status(404).json({ message: "Pick list not found" });
       }
-      return res.sendStatus(500);
+
+      const html = pickingService.renderPickListHtml(pickList, wholesaler);
+      if (req.query.format === 'pdf') {
+        const { pdfService } = await import('./services/pdfService');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${pickList.pickListNumber}.pdf"`);
+        return res.send(await pdfService.renderPdf(html));
+      }
+      res.type('html').send(html);
+    } catch (error) {
+      console.error("Error printing pick list:", error);
+      res.status(500).json({ message: "Failed to print pick list" });
     }
   });
 
-  // Save uploaded image to order
-  app.post('/api/orders/:orderId/save-image', requireAuth, async (req: any, res) => {
+  // Packing slips for every order on a pick list
+  app.get('/api/pick-lists/:id/packing-slips', requireAuth, async (req: any, res) => {
     try {
-      const { orderId } = req.params;
-      const { imageUrl, filename, description } = req.body;
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { pickingService } = await import('./services/pickingService');
+      const pickList = await pickingService.getWholesalerPickList(parseInt(req.params.id), targetUserId);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!pickList || !wholesaler) {
+        return res.status(404).json({ message: "Pick list not found" });
+      }
+
+      const orderIds = pickingService.groupByOrder(pickList.items).map(lines => lines[0].orderId);
+      const html = await pickingService.renderPackingSlipsHtml(orderIds, pickList.items, wholesaler);
+      if (req.query.format === 'pdf') {
+        const { pdfService } = await import('./services/pdfService');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${pickList.pickListNumber}-packing-slips.pdf"`);
+        return res.send(await pdfService.renderPdf(html));
+      }
+      res.type('html').send(html);
+    } catch (error) {
+      console.error("Error printing packing slips:", error);
+      res.status(500).json({ message: "Failed to print packing slips" });
+    }
+  });
+
+  app.get('/api/orders/:id/packing-slip', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!order || !wholesaler || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const { pickingService } = await import('./services/pickingService');
+      const { pdfService } = await import('./services/pdfService');
+      const html = await pickingService.renderPackingSlipsHtml([id], null, wholesaler);
+      if (req.query.format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="packing-slip-${order.orderNumber}.pdf"`);
+        return res.send(await pdfService.renderPdf(html));
+      }
+      res.type('html').send(html);
+    } catch (error) {
+      console.error("Error printing packing slip:", error);
+      res.status(500).json({ message: "Failed to print packing slip" });
+    }
+  });
+
+  // Own-van delivery runs: plan drops for a driver, print the manifest and record each drop
+  app.get('/api/delivery-runs', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getDeliveryRuns(targetUserId));
+    } catch (error) {
+      console.error("Error fetching delivery runs:", error);
+      res.status(500).json({ message: "Failed to fetch delivery runs" });
+    }
+  });
+
+  app.get('/api/delivery-runs/unassigned-orders', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getRoutableOrders(targetUserId));
+    } catch (error) {
+      console.error("Error fetching orders to deliver:", error);
+      res.status(500).json({ message: "Failed to fetch orders to deliver" });
+    }
+  });
+
+  app.post('/api/delivery-runs', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { deliveryDate, driverName, driverPhone, warehouseId, notes, orderIds } = req.body;
+
+      if (!deliveryDate || isNaN(new Date(deliveryDate).getTime())) {
+        return res.status(400).json({ message: "A delivery date is required" });
+      }
+      if (!driverName?.trim()) {
+        return res.status(400).json({ message: "A driver is required" });
+      }
+      if (!Array.isArray(orderIds) || orderIds.length === 0) {
+        return res.status(400).json({ message: "Choose at least one order to deliver" });
+      }
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      try {
+        const run = await deliveryRunService.createRun(
+          targetUserId,
+          {
+            deliveryDate: new Date(deliveryDate),
+            driverName: driverName.trim(),
+            driverPhone: driverPhone || null,
+            warehouseId: warehouseId ? parseInt(warehouseId) : null,
+            notes: notes || null
+          },
+          orderIds.map((id: any) => parseInt(id)),
+          req.user.id
+        );
+        res.json(run);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error creating delivery run:", error);
+      res.status(500).json({ message: "Failed to create delivery run" });
+    }
+  });
+
+  app.get('/api/delivery-runs/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      if (!run) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching delivery run:", error);
+      res.status(500).json({ message: "Failed to fetch delivery run" });
+    }
+  });
+
+  // Change a planned run's date, driver, depot or orders
+  app.patch('/api/delivery-runs/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { deliveryDate, driverName, driverPhone, warehouseId, notes, orderIds } = req.body;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      if (!run) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      const updates: Record<string, any> = {};
+      if (deliveryDate !== undefined) {
+        if (isNaN(new Date(deliveryDate).getTime())) {
+          return res.status(400).json({ message: "Invalid delivery date" });
+        }
+        updates.deliveryDate = new Date(deliveryDate);
+      }
+      if (driverName !== undefined) {
+        if (!driverName?.trim()) {
+          return res.status(400).json({ message: "A driver is required" });
+        }
+        updates.driverName = driverName.trim();
+      }
+      if (driverPhone !== undefined) updates.driverPhone = driverPhone || null;
+      if (warehouseId !== undefined) updates.warehouseId = warehouseId ? parseInt(warehouseId) : null;
+      if (notes !== undefined) updates.notes = notes || null;
+      if (orderIds !== undefined && (!Array.isArray(orderIds) || orderIds.length === 0)) {
+        return res.status(400).json({ message: "A run needs at least one order" });
+      }
+
+      try {
+        const updated = await deliveryRunService.updateRun(run, updates, orderIds?.map((id: any) => parseInt(id)));
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating delivery run:", error);
+      res.status(500).json({ message: "Failed to update delivery run" });
+    }
+  });
+
+  app.post('/api/delivery-runs/:id/optimise', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      if (!run) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      try {
+        res.json(await deliveryRunService.optimiseRun(run));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error re-ordering delivery run:", error);
+      res.status(500).json({ message: "Failed to re-order delivery run" });
+    }
+  });
+
+  // Van leaves: orders are dispatched and customers told to expect them
+  app.post('/api/delivery-runs/:id/start', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!run || !wholesaler) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      try {
+        res.json(await deliveryRunService.startRun(run, wholesaler));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error starting delivery run:", error);
+      res.status(500).json({ message: "Failed to start delivery run" });
+    }
+  });
+
+  app.post('/api/delivery-runs/:id/cancel', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      if (!run) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      try {
+        res.json(await deliveryRunService.cancelRun(run));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error cancelling delivery run:", error);
+      res.status(500).json({ message: "Failed to cancel delivery run" });
+    }
+  });
+
+  // Driver's manifest (HTML, or PDF with ?format=pdf)
+  app.get('/api/delivery-runs/:id/manifest', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!run || !wholesaler) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      const html = deliveryRunService.renderManifestHtml(run, wholesaler);
+      if (req.query.format === 'pdf') {
+        const { pdfService } = await import('./services/pdfService');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${run.runNumber}-manifest.pdf"`);
+        return res.send(await pdfService.renderPdf(html));
+      }
+      res.type('html').send(html);
+    } catch (error) {
+      console.error("Error printing delivery manifest:", error);
+      res.status(500).json({ message: "Failed to print delivery manifest" });
+    }
+  });
+
+  // Upload URL for a proof-of-delivery photo
+  app.post('/api/delivery-runs/:id/stops/:stopId/photo-upload', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      if (!run || !run.stops.some(stop => stop.id === parseInt(req.params.stopId))) {
+        return res.status(404).json({ message: "Stop not found" });
+      }
+
+      const { ObjectStorageService } = await import('./objectStorage.js');
+      const objectStorageService = new ObjectStorageService();
+      res.json({ uploadURL: await objectStorageService.getObjectEntityUploadURL() });
+    } catch (error) {
+      console.error("Error generating proof of delivery upload URL:", error);
+      res.status(500).json({ message: "Failed to generate upload URL" });
+    }
+  });
+
+  app.post('/api/delivery-runs/:id/stops/:stopId/:outcome(delivered|failed)', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { recipientName, failureReason, proofPhotoUrl } = req.body;
+
+      const { deliveryRunService } = await import('./services/deliveryRunService');
+      const run = await deliveryRunService.getWholesalerRun(parseInt(req.params.id), targetUserId);
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!run || !wholesaler) {
+        return res.status(404).json({ message: "Delivery run not found" });
+      }
+
+      try {
+        const updated = await deliveryRunService.recordDrop(
+          run,
+          parseInt(req.params.stopId),
+          req.params.outcome,
+          { recipientName, failureReason, proofPhotoUrl },
+          req.user.id,
+          wholesaler
+        );
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error recording delivery:", error);
+      res.status(500).json({ message: "Failed to record delivery" });
+    }
+  });
+
+  // Delivery slots: weekly delivery days and collection windows, plus holiday closures
+  app.get('/api/fulfilment-slots', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const [slots, closures] = await Promise.all([
+        storage.getFulfilmentSlots(targetUserId),
+        storage.getFulfilmentClosures(targetUserId, new Date(Date.now() - 24 * 60 * 60 * 1000))
+      ]);
+      res.json({ slots, closures });
+    } catch (error) {
+      console.error("Error fetching delivery slots:", error);
+      res.status(500).json({ message: "Failed to fetch delivery slots" });
+    }
+  });
+
+  app.post('/api/fulfilment-slots', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { type, warehouseId, dayOfWeek, startTime, endTime, capacity, cutoffDaysBefore, cutoffTime } = req.body;
+
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      try {
+        const slot = await fulfilmentSlotService.createSlot(targetUserId, {
+          type,
+          warehouseId: warehouseId ? parseInt(warehouseId) : null,
+          dayOfWeek: parseInt(dayOfWeek),
+          startTime,
+          endTime,
+          capacity: capacity ? parseInt(capacity) : null,
+          cutoffDaysBefore: cutoffDaysBefore !== undefined && cutoffDaysBefore !== '' ? parseInt(cutoffDaysBefore) : undefined,
+          cutoffTime
+        });
+        res.json(slot);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error creating delivery slot:", error);
+      res.status(500).json({ message: "Failed to create delivery slot" });
+    }
+  });
+
+  app.patch('/api/fulfilment-slots/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { warehouseId, dayOfWeek, startTime, endTime, capacity, cutoffDaysBefore, cutoffTime, isActive } = req.body;
+
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      const slot = await fulfilmentSlotService.getWholesalerSlot(parseInt(req.params.id), targetUserId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+
+      const updates: Record<string, any> = {};
+      if (warehouseId !== undefined) updates.warehouseId = warehouseId ? parseInt(warehouseId) : null;
+      if (dayOfWeek !== undefined) updates.dayOfWeek = parseInt(dayOfWeek);
+      if (startTime !== undefined) updates.startTime = startTime;
+      if (endTime !== undefined) updates.endTime = endTime;
+      if (capacity !== undefined) updates.capacity = capacity ? parseInt(capacity) : null;
+      if (cutoffDaysBefore !== undefined) updates.cutoffDaysBefore = parseInt(cutoffDaysBefore);
+      if (cutoffTime !== undefined) updates.cutoffTime = cutoffTime;
+      if (isActive !== undefined) updates.isActive = !!isActive;
+
+      try {
+        res.json(await fulfilmentSlotService.updateSlot(slot, updates));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating delivery slot:", error);
+      res.status(500).json({ message: "Failed to update delivery slot" });
+    }
+  });
+
+  app.delete('/api/fulfilment-slots/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      const slot = await fulfilmentSlotService.getWholesalerSlot(parseInt(req.params.id), targetUserId);
+      if (!slot) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+
+      await storage.deleteFulfilmentSlot(slot.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting delivery slot:", error);
+      res.status(500).json({ message: "Failed to delete delivery slot" });
+    }
+  });
+
+  app.post('/api/fulfilment-closures', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { startsOn, endsOn, reason } = req.body;
+
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      try {
+        const closure = await fulfilmentSlotService.addClosure(targetUserId, new Date(startsOn), new Date(endsOn || startsOn), reason);
+        res.json(closure);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error adding closure:", error);
+      res.status(500).json({ message: "Failed to add closure" });
+    }
+  });
+
+  app.delete('/api/fulfilment-closures/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      const closure = await fulfilmentSlotService.getWholesalerClosure(parseInt(req.params.id), targetUserId);
+      if (!closure) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+
+      await storage.deleteFulfilmentClosure(closure.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing closure:", error);
+      res.status(500).json({ message: "Failed to remove closure" });
+    }
+  });
+
+  // Shipments for an order (an order may be split across several)
+  app.get('/api/orders/:id/shipments', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { fulfilmentService } = await import('./services/fulfilmentService');
+      const order = await fulfilmentService.getWholesalerOrder(id, targetUserId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const shipments = await storage.getOrderShipments(id);
+      res.json(shipments);
+    } catch (error) {
+      console.error("Error fetching order shipments:", error);
+      res.status(500).json({ message: "Failed to fetch order shipments" });
+    }
+  });
+
+  app.post('/api/orders/:id/shipments', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { lines, carrier, trackingNumber, notes } = req.body;
+
+      if (!Array.isArray(lines) || lines.length === 0) {
+        return res.status(400).json({ message: "At least one order line is required" });
+      }
+
+      const { fulfilmentService } = await import('./services/fulfilmentService');
+      const order = await fulfilmentService.getWholesalerOrder(id, targetUserId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.status === 'cancelled' || order.status === 'archived') {
+        return res.status(400).json({ message: "Cannot ship a cancelled or archived order" });
+      }
+
+      try {
+        const shipment = await fulfilmentService.createShipment(
+          order,
+          lines.map((line: any) => ({ orderItemId: parseInt(line.orderItemId), quantity: parseInt(line.quantity) })),
+          { carrier: carrier || null, trackingNumber: trackingNumber || null, notes: notes || null }
+        );
+        res.json(shipment);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error creating order shipment:", error);
+      res.status(500).json({ message: "Failed to create shipment" });
+    }
+  });
+
+  app.patch('/api/orders/:id/shipments/:shipmentId', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const shipmentId = parseInt(req.params.shipmentId);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { status, carrier, trackingNumber, notes } = req.body;
+
+      const shipment = await storage.getOrderShipment(shipmentId);
+      if (!shipment || shipment.orderId !== id || shipment.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+
+      if (status && !['pending', 'dispatched', 'delivered'].includes(status)) {
+        return res.status(400).json({ message: "Invalid shipment status" });
+      }
+
+      const updates: Record<string, any> = {};
+      if (carrier !== undefined) updates.carrier = carrier;
+      if (trackingNumber !== undefined) updates.trackingNumber = trackingNumber;
+      if (notes !== undefined) updates.notes = notes;
+      if (status) {
+        updates.status = status;
+        if (status === 'dispatched' && !shipment.dispatchedAt) updates.dispatchedAt = new Date();
+        if (status === 'delivered') updates.deliveredAt = new Date();
+      }
+
+      const updated = await storage.updateOrderShipment(shipmentId, updates);
+      if (trackingNumber) {
+        await storage.updateOrder(id, { deliveryTrackingNumber: trackingNumber, ...(carrier ? { deliveryCarrier: carrier } : {}) });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating order shipment:", error);
+      res.status(500).json({ message: "Failed to update shipment" });
+    }
+  });
+
+  // Mark order lines as backordered or cancelled when they can't be shipped
+  app.patch('/api/orders/:id/fulfilment', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { lines } = req.body;
+
+      if (!Array.isArray(lines) || lines.length === 0) {
+        return res.status(400).json({ message: "At least one order line is required" });
+      }
+
+      const { fulfilmentService } = await import('./services/fulfilmentService');
+      const order = await fulfilmentService.getWholesalerOrder(id, targetUserId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      try {
+        const items = await fulfilmentService.adjustFulfilment(
+          order,
+          lines.map((line: any) => ({
+            orderItemId: parseInt(line.orderItemId),
+            backorderQuantity: line.backorderQuantity ? parseInt(line.backorderQuantity) : 0,
+            cancelQuantity: line.cancelQuantity ? parseInt(line.cancelQuantity) : 0
+          }))
+        );
+        res.json(items);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating order fulfilment:", error);
+      res.status(500).json({ message: "Failed to update order fulfilment" });
+    }
+  });
+
+  // All order lines waiting on stock
+  app.get('/api/backorders', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const backorders = await storage.getBackorderedItems(targetUserId);
+      res.json(backorders);
+    } catch (error) {
+      console.error("Error fetching backorders:", error);
+      res.status(500).json({ message: "Failed to fetch backorders" });
+    }
+  });
+
+  // Record payment against an on-account order
+  app.post('/api/orders/:id/mark-paid', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to update this order" });
+      }
+
+      if (order.paymentMethod !== 'account' || order.paymentStatus !== 'unpaid') {
+        return res.status(400).json({ message: "Only unpaid on-account orders can be marked as paid" });
+      }
+
+      const updatedOrder = await storage.markOrderPaid(id);
+      console.log(`💷 On-account order ${order.orderNumber} marked as paid`);
+
+      res.json(updatedOrder);
+    } catch (error) {
+      console.error("Error marking order as paid:", error);
+      res.status(500).json({ message: "Failed to mark order as paid" });
+    }
+  });
+
+  // Extra charges taken after checkout, e.g. delivery top-ups
+  app.get('/api/orders/:id/charges', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to view this order" });
+      }
+
+      res.json(await storage.getOrderCharges(id));
+    } catch (error) {
+      console.error("Error fetching order charges:", error);
+      res.status(500).json({ message: "Failed to fetch order charges" });
+    }
+  });
+
+  // Charge the customer's saved card for delivery that cost more than quoted
+  app.post('/api/orders/:id/delivery-top-up', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to charge this order" });
+      }
+
+      const { orderChargeService } = await import('./services/orderChargeService');
+      try {
+        const charge = await orderChargeService.chargeDeliveryTopUp(order, parseFloat(req.body.amount), req.body.reason || null, req.user.id);
+        res.json(charge);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error charging delivery top-up:", error);
+      res.status(500).json({ message: "Failed to charge delivery top-up" });
+    }
+  });
+
+  app.get('/api/orders/:id/edits', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to view this order" });
+      }
+
+      res.json(await storage.getOrderEdits(id));
+    } catch (error) {
+      console.error("Error fetching order edits:", error);
+      res.status(500).json({ message: "Failed to fetch order edits" });
+    }
+  });
+
+  // Price an order edit without saving it, so the wholesaler sees the payment difference first
+  app.post('/api/orders/:id/edit/preview', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to edit this order" });
+      }
+
+      const { orderEditService } = await import('./services/orderEditService');
+      try {
+        res.json(await orderEditService.preview(order, req.body));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error previewing order edit:", error);
+      res.status(500).json({ message: "Failed to preview order edit" });
+    }
+  });
+
+  // Add, remove or change lines on an order and settle the price difference
+  app.post('/api/orders/:id/edit', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.wholesalerId !== targetUserId) {
+        return res.status(403).json({ message: "Not authorized to edit this order" });
+      }
+
+      const { orderEditService } = await import('./services/orderEditService');
+      try {
+        res.json(await orderEditService.applyEdit(order, req.body, req.user.id));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error editing order:", error);
+      res.status(500).json({ message: "Failed to edit order" });
+    }
+  });
+
+  // Refund order
+  app.post('/api/orders/:id/refund', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { amount, reason } = req.body;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Only wholesaler can refund order
+      if (order.wholesalerId !== userId) {
+        return res.status(403).json({ message: "Not authorized to refund this order" });
+      }
+
+      // Can only refund paid orders
+      if (order.status !== 'paid' && order.status !== 'fulfilled') {
+        return res.status(400).json({ message: "Can only refund paid or fulfilled orders" });
+      }
+
+      // Check for payment intent ID 
+      const paymentIntentId = order.stripePaymentIntentId;
+      if (!paymentIntentId) {
+        console.log('Order payment details:', {
+          orderId: id,
+          stripePaymentIntentId: order.stripePaymentIntentId,
+          status: order.status,
+          total: order.total
+        });
+        return res.status(400).json({ message: "No payment information found for this order" });
+      }
+
+      // Create Stripe refund
+      let refund = null;
+      if (stripe) {
+        try {
+          // Prepare refund parameters
+          const refundParams: any = {
+            payment_intent: paymentIntentId,
+            reason: 'requested_by_customer',
+            metadata: {
+              order_id: id.toString(),
+              reason: reason || 'Wholesaler initiated refund'
+            }
+          };
+
+          // Only include amount if specified (for partial refunds)
+          if (amount && amount !== '') {
+            const refundAmount = Math.round(parseFloat(amount) * 100); // Convert to cents
+            if (!isNaN(refundAmount) && refundAmount > 0) {
+              refundParams.amount = refundAmount;
+            }
+          }
+          // For full refunds, omit the amount parameter entirely
+
+          refund = await stripe.refunds.create(refundParams);
+        } catch (stripeError: any) {
+          console.error('Stripe refund failed:', stripeError);
+          return res.status(400).json({ 
+            message: `Refund failed: ${stripeError.message}`,
+            error: stripeError.code 
+          });
+        }
+      }
+
+      // Update order status to refunded or add refund note
+      let updatedOrder;
+      if (refund && refund.amount >= parseFloat(order.total) * 100) {
+        // Full refund - cancel order
+        updatedOrder = await storage.updateOrderStatus(id, 'refunded');
+        
+        // Restore stock for refunded orders
+        const orderItems = await storage.getOrderItems(id);
+        for (const item of orderItems) {
+          const product = await storage.getProduct(item.productId);
+          if (product) {
+            await storage.updateProductStock(item.productId, product.stock + item.quantity);
+          }
+        }
+      } else {
+        // Partial refund - keep order active but add note
+        const currentNotes = order.notes || '';
+        const refundNote = `Partial refund of ${refund ? '$' + (refund.amount / 100).toFixed(2) : amount} processed. Reason: ${reason || 'N/A'}`;
+        await storage.updateOrderNotes(id, currentNotes + '\n' + refundNote);
+        updatedOrder = order;
+      }
+
+      // Credit note against the order's invoice for what was refunded
+      if (refund) {
+        try {
+          const { invoiceService } = await import('./services/invoiceService');
+          await invoiceService.creditRefund(id, refund.amount / 100, reason || 'Refund', refund.id);
+        } catch (error) {
+          console.error('Failed to issue credit note:', error);
+        }
+      }
+
+      // Send refund notification and receipt to customer
+      try {
+        const customer = await storage.getUser(order.retailerId);
+        const wholesaler = await storage.getUser(order.wholesalerId);
+        
+        if (customer?.email && wholesaler) {
+          // Create Stripe credit note for professional refund receipt
+          await createStripeRefundReceipt(order, refund, wholesaler, customer, reason);
+          
+          // Also send custom refund receipt email
+          await sendRefundReceipt(customer, order, refund, wholesaler, reason);
+          console.log(`Refund receipt sent to ${customer.email} for order ${id}`);
+        }
+      } catch (error) {
+        console.error('Failed to send refund receipt:', error);
+      }
+
+      res.json({ 
+        message: "Refund processed successfully",
+        order: updatedOrder,
+        refund: refund ? {
+          id: refund.id,
+          amount: refund.amount / 100,
+          status: refund.status
+        } : null,
+        stockRestored: refund && refund.amount >= parseFloat(order.total) * 100
+      });
+    } catch (error) {
+      console.error("Error processing refund:", error);
+      res.status(500).json({ message: "Failed to process refund" });
+    }
+  });
+
+  // Returns (RMA) - wholesaler side of the workflow
+  app.get('/api/returns', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = req.query.status as string | undefined;
+
+      const returns = await storage.getReturnRequests(targetUserId, status);
+      res.json(returns);
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  app.get('/api/returns/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      res.json(returnRequest);
+    } catch (error) {
+      console.error("Error fetching return:", error);
+      res.status(500).json({ message: "Failed to fetch return" });
+    }
+  });
+
+  // Approve a return - the customer can now send the goods back
+  app.post('/api/returns/:id/approve', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { notes } = req.body;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      try {
+        const updated = await returnService.approve(returnRequest, notes);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating return:", error);
+      res.status(500).json({ message: "Failed to update return" });
+    }
+  });
+
+  // Reject a return request
+  app.post('/api/returns/:id/reject', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { notes } = req.body;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      try {
+        const updated = await returnService.reject(returnRequest, notes);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating return:", error);
+      res.status(500).json({ message: "Failed to update return" });
+    }
+  });
+
+  // Goods have arrived back at the warehouse
+  app.post('/api/returns/:id/receive', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      try {
+        const updated = await returnService.markReceived(returnRequest);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating return:", error);
+      res.status(500).json({ message: "Failed to update return" });
+    }
+  });
+
+  // Inspect each returned line as restock, write-off or not accepted
+  app.post('/api/returns/:id/inspect', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { lines } = req.body;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      if (!Array.isArray(lines) || lines.some((line: any) => !['restock', 'write_off', 'rejected'].includes(line.outcome))) {
+        return res.status(400).json({ message: "Each returned line needs an outcome of restock, write_off or rejected" });
+      }
+
+      const { returnService } = await import('./services/returnService');
+      try {
+        const updated = await returnService.inspect(
+          returnRequest,
+          lines.map((line: any) => ({ itemId: parseInt(line.itemId), outcome: line.outcome, notes: line.notes }))
+        );
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating return:", error);
+      res.status(500).json({ message: "Failed to update return" });
+    }
+  });
+
+  // Refund the accepted lines of an inspected return
+  app.post('/api/returns/:id/refund', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      if (!returnRequest || returnRequest.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+
+      if (returnRequest.status !== 'inspected') {
+        return res.status(400).json({ message: "Only inspected returns can be refunded" });
+      }
+
+      const order = await storage.getOrder(returnRequest.orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const refundAmount = parseFloat(returnRequest.refundAmount || '0');
+      if (refundAmount > 0 && order.paymentMethod !== 'account' && (!stripe || !order.stripePaymentIntentId)) {
+        return res.status(400).json({ message: "No payment information found for this order" });
+      }
+
+      // Claim the return before any money moves, so a double click or a second request can't refund it again
+      const claimed = await storage.transitionReturnRequest(returnRequest.id, 'inspected', 'refunding');
+      if (!claimed) {
+        return res.status(400).json({ message: "This return is already being refunded" });
+      }
+
+      // Card orders are refunded through Stripe; on-account orders are credited against the account
+      let refund = null;
+      if (refundAmount > 0 && order.paymentMethod !== 'account') {
+        try {
+          const paymentIntent = await stripe!.paymentIntents.retrieve(order.stripePaymentIntentId!);
+          refund = await stripe!.refunds.create({
+            payment_intent: paymentIntent.id,
+            amount: Math.round(refundAmount * 100),
+            reason: 'requested_by_customer',
+            // Destination charges: take the refund back from the wholesaler's transfer too
+            reverse_transfer: !!paymentIntent.transfer_data,
+            metadata: {
+              order_id: order.id.toString(),
+              return_id: returnRequest.id.toString(),
+              reason: `Return ${returnRequest.returnNumber}`
+            }
+          }, {
+            idempotencyKey: `return_refund_${returnRequest.id}`
+          });
+        } catch (stripeError: any) {
+          console.error('Stripe refund failed:', stripeError);
+          await storage.transitionReturnRequest(returnRequest.id, 'refunding', 'inspected');
+          return res.status(400).json({ 
+            message: `Refund failed: ${stripeError.message}`,
+            error: stripeError.code 
+          });
+        }
+      }
+      if (refundAmount > 0 && order.paymentMethod === 'account') {
+        try {
+          await storage.creditAccountOrder(order.id, refundAmount);
+        } catch (creditError) {
+          await storage.transitionReturnRequest(returnRequest.id, 'refunding', 'inspected');
+          throw creditError;
+        }
+      }
+
+      const { returnService } = await import('./services/returnService');
+      const updated = await returnService.recordRefund({ ...returnRequest, ...claimed }, refund?.id || null);
+
+      try {
+        const { invoiceService } = await import('./services/invoiceService');
+        await invoiceService.creditReturn(returnRequest, refund?.id || null);
+      } catch (error) {
+        console.error('Failed to issue credit note for return:', error);
+      }
+
+      const refundNote = `Return ${returnRequest.returnNumber} refunded: £${refundAmount.toFixed(2)}${refund ? '' : ' (credited to account)'}`;
+      await storage.updateOrderNotes(order.id, (order.notes ? order.notes + '\n' : '') + refundNote);
+
+      res.json({
+        returnRequest: updated,
+        refund: refund ? { id: refund.id, amount: refund.amount / 100, status: refund.status } : null
+      });
+    } catch (error) {
+      console.error("Error refunding return:", error);
+      res.status(500).json({ message: "Failed to refund return" });
+    }
+  });
+
+  // Negotiation inbox - wholesaler responses to marketplace price offers
+  app.get('/api/negotiations', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = req.query.status as string | undefined;
+
+      const negotiations = await storage.getWholesalerNegotiations(targetUserId, status);
+      res.json(negotiations);
+    } catch (error) {
+      console.error("Error fetching negotiations:", error);
+      res.status(500).json({ message: "Failed to fetch negotiations" });
+    }
+  });
+
+  app.get('/api/negotiations/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.getWholesalerNegotiation(parseInt(req.params.id), targetUserId);
+      if (!negotiation) {
+        return res.status(404).json({ message: "Negotiation not found" });
+      }
+
+      res.json(negotiation);
+    } catch (error) {
+      console.error("Error fetching negotiation:", error);
+      res.status(500).json({ message: "Failed to fetch negotiation" });
+    }
+  });
+
+  // Accept the buyer's offer - locks the price for checkout
+  app.post('/api/negotiations/:id/accept', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { message } = req.body;
+
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.getWholesalerNegotiation(parseInt(req.params.id), targetUserId);
+      if (!negotiation) {
+        return res.status(404).json({ message: "Negotiation not found" });
+      }
+
+      try {
+        const updated = await negotiationService.accept(negotiation, message);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error accepting negotiation:", error);
+      res.status(500).json({ message: "Failed to accept negotiation" });
+    }
+  });
+
+  app.post('/api/negotiations/:id/decline', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { message } = req.body;
+
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.getWholesalerNegotiation(parseInt(req.params.id), targetUserId);
+      if (!negotiation) {
+        return res.status(404).json({ message: "Negotiation not found" });
+      }
+
+      try {
+        const updated = await negotiationService.decline(negotiation, message);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error declining negotiation:", error);
+      res.status(500).json({ message: "Failed to decline negotiation" });
+    }
+  });
+
+  app.post('/api/negotiations/:id/counter', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { price, message } = req.body;
+
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.getWholesalerNegotiation(parseInt(req.params.id), targetUserId);
+      if (!negotiation) {
+        return res.status(404).json({ message: "Negotiation not found" });
+      }
+
+      try {
+        const updated = await negotiationService.counter(negotiation, parseFloat(price), message);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error countering negotiation:", error);
+      res.status(500).json({ message: "Failed to send counter-offer" });
+    }
+  });
+
+  // Upload image to order (wholesaler only)
+  app.post('/api/orders/:orderId/upload-image', requireAuth, async (req: any, res) => {
+    try {
+      const { orderId } = req.params;
+      
+      // Use authenticated wholesaler ID for proper data isolation
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+      
+      // Verify order belongs to this wholesaler
+      const order = await storage.getOrder(parseInt(orderId));
+      if (!order || order.wholesalerId !== wholesalerId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      
+      // Generate presigned URL for image upload
+      const { ObjectStorageService } = await import('./objectStorage.js');
+      const objectStorageService = new ObjectStorageService();
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error("❌ Error generating upload URL for order image:", error);
+      res.status(500).json({ error: "Failed to generate upload URL" });
+    }
+  });
+
+  // Serve private objects/images (for displaying uploaded images)
+  app.get("/objects/:objectPath(*)", async (req, res) => {
+    try {
+      const { ObjectStorageService } = await import('./objectStorage.js');
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      objectStorageService.downloadObject(objectFile, res);
+    } catch (error: any) {
+      console.error("Error serving object:", error);
+      if (error.name === 'ObjectNotFoundError') {
+        return res.sendStatus(404);
+      }
+      return res.sendStatus(500);
+    }
+  });
+
+  // Save uploaded image to order
+  app.post('/api/orders/:orderId/save-image', requireAuth, async (req: any, res) => {
+    try {
+      const { orderId } = req.params;
+      const { imageUrl, filename, description } = req.body;
+      
+      // Use authenticated wholesaler ID for proper data isolation
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+      
+      // Verify order belongs to this wholesaler
+      const order = await storage.getOrder(parseInt(orderId));
+      if (!order || order.wholesalerId !== wholesalerId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      
+      // Add image to order - normalize the URL for serving
+      const { ObjectStorageService } = await import('./objectStorage.js');
+      const objectStorageService = new ObjectStorageService();
+      const normalizedPath = objectStorageService.normalizeObjectEntityPath(imageUrl);
+      
+      console.log(`🔧 Image URL normalization: ${imageUrl} → ${normalizedPath}`);
+      
+      const imageEntry = {
+        id: crypto.randomUUID(),
+        url: normalizedPath, // Use normalized path for serving
+        filename: filename || 'order-image.jpg',
+        uploadedAt: new Date().toISOString(),
+        description: description || ''
+      };
+      
+      const currentImages = order.orderImages || [];
+      const updatedImages = [...currentImages, imageEntry];
+      
+      await storage.updateOrderImages(parseInt(orderId), updatedImages);
+      
+      console.log(`📸 Added image to order ${orderId}: ${filename}`);
+      
+      // Send email notification to customer about new photos
+      try {
+        // Get customer and wholesaler info for email
+        const customer = await storage.getUser(order.retailerId);
+        const wholesaler = await storage.getUser(order.wholesalerId);
+        
+        if (customer?.email && wholesaler) {
+          const { sendOrderPhotoNotificationEmail } = await import('./sendgrid-service.js');
+          
+          const customerName = customer.firstName && customer.lastName 
+            ? `${customer.firstName} ${customer.lastName}` 
+            : customer.firstName || customer.businessName || 'Customer';
+            
+          const wholesalerName = wholesaler.businessName || wholesaler.firstName || 'Your Wholesaler';
+          const orderNumber = order.orderNumber || `#${order.id}`;
+          
+          // Send photo notification email
+          await sendOrderPhotoNotificationEmail({
+            customerEmail: customer.email,
+            customerName: customerName,
+            orderNumber: orderNumber,
+            wholesalerName: wholesalerName,
+            photoCount: 1, // Single photo added
+            orderPortalUrl: `https://quikpik.app/customer/${order.wholesalerId}`
+          });
+          
+          console.log(`📧 Photo notification email sent to ${customer.email}`);
+        }
+      } catch (emailError) {
+        console.error('📧 Failed to send photo notification email:', emailError);
+        // Don't fail the whole request if email fails
+      }
+      
+      res.json({ success: true, image: imageEntry });
+    } catch (error) {
+      console.error("❌ Error saving image to order:", error);
+      res.status(500).json({ error: "Failed to save image" });
+    }
+  });
+
+  // Delete uploaded image from order
+  app.delete('/api/orders/:orderId/delete-image/:imageId', requireAuth, async (req: any, res) => {
+    try {
+      const { orderId, imageId } = req.params;
+      
+      // Use authenticated wholesaler ID for proper data isolation
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+      
+      // Verify order belongs to this wholesaler
+      const order = await storage.getOrder(parseInt(orderId));
+      if (!order || order.wholesalerId !== wholesalerId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      
+      // Remove image from order
+      const currentImages = order.orderImages || [];
+      const updatedImages = currentImages.filter(img => img.id !== imageId);
+      
+      await storage.updateOrderImages(parseInt(orderId), updatedImages);
+      
+      console.log(`🗑️ Deleted image ${imageId} from order ${orderId}`);
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("❌ Error deleting image from order:", error);
+      res.status(500).json({ error: "Failed to delete image" });
+    }
+  });
+
+  // Resend order confirmation email
+  app.post('/api/orders/:id/resend-confirmation', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.id;
+
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Only wholesaler can resend confirmation emails
+      if (order.wholesalerId !== userId) {
+        return res.status(403).json({ message: "Not authorized to resend confirmation for this order" });
+      }
+
+      const wholesaler = await storage.getUser(userId);
+      if (!wholesaler) {
+        return res.status(404).json({ message: "Wholesaler not found" });
+      }
+
+      // Send confirmation email to customer
+      try {
+        // Enrich items with product details for email
+        const enrichedItems = await Promise.all(order.items.map(async (item: any) => {
+          const product = await storage.getProduct(item.productId);
+          return {
+            ...item,
+            productName: product?.name || `Product #${item.productId}`,
+            product: product ? { name: product.name } : null
+          };
+        }));
+        
+        await sendCustomerInvoiceEmail(order.retailer, order, enrichedItems, wholesaler);
+        res.json({ message: "Confirmation email sent successfully" });
+      } catch (emailError) {
+        console.error("Email sending failed:", emailError);
+        res.status(500).json({ message: "Failed to send confirmation email" });
+      }
+    } catch (error) {
+      console.error("Error resending confirmation email:", error);
+      res.status(500).json({ message: "Failed to resend confirmation email" });
+    }
+  });
+
+  // Real-time inventory monitoring routes
+  app.get('/api/inventory/status', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { includeAlerts = 'true' } = req.query;
+      
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : userId;
+      
+      const inventoryStatus = await storage.getInventoryStatus(targetUserId);
+      
+      if (includeAlerts === 'true') {
+        const stockAlerts = await storage.getStockAlerts(targetUserId);
+        (inventoryStatus as any).alerts = stockAlerts;
+      }
+      
+      res.json(inventoryStatus);
+    } catch (error) {
+      console.error("Error fetching inventory status:", error);
+      res.status(500).json({ message: "Failed to fetch inventory status" });
+    }
+  });
+
+  app.get('/api/inventory/alerts', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { unreadOnly = 'false' } = req.query;
+      
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : userId;
+      
+      const alerts = await storage.getStockAlerts(targetUserId, unreadOnly === 'true');
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching stock alerts:", error);
+      res.status(500).json({ message: "Failed to fetch stock alerts" });
+    }
+  });
+
+  app.post('/api/inventory/alerts/:id/mark-read', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const alertId = parseInt(req.params.id);
+      
+      await storage.markStockAlertAsRead(alertId, userId);
+      res.json({ message: "Alert marked as read" });
+    } catch (error) {
+      console.error("Error marking alert as read:", error);
+      res.status(500).json({ message: "Failed to mark alert as read" });
+    }
+  });
+
+  app.post('/api/inventory/alerts/:id/resolve', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const alertId = parseInt(req.params.id);
+      
+      await storage.resolveStockAlert(alertId, userId);
+      res.json({ message: "Alert resolved" });
+    } catch (error) {
+      console.error("Error resolving alert:", error);
+      res.status(500).json({ message: "Failed to resolve alert" });
+    }
+  });
+
+  app.get('/api/products/:id/stock-status', async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getProduct(productId);
       
-      // Use authenticated wholesaler ID for proper data isolation
-      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
-        ? req.user.wholesalerId 
-        : req.user.id;
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
       
-      // Verify order belongs to this wholesaler
-      const order = await storage.getOrder(parseInt(orderId));
-      if (!order || order.wholesalerId !== wholesalerId) {
-        return res.status(404).json({ error: "Order not found" });
+      const stockStatus = await storage.getProductStockStatus(productId);
+      res.json(stockStatus);
+    } catch (error) {
+      console.error("Error fetching product stock status:", error);
+      res.status(500).json({ message: "Failed to fetch stock status" });
+    }
+  });
+
+  // Stock Movement routes
+  app.get('/api/products/:id/stock-movements', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const productId = parseInt(req.params.id);
+      
+      // Verify the user owns this product
+      const product = await storage.getProduct(productId);
+      if (!product || product.wholesalerId !== userId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      const movements = await storage.getStockMovements(productId);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.get('/api/products/:id/stock-summary', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const productId = parseInt(req.params.id);
+      
+      // Verify the user owns this product
+      const product = await storage.getProduct(productId);
+      if (!product || product.wholesalerId !== userId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      const summary = await storage.getStockSummary(productId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching stock summary:", error);
+      res.status(500).json({ message: "Failed to fetch stock summary" });
+    }
+  });
+
+  app.post('/api/products/:id/stock-adjustment', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const productId = parseInt(req.params.id);
+      const { adjustmentType, quantity, reason } = req.body;
+      
+      if (!adjustmentType || !quantity || !reason) {
+        return res.status(400).json({ message: "Adjustment type, quantity, and reason are required" });
+      }
+      
+      // Verify the user owns this product
+      const product = await storage.getProduct(productId);
+      if (!product || product.wholesalerId !== userId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      const stockBefore = product.stock;
+      let stockAfter: number;
+      let movementQuantity: number;
+      let movementType: string;
+      
+      if (adjustmentType === 'increase') {
+        stockAfter = stockBefore + parseInt(quantity);
+        movementQuantity = parseInt(quantity);
+        movementType = 'manual_increase';
+      } else if (adjustmentType === 'decrease') {
+        stockAfter = Math.max(0, stockBefore - parseInt(quantity));
+        movementQuantity = -(parseInt(quantity));
+        movementType = 'manual_decrease';
+      } else {
+        return res.status(400).json({ message: "Invalid adjustment type" });
+      }
+      
+      // Update product stock
+      await storage.updateProduct(productId, { stock: stockAfter });
+      
+      // Create stock movement record
+      await storage.createStockMovement({
+        productId,
+        wholesalerId: userId,
+        movementType,
+        quantity: movementQuantity,
+        stockBefore,
+        stockAfter,
+        reason,
+        orderId: null,
+        customerName: null,
+      });
+
+      // New stock goes to customers waiting on backorders before it is sold again
+      let backordersReleased: { orderId: number; orderNumber: string; orderItemId: number; quantity: number }[] = [];
+      if (adjustmentType === 'increase') {
+        const { fulfilmentService } = await import('./services/fulfilmentService');
+        backordersReleased = await fulfilmentService.releaseBackorders(productId);
+      }
+      
+      res.json({ 
+        success: true, 
+        stockBefore, 
+        stockAfter, 
+        backordersReleased,
+        message: `Stock ${adjustmentType}d by ${quantity} units` 
+      });
+    } catch (error) {
+      console.error("Error adjusting stock:", error);
+      res.status(500).json({ message: "Failed to adjust stock" });
+    }
+  });
+
+  app.get('/api/stock-movements', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const limit = parseInt(req.query.limit as string) || 50;
+      
+      const movements = await storage.getStockMovementsByWholesaler(userId, limit);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Suppliers and purchase orders - inbound stock
+  app.get('/api/suppliers', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const supplierList = await storage.getSuppliers(targetUserId);
+      res.json(supplierList);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post('/api/suppliers', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { name, contactName, email, phone, address, notes } = req.body;
+
+      if (!name?.trim()) {
+        return res.status(400).json({ message: "Supplier name is required" });
+      }
+
+      const supplier = await storage.createSupplier({
+        wholesalerId: targetUserId,
+        name: name.trim(),
+        contactName: contactName || null,
+        email: email || null,
+        phone: phone || null,
+        address: address || null,
+        notes: notes || null
+      });
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.patch('/api/suppliers/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const supplier = await storage.getSupplier(parseInt(req.params.id));
+      if (!supplier || supplier.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+
+      const { name, contactName, email, phone, address, notes, isActive } = req.body;
+      const updated = await storage.updateSupplier(supplier.id, {
+        ...(name !== undefined && { name }),
+        ...(contactName !== undefined && { contactName }),
+        ...(email !== undefined && { email }),
+        ...(phone !== undefined && { phone }),
+        ...(address !== undefined && { address }),
+        ...(notes !== undefined && { notes }),
+        ...(isActive !== undefined && { isActive: Boolean(isActive) })
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  app.get('/api/purchase-orders', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = req.query.status as string | undefined;
+
+      const purchaseOrderList = await storage.getPurchaseOrders(targetUserId, status);
+      res.json(purchaseOrderList);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get('/api/purchase-orders/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder || purchaseOrder.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.json(purchaseOrder);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { supplierId, lines, expectedDeliveryDate, notes, warehouseId } = req.body;
+
+      if (!supplierId || !Array.isArray(lines)) {
+        return res.status(400).json({ message: "Supplier and lines are required" });
+      }
+
+      const { purchaseOrderService } = await import('./services/purchaseOrderService');
+      try {
+        const purchaseOrder = await purchaseOrderService.createPurchaseOrder(
+          targetUserId,
+          parseInt(supplierId),
+          lines.map((line: any) => ({
+            productId: parseInt(line.productId),
+            quantity: parseInt(line.quantity) || 0,
+            unitType: line.unitType,
+            unitCost: parseFloat(line.unitCost)
+          })),
+          {
+            expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : null,
+            notes,
+            warehouseId: warehouseId ? parseInt(warehouseId) : null
+          }
+        );
+        res.json(purchaseOrder);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  // Mark a draft purchase order as sent to the supplier
+  app.post('/api/purchase-orders/:id/order', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder || purchaseOrder.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const { purchaseOrderService } = await import('./services/purchaseOrderService');
+      try {
+        const updated = await purchaseOrderService.markOrdered(purchaseOrder);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/cancel', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder || purchaseOrder.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const { purchaseOrderService } = await import('./services/purchaseOrderService');
+      try {
+        const updated = await purchaseOrderService.cancel(purchaseOrder);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Goods received - books stock in and records unit costs
+  app.post('/api/purchase-orders/:id/receive', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { lines } = req.body;
+
+      if (!Array.isArray(lines)) {
+        return res.status(400).json({ message: "Received lines are required" });
+      }
+
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder || purchaseOrder.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const { purchaseOrderService } = await import('./services/purchaseOrderService');
+      try {
+        const updated = await purchaseOrderService.receive(
+          purchaseOrder,
+          lines.map((line: any) => ({
+            itemId: parseInt(line.itemId),
+            quantity: parseInt(line.quantity) || 0,
+            batchCode: line.batchCode || null,
+            expiryDate: line.expiryDate ? new Date(line.expiryDate) : null
+          }))
+        );
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  // Batch/lot tracking routes
+  app.get('/api/stock-lots', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const lots = await storage.getStockLots(targetUserId, {
+        productId: req.query.productId ? parseInt(req.query.productId as string) : undefined,
+        includeEmpty: req.query.includeEmpty === 'true'
+      });
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching stock lots:", error);
+      res.status(500).json({ message: "Failed to fetch batches" });
+    }
+  });
+
+  app.post('/api/stock-lots', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { productId, batchCode, expiryDate, quantity, unitType, addToStock } = req.body;
+
+      const { stockLotService } = await import('./services/stockLotService');
+      try {
+        const lot = await stockLotService.addLot(targetUserId, {
+          productId: parseInt(productId),
+          batchCode,
+          expiryDate: expiryDate ? new Date(expiryDate) : null,
+          quantity: parseInt(quantity),
+          unitType,
+          addToStock: Boolean(addToStock)
+        });
+        res.json(lot);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error creating stock lot:", error);
+      res.status(500).json({ message: "Failed to record batch" });
+    }
+  });
+
+  app.post('/api/stock-lots/:id/write-off', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const lot = await storage.getStockLot(parseInt(req.params.id));
+      if (!lot || lot.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Batch not found" });
       }
-      
-      // Add image to order - normalize the URL for serving
-      const { ObjectStorageService } = await import('./objectStorage.js');
-      const objectStorageService = new ObjectStorageService();
-      const normalizedPath = objectStorageService.normalizeObjectEntityPath(imageUrl);
-      
-      console.log(`🔧 Image URL normalization: ${imageUrl} → ${normalizedPath}`);
-      
-      const imageEntry = {
-        id: crypto.randomUUID(),
-        url: normalizedPath, // Use normalized path for serving
-        filename: filename || 'order-image.jpg',
-        uploadedAt: new Date().toISOString(),
-        description: description || ''
-      };
-      
-      const currentImages = order.orderImages || [];
-      const updatedImages = [...currentImages, imageEntry];
-      
-      await storage.updateOrderImages(parseInt(orderId), updatedImages);
-      
-      console.log(`📸 Added image to order ${orderId}: ${filename}`);
-      
-      // Send email notification to customer about new photos
+
+      const { stockLotService } = await import('./services/stockLotService');
       try {
-        // Get customer and wholesaler info for email
-        const customer = await storage.getUser(order.retailerId);
-        const wholesaler = await storage.getUser(order.wholesalerId);
-        
-        if (customer?.email && wholesaler) {
-          const { sendOrderPhotoNotificationEmail } = await import('./sendgrid-service.js');
-          
-          const customerName = customer.firstName && customer.lastName 
-            ? `${customer.firstName} ${customer.lastName}` 
-            : customer.firstName || customer.businessName || 'Customer';
-            
-          const wholesalerName = wholesaler.businessName || wholesaler.firstName || 'Your Wholesaler';
-          const orderNumber = order.orderNumber || `#${order.id}`;
-          
-          // Send photo notification email
-          await sendOrderPhotoNotificationEmail({
-            customerEmail: customer.email,
-            customerName: customerName,
-            orderNumber: orderNumber,
-            wholesalerName: wholesalerName,
-            photoCount: 1, // Single photo added
-            orderPortalUrl: `https://quikpik.app/customer/${order.wholesalerId}`
-          });
-          
-          console.log(`📧 Photo notification email sent to ${customer.email}`);
-        }
-      } catch (emailError) {
-        console.error('📧 Failed to send photo notification email:', emailError);
-        // Don't fail the whole request if email fails
+        const updated = await stockLotService.writeOff(lot, parseInt(req.body.quantity), req.body.reason);
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
-      
-      res.json({ success: true, image: imageEntry });
     } catch (error) {
-      console.error("❌ Error saving image to order:", error);
-      res.status(500).json({ error: "Failed to save image" });
+      console.error("Error writing off stock lot:", error);
+      res.status(500).json({ message: "Failed to write off batch" });
     }
   });
 
-  // Delete uploaded image from order
-  app.delete('/api/orders/:orderId/delete-image/:imageId', requireAuth, async (req: any, res) => {
+  // Recall traceability: every order a batch was shipped on
+  app.get('/api/stock-lots/:id/orders', requireAuth, async (req: any, res) => {
     try {
-      const { orderId, imageId } = req.params;
-      
-      // Use authenticated wholesaler ID for proper data isolation
-      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
-        ? req.user.wholesalerId 
-        : req.user.id;
-      
-      // Verify order belongs to this wholesaler
-      const order = await storage.getOrder(parseInt(orderId));
-      if (!order || order.wholesalerId !== wholesalerId) {
-        return res.status(404).json({ error: "Order not found" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const lot = await storage.getStockLot(parseInt(req.params.id));
+      if (!lot || lot.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Batch not found" });
       }
-      
-      // Remove image from order
-      const currentImages = order.orderImages || [];
-      const updatedImages = currentImages.filter(img => img.id !== imageId);
-      
-      await storage.updateOrderImages(parseInt(orderId), updatedImages);
-      
-      console.log(`🗑️ Deleted image ${imageId} from order ${orderId}`);
-      
-      res.json({ success: true });
+
+      res.json(await storage.getStockLotAllocations(lot.id));
     } catch (error) {
-      console.error("❌ Error deleting image from order:", error);
-      res.status(500).json({ error: "Failed to delete image" });
+      console.error("Error fetching batch orders:", error);
+      res.status(500).json({ message: "Failed to fetch batch orders" });
     }
   });
 
-  // Resend order confirmation email
-  app.post('/api/orders/:id/resend-confirmation', requireAuth, async (req: any, res) => {
+  app.get('/api/orders/:id/batches', requireAuth, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const userId = req.user.id;
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
 
-      const order = await storage.getOrder(id);
-      if (!order) {
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order || order.wholesalerId !== targetUserId) {
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // Only wholesaler can resend confirmation emails
-      if (order.wholesalerId !== userId) {
-        return res.status(403).json({ message: "Not authorized to resend confirmation for this order" });
+      res.json(await storage.getOrderItemLots(order.id));
+    } catch (error) {
+      console.error("Error fetching order batches:", error);
+      res.status(500).json({ message: "Failed to fetch order batches" });
+    }
+  });
+
+  // Warehouse (stock location) routes
+  app.get('/api/warehouses', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getWarehouses(targetUserId));
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+      res.status(500).json({ message: "Failed to fetch warehouses" });
+    }
+  });
+
+  app.post('/api/warehouses', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { name, addressLine1, city, postcode, allowCollection, collectionInstructions } = req.body;
+
+      const { warehouseService } = await import('./services/warehouseService');
+      try {
+        const warehouse = await warehouseService.createWarehouse(targetUserId, {
+          name, addressLine1, city, postcode, allowCollection, collectionInstructions
+        });
+        res.json(warehouse);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
+    } catch (error) {
+      console.error("Error creating warehouse:", error);
+      res.status(500).json({ message: "Failed to create warehouse" });
+    }
+  });
 
-      const wholesaler = await storage.getUser(userId);
-      if (!wholesaler) {
-        return res.status(404).json({ message: "Wholesaler not found" });
+  app.patch('/api/warehouses/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const warehouse = await storage.getWarehouse(parseInt(req.params.id));
+      if (!warehouse || warehouse.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Warehouse not found" });
       }
 
-      // Send confirmation email to customer
+      const { name, addressLine1, city, postcode, allowCollection, collectionInstructions, isActive } = req.body;
+      const { warehouseService } = await import('./services/warehouseService');
       try {
-        // Enrich items with product details for email
-        const enrichedItems = await Promise.all(order.items.map(async (item: any) => {
-          const product = await storage.getProduct(item.productId);
-          return {
-            ...item,
-            productName: product?.name || `Product #${item.productId}`,
-            product: product ? { name: product.name } : null
-          };
-        }));
-        
-        await sendCustomerInvoiceEmail(order.retailer, order, enrichedItems, wholesaler);
-        res.json({ message: "Confirmation email sent successfully" });
-      } catch (emailError) {
-        console.error("Email sending failed:", emailError);
-        res.status(500).json({ message: "Failed to send confirmation email" });
+        const updated = await warehouseService.updateWarehouse(warehouse, {
+          name, addressLine1, city, postcode, allowCollection, collectionInstructions, isActive
+        });
+        res.json(updated);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
     } catch (error) {
-      console.error("Error resending confirmation email:", error);
-      res.status(500).json({ message: "Failed to resend confirmation email" });
+      console.error("Error updating warehouse:", error);
+      res.status(500).json({ message: "Failed to update warehouse" });
     }
   });
 
-  // Real-time inventory monitoring routes
-  app.get('/api/inventory/status', requireAuth, async (req: any, res) => {
+  app.post('/api/warehouses/:id/default', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { includeAlerts = 'true' } = req.query;
-      
-      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId 
-        ? req.user.wholesalerId 
-        : userId;
-      
-      const inventoryStatus = await storage.getInventoryStatus(targetUserId);
-      
-      if (includeAlerts === 'true') {
-        const stockAlerts = await storage.getStockAlerts(targetUserId);
-        (inventoryStatus as any).alerts = stockAlerts;
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const warehouse = await storage.getWarehouse(parseInt(req.params.id));
+      if (!warehouse || warehouse.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Warehouse not found" });
       }
-      
-      res.json(inventoryStatus);
+
+      res.json(await storage.setDefaultWarehouse(targetUserId, warehouse.id));
     } catch (error) {
-      console.error("Error fetching inventory status:", error);
-      res.status(500).json({ message: "Failed to fetch inventory status" });
+      console.error("Error setting default warehouse:", error);
+      res.status(500).json({ message: "Failed to set default warehouse" });
     }
   });
 
-  app.get('/api/inventory/alerts', requireAuth, async (req: any, res) => {
+  app.get('/api/warehouse-stock', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { unreadOnly = 'false' } = req.query;
-      
-      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId 
-        ? req.user.wholesalerId 
-        : userId;
-      
-      const alerts = await storage.getStockAlerts(targetUserId, unreadOnly === 'true');
-      res.json(alerts);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const productIds = req.query.productId ? [parseInt(req.query.productId as string)] : undefined;
+      res.json(await storage.getWarehouseStockLevels(targetUserId, productIds));
+    } catch (error) {
+      console.error("Error fetching warehouse stock:", error);
+      res.status(500).json({ message: "Failed to fetch warehouse stock" });
+    }
+  });
+
+  app.post('/api/warehouse-transfers', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { productId, fromWarehouseId, toWarehouseId, quantity, unitType, reason } = req.body;
+
+      const { warehouseService } = await import('./services/warehouseService');
+      try {
+        const result = await warehouseService.transfer(targetUserId, {
+          productId: parseInt(productId),
+          fromWarehouseId: parseInt(fromWarehouseId),
+          toWarehouseId: parseInt(toWarehouseId),
+          quantity: parseInt(quantity),
+          unitType,
+          reason
+        });
+        res.json(result);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error transferring stock:", error);
+      res.status(500).json({ message: "Failed to transfer stock" });
+    }
+  });
+
+  // Price history and dynamic pricing approval routes
+  app.get('/api/products/:id/price-history', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product || product.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json(await storage.getProductPriceHistory(product.id));
+    } catch (error) {
+      console.error("Error fetching price history:", error);
+      res.status(500).json({ message: "Failed to fetch price history" });
+    }
+  });
+
+  app.put('/api/products/:id/price-guardrails', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product || product.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const { priceChangeService } = await import('./services/priceChangeService');
+      try {
+        res.json(await priceChangeService.setGuardrails(product, req.body.priceFloor, req.body.priceCeiling));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating price guardrails:", error);
+      res.status(500).json({ message: "Failed to update price guardrails" });
+    }
+  });
+
+  app.get('/api/price-changes', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = req.query.status as string | undefined;
+      res.json(await storage.getPriceChangeBatches(targetUserId, status));
+    } catch (error) {
+      console.error("Error fetching price changes:", error);
+      res.status(500).json({ message: "Failed to fetch price changes" });
+    }
+  });
+
+  app.post('/api/price-changes', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { strategy } = req.body;
+
+      const strategies = ['profit_optimization', 'market_penetration', 'inventory_clearance', 'demand_based'];
+      if (!strategies.includes(strategy)) {
+        return res.status(400).json({ message: "Choose a pricing strategy" });
+      }
+
+      const { dynamicPricingService } = await import('./services/dynamicPricingService');
+      let batchId: number | null;
+      if (strategy === 'demand_based') {
+        ({ batchId } = await dynamicPricingService.implementDemandBasedPricing(targetUserId));
+      } else {
+        batchId = (await dynamicPricingService.queuePricingStrategy(targetUserId, strategy))?.id ?? null;
+      }
+
+      res.json(batchId ? await storage.getPriceChangeBatch(batchId) : null);
+    } catch (error) {
+      console.error("Error generating price changes:", error);
+      res.status(500).json({ message: "Failed to generate price changes" });
+    }
+  });
+
+  app.post('/api/price-changes/:id/:action', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { action } = req.params;
+      if (!['approve', 'reject', 'rollback'].includes(action)) {
+        return res.status(404).json({ message: "Unknown action" });
+      }
+
+      const batch = await storage.getPriceChangeBatch(parseInt(req.params.id));
+      if (!batch || batch.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price change batch not found" });
+      }
+
+      const { priceChangeService } = await import('./services/priceChangeService');
+      try {
+        if (action === 'approve') {
+          const proposalIds = Array.isArray(req.body?.proposalIds) ? req.body.proposalIds.map((id: any) => parseInt(id)) : undefined;
+          return res.json(await priceChangeService.approve(batch, req.user.id, proposalIds));
+        }
+        if (action === 'reject') {
+          return res.json(await priceChangeService.reject(batch, req.user.id));
+        }
+        res.json(await priceChangeService.rollback(batch, req.user.id));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error reviewing price changes:", error);
+      res.status(500).json({ message: "Failed to update price changes" });
+    }
+  });
+
+  // Price list (contract pricing) routes
+  app.get('/api/price-lists', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const lists = await storage.getPriceLists(targetUserId);
+      res.json(lists);
     } catch (error) {
-      console.error("Error fetching stock alerts:", error);
-      res.status(500).json({ message: "Failed to fetch stock alerts" });
+      console.error("Error fetching price lists:", error);
+      res.status(500).json({ message: "Failed to fetch price lists" });
     }
   });
 
-  app.post('/api/inventory/alerts/:id/mark-read', requireAuth, async (req: any, res) => {
+  app.get('/api/price-lists/:id', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const alertId = parseInt(req.params.id);
-      
-      await storage.markStockAlertAsRead(alertId, userId);
-      res.json({ message: "Alert marked as read" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const priceList = await storage.getPriceList(parseInt(req.params.id));
+      if (!priceList || priceList.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      res.json(priceList);
     } catch (error) {
-      console.error("Error marking alert as read:", error);
-      res.status(500).json({ message: "Failed to mark alert as read" });
+      console.error("Error fetching price list:", error);
+      res.status(500).json({ message: "Failed to fetch price list" });
     }
   });
 
-  app.post('/api/inventory/alerts/:id/resolve', requireAuth, async (req: any, res) => {
+  app.post('/api/price-lists', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const alertId = parseInt(req.params.id);
-      
-      await storage.resolveStockAlert(alertId, userId);
-      res.json({ message: "Alert resolved" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const priceListData = insertPriceListSchema.parse({
+        ...req.body,
+        wholesalerId: targetUserId
+      });
+      const priceList = await storage.createPriceList(priceListData);
+      res.json(priceList);
     } catch (error) {
-      console.error("Error resolving alert:", error);
-      res.status(500).json({ message: "Failed to resolve alert" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price list data", errors: error.errors });
+      }
+      console.error("Error creating price list:", error);
+      res.status(500).json({ message: "Failed to create price list" });
     }
   });
 
-  app.get('/api/products/:id/stock-status', async (req, res) => {
+  app.patch('/api/price-lists/:id', requireAuth, async (req: any, res) => {
     try {
-      const productId = parseInt(req.params.id);
-      const product = await storage.getProduct(productId);
-      
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const priceListId = parseInt(req.params.id);
+
+      const existing = await storage.getPriceList(priceListId);
+      if (!existing || existing.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price list not found" });
       }
-      
-      const stockStatus = await storage.getProductStockStatus(productId);
-      res.json(stockStatus);
+
+      const updates = insertPriceListSchema.partial().omit({ wholesalerId: true }).parse(req.body);
+      const priceList = await storage.updatePriceList(priceListId, updates);
+      res.json(priceList);
     } catch (error) {
-      console.error("Error fetching product stock status:", error);
-      res.status(500).json({ message: "Failed to fetch stock status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price list data", errors: error.errors });
+      }
+      console.error("Error updating price list:", error);
+      res.status(500).json({ message: "Failed to update price list" });
     }
   });
 
-  // Stock Movement routes
-  app.get('/api/products/:id/stock-movements', requireAuth, async (req: any, res) => {
+  app.delete('/api/price-lists/:id', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const productId = parseInt(req.params.id);
-      
-      // Verify the user owns this product
-      const product = await storage.getProduct(productId);
-      if (!product || product.wholesalerId !== userId) {
-        return res.status(404).json({ message: "Product not found" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const priceListId = parseInt(req.params.id);
+
+      const existing = await storage.getPriceList(priceListId);
+      if (!existing || existing.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price list not found" });
       }
-      
-      const movements = await storage.getStockMovements(productId);
-      res.json(movements);
+
+      await storage.deletePriceList(priceListId);
+      res.json({ message: "Price list deleted" });
     } catch (error) {
-      console.error("Error fetching stock movements:", error);
-      res.status(500).json({ message: "Failed to fetch stock movements" });
+      console.error("Error deleting price list:", error);
+      res.status(500).json({ message: "Failed to delete price list" });
     }
   });
 
-  app.get('/api/products/:id/stock-summary', requireAuth, async (req: any, res) => {
+  // Replace the per-product prices on a price list
+  app.put('/api/price-lists/:id/items', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const productId = parseInt(req.params.id);
-      
-      // Verify the user owns this product
-      const product = await storage.getProduct(productId);
-      if (!product || product.wholesalerId !== userId) {
-        return res.status(404).json({ message: "Product not found" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const priceListId = parseInt(req.params.id);
+
+      const existing = await storage.getPriceList(priceListId);
+      if (!existing || existing.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price list not found" });
       }
-      
-      const summary = await storage.getStockSummary(productId);
-      res.json(summary);
+
+      const itemsSchema = z.array(insertPriceListItemSchema.omit({ priceListId: true }).refine(
+        item => item.unitPrice != null || item.palletPrice != null || item.discountPercentage != null,
+        { message: "Each item needs a unit price, pallet price or discount percentage" }
+      ));
+      const items = itemsSchema.parse(req.body.items || []);
+
+      // Only allow the wholesaler's own products on their price list
+      const ownProducts = await storage.getProducts(targetUserId);
+      const ownProductIds = new Set(ownProducts.map(p => p.id));
+      const invalidItem = items.find(item => !ownProductIds.has(item.productId));
+      if (invalidItem) {
+        return res.status(400).json({ message: `Product ${invalidItem.productId} not found` });
+      }
+
+      const savedItems = await storage.replacePriceListItems(priceListId, items);
+      console.log(`💷 Price list ${priceListId} updated with ${savedItems.length} product prices`);
+      res.json(savedItems);
     } catch (error) {
-      console.error("Error fetching stock summary:", error);
-      res.status(500).json({ message: "Failed to fetch stock summary" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price list items", errors: error.errors });
+      }
+      console.error("Error updating price list items:", error);
+      res.status(500).json({ message: "Failed to update price list items" });
     }
   });
 
-  app.post('/api/products/:id/stock-adjustment', requireAuth, async (req: any, res) => {
+  // Assign a price list to a customer or customer group
+  app.post('/api/price-lists/:id/assignments', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const productId = parseInt(req.params.id);
-      const { adjustmentType, quantity, reason } = req.body;
-      
-      if (!adjustmentType || !quantity || !reason) {
-        return res.status(400).json({ message: "Adjustment type, quantity, and reason are required" });
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const priceListId = parseInt(req.params.id);
+      const { customerId, customerGroupId } = req.body;
+
+      const existing = await storage.getPriceList(priceListId);
+      if (!existing || existing.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Price list not found" });
       }
-      
-      // Verify the user owns this product
-      const product = await storage.getProduct(productId);
-      if (!product || product.wholesalerId !== userId) {
-        return res.status(404).json({ message: "Product not found" });
+
+      if (!customerId === !customerGroupId) {
+        return res.status(400).json({ message: "Provide either a customerId or a customerGroupId" });
       }
-      
-      const stockBefore = product.stock;
-      let stockAfter: number;
-      let movementQuantity: number;
-      let movementType: string;
-      
-      if (adjustmentType === 'increase') {
-        stockAfter = stockBefore + parseInt(quantity);
-        movementQuantity = parseInt(quantity);
-        movementType = 'manual_increase';
-      } else if (adjustmentType === 'decrease') {
-        stockAfter = Math.max(0, stockBefore - parseInt(quantity));
-        movementQuantity = -(parseInt(quantity));
-        movementType = 'manual_decrease';
+
+      if (customerGroupId) {
+        const groups = await storage.getCustomerGroups(targetUserId);
+        if (!groups.some(g => g.id === parseInt(customerGroupId))) {
+          return res.status(404).json({ message: "Customer group not found" });
+        }
       } else {
-        return res.status(400).json({ message: "Invalid adjustment type" });
+        const customers = await storage.getAllCustomers(targetUserId);
+        if (!customers.some(c => c.id === customerId)) {
+          return res.status(404).json({ message: "Customer not found" });
+        }
       }
-      
-      // Update product stock
-      await storage.updateProduct(productId, { stock: stockAfter });
-      
-      // Create stock movement record
-      await storage.createStockMovement({
-        productId,
-        wholesalerId: userId,
-        movementType,
-        quantity: movementQuantity,
-        stockBefore,
-        stockAfter,
-        reason,
-        orderId: null,
-        customerName: null,
-      });
-      
-      res.json({ 
-        success: true, 
-        stockBefore, 
-        stockAfter, 
-        message: `Stock ${adjustmentType}d by ${quantity} units` 
+
+      const assignment = await storage.createPriceListAssignment({
+        priceListId,
+        wholesalerId: targetUserId,
+        customerId: customerId || null,
+        customerGroupId: customerGroupId ? parseInt(customerGroupId) : null
       });
+      res.json(assignment);
     } catch (error) {
-      console.error("Error adjusting stock:", error);
-      res.status(500).json({ message: "Failed to adjust stock" });
+      console.error("Error assigning price list:", error);
+      res.status(500).json({ message: "Failed to assign price list" });
     }
   });
 
-  app.get('/api/stock-movements', requireAuth, async (req: any, res) => {
+  app.delete('/api/price-lists/:id/assignments/:assignmentId', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const limit = parseInt(req.query.limit as string) || 50;
-      
-      const movements = await storage.getStockMovementsByWholesaler(userId, limit);
-      res.json(movements);
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const existing = await storage.getPriceList(parseInt(req.params.id));
+      const assignmentId = parseInt(req.params.assignmentId);
+      if (!existing || existing.wholesalerId !== targetUserId || !existing.assignments.some(a => a.id === assignmentId)) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      await storage.deletePriceListAssignment(assignmentId);
+      res.json({ message: "Assignment removed" });
     } catch (error) {
-      console.error("Error fetching stock movements:", error);
-      res.status(500).json({ message: "Failed to fetch stock movements" });
+      console.error("Error removing price list assignment:", error);
+      res.status(500).json({ message: "Failed to remove price list assignment" });
     }
   });
 
@@ -6429,7 +8698,7 @@ The Quikpik Team`
       
       for (const group of customerGroups) {
         console.log(`Fetching members for group: ${group.name} (ID: ${group.id})`);
-        const members = await storage.getGroupMembers(group.id);
+        const members = await storage.getGroupMembers(group.id, targetUserId);
         console.log(`Found ${members.length} members in group ${group.name}`);
         console.log("Member data:", members.map(m => ({ firstName: m.firstName, lastName: m.lastName, phoneNumber: m.phoneNumber })));
         
@@ -6929,7 +9198,7 @@ This message was sent by Quikpik Merchant Platform
       if (search && search.trim()) {
         members = await storage.searchGroupMembers(groupId, search.trim());
       } else {
-        members = await storage.getGroupMembers(groupId);
+        members = await storage.getGroupMembers(groupId, targetUserId);
       }
       
       res.json(members);
@@ -7585,52 +9854,61 @@ This message was sent by Quikpik Merchant Platform
         ? req.user.wholesalerId 
         : req.user.id;
 
+      const scheduledFor = scheduledAt ? new Date(scheduledAt) : null;
+      if (scheduledFor && isNaN(scheduledFor.getTime())) {
+        return res.status(400).json({ message: "Invalid scheduledAt date" });
+      }
+      const isScheduled = !!scheduledFor && scheduledFor.getTime() > Date.now();
+
+      // Broadcasts only go to the wholesaler's own customers about their own products
+      const product = await storage.getProduct(parseInt(productId));
+      if (!product || product.wholesalerId !== wholesalerId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const groups = await storage.getCustomerGroups(wholesalerId);
+      if (!groups.some(g => g.id === parseInt(customerGroupId))) {
+        return res.status(404).json({ message: "Customer group not found" });
+      }
+
       // Validate the request data
       const validatedData = insertBroadcastSchema.parse({
         wholesalerId,
         productId: parseInt(productId),
         customerGroupId: parseInt(customerGroupId),
         message: customMessage || '',
-        status: 'pending',
-        sentAt: scheduledAt ? new Date(scheduledAt) : null,
+        status: isScheduled ? 'scheduled' : 'pending',
+        scheduledAt: isScheduled ? scheduledFor : null,
       });
 
       // Create broadcast record in database
       const broadcast = await storage.createBroadcast(validatedData);
 
-      // Send the broadcast via WhatsApp (simplified)
+      if (isScheduled) {
+        console.log(`🗓️ WhatsApp broadcast ${broadcast.id} scheduled for ${scheduledFor!.toISOString()}`);
+        return res.json({
+          success: true,
+          scheduled: true,
+          scheduledAt: broadcast.scheduledAt,
+          message: "Broadcast scheduled successfully",
+          broadcastId: broadcast.id
+        });
+      }
+
       console.log(`📤 WhatsApp broadcast requested for product ${productId} to group ${customerGroupId}`);
-      const result = { success: true, recipientCount: 0, messageId: `sim_${Date.now()}` };
+      const { campaignDispatchService } = await import('./services/campaignDispatchService');
+      const result = await campaignDispatchService.sendBroadcastNow(broadcast.id);
 
-      // Update broadcast status based on result
-      if (result.success) {
-        await storage.updateBroadcastStatus(
-          broadcast.id,
-          'sent',
-          new Date(),
-          result.recipientCount,
-          result.messageId
-        );
-        
+      if (result && (result.sentCount > 0 || result.failedCount === 0)) {
         res.json({
           success: true,
-          messageId: result.messageId,
+          recipientCount: result.sentCount,
           message: "Broadcast sent successfully",
           broadcastId: broadcast.id
         });
       } else {
-        await storage.updateBroadcastStatus(
-          broadcast.id,
-          'failed',
-          undefined,
-          undefined,
-          undefined,
-          (result as any).error
-        );
-        
         res.status(400).json({
           success: false,
-          error: (result as any).error,
+          error: "No messages could be delivered",
           broadcastId: broadcast.id
         });
       }
@@ -7670,6 +9948,67 @@ This message was sent by Quikpik Merchant Platform
     }
   });
 
+  app.post('/api/broadcasts/:id/cancel', requireAuth, async (req: any, res) => {
+    try {
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+
+      const broadcast = await storage.cancelBroadcast(parseInt(req.params.id), wholesalerId);
+      if (!broadcast) {
+        return res.status(409).json({ message: "Only scheduled broadcasts can be cancelled" });
+      }
+
+      res.json(broadcast);
+    } catch (error) {
+      console.error("Error cancelling broadcast:", error);
+      res.status(500).json({ message: "Failed to cancel broadcast" });
+    }
+  });
+
+  app.patch('/api/broadcasts/:id/schedule', requireAuth, async (req: any, res) => {
+    try {
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+
+      const scheduledAt = new Date(req.body.scheduledAt);
+      if (isNaN(scheduledAt.getTime()) || scheduledAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "scheduledAt must be a future date" });
+      }
+
+      const broadcast = await storage.rescheduleBroadcast(parseInt(req.params.id), wholesalerId, scheduledAt);
+      if (!broadcast) {
+        return res.status(409).json({ message: "Only scheduled or cancelled broadcasts can be rescheduled" });
+      }
+
+      res.json(broadcast);
+    } catch (error) {
+      console.error("Error rescheduling broadcast:", error);
+      res.status(500).json({ message: "Failed to reschedule broadcast" });
+    }
+  });
+
+  app.get('/api/broadcasts/:id/recipients', requireAuth, async (req: any, res) => {
+    try {
+      const wholesalerId = req.user.role === 'team_member' && req.user.wholesalerId 
+        ? req.user.wholesalerId 
+        : req.user.id;
+
+      const broadcasts = await storage.getBroadcasts(wholesalerId);
+      const broadcast = broadcasts.find(b => b.id === parseInt(req.params.id));
+      if (!broadcast) {
+        return res.status(404).json({ message: "Broadcast not found" });
+      }
+
+      const recipients = await storage.getCampaignDeliveryLog('broadcast', broadcast.id);
+      res.json(recipients);
+    } catch (error) {
+      console.error("Error fetching broadcast recipients:", error);
+      res.status(500).json({ message: "Failed to fetch broadcast recipients" });
+    }
+  });
+
   // AI description generation
   app.post('/api/ai/generate-description', requireAuth, async (req: any, res) => {
     try {
@@ -8108,8 +10447,15 @@ Write a professional, sales-focused description that highlights the key benefits
           }
         }));
         
-        console.log(`✅ Successfully formatted ${formattedProducts.length} products for customer response`);
-        res.json(formattedProducts);
+        // CONTRACT PRICING: Logged-in customers see their price list rates
+        const customerAuth = getCustomerAuth(req);
+        const { priceListService } = await import('./services/priceListService');
+        const pricedProducts = customerAuth?.wholesalerId === wholesalerId
+          ? await priceListService.applyToProducts(formattedProducts, customerAuth.customerId, wholesalerId)
+          : formattedProducts;
+        
+        console.log(`✅ Successfully formatted ${pricedProducts.length} products for customer response`);
+        res.json(pricedProducts);
         
       } catch (sqlError) {
         console.error('💥 SQL execution failed:', sqlError);
@@ -8260,6 +10606,19 @@ Write a professional, sales-focused description that highlights the key benefits
     }
   });
 
+  // Delivery days or collection windows a buyer can book at checkout (empty when the wholesaler doesn't use slots)
+  app.get('/api/marketplace/wholesaler/:id/fulfilment-slots', async (req, res) => {
+    try {
+      const type = req.query.type === 'delivery' ? 'delivery' : 'collection';
+      const { fulfilmentSlotService } = await import('./services/fulfilmentSlotService');
+      const slots = await fulfilmentSlotService.getAvailableSlots(req.params.id, type, req.query.warehouseId as string | undefined);
+      res.json(slots);
+    } catch (error) {
+      console.error("Error fetching bookable slots:", error);
+      res.status(500).json({ message: "Failed to fetch available slots" });
+    }
+  });
+
   // Detailed wholesaler profile endpoint
   app.get('/api/marketplace/wholesaler/:id', async (req, res) => {
     try {
@@ -8277,7 +10636,17 @@ Write a professional, sales-focused description that highlights the key benefits
       }
       
       console.log("Returning wholesaler data:", wholesaler.businessName);
-      res.json(wholesaler);
+      // Buyers choosing pickup can pick which depot to collect from
+      const collectionDepots = (await storage.getCollectionDepots(id)).map(depot => ({
+        id: depot.id,
+        name: depot.name,
+        addressLine1: depot.addressLine1,
+        city: depot.city,
+        postcode: depot.postcode,
+        collectionInstructions: depot.collectionInstructions,
+        isDefault: depot.isDefault
+      }));
+      res.json({ ...wholesaler, collectionDepots });
     } catch (error) {
       console.error("=== Error in wholesaler profile route ===");
       console.error("Error type:", (error as any).constructor?.name);
@@ -9223,12 +11592,17 @@ Return only the taglines, one per line, without numbers or formatting.`;
 
       // Get the template with products
       const template = await storage.getMessageTemplate(templateId);
-      if (!template) {
+      if (!template || template.wholesalerId !== userId) {
         return res.status(404).json({ message: "Template not found" });
       }
 
+      const groups = await storage.getCustomerGroups(userId);
+      if (!groups.some(g => g.id === parseInt(customerGroupId))) {
+        return res.status(404).json({ message: "Customer group not found" });
+      }
+
       // Get customer group members
-      const members = await storage.getGroupMembers(customerGroupId);
+      const members = await storage.getGroupMembers(customerGroupId, userId);
       
       // Generate marketplace URL for multi-product purchasing
       const baseUrl = 'https://quikpik.app';
@@ -9260,27 +11634,84 @@ Return only the taglines, one per line, without numbers or formatting.`;
         });
       }
 
-      res.json({ 
-        success: true, 
-        campaign,
-        message: `Campaign sent to ${members.length} customers`
-      });
+      res.json({ 
+        success: true, 
+        campaign,
+        message: `Campaign sent to ${members.length} customers`
+      });
+    } catch (error) {
+      console.error("Error sending campaign:", error);
+      res.status(500).json({ message: "Failed to send campaign" });
+    }
+  });
+
+  app.get('/api/template-campaigns', requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user;
+      // Use parent company data for team members
+      const targetUserId = user.role === 'team_member' ? user.wholesalerId : user.id;
+      const campaigns = await storage.getTemplateCampaigns(targetUserId);
+      res.json(campaigns);
+    } catch (error) {
+      console.error("Error fetching template campaigns:", error);
+      res.status(500).json({ message: "Failed to fetch template campaigns" });
+    }
+  });
+
+  app.post('/api/template-campaigns/:id/cancel', requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const targetUserId = user.role === 'team_member' ? user.wholesalerId : user.id;
+
+      const campaign = await storage.cancelTemplateCampaign(parseInt(req.params.id), targetUserId);
+      if (!campaign) {
+        return res.status(409).json({ message: "Only scheduled campaigns can be cancelled" });
+      }
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Error cancelling template campaign:", error);
+      res.status(500).json({ message: "Failed to cancel campaign" });
+    }
+  });
+
+  app.patch('/api/template-campaigns/:id/schedule', requireAuth, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const targetUserId = user.role === 'team_member' ? user.wholesalerId : user.id;
+
+      const scheduledAt = new Date(req.body.scheduledAt);
+      if (isNaN(scheduledAt.getTime()) || scheduledAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "scheduledAt must be a future date" });
+      }
+
+      const campaign = await storage.rescheduleTemplateCampaign(parseInt(req.params.id), targetUserId, scheduledAt);
+      if (!campaign) {
+        return res.status(409).json({ message: "Only scheduled or cancelled campaigns can be rescheduled" });
+      }
+
+      res.json(campaign);
     } catch (error) {
-      console.error("Error sending campaign:", error);
-      res.status(500).json({ message: "Failed to send campaign" });
+      console.error("Error rescheduling template campaign:", error);
+      res.status(500).json({ message: "Failed to reschedule campaign" });
     }
   });
 
-  app.get('/api/template-campaigns', requireAuth, async (req: any, res) => {
+  app.get('/api/template-campaigns/:id/recipients', requireAuth, async (req: any, res) => {
     try {
       const user = req.user;
-      // Use parent company data for team members
       const targetUserId = user.role === 'team_member' ? user.wholesalerId : user.id;
-      const campaigns = await storage.getTemplateCampaigns(targetUserId);
-      res.json(campaigns);
+
+      const campaign = await storage.getTemplateCampaign(parseInt(req.params.id));
+      if (!campaign || campaign.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const recipients = await storage.getCampaignDeliveryLog('template', campaign.id);
+      res.json(recipients);
     } catch (error) {
-      console.error("Error fetching template campaigns:", error);
-      res.status(500).json({ message: "Failed to fetch template campaigns" });
+      console.error("Error fetching campaign recipients:", error);
+      res.status(500).json({ message: "Failed to fetch campaign recipients" });
     }
   });
 
@@ -9311,7 +11742,7 @@ Return only the taglines, one per line, without numbers or formatting.`;
           const ordersForProduct = allOrders.filter(order => {
             const orderDate = new Date(String(order.createdAt || Date.now()));
             const broadcastDate = new Date(String(broadcast.sentAt));
-            const validStatuses = ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'];
+            const validStatuses = ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'];
             return orderDate >= broadcastDate && validStatuses.includes(order.status);
           });
 
@@ -9374,7 +11805,8 @@ Return only the taglines, one per line, without numbers or formatting.`;
           includeContact: true,
           includePurchaseLink: true,
           campaignType: 'single' as const,
-          status: broadcast.sentAt ? 'sent' : 'draft',
+          status: broadcast.status === 'scheduled' ? 'scheduled' : broadcast.sentAt ? 'sent' : 'draft',
+          scheduledAt: broadcast.scheduledAt,
           createdAt: broadcast.createdAt,
           product: {
             ...productToUse,
@@ -9400,7 +11832,8 @@ Return only the taglines, one per line, without numbers or formatting.`;
         includeContact: template.includeContact,
         includePurchaseLink: template.includePurchaseLink,
         campaignType: 'multi' as const,
-        status: template.campaigns.length > 0 ? 'sent' : 'draft',
+        status: template.campaigns.some(c => c.status === 'sent') ? 'sent'
+          : template.campaigns.some(c => c.status === 'scheduled') ? 'scheduled' : 'draft',
         createdAt: template.createdAt,
         products: await Promise.all(template.products.map(async product => {
           // Fetch fresh product data with current promotional offers
@@ -9445,6 +11878,8 @@ Return only the taglines, one per line, without numbers or formatting.`;
         })),
         sentCampaigns: template.campaigns.map(campaign => ({
           id: campaign.id,
+          status: campaign.status,
+          scheduledAt: campaign.scheduledAt,
           sentAt: campaign.sentAt,
           recipientCount: campaign.recipientCount,
           clickCount: campaign.clickCount,
@@ -9565,7 +12000,7 @@ Return only the taglines, one per line, without numbers or formatting.`;
           const broadcastDate = new Date(broadcast.sentAt || Date.now());
           const ordersForProduct = allOrders.filter(order => {
             const orderDate = new Date(order.createdAt || Date.now());
-            const validStatuses = ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'];
+            const validStatuses = ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'];
             return orderDate >= broadcastDate && validStatuses.includes(order.status);
           });
 
@@ -9619,7 +12054,7 @@ Return only the taglines, one per line, without numbers or formatting.`;
           const broadcastDate = new Date(broadcast.sentAt || Date.now());
           const ordersForProduct = allOrders.filter(order => {
             const orderDate = new Date(order.createdAt || Date.now());
-            const validStatuses = ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'];
+            const validStatuses = ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'];
             return orderDate >= broadcastDate && validStatuses.includes(order.status);
           });
 
@@ -9893,7 +12328,7 @@ Return only the taglines, one per line, without numbers or formatting.`;
       const user = req.user;
       // Use parent company data for team members
       const targetUserId = user.role === 'team_member' ? user.wholesalerId : user.id;
-      const { campaignId, customerGroupId, customMessage } = req.body;
+      const { campaignId, customerGroupId, customMessage, scheduledAt } = req.body;
       console.log(`Campaign send request: userId=${targetUserId}, campaignId=${campaignId}, customerGroupId=${customerGroupId}`);
 
       // Check broadcast limits based on subscription tier
@@ -9925,163 +12360,119 @@ Return only the taglines, one per line, without numbers or formatting.`;
         }
       }
 
+      const scheduledFor = scheduledAt ? new Date(scheduledAt) : null;
+      if (scheduledFor && isNaN(scheduledFor.getTime())) {
+        return res.status(400).json({ message: "Invalid scheduledAt date" });
+      }
+      const isScheduled = !!scheduledFor && scheduledFor.getTime() > Date.now();
+
+      // Campaigns only go to the wholesaler's own customers
+      const groups = await storage.getCustomerGroups(targetUserId);
+      if (!groups.some(g => g.id === parseInt(customerGroupId))) {
+        return res.status(404).json({ message: "Customer group not found" });
+      }
+
       const [type, id] = campaignId.split('_');
       const numericId = parseInt(id);
       console.log(`Campaign type: ${type}, numericId: ${numericId}`);
+      const { campaignDispatchService } = await import('./services/campaignDispatchService');
 
       if (type === 'broadcast') {
-        // Get the broadcast to find the product ID
         const broadcasts = await storage.getBroadcasts(targetUserId);
         const broadcast = broadcasts.find(b => b.id === numericId);
         
         if (!broadcast) {
           return res.status(404).json({ message: "Broadcast not found" });
         }
+        if (['scheduled', 'sending'].includes(broadcast.status)) {
+          return res.status(409).json({ message: "This broadcast is already scheduled or sending" });
+        }
 
-        // Send single product broadcast with custom message if provided
-        const messageToSend = customMessage || broadcast.message;
-        console.log(`Broadcasting: userId=${targetUserId}, productId=${broadcast.product.id}, groupId=${customerGroupId}`);
-        
-        // Parse promotional offers from broadcast data
-        let promotionalOffers = [];
-        try {
-          if (broadcast.promotionalOffers) {
-            promotionalOffers = JSON.parse(broadcast.promotionalOffers);
-          }
-        } catch (e) {
-          console.error('Error parsing promotional offers:', e);
-          promotionalOffers = [];
+        // Each send keeps its own delivery log, so sending a finished broadcast again starts a new one
+        let broadcastId = numericId;
+        if (['sent', 'failed'].includes(broadcast.status)) {
+          const resend = await storage.createBroadcast({
+            wholesalerId: targetUserId,
+            productId: broadcast.productId,
+            customerGroupId: parseInt(customerGroupId),
+            message: broadcast.message,
+            specialPrice: broadcast.specialPrice,
+            quantity: broadcast.quantity,
+            promotionalOffers: broadcast.promotionalOffers,
+            status: 'pending'
+          });
+          broadcastId = resend.id;
         }
-        
-        console.log(`📤 WhatsApp broadcast requested for product ${broadcast.product.id} to group ${customerGroupId}`);
-        const result = { success: true, recipientCount: 0, messageId: `sim_${Date.now()}` };
-
-        if (result.success) {
-          // Update broadcast status
-          await storage.updateBroadcastStatus(
-            numericId,
-            'sent',
-            new Date(),
-            result.recipientCount || 0,
-            result.messageId
-          );
-          
-          // Apply promotional offers to the actual product so they show in customer portal
-          if (promotionalOffers && promotionalOffers.length > 0) {
-            try {
-              console.log(`🎯 Applying ${promotionalOffers.length} promotional offers to product ${broadcast.product.id}:`, promotionalOffers);
-              await storage.updateProductPromotionalOffers(broadcast.product.id, promotionalOffers);
-              console.log(`✅ Applied ${promotionalOffers.length} promotional offers to product ${broadcast.product.id}`);
-            } catch (error) {
-              console.error('❌ Error applying promotional offers to product:', error);
-            }
-          } else {
-            console.log(`ℹ️ No promotional offers to apply for product ${broadcast.product.id}. Raw data:`, broadcast.promotionalOffers);
-          }
+
+        // An edited preview replaces the generated message entirely
+        await storage.updateBroadcast(broadcastId, {
+          customerGroupId: parseInt(customerGroupId),
+          customMessage: customMessage || null,
+          status: isScheduled ? 'scheduled' : 'pending',
+          scheduledAt: isScheduled ? scheduledFor : null
+        });
+
+        if (isScheduled) {
+          console.log(`🗓️ Broadcast ${broadcastId} scheduled for ${scheduledFor!.toISOString()}`);
+          return res.json({
+            success: true,
+            scheduled: true,
+            scheduledAt: scheduledFor,
+            broadcastId,
+            message: `Broadcast scheduled for ${scheduledFor!.toLocaleString('en-GB')}`
+          });
         }
 
+        console.log(`📤 WhatsApp broadcast requested for product ${broadcast.product.id} to group ${customerGroupId}`);
+        const result = await campaignDispatchService.sendBroadcastNow(broadcastId);
+
         res.json({
-          success: result.success,
-          message: result.success ? `Broadcast sent to ${result.recipientCount || 0} customers` : result.error
+          success: !!result,
+          message: result ? `Broadcast sent to ${result.sentCount} customers` : "Broadcast could not be sent"
         });
       } else if (type === 'template') {
         console.log(`🔍 Processing template campaign ${numericId}...`);
-        // Send multi-product template
         const template = await storage.getMessageTemplate(numericId);
-        if (!template) {
+        if (!template || template.wholesalerId !== targetUserId) {
           return res.status(404).json({ message: "Template not found" });
         }
 
-        const members = await storage.getGroupMembers(customerGroupId);
         // Generate marketplace URL for multi-product purchasing
         const baseUrl = 'https://quikpik.app';
         const campaignUrl = `${baseUrl}/marketplace`;
 
-        // Create campaign record
-        await storage.createTemplateCampaign({
+        // Create campaign record; the dispatcher fills in sentAt and recipientCount
+        const campaign = await storage.createTemplateCampaign({
           templateId: numericId,
-          customerGroupId,
+          customerGroupId: parseInt(customerGroupId),
           wholesalerId: targetUserId,
           campaignUrl,
-          status: 'sent',
-          sentAt: new Date(),
-          recipientCount: members.length,
+          customMessage: customMessage || null,
+          status: isScheduled ? 'scheduled' : 'pending',
+          scheduledAt: isScheduled ? scheduledFor : null,
+          recipientCount: 0,
           clickCount: 0,
           orderCount: 0,
           totalRevenue: '0'
         });
 
-        console.log(`📤 Sending template message to ${members.length} members...`);
-        console.log('📤 WhatsApp template campaign requested for template:', template.id);
-        const result = { success: true, recipientCount: 0, messageId: `sim_${Date.now()}` };
-        console.log(`📤 WhatsApp result:`, { success: result.success, error: result.error });
-        console.log(`📤 Template products count:`, template.products?.length || 0);
-        
-        // Apply promotional offers from template products to actual products
-        if (result.success && template.products) {
-          console.log(`🎯 Starting promotional offers application for ${template.products.length} products...`);
-          for (const templateProduct of template.products) {
-            try {
-              // Parse promotional offers from template product
-              let promotionalOffers = [];
-              console.log(`📋 Raw promotional offers data for product ${templateProduct.productId}:`, templateProduct.promotionalOffers);
-              
-              if (templateProduct.promotionalOffers) {
-                try {
-                  let dataToparse = templateProduct.promotionalOffers;
-                  console.log(`📋 Initial data type: ${typeof dataToparse}, value:`, dataToparse);
-                  
-                  if (typeof dataToparse === 'string') {
-                    // Handle triple-escaped JSON strings like """[{...}]"""
-                    if (dataToparse.startsWith('"""') && dataToparse.endsWith('"""')) {
-                      console.log('📋 Detected triple-escaped JSON, fixing...');
-                      dataToparse = dataToparse.slice(3, -3).replace(/\\"/g, '"');
-                      console.log('📋 After triple-escape fix:', dataToparse);
-                    }
-                    // Handle double-escaped JSON strings
-                    else if (dataToparse.startsWith('""') && dataToparse.endsWith('""')) {
-                      console.log('📋 Detected double-escaped JSON, fixing...');
-                      dataToparse = dataToparse.slice(2, -2).replace(/\\"/g, '"');
-                      console.log('📋 After double-escape fix:', dataToparse);
-                    }
-                    
-                    promotionalOffers = JSON.parse(dataToparse);
-                    console.log(`📋 Successfully parsed promotional offers:`, promotionalOffers);
-                    
-                    if (!Array.isArray(promotionalOffers)) {
-                      console.log('📋 Warning: Parsed data is not an array, converting to empty array');
-                      promotionalOffers = [];
-                    }
-                  } else if (Array.isArray(dataToparse)) {
-                    promotionalOffers = dataToparse;
-                    console.log('📋 Data is already an array:', promotionalOffers);
-                  }
-                } catch (e) {
-                  console.error('❌ Error parsing promotional offers for template product:', templateProduct.productId, e);
-                  console.error('❌ Failed data was:', templateProduct.promotionalOffers);
-                  promotionalOffers = [];
-                }
-              } else {
-                console.log(`📋 No promotional offers data for product ${templateProduct.productId}`);
-              }
-              
-              // Apply promotional offers to the actual product
-              if (promotionalOffers.length > 0) {
-                console.log(`🎯 Applying ${promotionalOffers.length} promotional offers to product ${templateProduct.productId}:`, promotionalOffers);
-                await storage.updateProductPromotionalOffers(templateProduct.productId, promotionalOffers);
-                console.log(`✅ Applied ${promotionalOffers.length} promotional offers to product ${templateProduct.productId} from template campaign`);
-              } else {
-                console.log(`ℹ️ No promotional offers to apply for product ${templateProduct.productId}. Raw data:`, templateProduct.promotionalOffers);
-              }
-            } catch (error) {
-              console.error(`Error applying promotional offers to product ${templateProduct.productId}:`, error);
-            }
-          }
+        if (isScheduled) {
+          console.log(`🗓️ Template campaign ${campaign.id} scheduled for ${scheduledFor!.toISOString()}`);
+          return res.json({
+            success: true,
+            scheduled: true,
+            scheduledAt: scheduledFor,
+            campaignId: campaign.id,
+            message: `Campaign scheduled for ${scheduledFor!.toLocaleString('en-GB')}`
+          });
         }
-        
+
+        console.log('📤 WhatsApp template campaign requested for template:', template.id);
+        const result = await campaignDispatchService.sendTemplateCampaignNow(campaign.id);
+
         res.json({
-          success: result.success,
-          message: result.success ? `Campaign sent to ${members.length} customers` : result.error
+          success: !!result,
+          message: result ? `Campaign sent to ${result.sentCount} customers` : "Campaign could not be sent"
         });
       } else {
         res.status(400).json({ message: "Invalid campaign type" });
@@ -10412,6 +12803,64 @@ Return only the taglines, one per line, without numbers or formatting.`;
     }
   });
 
+  // Payouts to the wholesaler's bank, for reconciliation
+  app.get('/api/stripe/payouts', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!wholesaler) {
+        return res.status(404).json({ message: "Wholesaler not found" });
+      }
+      if (!wholesaler.stripeAccountId) {
+        return res.json([]);
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Choose a valid date range" });
+      }
+      // Include the whole of the last day
+      if (to) to.setHours(23, 59, 59, 999);
+
+      const { payoutReconciliationService } = await import('./services/payoutReconciliationService');
+      try {
+        res.json(await payoutReconciliationService.listPayouts(wholesaler, { from, to }));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // The transactions inside a payout, matched to orders, with unmatched ones flagged
+  app.get('/api/stripe/payouts/:payoutId/reconciliation', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!wholesaler) {
+        return res.status(404).json({ message: "Wholesaler not found" });
+      }
+
+      const { payoutReconciliationService } = await import('./services/payoutReconciliationService');
+      let reconciliation;
+      try {
+        reconciliation = await payoutReconciliationService.reconcile(wholesaler, req.params.payoutId);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      res.json(reconciliation);
+    } catch (error) {
+      console.error("Error reconciling payout:", error);
+      res.status(500).json({ message: "Failed to reconcile payout" });
+    }
+  });
+
   app.get('/api/stripe/invoices/:invoiceId/download', requireAuth, async (req: any, res) => {
     try {
       if (!stripe) {
@@ -10635,7 +13084,24 @@ Focus on practical B2B wholesale strategies. Be concise and specific.`;
   // Create payment intent for customer portal orders (public - no auth required)
   app.post('/api/marketplace/create-payment-intent', async (req, res) => {
     try {
-      const { items, customerData, wholesalerId, totalAmount, shippingInfo } = req.body;
+      const { customerData, wholesalerId, shippingInfo } = req.body;
+      let { items, totalAmount } = req.body;
+
+      // CONTRACT PRICING: Charge the customer's price list rates, as the order will be priced at them
+      if (Array.isArray(items) && wholesalerId) {
+        const { priceListService } = await import('./services/priceListService');
+        // Only for a customer signed in to this wholesaler's portal
+        const pricingCustomerAuth = getCustomerAuth(req);
+        const contractPricing = await priceListService.applyToOrderItems(
+          items,
+          pricingCustomerAuth && pricingCustomerAuth.wholesalerId === wholesalerId ? pricingCustomerAuth.customerId : null,
+          wholesalerId
+        );
+        items = contractPricing.items;
+        if (contractPricing.savings > 0 && !isNaN(parseFloat(totalAmount))) {
+          totalAmount = (parseFloat(totalAmount) - contractPricing.savings).toFixed(2);
+        }
+      }
       
       console.log('🚚 MARKETPLACE PAYMENT DEBUG: Received shippingInfo from frontend:', JSON.stringify(shippingInfo, null, 2));
       console.log('🚚 MARKETPLACE PAYMENT DEBUG: customerData.shippingOption:', customerData?.shippingOption);
@@ -10912,11 +13378,18 @@ Focus on practical B2B wholesale strategies. Be concise and specific.`;
         return res.status(400).json({ message: "Invalid product ID" });
       }
       
-      const product = await storage.getProduct(productId);
+      const rawProduct = await storage.getProduct(productId);
       
-      if (!product) {
+      if (!rawProduct) {
         return res.status(404).json({ message: "Product not found" });
       }
+
+      // CONTRACT PRICING: Logged-in customers see their price list rate
+      const customerAuth = getCustomerAuth(req);
+      const { priceListService } = await import('./services/priceListService');
+      const product = customerAuth?.wholesalerId === rawProduct.wholesalerId
+        ? priceListService.applyToProduct(rawProduct, await priceListService.getCustomerPriceRule(customerAuth.customerId, rawProduct.wholesalerId))
+        : rawProduct;
       
       console.log('STOCK DEBUG - Raw product from database:', {
         productId: product.id,
@@ -11059,10 +13532,23 @@ Focus on practical B2B wholesale strategies. Be concise and specific.`;
         }
       }
       
+      // CONTRACT PRICING: The customer's price list rate, if they are signed in as that customer
+      const { priceListService } = await import('./services/priceListService');
+      const pricingCustomerAuth = getCustomerAuth(req);
+      const contractPricing = await priceListService.applyToOrderItems([{
+        productId: product.id,
+        quantity: parseInt(quantity),
+        unitPrice: product.price,
+        total: totalAmount.toString(),
+        sellingType: currentSellingType
+      }], pricingCustomerAuth && pricingCustomerAuth.customerId === customer.id ? customer.id : null, product.wholesalerId);
+      const [pricedItem] = contractPricing.items;
+      const orderAmount = parseFloat(totalAmount) - contractPricing.savings;
+
       // Calculate platform fee (5% of total)
-      const subtotal = totalAmount.toString();
-      const platformFee = (parseFloat(totalAmount) * 0.05).toFixed(2);
-      const total = totalAmount.toString();
+      const subtotal = orderAmount.toFixed(2);
+      const platformFee = (orderAmount * 0.05).toFixed(2);
+      const total = orderAmount.toFixed(2);
       
       // Create order with customer details  
       const orderData = {
@@ -11082,8 +13568,8 @@ Focus on practical B2B wholesale strategies. Be concise and specific.`;
       const orderItems = [{
         productId: product.id,
         quantity: parseInt(quantity),
-        unitPrice: product.price,
-        total: totalAmount.toString(),
+        unitPrice: pricedItem.unitPrice.toString(),
+        total: (pricedItem.total ?? totalAmount).toString(),
         sellingType: sellingType || 'units', // CRITICAL FIX: Include selling type for stock reduction
         orderId: 0 // Will be set after order creation
       }];
@@ -11291,8 +13777,17 @@ Please contact the customer to confirm this order.
         return res.status(500).json({ message: "Failed to create customer record" });
       }
 
+      // CONTRACT PRICING: The customer's price list rates, if they are signed in as that customer
+      const { priceListService } = await import('./services/priceListService');
+      const pricingCustomerAuth = getCustomerAuth(req);
+      const contractPricing = await priceListService.applyToOrderItems(
+        items,
+        pricingCustomerAuth && pricingCustomerAuth.customerId === customer.id ? customer.id : null,
+        firstProduct.wholesalerId
+      );
+
       // Calculate platform fee (5%)
-      const subtotal = parseFloat(totalAmount);
+      const subtotal = parseFloat(totalAmount) - contractPricing.savings;
       const platformFee = subtotal * 0.05;
       const finalTotal = subtotal;
 
@@ -11312,7 +13807,7 @@ Please contact the customer to confirm this order.
         notes: notes || ''
       };
 
-      const orderItems = items.map((item: any) => ({
+      const orderItems = contractPricing.items.map((item: any) => ({
         ...item,
         orderId: 0 // Will be set by the storage layer
       }));
@@ -12016,7 +14511,8 @@ Please contact the customer to confirm this order.
           status: 'declined'
         };
         
-        const negotiation = await storage.createNegotiation(negotiationData);
+        const { negotiationService } = await import('./services/negotiationService');
+        const negotiation = await negotiationService.openNegotiation(negotiationData);
         
         // Send email notification to customer about declined bid
         try {
@@ -12092,7 +14588,8 @@ The customer's bid was below your minimum acceptable price and has been automati
         status: 'pending'
       };
       
-      const negotiation = await storage.createNegotiation(negotiationData);
+      const { negotiationService } = await import('./services/negotiationService');
+      const negotiation = await negotiationService.openNegotiation(negotiationData);
       
       // Send WhatsApp notification to wholesaler about price quote request
       try {
@@ -12275,160 +14772,321 @@ https://quikpik.app`;
     }
   });
 
-  // Generate and download invoice PDF
-  app.get('/api/orders/:id/invoice', requireAuth, async (req: any, res) => {
+  // VAT report for a period, by rate
+  app.get('/api/vat/report', requireAuth, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const userId = req.user.id;
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
 
-      const order = await storage.getOrder(id);
+      const now = new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(now.getFullYear(), now.getMonth(), 1);
+      const to = req.query.to ? new Date(req.query.to as string) : now;
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({ message: "Choose a valid date range" });
+      }
+      // Include the whole of the last day
+      if (req.query.to) to.setHours(23, 59, 59, 999);
+
+      res.json(await storage.getVatReport(targetUserId, from, to));
+    } catch (error) {
+      console.error("Error generating VAT report:", error);
+      res.status(500).json({ message: "Failed to generate VAT report" });
+    }
+  });
+
+  // Download the order's invoice, issuing it first for orders placed before invoicing
+  app.get('/api/orders/:id/invoice', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const order = await storage.getOrder(parseInt(req.params.id));
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
 
       // Only wholesaler can generate invoices for their orders
-      if (order.wholesalerId !== userId) {
+      if (order.wholesalerId !== targetUserId) {
         return res.status(403).json({ message: "Not authorized to generate invoice for this order" });
       }
 
-      const wholesaler = await storage.getUser(userId);
+      const { invoiceService } = await import('./services/invoiceService');
+      const invoice = await invoiceService.issueForOrder(order.id, false);
+      const pdf = await invoiceService.getPdf(invoice);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // The order's invoice and credit notes
+  app.get('/api/orders/:id/invoices', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.json(await storage.getOrderInvoices(order.id));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.post('/api/orders/:id/invoices', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const { invoiceService } = await import('./services/invoiceService');
+      res.json(await invoiceService.issueForOrder(order.id));
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ message: "Failed to issue invoice" });
+    }
+  });
+
+  app.get('/api/invoices/:id/pdf', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || invoice.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const { invoiceService } = await import('./services/invoiceService');
+      const pdf = await invoiceService.getPdf(invoice);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      res.status(500).json({ message: "Failed to download invoice" });
+    }
+  });
+
+  // Send the invoice or credit note to the customer again
+  app.post('/api/invoices/:id/email', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || invoice.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!invoice.buyer.email) {
+        return res.status(400).json({ message: "The customer has no email address" });
+      }
+
+      const { invoiceService } = await import('./services/invoiceService');
+      const sent = await invoiceService.emailDocument(invoice);
+      if (!sent) {
+        return res.status(502).json({ message: "The email could not be sent" });
+      }
+      res.json(await storage.getInvoice(invoice.id));
+    } catch (error) {
+      console.error("Error emailing invoice:", error);
+      res.status(500).json({ message: "Failed to email invoice" });
+    }
+  });
+
+  // Account codes used by accounting exports, with defaults filled in
+  app.get('/api/accounting/settings', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const wholesaler = await storage.getUser(targetUserId);
       if (!wholesaler) {
         return res.status(404).json({ message: "Wholesaler not found" });
       }
 
-      // Generate invoice HTML (reuse the email template but optimized for PDF)
-      const customerName = `${order.retailer.firstName} ${order.retailer.lastName || ''}`.trim();
-      const businessName = wholesaler.businessName || 'Quikpik Merchant';
-      const currency = wholesaler.preferredCurrency || 'GBP';
-      const currencySymbol = currency === 'USD' ? '$' : currency === 'EUR' ? '€' : '£';
-      
-      const itemsList = order.items.map(item => 
-        `<tr style="border-bottom: 1px solid #eee;">
-          <td style="padding: 12px 8px; border-right: 1px solid #eee;">${item.product.name}</td>
-          <td style="padding: 12px 8px; border-right: 1px solid #eee; text-align: center;">${item.quantity}</td>
-          <td style="padding: 12px 8px; border-right: 1px solid #eee; text-align: right;">${currencySymbol}${parseFloat(item.unitPrice).toFixed(2)}</td>
-          <td style="padding: 12px 8px; text-align: right; font-weight: bold;">${currencySymbol}${(parseFloat(item.unitPrice) * item.quantity).toFixed(2)}</td>
-        </tr>`
-      ).join('');
+      const { getAccountingSettings } = await import('../shared/accounting-export');
+      res.json(getAccountingSettings(wholesaler.accountingSettings));
+    } catch (error) {
+      console.error("Error fetching accounting settings:", error);
+      res.status(500).json({ message: "Failed to fetch accounting settings" });
+    }
+  });
 
-      const subtotal = order.items.reduce((sum: number, item: any) => sum + (parseFloat(item.unitPrice) * item.quantity), 0);
-      const platformFee = subtotal * 0.05;
-      const total = subtotal + platformFee;
+  app.put('/api/accounting/settings', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { DEFAULT_ACCOUNTING_SETTINGS, getAccountingSettings } = await import('../shared/accounting-export');
+
+      const isAccountCode = (value: unknown) => typeof value === 'string' && /^[A-Za-z0-9.\-]{1,20}$/.test(value.trim());
+      const settings = getAccountingSettings();
+      for (const key of Object.keys(DEFAULT_ACCOUNTING_SETTINGS) as Array<keyof typeof DEFAULT_ACCOUNTING_SETTINGS>) {
+        if (key === 'categoryAccounts' || req.body[key] === undefined) continue;
+        if (!isAccountCode(req.body[key])) {
+          return res.status(400).json({ message: `Enter a valid account code for ${key}` });
+        }
+        settings[key] = req.body[key].trim();
+      }
 
-      const invoiceHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <title>Invoice #${order.id} - ${businessName}</title>
-  <style>
-    body { margin: 0; padding: 20px; font-family: Arial, sans-serif; }
-    .container { max-width: 800px; margin: 0 auto; }
-    .header { background: #22c55e; color: white; padding: 30px; text-align: center; }
-    .content { padding: 30px; }
-    .flex { display: flex; justify-content: space-between; margin-bottom: 30px; }
-    table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
-    th, td { padding: 12px 8px; border: 1px solid #e5e7eb; }
-    th { background-color: #f9fafb; font-weight: 600; }
-    .totals { border-top: 2px solid #e5e7eb; padding-top: 20px; }
-    .total-row { display: flex; justify-content: space-between; margin-bottom: 10px; }
-    .final-total { font-size: 18px; font-weight: bold; color: #22c55e; padding: 15px 0; border-top: 1px solid #e5e7eb; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1>${businessName}</h1>
-      <h2>INVOICE #${order.id}</h2>
-    </div>
-    
-    <div class="content">
-      <div class="flex">
-        <div>
-          <h3>Bill To:</h3>
-          <p>${customerName}<br/>
-          ${order.customerEmail || order.retailer?.email || ''}<br/>
-          ${order.customerPhone || order.retailer?.phoneNumber || ''}</p>
-        </div>
-        <div>
-          <h3>Invoice Details:</h3>
-          <p>Date: ${new Date(order.createdAt).toLocaleDateString()}<br/>
-          Status: ${order.status.charAt(0).toUpperCase() + order.status.slice(1)}<br/>
-          Order #${order.id}</p>
-        </div>
-      </div>
+      // Blank category codes fall back to the sales account
+      for (const [category, code] of Object.entries(req.body.categoryAccounts || {})) {
+        if (code === '' || code == null) continue;
+        if (!isAccountCode(code)) {
+          return res.status(400).json({ message: `Enter a valid account code for ${category}` });
+        }
+        settings.categoryAccounts[category] = (code as string).trim();
+      }
 
-      <table>
-        <thead>
-          <tr>
-            <th>Product</th>
-            <th>Qty</th>
-            <th>Unit Price</th>
-            <th>Total</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${itemsList}
-        </tbody>
-      </table>
-
-      <div class="totals">
-        <div class="total-row">
-          <span>Subtotal:</span>
-          <span>${currencySymbol}${subtotal.toFixed(2)}</span>
-        </div>
-        <div class="total-row">
-          <span>Platform Fee (5%):</span>
-          <span>${currencySymbol}${platformFee.toFixed(2)}</span>
-        </div>
-        <div class="final-total">
-          <div class="total-row">
-            <span>Total:</span>
-            <span>${currencySymbol}${total.toFixed(2)}</span>
-          </div>
-        </div>
-      </div>
+      await storage.updateUser(targetUserId, { accountingSettings: settings });
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating accounting settings:", error);
+      res.status(500).json({ message: "Failed to update accounting settings" });
+    }
+  });
+
+  app.get('/api/accounting/exports', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      res.json(await storage.getAccountingExports(targetUserId));
+    } catch (error) {
+      console.error("Error fetching accounting exports:", error);
+      res.status(500).json({ message: "Failed to fetch accounting exports" });
+    }
+  });
+
+  // Export a period as CSV; exporting the same period again gives the same file
+  app.post('/api/accounting/exports', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { isAccountingExportFormat } = await import('../shared/accounting-export');
+      const { format } = req.body;
+      if (!isAccountingExportFormat(format)) {
+        return res.status(400).json({ message: "Choose an export format" });
+      }
+
+      const from = new Date(req.body.from);
+      const to = new Date(req.body.to);
+      if (!req.body.from || !req.body.to || isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({ message: "Choose a valid date range" });
+      }
+      // Include the whole of the last day
+      from.setHours(0, 0, 0, 0);
+      to.setHours(23, 59, 59, 999);
+
+      const wholesaler = await storage.getUser(targetUserId);
+      if (!wholesaler) {
+        return res.status(404).json({ message: "Wholesaler not found" });
+      }
+
+      const { accountingExportService } = await import('./services/accountingExportService');
+      const result = await accountingExportService.exportPeriod(wholesaler, format, from, to, req.user.id);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+      res.send(result.csv);
+    } catch (error) {
+      console.error("Error exporting accounts:", error);
+      res.status(500).json({ message: "Failed to export accounts" });
+    }
+  });
+
+  // Order side-effects waiting in the outbox, delivered, or failed for good (dead letters)
+  app.get('/api/admin/outbox', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = ['pending', 'processing', 'delivered', 'dead'].includes(req.query.status) ? req.query.status : undefined;
+      const orderId = req.query.orderId ? parseInt(req.query.orderId as string) : undefined;
+
+      res.json(await storage.getOutboxMessages(targetUserId, { status, orderId: orderId || undefined }));
+    } catch (error) {
+      console.error("Error fetching outbox messages:", error);
+      res.status(500).json({ message: "Failed to fetch outbox messages" });
+    }
+  });
 
-      <div style="margin-top: 40px; text-align: center; border-top: 1px solid #e5e7eb; padding-top: 20px;">
-        <p>Thank you for your business!</p>
-        <small>Generated by Quikpik Merchant Platform on ${new Date().toLocaleDateString()}</small>
-      </div>
-    </div>
-  </div>
-</body>
-</html>`;
+  // Replay a message, e.g. a confirmation email that failed every attempt
+  app.post('/api/admin/outbox/:id/replay', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const message = await storage.getOutboxMessage(parseInt(req.params.id));
+      if (!message || message.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (message.status === 'processing') {
+        return res.status(400).json({ message: "This message is being sent right now" });
+      }
 
-      // Generate PDF using Puppeteer
-      const puppeteer = await import('puppeteer');
-      const browser = await puppeteer.default.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
-      });
-      
-      const page = await browser.newPage();
-      await page.setContent(invoiceHtml, { waitUntil: 'networkidle0' });
-      
-      const pdfBuffer = await page.pdf({
-        format: 'A4',
-        printBackground: true,
-        margin: {
-          top: '20mm',
-          right: '20mm',
-          bottom: '20mm',
-          left: '20mm'
+      res.json(await outboxService.replay(message));
+    } catch (error) {
+      console.error("Error replaying outbox message:", error);
+      res.status(500).json({ message: "Failed to replay message" });
+    }
+  });
+
+  // Stripe webhook events received for the wholesaler's orders and plan, e.g. ?status=failed.
+  // Super admins can also ask for ?scope=unowned (events matched to no wholesaler) or ?scope=all
+  app.get('/api/admin/stripe-events', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const status = STRIPE_WEBHOOK_EVENT_STATUSES.includes(req.query.status) ? req.query.status : undefined;
+      const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+
+      let wholesalerId: string | null | undefined = targetUserId;
+      if (req.query.scope === 'unowned' || req.query.scope === 'all') {
+        if (!isSuperAdmin(req.user)) {
+          return res.status(403).json({ message: "Access denied" });
         }
-      });
-      
-      await browser.close();
+        wholesalerId = req.query.scope === 'unowned' ? null : undefined;
+      }
 
-      // Set headers for PDF download
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="invoice-${order.id}.pdf"`);
-      res.send(pdfBuffer);
+      res.json(await storage.getStripeWebhookEvents(wholesalerId, { status, type }));
+    } catch (error) {
+      console.error("Error fetching Stripe events:", error);
+      res.status(500).json({ message: "Failed to fetch Stripe events" });
+    }
+  });
+
+  // Re-process a failed event, or one that never arrived (fetched from Stripe by its evt_ ID)
+  app.post('/api/admin/stripe-events/:eventId/replay', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      // Super admins can replay any event, including ones matched to no wholesaler or already processed
+      const superAdmin = isSuperAdmin(req.user);
+      const canReplay = (event: { wholesalerId?: string | null }) => superAdmin || event.wholesalerId === targetUserId;
+      const { stripeWebhookService } = await import('./services/stripeWebhookService');
+
+      let stored = await storage.getStripeWebhookEvent(req.params.eventId);
+      if (!stored) {
+        // Only ever looked for on the platform and the caller's own connected account, and only kept if it is theirs
+        const wholesaler = await storage.getUser(targetUserId);
+        let fetched;
+        try {
+          fetched = await stripeWebhookService.fetch(req.params.eventId, wholesaler?.stripeAccountId);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        if (!fetched || !canReplay(fetched)) {
+          return res.status(404).json({ message: "Event not found" });
+        }
+        stored = await storage.recordStripeWebhookEvent(fetched);
+      }
+      if (!canReplay(stored)) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (stored.status === 'processing') {
+        return res.status(400).json({ message: "This event is being processed right now" });
+      }
+      // Re-running a processed event (e.g. a plan payment) is for super admins only
+      if (stored.status === 'processed' && !superAdmin) {
+        return res.status(400).json({ message: "This event has already been processed" });
+      }
 
+      const result = await stripeWebhookService.replay(stored.eventId, { includeProcessed: superAdmin });
+      res.json(result.event);
     } catch (error) {
-      console.error("Error generating invoice:", error);
-      res.status(500).json({ message: "Failed to generate invoice" });
+      console.error("Error replaying Stripe event:", error);
+      res.status(500).json({ message: "Failed to replay Stripe event" });
     }
   });
 
@@ -13494,7 +16152,8 @@ The Quikpik Team
         }]
       };
 
-      const quotes = await parcel2goService.getQuotes(quoteRequest);
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const quotes = await shippingProviderService.getQuotes(user.id, quoteRequest);
       res.json({ quotes });
     } catch (error: any) {
       console.error("Error getting shipping quotes:", error);
@@ -13565,7 +16224,10 @@ The Quikpik Team
     if (!req.session?.user?.id && !req.session?.userId && !req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
-    const { collectionAddress, deliveryAddress, parcels } = req.body;
+    const { collectionAddress, deliveryAddress, cartItems } = req.body;
+    // Carts are packed into the parcels (or pallets) that would actually ship
+    const packed = cartItems && cartItems.length > 0 ? PreciseShippingCalculator.packCart(cartItems) : null;
+    const parcels = packed ? PreciseShippingCalculator.toQuoteParcels(packed) : req.body.parcels;
     
     try {
       console.log("📦 POST: Getting shipping quotes:", { collectionAddress, deliveryAddress, parcels });
@@ -13578,21 +16240,17 @@ The Quikpik Team
         });
       }
 
-      // Configure Parcel2Go service with credentials - try live API first
-      if (process.env.PARCEL2GO_CLIENT_ID && process.env.PARCEL2GO_CLIENT_SECRET) {
-        parcel2goService.setCredentials({
-          clientId: process.env.PARCEL2GO_CLIENT_ID,
-          clientSecret: process.env.PARCEL2GO_CLIENT_SECRET,
-          environment: 'live' // Use live API as sandbox seems inaccessible
-        });
-      }
+      // Quote with the wholesaler's own carriers, or the platform's Parcel2Go account
+      const wholesalerId = req.body.wholesalerId || req.user?.id || req.session?.userId || null;
+      const { shippingProviderService } = await import('./services/shippingProviderService');
       
       // Try to get real quotes first
       try {
-        const quotes = await parcel2goService.getQuotes({
+        const quotes = await shippingProviderService.getQuotes(wholesalerId, {
           collectionAddress,
           deliveryAddress,
-          parcels
+          parcels,
+          freight: packed?.freight
         });
         
         console.log("📦 Got real quotes:", quotes.length, "services");
@@ -13761,45 +16419,66 @@ The Quikpik Team
         });
       }
 
-      let preciseParcels = parcels;
-
-      // If cart items are provided, use precise shipping calculator
+      // If cart items are provided, pack them once per carrier so each carrier is
+      // quoted for the parcels (or pallets) it would actually be given
+      let packings: Array<{ carriers: string[]; freight: boolean; parcels: any[] }>;
       if (cartItems && cartItems.length > 0) {
         console.log("📦 Using precise unit configuration for shipping calculation");
-        preciseParcels = PreciseShippingCalculator.createPreciseParcel(cartItems);
-        console.log("📦 Precise parcels calculated:", preciseParcels);
-        
-        const totalWeight = preciseParcels.reduce((sum, p) => sum + p.weight, 0);
-        const recommendations = PreciseShippingCalculator.getServiceRecommendations(totalWeight);
-        console.log("📦 Service recommendations:", recommendations);
+        packings = PreciseShippingCalculator.packCartByCarrier(cartItems).map(({ carriers, shipment }) => ({
+          carriers,
+          freight: shipment.freight,
+          parcels: PreciseShippingCalculator.toQuoteParcels(shipment)
+        }));
+        console.log("📦 Packed cart:", packings.map(p => `${p.carriers.join('/')}: ${p.parcels.length} ${p.freight ? 'pallet(s)' : 'parcel(s)'}`).join(', '));
       } else if (!parcels || parcels.length === 0) {
         return res.status(400).json({ 
           error: "Missing required data", 
           required: ["parcels or cartItems"] 
         });
+      } else {
+        packings = [{ carriers: [], freight: parcels.reduce((sum, p) => sum + p.weight, 0) > 70, parcels }];
       }
 
-      // Configure Parcel2Go service with credentials - try live API first
-      if (process.env.PARCEL2GO_CLIENT_ID && process.env.PARCEL2GO_CLIENT_SECRET) {
-        parcel2goService.setCredentials({
-          clientId: process.env.PARCEL2GO_CLIENT_ID,
-          clientSecret: process.env.PARCEL2GO_CLIENT_SECRET,
-          environment: 'live' // Use live API as sandbox seems inaccessible
-        });
-      }
+      // Quote with the wholesaler's own carriers, or the platform's Parcel2Go account
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const wholesalerId = req.body.wholesalerId || null;
       
       // Try to get real quotes first
       try {
-        const quotes = await parcel2goService.getQuotes({
+        const quotes = [];
+        for (const packing of packings) {
+          const packingQuotes = await shippingProviderService.getQuotes(wholesalerId, {
+            collectionAddress,
+            deliveryAddress,
+            parcels: packing.parcels,
+            freight: packing.freight
+          }, ['parcel2go']);
+
+          // Parcel services only count for the carriers this packing was made for
+          quotes.push(...packingQuotes
+            .filter(quote => packing.freight || packing.carriers.length === 0 ||
+              packing.carriers.includes(getCarrierKey(`${quote.carrierName} ${quote.serviceName}`)))
+            .map(quote => ({ ...quote, parcels: packing.parcels })));
+        }
+
+        // The wholesaler's own rate tables price the cart as a whole, so they're asked once
+        const standardPacking = packings.find(packing => packing.carriers.length === 0 || packing.carriers.includes('default')) || packings[0];
+        const tableRateQuotes = await shippingProviderService.getQuotes(wholesalerId, {
           collectionAddress,
           deliveryAddress,
-          parcels: preciseParcels
-        });
+          parcels: standardPacking.parcels
+        }, ['table_rate']);
+        quotes.push(...tableRateQuotes.map(quote => ({ ...quote, parcels: standardPacking.parcels })));
+
+        if (quotes.length === 0) {
+          throw new Error('No carrier quotes for this consignment');
+        }
+        quotes.sort((a, b) => a.price - b.price);
         
         console.log("📦 Got real marketplace quotes:", quotes.length, "services");
         
         // Add precise weight information to response
-        const totalWeight = preciseParcels.reduce((sum, p) => sum + p.weight, 0);
+        const totalWeight = packings[0].parcels.reduce((sum, p) => sum + p.weight, 0);
         const recommendations = PreciseShippingCalculator.getServiceRecommendations(totalWeight);
         
         res.json({ 
@@ -13821,9 +16500,11 @@ The Quikpik Team
       
       // Use precise calculation if cart items are available
       let finalParcels = parcels;
+      let packed: ReturnType<typeof PreciseShippingCalculator.packCart> | null = null;
       if (cartItems && cartItems.length > 0) {
         console.log("📦 DEMO: Using precise unit configuration for fallback quotes");
-        finalParcels = PreciseShippingCalculator.createPreciseParcel(cartItems);
+        packed = PreciseShippingCalculator.packCart(cartItems);
+        finalParcels = PreciseShippingCalculator.toQuoteParcels(packed);
         console.log("📦 DEMO: Precise parcels calculated:", finalParcels);
       }
       
@@ -13831,13 +16512,15 @@ The Quikpik Team
       const totalWeight = finalParcels ? finalParcels.reduce((sum, parcel) => sum + parcel.weight, 0) : 1;
       const maxParcelWeight = finalParcels ? Math.max(...finalParcels.map(p => p.weight)) : 1;
       const preciseCalculation = !!(cartItems && cartItems.length > 0);
+      // A packed cart can go as several standard parcels however heavy it is in total
+      const freight = packed ? packed.freight : totalWeight > 70;
       
       console.log(`📦 DEMO: Total weight: ${totalWeight}kg, Max parcel: ${maxParcelWeight}kg, Precise: ${preciseCalculation}`);
       
       let demoQuotes = [];
       
-      // Standard parcel services (up to 70kg total weight)
-      if (totalWeight <= 70 && maxParcelWeight <= 30) {
+      // Standard parcel services (up to 30kg per parcel)
+      if (!freight && maxParcelWeight <= 30) {
         const basePrice = Math.max(3.95, totalWeight * 0.85); // Minimum £3.95, then £0.85 per kg
         
         // Royal Mail (up to 20kg)
@@ -13896,7 +16579,7 @@ The Quikpik Team
       }
       
       // Heavy parcel services (70kg - 1000kg)
-      if (totalWeight > 70 && totalWeight <= 1000) {
+      if (freight && !packed && totalWeight <= 1000) {
         const heavyPrice = Math.max(25.00, totalWeight * 1.2); // Higher base price for heavy parcels
         
         demoQuotes.push({
@@ -13917,9 +16600,10 @@ The Quikpik Team
         });
       }
       
-      // Pallet services (over 1000kg)
-      if (totalWeight > 1000) {
-        const palletPrice = Math.max(85.00, totalWeight * 0.08); // Bulk pricing for pallet services
+      // Pallet services (packed pallets, or over 1000kg)
+      if (freight && (packed || totalWeight > 1000)) {
+        const palletCount = packed ? packed.parcels.length : 1;
+        const palletPrice = Math.max(85.00 * palletCount, totalWeight * 0.08); // Bulk pricing for pallet services
         
         demoQuotes.push({
           serviceId: 'demo-pallet-freight',
@@ -13933,9 +16617,9 @@ The Quikpik Team
           deliveryType: 'pallet-freight',
           trackingAvailable: true,
           insuranceIncluded: true,
-          description: `Pallet freight delivery for ${(totalWeight/1000).toFixed(1)} tonne consignment`,
+          description: `Pallet freight delivery for ${palletCount} pallet${palletCount === 1 ? '' : 's'} (${(totalWeight/1000).toFixed(1)} tonne)`,
           maxWeight: 10000,
-          restrictions: ['Requires forklift access', 'Minimum 1 tonne', 'Pallet dimensions required']
+          restrictions: ['Requires forklift access', 'Pallet dimensions required']
         });
         
         demoQuotes.push({
@@ -13950,7 +16634,7 @@ The Quikpik Team
           deliveryType: 'express-pallet',
           trackingAvailable: true,
           insuranceIncluded: true,
-          description: `Express pallet delivery for ${(totalWeight/1000).toFixed(1)} tonne consignment`,
+          description: `Express pallet delivery for ${palletCount} pallet${palletCount === 1 ? '' : 's'} (${(totalWeight/1000).toFixed(1)} tonne)`,
           maxWeight: 10000,
           restrictions: ['Requires forklift access', 'Priority scheduling', 'Pallet dimensions required']
         });
@@ -13977,7 +16661,7 @@ The Quikpik Team
       }
       
       console.log(`📦 Returning weight-based marketplace demo quotes for ${totalWeight}kg package`);
-      res.json({ quotes: demoQuotes, demoMode: true });
+      res.json({ quotes: demoQuotes.map(quote => ({ ...quote, parcels: finalParcels })), demoMode: true });
     }
   });
 
@@ -14037,13 +16721,21 @@ The Quikpik Team
 
       const { 
         orderId, 
+        shipmentId,
         service, 
+        providerAccountId,
         customerDetails, 
         deliveryAddress,
         parcels,
         collectionDate
       } = req.body;
 
+      // A split shipment gets its own booking
+      const shipment = shipmentId ? await storage.getOrderShipment(parseInt(shipmentId)) : undefined;
+      if (shipmentId && (!shipment || shipment.orderId !== parseInt(orderId) || shipment.wholesalerId !== userId)) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+
       // Build collection address from user's business information
       const collectionAddress = {
         contactName: user.businessName || `${user.firstName} ${user.lastName}`,
@@ -14057,54 +16749,74 @@ The Quikpik Team
         countryIsoCode: 'GBR'
       };
 
-      const orderRequest = {
-        Items: [{
-          Id: `quikpik-order-${orderId}`,
-          CollectionDate: collectionDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-          Service: service,
-          Parcels: parcels.map((parcel: any, index: number) => ({
-            Id: `parcel-${index}`,
-            Height: parcel.height,
-            Length: parcel.length,
-            Width: parcel.width,
-            Weight: parcel.weight,
-            EstimatedValue: parcel.value,
-            DeliveryAddress: {
-              contactName: customerDetails.name,
-              email: customerDetails.email,
-              phone: customerDetails.phone,
-              property: deliveryAddress.property,
-              street: deliveryAddress.street,
-              town: deliveryAddress.town,
-              county: deliveryAddress.county || '',
-              postcode: deliveryAddress.postcode,
-              countryIsoCode: deliveryAddress.countryIsoCode || 'GBR'
-            },
-            ContentsSummary: parcel.contents || 'Wholesale products'
-          })),
-          CollectionAddress: collectionAddress
-        }],
-        CustomerDetails: {
-          Email: customerDetails.email,
-          Forename: customerDetails.firstName || customerDetails.name.split(' ')[0],
-          Surname: customerDetails.lastName || customerDetails.name.split(' ').slice(1).join(' ')
-        }
-      };
+      // Book with the carrier the chosen quote came from
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      let connected;
+      try {
+        connected = await shippingProviderService.getProvider(userId, providerAccountId);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
 
-      const shippingOrder = await parcel2goService.createOrder(orderRequest);
+      const booking = await connected.provider.book({
+        reference: shipment ? `quikpik-order-${orderId}-${shipment.shipmentNumber}` : `quikpik-order-${orderId}`,
+        serviceId: service,
+        collectionDate: collectionDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        collectionAddress,
+        deliveryAddress: {
+          contactName: customerDetails.name,
+          email: customerDetails.email,
+          phone: customerDetails.phone,
+          property: deliveryAddress.property,
+          street: deliveryAddress.street,
+          town: deliveryAddress.town,
+          county: deliveryAddress.county || '',
+          postcode: deliveryAddress.postcode,
+          countryIsoCode: deliveryAddress.countryIsoCode || 'GBR'
+        },
+        parcels: parcels.map((parcel: any) => ({
+          weight: parcel.weight,
+          length: parcel.length,
+          width: parcel.width,
+          height: parcel.height,
+          value: parcel.value,
+          contentDescription: parcel.contents || 'Wholesale products'
+        })),
+        customer: {
+          email: customerDetails.email,
+          forename: customerDetails.firstName || customerDetails.name.split(' ')[0],
+          surname: customerDetails.lastName || customerDetails.name.split(' ').slice(1).join(' ')
+        }
+      });
       
-      // Update the order in our database with shipping information
+      if (shipment) {
+        await storage.updateOrderShipment(shipment.id, {
+          shippingOrderId: booking.bookingId,
+          shippingHash: booking.hash,
+          shippingOrderLineId: booking.lineId,
+          shippingProviderAccountId: connected.accountId,
+          shippingCost: booking.price.toString(),
+          serviceId: service,
+          ...(booking.trackingNumber ? { trackingNumber: booking.trackingNumber } : {})
+        });
+      }
+
+      // Update the order in our database with shipping information (latest booking)
       await storage.updateOrder(orderId, {
-        shippingOrderId: shippingOrder.OrderId,
-        shippingHash: shippingOrder.Hash,
-        shippingTotal: shippingOrder.TotalPrice.toString(),
-        shippingStatus: 'created'
+        shippingOrderId: booking.bookingId,
+        shippingHash: booking.hash,
+        shippingOrderLineId: booking.lineId,
+        shippingProviderAccountId: connected.accountId,
+        shippingTotal: booking.price.toString(),
+        shippingStatus: 'created',
+        ...(booking.trackingNumber ? { deliveryTrackingNumber: booking.trackingNumber } : {})
       });
 
       res.json({ 
         success: true, 
-        shippingOrder,
-        paymentLinks: shippingOrder.Links
+        shippingOrder: booking,
+        carrier: connected.name,
+        paymentLinks: booking.paymentLinks
       });
     } catch (error: any) {
       console.error("Error creating shipping order:", error);
@@ -14137,15 +16849,29 @@ The Quikpik Team
   app.get('/api/shipping/labels/:orderId', requireAuth, async (req: any, res) => {
     try {
       const { orderId } = req.params;
-      const { format = 'pdf' } = req.query;
+      const { format = 'pdf', shipmentId } = req.query;
       
-      // Get order from database to get shipping hash
       const order = await storage.getOrder(parseInt(orderId));
-      if (!order || !order.shippingOrderId || !order.shippingHash) {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      if (!order || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Shipping order not found" });
+      }
+
+      // Labels for one shipment of a split order, otherwise the order's own booking
+      const shipment = shipmentId ? await storage.getOrderShipment(parseInt(shipmentId as string)) : undefined;
+      if (shipmentId && (!shipment || shipment.orderId !== order.id)) {
+        return res.status(404).json({ message: "Shipping order not found" });
+      }
+      const booked = shipment || order;
+      const booking = getStoredBooking(booked);
+      if (!booking) {
         return res.status(404).json({ message: "Shipping order not found" });
       }
 
-      const labels = await parcel2goService.getLabels(order.shippingOrderId, order.shippingHash, format as 'pdf' | 'png');
+      // Labels come from the carrier the booking was made with
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const connected = await shippingProviderService.getProvider(order.wholesalerId, booked.shippingProviderAccountId);
+      const labels = await connected.provider.getLabels(booking, format as 'pdf' | 'png');
       res.json({ labels });
     } catch (error: any) {
       console.error("Error getting shipping labels:", error);
@@ -14153,15 +16879,66 @@ The Quikpik Team
     }
   });
 
+  // Cancel a carrier booking (one shipment of a split order, or the order's own booking)
+  app.post('/api/shipping/cancel/:orderId', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { shipmentId } = req.body;
+
+      const order = await storage.getOrder(parseInt(req.params.orderId));
+      if (!order || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const shipment = shipmentId ? await storage.getOrderShipment(parseInt(shipmentId)) : undefined;
+      if (shipmentId && (!shipment || shipment.orderId !== order.id)) {
+        return res.status(404).json({ message: "Shipment not found" });
+      }
+      const booked = shipment || order;
+      const booking = getStoredBooking(booked);
+      if (!booking) {
+        return res.status(400).json({ message: "There is no carrier booking to cancel" });
+      }
+
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      try {
+        const connected = await shippingProviderService.getProvider(targetUserId, booked.shippingProviderAccountId);
+        await connected.provider.cancel(booking);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      // Forget the booking so it's no longer tracked and a new one can be made
+      const cleared = { shippingOrderId: null, shippingHash: null, shippingOrderLineId: null, shippingProviderAccountId: null };
+      if (shipment) {
+        await storage.updateOrderShipment(shipment.id, cleared);
+      }
+      if (!shipment || order.shippingOrderId === booking.bookingId) {
+        await storage.updateOrder(order.id, { ...cleared, shippingStatus: 'cancelled' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling shipping booking:", error);
+      res.status(500).json({ message: "Failed to cancel shipping booking" });
+    }
+  });
+
   app.get('/api/shipping/status', requireAuth, async (req: any, res) => {
     try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
       const configured = !!(process.env.PARCEL2GO_CLIENT_ID && process.env.PARCEL2GO_CLIENT_SECRET);
       const environment = process.env.PARCEL2GO_ENVIRONMENT || 'sandbox';
+
+      // Carriers the wholesaler can quote with, including their own Parcel2Go and table-rate accounts
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const providers = (await shippingProviderService.getProviders(targetUserId))
+        .map(({ accountId, name, key }) => ({ accountId, name, provider: key }));
       
       res.json({ 
         configured,
         environment,
-        ready: configured
+        providers,
+        ready: configured || providers.length > 0
       });
     } catch (error: any) {
       console.error("Error checking shipping status:", error);
@@ -14169,6 +16946,74 @@ The Quikpik Team
     }
   });
 
+  // Shipping carriers the wholesaler has connected
+  app.get('/api/shipping/providers', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      res.json(await shippingProviderService.listAccounts(targetUserId));
+    } catch (error) {
+      console.error("Error fetching shipping carriers:", error);
+      res.status(500).json({ message: "Failed to fetch shipping carriers" });
+    }
+  });
+
+  app.post('/api/shipping/providers', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { provider, name, credentials, settings, isEnabled } = req.body;
+
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      try {
+        res.status(201).json(await shippingProviderService.createAccount(targetUserId, { provider, name, credentials, settings, isEnabled }));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error adding shipping carrier:", error);
+      res.status(500).json({ message: "Failed to add shipping carrier" });
+    }
+  });
+
+  app.patch('/api/shipping/providers/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { name, credentials, settings, isEnabled } = req.body;
+
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const account = await shippingProviderService.getWholesalerAccount(parseInt(req.params.id), targetUserId);
+      if (!account) {
+        return res.status(404).json({ message: "Carrier not found" });
+      }
+
+      try {
+        res.json(await shippingProviderService.updateAccount(account, { name, credentials, settings, isEnabled }));
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+    } catch (error) {
+      console.error("Error updating shipping carrier:", error);
+      res.status(500).json({ message: "Failed to update shipping carrier" });
+    }
+  });
+
+  app.delete('/api/shipping/providers/:id', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { shippingProviderService } = await import('./services/shippingProviderService');
+      const account = await shippingProviderService.getWholesalerAccount(parseInt(req.params.id), targetUserId);
+      if (!account) {
+        return res.status(404).json({ message: "Carrier not found" });
+      }
+
+      await storage.deleteShippingProviderAccount(account.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing shipping carrier:", error);
+      res.status(500).json({ message: "Failed to remove shipping carrier" });
+    }
+  });
+
   // Shipping Automation Settings
   app.post('/api/shipping/automation-settings', requireAuth, async (req: any, res) => {
     try {
@@ -14230,7 +17075,7 @@ The Quikpik Team
     try {
       const userId = req.user.id;
       const { orderId } = req.params;
-      const { serviceId, deliveryAddress, shippingCost } = req.body;
+      const { serviceId, deliveryAddress, shippingCost, providerAccountId } = req.body;
 
       // Get the order to verify ownership and status
       const order = await storage.getOrder(parseInt(orderId));
@@ -14288,35 +17133,31 @@ The Quikpik Team
         value: parseFloat(order.total)
       }];
 
-      const orderRequest = {
-        Items: [{
-          Id: `quikpik-order-${orderId}`,
-          CollectionDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // Tomorrow
-          Service: { Id: serviceId },
-          Parcels: parcels.map((parcel, index) => ({
-            Id: `parcel-${index}`,
-            Height: parcel.height,
-            Length: parcel.length,
-            Width: parcel.width,
-            Weight: parcel.weight,
-            EstimatedValue: parcel.value,
-            DeliveryAddress: {
-              contactName: order.retailer?.firstName && order.retailer?.lastName 
-                ? `${order.retailer.firstName} ${order.retailer.lastName}`
-                : 'Customer',
-              email: order.retailer?.email || '',
-              phone: order.retailer?.phoneNumber || '',
-              property: parsedDeliveryAddress.street || deliveryAddress,
-              street: parsedDeliveryAddress.street || deliveryAddress,
-              town: parsedDeliveryAddress.town || 'Unknown City',
-              county: parsedDeliveryAddress.county || '',
-              postcode: parsedDeliveryAddress.postcode || 'UNKNOWN',
-              countryIsoCode: parsedDeliveryAddress.country || 'GBR'
-            },
-            ContentsSummary: `Order #${orderId} - Wholesale products`
-          })),
-          CollectionAddress: collectionAddress
-        }]
+      const customerName = order.retailer?.firstName && order.retailer?.lastName 
+        ? `${order.retailer.firstName} ${order.retailer.lastName}`
+        : 'Customer';
+      const bookingRequest = {
+        reference: `quikpik-order-${orderId}`,
+        serviceId,
+        collectionDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // Tomorrow
+        collectionAddress,
+        deliveryAddress: {
+          contactName: customerName,
+          email: order.retailer?.email || '',
+          phone: order.retailer?.phoneNumber || '',
+          property: parsedDeliveryAddress.street || deliveryAddress,
+          street: parsedDeliveryAddress.street || deliveryAddress,
+          town: parsedDeliveryAddress.town || 'Unknown City',
+          county: parsedDeliveryAddress.county || '',
+          postcode: parsedDeliveryAddress.postcode || 'UNKNOWN',
+          countryIsoCode: parsedDeliveryAddress.country || 'GBR'
+        },
+        parcels: parcels.map(parcel => ({ ...parcel, contentDescription: `Order #${orderId} - Wholesale products` })),
+        customer: {
+          email: user.email || 'noreply@example.com',
+          forename: user.firstName || 'Business',
+          surname: user.lastName || 'Owner'
+        }
       };
 
       // Handle demo mode for testing when Parcel2Go API is unavailable
@@ -14346,21 +17187,32 @@ The Quikpik Team
           demoMode: true
         });
       } else {
-        const shippingOrder = await parcel2goService.createOrder(orderRequest);
+        // Book with the carrier the chosen quote came from
+        const { shippingProviderService } = await import('./services/shippingProviderService');
+        let connected;
+        try {
+          connected = await shippingProviderService.getProvider(userId, providerAccountId);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const booking = await connected.provider.book(bookingRequest);
         
         // Update the order with shipping information
         await storage.updateOrder(parseInt(orderId), {
-          shippingOrderId: shippingOrder.OrderId,
-          shippingHash: shippingOrder.Hash,
+          shippingOrderId: booking.bookingId,
+          shippingHash: booking.hash,
+          shippingOrderLineId: booking.lineId,
+          shippingProviderAccountId: connected.accountId,
           shippingTotal: shippingCost.toString(),
           shippingStatus: 'created',
-          deliveryCarrier: serviceId,
-          deliveryServiceId: serviceId
+          deliveryCarrier: connected.name,
+          deliveryServiceId: serviceId,
+          ...(booking.trackingNumber ? { deliveryTrackingNumber: booking.trackingNumber } : {})
         });
 
         res.json({ 
           success: true, 
-          shippingOrder,
+          shippingOrder: booking,
           message: "Shipping order created successfully"
         });
       }
@@ -14490,8 +17342,15 @@ The Quikpik Team
         return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
       };
 
-      // Try to get real tracking from Parcel2Go API first
-      let trackingData = {
+      // Scans stored by the tracking sync, once the carrier has reported any
+      const { trackingSyncService } = await import('./services/trackingSyncService');
+      const storedTracking = await trackingSyncService.getOrderTracking(order);
+      if (storedTracking.events.length > 0) {
+        return res.json(storedTracking);
+      }
+
+      // Otherwise an estimated timeline from the order's shipping status
+      const trackingData = {
         orderId: order.id,
         trackingNumber: order.deliveryTrackingNumber,
         carrier: order.deliveryCarrier || 'Unknown',
@@ -14501,19 +17360,6 @@ The Quikpik Team
         lastUpdated: new Date().toISOString()
       };
 
-      // If we have Parcel2Go order details, try to fetch real tracking
-      if (order.shippingOrderId && order.shippingHash) {
-        try {
-          const realTracking = await parcel2goService.getTracking(order.shippingOrderId, order.shippingHash);
-          if (realTracking && realTracking.events) {
-            trackingData.events = realTracking.events;
-            trackingData.status = realTracking.status || trackingData.status;
-          }
-        } catch (trackingError) {
-          console.log("Could not fetch real tracking data, using demo data");
-        }
-      }
-
       res.json(trackingData);
     } catch (error: any) {
       console.error("Error getting tracking details:", error);
@@ -14521,6 +17367,31 @@ The Quikpik Team
     }
   });
 
+  // Fetch the latest scans from Parcel2Go now rather than waiting for the next sync
+  app.post('/api/shipping/tracking/:orderId/refresh', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+
+      const order = await storage.getOrder(parseInt(req.params.orderId));
+      if (!order || order.wholesalerId !== targetUserId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const { trackingSyncService } = await import('./services/trackingSyncService');
+      try {
+        await trackingSyncService.syncOrder(order);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      const refreshed = await storage.getOrder(order.id);
+      res.json(await trackingSyncService.getOrderTracking(refreshed!));
+    } catch (error: any) {
+      console.error("Error refreshing tracking:", error);
+      res.status(500).json({ message: "Failed to refresh tracking" });
+    }
+  });
+
   // Update shipping status for an order
   app.patch('/api/shipping/status/:orderId', requireAuth, async (req: any, res) => {
     try {
@@ -15094,6 +17965,71 @@ The Quikpik Team
     }
   });
 
+  // Credit accounts: aged debtors report for on-account orders
+  app.get('/api/customers/aged-debtors', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { creditAccountService } = await import('./services/creditAccountService');
+
+      const report = await creditAccountService.getAgedDebtors(targetUserId);
+      res.json(report);
+    } catch (error) {
+      console.error('Error fetching aged debtors:', error);
+      res.status(500).json({ error: 'Failed to fetch aged debtors' });
+    }
+  });
+
+  app.get('/api/customers/:id/credit-terms', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { creditAccountService } = await import('./services/creditAccountService');
+
+      const creditCheck = await creditAccountService.checkCreditAvailability(req.params.id, targetUserId, 0);
+      res.json({
+        paymentTerms: creditCheck.paymentTerms,
+        creditLimit: creditCheck.creditLimit,
+        outstandingBalance: creditCheck.outstandingBalance,
+        availableCredit: creditCheck.availableCredit
+      });
+    } catch (error) {
+      console.error('Error fetching customer credit terms:', error);
+      res.status(500).json({ error: 'Failed to fetch credit terms' });
+    }
+  });
+
+  app.patch('/api/customers/:id/credit-terms', requireAuth, async (req: any, res) => {
+    try {
+      const targetUserId = req.user.role === 'team_member' && req.user.wholesalerId ? req.user.wholesalerId : req.user.id;
+      const { PAYMENT_TERMS_DAYS } = await import('../shared/payment-terms');
+
+      const schema = z.object({
+        paymentTerms: z.enum(Object.keys(PAYMENT_TERMS_DAYS) as [string, ...string[]]),
+        creditLimit: z.coerce.number().min(0).nullable().optional()
+      });
+      const { paymentTerms, creditLimit } = schema.parse(req.body);
+
+      // Verify the customer belongs to this user
+      const customers = await storage.getAllCustomers(targetUserId);
+      if (!customers.some(c => c.id === req.params.id)) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const relationship = await storage.updateCustomerCreditTerms(req.params.id, targetUserId, {
+        paymentTerms,
+        creditLimit: creditLimit != null ? creditLimit.toFixed(2) : null
+      });
+
+      console.log(`💳 Credit terms updated for customer ${req.params.id}: ${paymentTerms}, limit ${relationship.creditLimit ?? 'none'}`);
+      res.json(relationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid credit terms', details: error.errors });
+      }
+      console.error('Error updating customer credit terms:', error);
+      res.status(500).json({ error: 'Failed to update credit terms' });
+    }
+  });
+
   app.delete('/api/customers/:id', requireAuth, async (req: any, res) => {
     try {
       const customerId = req.params.id;
@@ -15401,7 +18337,7 @@ The Quikpik Team
 
       // Filter orders by status and date
       const validOrders = orders.filter(order => 
-        ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
+        ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
       );
 
       const todayOrders = validOrders.filter(order => 
@@ -15530,7 +18466,7 @@ The Quikpik Team
       ]);
 
       const validOrders = orders.filter(order => 
-        ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
+        ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
       );
 
       // Customer segmentation
@@ -15637,7 +18573,7 @@ The Quikpik Team
       ]);
 
       const validOrders = orders.filter(order => 
-        ['paid', 'processing', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
+        ['paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'fulfilled'].includes(order.status)
       );
 
       // Product performance analysis
@@ -15915,118 +18851,6 @@ The Quikpik Team
     }
   });
 
-  // ============================================================================
-  // STRIPE WEBHOOK HANDLER FOR SUBSCRIPTIONS
-  // ============================================================================
-
-  // Stripe webhook endpoint for subscription events  
-  app.post('/api/webhooks/stripe', (req, res, next) => {
-    if (req.originalUrl === '/api/webhooks/stripe') {
-      req.body = '';
-      req.on('data', (chunk) => {
-        req.body += chunk.toString();
-      });
-      req.on('end', () => {
-        next();
-      });
-    } else {
-      next();
-    }
-  }, async (req, res) => {
-    const sig = req.headers['stripe-signature'] as string;
-    const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-    
-    if (!endpointSecret) {
-      console.error('❌ STRIPE_WEBHOOK_SECRET is not configured');
-      return res.status(400).json({ error: 'Webhook secret not configured' });
-    }
-
-    let event: Stripe.Event;
-
-    try {
-      // Verify webhook signature
-      event = stripe.webhooks.constructEvent(req.body, sig, endpointSecret);
-      console.log('✅ Stripe webhook verified:', event.type);
-    } catch (error) {
-      console.error('❌ Stripe webhook signature verification failed:', error);
-      return res.status(400).json({ error: 'Invalid signature' });
-    }
-
-    try {
-      // Handle different subscription events
-      switch (event.type) {
-        case 'checkout.session.completed': {
-          const session = event.data.object as Stripe.Checkout.Session;
-          console.log('🛒 Checkout session completed:', session.id);
-          
-          if (session.mode === 'subscription' && session.subscription) {
-            // Retrieve the subscription details
-            const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
-            await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-            console.log('✅ Subscription created from checkout:', subscription.id);
-          }
-          break;
-        }
-
-        case 'customer.subscription.created': {
-          const subscription = event.data.object as Stripe.Subscription;
-          console.log('🆕 Subscription created:', subscription.id);
-          await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-          break;
-        }
-
-        case 'customer.subscription.updated': {
-          const subscription = event.data.object as Stripe.Subscription;
-          console.log('📝 Subscription updated:', subscription.id, 'Status:', subscription.status);
-          await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-          break;
-        }
-
-        case 'customer.subscription.deleted': {
-          const subscription = event.data.object as Stripe.Subscription;
-          console.log('❌ Subscription deleted:', subscription.id);
-          await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-          break;
-        }
-
-        case 'invoice.payment_succeeded': {
-          const invoice = event.data.object as Stripe.Invoice;
-          console.log('💰 Invoice payment succeeded:', invoice.id);
-          
-          if (invoice.subscription) {
-            // Subscription payment successful - update status if needed
-            const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
-            await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-          }
-          break;
-        }
-
-        case 'invoice.payment_failed': {
-          const invoice = event.data.object as Stripe.Invoice;
-          console.log('⚠️ Invoice payment failed:', invoice.id);
-          
-          if (invoice.subscription) {
-            // Subscription payment failed - update status
-            const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
-            await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, subscription);
-          }
-          break;
-        }
-
-        default:
-          console.log('ℹ️ Unhandled Stripe webhook event type:', event.type);
-      }
-
-      res.json({ received: true, event: event.type });
-    } catch (error) {
-      console.error('❌ Error handling Stripe webhook:', error);
-      res.status(500).json({ 
-        error: 'Webhook handler failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
   // ============================================================================
   // SUBSCRIPTION MANAGEMENT ENDPOINTS
   // ============================================================================
@@ -13,6 +13,12 @@ interface EmailParams {
   subject: string;
   text?: string;
   html?: string;
+  attachments?: Array<{
+    content: string; // Base64
+    filename: string;
+    type: string;
+    disposition?: 'attachment' | 'inline';
+  }>;
 }
 
 export async function sendEmail(params: EmailParams): Promise<boolean> {
@@ -25,6 +31,7 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
       subject: params.subject,
       text: params.text || '',
       html: params.html || '',
+      attachments: params.attachments,
     });
     
     console.log('✅ Email sent successfully via SendGrid');
@@ -0,0 +1,293 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import {
+  ACCOUNTING_EXPORT_FORMATS,
+  formatExportDate,
+  getAccountingSettings,
+  getLineAccount,
+  getQuickBooksTaxCode,
+  getXeroTaxType,
+  toCsv,
+  type AccountingExportFormat,
+  type AccountingSettings,
+  type AccountingSourceType
+} from "../../shared/accounting-export";
+import type { AccountingExport, Invoice, Order, User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+type CsvRow = Array<string | number | null | undefined>;
+
+interface ExportPayout {
+  id: string;
+  amount: number;
+  currency: string;
+  arrivalDate: Date;
+}
+
+export interface AccountingExportResult {
+  export: AccountingExport;
+  filename: string;
+  csv: string;
+}
+
+const XERO_HEADER = [
+  '*ContactName', 'EmailAddress', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate',
+  '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'Currency'
+];
+
+const QUICKBOOKS_HEADER = [
+  'InvoiceNo', 'Customer', 'InvoiceDate', 'DueDate', 'Item(Product/Service)', 'ItemDescription',
+  'ItemQuantity', 'ItemRate', 'ItemAmount', 'ItemTaxCode', 'ItemTaxAmount', 'Currency'
+];
+
+const JOURNAL_HEADER = ['Date', 'Reference', 'Description', 'AccountCode', 'Debit', 'Credit'];
+
+export class AccountingExportService {
+
+  /**
+   * CSV of a period's invoices and credit notes (and, for the journal,
+   * platform fees and Stripe payouts). Each document is exported once per
+   * format: exporting the same period again gives the same file, and an
+   * overlapping period leaves out anything an earlier export already had.
+   */
+  async exportPeriod(wholesaler: User, format: AccountingExportFormat, from: Date, to: Date, createdBy: string): Promise<AccountingExportResult> {
+    const settings = getAccountingSettings(wholesaler.accountingSettings);
+    const documents = await storage.getInvoicesForDateRange(wholesaler.id, from, to);
+    const periodOrders = await storage.getOrdersForDateRange(wholesaler.id, from, to);
+    const payouts = format === 'journal' ? await this.getPayouts(wholesaler, from, to) : [];
+
+    const candidates: Array<{ sourceType: AccountingSourceType; sourceId: string }> = [
+      ...documents.map(doc => ({ sourceType: doc.documentType as AccountingSourceType, sourceId: String(doc.id) })),
+      ...(format === 'journal'
+        ? [
+            ...periodOrders
+              .filter(order => parseFloat(order.platformFee || '0') > 0)
+              .map(order => ({ sourceType: 'platform_fee' as const, sourceId: String(order.id) })),
+            ...payouts.map(payout => ({ sourceType: 'payout' as const, sourceId: payout.id }))
+          ]
+        : [])
+    ];
+
+    const accountingExport = await storage.startAccountingExport(wholesaler.id, format, from, to, createdBy);
+    const claimed = await storage.claimAccountingExportItems(accountingExport, candidates);
+    const owned = new Set(claimed.map(item => `${item.sourceType}:${item.sourceId}`));
+    const isOwned = (sourceType: AccountingSourceType, sourceId: string | number) => owned.has(`${sourceType}:${sourceId}`);
+
+    const exportDocuments = documents.filter(doc => isOwned(doc.documentType as AccountingSourceType, doc.id));
+    const orders = await this.getDocumentOrders(exportDocuments, periodOrders);
+
+    let rows: CsvRow[];
+    switch (format) {
+      case 'xero':
+        rows = this.getXeroRows(exportDocuments, orders, settings);
+        break;
+      case 'quickbooks':
+        rows = this.getQuickBooksRows(exportDocuments, orders, settings);
+        break;
+      case 'journal':
+        rows = this.getJournalRows(
+          exportDocuments,
+          orders,
+          periodOrders.filter(order => isOwned('platform_fee', order.id)),
+          payouts.filter(payout => isOwned('payout', payout.id)),
+          settings
+        );
+        break;
+    }
+
+    const updated = await storage.updateAccountingExportRowCount(accountingExport.id, rows.length - 1);
+    await this.recordPerformance(wholesaler.id, from, to, documents, periodOrders);
+
+    const range = `${from.toISOString().slice(0, 10)}-to-${to.toISOString().slice(0, 10)}`;
+    console.log(`📒 ${ACCOUNTING_EXPORT_FORMATS[format].label} export for ${wholesaler.id} (${range}): ${rows.length - 1} rows`);
+    return { export: updated, filename: `${format}-export-${range}.csv`, csv: toCsv(rows) };
+  }
+
+  // Sales invoice import - amounts tax inclusive, credit notes as negative quantities
+  private getXeroRows(documents: Invoice[], orders: Map<number, Order>, settings: AccountingSettings): CsvRow[] {
+    const rows: CsvRow[] = [XERO_HEADER];
+    for (const doc of documents) {
+      const sign = doc.documentType === 'credit_note' ? -1 : 1;
+      const dueDate = this.getDueDate(doc, orders.get(doc.orderId));
+      for (const line of doc.lines) {
+        rows.push([
+          doc.buyer.name,
+          doc.buyer.email,
+          doc.invoiceNumber,
+          orders.get(doc.orderId)?.orderNumber || '',
+          formatExportDate(doc.issuedAt!),
+          formatExportDate(dueDate),
+          line.description,
+          sign * line.quantity,
+          line.unitPrice.toFixed(2),
+          getLineAccount(settings, line),
+          getXeroTaxType(line),
+          doc.currency
+        ]);
+      }
+    }
+    return rows;
+  }
+
+  // Invoice import - amounts exclusive of tax, items named after the account code
+  private getQuickBooksRows(documents: Invoice[], orders: Map<number, Order>, settings: AccountingSettings): CsvRow[] {
+    const rows: CsvRow[] = [QUICKBOOKS_HEADER];
+    for (const doc of documents) {
+      const sign = doc.documentType === 'credit_note' ? -1 : 1;
+      const dueDate = this.getDueDate(doc, orders.get(doc.orderId));
+      for (const line of doc.lines) {
+        rows.push([
+          doc.invoiceNumber,
+          doc.buyer.name,
+          formatExportDate(doc.issuedAt!),
+          formatExportDate(dueDate),
+          getLineAccount(settings, line),
+          line.description,
+          line.quantity,
+          line.quantity ? (line.net / line.quantity).toFixed(4) : line.net.toFixed(2),
+          (sign * line.net).toFixed(2),
+          getQuickBooksTaxCode(line),
+          (sign * line.vat).toFixed(2),
+          doc.currency
+        ]);
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Double-entry lines. Sales and credits post through receivables; card
+   * orders are then settled into the Stripe clearing account, which platform
+   * fees are taken from and payouts empty into the bank. On-account orders
+   * stay in receivables until they are paid.
+   */
+  private getJournalRows(
+    documents: Invoice[],
+    orders: Map<number, Order>,
+    feeOrders: Order[],
+    payouts: ExportPayout[],
+    settings: AccountingSettings
+  ): CsvRow[] {
+    const rows: CsvRow[] = [JOURNAL_HEADER];
+    const entry = (date: Date, reference: string, description: string, account: string, amount: number) => {
+      const value = roundMoney(amount);
+      if (value === 0) return;
+      rows.push([
+        formatExportDate(date),
+        reference,
+        description,
+        account,
+        value > 0 ? value.toFixed(2) : '',
+        value < 0 ? (-value).toFixed(2) : ''
+      ]);
+    };
+
+    for (const doc of documents) {
+      // Invoices debit receivables and credit revenue; credit notes the reverse
+      const sign = doc.documentType === 'credit_note' ? -1 : 1;
+      const date = doc.issuedAt!;
+      const description = `${doc.documentType === 'credit_note' ? 'Credit note' : 'Invoice'} - ${doc.buyer.name}`;
+
+      entry(date, doc.invoiceNumber, description, settings.receivablesAccount, sign * parseFloat(doc.total));
+
+      const revenueByAccount = new Map<string, number>();
+      for (const line of doc.lines) {
+        const account = getLineAccount(settings, line);
+        revenueByAccount.set(account, (revenueByAccount.get(account) || 0) + line.net);
+      }
+      revenueByAccount.forEach((net, account) => entry(date, doc.invoiceNumber, description, account, -sign * net));
+      entry(date, doc.invoiceNumber, description, settings.vatAccount, -sign * parseFloat(doc.vatTotal));
+
+      if (orders.get(doc.orderId)?.paymentMethod !== 'account') {
+        const settlement = doc.documentType === 'credit_note' ? 'Card refund' : 'Card payment';
+        entry(date, doc.invoiceNumber, `${settlement} - ${doc.buyer.name}`, settings.stripeClearingAccount, sign * parseFloat(doc.total));
+        entry(date, doc.invoiceNumber, `${settlement} - ${doc.buyer.name}`, settings.receivablesAccount, -sign * parseFloat(doc.total));
+      }
+    }
+
+    for (const order of feeOrders) {
+      const fee = parseFloat(order.platformFee || '0');
+      const reference = `FEE-${order.orderNumber}`;
+      entry(order.createdAt!, reference, `Platform fee on order ${order.orderNumber}`, settings.platformFeeAccount, fee);
+      entry(order.createdAt!, reference, `Platform fee on order ${order.orderNumber}`, settings.stripeClearingAccount, -fee);
+    }
+
+    for (const payout of payouts) {
+      entry(payout.arrivalDate, payout.id, `Stripe payout (${payout.currency})`, settings.bankAccount, payout.amount);
+      entry(payout.arrivalDate, payout.id, `Stripe payout (${payout.currency})`, settings.stripeClearingAccount, -payout.amount);
+    }
+
+    return rows;
+  }
+
+  // Payouts to the wholesaler's bank that arrived in the period
+  private async getPayouts(wholesaler: User, from: Date, to: Date): Promise<ExportPayout[]> {
+    if (!stripe || !wholesaler.stripeAccountId) return [];
+
+    const payouts = await stripe.payouts
+      .list({
+        arrival_date: { gte: Math.floor(from.getTime() / 1000), lte: Math.floor(to.getTime() / 1000) },
+        limit: 100
+      }, { stripeAccount: wholesaler.stripeAccountId })
+      .autoPagingToArray({ limit: 1000 });
+
+    return payouts
+      .filter(payout => payout.status === 'paid')
+      .map(payout => ({
+        id: payout.id,
+        amount: payout.amount / 100,
+        currency: payout.currency.toUpperCase(),
+        arrivalDate: new Date(payout.arrival_date * 1000)
+      }));
+  }
+
+  // Orders behind the documents - credit notes can be for orders placed before the period
+  private async getDocumentOrders(documents: Invoice[], periodOrders: Order[]): Promise<Map<number, Order>> {
+    const orders = new Map(periodOrders.map(order => [order.id, order]));
+    for (const orderId of Array.from(new Set(documents.map(doc => doc.orderId)))) {
+      if (orders.has(orderId)) continue;
+      const order = await storage.getOrder(orderId);
+      if (order) orders.set(orderId, order);
+    }
+    return orders;
+  }
+
+  private getDueDate(doc: Invoice, order?: Order): Date {
+    return (doc.documentType === 'invoice' && order?.paymentMethod === 'account' && order.paymentDueDate) || doc.issuedAt!;
+  }
+
+  // Keep the period's figures in financial performance, whatever was exported
+  private async recordPerformance(wholesalerId: string, from: Date, to: Date, documents: Invoice[], periodOrders: Order[]) {
+    const sumDocuments = (type: string, field: 'total' | 'netTotal') =>
+      documents.filter(doc => doc.documentType === type).reduce((sum, doc) => sum + parseFloat(doc[field]), 0);
+
+    const grossRevenue = roundMoney(sumDocuments('invoice', 'total'));
+    const netRevenue = roundMoney(sumDocuments('invoice', 'netTotal') - sumDocuments('credit_note', 'netTotal'));
+    const platformFees = roundMoney(periodOrders.reduce((sum, order) => sum + parseFloat(order.platformFee || '0'), 0));
+    const invoiceCount = documents.filter(doc => doc.documentType === 'invoice').length;
+
+    try {
+      await storage.saveFinancialPerformance({
+        wholesalerId,
+        periodStart: from,
+        periodEnd: to,
+        periodType: 'custom',
+        grossRevenue: grossRevenue.toFixed(2),
+        netRevenue: netRevenue.toFixed(2),
+        totalTransactions: invoiceCount,
+        averageTransactionValue: (invoiceCount ? grossRevenue / invoiceCount : 0).toFixed(2),
+        platformFees: platformFees.toFixed(2),
+        netAfterFees: (netRevenue - platformFees).toFixed(2)
+      });
+    } catch (error) {
+      console.error('Failed to record financial performance:', error);
+    }
+  }
+}
+
+export const accountingExportService = new AccountingExportService();
@@ -0,0 +1,318 @@
+import { storage } from "../storage";
+import { whatsAppBusinessService } from "../whatsapp-simple";
+import { sendSMS } from "./smsService";
+import { sendEmail } from "./emailService";
+import { formatPhoneToInternational } from "../../shared/phone-utils.js";
+import { formatCurrency } from "../../shared/utils/currency";
+import type { Broadcast, TemplateCampaign, User } from "@shared/schema";
+
+type CampaignType = 'broadcast' | 'template';
+
+interface CampaignContent {
+  message: string;
+  emailSubject: string;
+}
+
+export interface DispatchResult {
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  skippedCount: number;
+}
+
+// A campaign still in 'sending' after this long is assumed to belong to a crashed process
+const STALE_DISPATCH_MINUTES = 15;
+
+export class CampaignDispatchService {
+  private isDispatching = false;
+
+  /**
+   * Send every scheduled broadcast and template campaign whose time has passed.
+   * Called every minute from the scheduler in server/index.ts.
+   */
+  async dispatchDueCampaigns(): Promise<void> {
+    if (this.isDispatching) {
+      console.log('⏭️ Previous campaign dispatch still running, skipping this tick');
+      return;
+    }
+
+    this.isDispatching = true;
+    try {
+      const now = new Date();
+      const staleBefore = new Date(now.getTime() - STALE_DISPATCH_MINUTES * 60 * 1000);
+
+      // Failures are recorded on the campaign itself, so one bad campaign doesn't block the rest
+      const dueBroadcasts = await storage.claimDueBroadcasts(now, staleBefore);
+      for (const broadcast of dueBroadcasts) {
+        await this.dispatchBroadcast(broadcast).catch(() => undefined);
+      }
+
+      const dueCampaigns = await storage.claimDueTemplateCampaigns(now, staleBefore);
+      for (const campaign of dueCampaigns) {
+        await this.dispatchTemplateCampaign(campaign).catch(() => undefined);
+      }
+
+      if (dueBroadcasts.length > 0 || dueCampaigns.length > 0) {
+        console.log(`📬 Dispatched ${dueBroadcasts.length} scheduled broadcasts and ${dueCampaigns.length} template campaigns`);
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
+  /**
+   * Send a broadcast immediately. Returns null if it is already sending, sent or cancelled.
+   */
+  async sendBroadcastNow(broadcastId: number): Promise<DispatchResult | null> {
+    const broadcast = await storage.claimBroadcast(broadcastId);
+    if (!broadcast) return null;
+    return await this.dispatchBroadcast(broadcast);
+  }
+
+  /**
+   * Send a template campaign immediately. Returns null if it is already sending, sent or cancelled.
+   */
+  async sendTemplateCampaignNow(campaignId: number): Promise<DispatchResult | null> {
+    const campaign = await storage.claimTemplateCampaign(campaignId);
+    if (!campaign) return null;
+    return await this.dispatchTemplateCampaign(campaign);
+  }
+
+  /**
+   * Deliver a broadcast that has already been claimed (status 'sending')
+   */
+  private async dispatchBroadcast(broadcast: Broadcast): Promise<DispatchResult> {
+    try {
+      const [wholesaler, product] = await Promise.all([
+        storage.getUser(broadcast.wholesalerId),
+        storage.getProduct(broadcast.productId)
+      ]);
+      if (!wholesaler || !product || product.wholesalerId !== broadcast.wholesalerId) {
+        throw new Error('Wholesaler or product no longer exists');
+      }
+
+      const businessName = wholesaler.businessName || 'your supplier';
+      const portalUrl = `https://quikpik.app/customer/${wholesaler.id}`;
+      const price = broadcast.specialPrice || product.price;
+
+      const content: CampaignContent = {
+        message: broadcast.customMessage || [
+          broadcast.message,
+          `🛍️ *${product.name}*\nPrice: ${formatCurrency(price)}`,
+          `🛒 Order now: ${portalUrl}`,
+          `From: ${businessName}`
+        ].filter(Boolean).join('\n\n'),
+        emailSubject: `${product.name} from ${businessName}`
+      };
+
+      const result = await this.deliverToGroup('broadcast', broadcast.id, broadcast.customerGroupId, wholesaler, content);
+      const failed = result.sentCount === 0 && result.failedCount > 0;
+
+      await storage.updateBroadcastStatus(
+        broadcast.id,
+        failed ? 'failed' : 'sent',
+        new Date(),
+        result.sentCount,
+        undefined,
+        failed ? 'No messages could be delivered' : undefined
+      );
+
+      if (!failed) {
+        await this.applyPromotionalOffers(product.id, broadcast.promotionalOffers);
+      }
+
+      console.log(`📤 Broadcast ${broadcast.id} dispatched: ${result.sentCount} sent, ${result.failedCount} failed, ${result.skippedCount} skipped`);
+      return result;
+    } catch (error: any) {
+      console.error(`❌ Broadcast ${broadcast.id} dispatch failed:`, error);
+      await storage.updateBroadcastStatus(broadcast.id, 'failed', undefined, undefined, undefined, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver a template campaign that has already been claimed (status 'sending')
+   */
+  private async dispatchTemplateCampaign(campaign: TemplateCampaign): Promise<DispatchResult> {
+    try {
+      const [wholesaler, template] = await Promise.all([
+        storage.getUser(campaign.wholesalerId),
+        storage.getMessageTemplate(campaign.templateId)
+      ]);
+      if (!wholesaler || !template || template.wholesalerId !== campaign.wholesalerId) {
+        throw new Error('Wholesaler or template no longer exists');
+      }
+
+      const businessName = wholesaler.businessName || 'your supplier';
+      const portalUrl = campaign.campaignUrl || `https://quikpik.app/customer/${wholesaler.id}`;
+      // Only the wholesaler's own products are advertised or have offers applied
+      const templateProducts = template.products.filter(tp => tp.product?.wholesalerId === wholesaler.id);
+      const productLines = templateProducts
+        .map(tp => `• ${tp.product.name} - ${formatCurrency(tp.specialPrice || tp.product.price)}`);
+
+      const content: CampaignContent = {
+        message: campaign.customMessage || [
+          `📢 *${template.title}*`,
+          template.customMessage,
+          productLines.join('\n'),
+          template.includePurchaseLink !== false ? `🛒 Order now: ${portalUrl}` : null,
+          `From: ${businessName}`
+        ].filter(Boolean).join('\n\n'),
+        emailSubject: `${template.title} from ${businessName}`
+      };
+
+      const result = await this.deliverToGroup('template', campaign.id, campaign.customerGroupId, wholesaler, content);
+      const failed = result.sentCount === 0 && result.failedCount > 0;
+
+      await storage.updateTemplateCampaign(campaign.id, {
+        status: failed ? 'failed' : 'sent',
+        sentAt: new Date(),
+        recipientCount: result.sentCount,
+        errorMessage: failed ? 'No messages could be delivered' : null
+      });
+
+      if (!failed) {
+        for (const templateProduct of templateProducts) {
+          await this.applyPromotionalOffers(templateProduct.productId, templateProduct.promotionalOffers);
+        }
+      }
+
+      console.log(`📤 Template campaign ${campaign.id} dispatched: ${result.sentCount} sent, ${result.failedCount} failed, ${result.skippedCount} skipped`);
+      return result;
+    } catch (error: any) {
+      console.error(`❌ Template campaign ${campaign.id} dispatch failed:`, error);
+      await storage.updateTemplateCampaign(campaign.id, { status: 'failed', errorMessage: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Send the campaign to each group member that has not already been attempted.
+   * Recipients are recorded before the send so a restart never messages anyone twice.
+   */
+  private async deliverToGroup(
+    campaignType: CampaignType,
+    campaignId: number,
+    customerGroupId: number,
+    wholesaler: User,
+    content: CampaignContent
+  ): Promise<DispatchResult> {
+    const interrupted = await storage.failInterruptedCampaignRecipients(campaignType, campaignId);
+    if (interrupted > 0) {
+      console.log(`⚠️ ${interrupted} recipients of ${campaignType} ${campaignId} were interrupted mid-send and will not be retried`);
+    }
+
+    const members = await storage.getGroupMembers(customerGroupId, wholesaler.id);
+
+    for (const customer of members) {
+      const channel = this.selectChannel(wholesaler, customer);
+
+      const recipient = await storage.startCampaignRecipient({
+        campaignType,
+        campaignId,
+        wholesalerId: wholesaler.id,
+        customerId: customer.id,
+        channel: channel?.channel || null,
+        destination: channel?.destination || null
+      });
+      if (!recipient) {
+        // Already handled by an earlier (possibly interrupted) run
+        continue;
+      }
+
+      if (!channel) {
+        await storage.updateCampaignRecipient(recipient.id, { status: 'skipped', errorMessage: 'No phone number or email address' });
+        continue;
+      }
+
+      try {
+        const messageId = await this.send(channel.channel, channel.destination, wholesaler, content);
+        await storage.updateCampaignRecipient(recipient.id, { status: 'sent', messageId, sentAt: new Date() });
+      } catch (error: any) {
+        await storage.updateCampaignRecipient(recipient.id, { status: 'failed', errorMessage: error.message });
+      }
+    }
+
+    // Count from the delivery log so a resumed dispatch reports the whole campaign
+    const recipients = await storage.getCampaignDeliveryLog(campaignType, campaignId);
+    return {
+      recipientCount: recipients.length,
+      sentCount: recipients.filter(r => r.status === 'sent').length,
+      failedCount: recipients.filter(r => r.status === 'failed').length,
+      skippedCount: recipients.filter(r => r.status === 'skipped').length
+    };
+  }
+
+  /**
+   * WhatsApp when the wholesaler has Business API credentials, then SMS, then email
+   */
+  private selectChannel(wholesaler: User, customer: User): { channel: 'whatsapp' | 'sms' | 'email'; destination: string } | null {
+    const preferences = (customer.notificationPreferences || {}) as { email?: boolean; sms?: boolean };
+    const phone = customer.phoneNumber || customer.businessPhone;
+
+    if (phone && wholesaler.whatsappAccessToken && wholesaler.whatsappBusinessPhoneId) {
+      return { channel: 'whatsapp', destination: formatPhoneToInternational(phone) };
+    }
+    if (phone && preferences.sms !== false) {
+      return { channel: 'sms', destination: formatPhoneToInternational(phone) };
+    }
+    if (customer.email && preferences.email !== false) {
+      return { channel: 'email', destination: customer.email };
+    }
+    return null;
+  }
+
+  private async send(channel: 'whatsapp' | 'sms' | 'email', destination: string, wholesaler: User, content: CampaignContent): Promise<string | null> {
+    switch (channel) {
+      case 'whatsapp': {
+        const response = await whatsAppBusinessService.sendMessage(destination, content.message, {
+          accessToken: wholesaler.whatsappAccessToken!,
+          phoneNumberId: wholesaler.whatsappBusinessPhoneId!
+        });
+        return response.messageId;
+      }
+      case 'sms': {
+        const sent = await sendSMS({ to: destination, message: content.message.replace(/\*/g, '') });
+        if (!sent) throw new Error('SMS delivery failed');
+        return null;
+      }
+      case 'email': {
+        const sent = await sendEmail({
+          to: destination,
+          from: 'hello@quikpik.co',
+          subject: content.emailSubject,
+          text: content.message.replace(/\*/g, '')
+        });
+        if (!sent) throw new Error('Email delivery failed');
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Copy a campaign's promotional offers onto the product so they show in the customer portal
+   */
+  private async applyPromotionalOffers(productId: number, rawOffers: unknown): Promise<void> {
+    let offers: unknown = rawOffers;
+    try {
+      // Offers are stored as (sometimes double-encoded) JSON strings
+      while (typeof offers === 'string' && offers.trim() !== '') {
+        offers = JSON.parse(offers);
+      }
+    } catch (error) {
+      console.error(`❌ Could not parse promotional offers for product ${productId}:`, rawOffers);
+      return;
+    }
+
+    if (!Array.isArray(offers) || offers.length === 0) return;
+
+    try {
+      await storage.updateProductPromotionalOffers(productId, offers);
+      console.log(`🎯 Applied ${offers.length} promotional offers to product ${productId}`);
+    } catch (error) {
+      console.error(`❌ Error applying promotional offers to product ${productId}:`, error);
+    }
+  }
+}
+
+export const campaignDispatchService = new CampaignDispatchService();
@@ -0,0 +1,152 @@
+import { storage } from "../storage";
+import {
+  isCreditTerms,
+  calculatePaymentDueDate,
+  getAgedDebtBucket,
+  type AgedDebtBucket
+} from "../../shared/payment-terms";
+
+export interface CreditCheckResult {
+  allowed: boolean;
+  reason?: string;
+  paymentTerms: string;
+  creditLimit: number | null;
+  outstandingBalance: number;
+  availableCredit: number | null;
+  paymentDueDate?: Date;
+}
+
+export interface AgedDebtorRow {
+  customerId: string;
+  customerName: string;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+  paymentTerms: string;
+  creditLimit: number | null;
+  current: number;
+  days30: number;
+  days60: number;
+  days90Plus: number;
+  total: number;
+  orders: Array<{
+    id: number;
+    orderNumber: string;
+    total: number;
+    createdAt: Date | null;
+    paymentDueDate: Date | null;
+    bucket: AgedDebtBucket;
+  }>;
+}
+
+export class CreditAccountService {
+
+  /**
+   * Check whether a customer may place an on-account order of the given value.
+   * Pass the surrounding transaction so the account row is locked while the order is created.
+   */
+  async checkCreditAvailability(customerId: string, wholesalerId: string, orderTotal: number, trx?: any): Promise<CreditCheckResult> {
+    const relationship = await storage.getWholesalerCustomerRelationship(customerId, wholesalerId, trx);
+    const paymentTerms = relationship?.paymentTerms || 'immediate';
+    const creditLimit = relationship?.creditLimit != null ? parseFloat(relationship.creditLimit) : null;
+    const outstandingBalance = await storage.getOutstandingAccountBalance(customerId, wholesalerId, trx);
+    const availableCredit = creditLimit != null ? Math.max(0, creditLimit - outstandingBalance) : null;
+
+    const result: CreditCheckResult = {
+      allowed: false,
+      paymentTerms,
+      creditLimit,
+      outstandingBalance,
+      availableCredit
+    };
+
+    if (!relationship || relationship.status !== 'active') {
+      return { ...result, reason: 'No active trade account with this wholesaler' };
+    }
+
+    if (!isCreditTerms(paymentTerms)) {
+      return { ...result, reason: 'This account is not set up for credit terms' };
+    }
+
+    if (creditLimit == null || creditLimit <= 0) {
+      return { ...result, reason: 'No credit limit has been set for this account' };
+    }
+
+    if (outstandingBalance + orderTotal > creditLimit) {
+      console.log(`🚫 Credit limit exceeded for customer ${customerId}: £${outstandingBalance.toFixed(2)} + £${orderTotal.toFixed(2)} > £${creditLimit.toFixed(2)}`);
+      return {
+        ...result,
+        reason: `Order exceeds available credit (£${(availableCredit ?? 0).toFixed(2)} remaining of £${creditLimit.toFixed(2)} limit)`
+      };
+    }
+
+    return {
+      ...result,
+      allowed: true,
+      paymentDueDate: calculatePaymentDueDate(paymentTerms)
+    };
+  }
+
+  /**
+   * Build the aged-debtors report for a wholesaler, grouped by customer
+   */
+  async getAgedDebtors(wholesalerId: string): Promise<{ debtors: AgedDebtorRow[]; totals: Record<AgedDebtBucket | 'total', number> }> {
+    const unpaidOrders = await storage.getUnpaidAccountOrders(wholesalerId);
+    const debtorsByCustomer = new Map<string, AgedDebtorRow>();
+    const now = new Date();
+
+    for (const order of unpaidOrders) {
+      let row = debtorsByCustomer.get(order.retailerId);
+      if (!row) {
+        const relationship = await storage.getWholesalerCustomerRelationship(order.retailerId, wholesalerId);
+        const retailerName = order.retailer
+          ? (order.retailer.businessName || `${order.retailer.firstName || ''} ${order.retailer.lastName || ''}`.trim())
+          : '';
+        row = {
+          customerId: order.retailerId,
+          customerName: retailerName || order.customerName || 'Unknown customer',
+          customerEmail: order.retailer?.email || order.customerEmail,
+          customerPhone: order.retailer?.phoneNumber || order.customerPhone,
+          paymentTerms: relationship?.paymentTerms || 'immediate',
+          creditLimit: relationship?.creditLimit != null ? parseFloat(relationship.creditLimit) : null,
+          current: 0,
+          days30: 0,
+          days60: 0,
+          days90Plus: 0,
+          total: 0,
+          orders: []
+        };
+        debtorsByCustomer.set(order.retailerId, row);
+      }
+
+      // Less anything credited back, e.g. for returned goods
+      const amount = parseFloat(order.total) - parseFloat(order.accountCredit || '0');
+      const bucket = getAgedDebtBucket(order.createdAt || now, now);
+      row[bucket] += amount;
+      row.total += amount;
+      row.orders.push({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        total: amount,
+        createdAt: order.createdAt,
+        paymentDueDate: order.paymentDueDate,
+        bucket
+      });
+    }
+
+    const debtors = Array.from(debtorsByCustomer.values()).sort((a, b) => b.total - a.total);
+    const totals = debtors.reduce(
+      (acc, row) => ({
+        current: acc.current + row.current,
+        days30: acc.days30 + row.days30,
+        days60: acc.days60 + row.days60,
+        days90Plus: acc.days90Plus + row.days90Plus,
+        total: acc.total + row.total
+      }),
+      { current: 0, days30: 0, days60: 0, days90Plus: 0, total: 0 }
+    );
+
+    return { debtors, totals };
+  }
+}
+
+export const creditAccountService = new CreditAccountService();
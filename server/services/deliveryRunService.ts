@@ -0,0 +1,309 @@
+import { storage, type DeliveryRunWithStops, type RoutableOrder } from "../storage";
+import { fulfilmentService } from "./fulfilmentService";
+import { warehouseService } from "./warehouseService";
+import { orderNotificationService } from "./orderNotificationService";
+import { escapeHtml } from "./pdfService";
+import { DELIVERY_STOP_STATUS_LABELS, OWN_DELIVERY_CARRIER, sequenceStops, type DeliveryStopStatus } from "../../shared/delivery-runs";
+import { getOutstandingQuantity } from "../../shared/order-fulfilment";
+import { formatDeliveryAddress } from "../../shared/utils/address-formatter";
+import type { GeoPoint } from "../../shared/warehouses";
+import type { DeliveryRun, InsertDeliveryRunStop, Order, User } from "@shared/schema";
+
+export interface DeliveryRunInput {
+  deliveryDate: Date;
+  driverName: string;
+  driverPhone?: string | null;
+  warehouseId?: number | null;
+  notes?: string | null;
+}
+
+export interface DropOutcomeInput {
+  recipientName?: string | null;
+  failureReason?: string | null;
+  proofPhotoUrl?: string | null;
+}
+
+const MANIFEST_STYLES = `
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #111827; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  .muted { color: #6b7280; }
+  .sign { width: 140px; height: 28px; border-bottom: 1px solid #6b7280; display: inline-block; }
+`;
+
+export class DeliveryRunService {
+
+  /**
+   * Load a delivery run and check it belongs to the wholesaler
+   */
+  async getWholesalerRun(id: number, wholesalerId: string): Promise<DeliveryRunWithStops | null> {
+    const run = await storage.getDeliveryRun(id);
+    if (!run || run.wholesalerId !== wholesalerId) return null;
+    return run;
+  }
+
+  async createRun(wholesalerId: string, input: DeliveryRunInput, orderIds: number[], createdBy: string): Promise<DeliveryRunWithStops> {
+    const routable = await this.getRequestedOrders(wholesalerId, orderIds);
+    const { stops, totalDistanceKm } = await this.planStops(wholesalerId, input.warehouseId ?? null, routable);
+
+    const created = await storage.createDeliveryRun(
+      { ...input, wholesalerId, totalDistanceKm, createdBy },
+      stops
+    );
+    console.log(`🚐 Created delivery run ${created.runNumber} with ${stops.length} drops for ${input.driverName}`);
+    return (await storage.getDeliveryRun(created.id))!;
+  }
+
+  /**
+   * Change a planned run's details and/or its orders. The route is re-ordered
+   * whenever the orders or the loading warehouse change.
+   */
+  async updateRun(run: DeliveryRunWithStops, input: Partial<DeliveryRunInput>, orderIds?: number[]): Promise<DeliveryRunWithStops> {
+    if (run.status !== 'planned') {
+      throw new Error('Only planned runs can be changed');
+    }
+
+    if (Object.keys(input).length > 0) {
+      await storage.updateDeliveryRun(run.id, input);
+    }
+    if (orderIds || input.warehouseId !== undefined) {
+      await this.replan(run.wholesalerId, run.id, input.warehouseId !== undefined ? input.warehouseId : run.warehouseId, orderIds || run.stops.map(stop => stop.orderId));
+    }
+    return (await storage.getDeliveryRun(run.id))!;
+  }
+
+  async optimiseRun(run: DeliveryRunWithStops): Promise<DeliveryRunWithStops> {
+    if (run.status !== 'planned') {
+      throw new Error('Only planned runs can be re-ordered');
+    }
+    await this.replan(run.wholesalerId, run.id, run.warehouseId, run.stops.map(stop => stop.orderId));
+    return (await storage.getDeliveryRun(run.id))!;
+  }
+
+  /**
+   * Send the van out. Anything still to ship on each order goes on an own-van
+   * shipment, the orders are marked shipped and customers are told to expect
+   * the delivery on the run's date.
+   */
+  async startRun(run: DeliveryRunWithStops, wholesaler: User): Promise<DeliveryRunWithStops> {
+    if (run.status !== 'planned') {
+      throw new Error('Only planned runs can be started');
+    }
+    if (run.stops.length === 0) {
+      throw new Error('Add at least one order before starting the run');
+    }
+
+    for (const stop of run.stops) {
+      try {
+        const order = await this.dispatchOrder(stop.orderId, run);
+        if (order) {
+          await this.notifyCustomer(order, wholesaler, 'shipped', run.deliveryDate.toLocaleDateString('en-GB'));
+        }
+      } catch (error) {
+        console.error(`❌ Failed to dispatch order ${stop.orderNumber} on ${run.runNumber}:`, error);
+      }
+    }
+
+    await storage.updateDeliveryRun(run.id, { status: 'out_for_delivery', startedAt: new Date() });
+    console.log(`🚚 Delivery run ${run.runNumber} is out for delivery with ${run.stops.length} drops`);
+    return (await storage.getDeliveryRun(run.id))!;
+  }
+
+  async cancelRun(run: DeliveryRun): Promise<DeliveryRun> {
+    if (run.status !== 'planned') {
+      throw new Error('Only planned runs can be cancelled');
+    }
+    return await storage.updateDeliveryRun(run.id, { status: 'cancelled' });
+  }
+
+  /**
+   * Record a drop as delivered or failed and let the customer know
+   */
+  async recordDrop(
+    run: DeliveryRunWithStops,
+    stopId: number,
+    status: Exclude<DeliveryStopStatus, 'pending'>,
+    outcome: DropOutcomeInput,
+    completedBy: string,
+    wholesaler: User
+  ): Promise<DeliveryRunWithStops> {
+    if (status === 'failed' && !outcome.failureReason) {
+      throw new Error('A reason is required for a failed delivery');
+    }
+
+    let proofPhotoUrl: string | null = null;
+    if (outcome.proofPhotoUrl) {
+      const { ObjectStorageService } = await import('../objectStorage.js');
+      proofPhotoUrl = new ObjectStorageService().normalizeObjectEntityPath(outcome.proofPhotoUrl);
+    }
+
+    const { order } = await storage.completeDeliveryRunStop(run.id, stopId, {
+      status,
+      recipientName: outcome.recipientName || null,
+      failureReason: status === 'failed' ? outcome.failureReason : null,
+      proofPhotoUrl,
+      completedBy
+    });
+    console.log(`${status === 'delivered' ? '✅' : '⚠️'} ${run.runNumber}: order ${order.orderNumber} ${DELIVERY_STOP_STATUS_LABELS[status].toLowerCase()}`);
+
+    await this.notifyCustomer(order, wholesaler, status === 'delivered' ? 'delivered' : 'delivery_failed');
+    return (await storage.getDeliveryRun(run.id))!;
+  }
+
+  /**
+   * Driver's manifest: drops in driving order with addresses, contact numbers,
+   * delivery instructions and a space for the recipient's signature
+   */
+  renderManifestHtml(run: DeliveryRunWithStops, wholesaler: User): string {
+    const rows = run.stops.map(stop => {
+      const address = stop.addressLine1
+        ? [stop.addressLine1, stop.addressLine2, stop.city, stop.postcode].filter(Boolean) as string[]
+        : formatDeliveryAddress(stop.deliveryAddress);
+      const collectPayment = stop.paymentMethod === 'account' ? 'On account' : 'Paid';
+      return `
+      <tr>
+        <td><strong>${stop.sequence}</strong></td>
+        <td>
+          <strong>${escapeHtml(stop.customerName)}</strong><br>
+          ${address.map(escapeHtml).join('<br>')}
+          ${stop.customerPhone ? `<br><span class="muted">${escapeHtml(stop.customerPhone)}</span>` : ''}
+          ${stop.deliveryInstructions ? `<br><em>${escapeHtml(stop.deliveryInstructions)}</em>` : ''}
+        </td>
+        <td>${escapeHtml(stop.orderNumber)}<br><span class="muted">${collectPayment}</span></td>
+        <td>${stop.legDistanceKm ? `${stop.legDistanceKm} km` : '-'}</td>
+        <td>${stop.status === 'pending' ? '<span class="sign"></span>' : escapeHtml(DELIVERY_STOP_STATUS_LABELS[stop.status as DeliveryStopStatus])}</td>
+      </tr>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(run.runNumber)}</title><style>${MANIFEST_STYLES}</style></head>
+<body>
+  <h1>Delivery run ${escapeHtml(run.runNumber)}</h1>
+  <div class="muted">
+    ${escapeHtml(wholesaler.businessName)}${run.warehouseName ? ` · ${escapeHtml(run.warehouseName)}` : ''} ·
+    ${run.deliveryDate.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+  </div>
+  <div>
+    Driver: <strong>${escapeHtml(run.driverName)}</strong>${run.driverPhone ? ` (${escapeHtml(run.driverPhone)})` : ''} ·
+    ${run.stops.length} ${run.stops.length === 1 ? 'drop' : 'drops'}${run.totalDistanceKm ? ` · approx. ${run.totalDistanceKm} km` : ''}
+  </div>
+  ${run.notes ? `<p><strong>Notes:</strong> ${escapeHtml(run.notes)}</p>` : ''}
+  <table>
+    <thead><tr><th>#</th><th>Deliver to</th><th>Order</th><th>Leg</th><th>Signature</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+  }
+
+  private async getRequestedOrders(wholesalerId: string, orderIds: number[], exceptRunId?: number): Promise<RoutableOrder[]> {
+    const uniqueIds = Array.from(new Set(orderIds));
+    const routable = await storage.getRoutableOrders(wholesalerId, uniqueIds, exceptRunId);
+    if (routable.length !== uniqueIds.length) {
+      throw new Error('Some orders are not delivery orders waiting for a van');
+    }
+    return routable;
+  }
+
+  private async replan(wholesalerId: string, runId: number, warehouseId: number | null, orderIds: number[]): Promise<void> {
+    const routable = await this.getRequestedOrders(wholesalerId, orderIds, runId);
+    const { stops, totalDistanceKm } = await this.planStops(wholesalerId, warehouseId, routable);
+    await storage.replaceDeliveryRunStops(runId, stops, totalDistanceKm);
+  }
+
+  /**
+   * Locate each drop from its postcode and put them in driving order from the
+   * loading warehouse (or the default warehouse)
+   */
+  private async planStops(
+    wholesalerId: string,
+    warehouseId: number | null,
+    routable: RoutableOrder[]
+  ): Promise<{ stops: Omit<InsertDeliveryRunStop, 'runId'>[]; totalDistanceKm: string | null }> {
+    const warehouses = (await storage.getWarehouses(wholesalerId)).filter(w => w.isActive);
+    const depot = warehouses.find(w => w.id === warehouseId) || warehouses.find(w => w.isDefault) || warehouses[0];
+    const start: GeoPoint | null = depot?.latitude && depot?.longitude
+      ? { latitude: parseFloat(depot.latitude), longitude: parseFloat(depot.longitude) }
+      : null;
+
+    // One lookup per postcode - a van often has several drops on the same street
+    const points = new Map<string, GeoPoint | null>();
+    for (const order of routable) {
+      if (order.postcode && !points.has(order.postcode)) {
+        points.set(order.postcode, await warehouseService.geocodePostcode(order.postcode));
+      }
+    }
+
+    const sequenced = sequenceStops(start, routable.map(order => ({
+      orderId: order.id,
+      postcode: order.postcode,
+      point: order.postcode ? points.get(order.postcode) || null : null
+    })));
+
+    const legs = sequenced.filter(stop => stop.legDistanceKm !== null);
+    const totalDistanceKm = legs.length > 0
+      ? legs.reduce((total, stop) => total + stop.legDistanceKm!, 0).toFixed(1)
+      : null;
+
+    return {
+      stops: sequenced.map(stop => ({
+        orderId: stop.orderId,
+        sequence: stop.sequence,
+        postcode: stop.postcode,
+        latitude: stop.point ? stop.point.latitude.toFixed(6) : null,
+        longitude: stop.point ? stop.point.longitude.toFixed(6) : null,
+        legDistanceKm: stop.legDistanceKm !== null ? stop.legDistanceKm.toFixed(1) : null
+      })),
+      totalDistanceKm
+    };
+  }
+
+  private async dispatchOrder(orderId: number, run: DeliveryRun): Promise<Order | null> {
+    const order = await storage.getOrder(orderId);
+    if (!order) return null;
+
+    const outstanding = order.items
+      .map(item => ({ orderItemId: item.id, quantity: getOutstandingQuantity(item) }))
+      .filter(line => line.quantity > 0);
+    if (outstanding.length > 0) {
+      await fulfilmentService.createShipment(order, outstanding, { carrier: OWN_DELIVERY_CARRIER, notes: `Delivery run ${run.runNumber}` });
+    }
+
+    // Shipments made while picking have no carrier yet - they go out on this van
+    const shipments = await storage.getOrderShipments(orderId);
+    for (const shipment of shipments) {
+      if (shipment.status === 'pending' && !shipment.trackingNumber && !shipment.shippingOrderId) {
+        await storage.updateOrderShipment(shipment.id, { carrier: OWN_DELIVERY_CARRIER, status: 'dispatched', dispatchedAt: new Date() });
+      }
+    }
+
+    // A retried drop was already shipped before it failed
+    const updated = order.status === 'delivery_failed'
+      ? await storage.updateOrder(orderId, { status: 'shipped', deliveryCarrier: OWN_DELIVERY_CARRIER })
+      : await storage.getOrder(orderId);
+    return updated || null;
+  }
+
+  private async notifyCustomer(order: Order, wholesaler: User, status: string, estimatedDelivery?: string): Promise<void> {
+    try {
+      await orderNotificationService.sendOrderStatusUpdate({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status,
+        customerName: order.customerName || 'Customer',
+        customerPhone: order.customerPhone || '',
+        customerEmail: order.customerEmail || undefined,
+        wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim(),
+        estimatedDelivery
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send delivery update for order ${order.id}:`, error);
+    }
+  }
+}
+
+export const deliveryRunService = new DeliveryRunService();
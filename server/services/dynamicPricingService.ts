@@ -1,6 +1,8 @@
 import { db } from "../db";
 import { products, orders, orderItems, users } from "../../shared/schema";
 import { eq, and, gte, desc, sql, count, avg } from "drizzle-orm";
+import { priceChangeService, type PriceRecommendationInput } from "./priceChangeService";
+import type { PriceChangeBatchWithProposals } from "../storage";
 
 export interface PricingRecommendation {
   productId: number;
@@ -135,9 +137,27 @@ export class DynamicPricingService {
   }
 
   /**
-   * Implement automated price adjustments based on demand
+   * Queue a strategy's recommendations for approval
    */
-  async implementDemandBasedPricing(wholesalerId: string): Promise<{ updated: number; revenue_impact: number }> {
+  async queuePricingStrategy(
+    wholesalerId: string,
+    strategy: 'profit_optimization' | 'market_penetration' | 'inventory_clearance' | 'demand_based'
+  ): Promise<PriceChangeBatchWithProposals | null> {
+    const { recommendations } = await this.generatePricingStrategy(wholesalerId, strategy);
+    return await priceChangeService.queueRecommendations(wholesalerId, strategy, recommendations.map(rec => ({
+      productId: rec.productId,
+      recommendedPrice: rec.recommendedPrice,
+      reasoning: rec.reasoning,
+      confidence: rec.confidence
+    })));
+  }
+
+  /**
+   * Work out demand-based price adjustments and queue them for approval.
+   * Prices only change once the batch is approved; estimated_revenue_impact is
+   * what the pending proposals would add over a month of recent sales if they were.
+   */
+  async implementDemandBasedPricing(wholesalerId: string): Promise<{ queued: number; batchId: number | null; estimated_revenue_impact: number }> {
     try {
       const last30Days = new Date();
       last30Days.setDate(last30Days.getDate() - 30);
@@ -160,8 +180,7 @@ export class DynamicPricingService {
         .where(eq(products.wholesalerId, wholesalerId))
         .groupBy(products.id, products.price, products.stock);
 
-      let updatedCount = 0;
-      let totalRevenueImpact = 0;
+      const recommendations: PriceRecommendationInput[] = [];
 
       for (const product of demandData) {
         const demandScore = this.calculateDemandScore(
@@ -172,45 +191,52 @@ export class DynamicPricingService {
 
         let newPrice = Number(product.currentPrice);
         let priceAdjustment = 0;
+        let reasoning = '';
 
         // High demand + low stock = increase price
         if (demandScore > 80 && product.stock && product.stock < 50) {
           priceAdjustment = 0.05; // 5% increase
+          reasoning = 'High demand with low stock';
         }
         // Low demand + high stock = decrease price
         else if (demandScore < 30 && product.stock && product.stock > 100) {
           priceAdjustment = -0.10; // 10% decrease
+          reasoning = 'Low demand with high stock';
         }
         // Moderate demand = small adjustments
         else if (demandScore > 60) {
           priceAdjustment = 0.02; // 2% increase
+          reasoning = 'Steady demand';
         }
 
         if (priceAdjustment !== 0) {
           newPrice = Number(product.currentPrice) * (1 + priceAdjustment);
           
-          // Update product price
-          await db
-            .update(products)
-            .set({ price: newPrice.toFixed(2) })
-            .where(eq(products.id, product.productId));
-
-          updatedCount++;
-          
-          // Estimate revenue impact based on recent sales
-          const estimatedMonthlySales = Number(product.recentSales);
-          totalRevenueImpact += estimatedMonthlySales * (newPrice - Number(product.currentPrice));
+          recommendations.push({
+            productId: product.productId,
+            recommendedPrice: newPrice,
+            reasoning: `${reasoning} (demand score ${demandScore})`
+          });
         }
       }
 
+      const batch = await priceChangeService.queueRecommendations(wholesalerId, 'demand_based', recommendations);
+      const pending = batch ? batch.proposals.filter(proposal => proposal.status === 'pending') : [];
+
+      // Priced at what was actually queued, after guardrails, not the raw recommendation
+      const monthlySales = new Map(demandData.map(product => [product.productId, Number(product.recentSales)]));
+      const estimatedRevenueImpact = pending.reduce((sum, proposal) =>
+        sum + (monthlySales.get(proposal.productId) || 0) * (Number(proposal.proposedPrice) - Number(proposal.currentPrice)), 0);
+
       return {
-        updated: updatedCount,
-        revenue_impact: totalRevenueImpact
+        queued: pending.length,
+        batchId: batch?.id ?? null,
+        estimated_revenue_impact: Math.round(estimatedRevenueImpact * 100) / 100
       };
 
     } catch (error) {
       console.error('Error implementing demand-based pricing:', error);
-      return { updated: 0, revenue_impact: 0 };
+      return { queued: 0, batchId: null, estimated_revenue_impact: 0 };
     }
   }
 
@@ -0,0 +1,95 @@
+import { storage } from "../storage";
+import type { Order, OrderShipment, OrderShipmentItem, InsertOrderShipment } from "@shared/schema";
+
+export interface ShipmentLineInput {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface FulfilmentAdjustmentInput {
+  orderItemId: number;
+  backorderQuantity?: number;
+  cancelQuantity?: number;
+}
+
+export class FulfilmentService {
+
+  /**
+   * Load an order and check it belongs to the wholesaler
+   */
+  async getWholesalerOrder(orderId: number, wholesalerId: string): Promise<Order | null> {
+    const order = await storage.getOrder(orderId);
+    if (!order || order.wholesalerId !== wholesalerId) return null;
+    return order;
+  }
+
+  /**
+   * Ship some or all of the outstanding quantities on an order as a new shipment
+   */
+  async createShipment(
+    order: Order,
+    lines: ShipmentLineInput[],
+    details: Partial<Omit<InsertOrderShipment, 'orderId' | 'wholesalerId' | 'shipmentNumber'>> = {}
+  ): Promise<OrderShipment & { items: OrderShipmentItem[] }> {
+    const shipLines = lines.filter(line => line.quantity > 0);
+    if (shipLines.length === 0) {
+      throw new Error('A shipment needs at least one line with a quantity');
+    }
+
+    const shipment = await storage.createOrderShipment(
+      order.id,
+      {
+        ...details,
+        wholesalerId: order.wholesalerId,
+        status: details.trackingNumber || details.shippingOrderId ? 'dispatched' : 'pending',
+        dispatchedAt: details.trackingNumber || details.shippingOrderId ? new Date() : null
+      },
+      shipLines
+    );
+
+    console.log(`🚚 Created shipment #${shipment.shipmentNumber} for order ${order.orderNumber} with ${shipLines.length} lines`);
+    return shipment;
+  }
+
+  /**
+   * Mark lines as backordered or cancelled. Cancelling frees any stock that was
+   * held for the line, which may in turn release other customers' backorders.
+   */
+  async adjustFulfilment(order: Order, adjustments: FulfilmentAdjustmentInput[]) {
+    const before = await storage.getOrderItems(order.id);
+    const items = await storage.adjustOrderItemFulfilment(order.id, adjustments);
+
+    const restockedProductIds = new Set<number>();
+    for (const adjustment of adjustments) {
+      if (!adjustment.cancelQuantity) continue;
+      const item = before.find(i => i.id === adjustment.orderItemId);
+      if (item) restockedProductIds.add(item.productId);
+    }
+
+    for (const productId of Array.from(restockedProductIds)) {
+      await this.releaseBackorders(productId);
+    }
+
+    console.log(`📋 Updated fulfilment for order ${order.orderNumber}`);
+    return items;
+  }
+
+  /**
+   * Allocate newly available stock to backordered lines, oldest order first
+   */
+  async releaseBackorders(productId: number) {
+    try {
+      const releases = await storage.releaseBackorders(productId);
+      if (releases.length > 0) {
+        const total = releases.reduce((sum, release) => sum + release.quantity, 0);
+        console.log(`📦 Released ${total} backordered units of product ${productId} to ${releases.length} order lines`);
+      }
+      return releases;
+    } catch (error) {
+      console.error(`❌ Failed to release backorders for product ${productId}:`, error);
+      return [];
+    }
+  }
+}
+
+export const fulfilmentService = new FulfilmentService();
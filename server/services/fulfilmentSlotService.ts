@@ -0,0 +1,233 @@
+import { storage } from "../storage";
+import {
+  FULFILMENT_SLOT_TYPE_LABELS,
+  isSlotTime,
+  listSlotOptions,
+  toUkTime,
+  type FulfilmentSlotType,
+  type SlotOption
+} from "../../shared/fulfilment-slots";
+import type { FulfilmentSlot, FulfilmentClosure, InsertFulfilmentSlot } from "@shared/schema";
+
+export interface FulfilmentSlotInput {
+  type: FulfilmentSlotType;
+  warehouseId?: number | null;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity?: number | null;
+  cutoffDaysBefore?: number;
+  cutoffTime?: string;
+  isActive?: boolean;
+}
+
+// The parts of checkout's shippingInfo that decide the slot
+export interface SlotChoice {
+  option?: string;
+  collectionWarehouseId?: number | string | null;
+  slotId?: number | string | null;
+  slotDate?: string | null;
+  service?: { serviceId?: string | number } | null;
+}
+
+export interface BookedSlot {
+  fulfilmentSlotId: number;
+  slotStartsAt: Date;
+  slotEndsAt: Date;
+}
+
+export class SlotUnavailableError extends Error {}
+
+export class FulfilmentSlotService {
+
+  async getWholesalerSlot(id: number, wholesalerId: string): Promise<FulfilmentSlot | null> {
+    const slot = await storage.getFulfilmentSlot(id);
+    if (!slot || slot.wholesalerId !== wholesalerId) return null;
+    return slot;
+  }
+
+  async getWholesalerClosure(id: number, wholesalerId: string): Promise<FulfilmentClosure | null> {
+    const closure = await storage.getFulfilmentClosure(id);
+    if (!closure || closure.wholesalerId !== wholesalerId) return null;
+    return closure;
+  }
+
+  async createSlot(wholesalerId: string, input: FulfilmentSlotInput): Promise<FulfilmentSlot> {
+    const values = await this.validateSlotInput(wholesalerId, input);
+    return await storage.createFulfilmentSlot({ ...values, wholesalerId } as InsertFulfilmentSlot);
+  }
+
+  async updateSlot(slot: FulfilmentSlot, input: Partial<FulfilmentSlotInput>): Promise<FulfilmentSlot> {
+    const values = await this.validateSlotInput(slot.wholesalerId, {
+      type: slot.type as FulfilmentSlotType,
+      warehouseId: slot.warehouseId,
+      dayOfWeek: slot.dayOfWeek,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      capacity: slot.capacity,
+      cutoffDaysBefore: slot.cutoffDaysBefore,
+      cutoffTime: slot.cutoffTime,
+      isActive: slot.isActive,
+      ...input
+    });
+    return await storage.updateFulfilmentSlot(slot.id, values);
+  }
+
+  async addClosure(wholesalerId: string, startsOn: Date, endsOn: Date, reason?: string | null): Promise<FulfilmentClosure> {
+    if (isNaN(startsOn.getTime()) || isNaN(endsOn.getTime())) {
+      throw new Error('Closure dates are required');
+    }
+    if (endsOn < startsOn) {
+      throw new Error('A closure must end on or after the day it starts');
+    }
+    return await storage.createFulfilmentClosure({ wholesalerId, startsOn, endsOn, reason: reason || null });
+  }
+
+  /**
+   * Slots a customer can book for pickup (at the chosen depot) or delivery.
+   * Empty when the wholesaler hasn't set up slots of that type.
+   */
+  async getAvailableSlots(wholesalerId: string, type: FulfilmentSlotType, collectionWarehouseId?: number | string | null): Promise<SlotOption[]> {
+    const slots = await this.getBookableSlots(wholesalerId, type, collectionWarehouseId);
+    return slots.length > 0 ? await this.listOptions(wholesalerId, slots) : [];
+  }
+
+  /**
+   * Check the slot chosen at checkout is still open and has space. Pickup and
+   * own-van delivery need a slot once the wholesaler offers slots of that type;
+   * courier deliveries don't. Returns null when no slot applies.
+   */
+  async checkCheckoutSlot(wholesalerId: string, choice: SlotChoice | null | undefined): Promise<BookedSlot | null> {
+    if (choice?.service?.serviceId) return null;
+    const type: FulfilmentSlotType = choice?.option === 'delivery' ? 'delivery' : 'collection';
+
+    const slots = await this.getBookableSlots(wholesalerId, type, choice?.collectionWarehouseId);
+    if (slots.length === 0) return null;
+
+    const label = FULFILMENT_SLOT_TYPE_LABELS[type].toLowerCase();
+    if (!choice?.slotId || !choice.slotDate) {
+      throw new Error(`Please choose a ${label} slot`);
+    }
+
+    const options = await this.listOptions(wholesalerId, slots);
+    const option = options.find(o => o.slotId === Number(choice.slotId) && o.date === choice.slotDate);
+    if (!option) {
+      throw new Error(`That ${label} slot is no longer available - please choose another`);
+    }
+    return { fulfilmentSlotId: option.slotId, slotStartsAt: new Date(option.startsAt), slotEndsAt: new Date(option.endsAt) };
+  }
+
+  /**
+   * The slot recorded on a card order when its payment completes. Availability
+   * was checked when the payment was set up, so a paid order keeps its slot
+   * even if the slot has filled up since.
+   */
+  async resolveBookedSlot(wholesalerId: string, choice: SlotChoice | null | undefined): Promise<BookedSlot | null> {
+    if (!choice?.slotId || !choice.slotDate || choice.service?.serviceId) return null;
+    const slot = await storage.getFulfilmentSlot(Number(choice.slotId));
+    if (!slot || slot.wholesalerId !== wholesalerId) return null;
+
+    return {
+      fulfilmentSlotId: slot.id,
+      slotStartsAt: toUkTime(choice.slotDate, slot.startTime),
+      slotEndsAt: toUkTime(choice.slotDate, slot.endTime)
+    };
+  }
+
+  /**
+   * Take the slot's place inside the order transaction. Checkouts for the same
+   * slot queue on a lock and recount, so the last place can't go twice. A
+   * paid order keeps its place even if the slot has filled since payment.
+   */
+  async reserveSlot(trx: any, bookedSlot: BookedSlot | null, options: { paid?: boolean } = {}): Promise<void> {
+    if (!bookedSlot) return;
+    await storage.lockSlotBookings(trx, bookedSlot.fulfilmentSlotId, bookedSlot.slotStartsAt);
+
+    const slot = await storage.getFulfilmentSlot(bookedSlot.fulfilmentSlotId);
+    if (!slot?.capacity) return;
+
+    const bookings = await storage.countSlotBookings(trx, bookedSlot.fulfilmentSlotId, bookedSlot.slotStartsAt);
+    if (bookings < slot.capacity) return;
+
+    if (options.paid) {
+      console.warn(`⚠️ Slot ${slot.id} on ${bookedSlot.slotStartsAt.toISOString()} is over capacity (${bookings + 1}/${slot.capacity}) - keeping the paid order in it`);
+      return;
+    }
+    const label = FULFILMENT_SLOT_TYPE_LABELS[slot.type as FulfilmentSlotType].toLowerCase();
+    throw new SlotUnavailableError(`That ${label} slot has just filled up - please choose another`);
+  }
+
+  private async listOptions(wholesalerId: string, slots: FulfilmentSlot[]): Promise<SlotOption[]> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [closures, bookings] = await Promise.all([
+      storage.getFulfilmentClosures(wholesalerId, since),
+      storage.getSlotBookingCounts(wholesalerId, since)
+    ]);
+    return listSlotOptions(slots, closures, bookings);
+  }
+
+  private async getBookableSlots(wholesalerId: string, type: FulfilmentSlotType, collectionWarehouseId?: number | string | null): Promise<FulfilmentSlot[]> {
+    const slots = (await storage.getFulfilmentSlots(wholesalerId, type)).filter(slot => slot.isActive);
+    if (type !== 'collection' || !slots.some(slot => slot.warehouseId)) return slots;
+
+    // Depot-specific collection windows: the buyer's chosen depot, or the default one
+    let depotId = collectionWarehouseId ? Number(collectionWarehouseId) : null;
+    if (!depotId) {
+      const depots = await storage.getCollectionDepots(wholesalerId);
+      depotId = (depots.find(depot => depot.isDefault) || depots[0])?.id || null;
+    }
+    return slots.filter(slot => !slot.warehouseId || slot.warehouseId === depotId);
+  }
+
+  private async validateSlotInput(wholesalerId: string, input: FulfilmentSlotInput): Promise<Omit<InsertFulfilmentSlot, 'wholesalerId'>> {
+    if (!(input.type in FULFILMENT_SLOT_TYPE_LABELS)) {
+      throw new Error('Slot type must be delivery or collection');
+    }
+    if (!Number.isInteger(input.dayOfWeek) || input.dayOfWeek < 0 || input.dayOfWeek > 6) {
+      throw new Error('Choose a day of the week');
+    }
+    if (!isSlotTime(input.startTime) || !isSlotTime(input.endTime)) {
+      throw new Error('Times must be in HH:MM format');
+    }
+    if (input.endTime <= input.startTime) {
+      throw new Error('A slot must end after it starts');
+    }
+    if (input.capacity != null && (!Number.isInteger(input.capacity) || input.capacity < 1)) {
+      throw new Error('Capacity must be at least 1 order, or left blank for no limit');
+    }
+    const cutoffDaysBefore = input.cutoffDaysBefore ?? 1;
+    if (!Number.isInteger(cutoffDaysBefore) || cutoffDaysBefore < 0 || cutoffDaysBefore > 14) {
+      throw new Error('Cut-off must be between 0 and 14 days before');
+    }
+    const cutoffTime = input.cutoffTime || '17:00';
+    if (!isSlotTime(cutoffTime)) {
+      throw new Error('Cut-off time must be in HH:MM format');
+    }
+    if (cutoffDaysBefore === 0 && cutoffTime > input.startTime) {
+      throw new Error('A same-day cut-off must be before the slot starts');
+    }
+
+    let warehouseId: number | null = null;
+    if (input.type === 'collection' && input.warehouseId) {
+      const warehouse = await storage.getWarehouse(Number(input.warehouseId));
+      if (!warehouse || warehouse.wholesalerId !== wholesalerId || !warehouse.allowCollection) {
+        throw new Error('Choose one of your collection depots');
+      }
+      warehouseId = warehouse.id;
+    }
+
+    return {
+      type: input.type,
+      warehouseId,
+      dayOfWeek: input.dayOfWeek,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      capacity: input.capacity ?? null,
+      cutoffDaysBefore,
+      cutoffTime,
+      isActive: input.isActive ?? true
+    };
+  }
+}
+
+export const fulfilmentSlotService = new FulfilmentSlotService();
@@ -0,0 +1,451 @@
+import { storage } from "../storage";
+import { sendEmail } from "../sendgrid-service";
+import { ObjectStorageService } from "../objectStorage";
+import { escapeHtml, pdfService } from "./pdfService";
+import {
+  INVOICE_DOCUMENT_LABELS,
+  summarizeInvoiceVat,
+  totalInvoiceLines,
+  type InvoiceLine,
+  type InvoiceParty
+} from "../../shared/invoices";
+import { VAT_RATES, getVatRateLabel, isVatRateCode, splitGrossAmount } from "../../shared/vat";
+import { isAcceptedReturnLine } from "../../shared/returns";
+import { formatCurrency } from "../../shared/utils/currency";
+import { formatDeliveryAddress } from "../../shared/utils/address-formatter";
+import type { Invoice, Order, OrderItem, Product, ReturnRequest, ReturnRequestItem, User } from "@shared/schema";
+
+type OrderWithItems = Order & { items: (OrderItem & { product: Product })[]; retailer: User; wholesaler: User };
+
+type ReturnWithItems = ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[] };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const INVOICE_STYLES = `
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #111827; margin: 0; }
+  h1 { font-size: 22px; margin: 0; }
+  h3 { font-size: 13px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .num { text-align: right; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #22c55e; padding-bottom: 12px; }
+  .logo { max-height: 60px; max-width: 200px; }
+  .parties { display: flex; justify-content: space-between; margin-top: 16px; gap: 16px; }
+  .totals { margin-left: auto; width: 260px; margin-top: 16px; }
+  .totals div { display: flex; justify-content: space-between; padding: 3px 0; }
+  .grand { font-size: 15px; font-weight: bold; border-top: 1px solid #111827; margin-top: 4px; padding-top: 6px !important; }
+`;
+
+export class InvoiceService {
+
+  /**
+   * The order's invoice, issuing it if the order doesn't have one yet. A new
+   * invoice is filed and emailed to the customer unless notify is off (e.g.
+   * when it is first issued for an old order by downloading it).
+   */
+  async issueForOrder(orderId: number, notify = true): Promise<Invoice> {
+    const existing = (await storage.getOrderInvoices(orderId)).find(doc => doc.documentType === 'invoice');
+    if (existing) return existing;
+
+    const order = await storage.getOrder(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const lines = this.getOrderLines(order);
+    const invoice = await storage.createInvoice({
+      wholesalerId: order.wholesalerId,
+      orderId: order.id,
+      customerId: order.retailerId,
+      documentType: 'invoice',
+      currency: order.wholesaler?.preferredCurrency || 'GBP',
+      seller: await this.getSeller(order.wholesaler),
+      buyer: this.getBuyer(order),
+      lines,
+      ...this.toTotals(lines)
+    }, order.wholesaler?.invoiceNumberPrefix || null);
+
+    console.log(`🧾 Invoice ${invoice.invoiceNumber} issued for order ${order.orderNumber}: ${invoice.total}`);
+    if (notify && !invoice.emailedAt) {
+      await this.deliver(invoice);
+    }
+    return invoice;
+  }
+
+  /**
+   * Credit note for money given back on an order. A null amount (or anything
+   * up to what is still uncredited) credits the rest of the invoice; a full
+   * credit repeats the invoice lines, a partial one is split across its VAT
+   * rates in proportion.
+   */
+  async creditRefund(orderId: number, amount: number | null, reason: string, stripeRefundId?: string | null): Promise<Invoice | null> {
+    const invoice = await this.issueForOrder(orderId, false);
+    const creditNotes = (await storage.getOrderInvoices(orderId)).filter(doc => doc.creditedInvoiceId === invoice.id);
+    const remaining = roundMoney(parseFloat(invoice.total) - creditNotes.reduce((sum, doc) => sum + parseFloat(doc.total), 0));
+    const credit = roundMoney(Math.min(amount ?? remaining, remaining));
+    if (credit <= 0) return null;
+
+    const lines = creditNotes.length === 0 && credit >= remaining
+      ? invoice.lines
+      : this.apportionCredit(invoice, credit);
+    return await this.issueCreditNote(invoice, lines, { reason, stripeRefundId: stripeRefundId || null });
+  }
+
+  /**
+   * Credit note for the accepted lines of a refunded return, at the VAT rate
+   * each line was sold at
+   */
+  async creditReturn(returnRequest: ReturnWithItems, stripeRefundId: string | null): Promise<Invoice | null> {
+    const order = await storage.getOrder(returnRequest.orderId);
+    if (!order) return null;
+    const invoice = await this.issueForOrder(order.id, false);
+
+    const lines = returnRequest.items.filter(isAcceptedReturnLine).map((item): InvoiceLine => {
+      const orderItem = order.items.find(line => line.id === item.orderItemId);
+      const vatRate = isVatRateCode(orderItem?.vatRate) ? orderItem!.vatRate as InvoiceLine['vatRate'] : null;
+      const vatPercent = vatRate ? parseFloat(orderItem?.vatRatePercent || '0') : 0;
+      const unitPrice = parseFloat(item.unitPrice);
+      return {
+        kind: 'product',
+        productId: item.productId,
+        category: orderItem?.product?.category || null,
+        description: `${item.productName || orderItem?.product?.name || `Product ${item.productId}`} (returned)`,
+        quantity: item.quantity,
+        unitPrice,
+        vatRate,
+        vatPercent,
+        ...this.splitLine(unitPrice * item.quantity, vatPercent)
+      };
+    });
+    if (lines.length === 0) return null;
+
+    return await this.issueCreditNote(invoice, lines, {
+      reason: `Return ${returnRequest.returnNumber}`,
+      returnRequestId: returnRequest.id,
+      stripeRefundId
+    });
+  }
+
+  /**
+   * The document's PDF - from object storage when it has been filed, otherwise
+   * rendered from the issued details (and filed for next time)
+   */
+  async getPdf(document: Invoice): Promise<Buffer> {
+    const objectStorage = new ObjectStorageService();
+    if (document.pdfPath) {
+      try {
+        return await objectStorage.readObjectEntity(document.pdfPath);
+      } catch (error: any) {
+        console.error(`❌ Stored PDF for ${document.invoiceNumber} unavailable, re-rendering:`, error.message);
+      }
+    }
+
+    const creditedInvoice = document.creditedInvoiceId ? await storage.getInvoice(document.creditedInvoiceId) : null;
+    const pdf = await pdfService.renderPdf(this.renderHtml(document, creditedInvoice));
+    try {
+      const pdfPath = await objectStorage.uploadObjectEntity(
+        `invoices/${document.wholesalerId}/${document.invoiceNumber}.pdf`,
+        pdf,
+        'application/pdf'
+      );
+      await storage.updateInvoiceDelivery(document.id, { pdfPath });
+    } catch (error: any) {
+      console.error(`❌ Failed to file PDF for ${document.invoiceNumber}:`, error.message);
+    }
+    return pdf;
+  }
+
+  /**
+   * Email the document to the customer with the PDF attached
+   */
+  async emailDocument(document: Invoice): Promise<boolean> {
+    if (!document.buyer.email) return false;
+
+    const label = INVOICE_DOCUMENT_LABELS[document.documentType];
+    const order = await storage.getOrder(document.orderId);
+    const pdf = await this.getPdf(document);
+    const sent = await sendEmail({
+      to: document.buyer.email,
+      from: 'hello@quikpik.co',
+      subject: `${label} ${document.invoiceNumber} from ${document.seller.name}`,
+      text: [
+        `Hello ${document.buyer.name},`,
+        `Please find attached ${label.toLowerCase()} ${document.invoiceNumber} for order ${order?.orderNumber || document.orderId}, ` +
+          `totalling ${formatCurrency(document.total, document.currency)}.`,
+        document.reason ? `Reason: ${document.reason}` : '',
+        `Thank you for your business,\n${document.seller.name}`
+      ].filter(Boolean).join('\n\n'),
+      attachments: [{
+        content: pdf.toString('base64'),
+        filename: `${document.invoiceNumber}.pdf`,
+        type: 'application/pdf',
+        disposition: 'attachment'
+      }]
+    });
+
+    if (sent) {
+      await storage.updateInvoiceDelivery(document.id, { emailedAt: new Date() });
+    }
+    return sent;
+  }
+
+  renderHtml(document: Invoice, creditedInvoice?: Invoice | null): string {
+    const isCreditNote = document.documentType === 'credit_note';
+    const money = (amount: number | string) => formatCurrency(amount, document.currency);
+    const vatSummary = summarizeInvoiceVat(document.lines);
+    const isVatDocument = !!document.seller.vatNumber && vatSummary.length > 0;
+    const title = isCreditNote ? 'CREDIT NOTE' : isVatDocument ? 'VAT INVOICE' : 'INVOICE';
+    const { seller, buyer } = document;
+
+    const partyLines = (party: InvoiceParty) => [
+      party.address,
+      party.email,
+      party.phone,
+      party.vatNumber ? `VAT Reg No: ${party.vatNumber}` : null
+    ].filter(Boolean).map(line => escapeHtml(line)).join('<br>');
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title} ${escapeHtml(document.invoiceNumber)}</title><style>${INVOICE_STYLES}</style></head>
+<body>
+  <div class="header">
+    <div>
+      ${seller.logoUrl ? `<img class="logo" src="${escapeHtml(seller.logoUrl)}" alt=""><br>` : ''}
+      <h1>${escapeHtml(seller.name)}</h1>
+    </div>
+    <div class="num">
+      <h1>${title}</h1>
+      <div>${escapeHtml(document.invoiceNumber)}</div>
+      <div class="muted">${isCreditNote ? 'Date' : 'Invoice / tax point date'}: ${new Date(document.issuedAt).toLocaleDateString('en-GB')}</div>
+    </div>
+  </div>
+
+  <div class="parties">
+    <div><h3>From</h3>${escapeHtml(seller.name)}<br>${partyLines(seller)}</div>
+    <div><h3>${isCreditNote ? 'Credit to' : 'Bill to'}</h3>${escapeHtml(buyer.name)}<br>${partyLines(buyer)}</div>
+    <div>
+      <h3>Details</h3>
+      ${creditedInvoice ? `Credits invoice ${escapeHtml(creditedInvoice.invoiceNumber)}<br>` : ''}
+      ${document.reason ? `Reason: ${escapeHtml(document.reason)}` : ''}
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th>VAT rate</th><th class="num">Net</th><th class="num">VAT</th><th class="num">Total</th></tr>
+    </thead>
+    <tbody>${document.lines.map(line => `
+      <tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${money(line.unitPrice)}</td>
+        <td>${getVatRateLabel(line.vatRate)}</td>
+        <td class="num">${money(line.net)}</td>
+        <td class="num">${money(line.vat)}</td>
+        <td class="num">${money(line.gross)}</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>
+
+  ${isVatDocument ? `
+  <table style="width: 60%;">
+    <thead><tr><th>VAT summary</th><th class="num">Net</th><th class="num">VAT</th><th class="num">Gross</th></tr></thead>
+    <tbody>${vatSummary.map(rate => `
+      <tr><td>${getVatRateLabel(rate.rate)}</td><td class="num">${money(rate.net)}</td><td class="num">${money(rate.vat)}</td><td class="num">${money(rate.gross)}</td></tr>`).join('')}
+    </tbody>
+  </table>` : ''}
+
+  <div class="totals">
+    <div><span>Net</span><span>${money(document.netTotal)}</span></div>
+    <div><span>VAT</span><span>${money(document.vatTotal)}</span></div>
+    <div class="grand"><span>${isCreditNote ? 'Total credited' : 'Total'}</span><span>${money(document.total)}</span></div>
+  </div>
+</body>
+</html>`;
+  }
+
+  private async issueCreditNote(
+    invoice: Invoice,
+    lines: InvoiceLine[],
+    details: { reason: string; returnRequestId?: number; stripeRefundId: string | null }
+  ): Promise<Invoice> {
+    const wholesaler = await storage.getUser(invoice.wholesalerId);
+    const creditNote = await storage.createInvoice({
+      wholesalerId: invoice.wholesalerId,
+      orderId: invoice.orderId,
+      customerId: invoice.customerId,
+      documentType: 'credit_note',
+      creditedInvoiceId: invoice.id,
+      returnRequestId: details.returnRequestId ?? null,
+      stripeRefundId: details.stripeRefundId,
+      reason: details.reason,
+      currency: invoice.currency,
+      seller: invoice.seller,
+      buyer: invoice.buyer,
+      lines,
+      ...this.toTotals(lines)
+    }, wholesaler?.invoiceNumberPrefix || null);
+
+    console.log(`🧾 Credit note ${creditNote.invoiceNumber} issued against ${invoice.invoiceNumber}: ${creditNote.total}`);
+    await this.deliver(creditNote);
+    return creditNote;
+  }
+
+  // Filing and emailing a new document shouldn't hold up the refund or order that raised it
+  private async deliver(document: Invoice): Promise<void> {
+    try {
+      await this.emailDocument(document);
+    } catch (error: any) {
+      console.error(`❌ Failed to send ${document.invoiceNumber}:`, error.message);
+    }
+  }
+
+  /**
+   * Invoice lines for an order. The fee line is whatever is left of the order
+   * total after goods and delivery, so the invoice always adds up to what the
+   * customer was charged.
+   */
+  private getOrderLines(order: OrderWithItems): InvoiceLine[] {
+    const lines: InvoiceLine[] = order.items.map(item => {
+      const vatRate = isVatRateCode(item.vatRate) ? item.vatRate : null;
+      const gross = parseFloat(item.total);
+      const vat = parseFloat(item.vatAmount || '0');
+      return {
+        kind: 'product',
+        productId: item.productId,
+        category: item.product?.category || null,
+        description: item.product?.name || `Product ${item.productId}`,
+        quantity: item.quantity,
+        unitPrice: parseFloat(item.unitPrice),
+        vatRate,
+        vatPercent: vatRate ? parseFloat(item.vatRatePercent || '0') : 0,
+        net: roundMoney(item.netAmount != null ? parseFloat(item.netAmount) : gross - vat),
+        vat: roundMoney(vat),
+        gross: roundMoney(gross)
+      };
+    });
+
+    const deliveryGross = roundMoney(parseFloat(order.deliveryCost || '0'));
+    if (deliveryGross > 0) {
+      const deliveryVat = roundMoney(parseFloat(order.deliveryVatAmount || '0'));
+      lines.push({
+        kind: 'delivery',
+        description: order.deliveryCarrier ? `Delivery (${order.deliveryCarrier})` : 'Delivery',
+        quantity: 1,
+        unitPrice: deliveryGross,
+        vatRate: deliveryVat > 0 ? 'standard' : null,
+        vatPercent: deliveryVat > 0 ? VAT_RATES.standard.percent : 0,
+        net: roundMoney(deliveryGross - deliveryVat),
+        vat: deliveryVat,
+        gross: deliveryGross
+      });
+    }
+
+    const charged = lines.reduce((sum, line) => sum + line.gross, 0);
+    const fee = roundMoney(parseFloat(order.total) - charged);
+    if (fee !== 0) {
+      lines.push({
+        kind: fee > 0 ? 'fee' : 'adjustment',
+        description: fee > 0 ? 'Card transaction fee' : 'Discount',
+        quantity: 1,
+        unitPrice: fee,
+        vatRate: null,
+        vatPercent: 0,
+        net: fee,
+        vat: 0,
+        gross: fee
+      });
+    }
+    return lines;
+  }
+
+  // Share a partial credit across the invoice's VAT rates by how much of the invoice each makes up
+  private apportionCredit(invoice: Invoice, credit: number): InvoiceLine[] {
+    const groups = new Map<string, { vatRate: InvoiceLine['vatRate']; vatPercent: number; gross: number }>();
+    for (const line of invoice.lines) {
+      const key = `${line.vatRate}:${line.vatPercent}`;
+      const group = groups.get(key) || { vatRate: line.vatRate, vatPercent: line.vatPercent, gross: 0 };
+      group.gross += line.gross;
+      groups.set(key, group);
+    }
+
+    const invoiceTotal = parseFloat(invoice.total);
+    const shares = Array.from(groups.values())
+      .filter(group => group.gross > 0)
+      .sort((a, b) => b.gross - a.gross)
+      .map(group => ({ ...group, share: roundMoney(credit * group.gross / invoiceTotal) }));
+    if (shares.length === 0) {
+      shares.push({ vatRate: null, vatPercent: 0, gross: credit, share: credit });
+    }
+    // Rounding pennies go on the largest share
+    shares[0].share = roundMoney(shares[0].share + credit - shares.reduce((sum, share) => sum + share.share, 0));
+
+    return shares.filter(share => share.share > 0).map(share => ({
+      kind: 'adjustment' as const,
+      description: `Refund against invoice ${invoice.invoiceNumber}${share.vatRate ? ` - ${getVatRateLabel(share.vatRate)}` : ''}`,
+      quantity: 1,
+      unitPrice: share.share,
+      vatRate: share.vatRate,
+      vatPercent: share.vatPercent,
+      ...this.splitLine(share.share, share.vatPercent)
+    }));
+  }
+
+  private splitLine(gross: number, vatPercent: number): Pick<InvoiceLine, 'net' | 'vat' | 'gross'> {
+    const { net, vat, gross: roundedGross } = splitGrossAmount(gross, vatPercent);
+    return { net, vat, gross: roundedGross };
+  }
+
+  private toTotals(lines: InvoiceLine[]) {
+    const { netTotal, vatTotal, total } = totalInvoiceLines(lines);
+    return { netTotal: netTotal.toFixed(2), vatTotal: vatTotal.toFixed(2), total: total.toFixed(2) };
+  }
+
+  /**
+   * Seller details for the document. Uploaded logos are embedded so the PDF
+   * renders without access to the portal.
+   */
+  private async getSeller(wholesaler: User): Promise<InvoiceParty> {
+    let logoUrl: string | null = null;
+    if (wholesaler.logoUrl && ['custom', 'uploaded'].includes(wholesaler.logoType || '')) {
+      if (wholesaler.logoUrl.startsWith('/objects/')) {
+        try {
+          const logo = await new ObjectStorageService().readObjectEntity(wholesaler.logoUrl);
+          logoUrl = `data:image/png;base64,${logo.toString('base64')}`;
+        } catch (error: any) {
+          console.error(`❌ Couldn't load logo for invoice:`, error.message);
+        }
+      } else if (/^https?:\/\//.test(wholesaler.logoUrl)) {
+        logoUrl = wholesaler.logoUrl;
+      }
+    }
+
+    return {
+      name: wholesaler.businessName || `${wholesaler.firstName || ''} ${wholesaler.lastName || ''}`.trim() || 'Quikpik Merchant',
+      address: wholesaler.businessAddress || null,
+      email: wholesaler.email || null,
+      phone: wholesaler.businessPhone || wholesaler.phoneNumber || null,
+      vatNumber: wholesaler.vatNumber || null,
+      logoUrl
+    };
+  }
+
+  private getBuyer(order: OrderWithItems): InvoiceParty {
+    const retailer = order.retailer;
+    const name = retailer?.businessName
+      || order.customerName
+      || `${retailer?.firstName || ''} ${retailer?.lastName || ''}`.trim()
+      || 'Customer';
+    return {
+      name,
+      address: order.deliveryAddress ? formatDeliveryAddress(order.deliveryAddress).join(', ') : null,
+      email: order.customerEmail || retailer?.email || null,
+      phone: order.customerPhone || retailer?.phoneNumber || null,
+      vatNumber: retailer?.vatNumber || null
+    };
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,296 @@
+import { storage, type NegotiationThread } from "../storage";
+import { sendEmail } from "../sendgrid-service";
+import { sendSMS } from "./smsService";
+import { formatCurrency } from "../../shared/utils/currency";
+import {
+  NEGOTIATION_STATUS_LABELS,
+  NEGOTIATION_RESPONSE_DAYS,
+  NEGOTIATION_PRICE_LOCK_DAYS,
+  getNegotiationExpiry,
+  type NegotiationStatus
+} from "../../shared/negotiations";
+import type { InsertNegotiation, Negotiation } from "@shared/schema";
+
+export class NegotiationService {
+
+  /**
+   * Record a new marketplace offer and start its thread. Offers that were
+   * auto-declined for being under the minimum bid get the decline logged too.
+   */
+  async openNegotiation(data: InsertNegotiation): Promise<Negotiation> {
+    const negotiation = await storage.createNegotiation({
+      ...data,
+      expiresAt: data.status === 'pending' ? getNegotiationExpiry(NEGOTIATION_RESPONSE_DAYS) : null
+    });
+
+    await storage.addNegotiationMessage({
+      negotiationId: negotiation.id,
+      senderRole: 'buyer',
+      action: 'offer',
+      price: negotiation.offeredPrice,
+      quantity: negotiation.quantity,
+      message: negotiation.message || null
+    });
+
+    if (negotiation.status === 'declined') {
+      await storage.addNegotiationMessage({
+        negotiationId: negotiation.id,
+        senderRole: 'system',
+        action: 'decline',
+        message: 'Offer is below the minimum bid price'
+      });
+    }
+
+    return negotiation;
+  }
+
+  /**
+   * Load a negotiation on one of this wholesaler's products
+   */
+  async getWholesalerNegotiation(id: number, wholesalerId: string): Promise<NegotiationThread | null> {
+    const negotiation = await storage.getNegotiationThread(id);
+    if (!negotiation || negotiation.wholesalerId !== wholesalerId) return null;
+    return negotiation;
+  }
+
+  /**
+   * Load a negotiation the logged-in portal customer started with this wholesaler
+   */
+  async getBuyerNegotiation(id: number, customerId: string, wholesalerId: string): Promise<NegotiationThread | null> {
+    const negotiation = await storage.getNegotiationThread(id);
+    if (!negotiation || negotiation.retailerId !== customerId || negotiation.wholesalerId !== wholesalerId) return null;
+    return negotiation;
+  }
+
+  // Wholesaler responses
+
+  async accept(negotiation: NegotiationThread, message?: string): Promise<Negotiation> {
+    return await this.lockPrice(negotiation, 'pending', parseFloat(negotiation.offeredPrice), 'wholesaler', message);
+  }
+
+  async decline(negotiation: NegotiationThread, message?: string): Promise<Negotiation> {
+    const updated = await this.transition(negotiation, ['pending'], { status: 'declined', expiresAt: null }, {
+      senderRole: 'wholesaler',
+      action: 'decline',
+      message: message || null
+    });
+    await this.notifyBuyer(updated, message);
+    return updated;
+  }
+
+  async counter(negotiation: NegotiationThread, price: number, message?: string): Promise<Negotiation> {
+    if (!Number.isFinite(price) || price <= parseFloat(negotiation.offeredPrice)) {
+      throw new Error('A counter-offer must be higher than the buyer\'s offer - accept the offer instead');
+    }
+    await this.assertAboveMinimumBid(negotiation.productId, price, 'Counter-offer is below your minimum bid price');
+
+    const updated = await this.transition(negotiation, ['pending'], {
+      status: 'countered',
+      counterPrice: price.toFixed(2),
+      expiresAt: getNegotiationExpiry(NEGOTIATION_RESPONSE_DAYS)
+    }, {
+      senderRole: 'wholesaler',
+      action: 'counter',
+      price: price.toFixed(2),
+      quantity: negotiation.quantity,
+      message: message || null
+    });
+    await this.notifyBuyer(updated, message);
+    return updated;
+  }
+
+  // Buyer responses to a counter-offer
+
+  async buyerAccept(negotiation: NegotiationThread): Promise<Negotiation> {
+    if (!negotiation.counterPrice) {
+      throw new Error('There is no counter-offer to accept');
+    }
+    return await this.lockPrice(negotiation, 'countered', parseFloat(negotiation.counterPrice), 'buyer');
+  }
+
+  async buyerDecline(negotiation: NegotiationThread, message?: string): Promise<Negotiation> {
+    return await this.transition(negotiation, ['countered'], { status: 'declined', expiresAt: null }, {
+      senderRole: 'buyer',
+      action: 'decline',
+      message: message || null
+    });
+  }
+
+  /**
+   * Send a fresh offer back to the wholesaler in reply to their counter
+   */
+  async buyerCounter(negotiation: NegotiationThread, price: number, message?: string): Promise<Negotiation> {
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error('Enter a valid offer price');
+    }
+    if (negotiation.counterPrice && price >= parseFloat(negotiation.counterPrice)) {
+      throw new Error('Your offer is at or above the supplier\'s counter-offer - accept it instead');
+    }
+    await this.assertAboveMinimumBid(negotiation.productId, price, 'Your offer is below the minimum price this supplier will accept');
+
+    return await this.transition(negotiation, ['countered'], {
+      status: 'pending',
+      offeredPrice: price.toFixed(2),
+      counterPrice: null,
+      expiresAt: getNegotiationExpiry(NEGOTIATION_RESPONSE_DAYS)
+    }, {
+      senderRole: 'buyer',
+      action: 'offer',
+      price: price.toFixed(2),
+      quantity: negotiation.quantity,
+      message: message || null
+    });
+  }
+
+  /**
+   * Expire unanswered offers and price locks that ran out (called from cron)
+   */
+  async expireDueNegotiations(): Promise<number> {
+    const expired = await storage.expireNegotiations(new Date());
+    for (const negotiation of expired) {
+      await this.notifyBuyer(negotiation);
+    }
+    if (expired.length > 0) {
+      console.log(`⌛ Expired ${expired.length} negotiations`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Price the buyer agreed for a product, if they can still check out at it.
+   * Throws when the negotiation isn't theirs, isn't accepted, has lapsed or no
+   * longer clears the product's minimum bid price.
+   */
+  async getLockedPrice(negotiationId: number, customerId: string, productId: number, quantity: number): Promise<number> {
+    const negotiation = await storage.getNegotiationThread(negotiationId);
+    if (!negotiation || negotiation.retailerId !== customerId || negotiation.productId !== productId) {
+      throw new Error('Negotiated price not found for this product');
+    }
+    if (negotiation.status !== 'accepted' || !negotiation.agreedPrice) {
+      throw new Error('This negotiated price is no longer available');
+    }
+    if (negotiation.expiresAt && negotiation.expiresAt < new Date()) {
+      throw new Error('This negotiated price has expired');
+    }
+    if (quantity !== negotiation.quantity) {
+      throw new Error(`The negotiated price applies to exactly ${negotiation.quantity} units`);
+    }
+
+    const agreedPrice = parseFloat(negotiation.agreedPrice);
+    await this.assertAboveMinimumBid(productId, agreedPrice, 'This negotiated price is no longer available');
+    return agreedPrice;
+  }
+
+  /**
+   * Use up the locked price in the order's transaction so it can't be checked
+   * out twice. False when another order got there first (or it has lapsed):
+   * the caller fails the order, or flags it if payment was already taken.
+   */
+  async markOrdered(negotiationId: number, orderId: number, trx?: any): Promise<boolean> {
+    const updated = await storage.markNegotiationOrdered(negotiationId, orderId, trx);
+    if (!updated) {
+      console.warn(`⚠️ Negotiation ${negotiationId} was not accepted when order ${orderId} was placed`);
+    }
+    return !!updated;
+  }
+
+  private async lockPrice(
+    negotiation: NegotiationThread,
+    fromStatus: NegotiationStatus,
+    price: number,
+    senderRole: 'buyer' | 'wholesaler',
+    message?: string
+  ): Promise<Negotiation> {
+    await this.assertAboveMinimumBid(negotiation.productId, price, 'Price is below the minimum bid price for this product');
+
+    const updated = await this.transition(negotiation, [fromStatus], {
+      status: 'accepted',
+      agreedPrice: price.toFixed(2),
+      acceptedAt: new Date(),
+      expiresAt: getNegotiationExpiry(NEGOTIATION_PRICE_LOCK_DAYS)
+    }, {
+      senderRole,
+      action: 'accept',
+      price: price.toFixed(2),
+      quantity: negotiation.quantity,
+      message: message || null
+    });
+    await this.notifyBuyer(updated, message);
+    return updated;
+  }
+
+  private async transition(
+    negotiation: NegotiationThread,
+    fromStatuses: NegotiationStatus[],
+    updates: Partial<Negotiation>,
+    message: { senderRole: string; action: string; price?: string | null; quantity?: number | null; message?: string | null }
+  ): Promise<Negotiation> {
+    if (negotiation.expiresAt && negotiation.expiresAt < new Date()) {
+      throw new Error('This negotiation has expired');
+    }
+    const updated = await storage.transitionNegotiation(negotiation.id, fromStatuses, updates, message);
+    if (!updated) {
+      throw new Error(`Negotiation is ${NEGOTIATION_STATUS_LABELS[negotiation.status as NegotiationStatus] || negotiation.status} and can no longer be changed`);
+    }
+    return updated;
+  }
+
+  private async assertAboveMinimumBid(productId: number, price: number, errorMessage: string): Promise<void> {
+    const product = await storage.getProduct(productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    if (product.minimumBidPrice && price < parseFloat(product.minimumBidPrice)) {
+      throw new Error(errorMessage);
+    }
+  }
+
+  private async notifyBuyer(negotiation: Negotiation, note?: string): Promise<void> {
+    try {
+      const product = await storage.getProduct(negotiation.productId);
+      const [buyer, wholesaler] = await Promise.all([
+        storage.getUser(negotiation.retailerId),
+        product ? storage.getUser(product.wholesalerId) : Promise.resolve(undefined)
+      ]);
+      if (!buyer) return;
+
+      const productName = product?.name || null;
+      const businessName = wholesaler?.businessName || 'your supplier';
+      const item = `${negotiation.quantity} x ${productName || 'your product'}`;
+      const summary = (() => {
+        switch (negotiation.status) {
+          case 'accepted':
+            return `${businessName} accepted ${formatCurrency(negotiation.agreedPrice || '0')} per unit for ${item}. This price is locked for ${NEGOTIATION_PRICE_LOCK_DAYS} days - check out from your portal to use it.`;
+          case 'countered':
+            return `${businessName} has countered your offer for ${item} at ${formatCurrency(negotiation.counterPrice || '0')} per unit. Reply within ${NEGOTIATION_RESPONSE_DAYS} days from your portal.`;
+          case 'declined':
+            return `${businessName} declined your offer for ${item}.`;
+          case 'expired':
+            return `Your price negotiation with ${businessName} for ${item} has expired.`;
+          default:
+            return null;
+        }
+      })();
+      if (!summary) return;
+
+      const text = [summary, note ? `Note from ${businessName}: ${note}` : null].filter(Boolean).join('\n\n');
+      const status = NEGOTIATION_STATUS_LABELS[negotiation.status as NegotiationStatus] || negotiation.status;
+
+      if (buyer.email) {
+        await sendEmail({
+          to: buyer.email,
+          from: 'hello@quikpik.co',
+          subject: `Price negotiation - ${productName || 'Product'} - ${status}`,
+          text
+        });
+      }
+      if (buyer.phoneNumber) {
+        await sendSMS({ to: buyer.phoneNumber, message: summary });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to send negotiation update for ${negotiation.id}:`, error);
+    }
+  }
+}
+
+export const negotiationService = new NegotiationService();
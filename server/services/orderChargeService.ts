@@ -0,0 +1,169 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import { paymentMethodService, OffSessionChargeError } from "./paymentMethodService";
+import type { Order, OrderCharge, User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+// Card transaction fee on extra charges - the fixed £0.50 was already paid at checkout
+const TOP_UP_TRANSACTION_FEE_RATE = 0.055;
+
+interface ExtraChargeInput {
+  type: 'delivery_top_up' | 'order_edit';
+  amount: number; // Excluding the card transaction fee
+  transactionFee: number;
+  wholesalerReceives: number; // Transferred to the wholesaler; 0 keeps it with the platform
+  reason: string | null;
+  createdBy: string;
+  description: string;
+}
+
+export class OrderChargeService {
+
+  /**
+   * Charge the customer for delivery that cost more than quoted at checkout.
+   * Delivery money stays with the platform, as it does at checkout.
+   */
+  async chargeDeliveryTopUp(order: Order, amount: number, reason: string | null, createdBy: string): Promise<OrderCharge> {
+    if (isNaN(amount) || amount <= 0) {
+      throw new Error('Enter the extra delivery amount to charge');
+    }
+    if (order.paymentMethod === 'account') {
+      throw new Error('This order is paid on account - add the extra delivery to their invoice instead');
+    }
+
+    const charge = await this.chargeExtra(order, {
+      type: 'delivery_top_up',
+      amount,
+      transactionFee: Math.round(amount * TOP_UP_TRANSACTION_FEE_RATE * 100) / 100,
+      wholesalerReceives: 0,
+      reason,
+      createdBy,
+      description: `Delivery top-up for order ${order.orderNumber}`
+    });
+    console.log(`🚚 Delivery top-up of £${amount.toFixed(2)} charged on order ${order.orderNumber} (${charge.stripePaymentIntentId})`);
+    return charge;
+  }
+
+  /**
+   * Charge the extra cost of an order edit before the edit is applied. The
+   * product part, less the platform fee, goes to the wholesaler.
+   */
+  async chargeOrderEdit(
+    order: Order,
+    amounts: { amount: number; transactionFee: number; wholesalerReceives: number },
+    reason: string | null,
+    createdBy: string
+  ): Promise<OrderCharge> {
+    return await this.chargeExtra(order, {
+      type: 'order_edit',
+      ...amounts,
+      reason,
+      createdBy,
+      description: `Changes to order ${order.orderNumber}`
+    });
+  }
+
+  /**
+   * Give money back on the order's original card payment, pulling the
+   * wholesaler's share back from their Connect account
+   */
+  async refundOrderPayment(order: Order, amount: number, metadata: Record<string, string>): Promise<Stripe.Refund> {
+    if (!stripe || !order.stripePaymentIntentId) {
+      throw new Error('No payment information found for this order');
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+    return await stripe.refunds.create({
+      payment_intent: paymentIntent.id,
+      amount: Math.round(amount * 100),
+      reason: 'requested_by_customer',
+      reverse_transfer: !!paymentIntent.transfer_data,
+      metadata: { order_id: order.id.toString(), ...metadata }
+    });
+  }
+
+  // Refund an extra charge whose follow-up failed, e.g. an order edit that could not be applied
+  async refundCharge(charge: OrderCharge): Promise<void> {
+    if (!stripe || !charge.stripePaymentIntentId) return;
+    const paymentIntent = await stripe.paymentIntents.retrieve(charge.stripePaymentIntentId);
+    await stripe.refunds.create({ payment_intent: paymentIntent.id, reverse_transfer: !!paymentIntent.transfer_data });
+  }
+
+  private async chargeExtra(order: Order, input: ExtraChargeInput): Promise<OrderCharge> {
+    if (!order.retailerId) {
+      throw new Error('This order has no customer account to charge');
+    }
+
+    const wholesaler = await storage.getUser(order.wholesalerId);
+    if (!wholesaler) {
+      throw new Error('Wholesaler not found');
+    }
+
+    const paymentMethodId = await this.getOrderCard(order);
+    if (!paymentMethodId) {
+      throw new Error('The customer has no saved card to charge');
+    }
+
+    const charge = await storage.createOrderCharge({
+      orderId: order.id,
+      wholesalerId: order.wholesalerId,
+      retailerId: order.retailerId,
+      type: input.type,
+      amount: input.amount.toFixed(2),
+      transactionFee: input.transactionFee.toFixed(2),
+      stripePaymentMethodId: paymentMethodId,
+      reason: input.reason,
+      createdBy: input.createdBy
+    });
+
+    try {
+      const paymentIntent = await paymentMethodService.chargeOffSession({
+        customerId: order.retailerId,
+        wholesaler: wholesaler as User,
+        amount: input.amount + input.transactionFee,
+        wholesalerReceives: input.wholesalerReceives,
+        paymentMethodId,
+        description: input.description,
+        metadata: {
+          orderType: input.type,
+          orderId: order.id.toString(),
+          orderChargeId: charge.id.toString()
+        },
+        idempotencyKey: `order_charge_${charge.id}`
+      });
+
+      return await storage.completeOrderCharge(charge.id, {
+        status: 'succeeded',
+        stripePaymentIntentId: paymentIntent.id
+      });
+    } catch (error: any) {
+      const message = error instanceof OffSessionChargeError ? error.message : 'Card payment failed';
+      await storage.completeOrderCharge(charge.id, { status: 'failed', failureMessage: error.message || message });
+      console.error(`❌ ${input.type} charge failed on order ${order.orderNumber}:`, error.message);
+      throw new Error(message);
+    }
+  }
+
+  // The card used at checkout, if the customer saved it
+  private async getOrderCard(order: Order): Promise<string | null> {
+    if (stripe && order.stripePaymentIntentId) {
+      try {
+        const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+        const paymentMethodId = typeof paymentIntent.payment_method === 'string'
+          ? paymentIntent.payment_method
+          : paymentIntent.payment_method?.id;
+        if (paymentMethodId) {
+          return (await paymentMethodService.getCard(order.retailerId!, paymentMethodId)).id;
+        }
+      } catch {
+        // Not saved - fall back to the default card
+      }
+    }
+    return (await paymentMethodService.getDefaultCard(order.retailerId!))?.id || null;
+  }
+}
+
+export const orderChargeService = new OrderChargeService();
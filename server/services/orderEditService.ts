@@ -0,0 +1,289 @@
+import { storage, type OrderEditLine } from "../storage";
+import { sendEmail } from "../sendgrid-service";
+import { sendSMS } from "./smsService";
+import { priceListService } from "./priceListService";
+import { creditAccountService } from "./creditAccountService";
+import { orderChargeService } from "./orderChargeService";
+import { invoiceService } from "./invoiceService";
+import { PromotionalPricingCalculator } from "../../shared/promotional-pricing";
+import {
+  ORDER_EDIT_PLATFORM_FEE_RATE,
+  ORDER_EDIT_TRANSACTION_FEE_RATE,
+  calculateOrderEditTotals,
+  canEditOrder,
+  describeOrderEditChange,
+  type OrderEditLineChange,
+  type OrderEditSettlement
+} from "../../shared/order-edits";
+import type { Order, OrderCharge, OrderEdit, OrderItem, Product, User } from "@shared/schema";
+
+type OrderWithItems = Order & { items: (OrderItem & { product: Product })[]; retailer: User; wholesaler: User };
+
+export interface OrderEditInput {
+  // Existing lines are matched by orderItemId; lines without one are added
+  lines?: { orderItemId?: number | null; productId?: number; quantity: number; sellingType?: string }[];
+  reason?: string;
+}
+
+export interface OrderEditPreview {
+  lines: OrderEditLine[];
+  changes: OrderEditLineChange[];
+  subtotalBefore: number;
+  subtotalAfter: number;
+  totalBefore: number;
+  totalAfter: number;
+  difference: number;
+  settlement: OrderEditSettlement;
+}
+
+export class OrderEditService {
+
+  /**
+   * Re-price the requested changes without touching the order, so the
+   * wholesaler can see what the customer will be charged or refunded
+   */
+  async preview(order: OrderWithItems, input: OrderEditInput): Promise<OrderEditPreview> {
+    if (!canEditOrder(order, order.items)) {
+      throw new Error('Orders can only be edited before anything has been shipped or collected');
+    }
+    if (!Array.isArray(input.lines) || input.lines.length === 0) {
+      throw new Error('Choose at least one line to change');
+    }
+
+    const rule = await priceListService.getCustomerPriceRule(order.retailerId, order.wholesalerId);
+    const lines: OrderEditLine[] = [];
+    const changes: OrderEditLineChange[] = [];
+    let subtotalDelta = 0;
+
+    for (const requested of input.lines) {
+      const quantity = Number(requested.quantity);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        throw new Error('Quantities must be whole numbers of 0 or more');
+      }
+
+      const item = requested.orderItemId ? order.items.find(i => i.id === Number(requested.orderItemId)) : undefined;
+      if (requested.orderItemId && !item) {
+        throw new Error('That line is not on this order');
+      }
+      if (!item && quantity === 0) continue;
+      if (item && item.quantity === quantity) continue;
+
+      const rawProduct = item?.product || (requested.productId ? await storage.getProduct(Number(requested.productId)) : undefined);
+      if (!rawProduct || rawProduct.wholesalerId !== order.wholesalerId) {
+        throw new Error('Product not found');
+      }
+      if (!item && ['inactive', 'locked'].includes(rawProduct.status)) {
+        throw new Error(`${rawProduct.name} is not available to order`);
+      }
+      if (!item && order.items.some(i => i.productId === rawProduct.id && i.sellingType === (requested.sellingType || 'units'))) {
+        throw new Error(`${rawProduct.name} is already on this order - change its quantity instead`);
+      }
+
+      const sellingType = (item?.sellingType || requested.sellingType) === 'pallets' ? 'pallets' : 'units';
+      const product = priceListService.applyToProduct(rawProduct, rule);
+      let unitPrice = 0;
+      let total = 0;
+      if (quantity > 0) {
+        ({ unitPrice, total } = await this.priceLine(order, product, quantity, sellingType));
+        if (!(unitPrice > 0)) {
+          throw new Error(`${product.name} has no price set`);
+        }
+      }
+
+      lines.push({
+        orderItemId: item?.id || null,
+        productId: product.id,
+        quantity,
+        sellingType,
+        unitPrice: unitPrice.toFixed(2),
+        total: total.toFixed(2)
+      });
+      changes.push({
+        orderItemId: item?.id || null,
+        productId: product.id,
+        productName: product.name,
+        sellingType,
+        quantityBefore: item?.quantity || 0,
+        quantityAfter: quantity,
+        unitPriceBefore: item?.unitPrice || null,
+        unitPriceAfter: quantity > 0 ? unitPrice.toFixed(2) : null
+      });
+      subtotalDelta += total - parseFloat(item?.total || '0');
+    }
+
+    if (lines.length === 0) {
+      throw new Error('Nothing has changed on this order');
+    }
+
+    const totals = calculateOrderEditTotals(order, subtotalDelta);
+    const difference = Math.round((totals.total - parseFloat(order.total)) * 100) / 100;
+    return {
+      lines,
+      changes,
+      subtotalBefore: parseFloat(order.subtotal),
+      subtotalAfter: totals.subtotal,
+      totalBefore: parseFloat(order.total),
+      totalAfter: totals.total,
+      difference,
+      settlement: this.getSettlement(order, difference)
+    };
+  }
+
+  /**
+   * Apply an edit and settle the difference. Extra card payments are taken
+   * before the order changes, so a declined card leaves the order as it was;
+   * refunds are issued once the edit has been saved.
+   */
+  async applyEdit(order: OrderWithItems, input: OrderEditInput, editedBy: string): Promise<{ order: Order; edit: OrderEdit }> {
+    const preview = await this.preview(order, input);
+    const reason = input.reason?.trim() || null;
+
+    if (preview.settlement === 'account' && preview.difference > 0 && order.retailerId) {
+      const credit = await creditAccountService.checkCreditAvailability(order.retailerId, order.wholesalerId, preview.difference);
+      if (!credit.allowed) {
+        throw new Error(credit.reason || 'The customer does not have enough credit for this change');
+      }
+    }
+
+    let charge: OrderCharge | undefined;
+    if (preview.settlement === 'charge') {
+      const productDelta = preview.subtotalAfter - preview.subtotalBefore;
+      const transactionFee = Math.round(productDelta * ORDER_EDIT_TRANSACTION_FEE_RATE * 100) / 100;
+      charge = await orderChargeService.chargeOrderEdit(order, {
+        amount: Math.round(productDelta * 100) / 100,
+        transactionFee,
+        wholesalerReceives: Math.round(productDelta * (1 - ORDER_EDIT_PLATFORM_FEE_RATE) * 100) / 100
+      }, reason, editedBy);
+    }
+
+    let result: { order: Order; edit: OrderEdit };
+    try {
+      result = await storage.applyOrderEdit(order.id, order.total, preview.lines, {
+        editedBy,
+        reason,
+        settlement: preview.settlement,
+        settlementStatus: preview.settlement === 'none'
+          ? 'not_required'
+          : preview.settlement === 'refund' ? 'pending' : 'succeeded',
+        orderChargeId: charge?.id || null
+      });
+    } catch (error) {
+      if (charge) {
+        try {
+          await orderChargeService.refundCharge(charge);
+          console.log(`↩️ Refunded order edit charge ${charge.id} after the edit could not be saved`);
+        } catch (refundError) {
+          console.error(`❌ Failed to refund order edit charge ${charge.id}:`, refundError);
+        }
+      }
+      throw error;
+    }
+
+    if (preview.settlement === 'refund') {
+      result.edit = await this.refundDifference(result.order, result.edit, -preview.difference);
+    }
+
+    // The invoice never changes - money given back is credited against it
+    if (preview.difference < 0 && (preview.settlement === 'account' || result.edit.settlementStatus === 'succeeded')) {
+      try {
+        await invoiceService.creditRefund(
+          order.id,
+          -preview.difference,
+          reason ? `Order changed: ${reason}` : 'Order changed',
+          result.edit.stripeRefundId
+        );
+      } catch (error) {
+        console.error(`❌ Failed to issue credit note for order edit on ${order.orderNumber}:`, error);
+      }
+    }
+
+    console.log(`✏️ Order ${order.orderNumber} edited: £${preview.totalBefore.toFixed(2)} → £${preview.totalAfter.toFixed(2)} (${preview.settlement})`);
+    await this.notifyCustomer(order, result.edit);
+    return result;
+  }
+
+  private getSettlement(order: Order, difference: number): OrderEditSettlement {
+    if (difference === 0) return 'none';
+    if (order.paymentMethod === 'account') return 'account';
+    if (!order.stripePaymentIntentId) return 'none';
+    return difference > 0 ? 'charge' : 'refund';
+  }
+
+  // A price agreed in a negotiation stays locked for this order; anything else is priced as at checkout today
+  private async priceLine(order: Order, product: Product, quantity: number, sellingType: 'units' | 'pallets'): Promise<{ unitPrice: number; total: number }> {
+    if (sellingType === 'units' && order.retailerId) {
+      const negotiations = await storage.getNegotiations(product.id, order.retailerId);
+      const negotiated = negotiations.find(n => n.orderId === order.id && n.agreedPrice);
+      if (negotiated) {
+        const unitPrice = parseFloat(negotiated.agreedPrice!);
+        return { unitPrice, total: unitPrice * quantity };
+      }
+    }
+
+    if (sellingType === 'pallets') {
+      const unitPrice = parseFloat(product.palletPrice || '0');
+      return { unitPrice, total: unitPrice * quantity };
+    }
+
+    const pricing = PromotionalPricingCalculator.calculatePromotionalPricing(
+      parseFloat(product.price),
+      quantity,
+      product.promotionalOffers || [],
+      product.promoPrice ? parseFloat(product.promoPrice) : undefined,
+      Boolean(product.promoActive)
+    );
+    return { unitPrice: pricing.effectivePrice, total: pricing.totalCost };
+  }
+
+  private async refundDifference(order: Order, edit: OrderEdit, amount: number): Promise<OrderEdit> {
+    try {
+      const refund = await orderChargeService.refundOrderPayment(order, amount, { order_edit_id: edit.id.toString() });
+      return await storage.updateOrderEditSettlement(edit.id, { settlementStatus: 'succeeded', stripeRefundId: refund.id });
+    } catch (error: any) {
+      console.error(`❌ Order edit refund failed on order ${order.orderNumber}:`, error.message);
+      return await storage.updateOrderEditSettlement(edit.id, {
+        settlementStatus: 'failed',
+        settlementMessage: error.message || 'Refund failed'
+      });
+    }
+  }
+
+  private async notifyCustomer(order: OrderWithItems, edit: OrderEdit): Promise<void> {
+    const customer = order.retailer;
+    if (!customer) return;
+
+    const businessName = order.wholesaler?.businessName || 'Your supplier';
+    const difference = parseFloat(edit.totalAfter) - parseFloat(edit.totalBefore);
+    const settlementLine = edit.settlement === 'charge'
+      ? `£${difference.toFixed(2)} has been charged to your card.`
+      : edit.settlement === 'refund'
+        ? `£${(-difference).toFixed(2)} is being refunded to your card.`
+        : edit.settlement === 'account'
+          ? `Your account balance has been adjusted by £${difference.toFixed(2)}.`
+          : '';
+    const summary = [
+      `${businessName} has changed order ${order.orderNumber}:`,
+      ...edit.changes.map(change => `- ${describeOrderEditChange(change)}`),
+      edit.reason ? `Reason: ${edit.reason}` : '',
+      `New total: £${parseFloat(edit.totalAfter).toFixed(2)}. ${settlementLine}`
+    ].filter(Boolean).join('\n');
+
+    try {
+      if (customer.email) {
+        await sendEmail({
+          to: customer.email,
+          from: 'hello@quikpik.co',
+          subject: `Order ${order.orderNumber} updated by ${businessName}`,
+          text: summary
+        });
+      }
+      if (customer.phoneNumber) {
+        await sendSMS({ to: customer.phoneNumber, message: summary });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to send order edit update for order ${order.id}:`, error);
+    }
+  }
+}
+
+export const orderEditService = new OrderEditService();
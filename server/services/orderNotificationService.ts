@@ -80,6 +80,28 @@ export class OrderNotificationService {
         };
         break;
 
+      case 'out_for_delivery':
+        const outTrackingInfo = trackingNumber ? `\nTracking: ${trackingNumber}` : '';
+
+        messages.sms = `Order ${orderNumber} is out for delivery today.${outTrackingInfo}`;
+        messages.whatsapp = `🚚 *Out for Delivery*\n\nOrder: ${orderNumber}${outTrackingInfo}\n\nYour order is with the driver and will be with you today.`;
+        messages.email = {
+          subject: `Order ${orderNumber} Out for Delivery`,
+          body: `Your order ${orderNumber} from ${wholesalerName} is out for delivery and should arrive today.${outTrackingInfo}`
+        };
+        break;
+
+      case 'delivery_exception':
+        const exceptionTrackingInfo = trackingNumber ? `\nTracking: ${trackingNumber}` : '';
+
+        messages.sms = `There's a problem delivering order ${orderNumber}. The carrier may be delayed or need more details.${exceptionTrackingInfo}`;
+        messages.whatsapp = `⚠️ *Delivery Problem*\n\nOrder: ${orderNumber}${exceptionTrackingInfo}\n\nThe carrier has reported a problem with your delivery. ${wholesalerName} will be in touch if anything is needed from you.`;
+        messages.email = {
+          subject: `Order ${orderNumber} Delivery Problem`,
+          body: `The carrier has reported a problem delivering order ${orderNumber} from ${wholesalerName}. It may be delayed - ${wholesalerName} will be in touch if anything is needed from you.${exceptionTrackingInfo}`
+        };
+        break;
+
       case 'delivered':
         messages.sms = `Order ${orderNumber} delivered! We hope you're happy with your purchase from ${wholesalerName}.`;
         messages.whatsapp = `✅ *Order Delivered*\n\nOrder: ${orderNumber}\nWholesaler: ${wholesalerName}\n\nYour order has been delivered! We hope you're satisfied with your purchase.`;
@@ -89,6 +111,15 @@ export class OrderNotificationService {
         };
         break;
 
+      case 'delivery_failed':
+        messages.sms = `We couldn't deliver order ${orderNumber} today. ${wholesalerName} will be in touch to rearrange delivery.`;
+        messages.whatsapp = `⚠️ *Delivery Attempted*\n\nOrder: ${orderNumber}\nWholesaler: ${wholesalerName}\n\nWe couldn't deliver your order today and will be in touch to rearrange.`;
+        messages.email = {
+          subject: `Order ${orderNumber} Delivery Attempted`,
+          body: `${wholesalerName} tried to deliver order ${orderNumber} but couldn't complete the delivery. They will be in touch to rearrange it.`
+        };
+        break;
+
       case 'ready_for_pickup':
         messages.sms = `Order ${orderNumber} is ready for pickup at ${wholesalerName}. Please collect at your convenience.`;
         messages.whatsapp = `📍 *Ready for Pickup*\n\nOrder: ${orderNumber}\nWholesaler: ${wholesalerName}\n\nYour order is ready for collection.`;
@@ -0,0 +1,327 @@
+import twilio from "twilio";
+import { storage } from "../storage";
+import { sendEmail, sendOrderConfirmationEmail } from "../sendgrid-service";
+import { generateWholesalerOrderNotificationEmail, type OrderEmailData } from "../email-templates";
+import { whatsAppBusinessService } from "../whatsapp-simple";
+import { orderNotificationService } from "./orderNotificationService";
+import { formatPhoneToInternational } from "../../shared/phone-utils";
+import { sendWelcomeMessages } from "./welcomeMessageService.js";
+import { invoiceService } from "./invoiceService";
+import { stripeInvoiceService } from "./stripeInvoiceService";
+import {
+  DEFAULT_OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_MESSAGE_LABELS,
+  getOutboxRetryDelay,
+  type OrderStatusUpdatePayload,
+  type WelcomeMessagesPayload,
+  type WholesalerWhatsAppPayload
+} from "../../shared/outbox";
+import type { InsertOutboxMessage, Order, OrderItem, OutboxMessage, Product, User } from "@shared/schema";
+
+type OrderWithItems = Order & { items: (OrderItem & { product: Product })[]; retailer: User; wholesaler: User };
+
+export interface OrderPlacedOptions {
+  stripeInvoice?: boolean; // Also raise a paid Stripe invoice (marketplace checkout)
+  whatsappMessage?: string | null; // New order alert for the wholesaler
+  welcome?: WelcomeMessagesPayload | null; // Set when checkout created the customer
+}
+
+export interface OutboxDeliveryResult {
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+const BATCH_SIZE = 25;
+
+export class OutboxService {
+  private draining = false;
+
+  /**
+   * The side-effects of a newly placed order, to be written in the same
+   * transaction as the order itself
+   */
+  getOrderPlacedMessages(order: Order, options: OrderPlacedOptions = {}): InsertOutboxMessage[] {
+    const message = (type: InsertOutboxMessage['type'], payload: Record<string, any> = {}): InsertOutboxMessage => ({
+      type,
+      orderId: order.id,
+      wholesalerId: order.wholesalerId,
+      payload,
+      maxAttempts: DEFAULT_OUTBOX_MAX_ATTEMPTS
+    });
+
+    const messages: InsertOutboxMessage[] = [];
+    if (order.customerEmail) {
+      messages.push(message('order_confirmation_email'));
+    }
+    messages.push(message('order_invoice'));
+    if (options.stripeInvoice && order.customerEmail) {
+      messages.push(message('stripe_invoice'));
+    }
+    messages.push(message('wholesaler_order_email'));
+    if (options.whatsappMessage) {
+      messages.push(message('wholesaler_whatsapp', { message: options.whatsappMessage }));
+    }
+    if (options.welcome) {
+      messages.push(message('welcome_messages', options.welcome));
+    }
+    return messages;
+  }
+
+  // Tell the customer their order moved on, written in the same transaction as the status change
+  getOrderStatusMessages(order: Order): InsertOutboxMessage[] {
+    return [{
+      type: 'order_status_update',
+      orderId: order.id,
+      wholesalerId: order.wholesalerId,
+      payload: { status: order.status },
+      maxAttempts: DEFAULT_OUTBOX_MAX_ATTEMPTS
+    }];
+  }
+
+  // Deliver straight after the order commits rather than waiting for the next worker run
+  deliverSoon(): void {
+    setImmediate(() => {
+      this.deliverDueMessages().catch(error => console.error('❌ Outbox delivery failed:', error));
+    });
+  }
+
+  /**
+   * Deliver everything that is due. A failure is retried with exponential
+   * backoff until the message runs out of attempts, when it is left as dead
+   * for someone to look at and replay.
+   */
+  async deliverDueMessages(): Promise<OutboxDeliveryResult> {
+    const result: OutboxDeliveryResult = { delivered: 0, retrying: 0, dead: 0 };
+    if (this.draining) return result;
+
+    this.draining = true;
+    try {
+      let batch: OutboxMessage[];
+      do {
+        batch = await storage.claimDueOutboxMessages(BATCH_SIZE);
+        for (const message of batch) {
+          const outcome = await this.process(message);
+          result[outcome]++;
+        }
+      } while (batch.length === BATCH_SIZE);
+    } finally {
+      this.draining = false;
+    }
+
+    if (result.delivered || result.retrying || result.dead) {
+      console.log(`📬 Outbox: ${result.delivered} delivered, ${result.retrying} to retry, ${result.dead} failed`);
+    }
+    return result;
+  }
+
+  // Replay a message with a fresh set of attempts
+  async replay(message: OutboxMessage): Promise<OutboxMessage> {
+    const requeued = await storage.requeueOutboxMessage(message.id);
+    this.deliverSoon();
+    return requeued;
+  }
+
+  private async process(message: OutboxMessage): Promise<keyof OutboxDeliveryResult> {
+    try {
+      await this.deliver(message);
+      await storage.markOutboxMessageDelivered(message.id);
+      return 'delivered';
+    } catch (error: any) {
+      const attempts = message.attempts + 1;
+      const nextAttemptAt = attempts < message.maxAttempts ? new Date(Date.now() + getOutboxRetryDelay(attempts)) : null;
+      await storage.markOutboxMessageFailed(message.id, error?.message || String(error), nextAttemptAt);
+
+      const label = `${OUTBOX_MESSAGE_LABELS[message.type] || message.type} for order #${message.orderId}`;
+      if (nextAttemptAt) {
+        console.log(`⚠️ ${label} failed (attempt ${attempts}/${message.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${error?.message}`);
+        return 'retrying';
+      }
+      console.error(`❌ ${label} failed after ${attempts} attempts:`, error);
+      return 'dead';
+    }
+  }
+
+  // Throws when delivery should be retried
+  private async deliver(message: OutboxMessage): Promise<void> {
+    switch (message.type) {
+      case 'order_confirmation_email':
+        return await this.sendConfirmationEmail(await this.getOrder(message));
+      case 'order_invoice':
+        await invoiceService.issueForOrder(message.orderId!);
+        return;
+      case 'stripe_invoice':
+        await stripeInvoiceService.sendPaidInvoice(await this.getOrder(message));
+        return;
+      case 'wholesaler_order_email':
+        return await this.sendWholesalerEmail(await this.getOrder(message));
+      case 'wholesaler_whatsapp':
+        return await this.sendWholesalerWhatsApp(await this.getOrder(message), message.payload as WholesalerWhatsAppPayload);
+      case 'welcome_messages':
+        return await this.sendWelcome(await this.getOrder(message), message.payload as WelcomeMessagesPayload);
+      case 'order_status_update':
+        return await this.sendStatusUpdate(await this.getOrder(message), message.payload as OrderStatusUpdatePayload);
+      default:
+        throw new Error(`Unknown outbox message type ${message.type}`);
+    }
+  }
+
+  private async getOrder(message: OutboxMessage): Promise<OrderWithItems> {
+    const order = message.orderId ? await storage.getOrder(message.orderId) : undefined;
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  private async sendConfirmationEmail(order: OrderWithItems): Promise<void> {
+    const customerEmail = order.customerEmail || order.retailer?.email;
+    if (!customerEmail) return;
+
+    const sent = await sendOrderConfirmationEmail({
+      customerEmail,
+      customerName: order.customerName || `${order.retailer?.firstName || ''} ${order.retailer?.lastName || ''}`.trim() || 'Customer',
+      orderNumber: order.orderNumber || `ORD-${order.id}`,
+      orderItems: order.items.map(item => ({
+        productName: item.product?.name || `Product #${item.productId}`,
+        quantity: item.quantity,
+        unitPrice: parseFloat(item.unitPrice),
+        total: parseFloat(item.total)
+      })),
+      subtotal: parseFloat(order.subtotal),
+      transactionFee: parseFloat(order.customerTransactionFee || '0'),
+      totalPaid: parseFloat(order.total),
+      wholesalerName: order.wholesaler?.businessName || order.wholesaler?.firstName || 'Your Wholesaler',
+      shippingAddress: await this.getShippingAddress(order)
+    });
+    if (!sent) {
+      throw new Error(`Confirmation email to ${customerEmail} was not accepted`);
+    }
+  }
+
+  private async sendWholesalerEmail(order: OrderWithItems): Promise<void> {
+    const wholesaler = order.wholesaler;
+    if (!wholesaler?.email) return;
+
+    const emailData: OrderEmailData = {
+      orderNumber: order.orderNumber || `ORD-${order.id}`,
+      customerName: order.customerName || `${order.retailer?.firstName || ''} ${order.retailer?.lastName || ''}`.trim(),
+      customerEmail: order.customerEmail || order.retailer?.email || '',
+      customerPhone: order.customerPhone || order.retailer?.phoneNumber || '',
+      shippingAddress: await this.getShippingAddress(order),
+      total: order.total,
+      subtotal: order.subtotal,
+      platformFee: parseFloat(order.platformFee || '0').toFixed(2),
+      customerTransactionFee: parseFloat(order.customerTransactionFee || '0').toFixed(2),
+      wholesalerPlatformFee: parseFloat(order.platformFee || '0').toFixed(2),
+      shippingTotal: order.shippingTotal || '0.00',
+      fulfillmentType: order.fulfillmentType,
+      items: order.items.map(item => ({
+        productName: item.product?.name || `Product #${item.productId}`,
+        quantity: item.quantity,
+        unitPrice: parseFloat(item.unitPrice).toFixed(2),
+        total: parseFloat(item.total).toFixed(2),
+        sellingType: item.sellingType || undefined
+      })),
+      wholesaler: {
+        businessName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`,
+        firstName: wholesaler.firstName || '',
+        lastName: wholesaler.lastName || '',
+        email: wholesaler.email
+      },
+      orderDate: (order.createdAt || new Date()).toISOString(),
+      paymentMethod: order.paymentMethod === 'account' ? 'On Account' : 'Card Payment'
+    };
+
+    const emailTemplate = generateWholesalerOrderNotificationEmail(emailData);
+    const sent = await sendEmail({
+      to: wholesaler.email,
+      from: 'hello@quikpik.co',
+      subject: emailTemplate.subject,
+      html: emailTemplate.html,
+      text: emailTemplate.text
+    });
+    if (!sent) {
+      throw new Error(`New order email to ${wholesaler.email} was not accepted`);
+    }
+  }
+
+  private async sendWholesalerWhatsApp(order: OrderWithItems, payload: WholesalerWhatsAppPayload): Promise<void> {
+    const wholesaler: any = order.wholesaler; // Twilio settings aren't in the users schema
+    // Nothing to retry if the wholesaler has since turned WhatsApp off
+    const provider = wholesaler ? getWhatsAppAlertProvider(wholesaler) : null;
+
+    if (provider === 'direct') {
+      await whatsAppBusinessService.sendMessage(wholesaler.businessPhone, payload.message, {
+        accessToken: wholesaler.whatsappAccessToken,
+        phoneNumberId: wholesaler.whatsappBusinessPhoneId
+      });
+    } else if (provider === 'twilio') {
+      const client = twilio(wholesaler.twilioAccountSid || process.env.TWILIO_ACCOUNT_SID, wholesaler.twilioAuthToken);
+      await client.messages.create({
+        from: `whatsapp:${wholesaler.twilioPhoneNumber}`,
+        to: `whatsapp:${formatPhoneToInternational(wholesaler.businessPhone || wholesaler.twilioPhoneNumber)}`,
+        body: payload.message
+      });
+    }
+  }
+
+  private async sendStatusUpdate(order: OrderWithItems, payload: OrderStatusUpdatePayload): Promise<void> {
+    const { retailer, wholesaler } = order;
+    await orderNotificationService.sendOrderStatusUpdate({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: payload.status,
+      customerName: `${retailer?.firstName || ''} ${retailer?.lastName || ''}`.trim() || 'Customer',
+      customerPhone: retailer?.phoneNumber || '',
+      customerEmail: retailer?.email || undefined,
+      wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim(),
+      trackingNumber: order.deliveryTrackingNumber || undefined
+    });
+  }
+
+  // Welcome messages go out by every channel the customer has; only retry if none got through
+  private async sendWelcome(order: OrderWithItems, payload: WelcomeMessagesPayload): Promise<void> {
+    const wholesaler = order.wholesaler;
+    const result = await sendWelcomeMessages({
+      ...payload,
+      wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim() || 'Your Wholesale Partner',
+      wholesalerEmail: wholesaler.email || 'support@quikpik.co',
+      wholesalerPhone: wholesaler.phoneNumber || '',
+      wholesalerAccountName: `${wholesaler.firstName} ${wholesaler.lastName || ''}`.trim() || 'IBK'
+    });
+
+    if (!result.emailSent && !result.smsSent && !result.whatsappSent && result.errors.length > 0) {
+      throw new Error(result.errors.join('; '));
+    }
+  }
+
+  private async getShippingAddress(order: OrderWithItems): Promise<string> {
+    if (order.fulfillmentType === 'delivery' && order.deliveryAddressId) {
+      const address = await storage.getDeliveryAddressById(order.deliveryAddressId);
+      if (address) {
+        return [
+          address.addressLine1,
+          address.addressLine2,
+          `${address.city}${address.state ? ', ' + address.state : ''}`,
+          address.postalCode,
+          address.country
+        ].filter(Boolean).join('\n');
+      }
+    }
+    return order.deliveryAddress || (order.fulfillmentType === 'pickup' ? 'Collection from store' : 'Address to be confirmed');
+  }
+}
+
+/**
+ * How a wholesaler's new order alerts go out: their chosen WhatsApp provider
+ * when it is set up, otherwise whichever one is. Null if neither is.
+ */
+export function getWhatsAppAlertProvider(wholesaler: any): 'direct' | 'twilio' | null {
+  const direct = !!(wholesaler.whatsappAccessToken && wholesaler.whatsappBusinessPhoneId && wholesaler.businessPhone);
+  const viaTwilio = !!(wholesaler.twilioAuthToken && wholesaler.twilioPhoneNumber && (wholesaler.twilioAccountSid || process.env.TWILIO_ACCOUNT_SID));
+  if (direct && (wholesaler.whatsappProvider === 'direct' || !viaTwilio)) return 'direct';
+  return viaTwilio ? 'twilio' : null;
+}
+
+export const outboxService = new OutboxService();
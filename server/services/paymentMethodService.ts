@@ -0,0 +1,244 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+export interface OffSessionChargeInput {
+  customerId: string;
+  wholesaler: User;
+  amount: number; // Total to charge the customer, in pounds
+  wholesalerReceives: number; // Transferred to the wholesaler's Connect account; 0 keeps it all on the platform
+  paymentMethodId?: string | null; // Defaults to the customer's default card
+  description: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+  // Called with the PaymentIntent before the card is charged, so callers can record it first
+  onCreated?: (paymentIntent: Stripe.PaymentIntent) => Promise<void>;
+}
+
+// A charge the bank declined or that needs the customer present to authenticate
+export class OffSessionChargeError extends Error {}
+
+/**
+ * Cards saved to the customer's Stripe Customer (users.stripeCustomerId). Charges
+ * are made from the platform with the wholesaler's Connect account as the
+ * merchant of record, so cards are saved on behalf of that account and can be
+ * reused at checkout or charged off-session for top-ups and standing orders.
+ */
+export class PaymentMethodService {
+
+  async listCards(customerId: string): Promise<SavedCard[]> {
+    if (!stripe) return [];
+    const customer = await storage.getUser(customerId);
+    if (!customer?.stripeCustomerId) return [];
+
+    const [stripeCustomer, paymentMethods] = await Promise.all([
+      stripe.customers.retrieve(customer.stripeCustomerId),
+      stripe.paymentMethods.list({ customer: customer.stripeCustomerId, type: 'card' })
+    ]);
+    const defaultPaymentMethod = stripeCustomer.deleted ? null : stripeCustomer.invoice_settings?.default_payment_method;
+    const defaultId = typeof defaultPaymentMethod === 'string' ? defaultPaymentMethod : defaultPaymentMethod?.id;
+
+    return paymentMethods.data.map((paymentMethod, index) => ({
+      id: paymentMethod.id,
+      brand: paymentMethod.card?.brand || 'card',
+      last4: paymentMethod.card?.last4 || '',
+      expMonth: paymentMethod.card?.exp_month || 0,
+      expYear: paymentMethod.card?.exp_year || 0,
+      // With no default chosen, the most recently saved card is used
+      isDefault: defaultId ? paymentMethod.id === defaultId : index === 0
+    }));
+  }
+
+  /**
+   * A card saved to this customer - throws if it belongs to someone else
+   */
+  async getCard(customerId: string, paymentMethodId: string): Promise<SavedCard> {
+    const card = (await this.listCards(customerId)).find(saved => saved.id === paymentMethodId);
+    if (!card) {
+      throw new Error('Saved card not found');
+    }
+    return card;
+  }
+
+  async getDefaultCard(customerId: string): Promise<SavedCard | null> {
+    return (await this.listCards(customerId)).find(card => card.isDefault) || null;
+  }
+
+  /**
+   * Start saving a new card from the portal. The SetupIntent is confirmed in
+   * the browser with the Payment Element.
+   */
+  async createSetupIntent(customerId: string, wholesalerId: string): Promise<{ clientSecret: string }> {
+    if (!stripe) {
+      throw new Error('Card payments are not available right now');
+    }
+
+    const stripeCustomerId = await this.getOrCreateStripeCustomer(customerId);
+    const wholesaler = await storage.getUser(wholesalerId);
+    const connectAccountId = wholesaler ? await this.getConnectAccountId(wholesaler) : null;
+
+    const setupIntent = await stripe.setupIntents.create({
+      customer: stripeCustomerId,
+      usage: 'off_session',
+      automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+      ...(connectAccountId ? { on_behalf_of: connectAccountId } : {}),
+      metadata: { customerId, wholesalerId }
+    });
+
+    return { clientSecret: setupIntent.client_secret! };
+  }
+
+  async setDefaultCard(customerId: string, paymentMethodId: string): Promise<SavedCard[]> {
+    await this.getCard(customerId, paymentMethodId);
+    const stripeCustomerId = await this.getOrCreateStripeCustomer(customerId);
+    await stripe!.customers.update(stripeCustomerId, {
+      invoice_settings: { default_payment_method: paymentMethodId }
+    });
+    return await this.listCards(customerId);
+  }
+
+  async removeCard(customerId: string, paymentMethodId: string): Promise<SavedCard[]> {
+    await this.getCard(customerId, paymentMethodId);
+
+    const standingOrders = await storage.getStandingOrdersUsingCard(customerId, paymentMethodId);
+    if (standingOrders.length > 0) {
+      throw new Error(`This card pays for ${standingOrders.map(standingOrder => `"${standingOrder.name}"`).join(', ')} - choose another card for ${standingOrders.length === 1 ? 'that standing order' : 'those standing orders'} first`);
+    }
+
+    await stripe!.paymentMethods.detach(paymentMethodId);
+    console.log(`🗑️ Customer ${customerId} removed saved card ${paymentMethodId}`);
+    return await this.listCards(customerId);
+  }
+
+  /**
+   * Attach a signed-in customer's checkout payment to their Stripe Customer so
+   * one of their saved cards can be used to pay it
+   */
+  async getCheckoutCustomer(customerId: string): Promise<string | null> {
+    const customer = await storage.getUser(customerId);
+    return customer?.stripeCustomerId || null;
+  }
+
+  /**
+   * Keep the new card entered at checkout for later. Called just before the
+   * portal confirms the payment when the customer ticks "save this card".
+   */
+  async saveCardAtCheckout(customerId: string, paymentIntentId: string): Promise<void> {
+    if (!stripe) {
+      throw new Error('Card payments are not available right now');
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.metadata?.retailerId !== customerId) {
+      throw new Error('Payment not found');
+    }
+    if (paymentIntent.status !== 'requires_payment_method') {
+      throw new Error('This payment has already been submitted');
+    }
+
+    await stripe.paymentIntents.update(paymentIntentId, {
+      customer: await this.getOrCreateStripeCustomer(customerId),
+      setup_future_usage: 'off_session'
+    });
+  }
+
+  /**
+   * Charge a saved card without the customer present. Declines and cards that
+   * need authentication come back as OffSessionChargeError, leaving the
+   * PaymentIntent unpaid.
+   */
+  async chargeOffSession(input: OffSessionChargeInput): Promise<Stripe.PaymentIntent> {
+    if (!stripe) {
+      throw new OffSessionChargeError('Card payments are not available right now');
+    }
+
+    const customer = await storage.getUser(input.customerId);
+    const paymentMethodId = input.paymentMethodId || (await this.getDefaultCard(input.customerId))?.id;
+    if (!customer?.stripeCustomerId || !paymentMethodId) {
+      throw new OffSessionChargeError('No saved card to charge');
+    }
+
+    const paymentConfig: Stripe.PaymentIntentCreateParams = {
+      amount: Math.round(input.amount * 100),
+      currency: 'gbp',
+      customer: customer.stripeCustomerId,
+      payment_method: paymentMethodId,
+      receipt_email: customer.email || undefined,
+      description: input.description,
+      metadata: { ...input.metadata, wholesalerId: input.wholesaler.id }
+    };
+
+    // Always on behalf of the wholesaler, as the card was saved, so the mandate and statement descriptor
+    // match; the transfer only when they receive part of the charge (not e.g. a delivery top-up)
+    const connectAccountId = await this.getConnectAccountId(input.wholesaler);
+    if (connectAccountId) {
+      paymentConfig.on_behalf_of = connectAccountId;
+      if (input.wholesalerReceives > 0) {
+        paymentConfig.transfer_data = { destination: connectAccountId, amount: Math.round(input.wholesalerReceives * 100) };
+      }
+    }
+
+    // Created first and confirmed separately, so nothing is charged until the caller has the id
+    const paymentIntent = await stripe.paymentIntents.create(paymentConfig, { idempotencyKey: input.idempotencyKey });
+    if (input.onCreated) {
+      await input.onCreated(paymentIntent);
+    }
+
+    try {
+      return await stripe.paymentIntents.confirm(
+        paymentIntent.id,
+        { off_session: true },
+        { idempotencyKey: `${input.idempotencyKey}_confirm` }
+      );
+    } catch (error: any) {
+      if (error?.type === 'StripeCardError') {
+        throw new OffSessionChargeError(`Card payment failed - ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  async getOrCreateStripeCustomer(customerId: string): Promise<string> {
+    const customer = await storage.getUser(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    if (customer.stripeCustomerId) return customer.stripeCustomerId;
+
+    const stripeCustomer = await stripe!.customers.create({
+      email: customer.email || undefined,
+      phone: customer.phoneNumber || undefined,
+      name: `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || undefined,
+      metadata: { userId: customerId, businessName: customer.businessName || '' }
+    });
+    await storage.updateUser(customerId, { stripeCustomerId: stripeCustomer.id });
+    return stripeCustomer.id;
+  }
+
+  // Same readiness check as checkout: only route money to Connect accounts that can take charges
+  private async getConnectAccountId(wholesaler: User): Promise<string | null> {
+    if (!stripe || !wholesaler.stripeAccountId) return null;
+    try {
+      const account = await stripe.accounts.retrieve(wholesaler.stripeAccountId);
+      return account.charges_enabled && account.details_submitted ? wholesaler.stripeAccountId : null;
+    } catch (error: any) {
+      console.error(`❌ Connect account check failed for ${wholesaler.stripeAccountId}:`, error.message);
+      return null;
+    }
+  }
+}
+
+export const paymentMethodService = new PaymentMethodService();
@@ -0,0 +1,48 @@
+import { storage } from "../storage";
+import { createStripeBalanceSource, type StripeBalanceSource } from "../stripe-balance";
+import { reconcilePayout, type PayoutReconciliation, type PayoutSummary } from "../../shared/payout-reconciliation";
+import type { User } from "@shared/schema";
+
+export class PayoutReconciliationService {
+  constructor(private balanceSource: StripeBalanceSource | null = createStripeBalanceSource()) {}
+
+  // Most recent payouts to the wholesaler's bank first
+  async listPayouts(wholesaler: User, options: { from?: Date; to?: Date; limit?: number } = {}): Promise<PayoutSummary[]> {
+    const source = this.getSource(wholesaler);
+    return await source.listPayouts(wholesaler.stripeAccountId!, { ...options, limit: options.limit || 25 });
+  }
+
+  /**
+   * The payout with every balance transaction inside it, each linked back to
+   * its order where one can be found
+   */
+  async reconcile(wholesaler: User, payoutId: string): Promise<PayoutReconciliation | null> {
+    const source = this.getSource(wholesaler);
+    const payout = await source.getPayout(wholesaler.stripeAccountId!, payoutId);
+    if (!payout) return null;
+
+    const transactions = await source.listPayoutTransactions(wholesaler.stripeAccountId!, payoutId);
+    const paymentIntentIds = Array.from(new Set(
+      transactions.map(transaction => transaction.paymentIntentId).filter((id): id is string => !!id)
+    ));
+    const matches = await storage.getOrdersForPaymentIntents(wholesaler.id, paymentIntentIds);
+
+    const reconciliation = reconcilePayout(payout, transactions, matches);
+    if (reconciliation.unmatchedCount > 0 || reconciliation.difference !== 0) {
+      console.log(`⚠️ Payout ${payoutId} for ${wholesaler.id}: ${reconciliation.unmatchedCount} unmatched transactions, difference ${reconciliation.difference}`);
+    }
+    return reconciliation;
+  }
+
+  private getSource(wholesaler: User): StripeBalanceSource {
+    if (!this.balanceSource) {
+      throw new Error('Stripe is not configured');
+    }
+    if (!wholesaler.stripeAccountId) {
+      throw new Error('Connect a Stripe account to see payouts');
+    }
+    return this.balanceSource;
+  }
+}
+
+export const payoutReconciliationService = new PayoutReconciliationService();
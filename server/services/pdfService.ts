@@ -0,0 +1,34 @@
+// Escape text before it goes into generated HTML documents
+export const escapeHtml = (value: string | null | undefined) => (value || '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export class PdfService {
+
+  /**
+   * Print an HTML document to an A4 PDF with headless Chrome
+   */
+  async renderPdf(html: string, margin = '15mm'): Promise<Buffer> {
+    const puppeteer = await import('puppeteer');
+    const browser = await puppeteer.default.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox']
+    });
+
+    try {
+      const page = await browser.newPage();
+      await page.setContent(html, { waitUntil: 'networkidle0' });
+      return Buffer.from(await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: margin, right: margin, bottom: margin, left: margin }
+      }));
+    } finally {
+      await browser.close();
+    }
+  }
+}
+
+export const pdfService = new PdfService();
@@ -0,0 +1,245 @@
+import { storage, type PickListWithDetails, type PickListLine } from "../storage";
+import { sendEmail } from "../sendgrid-service";
+import { generateReadyForCollectionEmail } from "../email-templates";
+import { fulfilmentService } from "./fulfilmentService";
+import { escapeHtml } from "./pdfService";
+import { consolidatePickLines, formatPickQuantity, isPickLineComplete } from "../../shared/picking";
+import { getOutstandingQuantity } from "../../shared/order-fulfilment";
+import { formatSlotLabel } from "../../shared/fulfilment-slots";
+import { formatDeliveryAddress } from "../../shared/utils/address-formatter";
+import type { Order, PickList, User } from "@shared/schema";
+
+const PRINT_STYLES = `
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #111827; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .tick { width: 24px; height: 16px; border: 1px solid #6b7280; display: inline-block; }
+  .muted { color: #6b7280; }
+  .slip { page-break-after: always; }
+  .slip:last-child { page-break-after: auto; }
+  .addresses { display: flex; justify-content: space-between; margin-top: 12px; }
+`;
+
+export class PickingService {
+
+  /**
+   * Load a pick list and check it belongs to the wholesaler
+   */
+  async getWholesalerPickList(id: number, wholesalerId: string): Promise<PickListWithDetails | null> {
+    const pickList = await storage.getPickList(id);
+    if (!pickList || pickList.wholesalerId !== wholesalerId) return null;
+    return pickList;
+  }
+
+  async createPickList(wholesalerId: string, orderIds: number[], createdBy: string): Promise<PickListWithDetails> {
+    const created = await storage.createPickList(wholesalerId, orderIds, createdBy);
+    console.log(`📋 Created pick list ${created.pickListNumber} for ${orderIds.length} orders`);
+    return (await storage.getPickList(created.id))!;
+  }
+
+  /**
+   * Record what was picked on a line. Once every line of an order is picked
+   * the order moves on: collection orders become ready to collect, delivery
+   * orders are shipped. The list completes when every line is picked.
+   */
+  async pickLine(pickList: PickListWithDetails, itemId: number, pickedQuantity: number, pickedBy: string): Promise<{ pickList: PickListWithDetails; advancedOrders: string[] }> {
+    const item = await storage.recordPick(pickList.id, itemId, pickedQuantity, pickedBy);
+    let updated = (await storage.getPickList(pickList.id))!;
+
+    const advancedOrders: string[] = [];
+    const orderLines = updated.items.filter(line => line.orderId === item.orderId);
+    if (orderLines.every(isPickLineComplete)) {
+      try {
+        if (await this.advanceOrder(item.orderId, orderLines)) {
+          advancedOrders.push(orderLines[0].orderNumber);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to advance order ${item.orderId} after picking:`, error);
+      }
+    }
+
+    if (updated.items.every(isPickLineComplete)) {
+      await storage.updatePickListStatus(updated.id, 'completed');
+      updated = (await storage.getPickList(updated.id))!;
+      console.log(`✅ Pick list ${updated.pickListNumber} fully picked`);
+    }
+
+    return { pickList: updated, advancedOrders };
+  }
+
+  async cancelPickList(pickList: PickList): Promise<PickList> {
+    if (pickList.status !== 'open') {
+      throw new Error('Only open pick lists can be cancelled');
+    }
+    return await storage.updatePickListStatus(pickList.id, 'cancelled');
+  }
+
+  renderPickListHtml(pickList: PickListWithDetails, wholesaler: User): string {
+    const consolidated = consolidatePickLines(pickList.items.map(line => ({
+      ...line,
+      product: line
+    })));
+
+    const rows = consolidated.map(line => `
+      <tr>
+        <td><span class="tick"></span></td>
+        <td>${escapeHtml(line.productName)}</td>
+        <td><strong>${escapeHtml(line.display)}</strong></td>
+        <td>${line.quantity} ${line.sellingType}</td>
+        <td class="muted">${line.orderCount} ${line.orderCount === 1 ? 'order' : 'orders'}</td>
+      </tr>`).join('');
+
+    const orderRows = this.groupByOrder(pickList.items).map(lines => `
+      <tr>
+        <td>${escapeHtml(lines[0].orderNumber)}</td>
+        <td>${escapeHtml(lines[0].customerName)}</td>
+        <td>${lines[0].fulfillmentType === 'pickup' ? 'Collection' : 'Delivery'}</td>
+        <td>${lines.map(line => `${escapeHtml(line.productName)} × ${escapeHtml(formatPickQuantity(line.quantity, line.sellingType, line))}`).join('<br>')}</td>
+      </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(pickList.pickListNumber)}</title><style>${PRINT_STYLES}</style></head>
+<body>
+  <h1>Pick list ${escapeHtml(pickList.pickListNumber)}</h1>
+  <div class="muted">
+    ${escapeHtml(wholesaler.businessName)}${pickList.warehouseName ? ` · ${escapeHtml(pickList.warehouseName)}` : ''} ·
+    Created ${pickList.createdAt ? new Date(pickList.createdAt).toLocaleString('en-GB') : ''}
+  </div>
+  <table>
+    <thead><tr><th></th><th>Product</th><th>Pick</th><th>Total</th><th>For</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <h2 style="font-size: 14px; margin-top: 24px;">Orders</h2>
+  <table>
+    <thead><tr><th>Order</th><th>Customer</th><th>Method</th><th>Lines</th></tr></thead>
+    <tbody>${orderRows}</tbody>
+  </table>
+</body>
+</html>`;
+  }
+
+  /**
+   * One packing slip per order, without prices, to go in the box or on the pallet
+   */
+  async renderPackingSlipsHtml(orderIds: number[], lines: PickListLine[] | null, wholesaler: User): Promise<string> {
+    const slips: string[] = [];
+    for (const orderId of orderIds) {
+      const order = await storage.getOrder(orderId);
+      if (!order) continue;
+
+      const slipLines = lines
+        ? lines.filter(line => line.orderId === orderId).map(line => ({
+            name: line.productName,
+            quantity: formatPickQuantity(line.quantity, line.sellingType, line)
+          }))
+        : order.items
+            .filter(item => getOutstandingQuantity(item) > 0 || (item.fulfilledQuantity || 0) > 0)
+            .map(item => ({
+              name: item.product?.name || `Product ${item.productId}`,
+              quantity: formatPickQuantity(item.quantity - (item.cancelledQuantity || 0), item.sellingType || 'units', item.product || {})
+            }));
+
+      const isCollection = order.fulfillmentType === 'pickup';
+      const deliverTo = isCollection
+        ? ['Customer collection']
+        : formatDeliveryAddress(order.deliveryAddress);
+
+      slips.push(`
+  <div class="slip">
+    <h1>Packing slip</h1>
+    <div class="muted">Order ${escapeHtml(order.orderNumber)} · ${order.createdAt ? new Date(order.createdAt).toLocaleDateString('en-GB') : ''}</div>
+    <div class="addresses">
+      <div>
+        <strong>From</strong><br>
+        ${escapeHtml(wholesaler.businessName)}<br>
+        ${escapeHtml(wholesaler.businessAddress)}
+      </div>
+      <div>
+        <strong>${isCollection ? 'Collected by' : 'Deliver to'}</strong><br>
+        ${escapeHtml(order.customerName || `${order.retailer?.firstName || ''} ${order.retailer?.lastName || ''}`.trim())}<br>
+        ${deliverTo.map(escapeHtml).join('<br>')}
+      </div>
+    </div>
+    <table>
+      <thead><tr><th>Packed</th><th>Product</th><th>Quantity</th></tr></thead>
+      <tbody>${slipLines.map(line => `
+        <tr><td><span class="tick"></span></td><td>${escapeHtml(line.name)}</td><td>${escapeHtml(line.quantity)}</td></tr>`).join('')}
+      </tbody>
+    </table>
+    ${order.notes ? `<p><strong>Notes:</strong> ${escapeHtml(order.notes)}</p>` : ''}
+  </div>`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Packing slips</title><style>${PRINT_STYLES}</style></head>
+<body>${slips.join('')}</body>
+</html>`;
+  }
+
+  groupByOrder(lines: PickListLine[]): PickListLine[][] {
+    const byOrder = new Map<number, PickListLine[]>();
+    for (const line of lines) {
+      byOrder.set(line.orderId, [...(byOrder.get(line.orderId) || []), line]);
+    }
+    return Array.from(byOrder.values());
+  }
+
+  private async advanceOrder(orderId: number, lines: PickListLine[]): Promise<boolean> {
+    const order = await storage.getOrder(orderId);
+    if (!order) return false;
+
+    if (order.fulfillmentType === 'pickup') {
+      if (order.status === 'ready_for_collection') return false;
+      const updated = await storage.markOrderReadyForCollection(orderId);
+      await this.sendReadyForCollection(updated, order.retailer, order.wholesaler);
+      console.log(`📦 Order ${order.orderNumber} picked and ready for collection`);
+      return true;
+    }
+
+    // Ship what was picked, capped at what is still outstanding in case the order changed since
+    const shipLines = lines
+      .map(line => {
+        const item = order.items.find(i => i.id === line.orderItemId);
+        return { orderItemId: line.orderItemId, quantity: item ? Math.min(line.pickedQuantity, getOutstandingQuantity(item)) : 0 };
+      })
+      .filter(line => line.quantity > 0);
+    if (shipLines.length === 0) return false;
+
+    await fulfilmentService.createShipment(order, shipLines, { notes: 'Picked on pick list' });
+    console.log(`🚚 Order ${order.orderNumber} picked and shipped`);
+    return true;
+  }
+
+  private async sendReadyForCollection(order: Order, customer: User | undefined, wholesaler: User | undefined): Promise<void> {
+    try {
+      if (!customer?.email || !wholesaler) return;
+      const emailData = generateReadyForCollectionEmail({
+        orderNumber: order.orderNumber,
+        customerName: `${customer.firstName} ${customer.lastName}`.trim() || 'Customer',
+        wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim(),
+        businessPhone: wholesaler.businessPhone || wholesaler.phoneNumber || undefined,
+        businessAddress: wholesaler.businessAddress || undefined,
+        orderTotal: order.total,
+        readyTime: order.readyToCollectAt ? order.readyToCollectAt.toLocaleString() : new Date().toLocaleString(),
+        orderUrl: `https://quikpik.app/customer-portal/${wholesaler.id}`,
+        collectionSlot: order.slotStartsAt && order.slotEndsAt ? formatSlotLabel(order.slotStartsAt, order.slotEndsAt) : undefined
+      });
+
+      await sendEmail({
+        to: customer.email,
+        from: 'hello@quikpik.co',
+        subject: emailData.subject,
+        html: emailData.html,
+        text: emailData.text
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send ready for collection email for order ${order.id}:`, error);
+    }
+  }
+}
+
+export const pickingService = new PickingService();
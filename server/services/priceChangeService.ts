@@ -0,0 +1,90 @@
+import { storage, type PriceChangeBatchWithProposals } from "../storage";
+import { applyPriceGuardrails, isSamePrice } from "../../shared/price-guardrails";
+import type { Product } from "@shared/schema";
+
+export interface PriceRecommendationInput {
+  productId: number;
+  recommendedPrice: number;
+  reasoning?: string | null;
+  confidence?: number | null;
+}
+
+export class PriceChangeService {
+
+  /**
+   * Queue automatic price recommendations for review. Nothing changes on the
+   * products until the batch is approved. Recommendations are clamped to each
+   * product's guardrails; ones that end up at the current price are kept as
+   * 'blocked' so the reviewer can see the guardrail stopped them.
+   */
+  async queueRecommendations(
+    wholesalerId: string,
+    strategy: string,
+    recommendations: PriceRecommendationInput[]
+  ): Promise<PriceChangeBatchWithProposals | null> {
+    const products = await storage.getWholesalerProductsByIds(
+      wholesalerId,
+      Array.from(new Set(recommendations.map(recommendation => recommendation.productId)))
+    );
+    const productsById = new Map(products.map(product => [product.id, product]));
+
+    const proposals = [];
+    for (const recommendation of recommendations) {
+      const product = productsById.get(recommendation.productId);
+      if (!product) continue;
+
+      const { price, guardrail } = applyPriceGuardrails(recommendation.recommendedPrice, product);
+      proposals.push({
+        productId: product.id,
+        currentPrice: product.price,
+        recommendedPrice: recommendation.recommendedPrice.toFixed(2),
+        proposedPrice: price.toFixed(2),
+        guardrail,
+        reasoning: recommendation.reasoning || null,
+        confidence: recommendation.confidence ?? null,
+        status: isSamePrice(price, product.price) ? 'blocked' : 'pending'
+      });
+    }
+
+    if (proposals.length === 0) return null;
+
+    return await storage.createPriceChangeBatch({ wholesalerId, strategy }, proposals);
+  }
+
+  async approve(batch: PriceChangeBatchWithProposals, reviewedBy: string, proposalIds?: number[]): Promise<PriceChangeBatchWithProposals> {
+    return await storage.approvePriceChangeBatch(batch.id, reviewedBy, proposalIds);
+  }
+
+  async reject(batch: PriceChangeBatchWithProposals, reviewedBy: string): Promise<PriceChangeBatchWithProposals> {
+    return await storage.rejectPriceChangeBatch(batch.id, reviewedBy);
+  }
+
+  async rollback(batch: PriceChangeBatchWithProposals, rolledBackBy: string) {
+    return await storage.rollbackPriceChangeBatch(batch.id, rolledBackBy);
+  }
+
+  async setGuardrails(product: Product, priceFloor?: string | number | null, priceCeiling?: string | number | null): Promise<Product> {
+    const floor = this.parseGuardrail(priceFloor, 'floor');
+    const ceiling = this.parseGuardrail(priceCeiling, 'ceiling');
+    if (floor !== null && ceiling !== null && floor > ceiling) {
+      throw new Error('The price floor cannot be above the price ceiling');
+    }
+
+    return await storage.updateProductPriceGuardrails(
+      product.id,
+      floor !== null ? floor.toFixed(2) : null,
+      ceiling !== null ? ceiling.toFixed(2) : null
+    );
+  }
+
+  private parseGuardrail(value: string | number | null | undefined, name: string): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const price = typeof value === 'number' ? value : parseFloat(value);
+    if (isNaN(price) || price < 0) {
+      throw new Error(`Enter a valid price ${name}`);
+    }
+    return price;
+  }
+}
+
+export const priceChangeService = new PriceChangeService();
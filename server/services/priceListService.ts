@@ -0,0 +1,101 @@
+import { storage } from "../storage";
+import { resolveContractPrice, toPriceListRule, type PriceListRule } from "../../shared/price-list-pricing";
+
+export class PriceListService {
+
+  /**
+   * Get the active price list rule for a customer, or null when they pay list price
+   */
+  async getCustomerPriceRule(customerId: string | null | undefined, wholesalerId: string, trx?: any): Promise<PriceListRule | null> {
+    if (!customerId) return null;
+
+    const priceList = await storage.getPriceListForCustomer(customerId, wholesalerId, trx);
+    if (!priceList) return null;
+
+    return toPriceListRule(priceList);
+  }
+
+  /**
+   * Return a copy of the product with price / palletPrice replaced by the contract price.
+   * The list price is kept on listPrice / listPalletPrice for display.
+   */
+  applyToProduct<T extends { id: number; price: string; palletPrice?: string | null; promoPrice?: string | null; promoActive?: boolean | null }>(
+    product: T,
+    rule: PriceListRule | null
+  ): T & { listPrice?: string; listPalletPrice?: string | null; priceListName?: string } {
+    if (!rule) return product;
+
+    const contract = resolveContractPrice(product.id, product.price, product.palletPrice, rule);
+    if (!contract.applied) return product;
+
+    // A sale price only applies if it still beats the negotiated rate
+    const promoStillBetter = product.promoActive && product.promoPrice && parseFloat(product.promoPrice) < contract.unitPrice;
+
+    return {
+      ...product,
+      price: contract.unitPrice.toFixed(2),
+      palletPrice: contract.palletPrice != null ? contract.palletPrice.toFixed(2) : product.palletPrice,
+      promoActive: promoStillBetter ? product.promoActive : false,
+      listPrice: product.price,
+      listPalletPrice: product.palletPrice,
+      priceListName: rule.priceListName
+    };
+  }
+
+  /**
+   * Apply a customer's price list to a list of products
+   */
+  async applyToProducts<T extends { id: number; price: string; palletPrice?: string | null; promoPrice?: string | null; promoActive?: boolean | null }>(
+    products: T[],
+    customerId: string | null | undefined,
+    wholesalerId: string
+  ): Promise<T[]> {
+    const rule = await this.getCustomerPriceRule(customerId, wholesalerId);
+    if (!rule) return products;
+
+    console.log(`💷 Applying price list "${rule.priceListName}" to ${products.length} products for customer ${customerId}`);
+    return products.map(product => this.applyToProduct(product, rule));
+  }
+
+  /**
+   * Bring order lines down to the customer's contract rates. Lines must be
+   * priced this way before payment is taken - the order itself refuses any
+   * line above the customer's rate. Returns how much the lines came down by.
+   */
+  async applyToOrderItems<T extends { productId: number; quantity: number; unitPrice: string | number; total?: string | number; sellingType?: string | null }>(
+    items: T[],
+    customerId: string | null | undefined,
+    wholesalerId: string
+  ): Promise<{ items: T[]; savings: number }> {
+    const rule = await this.getCustomerPriceRule(customerId, wholesalerId);
+    if (!rule) return { items, savings: 0 };
+
+    let savings = 0;
+    const priced: T[] = [];
+    for (const item of items) {
+      const product = await storage.getProduct(item.productId);
+      if (!product) {
+        priced.push(item);
+        continue;
+      }
+
+      const contract = resolveContractPrice(product.id, product.price, product.palletPrice, rule);
+      const contractUnitPrice = item.sellingType === 'pallets' ? contract.palletPrice : contract.unitPrice;
+      const unitPrice = parseFloat(item.unitPrice.toString());
+      if (contractUnitPrice == null || contractUnitPrice >= unitPrice) {
+        priced.push(item);
+        continue;
+      }
+
+      const lineTotal = item.total != null ? parseFloat(item.total.toString()) : unitPrice * item.quantity;
+      const contractTotal = contractUnitPrice * item.quantity;
+      savings += lineTotal - contractTotal;
+      console.log(`💷 CONTRACT PRICE: Product ${item.productId} £${unitPrice.toFixed(2)} → £${contractUnitPrice.toFixed(2)} (${rule.priceListName})`);
+      priced.push({ ...item, unitPrice: contractUnitPrice.toFixed(2), total: contractTotal.toFixed(2) });
+    }
+
+    return { items: priced, savings };
+  }
+}
+
+export const priceListService = new PriceListService();
@@ -0,0 +1,123 @@
+import { storage } from "../storage";
+import { PURCHASE_ORDER_STATUS_LABELS, type PurchaseOrderStatus } from "../../shared/purchasing";
+import type { PurchaseOrder } from "@shared/schema";
+
+export interface PurchaseOrderLineInput {
+  productId: number;
+  quantity: number;
+  unitType: 'units' | 'pallets';
+  unitCost: number;
+}
+
+export interface ReceiptLineInput {
+  itemId: number;
+  quantity: number;
+  batchCode?: string | null;
+  expiryDate?: Date | null; // Defaults from the product's shelf life when left blank
+}
+
+export class PurchaseOrderService {
+
+  /**
+   * Raise a draft purchase order against one of the wholesaler's suppliers
+   */
+  async createPurchaseOrder(
+    wholesalerId: string,
+    supplierId: number,
+    lines: PurchaseOrderLineInput[],
+    options: { expectedDeliveryDate?: Date | null; notes?: string | null; warehouseId?: number | null } = {}
+  ) {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier || supplier.wholesalerId !== wholesalerId) {
+      throw new Error('Supplier not found');
+    }
+    if (!supplier.isActive) {
+      throw new Error(`${supplier.name} is inactive`);
+    }
+    if (lines.length === 0) {
+      throw new Error('Add at least one product to the purchase order');
+    }
+    if (options.warehouseId) {
+      const warehouse = await storage.getWarehouse(options.warehouseId);
+      if (!warehouse || warehouse.wholesalerId !== wholesalerId || !warehouse.isActive) {
+        throw new Error('Delivery warehouse not found');
+      }
+    }
+
+    const items = [];
+    for (const line of lines) {
+      const product = await storage.getProduct(line.productId);
+      if (!product || product.wholesalerId !== wholesalerId) {
+        throw new Error(`Product ${line.productId} not found`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error(`Enter a whole quantity for ${product.name}`);
+      }
+      if (!Number.isFinite(line.unitCost) || line.unitCost < 0) {
+        throw new Error(`Enter a unit cost for ${product.name}`);
+      }
+      items.push({
+        productId: product.id,
+        quantity: line.quantity,
+        unitType: line.unitType === 'pallets' ? 'pallets' : 'units',
+        unitCost: line.unitCost.toFixed(2)
+      });
+    }
+
+    const purchaseOrder = await storage.createPurchaseOrder({
+      wholesalerId,
+      supplierId,
+      expectedDeliveryDate: options.expectedDeliveryDate || null,
+      notes: options.notes || null,
+      warehouseId: options.warehouseId || null
+    }, items);
+
+    console.log(`📝 Purchase order ${purchaseOrder.poNumber} raised with ${supplier.name}`);
+    return purchaseOrder;
+  }
+
+  /**
+   * Mark a draft as sent to the supplier - it can now be received against
+   */
+  async markOrdered(purchaseOrder: PurchaseOrder): Promise<PurchaseOrder> {
+    this.assertStatus(purchaseOrder, ['draft']);
+    return await storage.updatePurchaseOrder(purchaseOrder.id, { status: 'ordered', orderedAt: new Date() });
+  }
+
+  async cancel(purchaseOrder: PurchaseOrder): Promise<PurchaseOrder> {
+    this.assertStatus(purchaseOrder, ['draft', 'ordered']);
+    return await storage.updatePurchaseOrder(purchaseOrder.id, { status: 'cancelled', cancelledAt: new Date() });
+  }
+
+  /**
+   * Book goods in. Stock rises by the received quantities (which may release
+   * backorders) and the unit costs update the products' cost of goods.
+   */
+  async receive(purchaseOrder: PurchaseOrder, lines: ReceiptLineInput[]): Promise<PurchaseOrder> {
+    this.assertStatus(purchaseOrder, ['ordered', 'partially_received']);
+
+    const received = lines.filter(line => line.quantity > 0);
+    if (received.length === 0) {
+      throw new Error('Enter a received quantity for at least one line');
+    }
+
+    const { purchaseOrder: updated, receivedProductIds } = await storage.receivePurchaseOrder(purchaseOrder.id, received);
+
+    const { fulfilmentService } = await import('./fulfilmentService');
+    for (const productId of Array.from(new Set(receivedProductIds))) {
+      await fulfilmentService.releaseBackorders(productId);
+    }
+
+    console.log(`📦 Goods received on ${updated.poNumber}: ${receivedProductIds.length} lines, now ${updated.status}`);
+    return updated;
+  }
+
+  private assertStatus(purchaseOrder: PurchaseOrder, allowed: PurchaseOrderStatus[]) {
+    if (!allowed.includes(purchaseOrder.status as PurchaseOrderStatus)) {
+      const status = PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status as PurchaseOrderStatus] || purchaseOrder.status;
+      throw new Error(`Purchase order ${purchaseOrder.poNumber} is ${status.toLowerCase()}`);
+    }
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,190 @@
+import { storage } from "../storage";
+import { sendEmail } from "../sendgrid-service";
+import { formatCurrency } from "../../shared/utils/currency";
+import { RETURN_STATUS_LABELS, type ReturnStatus } from "../../shared/returns";
+import type { Order, OrderItem, ReturnRequest } from "@shared/schema";
+
+export interface ReturnLineInput {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface InspectionInput {
+  itemId: number;
+  outcome: 'restock' | 'write_off' | 'rejected';
+  notes?: string;
+}
+
+// Orders that haven't been paid for or have already been unwound can't be returned
+const NON_RETURNABLE_ORDER_STATUSES = ['pending', 'cancelled', 'refunded'];
+
+export class ReturnService {
+
+  /**
+   * Load an order the logged-in portal customer placed with this wholesaler
+   */
+  async getCustomerOrder(orderId: number, customerId: string, wholesalerId: string) {
+    const order = await storage.getOrder(orderId);
+    if (!order || order.wholesalerId !== wholesalerId) return null;
+
+    if (order.retailerId === customerId) return order;
+
+    // Older orders were matched to customers by phone number rather than retailer id
+    const customer = await storage.getUser(customerId);
+    if (customer?.phoneNumber && order.customerPhone === customer.phoneNumber) return order;
+
+    return null;
+  }
+
+  /**
+   * Quantity of each order line the customer can still send back
+   */
+  async getReturnableQuantities(order: Order & { items: OrderItem[] }): Promise<Record<number, number>> {
+    const returned = await storage.getReturnedQuantities(order.id);
+    const returnable: Record<number, number> = {};
+    for (const item of order.items) {
+      returnable[item.id] = Math.max(0, item.quantity - (item.cancelledQuantity || 0) - (returned[item.id] || 0));
+    }
+    return returnable;
+  }
+
+  /**
+   * Raise a return on behalf of the customer
+   */
+  async requestReturn(order: Order & { items: OrderItem[] }, customerId: string, lines: ReturnLineInput[], reason: string) {
+    if (NON_RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error(`Orders that are ${order.status} cannot be returned`);
+    }
+
+    const requested = lines.filter(line => line.quantity > 0);
+    if (requested.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+
+    const returnable = await this.getReturnableQuantities(order);
+    const items = requested.map(line => {
+      const orderItem = order.items.find(item => item.id === line.orderItemId);
+      if (!orderItem) {
+        throw new Error(`Order item ${line.orderItemId} does not belong to this order`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity > (returnable[orderItem.id] || 0)) {
+        throw new Error(`Only ${returnable[orderItem.id] || 0} of this item can be returned`);
+      }
+      return {
+        orderItemId: orderItem.id,
+        productId: orderItem.productId,
+        quantity: line.quantity,
+        unitPrice: orderItem.unitPrice,
+        sellingType: orderItem.sellingType || 'units'
+      };
+    });
+
+    const returnRequest = await storage.createReturnRequest(
+      { orderId: order.id, wholesalerId: order.wholesalerId, customerId, reason },
+      items,
+      order.orderNumber
+    );
+
+    console.log(`↩️ Return ${returnRequest.returnNumber} requested for order ${order.orderNumber}`);
+    return returnRequest;
+  }
+
+  async approve(returnRequest: ReturnRequest, notes?: string): Promise<ReturnRequest> {
+    this.assertStatus(returnRequest, ['requested']);
+    const updated = await storage.updateReturnRequest(returnRequest.id, {
+      status: 'approved',
+      approvedAt: new Date(),
+      wholesalerNotes: notes || returnRequest.wholesalerNotes
+    });
+    await this.notifyCustomer(updated, notes);
+    return updated;
+  }
+
+  async reject(returnRequest: ReturnRequest, notes?: string): Promise<ReturnRequest> {
+    this.assertStatus(returnRequest, ['requested', 'approved']);
+    const updated = await storage.updateReturnRequest(returnRequest.id, {
+      status: 'rejected',
+      rejectedAt: new Date(),
+      wholesalerNotes: notes || returnRequest.wholesalerNotes
+    });
+    await this.notifyCustomer(updated, notes);
+    return updated;
+  }
+
+  async markReceived(returnRequest: ReturnRequest): Promise<ReturnRequest> {
+    this.assertStatus(returnRequest, ['approved']);
+    return await storage.updateReturnRequest(returnRequest.id, { status: 'received', receivedAt: new Date() });
+  }
+
+  /**
+   * Record the inspection result for each line. Restocked lines go back into stock
+   * (which may release backorders) and the refund is worked out from accepted lines.
+   */
+  async inspect(returnRequest: ReturnRequest, outcomes: InspectionInput[]): Promise<ReturnRequest> {
+    this.assertStatus(returnRequest, ['received']);
+
+    const { returnRequest: inspected, restockedProductIds } = await storage.inspectReturnRequest(returnRequest.id, outcomes);
+
+    const { fulfilmentService } = await import('./fulfilmentService');
+    for (const productId of Array.from(new Set(restockedProductIds))) {
+      await fulfilmentService.releaseBackorders(productId);
+    }
+
+    console.log(`🔍 Return ${inspected.returnNumber} inspected: ${restockedProductIds.length} lines restocked, refund ${inspected.refundAmount}`);
+    await this.notifyCustomer(inspected);
+    return inspected;
+  }
+
+  /**
+   * Mark a return as refunded once the money has gone back. The route claims
+   * it (inspected -> refunding) before any money moves.
+   */
+  async recordRefund(returnRequest: ReturnRequest, stripeRefundId: string | null): Promise<ReturnRequest> {
+    this.assertStatus(returnRequest, ['refunding']);
+    const updated = await storage.updateReturnRequest(returnRequest.id, {
+      status: 'refunded',
+      stripeRefundId,
+      refundedAt: new Date()
+    });
+    await this.notifyCustomer(updated);
+    return updated;
+  }
+
+  private assertStatus(returnRequest: ReturnRequest, allowed: ReturnStatus[]) {
+    if (!allowed.includes(returnRequest.status as ReturnStatus)) {
+      throw new Error(`Return ${returnRequest.returnNumber} is ${returnRequest.status}`);
+    }
+  }
+
+  private async notifyCustomer(returnRequest: ReturnRequest, notes?: string): Promise<void> {
+    try {
+      const [customer, wholesaler] = await Promise.all([
+        storage.getUser(returnRequest.customerId),
+        storage.getUser(returnRequest.wholesalerId)
+      ]);
+      if (!customer?.email || !wholesaler) return;
+
+      const businessName = wholesaler.businessName || 'your supplier';
+      const status = RETURN_STATUS_LABELS[returnRequest.status as ReturnStatus] || returnRequest.status;
+      const lines = [
+        `Your return ${returnRequest.returnNumber} with ${businessName} has been updated: ${status}.`,
+        notes ? `Note from ${businessName}: ${notes}` : null,
+        returnRequest.status === 'approved' ? 'Please send the items back to us and keep proof of postage.' : null,
+        returnRequest.refundAmount && ['inspected', 'refunded'].includes(returnRequest.status)
+          ? `Refund amount: ${formatCurrency(returnRequest.refundAmount)}`
+          : null
+      ].filter(Boolean);
+
+      await sendEmail({
+        to: customer.email,
+        from: 'hello@quikpik.co',
+        subject: `Return ${returnRequest.returnNumber} - ${status}`,
+        text: lines.join('\n\n')
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send return update for ${returnRequest.returnNumber}:`, error);
+    }
+  }
+}
+
+export const returnService = new ReturnService();
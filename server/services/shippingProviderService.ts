@@ -0,0 +1,261 @@
+import { storage } from "../storage";
+import { createTestCredentials, type DeliveryQuote, type Parcel2GoCredentials, type QuoteRequest } from "../parcel2go";
+import { Parcel2GoProvider, createShippingProvider, type ShippingProvider } from "../shipping-providers";
+import {
+  DEFAULT_TABLE_RATE_SETTINGS,
+  SHIPPING_PROVIDER_LABELS,
+  isShippingProviderKey,
+  normalisePostcode,
+  type Parcel2GoProviderCredentials,
+  type ShippingProviderKey,
+  type TableRateService,
+  type TableRateSettings
+} from "../../shared/shipping-providers";
+import type { InsertShippingProviderAccount, ShippingProviderAccount } from "@shared/schema";
+
+export interface ShippingProviderInput {
+  provider?: ShippingProviderKey;
+  name?: string;
+  credentials?: { clientId?: string; clientSecret?: string; environment?: string } | null;
+  settings?: TableRateSettings | null;
+  isEnabled?: boolean;
+}
+
+// A carrier ready to use. accountId is null for the account-level Parcel2Go keys
+export interface ConnectedProvider {
+  accountId: number | null;
+  name: string;
+  key: ShippingProviderKey;
+  provider: ShippingProvider;
+}
+
+// A carrier account as shown in settings - the Parcel2Go secret never leaves the server
+export type ShippingProviderAccountView = Omit<ShippingProviderAccount, 'credentials'> & {
+  credentials: { clientId: string; environment: 'sandbox' | 'live'; hasSecret: boolean } | null;
+};
+
+export class ShippingProviderService {
+
+  async listAccounts(wholesalerId: string): Promise<ShippingProviderAccountView[]> {
+    const accounts = await storage.getShippingProviderAccounts(wholesalerId);
+    return accounts.map(account => this.toView(account));
+  }
+
+  async getWholesalerAccount(id: number, wholesalerId: string): Promise<ShippingProviderAccount | null> {
+    const account = await storage.getShippingProviderAccount(id);
+    if (!account || account.wholesalerId !== wholesalerId) return null;
+    return account;
+  }
+
+  async createAccount(wholesalerId: string, input: ShippingProviderInput): Promise<ShippingProviderAccountView> {
+    if (!isShippingProviderKey(input.provider)) {
+      throw new Error('Choose Parcel2Go or table rate');
+    }
+    const values = this.validateInput(input.provider, input, null);
+    const account = await storage.createShippingProviderAccount({ ...values, wholesalerId, provider: input.provider });
+    return this.toView(account);
+  }
+
+  async updateAccount(account: ShippingProviderAccount, input: ShippingProviderInput): Promise<ShippingProviderAccountView> {
+    const values = this.validateInput(account.provider, input, account);
+    return this.toView(await storage.updateShippingProviderAccount(account.id, values));
+  }
+
+  toView(account: ShippingProviderAccount): ShippingProviderAccountView {
+    const { credentials, ...rest } = account;
+    return {
+      ...rest,
+      credentials: credentials
+        ? { clientId: credentials.clientId, environment: credentials.environment, hasSecret: !!credentials.clientSecret }
+        : null
+    };
+  }
+
+  /**
+   * Every carrier the wholesaler can quote and book with. The Parcel2Go keys
+   * saved on the account (or the platform's own) still apply until the
+   * wholesaler connects a Parcel2Go account here. A null wholesaler gets the
+   * platform's Parcel2Go only.
+   */
+  async getProviders(wholesalerId: string | null): Promise<ConnectedProvider[]> {
+    const accounts = wholesalerId
+      ? (await storage.getShippingProviderAccounts(wholesalerId)).filter(account => account.isEnabled)
+      : [];
+    const providers = accounts.map(account => this.connect(account));
+
+    if (!accounts.some(account => account.provider === 'parcel2go')) {
+      const accountLevel = await this.getAccountLevelParcel2Go(wholesalerId);
+      if (accountLevel) providers.unshift(accountLevel);
+    }
+    return providers;
+  }
+
+  /**
+   * The carrier a quote came from or a booking was made with. Bookings from
+   * before carrier accounts existed have no account id and use the account-level
+   * Parcel2Go keys, falling back to the first connected Parcel2Go account.
+   */
+  async getProvider(wholesalerId: string, accountId?: number | string | null): Promise<ConnectedProvider> {
+    if (accountId) {
+      const account = await this.getWholesalerAccount(Number(accountId), wholesalerId);
+      if (!account) {
+        throw new Error('That shipping carrier is no longer connected');
+      }
+      return this.connect(account);
+    }
+
+    const connected = await this.getAccountLevelParcel2Go(wholesalerId)
+      || (await this.getProviders(wholesalerId)).find(provider => provider.key === 'parcel2go');
+    if (!connected) {
+      throw new Error('Parcel2Go is not set up for this account');
+    }
+    return connected;
+  }
+
+  /**
+   * Quotes from all of the wholesaler's carriers (or only some kinds), cheapest
+   * first, each tagged with the carrier account that gave it. A carrier that
+   * fails is left out unless every carrier fails.
+   */
+  async getQuotes(wholesalerId: string | null, request: QuoteRequest, only?: ShippingProviderKey[]): Promise<DeliveryQuote[]> {
+    const providers = (await this.getProviders(wholesalerId)).filter(connected => !only || only.includes(connected.key));
+    if (providers.length === 0) {
+      if (only) return [];
+      throw new Error('No shipping carriers are set up for this account');
+    }
+
+    const results = await Promise.allSettled(providers.map(async connected =>
+      (await connected.provider.getQuotes(request)).map(quote => ({
+        ...quote,
+        providerAccountId: connected.accountId,
+        providerName: connected.name
+      }))
+    ));
+
+    const quotes: DeliveryQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(...result.value);
+      } else {
+        console.error(`❌ ${providers[index].name} quotes failed:`, result.reason?.message || result.reason);
+      }
+    });
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (quotes.length === 0 && failure) throw failure.reason;
+    return quotes.sort((a, b) => a.price - b.price);
+  }
+
+  private connect(account: ShippingProviderAccount): ConnectedProvider {
+    return { accountId: account.id, name: account.name, key: account.provider, provider: createShippingProvider(account) };
+  }
+
+  private async getAccountLevelParcel2Go(wholesalerId: string | null): Promise<ConnectedProvider | null> {
+    const wholesaler = wholesalerId ? await storage.getUser(wholesalerId) : undefined;
+    let credentials: Parcel2GoCredentials | null = wholesaler?.parcel2GoCredentials || null;
+    if (!credentials && process.env.PARCEL2GO_CLIENT_ID && process.env.PARCEL2GO_CLIENT_SECRET) {
+      credentials = createTestCredentials();
+    }
+    if (!credentials) return null;
+    return { accountId: null, name: SHIPPING_PROVIDER_LABELS.parcel2go, key: 'parcel2go', provider: new Parcel2GoProvider(credentials) };
+  }
+
+  private validateInput(
+    provider: ShippingProviderKey,
+    input: ShippingProviderInput,
+    existing: ShippingProviderAccount | null
+  ): Omit<InsertShippingProviderAccount, 'wholesalerId' | 'provider'> {
+    const name = (input.name ?? existing?.name ?? SHIPPING_PROVIDER_LABELS[provider]).trim();
+    if (!name) {
+      throw new Error('Give the carrier a name');
+    }
+
+    const isEnabled = input.isEnabled ?? existing?.isEnabled ?? true;
+
+    if (provider === 'parcel2go') {
+      const credentials = this.validateCredentials(input.credentials, existing?.credentials || null);
+      return { name, credentials, settings: null, isEnabled };
+    }
+    const settings = input.settings !== undefined
+      ? this.validateTableRates(input.settings)
+      : existing?.settings || DEFAULT_TABLE_RATE_SETTINGS;
+    return { name, credentials: null, settings, isEnabled };
+  }
+
+  // A blank secret on update keeps the saved one
+  private validateCredentials(
+    input: ShippingProviderInput['credentials'],
+    existing: Parcel2GoProviderCredentials | null
+  ): Parcel2GoProviderCredentials {
+    const clientId = (input?.clientId ?? existing?.clientId ?? '').trim();
+    const clientSecret = (input?.clientSecret || existing?.clientSecret || '').trim();
+    if (!clientId || !clientSecret) {
+      throw new Error('Parcel2Go needs your client ID and client secret');
+    }
+    const environment = input?.environment ?? existing?.environment ?? 'live';
+    if (environment !== 'live' && environment !== 'sandbox') {
+      throw new Error('Environment must be live or sandbox');
+    }
+    return { clientId, clientSecret, environment };
+  }
+
+  private validateTableRates(settings: TableRateSettings | null | undefined): TableRateSettings {
+    if (!settings || !Array.isArray(settings.services) || settings.services.length === 0) {
+      throw new Error('Add at least one delivery service');
+    }
+
+    const ids = new Set<string>();
+    const services = settings.services.map((service): TableRateService => {
+      const name = String(service.name || '').trim();
+      if (!name) {
+        throw new Error('Every delivery service needs a name');
+      }
+      const id = String(service.id || name).trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      if (!id || ids.has(id)) {
+        throw new Error(`Delivery service names must be different - "${name}" is used twice`);
+      }
+      ids.add(id);
+
+      if (!Array.isArray(service.weightBands) || service.weightBands.length === 0) {
+        throw new Error(`${name} needs at least one weight band`);
+      }
+      const weightBands = service.weightBands.map(band => {
+        const maxWeightKg = band.maxWeightKg == null || (band.maxWeightKg as any) === '' ? null : Number(band.maxWeightKg);
+        const price = Number(band.price);
+        if (maxWeightKg != null && (!isFinite(maxWeightKg) || maxWeightKg <= 0)) {
+          throw new Error(`${name}: band weights must be more than 0kg, or blank for no limit`);
+        }
+        if (!isFinite(price) || price < 0) {
+          throw new Error(`${name}: band prices can't be negative`);
+        }
+        return { maxWeightKg, price };
+      });
+      if (weightBands.filter(band => band.maxWeightKg == null).length > 1) {
+        throw new Error(`${name} can only have one band with no weight limit`);
+      }
+
+      const postcodeBands = (service.postcodeBands || []).map(band => {
+        const prefixes = (band.prefixes || []).map(prefix => normalisePostcode(prefix)).filter(Boolean);
+        if (prefixes.length === 0) {
+          throw new Error(`${name}: each postcode band needs at least one postcode area`);
+        }
+        const surcharge = band.surcharge == null || (band.surcharge as any) === '' ? null : Number(band.surcharge);
+        if (surcharge != null && (!isFinite(surcharge) || surcharge < 0)) {
+          throw new Error(`${name}: postcode surcharges can't be negative`);
+        }
+        return { prefixes, surcharge };
+      });
+
+      const freeOverValue = service.freeOverValue == null || (service.freeOverValue as any) === '' ? null : Number(service.freeOverValue);
+      if (freeOverValue != null && (!isFinite(freeOverValue) || freeOverValue < 0)) {
+        throw new Error(`${name}: the free delivery threshold can't be negative`);
+      }
+
+      return { id, name, transitTime: String(service.transitTime || '').trim(), weightBands, postcodeBands, freeOverValue };
+    });
+
+    return { services };
+  }
+}
+
+export const shippingProviderService = new ShippingProviderService();
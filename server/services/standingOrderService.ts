@@ -0,0 +1,646 @@
+import Stripe from "stripe";
+import { storage, type StandingOrderWithDetails } from "../storage";
+import { db } from "../db";
+import { products, standingOrderRuns } from "../../shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { sendEmail } from "../sendgrid-service";
+import { sendSMS } from "./smsService";
+import { priceListService } from "./priceListService";
+import { creditAccountService } from "./creditAccountService";
+import { warehouseService, WarehouseStockError } from "./warehouseService";
+import { paymentMethodService, OffSessionChargeError } from "./paymentMethodService";
+import { outboxService } from "./outboxService";
+import { PromotionalPricingCalculator } from "../../shared/promotional-pricing";
+import {
+  STANDING_ORDER_CADENCE_LABELS,
+  STANDING_ORDER_MAX_FAILURES,
+  getNextStandingOrderDate,
+  getUpcomingStandingOrderDate,
+  isStandingOrderCadence,
+  type StandingOrderCadence
+} from "../../shared/standing-orders";
+import type { InsertOrderItem, InsertStandingOrder, InsertStandingOrderItem, Order, StandingOrderRun, User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+export interface StandingOrderInput {
+  name?: string;
+  cadence?: string;
+  nextRunDate?: string;
+  fulfillmentType?: string;
+  deliveryAddressId?: number | string | null;
+  collectionWarehouseId?: number | string | null;
+  shortfallAction?: string;
+  paymentMethod?: string;
+  paymentMethodId?: string;
+  items?: { productId: number; quantity: number; sellingType?: string }[];
+}
+
+interface PricedLine {
+  productId: number;
+  productName: string;
+  quantity: number;
+  sellingType: 'units' | 'pallets';
+  unitPrice: number;
+  total: number;
+}
+
+class StandingOrderRunError extends Error {}
+
+// The run's card payment hasn't settled yet - leave the run for the next tick
+class StandingOrderPaymentPendingError extends Error {}
+
+// A run still 'processing' this long after it was claimed was cut short and gets picked up again
+const INTERRUPTED_RUN_AFTER_MS = 15 * 60 * 1000;
+
+export class StandingOrderService {
+  private isProcessing = false;
+
+  /**
+   * Start a standing order from one of the customer's past orders. Items,
+   * fulfilment and delivery cost are copied from that order unless overridden.
+   */
+  async createFromOrder(customerId: string, wholesalerId: string, orderId: number, input: StandingOrderInput): Promise<StandingOrderWithDetails> {
+    const order = await storage.getOrder(orderId);
+    if (!order || order.wholesalerId !== wholesalerId || order.retailerId !== customerId) {
+      throw new Error('Order not found');
+    }
+
+    const cadence = input.cadence || 'weekly';
+    if (!isStandingOrderCadence(cadence)) {
+      throw new Error('Choose how often the order repeats');
+    }
+
+    const fulfillmentType = input.fulfillmentType || order.fulfillmentType;
+    const standingOrder: InsertStandingOrder = {
+      wholesalerId,
+      retailerId: customerId,
+      name: input.name?.trim() || `Repeat of ${order.orderNumber}`,
+      cadence,
+      nextRunDate: this.parseRunDate(input.nextRunDate) || getNextStandingOrderDate(this.startOfDay(new Date()), cadence),
+      fulfillmentType: fulfillmentType === 'delivery' ? 'delivery' : 'pickup',
+      deliveryAddressId: null,
+      collectionWarehouseId: null,
+      deliveryCost: order.fulfillmentType === 'delivery' ? order.deliveryCost || '0.00' : '0.00',
+      shortfallAction: input.shortfallAction === 'skip_order' ? 'skip_order' : 'send_available',
+      paymentMethod: (input.paymentMethod || order.paymentMethod) === 'account' ? 'account' : 'card',
+      createdFromOrderId: order.id
+    };
+
+    Object.assign(standingOrder, await this.resolveFulfilment(customerId, wholesalerId, {
+      fulfillmentType,
+      deliveryAddressId: input.deliveryAddressId !== undefined ? input.deliveryAddressId : order.deliveryAddressId,
+      collectionWarehouseId: input.collectionWarehouseId !== undefined ? input.collectionWarehouseId : order.warehouseId
+    }));
+    Object.assign(standingOrder, await this.resolvePayment(customerId, wholesalerId, standingOrder.paymentMethod!, input.paymentMethodId));
+
+    const items = await this.validateItems(wholesalerId, input.items || order.items.map(item => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      sellingType: item.sellingType || 'units'
+    })));
+
+    const created = await storage.createStandingOrder(standingOrder, items);
+    console.log(`🔁 Standing order #${created.id} set up for customer ${customerId} (${cadence}, first run ${created.nextRunDate.toISOString().slice(0, 10)})`);
+    return created;
+  }
+
+  async update(standingOrder: StandingOrderWithDetails, input: StandingOrderInput): Promise<StandingOrderWithDetails> {
+    if (standingOrder.status === 'cancelled') {
+      throw new Error('This standing order has been cancelled');
+    }
+
+    const updates: Partial<InsertStandingOrder> = {};
+    if (input.name !== undefined) {
+      if (!input.name.trim()) throw new Error('Enter a name for this standing order');
+      updates.name = input.name.trim();
+    }
+    if (input.cadence !== undefined) {
+      if (!isStandingOrderCadence(input.cadence)) throw new Error('Choose how often the order repeats');
+      updates.cadence = input.cadence;
+    }
+    if (input.nextRunDate !== undefined) {
+      const nextRunDate = this.parseRunDate(input.nextRunDate);
+      if (!nextRunDate) throw new Error('Choose a future date for the next order');
+      updates.nextRunDate = nextRunDate;
+    }
+    if (input.shortfallAction !== undefined) {
+      updates.shortfallAction = input.shortfallAction === 'skip_order' ? 'skip_order' : 'send_available';
+    }
+
+    if (input.fulfillmentType !== undefined || input.deliveryAddressId !== undefined || input.collectionWarehouseId !== undefined) {
+      const fulfillmentType = (input.fulfillmentType ?? standingOrder.fulfillmentType) === 'delivery' ? 'delivery' : 'pickup';
+      Object.assign(updates, { fulfillmentType }, await this.resolveFulfilment(standingOrder.retailerId, standingOrder.wholesalerId, {
+        fulfillmentType,
+        deliveryAddressId: input.deliveryAddressId !== undefined ? input.deliveryAddressId : standingOrder.deliveryAddressId,
+        collectionWarehouseId: input.collectionWarehouseId !== undefined ? input.collectionWarehouseId : standingOrder.collectionWarehouseId
+      }));
+    }
+
+    if (input.paymentMethod !== undefined || input.paymentMethodId) {
+      const paymentMethod = (input.paymentMethod ?? standingOrder.paymentMethod) === 'account' ? 'account' : 'card';
+      // Keep the saved card when only other details change
+      if (paymentMethod === 'card' && !input.paymentMethodId && standingOrder.stripePaymentMethodId) {
+        updates.paymentMethod = 'card';
+      } else {
+        Object.assign(updates, { paymentMethod }, await this.resolvePayment(standingOrder.retailerId, standingOrder.wholesalerId, paymentMethod, input.paymentMethodId));
+      }
+    }
+
+    const items = input.items !== undefined ? await this.validateItems(standingOrder.wholesalerId, input.items) : undefined;
+    return await storage.updateStandingOrder(standingOrder.id, updates, items);
+  }
+
+  async pause(standingOrder: StandingOrderWithDetails): Promise<StandingOrderWithDetails> {
+    if (standingOrder.status !== 'active') {
+      throw new Error('Only active standing orders can be paused');
+    }
+    return await storage.updateStandingOrder(standingOrder.id, { status: 'paused' });
+  }
+
+  /**
+   * Resume a paused standing order from its next run date after today, so
+   * runs missed while paused aren't all generated at once
+   */
+  async resume(standingOrder: StandingOrderWithDetails): Promise<StandingOrderWithDetails> {
+    if (standingOrder.status !== 'paused') {
+      throw new Error('Only paused standing orders can be resumed');
+    }
+    return await storage.updateStandingOrder(standingOrder.id, {
+      status: 'active',
+      failureCount: 0,
+      nextRunDate: getUpcomingStandingOrderDate(standingOrder.nextRunDate, standingOrder.cadence as StandingOrderCadence)
+    });
+  }
+
+  async skipNext(standingOrder: StandingOrderWithDetails): Promise<StandingOrderWithDetails> {
+    return await storage.skipNextStandingOrderRun(standingOrder.id, 'Skipped by customer');
+  }
+
+  async cancel(standingOrder: StandingOrderWithDetails): Promise<StandingOrderWithDetails> {
+    if (standingOrder.status === 'cancelled') {
+      throw new Error('This standing order has already been cancelled');
+    }
+    const cancelled = await storage.updateStandingOrder(standingOrder.id, { status: 'cancelled' });
+    console.log(`🛑 Standing order #${standingOrder.id} cancelled by customer ${standingOrder.retailerId}`);
+    return cancelled;
+  }
+
+  /**
+   * Generate an order for every standing order that has fallen due.
+   * Called daily from the scheduler in server/index.ts.
+   */
+  async processDueStandingOrders(): Promise<void> {
+    if (this.isProcessing) {
+      console.log('⏭️ Previous standing order run still going, skipping this tick');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const interrupted = await storage.claimInterruptedStandingOrderRuns(new Date(Date.now() - INTERRUPTED_RUN_AFTER_MS));
+      for (const { run, standingOrder } of interrupted) {
+        // The order was committed but the run never got marked as done
+        if (run.orderId) {
+          await storage.completeStandingOrderRun(run.id, { status: 'ordered', orderId: run.orderId });
+          continue;
+        }
+
+        if (standingOrder.status !== 'active') {
+          await this.releaseRunPayment(run);
+          await storage.completeStandingOrderRun(run.id, { status: 'skipped', message: `Skipped - standing order ${standingOrder.status}` });
+          continue;
+        }
+
+        console.log(`🔁 Retrying interrupted run #${run.id} of standing order #${standingOrder.id}`);
+        await this.runStandingOrder(run, standingOrder);
+      }
+
+      const claimed = await storage.claimDueStandingOrders(new Date());
+      for (const { run, standingOrder } of claimed) {
+        await this.runStandingOrder(run, standingOrder);
+      }
+
+      if (claimed.length > 0) {
+        console.log(`🔁 Processed ${claimed.length} due standing orders`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runStandingOrder(run: StandingOrderRun, standingOrder: StandingOrderWithDetails): Promise<void> {
+    const [customer, wholesaler] = await Promise.all([
+      storage.getUser(standingOrder.retailerId),
+      storage.getUser(standingOrder.wholesalerId)
+    ]);
+    const businessName = wholesaler?.businessName || 'your supplier';
+    let order: Order | undefined;
+
+    try {
+      if (!customer || !wholesaler) {
+        throw new StandingOrderRunError('Customer or supplier account no longer exists');
+      }
+
+      const { lines, shortfalls } = await this.priceLines(standingOrder);
+
+      if (lines.length === 0 || (shortfalls.length > 0 && standingOrder.shortfallAction === 'skip_order')) {
+        const message = `Skipped - not enough stock: ${shortfalls.join('; ')}`;
+        await this.releaseRunPayment(run);
+        await storage.completeStandingOrderRun(run.id, { status: 'skipped', message });
+        await this.notifyCustomer(customer, standingOrder, `Your standing order "${standingOrder.name}" with ${businessName} was skipped this time because some items are out of stock (${shortfalls.join('; ')}). Your next order is due ${this.formatRunDate(standingOrder, run)}.`);
+        return;
+      }
+
+      order = await this.placeOrder(run, standingOrder, lines, customer, wholesaler);
+      const message = shortfalls.length > 0 ? `Sent without: ${shortfalls.join('; ')}` : null;
+      await storage.completeStandingOrderRun(run.id, { status: shortfalls.length > 0 ? 'partial' : 'ordered', orderId: order.id, message });
+      if (standingOrder.failureCount > 0) {
+        await storage.updateStandingOrder(standingOrder.id, { failureCount: 0 });
+      }
+
+      console.log(`✅ Standing order #${standingOrder.id} generated order ${order.orderNumber}${message ? ` (${message})` : ''}`);
+
+      outboxService.deliverSoon();
+      if (shortfalls.length > 0) {
+        await this.notifyCustomer(customer, standingOrder, `Your standing order "${standingOrder.name}" with ${businessName} was placed as ${order.orderNumber}, but some items were short on stock and have been left off: ${shortfalls.join('; ')}.`);
+      }
+    } catch (error: any) {
+      if (error instanceof StandingOrderPaymentPendingError) {
+        console.log(`⏳ Standing order #${standingOrder.id}: ${error.message}, will check again next run`);
+        return;
+      }
+
+      // The card may have been charged but no order exists - give the money back
+      if (!order) {
+        await this.releaseRunPayment(run);
+      }
+
+      const message = error instanceof StandingOrderRunError ? error.message : 'Something went wrong placing this order';
+      if (!(error instanceof StandingOrderRunError)) {
+        console.error(`❌ Standing order #${standingOrder.id} run failed:`, error);
+      }
+
+      const failureCount = standingOrder.failureCount + 1;
+      const paused = failureCount >= STANDING_ORDER_MAX_FAILURES;
+      await storage.completeStandingOrderRun(run.id, { status: 'failed', message });
+      await storage.updateStandingOrder(standingOrder.id, { failureCount, ...(paused ? { status: 'paused' } : {}) });
+
+      console.log(`⚠️ Standing order #${standingOrder.id} failed (${failureCount}/${STANDING_ORDER_MAX_FAILURES}): ${message}`);
+      if (customer) {
+        await this.notifyCustomer(customer, standingOrder, paused
+          ? `Your standing order "${standingOrder.name}" with ${businessName} could not be placed (${message}) and has been paused after ${failureCount} failed attempts. Update it and resume it from your portal.`
+          : `Your standing order "${standingOrder.name}" with ${businessName} could not be placed: ${message}. We'll try again on ${this.formatRunDate(standingOrder, run)}.`);
+      }
+    }
+  }
+
+  /**
+   * Price each line as it would be at checkout today (price list, promotions,
+   * pallet prices) and cut lines down to the stock on hand
+   */
+  private async priceLines(standingOrder: StandingOrderWithDetails): Promise<{ lines: PricedLine[]; shortfalls: string[] }> {
+    const rule = await priceListService.getCustomerPriceRule(standingOrder.retailerId, standingOrder.wholesalerId);
+    const lines: PricedLine[] = [];
+    const shortfalls: string[] = [];
+
+    for (const item of standingOrder.items) {
+      const rawProduct = await storage.getProduct(item.productId);
+      if (!rawProduct || rawProduct.wholesalerId !== standingOrder.wholesalerId || ['inactive', 'locked'].includes(rawProduct.status)) {
+        shortfalls.push(`${item.productName || 'A product'} is no longer available`);
+        continue;
+      }
+
+      const product = priceListService.applyToProduct(rawProduct, rule);
+      const sellingType = item.sellingType === 'pallets' ? 'pallets' : 'units';
+      const available = sellingType === 'pallets' ? product.palletStock || 0 : product.stock || 0;
+      const quantity = Math.min(item.quantity, Math.max(0, available));
+      if (quantity < item.quantity) {
+        shortfalls.push(quantity > 0
+          ? `${product.name}: ${quantity} of ${item.quantity} ${sellingType} in stock`
+          : `${product.name}: out of stock`);
+      }
+      if (quantity === 0) continue;
+
+      let unitPrice: number;
+      let total: number;
+      if (sellingType === 'pallets') {
+        unitPrice = parseFloat(product.palletPrice || '0');
+        total = unitPrice * quantity;
+      } else {
+        const pricing = PromotionalPricingCalculator.calculatePromotionalPricing(
+          parseFloat(product.price),
+          quantity,
+          product.promotionalOffers || [],
+          product.promoPrice ? parseFloat(product.promoPrice) : undefined,
+          Boolean(product.promoActive)
+        );
+        unitPrice = pricing.effectivePrice;
+        total = pricing.totalCost;
+      }
+
+      if (!(unitPrice > 0) || !(total > 0)) {
+        shortfalls.push(`${product.name} has no price set`);
+        continue;
+      }
+
+      lines.push({ productId: product.id, productName: product.name, quantity, sellingType, unitPrice, total });
+    }
+
+    return { lines, shortfalls };
+  }
+
+  private async placeOrder(run: StandingOrderRun, standingOrder: StandingOrderWithDetails, lines: PricedLine[], customer: User, wholesaler: User) {
+    const productSubtotal = lines.reduce((sum, line) => sum + line.total, 0);
+    const deliveryCost = standingOrder.fulfillmentType === 'delivery' ? parseFloat(standingOrder.deliveryCost || '0') : 0;
+    const amountBeforeFees = productSubtotal + deliveryCost;
+    const isCard = standingOrder.paymentMethod !== 'account';
+    // Same fee structure as portal checkout: card orders carry the transaction fee, account orders don't
+    const customerTransactionFee = isCard ? (amountBeforeFees * 0.055) + 0.50 : 0;
+    const total = amountBeforeFees + customerTransactionFee;
+    const platformFee = productSubtotal * 0.033;
+
+    const orderItems: InsertOrderItem[] = lines.map(line => ({
+      orderId: 0,
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice.toFixed(2),
+      total: line.total.toFixed(2),
+      sellingType: line.sellingType
+    }));
+
+    const address = standingOrder.fulfillmentType === 'delivery' && standingOrder.deliveryAddressId
+      ? await storage.getDeliveryAddressById(standingOrder.deliveryAddressId)
+      : undefined;
+    if (standingOrder.fulfillmentType === 'delivery' && !address) {
+      throw new StandingOrderRunError('The delivery address has been removed');
+    }
+
+    let warehouseId: number | null;
+    try {
+      warehouseId = await warehouseService.chooseOrderWarehouse(standingOrder.wholesalerId, orderItems, {
+        fulfillmentType: standingOrder.fulfillmentType,
+        collectionWarehouseId: standingOrder.collectionWarehouseId,
+        deliveryPostcode: address?.postalCode
+      });
+    } catch (error) {
+      if (error instanceof WarehouseStockError) throw new StandingOrderRunError(error.message);
+      throw error;
+    }
+
+    const paymentIntent = isCard
+      ? await this.chargeCard(run, standingOrder, customer, wholesaler, total, productSubtotal - platformFee)
+      : null;
+
+    const customerName = `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || customer.businessName || 'Customer';
+    const orderNumber = await storage.generateOrderNumber(standingOrder.wholesalerId);
+
+    return await db.transaction(async (trx) => {
+      // Stock may have moved since the lines were priced
+      const lockedProducts = await trx
+        .select()
+        .from(products)
+        .where(inArray(products.id, lines.map(line => line.productId)))
+        .for('update');
+      for (const line of lines) {
+        const product = lockedProducts.find(p => p.id === line.productId);
+        const available = line.sellingType === 'pallets' ? product?.palletStock || 0 : product?.stock || 0;
+        if (available < line.quantity) {
+          throw new StandingOrderRunError(`${line.productName} sold out while the order was being placed`);
+        }
+      }
+
+      let paymentDueDate: Date | null = null;
+      if (!isCard) {
+        const creditCheck = await creditAccountService.checkCreditAvailability(standingOrder.retailerId, standingOrder.wholesalerId, total, trx);
+        if (!creditCheck.allowed) {
+          throw new StandingOrderRunError(creditCheck.reason || 'Credit check failed');
+        }
+        paymentDueDate = creditCheck.paymentDueDate || null;
+      }
+
+      const order = await storage.createOrderWithTransaction(trx, {
+        orderNumber,
+        wholesalerId: standingOrder.wholesalerId,
+        retailerId: standingOrder.retailerId,
+        customerName,
+        customerEmail: customer.email,
+        customerPhone: customer.phoneNumber,
+        subtotal: productSubtotal.toFixed(2),
+        platformFee: platformFee.toFixed(2),
+        customerTransactionFee: customerTransactionFee.toFixed(2),
+        total: total.toFixed(2),
+        status: isCard ? 'paid' : 'confirmed',
+        stripePaymentIntentId: paymentIntent?.id || null,
+        paymentMethod: isCard ? 'card' : 'account',
+        paymentStatus: isCard ? 'paid' : 'unpaid',
+        paymentDueDate,
+        deliveryAddress: address
+          ? [address.addressLine1, address.addressLine2, address.city, address.state, address.postalCode, address.country]
+            .filter(part => part && part.trim())
+            .join(', ')
+          : null,
+        deliveryAddressId: address?.id || null,
+        fulfillmentType: standingOrder.fulfillmentType,
+        deliveryCost: deliveryCost.toFixed(2),
+        warehouseId,
+        standingOrderId: standingOrder.id
+      }, orderItems);
+
+      // Linked in the same commit, so a run interrupted after this point can't place the order twice
+      await trx.update(standingOrderRuns).set({ orderId: order.id }).where(eq(standingOrderRuns.id, run.id));
+
+      await storage.enqueueOutboxMessages(trx, outboxService.getOrderPlacedMessages(order));
+      return order;
+    });
+  }
+
+  private async chargeCard(
+    run: StandingOrderRun,
+    standingOrder: StandingOrderWithDetails,
+    customer: User,
+    wholesaler: User,
+    total: number,
+    wholesalerReceives: number
+  ): Promise<Stripe.PaymentIntent> {
+    if (!standingOrder.stripePaymentMethodId) {
+      throw new StandingOrderRunError('No saved card for this standing order');
+    }
+
+    // A retried run may already hold the payment from its first attempt
+    if (run.stripePaymentIntentId && stripe) {
+      const previous = await stripe.paymentIntents.retrieve(run.stripePaymentIntentId);
+      if (previous.status === 'processing') {
+        throw new StandingOrderPaymentPendingError(`payment ${previous.id} is still processing`);
+      }
+      if (previous.status === 'succeeded' && previous.amount === Math.round(total * 100)) {
+        return previous;
+      }
+      await this.releaseRunPayment(run);
+      run.stripePaymentIntentId = null;
+    }
+
+    // One key per standing order and date; a retry gets its own so it isn't handed the released payment
+    const scheduledDate = run.scheduledFor.toISOString().slice(0, 10);
+    const attempt = run.attemptedAt ? `_${run.attemptedAt.getTime()}` : '';
+
+    try {
+      return await paymentMethodService.chargeOffSession({
+        customerId: customer.id,
+        wholesaler,
+        amount: total,
+        wholesalerReceives,
+        paymentMethodId: standingOrder.stripePaymentMethodId,
+        description: `Standing order from ${wholesaler.businessName || 'Quikpik Wholesaler'}`,
+        metadata: {
+          orderType: 'standing_order',
+          standingOrderId: standingOrder.id.toString()
+        },
+        idempotencyKey: `standing_order_${standingOrder.id}_${scheduledDate}${attempt}`,
+        onCreated: async (paymentIntent) => {
+          await storage.recordStandingOrderRunPayment(run.id, paymentIntent.id);
+          run.stripePaymentIntentId = paymentIntent.id;
+        }
+      });
+    } catch (error) {
+      if (error instanceof OffSessionChargeError) {
+        throw new StandingOrderRunError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Refund or cancel whatever payment a run holds when it ends without an order
+  private async releaseRunPayment(run: StandingOrderRun): Promise<void> {
+    if (!run.stripePaymentIntentId || !stripe) return;
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(run.stripePaymentIntentId);
+      if (paymentIntent.status === 'succeeded') {
+        await stripe.refunds.create({ payment_intent: paymentIntent.id, reverse_transfer: !!paymentIntent.transfer_data });
+      } else if (paymentIntent.status !== 'canceled') {
+        await stripe.paymentIntents.cancel(paymentIntent.id);
+      }
+    } catch (error) {
+      console.error(`❌ CRITICAL: Failed to release standing order payment ${run.stripePaymentIntentId}:`, error);
+    }
+  }
+
+  private async validateItems(wholesalerId: string, items: StandingOrderInput['items']): Promise<Omit<InsertStandingOrderItem, 'standingOrderId'>[]> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error('Add at least one item');
+    }
+
+    const validated: Omit<InsertStandingOrderItem, 'standingOrderId'>[] = [];
+    for (const item of items) {
+      const product = await storage.getProduct(Number(item.productId));
+      if (!product || product.wholesalerId !== wholesalerId) {
+        throw new Error('Product not found');
+      }
+
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new Error(`Enter a whole quantity for ${product.name}`);
+      }
+
+      const sellingType = item.sellingType === 'pallets' ? 'pallets' : 'units';
+      if (sellingType === 'pallets' && !product.palletPrice) {
+        throw new Error(`${product.name} is not sold by the pallet`);
+      }
+      const moq = sellingType === 'pallets' ? product.palletMoq || 1 : product.moq || 1;
+      if (quantity < moq) {
+        throw new Error(`Minimum order quantity for ${product.name} is ${moq} ${sellingType}`);
+      }
+
+      validated.push({ productId: product.id, quantity, sellingType });
+    }
+    return validated;
+  }
+
+  private async resolveFulfilment(
+    customerId: string,
+    wholesalerId: string,
+    input: { fulfillmentType: string; deliveryAddressId?: number | string | null; collectionWarehouseId?: number | string | null }
+  ): Promise<Pick<InsertStandingOrder, 'deliveryAddressId' | 'collectionWarehouseId'>> {
+    if (input.fulfillmentType === 'delivery') {
+      const address = input.deliveryAddressId ? await storage.getDeliveryAddressById(Number(input.deliveryAddressId)) : undefined;
+      if (!address || address.customerId !== customerId) {
+        throw new Error('Choose a delivery address');
+      }
+      return { deliveryAddressId: address.id, collectionWarehouseId: null };
+    }
+
+    if (input.collectionWarehouseId) {
+      const warehouse = await storage.getWarehouse(Number(input.collectionWarehouseId));
+      if (warehouse && warehouse.wholesalerId === wholesalerId && warehouse.isActive && warehouse.allowCollection) {
+        return { deliveryAddressId: null, collectionWarehouseId: warehouse.id };
+      }
+    }
+    return { deliveryAddressId: null, collectionWarehouseId: null };
+  }
+
+  private async resolvePayment(
+    customerId: string,
+    wholesalerId: string,
+    paymentMethod: string,
+    paymentMethodId?: string
+  ): Promise<Pick<InsertStandingOrder, 'stripePaymentMethodId' | 'cardBrand' | 'cardLast4'>> {
+    if (paymentMethod === 'account') {
+      const creditCheck = await creditAccountService.checkCreditAvailability(customerId, wholesalerId, 0);
+      if (!creditCheck.allowed) {
+        throw new Error(creditCheck.reason || 'Your account is not set up to pay on account');
+      }
+      return { stripePaymentMethodId: null, cardBrand: null, cardLast4: null };
+    }
+
+    if (!paymentMethodId) {
+      throw new Error('Choose a saved card to pay for this standing order');
+    }
+
+    const card = await paymentMethodService.getCard(customerId, paymentMethodId);
+    return {
+      stripePaymentMethodId: card.id,
+      cardBrand: card.brand,
+      cardLast4: card.last4
+    };
+  }
+
+  // Run dates are stored as midnight UTC on the chosen day
+  private parseRunDate(value?: string): Date | null {
+    if (!value) return null;
+    const date = this.startOfDay(new Date(value));
+    if (isNaN(date.getTime()) || date <= new Date()) return null;
+    return date;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private formatRunDate(standingOrder: StandingOrderWithDetails, run: StandingOrderRun): string {
+    const next = getNextStandingOrderDate(run.scheduledFor, standingOrder.cadence as StandingOrderCadence);
+    return next.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' });
+  }
+
+  private async notifyCustomer(customer: User, standingOrder: StandingOrderWithDetails, summary: string): Promise<void> {
+    try {
+      if (customer.email) {
+        await sendEmail({
+          to: customer.email,
+          from: 'hello@quikpik.co',
+          subject: `Standing order - ${standingOrder.name} (${STANDING_ORDER_CADENCE_LABELS[standingOrder.cadence as StandingOrderCadence] || standingOrder.cadence})`,
+          text: summary
+        });
+      }
+      if (customer.phoneNumber) {
+        await sendSMS({ to: customer.phoneNumber, message: summary });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to send standing order update for ${standingOrder.id}:`, error);
+    }
+  }
+}
+
+export const standingOrderService = new StandingOrderService();
@@ -0,0 +1,84 @@
+import { storage } from "../storage";
+import { NEAR_EXPIRY_WARNING_DAYS, getDaysUntilExpiry, getDefaultLotExpiry, getNearExpiryWarningDays } from "../../shared/stock-lots";
+import type { StockLot } from "@shared/schema";
+
+export interface StockLotInput {
+  productId: number;
+  batchCode: string;
+  expiryDate?: Date | null;
+  quantity: number;
+  unitType: 'units' | 'pallets';
+  addToStock: boolean;
+}
+
+export class StockLotService {
+
+  /**
+   * Record a batch of stock. With addToStock the quantity is booked in as new
+   * stock; without it, existing stock on the shelf is labelled with the batch.
+   */
+  async addLot(wholesalerId: string, input: StockLotInput): Promise<StockLot> {
+    const product = await storage.getProduct(input.productId);
+    if (!product || product.wholesalerId !== wholesalerId) {
+      throw new Error('Product not found');
+    }
+    if (!input.batchCode?.trim()) {
+      throw new Error('Enter a batch code');
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      throw new Error('Enter a whole quantity for the batch');
+    }
+
+    const receivedAt = new Date();
+    const lot = await storage.createStockLot({
+      productId: product.id,
+      wholesalerId,
+      batchCode: input.batchCode.trim(),
+      expiryDate: input.expiryDate || getDefaultLotExpiry(receivedAt, product.shelfLife),
+      unitType: input.unitType === 'pallets' ? 'pallets' : 'units',
+      quantityReceived: input.quantity,
+      quantityRemaining: input.quantity,
+      receivedAt
+    }, input.addToStock);
+
+    if (input.addToStock) {
+      const { fulfilmentService } = await import('./fulfilmentService');
+      await fulfilmentService.releaseBackorders(product.id);
+    }
+
+    console.log(`🏷️ Batch ${lot.batchCode} recorded for ${product.name}: ${lot.quantityReceived} ${lot.unitType}`);
+    return lot;
+  }
+
+  async writeOff(lot: StockLot, quantity: number, reason?: string): Promise<StockLot> {
+    const updated = await storage.writeOffStockLot(lot.id, quantity, reason?.trim() || 'expired');
+    console.log(`🗑️ Wrote off ${quantity} ${lot.unitType} from batch ${lot.batchCode}`);
+    return updated;
+  }
+
+  /**
+   * Raise near-expiry stock alerts for lots inside their product's warning
+   * window. Safe to run repeatedly - each lot gets one open alert at most.
+   */
+  async checkNearExpiryLots(): Promise<number> {
+    const now = new Date();
+    const longestWindow = Math.max(...Object.values(NEAR_EXPIRY_WARNING_DAYS));
+    const horizon = new Date(now.getTime() + longestWindow * 24 * 60 * 60 * 1000);
+
+    let raised = 0;
+    for (const lot of await storage.getExpiringStockLots(horizon)) {
+      const warningDays = getNearExpiryWarningDays(lot.temperatureRequirement);
+      if (getDaysUntilExpiry(lot.expiryDate!, now) > warningDays) continue;
+
+      const alert = await storage.createNearExpiryAlert(lot, warningDays);
+      if (alert) {
+        raised++;
+        console.log(`⏳ Near-expiry alert: ${lot.productName} batch ${lot.batchCode} expires ${lot.expiryDate!.toISOString().slice(0, 10)}`);
+      }
+    }
+
+    return raised;
+  }
+}
+
+export const stockLotService = new StockLotService();
@@ -0,0 +1,127 @@
+import Stripe from "stripe";
+import type { Order, OrderItem, Product, User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+type OrderWithItems = Order & { items: (OrderItem & { product: Product })[]; retailer: User; wholesaler: User };
+
+const getCurrencySymbol = (currency?: string | null) => {
+  switch (currency?.toUpperCase()) {
+    case 'USD': return '$';
+    case 'EUR': return '€';
+    default: return '£';
+  }
+};
+
+export class StripeInvoiceService {
+
+  /**
+   * Raise a Stripe invoice for an order already paid at checkout, mark it
+   * paid out of band and email it to the customer. Safe to repeat: an order
+   * that already has a finalised invoice is left alone, and a draft left by
+   * an earlier failed attempt is replaced.
+   */
+  async sendPaidInvoice(order: OrderWithItems): Promise<Stripe.Invoice | null> {
+    if (!stripe) {
+      console.log("⚠️ Stripe not configured, skipping invoice creation");
+      return null;
+    }
+
+    const wholesaler = order.wholesaler;
+    const currency = (wholesaler.preferredCurrency || 'gbp').toLowerCase();
+    const supplierName = wholesaler.businessName || 'Supplier';
+
+    const existing = await stripe.invoices.search({ query: `metadata['orderId']:'${order.id}'` });
+    for (const invoice of existing.data) {
+      if (invoice.status === 'draft') {
+        await stripe.invoices.del(invoice.id!);
+      } else if (invoice.status !== 'void') {
+        console.log(`ℹ️ Stripe invoice ${invoice.id} already raised for order #${order.id}`);
+        return invoice;
+      }
+    }
+
+    const stripeCustomer = await this.findOrCreateCustomer(order);
+
+    const invoice = await stripe.invoices.create({
+      customer: stripeCustomer.id,
+      currency,
+      description: `Order #${order.id} from ${supplierName}`,
+      metadata: {
+        orderId: order.id.toString(),
+        wholesalerId: wholesaler.id,
+        orderType: 'customer_portal'
+      },
+      custom_fields: [
+        { name: 'Order ID', value: order.id.toString() },
+        { name: 'Supplier', value: supplierName }
+      ]
+    });
+
+    for (const item of order.items) {
+      await stripe.invoiceItems.create({
+        customer: stripeCustomer.id,
+        invoice: invoice.id,
+        amount: Math.round(parseFloat(item.total) * 100), // Convert to cents
+        currency,
+        description: `${item.product?.name || `Product #${item.productId}`} (${item.quantity} units @ ${getCurrencySymbol(wholesaler.preferredCurrency)}${parseFloat(item.unitPrice).toFixed(2)} each)`,
+        metadata: {
+          productId: item.productId.toString(),
+          quantity: item.quantity.toString(),
+          unitPrice: item.unitPrice
+        }
+      });
+    }
+
+    // Add platform fee as separate line item
+    if (parseFloat(order.platformFee) > 0) {
+      await stripe.invoiceItems.create({
+        customer: stripeCustomer.id,
+        invoice: invoice.id,
+        amount: Math.round(parseFloat(order.platformFee) * 100),
+        currency,
+        description: `Platform Service Fee (3.3%)`,
+        metadata: {
+          feeType: 'platform_fee'
+        }
+      });
+    }
+
+    const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id!);
+
+    // Mark as paid since payment was already processed
+    await stripe.invoices.pay(finalizedInvoice.id!, {
+      paid_out_of_band: true
+    });
+
+    await stripe.invoices.sendInvoice(finalizedInvoice.id!);
+
+    console.log(`📄 Stripe invoice created and sent to ${stripeCustomer.email || stripeCustomer.name} for order #${order.id}`);
+    return finalizedInvoice;
+  }
+
+  private async findOrCreateCustomer(order: OrderWithItems): Promise<Stripe.Customer> {
+    const email = order.customerEmail || order.retailer?.email || `customer${order.id}@quikpik.co`;
+
+    const customers = await stripe!.customers.search({ query: `email:'${email}'` });
+    if (customers.data.length > 0) {
+      return customers.data[0];
+    }
+
+    const name = order.customerName || `${order.retailer?.firstName || 'Customer'} ${order.retailer?.lastName || ''}`.trim();
+    return await stripe!.customers.create({
+      email,
+      name: name || 'Customer',
+      phone: order.customerPhone || order.retailer?.phoneNumber || undefined,
+      metadata: {
+        orderType: 'customer_portal',
+        wholesalerId: order.wholesalerId,
+        orderId: order.id.toString()
+      }
+    });
+  }
+}
+
+export const stripeInvoiceService = new StripeInvoiceService();
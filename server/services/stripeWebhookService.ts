@@ -0,0 +1,208 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import SubscriptionService from "../subscription-service";
+import { processCustomerPortalOrder } from "../order-processor";
+import type { InsertStripeWebhookEvent, StripeWebhookEvent } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+export interface StripeWebhookResult {
+  event: StripeWebhookEvent;
+  duplicate: boolean; // Already processed, or being processed by another delivery
+}
+
+export class StripeWebhookService {
+
+  /**
+   * Verify the event's signature when a webhook secret is configured.
+   * Without one the body is trusted as it is, as it always has been.
+   */
+  constructEvent(rawBody: Buffer | undefined, signature: string | undefined, body: any): Stripe.Event {
+    const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!endpointSecret) {
+      console.warn('⚠️ STRIPE_WEBHOOK_SECRET is not configured, accepting unsigned webhook event');
+      return body as Stripe.Event;
+    }
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+    if (!rawBody || !signature) {
+      throw new Error('Missing webhook signature');
+    }
+    return stripe.webhooks.constructEvent(rawBody, signature, endpointSecret);
+  }
+
+  // Store the event, then process it unless it has been already
+  async receive(event: Stripe.Event): Promise<StripeWebhookResult> {
+    await storage.recordStripeWebhookEvent(this.toRecord(event));
+    return await this.process(event.id, false);
+  }
+
+  /**
+   * An event we never received, fetched from Stripe (which keeps events for
+   * 30 days) ready to be stored. Looked for on the platform account, then on
+   * the connected account if one is given. Undefined if Stripe has no such
+   * event either.
+   */
+  async fetch(eventId: string, account?: string | null): Promise<InsertStripeWebhookEvent | undefined> {
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+
+    for (const stripeAccount of account ? [undefined, account] : [undefined]) {
+      try {
+        const event = await stripe.events.retrieve(eventId, undefined, stripeAccount ? { stripeAccount } : undefined);
+        return this.toRecord(event);
+      } catch (error: any) {
+        if (error?.code !== 'resource_missing') throw error;
+      }
+    }
+    return undefined;
+  }
+
+  // Process a stored event again; only a super admin's replay re-runs one that was processed successfully
+  async replay(eventId: string, options: { includeProcessed?: boolean } = {}): Promise<StripeWebhookResult> {
+    return await this.process(eventId, !!options.includeProcessed);
+  }
+
+  private async process(eventId: string, force: boolean): Promise<StripeWebhookResult> {
+    const claimed = await storage.claimStripeWebhookEvent(eventId, { force });
+    if (!claimed) {
+      console.log(`ℹ️ Stripe event ${eventId} already processed, skipping`);
+      return { event: (await storage.getStripeWebhookEvent(eventId))!, duplicate: true };
+    }
+
+    try {
+      await this.handle(claimed.payload as Stripe.Event);
+      await storage.markStripeWebhookEventProcessed(eventId);
+    } catch (error: any) {
+      console.error(`❌ Stripe event ${eventId} (${claimed.type}) failed on attempt ${claimed.attempts}:`, error);
+      await storage.markStripeWebhookEventFailed(eventId, error?.message || String(error));
+    }
+    return { event: (await storage.getStripeWebhookEvent(eventId))!, duplicate: false };
+  }
+
+  // Throws when the event should be retried
+  private async handle(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+
+      case 'payment_intent.succeeded':
+        return await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return await this.syncSubscription((event.data.object as Stripe.Subscription).id, event.data.object as Stripe.Subscription);
+
+      case 'invoice.payment_succeeded':
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        const subscription = invoice.parent?.subscription_details?.subscription;
+        if (subscription) {
+          await this.syncSubscription(typeof subscription === 'string' ? subscription : subscription.id);
+        }
+        return;
+      }
+
+      default:
+        console.log('ℹ️ Unhandled Stripe webhook event type:', event.type);
+    }
+  }
+
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+    const userId = session.metadata?.userId;
+    const tier = session.metadata?.targetTier || session.metadata?.tier || session.metadata?.planId;
+    const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id;
+
+    if (userId && tier) {
+      // Dated from the checkout, not from now, so replaying the event can't extend the plan
+      let subscriptionPeriodEnd = getPlanPeriodEnd(session.created);
+      if (subscriptionId && stripe) {
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        const periodEnd = subscription.items.data[0]?.current_period_end;
+        if (periodEnd) subscriptionPeriodEnd = new Date(periodEnd * 1000);
+        await storage.updateUser(userId, { stripeSubscriptionId: subscription.id });
+      }
+
+      await storage.updateUser(userId, {
+        currentPlan: tier,
+        subscriptionStatus: 'active',
+        subscriptionPeriodEnd
+      });
+      console.log(`✅ ${session.metadata?.subscriptionType || 'New'} subscription processed: ${userId} to ${tier}`);
+      return;
+    }
+
+    if (session.mode === 'subscription' && subscriptionId) {
+      await this.syncSubscription(subscriptionId);
+    }
+  }
+
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const metadata = paymentIntent.metadata || {};
+    const userId = metadata.userId;
+    const tier = metadata.targetTier || metadata.tier || metadata.planId;
+
+    if (userId && tier) {
+      await storage.updateUser(userId, {
+        currentPlan: tier,
+        subscriptionStatus: 'active',
+        subscriptionPeriodEnd: getPlanPeriodEnd(paymentIntent.created)
+      });
+      console.log(`✅ Payment upgrade complete: ${userId} to ${tier}`);
+      return;
+    }
+
+    // Creates the order if checkout didn't get to (e.g. the customer closed the page after paying)
+    if (metadata.orderType === 'customer_portal') {
+      const order = await processCustomerPortalOrder(paymentIntent);
+      console.log(`✅ Order ${order.orderNumber || order.id} in place for payment ${paymentIntent.id}`);
+    }
+  }
+
+  /**
+   * Apply the subscription as it is now rather than as it was in the event,
+   * so a late or replayed event can't roll a subscription back
+   */
+  private async syncSubscription(subscriptionId: string, fallback?: Stripe.Subscription): Promise<void> {
+    const subscription = stripe ? await stripe.subscriptions.retrieve(subscriptionId) : fallback;
+    if (!subscription) return;
+
+    // Subscription periods moved onto the items in newer API versions
+    const item = subscription.items?.data?.[0];
+    await SubscriptionService.updateUserSubscriptionFromWebhook(subscription.id, {
+      ...subscription,
+      current_period_start: (subscription as any).current_period_start ?? item?.current_period_start,
+      current_period_end: (subscription as any).current_period_end ?? item?.current_period_end
+    });
+  }
+
+  private toRecord(event: Stripe.Event): InsertStripeWebhookEvent {
+    return {
+      eventId: event.id,
+      type: event.type,
+      account: event.account || null,
+      wholesalerId: getEventWholesalerId(event),
+      livemode: !!event.livemode,
+      payload: event as any,
+      stripeCreatedAt: event.created ? new Date(event.created * 1000) : null
+    };
+  }
+}
+
+// A one-off plan payment covers 30 days from when it was made
+function getPlanPeriodEnd(paidAt: number): Date {
+  return new Date(paidAt * 1000 + 30 * 24 * 60 * 60 * 1000);
+}
+
+// Whose event it is: the wholesaler an order was for, or the user paying for a plan
+function getEventWholesalerId(event: Stripe.Event): string | null {
+  const metadata = (event.data?.object as any)?.metadata || {};
+  return metadata.wholesalerId || metadata.userId || null;
+}
+
+export const stripeWebhookService = new StripeWebhookService();
@@ -0,0 +1,178 @@
+import { createHash } from "crypto";
+import { storage, type TrackableBooking } from "../storage";
+import { shippingProviderService, type ConnectedProvider } from "./shippingProviderService";
+import type { CarrierScan } from "../shipping-providers";
+import { orderNotificationService } from "./orderNotificationService";
+import {
+  NOTIFY_SHIPPING_STATUSES,
+  SHIPPING_STATUS_LABELS,
+  mapCarrierStatus,
+  type ShippingStatus,
+  type ShippingStatusKey,
+  type TrackingEvent
+} from "../../shared/tracking-schema";
+import type { InsertTrackingEvent, Order, OrderShipment, User } from "@shared/schema";
+
+// Order notification statuses sent when a parcel moves into a tracking state
+const NOTIFICATION_STATUS: Partial<Record<ShippingStatusKey, string>> = {
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'delivered',
+  exception: 'delivery_exception',
+};
+
+export interface TrackingSyncResult {
+  checked: number;
+  updated: number;
+  failed: number;
+}
+
+export class TrackingSyncService {
+
+  /**
+   * Poll the carrier for every booking still in flight, store any new scans and
+   * tell customers when a parcel is out for delivery, delivered or held up
+   */
+  async syncInFlightShipments(): Promise<TrackingSyncResult> {
+    const bookings = await storage.getTrackableBookings();
+    const result: TrackingSyncResult = { checked: 0, updated: 0, failed: 0 };
+    if (bookings.length === 0) return result;
+
+    // Each booking is tracked with the carrier account it was made with
+    const providers = new Map<string, ConnectedProvider | null>();
+    const wholesalers = new Map<string, User | undefined>();
+
+    for (const booking of bookings) {
+      const accountId = this.getAccountId(booking);
+      const providerKey = `${booking.order.wholesalerId}:${accountId ?? ''}`;
+      if (!providers.has(providerKey)) {
+        providers.set(providerKey, await shippingProviderService.getProvider(booking.order.wholesalerId, accountId).catch(error => {
+          console.log(`⚠️ Skipping tracking for ${booking.order.wholesalerId}: ${error.message}`);
+          return null;
+        }));
+      }
+      if (!wholesalers.has(booking.order.wholesalerId)) {
+        wholesalers.set(booking.order.wholesalerId, await storage.getUser(booking.order.wholesalerId));
+      }
+      const connected = providers.get(providerKey);
+      const wholesaler = wholesalers.get(booking.order.wholesalerId);
+      if (!connected || !wholesaler) continue;
+
+      result.checked++;
+      try {
+        if (await this.syncBooking(booking, wholesaler, connected)) result.updated++;
+      } catch (error) {
+        result.failed++;
+        console.error(`❌ Tracking sync failed for order ${booking.order.orderNumber}:`, error);
+      }
+    }
+
+    console.log(`📡 Tracking sync: ${result.checked} parcels checked, ${result.updated} updated, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Fetch tracking for one order's bookings straight away, e.g. from the tracking page
+   */
+  async syncOrder(order: Order): Promise<void> {
+    const bookings = (await storage.getTrackableBookings()).filter(booking => booking.order.id === order.id);
+    if (bookings.length === 0) return;
+
+    const wholesaler = await storage.getUser(order.wholesalerId);
+    if (!wholesaler) {
+      throw new Error('Wholesaler not found');
+    }
+    for (const booking of bookings) {
+      const connected = await shippingProviderService.getProvider(order.wholesalerId, this.getAccountId(booking));
+      await this.syncBooking(booking, wholesaler, connected);
+    }
+  }
+
+  /**
+   * The order's tracking as shown on the shipping dashboard, built from stored scans
+   */
+  async getOrderTracking(order: Order): Promise<ShippingStatus> {
+    const records = await storage.getTrackingEvents(order.id);
+    const events: TrackingEvent[] = records.map(record => ({
+      id: String(record.id),
+      timestamp: record.occurredAt.toISOString(),
+      status: record.status,
+      location: record.location || '',
+      description: record.description || SHIPPING_STATUS_LABELS[record.status as ShippingStatusKey] || record.status,
+      carrier: order.deliveryCarrier || undefined
+    }));
+
+    return {
+      orderId: order.id,
+      trackingNumber: order.deliveryTrackingNumber || undefined,
+      carrier: order.deliveryCarrier || 'Unknown',
+      status: (order.shippingStatus && order.shippingStatus in SHIPPING_STATUS_LABELS ? order.shippingStatus : 'pending') as ShippingStatusKey,
+      estimatedDelivery: order.estimatedDeliveryDate?.toISOString(),
+      events,
+      lastUpdated: (order.lastTrackedAt || order.updatedAt || new Date()).toISOString()
+    };
+  }
+
+  /**
+   * Returns true when the booking moved into a new state
+   */
+  private async syncBooking(booking: TrackableBooking, wholesaler: User, connected: ConnectedProvider): Promise<boolean> {
+    const source = booking.shipment || booking.order;
+    const scans: CarrierScan[] = await connected.provider.track({
+      bookingId: source.shippingOrderId || '',
+      hash: source.shippingHash,
+      lineId: booking.orderLineId,
+      trackingNumber: booking.shipment?.trackingNumber || booking.order.deliveryTrackingNumber
+    });
+
+    const events: InsertTrackingEvent[] = scans.map(scan => ({
+      orderId: booking.order.id,
+      shipmentId: booking.shipment?.id ?? null,
+      wholesalerId: booking.order.wholesalerId,
+      eventKey: createHash('sha1')
+        .update(`${booking.orderLineId}|${scan.occurredAt.toISOString()}|${scan.carrierStatus}|${scan.description}`)
+        .digest('hex'),
+      status: mapCarrierStatus(`${scan.carrierStatus} ${scan.description}`),
+      carrierStatus: scan.carrierStatus || null,
+      description: scan.description || null,
+      location: scan.location,
+      occurredAt: scan.occurredAt
+    }));
+    await storage.recordTrackingEvents(events);
+
+    // The newest scan decides where the parcel is now
+    const latest = events[events.length - 1];
+    const status = (latest?.status as ShippingStatusKey | undefined) ?? booking.status;
+    const order = await storage.updateTrackingStatus(booking.order.id, booking.shipment?.id ?? null, status);
+
+    if (!status || status === booking.status) return false;
+    console.log(`📦 Order ${order.orderNumber}${booking.shipment ? ` shipment #${booking.shipment.shipmentNumber}` : ''}: ${SHIPPING_STATUS_LABELS[status]}`);
+
+    if (NOTIFY_SHIPPING_STATUSES.includes(status)) {
+      await this.notifyCustomer(order, booking.shipment, wholesaler, status);
+    }
+    return true;
+  }
+
+  private getAccountId(booking: TrackableBooking): number | null {
+    return (booking.shipment ? booking.shipment.shippingProviderAccountId : booking.order.shippingProviderAccountId) ?? null;
+  }
+
+  private async notifyCustomer(order: Order, shipment: OrderShipment | null, wholesaler: User, status: ShippingStatusKey): Promise<void> {
+    try {
+      await orderNotificationService.sendOrderStatusUpdate({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        status: NOTIFICATION_STATUS[status] || status,
+        customerName: order.customerName || 'Customer',
+        customerPhone: order.customerPhone || '',
+        customerEmail: order.customerEmail || undefined,
+        wholesalerName: wholesaler.businessName || `${wholesaler.firstName} ${wholesaler.lastName}`.trim(),
+        trackingNumber: shipment?.trackingNumber || order.deliveryTrackingNumber || undefined
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send tracking update for order ${order.id}:`, error);
+    }
+  }
+}
+
+export const trackingSyncService = new TrackingSyncService();
@@ -0,0 +1,184 @@
+import { storage } from "../storage";
+import { chooseNearestWarehouse, type GeoPoint } from "../../shared/warehouses";
+import type { Warehouse, InsertWarehouse } from "@shared/schema";
+
+export interface WarehouseInput {
+  name: string;
+  addressLine1?: string | null;
+  city?: string | null;
+  postcode?: string | null;
+  allowCollection?: boolean;
+  collectionInstructions?: string | null;
+  isActive?: boolean;
+}
+
+export interface StockTransferInput {
+  productId: number;
+  fromWarehouseId: number;
+  toWarehouseId: number;
+  quantity: number;
+  unitType: 'units' | 'pallets';
+  reason?: string | null;
+}
+
+export class WarehouseStockError extends Error {}
+
+export class WarehouseService {
+
+  async createWarehouse(wholesalerId: string, input: WarehouseInput): Promise<Warehouse> {
+    if (!input.name?.trim()) {
+      throw new Error('Enter a warehouse name');
+    }
+
+    const point = input.postcode ? await this.geocodePostcode(input.postcode) : null;
+    const warehouse = await storage.createWarehouse({
+      wholesalerId,
+      name: input.name.trim(),
+      addressLine1: input.addressLine1 || null,
+      city: input.city || null,
+      postcode: input.postcode?.trim().toUpperCase() || null,
+      latitude: point ? point.latitude.toFixed(6) : null,
+      longitude: point ? point.longitude.toFixed(6) : null,
+      allowCollection: input.allowCollection ?? true,
+      collectionInstructions: input.collectionInstructions || null
+    });
+
+    console.log(`🏭 Warehouse "${warehouse.name}" added${warehouse.isDefault ? ' as the default location' : ''}`);
+    return warehouse;
+  }
+
+  async updateWarehouse(warehouse: Warehouse, input: Partial<WarehouseInput>): Promise<Warehouse> {
+    const updates: Partial<InsertWarehouse> = {};
+    if (input.name !== undefined) {
+      if (!input.name.trim()) throw new Error('Enter a warehouse name');
+      updates.name = input.name.trim();
+    }
+    if (input.addressLine1 !== undefined) updates.addressLine1 = input.addressLine1 || null;
+    if (input.city !== undefined) updates.city = input.city || null;
+    if (input.allowCollection !== undefined) updates.allowCollection = input.allowCollection;
+    if (input.collectionInstructions !== undefined) updates.collectionInstructions = input.collectionInstructions || null;
+
+    if (input.postcode !== undefined && input.postcode?.trim().toUpperCase() !== warehouse.postcode) {
+      const point = input.postcode ? await this.geocodePostcode(input.postcode) : null;
+      updates.postcode = input.postcode?.trim().toUpperCase() || null;
+      updates.latitude = point ? point.latitude.toFixed(6) : null;
+      updates.longitude = point ? point.longitude.toFixed(6) : null;
+    }
+
+    if (input.isActive === false && warehouse.isActive) {
+      if (warehouse.isDefault) {
+        throw new Error('Make another warehouse the default before closing this one');
+      }
+      const levels = await storage.getWarehouseStockLevels(warehouse.wholesalerId);
+      if (levels.some(level => level.warehouseId === warehouse.id && (level.stock > 0 || level.palletStock > 0))) {
+        throw new Error(`Transfer the stock out of ${warehouse.name} before closing it`);
+      }
+      updates.isActive = false;
+    } else if (input.isActive === true) {
+      updates.isActive = true;
+    }
+
+    return await storage.updateWarehouse(warehouse.id, updates);
+  }
+
+  /**
+   * Move stock between two of the wholesaler's warehouses. Product totals are
+   * unchanged; the move is recorded as a transfer_out/transfer_in pair.
+   */
+  async transfer(wholesalerId: string, input: StockTransferInput) {
+    const product = await storage.getProduct(input.productId);
+    if (!product || product.wholesalerId !== wholesalerId) {
+      throw new Error('Product not found');
+    }
+    if (input.fromWarehouseId === input.toWarehouseId) {
+      throw new Error('Choose two different warehouses');
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      throw new Error('Enter a whole quantity to transfer');
+    }
+
+    const [from, to] = await Promise.all([
+      storage.getWarehouse(input.fromWarehouseId),
+      storage.getWarehouse(input.toWarehouseId)
+    ]);
+    if (!from || from.wholesalerId !== wholesalerId || !to || to.wholesalerId !== wholesalerId) {
+      throw new Error('Warehouse not found');
+    }
+    if (!to.isActive) {
+      throw new Error(`${to.name} is closed`);
+    }
+
+    const result = await storage.transferStock({ ...input, unitType: input.unitType === 'pallets' ? 'pallets' : 'units' });
+    console.log(`🔁 Transferred ${input.quantity} ${input.unitType} of ${product.name} from ${from.name} to ${to.name} (${result.transferId})`);
+    return result;
+  }
+
+  /**
+   * Pick the warehouse an order is fulfilled from: the buyer's collection depot
+   * for pickups, otherwise the nearest warehouse that can cover every line.
+   * Throws when the depot has to be one without the stock. Returns null when
+   * the wholesaler has not set up warehouses.
+   */
+  async chooseOrderWarehouse(
+    wholesalerId: string,
+    items: { productId: number; quantity: number; sellingType?: string | null }[],
+    options: { fulfillmentType: string; collectionWarehouseId?: number | string | null; deliveryPostcode?: string | null }
+  ): Promise<number | null> {
+    const active = (await storage.getWarehouses(wholesalerId)).filter(w => w.isActive);
+    if (active.length === 0) return null;
+
+    const defaultWarehouse = active.find(w => w.isDefault) || active[0];
+    const levels = await storage.getWarehouseStockLevels(wholesalerId, items.map(item => item.productId));
+    const canFulfil = (warehouse: Warehouse) => items.every(item => {
+      const level = levels.find(l => l.warehouseId === warehouse.id && l.productId === item.productId);
+      const available = item.sellingType === 'pallets' ? level?.palletStock : level?.stock;
+      return (available || 0) >= item.quantity;
+    });
+
+    if (options.fulfillmentType !== 'delivery') {
+      const depots = active.filter(w => w.allowCollection);
+      const chosen = depots.find(w => w.id === Number(options.collectionWarehouseId))
+        || depots.find(w => w.isDefault)
+        || depots[0]
+        || defaultWarehouse;
+      // The buyer collects from the depot they chose, so it has to hold the stock
+      if (!canFulfil(chosen)) {
+        throw new WarehouseStockError(`${chosen.name} doesn't have everything in this order in stock - choose another collection point`);
+      }
+      return chosen.id;
+    }
+
+    const candidates = active.filter(canFulfil);
+    if (candidates.length === 0) {
+      throw new WarehouseStockError('No single warehouse has everything in this order in stock');
+    }
+    if (candidates.length === 1) return candidates[0].id;
+
+    const point = options.deliveryPostcode && candidates.some(w => w.latitude && w.longitude)
+      ? await this.geocodePostcode(options.deliveryPostcode)
+      : null;
+    const nearest = chooseNearestWarehouse(candidates, { postcode: options.deliveryPostcode, point });
+    return (nearest || candidates[0]).id;
+  }
+
+  /**
+   * Look up a UK postcode's coordinates. Best effort - allocation falls back to
+   * postcode areas when the lookup fails.
+   */
+  async geocodePostcode(postcode: string): Promise<GeoPoint | null> {
+    try {
+      const response = await fetch(`https://api.postcodes.io/postcodes/${encodeURIComponent(postcode.trim())}`, {
+        signal: AbortSignal.timeout(3000)
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      if (typeof data.result?.latitude !== 'number' || typeof data.result?.longitude !== 'number') return null;
+      return { latitude: data.result.latitude, longitude: data.result.longitude };
+    } catch (error) {
+      console.error(`⚠️ Postcode lookup failed for ${postcode}:`, error);
+      return null;
+    }
+  }
+}
+
+export const warehouseService = new WarehouseService();
@@ -1,5 +1,7 @@
 import { storage } from './storage';
-import { parcel2goService, type OrderRequest, type OrderItem } from './parcel2go';
+import { PreciseShippingCalculator } from './utils/preciseShippingCalculator';
+import { shippingProviderService } from './services/shippingProviderService';
+import type { StoredBooking } from './shipping-providers';
 
 export interface ShippingAutomationConfig {
   enableAutoPayment: boolean;
@@ -50,13 +52,16 @@ export class ShippingAutomationService {
       serviceId: string;
       serviceName: string;
       price: string;
+      providerAccountId?: number | null; // Carrier account the quote came from
     };
     items: Array<{
+      productId?: number;
       productName: string;
       quantity: number;
       unitPrice: string;
       weight?: number;
       value?: number;
+      sellingType?: string;
     }>;
     collectionAddress?: {
       address: string;
@@ -73,22 +78,18 @@ export class ShippingAutomationService {
     try {
       console.log(`🚚 Starting automatic shipping order for ${orderData.orderNumber}`);
 
-      // Get wholesaler's Parcel2Go credentials
       const wholesaler = await storage.getUser(orderData.wholesalerId);
-      if (!wholesaler || !wholesaler.parcel2GoCredentials) {
-        return { 
-          success: false, 
-          error: 'Wholesaler does not have Parcel2Go credentials configured' 
-        };
+      if (!wholesaler) {
+        return { success: false, error: 'Wholesaler not found' };
       }
 
-      // Set credentials for this request
-      parcel2goService.setCredentials(wholesaler.parcel2GoCredentials);
-
-      // Calculate total order value for insurance
-      const totalValue = orderData.items.reduce((sum, item) => 
-        sum + (parseFloat(item.unitPrice) * item.quantity), 0
-      );
+      // Book with the carrier the customer was quoted by
+      let connected;
+      try {
+        connected = await shippingProviderService.getProvider(orderData.wholesalerId, orderData.shippingInfo.providerAccountId);
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
 
       // Use wholesaler's pickup address or default
       const collectionAddress = orderData.collectionAddress || {
@@ -98,102 +99,86 @@ export class ShippingAutomationService {
         country: 'GBR'
       };
 
-      // Create Parcel2Go order request
-      const orderRequest: OrderRequest = {
-        Items: orderData.items.map((item, index): OrderItem => ({
-          Id: `item-${index}`,
-          CollectionDate: new Date().toISOString(),
-          Service: orderData.shippingInfo.serviceId,
-          Parcels: [{
-            EstimatedValue: parseFloat(item.unitPrice) * item.quantity,
-            Weight: item.weight || 1.0, // Default 1kg per item
-            Length: 30, // Default dimensions in cm
-            Width: 20,
-            Height: 10,
-            ContentsSummary: item.productName,
-            DeliveryAddress: {
-              contactName: orderData.customerData.name,
-              property: '',
-              street: orderData.customerData.address,
-              town: orderData.customerData.city,
-              postcode: orderData.customerData.postalCode,
-              countryIsoCode: 'GBR' // Default to UK
-            }
-          }],
-          CollectionAddress: {
-            contactName: `${wholesaler.firstName} ${wholesaler.lastName}`,
-            property: '',
-            street: collectionAddress.address,
-            town: collectionAddress.city,
-            postcode: collectionAddress.postcode,
-            countryIsoCode: collectionAddress.country
-          }
-        })),
-        CustomerDetails: {
-          Email: wholesaler.email || 'noreply@example.com',
-          Forename: wholesaler.firstName || 'Business',
-          Surname: wholesaler.lastName || 'Owner'
+      // Pack the order the same way it was quoted, for the carrier that was chosen
+      const cartItems = await Promise.all(orderData.items.map(async item => ({
+        ...item,
+        product: (item.productId ? await storage.getProduct(item.productId) : undefined) || { name: item.productName, unitWeightKg: item.weight }
+      })));
+      const packed = PreciseShippingCalculator.packCart(cartItems, orderData.shippingInfo.serviceName);
+      console.log(`📦 Packed ${orderData.orderNumber} into ${packed.parcels.length} ${packed.freight ? 'pallet(s)' : 'parcel(s)'} (${packed.totalWeight}kg)`);
+
+      console.log(`📦 Booking ${connected.name} service ${orderData.shippingInfo.serviceId}`);
+
+      // One consignment holding every parcel
+      const booking = await connected.provider.book({
+        reference: `order-${orderData.orderId}`,
+        serviceId: orderData.shippingInfo.serviceId,
+        collectionDate: new Date().toISOString(),
+        collectionAddress: {
+          contactName: `${wholesaler.firstName} ${wholesaler.lastName}`,
+          property: '',
+          street: collectionAddress.address,
+          town: collectionAddress.city,
+          postcode: collectionAddress.postcode,
+          countryIsoCode: collectionAddress.country
+        },
+        deliveryAddress: {
+          contactName: orderData.customerData.name,
+          property: '',
+          street: orderData.customerData.address,
+          town: orderData.customerData.city,
+          postcode: orderData.customerData.postalCode,
+          countryIsoCode: 'GBR' // Default to UK
+        },
+        parcels: PreciseShippingCalculator.toQuoteParcels(packed),
+        customer: {
+          email: wholesaler.email || 'noreply@example.com',
+          forename: wholesaler.firstName || 'Business',
+          surname: wholesaler.lastName || 'Owner'
         }
+      });
+
+      console.log(`✅ ${connected.name} booking created: ${booking.bookingId}`);
+
+      const shippingInfo = {
+        shippingOrderId: booking.bookingId,
+        shippingHash: booking.hash || undefined,
+        shippingOrderLineId: booking.lineId || undefined,
+        shippingProviderAccountId: connected.accountId,
+        deliveryCarrier: orderData.shippingInfo.serviceName,
+        deliveryServiceId: orderData.shippingInfo.serviceId,
+        deliveryTrackingNumber: booking.trackingNumber || undefined,
+        shippingTotal: parseFloat(orderData.shippingInfo.price)
       };
 
-      console.log(`📦 Creating Parcel2Go order for service ${orderData.shippingInfo.serviceId}`);
-
-      // Create the shipping order
-      const orderResponse = await parcel2goService.createOrder(orderRequest);
-      
-      if (!orderResponse.OrderId || !orderResponse.Hash) {
-        return {
-          success: false,
-          error: `Failed to create shipping order: Unknown error`
-        };
-      }
-
-      console.log(`✅ Parcel2Go order created: ${orderResponse.OrderId}`);
-
-      // Automatically pay using prepay method
+      // Automatically pay the carrier (Parcel2Go prepay balance)
       try {
-        const paymentResponse = await parcel2goService.payWithPrePay(
-          orderResponse.OrderId, 
-          orderResponse.Hash
-        );
+        await connected.provider.pay(booking);
 
-        console.log(`💳 Payment processed for shipping order ${orderResponse.OrderId}`);
+        console.log(`💳 Payment processed for shipping order ${booking.bookingId}`);
 
         // Update order in database with shipping details
-        await storage.updateOrderShippingInfo(orderData.orderId, {
-          shippingOrderId: orderResponse.OrderId,
-          shippingHash: orderResponse.Hash,
-          shippingStatus: 'paid',
-          deliveryCarrier: orderData.shippingInfo.serviceName,
-          deliveryServiceId: orderData.shippingInfo.serviceId,
-          shippingTotal: parseFloat(orderData.shippingInfo.price)
-        });
+        await storage.updateOrderShippingInfo(orderData.orderId, { ...shippingInfo, shippingStatus: 'paid' });
 
         return {
           success: true,
-          orderId: orderResponse.OrderId,
-          hash: orderResponse.Hash,
+          orderId: booking.bookingId,
+          hash: booking.hash || undefined,
+          trackingNumber: booking.trackingNumber || undefined,
           cost: parseFloat(orderData.shippingInfo.price)
         };
 
       } catch (paymentError: any) {
-        console.error(`❌ Payment failed for shipping order ${orderResponse.OrderId}:`, paymentError);
+        console.error(`❌ Payment failed for shipping order ${booking.bookingId}:`, paymentError);
         
         // Update order status to show payment failed
-        await storage.updateOrderShippingInfo(orderData.orderId, {
-          shippingOrderId: orderResponse.OrderId,
-          shippingHash: orderResponse.Hash,
-          shippingStatus: 'payment_failed',
-          deliveryCarrier: orderData.shippingInfo.serviceName,
-          deliveryServiceId: orderData.shippingInfo.serviceId,
-          shippingTotal: parseFloat(orderData.shippingInfo.price)
-        });
+        await storage.updateOrderShippingInfo(orderData.orderId, { ...shippingInfo, shippingStatus: 'payment_failed' });
 
         return {
           success: false,
           error: `Payment failed: ${paymentError.message}`,
-          orderId: orderResponse.OrderId,
-          hash: orderResponse.Hash
+          orderId: booking.bookingId,
+          hash: booking.hash || undefined
         };
       }
 
@@ -207,15 +192,16 @@ export class ShippingAutomationService {
   }
 
   /**
-   * Generate shipping labels for an order
+   * Generate shipping labels for a booking, from the carrier it was made with
    */
-  async generateLabels(orderId: string, hash: string, format: 'pdf' | 'png' = 'pdf') {
+  async generateLabels(wholesalerId: string, booking: StoredBooking, providerAccountId?: number | null, format: 'pdf' | 'png' = 'pdf') {
     if (!this.config.enableLabelGeneration) {
       return { success: false, error: 'Label generation is disabled' };
     }
 
     try {
-      const labels = await parcel2goService.getLabels(orderId, hash, format);
+      const connected = await shippingProviderService.getProvider(wholesalerId, providerAccountId);
+      const labels = await connected.provider.getLabels(booking, format);
       return { success: true, labels };
     } catch (error: any) {
       return { success: false, error: error.message };
@@ -223,26 +209,15 @@ export class ShippingAutomationService {
   }
 
   /**
-   * Track a shipping order
+   * Track a shipping booking
    */
-  async trackShippingOrder(orderLineId: string) {
+  async trackShippingOrder(wholesalerId: string, booking: StoredBooking, providerAccountId?: number | null) {
     try {
-      const tracking = await parcel2goService.trackOrder(orderLineId);
+      const connected = await shippingProviderService.getProvider(wholesalerId, providerAccountId);
+      const tracking = await connected.provider.track(booking);
       return { success: true, tracking };
     } catch (error: any) {
       return { success: false, error: error.message };
     }
   }
-
-  /**
-   * Get detailed shipping order information
-   */
-  async getShippingOrderDetails(orderId: string, hash: string) {
-    try {
-      const details = await parcel2goService.getOrderDetails(orderId, hash);
-      return { success: true, details };
-    } catch (error: any) {
-      return { success: false, error: error.message };
-    }
-  }
-}
\ No newline at end of file
+}
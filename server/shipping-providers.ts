@@ -0,0 +1,242 @@
+import {
+  Parcel2GoService,
+  type Address,
+  type DeliveryQuote,
+  type OrderRequest,
+  type Parcel2GoCredentials,
+  type ParcelDimensions,
+  type QuoteRequest
+} from './parcel2go';
+import { priceTableRate, type ShippingProviderKey, type TableRateSettings } from '../shared/shipping-providers';
+import { splitGrossAmount } from '../shared/vat';
+import type { ShippingProviderAccount } from '@shared/schema';
+
+export interface ShippingBookingRequest {
+  reference: string; // Our order (and shipment) reference
+  serviceId: string;
+  collectionDate?: string; // ISO date string
+  collectionAddress: Address;
+  deliveryAddress: Address;
+  parcels: ParcelDimensions[];
+  customer: {
+    email: string;
+    forename: string;
+    surname: string;
+  };
+}
+
+// A booking as stored on orders and shipments (shippingOrderId, shippingHash, shippingOrderLineId)
+export interface StoredBooking {
+  bookingId: string;
+  hash: string | null;
+  lineId: string | null; // Set when the carrier can be polled for tracking
+  trackingNumber: string | null;
+}
+
+export interface ShippingBooking extends StoredBooking {
+  price: number;
+  paymentLinks?: any;
+}
+
+export interface CarrierScan {
+  occurredAt: Date;
+  carrierStatus: string;
+  description: string;
+  location: string | null;
+}
+
+/**
+ * What every carrier integration offers: quotes, booking, paying for the
+ * booking, labels, tracking and cancellation
+ */
+export interface ShippingProvider {
+  readonly key: ShippingProviderKey;
+  getQuotes(request: QuoteRequest): Promise<DeliveryQuote[]>;
+  book(request: ShippingBookingRequest): Promise<ShippingBooking>;
+  pay(booking: StoredBooking): Promise<void>;
+  getLabels(booking: StoredBooking, format: 'pdf' | 'png'): Promise<any>;
+  track(booking: StoredBooking): Promise<CarrierScan[]>;
+  cancel(booking: StoredBooking): Promise<void>;
+}
+
+export class Parcel2GoProvider implements ShippingProvider {
+  readonly key = 'parcel2go' as const;
+  private client: Parcel2GoService;
+
+  constructor(credentials: Parcel2GoCredentials) {
+    // Each account gets its own client so tokens never cross between wholesalers
+    this.client = new Parcel2GoService(credentials);
+  }
+
+  async getQuotes(request: QuoteRequest): Promise<DeliveryQuote[]> {
+    return await this.client.getQuotes(request);
+  }
+
+  async book(request: ShippingBookingRequest): Promise<ShippingBooking> {
+    const orderRequest: OrderRequest = {
+      Items: [{
+        Id: request.reference,
+        CollectionDate: request.collectionDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        Service: request.serviceId,
+        Parcels: request.parcels.map((parcel, index) => ({
+          Id: `parcel-${index}`,
+          Height: parcel.height,
+          Length: parcel.length,
+          Width: parcel.width,
+          Weight: parcel.weight,
+          EstimatedValue: parcel.value,
+          DeliveryAddress: request.deliveryAddress,
+          ContentsSummary: parcel.contentDescription || 'Wholesale products'
+        })),
+        CollectionAddress: request.collectionAddress
+      }],
+      CustomerDetails: {
+        Email: request.customer.email,
+        Forename: request.customer.forename,
+        Surname: request.customer.surname
+      }
+    };
+
+    const response = await this.client.createOrder(orderRequest);
+    if (!response.OrderId || !response.Hash) {
+      throw new Error('Parcel2Go did not return an order reference');
+    }
+    return {
+      bookingId: String(response.OrderId),
+      hash: response.Hash,
+      lineId: response.OrderlineIdMap?.[0]?.OrderLineId || null,
+      trackingNumber: null,
+      price: response.TotalPrice,
+      paymentLinks: response.Links
+    };
+  }
+
+  async pay(booking: StoredBooking): Promise<void> {
+    await this.client.payWithPrePay(booking.bookingId, booking.hash || '');
+  }
+
+  async getLabels(booking: StoredBooking, format: 'pdf' | 'png'): Promise<any> {
+    return await this.client.getLabels(booking.bookingId, booking.hash || '', format);
+  }
+
+  async track(booking: StoredBooking): Promise<CarrierScan[]> {
+    if (!booking.lineId) return [];
+    return this.parseScans(await this.client.trackOrder(booking.lineId));
+  }
+
+  async cancel(booking: StoredBooking): Promise<void> {
+    if (!booking.lineId) {
+      throw new Error('This Parcel2Go booking has no order line to cancel');
+    }
+    await this.client.cancelOrderLine(booking.lineId);
+  }
+
+  /**
+   * Parcel2Go passes on each carrier's scans with slightly different field names
+   */
+  private parseScans(response: any): CarrierScan[] {
+    const raw: any[] = Array.isArray(response)
+      ? response
+      : response?.Results || response?.Events || response?.TrackingEvents || response?.events || [];
+
+    return raw
+      .map(event => ({
+        occurredAt: new Date(event.Timestamp || event.Date || event.DateTime || event.timestamp),
+        carrierStatus: String(event.Status || event.StatusCode || event.status || ''),
+        description: String(event.Description || event.Message || event.description || ''),
+        location: event.Location || event.location || null
+      }))
+      .filter(scan => !isNaN(scan.occurredAt.getTime()) && (scan.carrierStatus || scan.description))
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+}
+
+/**
+ * Weight- and postcode-band delivery pricing the wholesaler sets themselves.
+ * Nothing leaves the platform: bookings are recorded locally, so it also
+ * serves as an offline carrier for testing the shipping flow.
+ */
+export class TableRateProvider implements ShippingProvider {
+  readonly key = 'table_rate' as const;
+
+  constructor(private settings: TableRateSettings, private carrierName: string) {}
+
+  async getQuotes(request: QuoteRequest): Promise<DeliveryQuote[]> {
+    const totalWeight = request.parcels.reduce((sum, parcel) => sum + parcel.weight, 0);
+    const goodsValue = request.parcels.reduce((sum, parcel) => sum + (parcel.value || 0), 0);
+
+    return this.settings.services.flatMap(service => {
+      const price = priceTableRate(service, totalWeight, goodsValue, request.deliveryAddress.postcode);
+      if (price == null) return [];
+      const { net, vat } = splitGrossAmount(price, 20);
+      return [{
+        serviceId: service.id,
+        serviceName: service.name,
+        carrierName: this.carrierName,
+        price,
+        priceExVat: net,
+        vat,
+        transitTime: service.transitTime,
+        collectionType: 'Collection',
+        deliveryType: 'Delivery',
+        trackingAvailable: false,
+        insuranceIncluded: false,
+        description: `${service.name} - ${service.transitTime}`
+      }];
+    });
+  }
+
+  async book(request: ShippingBookingRequest): Promise<ShippingBooking> {
+    const quote = (await this.getQuotes(request)).find(q => q.serviceId === request.serviceId);
+    if (!quote) {
+      throw new Error(`${this.carrierName} doesn't deliver this consignment with that service`);
+    }
+
+    const bookingId = `TR-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+    return { bookingId, hash: null, lineId: null, trackingNumber: bookingId, price: quote.price };
+  }
+
+  // Charged to the customer with their order, so there is nothing to pay a carrier
+  async pay(): Promise<void> {}
+
+  async getLabels(): Promise<any> {
+    throw new Error(`${this.carrierName} doesn't produce carrier labels - print the packing slip instead`);
+  }
+
+  async track(): Promise<CarrierScan[]> {
+    return [];
+  }
+
+  async cancel(): Promise<void> {}
+}
+
+type BookedRecord = {
+  shippingOrderId: string | null;
+  shippingHash: string | null;
+  shippingOrderLineId: string | null;
+};
+
+// The booking stored on an order or shipment, if it has one
+export function getStoredBooking(record: BookedRecord, trackingNumber?: string | null): StoredBooking | null {
+  if (!record.shippingOrderId) return null;
+  return {
+    bookingId: record.shippingOrderId,
+    hash: record.shippingHash,
+    lineId: record.shippingOrderLineId,
+    trackingNumber: trackingNumber ?? null
+  };
+}
+
+export function createShippingProvider(account: ShippingProviderAccount): ShippingProvider {
+  switch (account.provider) {
+    case 'parcel2go':
+      if (!account.credentials) {
+        throw new Error(`${account.name} has no Parcel2Go API keys`);
+      }
+      return new Parcel2GoProvider(account.credentials);
+    case 'table_rate':
+      return new TableRateProvider(account.settings || { services: [] }, account.name);
+    default:
+      throw new Error(`Unknown shipping provider: ${account.provider}`);
+  }
+}
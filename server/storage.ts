@@ -23,6 +23,9 @@ import {
   tabPermissions,
   deliveryAddresses,
   wholesalerCustomerRelationships,
+  priceLists,
+  priceListItems,
+  priceListAssignments,
   type User,
   type UpsertUser,
   type Product,
@@ -67,11 +70,241 @@ import {
   type InsertDeliveryAddress,
   type WholesalerCustomerRelationship,
   type InsertWholesalerCustomerRelationship,
+  type PriceList,
+  type InsertPriceList,
+  type PriceListItem,
+  type InsertPriceListItem,
+  type PriceListAssignment,
+  type InsertPriceListAssignment,
+  campaignRecipients,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
+  orderShipments,
+  orderShipmentItems,
+  type OrderShipment,
+  type InsertOrderShipment,
+  type OrderShipmentItem,
+  returnRequests,
+  returnRequestItems,
+  type ReturnRequest,
+  type InsertReturnRequest,
+  type ReturnRequestItem,
+  type InsertReturnRequestItem,
+  negotiationMessages,
+  type NegotiationMessage,
+  type InsertNegotiationMessage,
+  inventoryInsights,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderItem,
+  type InsertPurchaseOrderItem,
+  stockLots,
+  orderItemLots,
+  type StockLot,
+  type InsertStockLot,
+  type OrderItemLot,
+  warehouses,
+  warehouseStock,
+  type Warehouse,
+  type InsertWarehouse,
+  type WarehouseStock,
+  priceChangeBatches,
+  priceChangeProposals,
+  productPriceHistory,
+  type PriceChangeBatch,
+  type InsertPriceChangeBatch,
+  type PriceChangeProposal,
+  type InsertPriceChangeProposal,
+  type ProductPriceHistory,
+  standingOrders,
+  standingOrderItems,
+  standingOrderRuns,
+  type StandingOrder,
+  type InsertStandingOrder,
+  type StandingOrderItem,
+  type InsertStandingOrderItem,
+  type StandingOrderRun,
+  orderCharges,
+  type OrderCharge,
+  type InsertOrderCharge,
+  orderEdits,
+  type OrderEdit,
+  type InsertOrderEdit,
+  pickLists,
+  pickListItems,
+  type PickList,
+  type PickListItem,
+  deliveryRuns,
+  deliveryRunStops,
+  type DeliveryRun,
+  type InsertDeliveryRun,
+  type DeliveryRunStop,
+  type InsertDeliveryRunStop,
+  fulfilmentSlots,
+  fulfilmentClosures,
+  type FulfilmentSlot,
+  type InsertFulfilmentSlot,
+  type FulfilmentClosure,
+  type InsertFulfilmentClosure,
+  trackingEvents,
+  type TrackingEventRecord,
+  type InsertTrackingEvent,
+  shippingProviderAccounts,
+  type ShippingProviderAccount,
+  type InsertShippingProviderAccount,
+  invoices,
+  invoiceSequences,
+  type Invoice,
+  type InsertInvoice,
+  financialPerformance,
+  type FinancialPerformance,
+  type InsertFinancialPerformance,
+  accountingExports,
+  accountingExportItems,
+  type AccountingExport,
+  type AccountingExportItem,
+  outboxMessages,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  stripeWebhookEvents,
+  type StripeWebhookEvent,
+  type InsertStripeWebhookEvent,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, sum, count, or, ilike, isNull } from "drizzle-orm";
+import { eq, desc, and, sql, sum, count, or, ilike, isNull, lt, lte, gte, inArray } from "drizzle-orm";
 import { hashPassword, verifyPassword } from "./passwordUtils";
 import { InventoryCalculator } from "../shared/inventory-calculator.js";
+import { resolveContractPrice, toPriceListRule } from "../shared/price-list-pricing";
+import { getOutstandingQuantity, getOrderFulfilmentState } from "../shared/order-fulfilment";
+import { calculateReturnRefund, isAcceptedReturnLine, type ReturnStatus } from "../shared/returns";
+import { calculatePurchaseOrderTotal, getOutstandingReceiptQuantity, getWeightedAverageCost } from "../shared/purchasing";
+import { allocateLotsFefo, getDefaultLotExpiry, sortLotsFefo } from "../shared/stock-lots";
+import { getDefaultWarehouseStock } from "../shared/warehouses";
+import { applyPriceGuardrails, isSamePrice } from "../shared/price-guardrails";
+import { getNextStandingOrderDate, type StandingOrderCadence } from "../shared/standing-orders";
+import { calculateOrderEditTotals, canEditOrder, type OrderEditLineChange } from "../shared/order-edits";
+import { PICKABLE_ORDER_STATUSES, formatPickListNumber, isPickLineComplete } from "../shared/picking";
+import { OWN_DELIVERY_CARRIER, ROUTABLE_ORDER_STATUSES, formatDeliveryRunNumber, getPostcodeFromAddress } from "../shared/delivery-runs";
+import type { SlotBookingCount } from "../shared/fulfilment-slots";
+import { FINAL_SHIPPING_STATUSES, combineShippingStatuses, type ShippingStatusKey } from "../shared/tracking-schema";
+import { VAT_RATES, isVatRateCode, splitGrossAmount, summarizeVatByRate, type VatBreakdown, type VatRateCode, type VatSummaryLine } from "../shared/vat";
+import { formatInvoiceNumber } from "../shared/invoices";
+import type { AccountingExportFormat, AccountingSourceType } from "../shared/accounting-export";
+import type { PayoutOrderMatch } from "../shared/payout-reconciliation";
+import { OUTBOX_LOCK_TIMEOUT_MS, type OutboxStatus } from "../shared/outbox";
+import { STRIPE_WEBHOOK_LOCK_TIMEOUT_MS, type StripeWebhookEventStatus } from "../shared/stripe-webhook-events";
+
+export interface WarehouseStockLevel {
+  warehouseId: number;
+  productId: number;
+  stock: number;
+  palletStock: number;
+}
+
+export interface VatReport {
+  from: Date;
+  to: Date;
+  vatNumber: string | null;
+  orderCount: number;
+  rates: VatSummaryLine[];
+  totals: VatBreakdown;
+}
+
+export type PriceChangeBatchWithProposals = PriceChangeBatch & {
+  proposals: (PriceChangeProposal & { productName: string | null; livePrice: string | null })[];
+};
+
+export interface PriceChangeRecord {
+  source: 'manual' | 'dynamic_pricing' | 'rollback';
+  changedBy?: string | null;
+  reason?: string | null;
+  priceChangeBatchId?: number | null;
+}
+
+export type StandingOrderWithDetails = StandingOrder & {
+  items: (StandingOrderItem & { productName: string | null; productStatus: string | null })[];
+  recentRuns: StandingOrderRun[];
+};
+
+// A changed order line, already re-priced. A null orderItemId adds a line; quantity 0 removes one.
+export interface OrderEditLine {
+  orderItemId: number | null;
+  productId: number;
+  quantity: number;
+  sellingType: 'units' | 'pallets';
+  unitPrice: string;
+  total: string;
+}
+
+export type PickListSummary = PickList & {
+  warehouseName: string | null;
+  orderCount: number;
+  lineCount: number;
+  pickedLineCount: number;
+};
+
+export type PickListLine = PickListItem & {
+  productName: string;
+  quantityInPack: number;
+  unitsPerPallet: number;
+  orderNumber: string;
+  customerName: string | null;
+  fulfillmentType: string;
+};
+
+export type PickListWithDetails = PickList & {
+  warehouseName: string | null;
+  items: PickListLine[];
+};
+
+export type DeliveryRunSummary = DeliveryRun & {
+  warehouseName: string | null;
+  stopCount: number;
+  deliveredCount: number;
+  failedCount: number;
+};
+
+export type DeliveryRunStopDetails = DeliveryRunStop & {
+  orderNumber: string;
+  orderStatus: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  deliveryAddress: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  deliveryInstructions: string | null;
+  total: string;
+  paymentMethod: string | null;
+};
+
+export type DeliveryRunWithStops = DeliveryRun & {
+  warehouseName: string | null;
+  stops: DeliveryRunStopDetails[];
+};
+
+// A delivery order that can be put on a van, with the postcode used to route it
+export type RoutableOrder = Order & { postcode: string | null };
+
+// A Parcel2Go booking still in flight - either one shipment of an order or a booking for the whole order
+export type TrackableBooking = {
+  order: Order;
+  shipment: OrderShipment | null;
+  orderLineId: string;
+  status: ShippingStatusKey | null;
+};
+
+export type NegotiationThread = Negotiation & {
+  productName: string | null;
+  wholesalerId: string;
+  retailerName: string | null;
+  messages: NegotiationMessage[];
+};
 
 export interface IStorage {
   // User operations (required for auth)
@@ -107,6 +340,7 @@ export interface IStorage {
   getOrdersByCustomerPhone(phoneNumber: string): Promise<(Order & { items: (OrderItem & { product: Product })[]; retailer: User; wholesaler: User })[]>;
   getLastOrderForWholesaler(wholesalerId: string): Promise<Order | undefined>;
   getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined>;
+  getOrdersForPaymentIntents(wholesalerId: string, paymentIntentIds: string[]): Promise<PayoutOrderMatch[]>;
   createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<Order>;
   createOrderWithTransaction(trx: any, order: InsertOrder, items: InsertOrderItem[]): Promise<Order>;
   createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
@@ -122,6 +356,8 @@ export interface IStorage {
   updateOrderShippingInfo(id: number, shippingInfo: {
     shippingOrderId?: string;
     shippingHash?: string;
+    shippingOrderLineId?: string;
+    shippingProviderAccountId?: number | null;
     shippingStatus?: string;
     deliveryCarrier?: string;
     deliveryServiceId?: string;
@@ -135,7 +371,7 @@ export interface IStorage {
   createCustomerGroup(group: InsertCustomerGroup): Promise<CustomerGroup>;
   updateCustomerGroup(id: number, updates: any): Promise<CustomerGroup>;
   deleteCustomerGroup(id: number): Promise<void>;
-  getGroupMembers(groupId: number): Promise<User[]>;
+  getGroupMembers(groupId: number, wholesalerId: string): Promise<User[]>;
   searchGroupMembers(groupId: number, searchTerm: string): Promise<User[]>;
   getUserByPhone(phoneNumber: string): Promise<User | undefined>;
   
@@ -268,7 +504,7 @@ export interface IStorage {
 
   // Stock Alert operations
   createStockAlert(alert: InsertStockAlert): Promise<StockAlert>;
-  getUnresolvedStockAlerts(wholesalerId: string): Promise<(StockAlert & { product: Product })[]>;
+  getUnresolvedStockAlerts(wholesalerId: string): Promise<(StockAlert & { product: Product; stockLot: StockLot | null })[]>;
   getUnresolvedStockAlertsCount(wholesalerId: string): Promise<number>;
   markStockAlertAsRead(alertId: number, wholesalerId: string): Promise<void>;
   resolveStockAlert(alertId: number, wholesalerId: string): Promise<void>;
@@ -391,6 +627,272 @@ export interface IStorage {
   deleteDeliveryAddress(id: number): Promise<void>;
   setDefaultDeliveryAddress(customerId: string, wholesalerId: string, addressId: number): Promise<void>;
   getDefaultDeliveryAddress(customerId: string, wholesalerId: string): Promise<DeliveryAddress | undefined>;
+
+  // Credit account (on-account ordering) operations
+  getWholesalerCustomerRelationship(customerId: string, wholesalerId: string, trx?: any): Promise<WholesalerCustomerRelationship | undefined>;
+  updateCustomerCreditTerms(customerId: string, wholesalerId: string, terms: { paymentTerms: string; creditLimit: string | null }): Promise<WholesalerCustomerRelationship>;
+  getOutstandingAccountBalance(customerId: string, wholesalerId: string, trx?: any): Promise<number>;
+  getUnpaidAccountOrders(wholesalerId: string): Promise<(Order & { retailer: User | null })[]>;
+  markOrderPaid(orderId: number): Promise<Order>;
+  creditAccountOrder(orderId: number, amount: number): Promise<Order>;
+
+  // Price list (contract pricing) operations
+  getPriceLists(wholesalerId: string): Promise<(PriceList & { itemCount: number; assignmentCount: number })[]>;
+  getPriceList(id: number): Promise<(PriceList & { items: PriceListItem[]; assignments: PriceListAssignment[] }) | undefined>;
+  createPriceList(priceList: InsertPriceList): Promise<PriceList>;
+  updatePriceList(id: number, updates: Partial<InsertPriceList>): Promise<PriceList>;
+  deletePriceList(id: number): Promise<void>;
+  replacePriceListItems(priceListId: number, items: Omit<InsertPriceListItem, 'priceListId'>[]): Promise<PriceListItem[]>;
+  createPriceListAssignment(assignment: InsertPriceListAssignment): Promise<PriceListAssignment>;
+  deletePriceListAssignment(id: number): Promise<void>;
+  getPriceListForCustomer(customerId: string, wholesalerId: string, trx?: any): Promise<(PriceList & { items: PriceListItem[] }) | undefined>;
+
+  // Scheduled campaign dispatch operations
+  claimDueBroadcasts(now: Date, staleBefore: Date): Promise<Broadcast[]>;
+  claimBroadcast(id: number): Promise<Broadcast | undefined>;
+  cancelBroadcast(id: number, wholesalerId: string): Promise<Broadcast | undefined>;
+  rescheduleBroadcast(id: number, wholesalerId: string, scheduledAt: Date): Promise<Broadcast | undefined>;
+  getTemplateCampaign(id: number): Promise<TemplateCampaign | undefined>;
+  updateTemplateCampaign(id: number, updates: Partial<InsertTemplateCampaign>): Promise<TemplateCampaign>;
+  claimDueTemplateCampaigns(now: Date, staleBefore: Date): Promise<TemplateCampaign[]>;
+  claimTemplateCampaign(id: number): Promise<TemplateCampaign | undefined>;
+  cancelTemplateCampaign(id: number, wholesalerId: string): Promise<TemplateCampaign | undefined>;
+  rescheduleTemplateCampaign(id: number, wholesalerId: string, scheduledAt: Date): Promise<TemplateCampaign | undefined>;
+  getCampaignDeliveryLog(campaignType: string, campaignId: number): Promise<(CampaignRecipient & { customer: User | null })[]>;
+  startCampaignRecipient(recipient: InsertCampaignRecipient): Promise<CampaignRecipient | undefined>;
+  updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient>;
+  failInterruptedCampaignRecipients(campaignType: string, campaignId: number): Promise<number>;
+
+  // Partial fulfilment and shipment operations
+  getOrderShipments(orderId: number): Promise<(OrderShipment & { items: OrderShipmentItem[] })[]>;
+  getOrderShipment(id: number): Promise<OrderShipment | undefined>;
+  createOrderShipment(
+    orderId: number,
+    shipment: Omit<InsertOrderShipment, 'orderId' | 'shipmentNumber'>,
+    lines: { orderItemId: number; quantity: number }[]
+  ): Promise<OrderShipment & { items: OrderShipmentItem[] }>;
+  updateOrderShipment(id: number, updates: Partial<InsertOrderShipment>): Promise<OrderShipment>;
+  adjustOrderItemFulfilment(
+    orderId: number,
+    lines: { orderItemId: number; backorderQuantity?: number; cancelQuantity?: number }[]
+  ): Promise<OrderItem[]>;
+  getBackorderedItems(wholesalerId: string): Promise<(OrderItem & { product: Product; order: Order })[]>;
+  releaseBackorders(productId: number): Promise<{ orderId: number; orderNumber: string; orderItemId: number; quantity: number }[]>;
+
+  // Return (RMA) operations
+  createReturnRequest(
+    request: Omit<InsertReturnRequest, 'returnNumber'>,
+    items: Omit<InsertReturnRequestItem, 'returnRequestId'>[],
+    orderNumber: string
+  ): Promise<ReturnRequest & { items: ReturnRequestItem[] }>;
+  getReturnRequest(id: number): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[]; orderNumber: string; customerName: string | null }) | undefined>;
+  getReturnRequests(wholesalerId: string, status?: string): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[]; orderNumber: string; customerName: string | null })[]>;
+  getOrderReturnRequests(orderId: number): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[] })[]>;
+  getReturnedQuantities(orderId: number): Promise<Record<number, number>>;
+  updateReturnRequest(id: number, updates: Partial<InsertReturnRequest>): Promise<ReturnRequest>;
+  transitionReturnRequest(id: number, from: ReturnStatus, to: ReturnStatus): Promise<ReturnRequest | undefined>;
+  inspectReturnRequest(
+    id: number,
+    outcomes: { itemId: number; outcome: 'restock' | 'write_off' | 'rejected'; notes?: string }[]
+  ): Promise<{ returnRequest: ReturnRequest; restockedProductIds: number[] }>;
+
+  // Negotiation inbox operations
+  getWholesalerNegotiations(wholesalerId: string, status?: string): Promise<NegotiationThread[]>;
+  getRetailerNegotiations(retailerId: string, wholesalerId: string): Promise<NegotiationThread[]>;
+  getNegotiationThread(id: number): Promise<NegotiationThread | undefined>;
+  addNegotiationMessage(message: InsertNegotiationMessage): Promise<NegotiationMessage>;
+  transitionNegotiation(
+    id: number,
+    fromStatuses: string[],
+    updates: Partial<Negotiation>,
+    message: Omit<InsertNegotiationMessage, 'negotiationId'>
+  ): Promise<Negotiation | undefined>;
+  expireNegotiations(now: Date): Promise<Negotiation[]>;
+  markNegotiationOrdered(id: number, orderId: number, trx?: any): Promise<Negotiation | undefined>;
+
+  // Supplier and purchase order operations
+  getSuppliers(wholesalerId: string): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, updates: Partial<InsertSupplier>): Promise<Supplier>;
+  getPurchaseOrders(wholesalerId: string, status?: string): Promise<(PurchaseOrder & { supplierName: string; items: (PurchaseOrderItem & { productName: string | null })[] })[]>;
+  getPurchaseOrder(id: number): Promise<(PurchaseOrder & { supplierName: string; items: (PurchaseOrderItem & { productName: string | null })[] }) | undefined>;
+  createPurchaseOrder(
+    purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber' | 'totalCost'>,
+    items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]
+  ): Promise<PurchaseOrder & { items: PurchaseOrderItem[] }>;
+  updatePurchaseOrder(id: number, updates: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder>;
+  receivePurchaseOrder(
+    id: number,
+    lines: { itemId: number; quantity: number; batchCode?: string | null; expiryDate?: Date | null }[]
+  ): Promise<{ purchaseOrder: PurchaseOrder; receivedProductIds: number[] }>;
+
+  // Batch/lot operations
+  getStockLots(wholesalerId: string, options?: { productId?: number; includeEmpty?: boolean }): Promise<(StockLot & { productName: string })[]>;
+  getStockLot(id: number): Promise<StockLot | undefined>;
+  createStockLot(lot: InsertStockLot, addToStock: boolean): Promise<StockLot>;
+  writeOffStockLot(id: number, quantity: number, reason: string): Promise<StockLot>;
+  getStockLotAllocations(stockLotId: number): Promise<(OrderItemLot & { orderNumber: string; customerName: string | null; customerEmail: string | null; orderDate: Date | null })[]>;
+  getOrderItemLots(orderId: number): Promise<OrderItemLot[]>;
+  getExpiringStockLots(before: Date): Promise<(StockLot & { productName: string; temperatureRequirement: string | null })[]>;
+  createNearExpiryAlert(lot: StockLot, warningDays: number): Promise<StockAlert | null>;
+  resolveStockLotAlerts(stockLotId: number): Promise<void>;
+
+  // Warehouse (stock location) operations
+  getWarehouses(wholesalerId: string): Promise<Warehouse[]>;
+  getWarehouse(id: number): Promise<Warehouse | undefined>;
+  getCollectionDepots(wholesalerId: string): Promise<Warehouse[]>;
+  createWarehouse(warehouse: InsertWarehouse): Promise<Warehouse>;
+  updateWarehouse(id: number, updates: Partial<InsertWarehouse>): Promise<Warehouse>;
+  setDefaultWarehouse(wholesalerId: string, warehouseId: number): Promise<Warehouse>;
+  getWarehouseStockLevels(wholesalerId: string, productIds?: number[]): Promise<WarehouseStockLevel[]>;
+  transferStock(transfer: {
+    productId: number;
+    fromWarehouseId: number;
+    toWarehouseId: number;
+    quantity: number;
+    unitType: 'units' | 'pallets';
+    reason?: string | null;
+  }): Promise<{ transferId: string; from: WarehouseStockLevel; to: WarehouseStockLevel }>;
+
+  // VAT reporting
+  getVatReport(wholesalerId: string, from: Date, to: Date): Promise<VatReport>;
+
+  // Price history and dynamic pricing approval operations
+  getProductPriceHistory(productId: number): Promise<(ProductPriceHistory & { changedByName: string | null })[]>;
+  recordProductPriceChanges(
+    before: Pick<Product, 'id' | 'wholesalerId' | 'price' | 'palletPrice'>,
+    after: Pick<Product, 'price' | 'palletPrice'>,
+    change: PriceChangeRecord
+  ): Promise<void>;
+  updateProductPriceGuardrails(productId: number, priceFloor: string | null, priceCeiling: string | null): Promise<Product>;
+  getWholesalerProductsByIds(wholesalerId: string, productIds: number[]): Promise<Product[]>;
+  createPriceChangeBatch(batch: InsertPriceChangeBatch, proposals: Omit<InsertPriceChangeProposal, 'batchId'>[]): Promise<PriceChangeBatchWithProposals>;
+  getPriceChangeBatches(wholesalerId: string, status?: string): Promise<PriceChangeBatchWithProposals[]>;
+  getPriceChangeBatch(id: number): Promise<PriceChangeBatchWithProposals | undefined>;
+  approvePriceChangeBatch(id: number, reviewedBy: string, proposalIds?: number[]): Promise<PriceChangeBatchWithProposals>;
+  rejectPriceChangeBatch(id: number, reviewedBy: string): Promise<PriceChangeBatchWithProposals>;
+  rollbackPriceChangeBatch(id: number, rolledBackBy: string): Promise<{ batch: PriceChangeBatchWithProposals; skipped: number }>;
+
+  // Standing (recurring) order operations
+  getStandingOrders(retailerId: string, wholesalerId: string): Promise<StandingOrderWithDetails[]>;
+  getStandingOrder(id: number): Promise<StandingOrderWithDetails | undefined>;
+  createStandingOrder(standingOrder: InsertStandingOrder, items: Omit<InsertStandingOrderItem, 'standingOrderId'>[]): Promise<StandingOrderWithDetails>;
+  updateStandingOrder(
+    id: number,
+    updates: Partial<InsertStandingOrder>,
+    items?: Omit<InsertStandingOrderItem, 'standingOrderId'>[]
+  ): Promise<StandingOrderWithDetails>;
+  skipNextStandingOrderRun(id: number, message: string): Promise<StandingOrderWithDetails>;
+  claimDueStandingOrders(now: Date): Promise<{ run: StandingOrderRun; standingOrder: StandingOrderWithDetails }[]>;
+  completeStandingOrderRun(runId: number, result: { status: string; orderId?: number | null; message?: string | null }): Promise<StandingOrderRun>;
+  claimInterruptedStandingOrderRuns(staleBefore: Date): Promise<{ run: StandingOrderRun; standingOrder: StandingOrderWithDetails }[]>;
+  recordStandingOrderRunPayment(runId: number, stripePaymentIntentId: string): Promise<void>;
+  getStandingOrdersUsingCard(retailerId: string, stripePaymentMethodId: string): Promise<StandingOrder[]>;
+
+  // Extra order charge operations
+  getOrderCharges(orderId: number): Promise<OrderCharge[]>;
+  createOrderCharge(charge: InsertOrderCharge): Promise<OrderCharge>;
+  completeOrderCharge(
+    id: number,
+    result: { status: 'succeeded' | 'failed'; stripePaymentIntentId?: string | null; failureMessage?: string | null }
+  ): Promise<OrderCharge>;
+
+  // Order edit operations
+  getOrderEdits(orderId: number): Promise<OrderEdit[]>;
+  applyOrderEdit(
+    orderId: number,
+    expectedTotal: string,
+    lines: OrderEditLine[],
+    edit: Pick<InsertOrderEdit, 'editedBy' | 'reason' | 'settlement' | 'settlementStatus' | 'orderChargeId'>
+  ): Promise<{ order: Order; edit: OrderEdit }>;
+  updateOrderEditSettlement(
+    id: number,
+    updates: Pick<Partial<InsertOrderEdit>, 'settlementStatus' | 'stripeRefundId' | 'settlementMessage'>
+  ): Promise<OrderEdit>;
+
+  // Pick list operations
+  getPickableOrders(wholesalerId: string): Promise<Order[]>;
+  getPickLists(wholesalerId: string): Promise<PickListSummary[]>;
+  getPickList(id: number): Promise<PickListWithDetails | undefined>;
+  createPickList(wholesalerId: string, orderIds: number[], createdBy: string): Promise<PickList>;
+  recordPick(pickListId: number, itemId: number, pickedQuantity: number, pickedBy: string): Promise<PickListItem>;
+  updatePickListStatus(id: number, status: 'completed' | 'cancelled'): Promise<PickList>;
+
+  // Delivery run operations
+  getRoutableOrders(wholesalerId: string, orderIds?: number[], exceptRunId?: number): Promise<RoutableOrder[]>;
+  getDeliveryRuns(wholesalerId: string): Promise<DeliveryRunSummary[]>;
+  getDeliveryRun(id: number): Promise<DeliveryRunWithStops | undefined>;
+  createDeliveryRun(
+    run: Omit<InsertDeliveryRun, 'runNumber'>,
+    stops: Omit<InsertDeliveryRunStop, 'runId'>[]
+  ): Promise<DeliveryRun>;
+  replaceDeliveryRunStops(runId: number, stops: Omit<InsertDeliveryRunStop, 'runId'>[], totalDistanceKm: string | null): Promise<void>;
+  updateDeliveryRun(id: number, updates: Partial<InsertDeliveryRun>): Promise<DeliveryRun>;
+  completeDeliveryRunStop(
+    runId: number,
+    stopId: number,
+    outcome: Pick<InsertDeliveryRunStop, 'status' | 'recipientName' | 'failureReason' | 'proofPhotoUrl' | 'completedBy'>
+  ): Promise<{ stop: DeliveryRunStop; run: DeliveryRun; order: Order }>;
+
+  // Delivery slot operations
+  getFulfilmentSlots(wholesalerId: string, type?: string): Promise<FulfilmentSlot[]>;
+  getFulfilmentSlot(id: number): Promise<FulfilmentSlot | undefined>;
+  createFulfilmentSlot(slot: InsertFulfilmentSlot): Promise<FulfilmentSlot>;
+  updateFulfilmentSlot(id: number, updates: Partial<InsertFulfilmentSlot>): Promise<FulfilmentSlot>;
+  deleteFulfilmentSlot(id: number): Promise<void>;
+  getFulfilmentClosures(wholesalerId: string, from?: Date): Promise<FulfilmentClosure[]>;
+  getFulfilmentClosure(id: number): Promise<FulfilmentClosure | undefined>;
+  createFulfilmentClosure(closure: InsertFulfilmentClosure): Promise<FulfilmentClosure>;
+  deleteFulfilmentClosure(id: number): Promise<void>;
+  getSlotBookingCounts(wholesalerId: string, from: Date): Promise<SlotBookingCount[]>;
+  lockSlotBookings(trx: any, slotId: number, slotStartsAt: Date): Promise<void>;
+  countSlotBookings(trx: any, slotId: number, slotStartsAt: Date): Promise<number>;
+
+  // Carrier tracking operations
+  getTrackableBookings(): Promise<TrackableBooking[]>;
+  recordTrackingEvents(events: InsertTrackingEvent[]): Promise<TrackingEventRecord[]>;
+  getTrackingEvents(orderId: number): Promise<TrackingEventRecord[]>;
+  updateTrackingStatus(orderId: number, shipmentId: number | null, status: ShippingStatusKey | null): Promise<Order>;
+
+  // Shipping carrier account operations
+  getShippingProviderAccounts(wholesalerId: string): Promise<ShippingProviderAccount[]>;
+  getShippingProviderAccount(id: number): Promise<ShippingProviderAccount | undefined>;
+  createShippingProviderAccount(account: InsertShippingProviderAccount): Promise<ShippingProviderAccount>;
+  updateShippingProviderAccount(id: number, updates: Partial<InsertShippingProviderAccount>): Promise<ShippingProviderAccount>;
+  deleteShippingProviderAccount(id: number): Promise<void>;
+
+  // Invoice and credit note operations
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getOrderInvoices(orderId: number): Promise<Invoice[]>;
+  createInvoice(document: Omit<InsertInvoice, 'invoiceNumber' | 'sequenceNumber'>, numberPrefix: string | null): Promise<Invoice>;
+  updateInvoiceDelivery(id: number, updates: Pick<Partial<InsertInvoice>, 'pdfPath' | 'emailedAt'>): Promise<Invoice>;
+  getInvoicesForDateRange(wholesalerId: string, fromDate: Date, toDate: Date): Promise<Invoice[]>;
+
+  // Accounting export operations
+  getAccountingExports(wholesalerId: string): Promise<AccountingExport[]>;
+  startAccountingExport(wholesalerId: string, format: AccountingExportFormat, periodStart: Date, periodEnd: Date, createdBy: string): Promise<AccountingExport>;
+  claimAccountingExportItems(accountingExport: AccountingExport, items: Array<{ sourceType: AccountingSourceType; sourceId: string }>): Promise<AccountingExportItem[]>;
+  updateAccountingExportRowCount(id: number, rowCount: number): Promise<AccountingExport>;
+  saveFinancialPerformance(performance: InsertFinancialPerformance): Promise<FinancialPerformance>;
+
+  // Outbox operations
+  enqueueOutboxMessages(trx: any, messages: InsertOutboxMessage[]): Promise<OutboxMessage[]>;
+  claimDueOutboxMessages(limit: number): Promise<OutboxMessage[]>;
+  markOutboxMessageDelivered(id: number): Promise<void>;
+  markOutboxMessageFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<OutboxMessage>;
+  getOutboxMessage(id: number): Promise<OutboxMessage | undefined>;
+  getOutboxMessages(wholesalerId: string, filters: { status?: OutboxStatus; orderId?: number; limit?: number }): Promise<OutboxMessage[]>;
+  requeueOutboxMessage(id: number): Promise<OutboxMessage>;
+
+  // Stripe webhook event store
+  recordStripeWebhookEvent(event: InsertStripeWebhookEvent): Promise<StripeWebhookEvent>;
+  claimStripeWebhookEvent(eventId: string, options?: { force?: boolean }): Promise<StripeWebhookEvent | undefined>;
+  markStripeWebhookEventProcessed(eventId: string): Promise<void>;
+  markStripeWebhookEventFailed(eventId: string, error: string): Promise<void>;
+  getStripeWebhookEvent(eventId: string): Promise<StripeWebhookEvent | undefined>;
+  // A wholesaler's events; null for events that belong to no one, undefined for every event
+  getStripeWebhookEvents(wholesalerId: string | null | undefined, filters: { status?: StripeWebhookEventStatus; type?: string; limit?: number }): Promise<StripeWebhookEvent[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -934,6 +1436,9 @@ export class DatabaseStorage implements IStorage {
         orderItemQuantity: orderItems.quantity,
         orderItemUnitPrice: orderItems.unitPrice,
         orderItemTotal: orderItems.total,
+        orderItemFulfilledQuantity: orderItems.fulfilledQuantity,
+        orderItemBackorderedQuantity: orderItems.backorderedQuantity,
+        orderItemCancelledQuantity: orderItems.cancelledQuantity,
         productId: products.id,
         productName: products.name,
         productImageUrl: products.imageUrl,
@@ -957,6 +1462,9 @@ export class DatabaseStorage implements IStorage {
         quantity: item.orderItemQuantity,
         unitPrice: item.orderItemUnitPrice,
         total: item.orderItemTotal,
+        fulfilledQuantity: item.orderItemFulfilledQuantity,
+        backorderedQuantity: item.orderItemBackorderedQuantity,
+        cancelledQuantity: item.orderItemCancelledQuantity,
         product: {
           id: item.productId,
           name: item.productName,
@@ -1040,7 +1548,7 @@ export class DatabaseStorage implements IStorage {
         eq(orders.wholesalerId, wholesalerId),
         sql`${orders.createdAt} >= ${fromDate}`,
         sql`${orders.createdAt} <= ${toDate}`,
-        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`
+        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`
       ))
       .orderBy(desc(orders.createdAt));
     
@@ -1111,6 +1619,9 @@ export class DatabaseStorage implements IStorage {
         console.log(`🔢 ATOMIC: Generated order number ${orderNumber} for ${wholesaler[0]?.businessName} (current max: ${businessPrefix}-${maxNumber.toString().padStart(3, '0')})`);
       }
       
+      // VAT: Record the net/VAT split of every line at the product's rate
+      ({ order, items } = await this.applyOrderVat(tx, order, items));
+
       // CRITICAL DEBUG: Add detailed logging to identify SQL syntax error
       const orderData = {
         ...order,
@@ -1131,7 +1642,11 @@ export class DatabaseStorage implements IStorage {
         total: orderData.total,
         deliveryAddress: orderData.deliveryAddress,
         notes: orderData.notes,
-        status: orderData.status || 'confirmed'
+        status: orderData.status || 'confirmed',
+        warehouseId: orderData.warehouseId,
+        netAmount: orderData.netAmount,
+        vatAmount: orderData.vatAmount,
+        deliveryVatAmount: orderData.deliveryVatAmount
       };
       
       console.log(`🔍 DEBUG: Clean order data:`, cleanOrderData);
@@ -1157,7 +1672,7 @@ export class DatabaseStorage implements IStorage {
       // Insert order items and reduce stock within transaction
       for (const item of items) {
         // Insert order item
-        await tx.insert(orderItems).values({ ...item, orderId: newOrder.id });
+        const [orderItem] = await tx.insert(orderItems).values({ ...item, orderId: newOrder.id }).returning();
         
         // Get current product info before stock reduction
         const [currentProduct] = await tx
@@ -1203,6 +1718,12 @@ export class DatabaseStorage implements IStorage {
               palletStock: newPalletStock
             })
             .where(eq(products.id, item.productId));
+
+          // BATCH TRACKING: Record which lots this line ships from (first-expiry-first-out)
+          await this.allocateStockLots(tx, orderItem);
+
+          // MULTI-WAREHOUSE: Take the stock from the depot the order was allocated to
+          await this.adjustWarehouseStock(tx, item.productId, newOrder.warehouseId, sellingType, -orderedQuantity);
           
           // Record stock movement with proper unit type
           const stockBefore = sellingType === 'pallets' ? (currentProduct.palletStock || 0) : (currentProduct.stock || 0);
@@ -1319,6 +1840,8 @@ export class DatabaseStorage implements IStorage {
   async updateOrderShippingInfo(id: number, shippingInfo: {
     shippingOrderId?: string;
     shippingHash?: string;
+    shippingOrderLineId?: string;
+    shippingProviderAccountId?: number | null;
     shippingStatus?: string;
     deliveryCarrier?: string;
     deliveryServiceId?: string;
@@ -1376,9 +1899,76 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Orders paid by these payment intents, at checkout or as an extra charge afterwards
+  async getOrdersForPaymentIntents(wholesalerId: string, paymentIntentIds: string[]): Promise<PayoutOrderMatch[]> {
+    if (paymentIntentIds.length === 0) return [];
+
+    const checkoutMatches = await db
+      .select({ paymentIntentId: orders.stripePaymentIntentId, orderId: orders.id, orderNumber: orders.orderNumber })
+      .from(orders)
+      .where(and(eq(orders.wholesalerId, wholesalerId), inArray(orders.stripePaymentIntentId, paymentIntentIds)));
+
+    const chargeMatches = await db
+      .select({
+        paymentIntentId: orderCharges.stripePaymentIntentId,
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        chargeId: orderCharges.id
+      })
+      .from(orderCharges)
+      .innerJoin(orders, eq(orderCharges.orderId, orders.id))
+      .where(and(eq(orderCharges.wholesalerId, wholesalerId), inArray(orderCharges.stripePaymentIntentId, paymentIntentIds)));
+
+    return [
+      ...checkoutMatches.map(match => ({ ...match, paymentIntentId: match.paymentIntentId!, chargeId: null })),
+      ...chargeMatches.map(match => ({ ...match, paymentIntentId: match.paymentIntentId! }))
+    ];
+  }
+
   async createOrderWithTransaction(trx: any, orderData: InsertOrder, items: InsertOrderItem[]): Promise<Order> {
+    // Orders that didn't choose a depot ship from the default one
+    if (!orderData.warehouseId) {
+      const [defaultWarehouse] = await trx
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(and(eq(warehouses.wholesalerId, orderData.wholesalerId), eq(warehouses.isDefault, true)));
+      orderData = { ...orderData, warehouseId: defaultWarehouse?.id ?? null };
+    }
+
     console.log(`🔄 TRANSACTION ORDER: Creating order with ${items.length} items`);
     console.log(`📦 ITEMS: ${items.map(i => `${i.productId}:${i.quantity}:${i.sellingType}`).join(', ')}`);
+
+    // CONTRACT PRICING: Signed-in customers are priced at their price list rates before payment is taken
+    // (priceListService.applyToOrderItems). A line above them means the amount is wrong: nothing has been
+    // charged on account, so refuse the order; otherwise the money is taken (or the checkout wasn't signed
+    // in), so keep the order and flag it for the wholesaler rather than lose it.
+    const priceList = await this.getPriceListForCustomer(orderData.retailerId, orderData.wholesalerId, trx);
+    if (priceList) {
+      const rule = toPriceListRule(priceList);
+      const mismatches: string[] = [];
+      for (const item of items) {
+        const [product] = await trx.select().from(products).where(eq(products.id, item.productId));
+        if (!product) continue;
+
+        const contract = resolveContractPrice(product.id, product.price, product.palletPrice, rule);
+        const contractUnitPrice = item.sellingType === 'pallets' ? contract.palletPrice : contract.unitPrice;
+        if (contractUnitPrice != null && parseFloat(item.unitPrice) > contractUnitPrice + 0.005) {
+          mismatches.push(`${product.name} priced at £${parseFloat(item.unitPrice).toFixed(2)}, above the £${contractUnitPrice.toFixed(2)} rate on ${priceList.name}`);
+        }
+      }
+
+      if (mismatches.length > 0) {
+        if (orderData.paymentMethod === 'account') {
+          throw new Error(`Contract price mismatch: ${mismatches.join('; ')}`);
+        }
+        const flag = `⚠️ Priced above the customer's contract rate (${mismatches.join('; ')}) - please review`;
+        console.warn(`⚠️ CONTRACT PRICE MISMATCH on order ${orderData.orderNumber}: ${mismatches.join('; ')}`);
+        orderData = { ...orderData, notes: orderData.notes ? `${orderData.notes}\n${flag}` : flag };
+      }
+    }
+
+    // VAT: Record the net/VAT split of every line at the product's rate
+    ({ order: orderData, items } = await this.applyOrderVat(trx, orderData, items));
     
     // Create order within transaction
     const [newOrder] = await trx
@@ -1399,7 +1989,7 @@ export class DatabaseStorage implements IStorage {
         console.log(`📦 ITEM: ${item.productId}, qty: ${item.quantity}, type: ${item.sellingType}`);
         
         // Insert order item
-        await trx.insert(orderItems).values({ ...item, orderId: newOrder.id });
+        const [orderItem] = await trx.insert(orderItems).values({ ...item, orderId: newOrder.id }).returning();
         
         // Get current product info before stock reduction
         const [currentProduct] = await trx
@@ -1438,6 +2028,12 @@ export class DatabaseStorage implements IStorage {
               updatedAt: new Date()
             })
             .where(eq(products.id, item.productId));
+
+          // BATCH TRACKING: Record which lots this line ships from (first-expiry-first-out)
+          await this.allocateStockLots(trx, orderItem);
+
+          // MULTI-WAREHOUSE: Take the stock from the depot the order was allocated to
+          await this.adjustWarehouseStock(trx, item.productId, newOrder.warehouseId, sellingType, -orderedQuantity);
           
           // Record stock movement with proper unit type
           const stockBefore = sellingType === 'pallets' ? (currentProduct.palletStock || 0) : (currentProduct.stock || 0);
@@ -1837,12 +2433,17 @@ export class DatabaseStorage implements IStorage {
       .where(eq(customerGroups.id, id));
   }
 
-  async getGroupMembers(groupId: number): Promise<User[]> {
+  // Only the members of a group the wholesaler owns; none for anyone else's group
+  async getGroupMembers(groupId: number, wholesalerId: string): Promise<User[]> {
     const members = await db
       .select()
       .from(customerGroupMembers)
+      .innerJoin(customerGroups, eq(customerGroupMembers.groupId, customerGroups.id))
       .innerJoin(users, eq(customerGroupMembers.customerId, users.id))
-      .where(eq(customerGroupMembers.groupId, groupId))
+      .where(and(
+        eq(customerGroupMembers.groupId, groupId),
+        eq(customerGroups.wholesalerId, wholesalerId)
+      ))
       .orderBy(users.firstName);
     
     return members.map(member => member.users);
@@ -2273,7 +2874,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(and(
         eq(orders.wholesalerId, wholesalerId),
-        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`
+        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`
       ));
 
     // Get current month stats
@@ -2285,7 +2886,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(and(
         eq(orders.wholesalerId, wholesalerId),
-        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`,
+        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`,
         sql`${orders.createdAt} >= ${currentMonthStart}`
       ));
 
@@ -2298,7 +2899,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(and(
         eq(orders.wholesalerId, wholesalerId),
-        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`,
+        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`,
         sql`${orders.createdAt} >= ${previousMonthStart} AND ${orders.createdAt} < ${currentMonthStart}`
       ));
 
@@ -2359,7 +2960,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(and(
         eq(orders.wholesalerId, wholesalerId),
-        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`,
+        sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`,
         sql`${orders.createdAt} >= ${fromDate} AND ${orders.createdAt} <= ${toDate}`
       ));
 
@@ -2409,7 +3010,7 @@ export class DatabaseStorage implements IStorage {
         eq(products.wholesalerId, wholesalerId),
         or(
           isNull(orders.id), // Products with no orders
-          sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'shipped', 'fulfilled', 'completed')`
+          sql`${orders.status} IN ('confirmed', 'paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')`
         )
       ))
       .groupBy(products.id)
@@ -3299,6 +3900,9 @@ export class DatabaseStorage implements IStorage {
         reason: stockMovements.reason,
         orderId: stockMovements.orderId,
         customerName: stockMovements.customerName,
+        purchaseOrderId: stockMovements.purchaseOrderId,
+        warehouseId: stockMovements.warehouseId,
+        transferId: stockMovements.transferId,
         createdAt: stockMovements.createdAt,
       })
       .from(stockMovements)
@@ -3320,6 +3924,9 @@ export class DatabaseStorage implements IStorage {
         reason: stockMovements.reason,
         orderId: stockMovements.orderId,
         customerName: stockMovements.customerName,
+        purchaseOrderId: stockMovements.purchaseOrderId,
+        warehouseId: stockMovements.warehouseId,
+        transferId: stockMovements.transferId,
         createdAt: stockMovements.createdAt,
         product: products,
       })
@@ -3354,9 +3961,13 @@ export class DatabaseStorage implements IStorage {
     movements.forEach(movement => {
       switch (movement.movementType) {
         case 'purchase':
+        case 'backorder_release':
           totalPurchases += Math.abs(movement.quantity); // purchases are negative
           break;
         case 'manual_increase':
+        case 'order_cancellation':
+        case 'return':
+        case 'purchase_receipt':
           totalIncreases += movement.quantity;
           break;
         case 'manual_decrease':
@@ -3445,14 +4056,16 @@ export class DatabaseStorage implements IStorage {
     return newAlert;
   }
 
-  async getUnresolvedStockAlerts(wholesalerId: string): Promise<(StockAlert & { product: Product })[]> {
+  async getUnresolvedStockAlerts(wholesalerId: string): Promise<(StockAlert & { product: Product; stockLot: StockLot | null })[]> {
     const alerts = await db
       .select({
         alert: stockAlerts,
         product: products,
+        stockLot: stockLots,
       })
       .from(stockAlerts)
       .innerJoin(products, eq(stockAlerts.productId, products.id))
+      .leftJoin(stockLots, eq(stockAlerts.stockLotId, stockLots.id))
       .where(
         and(
           eq(stockAlerts.wholesalerId, wholesalerId),
@@ -3464,6 +4077,7 @@ export class DatabaseStorage implements IStorage {
     return alerts.map(row => ({
       ...row.alert,
       product: row.product,
+      stockLot: row.stockLot,
     }));
   }
 
@@ -3558,7 +4172,8 @@ export class DatabaseStorage implements IStorage {
           and(
             eq(stockAlerts.productId, productId),
             eq(stockAlerts.wholesalerId, wholesalerId),
-            eq(stockAlerts.isResolved, false)
+            eq(stockAlerts.isResolved, false),
+            inArray(stockAlerts.alertType, ['low_stock', 'out_of_stock'])
           )
         )
         .limit(1);
@@ -4737,7 +5352,7 @@ export class DatabaseStorage implements IStorage {
         INNER JOIN orders o ON oi.order_id = o.id
         WHERE oi.product_id = ${productId}
           AND o.created_at >= ${thirtyDaysAgo}
-          AND o.status IN ('paid', 'processing', 'shipped', 'fulfilled', 'completed')
+          AND o.status IN ('paid', 'processing', 'partially_shipped', 'shipped', 'fulfilled', 'completed')
       `);
 
       const totalSold = parseInt(salesData.rows[0]?.total_sold) || 0;
@@ -4918,6 +5533,3608 @@ export class DatabaseStorage implements IStorage {
     return address;
   }
 
+  // Credit account (on-account ordering) operations
+  async getWholesalerCustomerRelationship(customerId: string, wholesalerId: string, trx?: any): Promise<WholesalerCustomerRelationship | undefined> {
+    const query = (trx || db)
+      .select()
+      .from(wholesalerCustomerRelationships)
+      .where(and(
+        eq(wholesalerCustomerRelationships.customerId, customerId),
+        eq(wholesalerCustomerRelationships.wholesalerId, wholesalerId)
+      ))
+      .limit(1);
+
+    // Inside a transaction, lock the row so concurrent credit checks for the same account serialise
+    const [relationship] = trx ? await query.for('update') : await query;
+
+    return relationship;
+  }
+
+  async updateCustomerCreditTerms(customerId: string, wholesalerId: string, terms: { paymentTerms: string; creditLimit: string | null }): Promise<WholesalerCustomerRelationship> {
+    const existing = await this.getWholesalerCustomerRelationship(customerId, wholesalerId);
+
+    if (existing) {
+      const [updated] = await db
+        .update(wholesalerCustomerRelationships)
+        .set({ paymentTerms: terms.paymentTerms, creditLimit: terms.creditLimit, updatedAt: new Date() })
+        .where(eq(wholesalerCustomerRelationships.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(wholesalerCustomerRelationships)
+      .values({
+        customerId,
+        wholesalerId,
+        status: 'active',
+        acceptedAt: new Date(),
+        paymentTerms: terms.paymentTerms,
+        creditLimit: terms.creditLimit,
+      })
+      .returning();
+    return created;
+  }
+
+  // Unpaid account orders less what has been credited back; credit on settled orders counts in the customer's favour
+  async getOutstandingAccountBalance(customerId: string, wholesalerId: string, trx: any = db): Promise<number> {
+    const [result] = await trx
+      .select({
+        balance: sql<string>`COALESCE(SUM(CASE WHEN ${orders.paymentStatus} = 'unpaid' THEN ${orders.total} ELSE 0 END - COALESCE(${orders.accountCredit}, 0)), 0)`
+      })
+      .from(orders)
+      .where(and(
+        eq(orders.retailerId, customerId),
+        eq(orders.wholesalerId, wholesalerId),
+        eq(orders.paymentMethod, 'account'),
+        sql`${orders.status} != 'cancelled'`
+      ));
+
+    return parseFloat(result?.balance || '0');
+  }
+
+  async getUnpaidAccountOrders(wholesalerId: string): Promise<(Order & { retailer: User | null })[]> {
+    const rows = await db
+      .select({ order: orders, retailer: users })
+      .from(orders)
+      .leftJoin(users, eq(orders.retailerId, users.id))
+      .where(and(
+        eq(orders.wholesalerId, wholesalerId),
+        eq(orders.paymentMethod, 'account'),
+        eq(orders.paymentStatus, 'unpaid'),
+        sql`${orders.status} != 'cancelled'`
+      ))
+      .orderBy(orders.createdAt);
+
+    return rows.map(row => ({ ...row.order, retailer: row.retailer }));
+  }
+
+  async markOrderPaid(orderId: number): Promise<Order> {
+    const [updatedOrder] = await db
+      .update(orders)
+      .set({ paymentStatus: 'paid', paidAt: new Date(), updatedAt: new Date() })
+      .where(eq(orders.id, orderId))
+      .returning();
+    return updatedOrder;
+  }
+
+  // An unpaid order credited in full is settled
+  async creditAccountOrder(orderId: number, amount: number): Promise<Order> {
+    const [credited] = await db
+      .update(orders)
+      .set({ accountCredit: sql`COALESCE(${orders.accountCredit}, 0) + ${amount.toFixed(2)}`, updatedAt: new Date() })
+      .where(eq(orders.id, orderId))
+      .returning();
+    if (credited.paymentStatus === 'unpaid' && parseFloat(credited.accountCredit || '0') >= parseFloat(credited.total) - 0.005) {
+      return await this.markOrderPaid(orderId);
+    }
+    return credited;
+  }
+
+
+  // Price list (contract pricing) operations
+  async getPriceLists(wholesalerId: string): Promise<(PriceList & { itemCount: number; assignmentCount: number })[]> {
+    const lists = await db
+      .select({
+        priceList: priceLists,
+        itemCount: sql<number>`(SELECT COUNT(*) FROM ${priceListItems} WHERE ${priceListItems.priceListId} = ${priceLists.id})`,
+        assignmentCount: sql<number>`(SELECT COUNT(*) FROM ${priceListAssignments} WHERE ${priceListAssignments.priceListId} = ${priceLists.id})`
+      })
+      .from(priceLists)
+      .where(eq(priceLists.wholesalerId, wholesalerId))
+      .orderBy(desc(priceLists.createdAt));
+
+    return lists.map(row => ({
+      ...row.priceList,
+      itemCount: Number(row.itemCount),
+      assignmentCount: Number(row.assignmentCount)
+    }));
+  }
+
+  async getPriceList(id: number): Promise<(PriceList & { items: PriceListItem[]; assignments: PriceListAssignment[] }) | undefined> {
+    const [priceList] = await db.select().from(priceLists).where(eq(priceLists.id, id));
+    if (!priceList) return undefined;
+
+    const items = await db.select().from(priceListItems).where(eq(priceListItems.priceListId, id));
+    const assignments = await db.select().from(priceListAssignments).where(eq(priceListAssignments.priceListId, id));
+
+    return { ...priceList, items, assignments };
+  }
+
+  async createPriceList(priceList: InsertPriceList): Promise<PriceList> {
+    const [newPriceList] = await db.insert(priceLists).values(priceList).returning();
+    return newPriceList;
+  }
+
+  async updatePriceList(id: number, updates: Partial<InsertPriceList>): Promise<PriceList> {
+    const [updatedPriceList] = await db
+      .update(priceLists)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(priceLists.id, id))
+      .returning();
+    return updatedPriceList;
+  }
+
+  async deletePriceList(id: number): Promise<void> {
+    const assignments = await db.select().from(priceListAssignments).where(eq(priceListAssignments.priceListId, id));
+    await db.delete(priceLists).where(eq(priceLists.id, id));
+
+    for (const assignment of assignments) {
+      if (assignment.customerId) {
+        await this.syncCustomPricingFlag(assignment.customerId, assignment.wholesalerId);
+      }
+    }
+  }
+
+  async replacePriceListItems(priceListId: number, items: Omit<InsertPriceListItem, 'priceListId'>[]): Promise<PriceListItem[]> {
+    return await db.transaction(async (trx) => {
+      await trx.delete(priceListItems).where(eq(priceListItems.priceListId, priceListId));
+      if (items.length === 0) return [];
+
+      return await trx
+        .insert(priceListItems)
+        .values(items.map(item => ({ ...item, priceListId })))
+        .returning();
+    });
+  }
+
+  async createPriceListAssignment(assignment: InsertPriceListAssignment): Promise<PriceListAssignment> {
+    // A customer or group can only be on one price list per wholesaler - replace any existing assignment
+    await db
+      .delete(priceListAssignments)
+      .where(and(
+        eq(priceListAssignments.wholesalerId, assignment.wholesalerId),
+        assignment.customerId
+          ? eq(priceListAssignments.customerId, assignment.customerId)
+          : eq(priceListAssignments.customerGroupId, assignment.customerGroupId!)
+      ));
+
+    const [newAssignment] = await db.insert(priceListAssignments).values(assignment).returning();
+
+    if (newAssignment.customerId) {
+      await this.syncCustomPricingFlag(newAssignment.customerId, newAssignment.wholesalerId);
+    }
+
+    return newAssignment;
+  }
+
+  async deletePriceListAssignment(id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(priceListAssignments)
+      .where(eq(priceListAssignments.id, id))
+      .returning();
+
+    if (deleted?.customerId) {
+      await this.syncCustomPricingFlag(deleted.customerId, deleted.wholesalerId);
+    }
+  }
+
+  async getPriceListForCustomer(customerId: string, wholesalerId: string, trx: any = db): Promise<(PriceList & { items: PriceListItem[] }) | undefined> {
+    // A direct customer assignment takes precedence over a customer group assignment
+    const [direct] = await trx
+      .select({ priceList: priceLists })
+      .from(priceListAssignments)
+      .innerJoin(priceLists, eq(priceListAssignments.priceListId, priceLists.id))
+      .where(and(
+        eq(priceListAssignments.wholesalerId, wholesalerId),
+        eq(priceListAssignments.customerId, customerId),
+        eq(priceLists.isActive, true)
+      ))
+      .limit(1);
+
+    let priceList: PriceList | undefined = direct?.priceList;
+
+    if (!priceList) {
+      const [viaGroup] = await trx
+        .select({ priceList: priceLists })
+        .from(priceListAssignments)
+        .innerJoin(priceLists, eq(priceListAssignments.priceListId, priceLists.id))
+        .innerJoin(customerGroupMembers, eq(customerGroupMembers.groupId, priceListAssignments.customerGroupId))
+        .where(and(
+          eq(priceListAssignments.wholesalerId, wholesalerId),
+          eq(customerGroupMembers.customerId, customerId),
+          eq(priceLists.isActive, true)
+        ))
+        .orderBy(desc(priceListAssignments.createdAt))
+        .limit(1);
+      priceList = viaGroup?.priceList;
+    }
+
+    if (!priceList) return undefined;
+
+    const items = await trx.select().from(priceListItems).where(eq(priceListItems.priceListId, priceList.id));
+    return { ...priceList, items };
+  }
+
+  // Keep the relationship's customPricing flag in step with direct price list assignments
+  private async syncCustomPricingFlag(customerId: string, wholesalerId: string): Promise<void> {
+    const [assignment] = await db
+      .select({ id: priceListAssignments.id })
+      .from(priceListAssignments)
+      .where(and(
+        eq(priceListAssignments.wholesalerId, wholesalerId),
+        eq(priceListAssignments.customerId, customerId)
+      ))
+      .limit(1);
+
+    await db
+      .update(wholesalerCustomerRelationships)
+      .set({ customPricing: !!assignment, updatedAt: new Date() })
+      .where(and(
+        eq(wholesalerCustomerRelationships.customerId, customerId),
+        eq(wholesalerCustomerRelationships.wholesalerId, wholesalerId)
+      ));
+  }
+
+  // Scheduled campaign dispatch operations
+  // Claims are single UPDATE ... RETURNING statements so only one process can move a
+  // campaign into 'sending'. Campaigns left in 'sending' by a crashed process are
+  // reclaimed once their dispatchStartedAt is older than staleBefore.
+  async claimDueBroadcasts(now: Date, staleBefore: Date): Promise<Broadcast[]> {
+    return await db
+      .update(broadcasts)
+      .set({ status: 'sending', dispatchStartedAt: now, updatedAt: now })
+      .where(or(
+        and(eq(broadcasts.status, 'scheduled'), lte(broadcasts.scheduledAt, now)),
+        and(eq(broadcasts.status, 'sending'), lt(broadcasts.dispatchStartedAt, staleBefore))
+      ))
+      .returning();
+  }
+
+  async claimBroadcast(id: number): Promise<Broadcast | undefined> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(broadcasts)
+      .set({ status: 'sending', dispatchStartedAt: now, updatedAt: now })
+      .where(and(
+        eq(broadcasts.id, id),
+        inArray(broadcasts.status, ['pending', 'draft', 'scheduled'])
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async cancelBroadcast(id: number, wholesalerId: string): Promise<Broadcast | undefined> {
+    const [cancelled] = await db
+      .update(broadcasts)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(
+        eq(broadcasts.id, id),
+        eq(broadcasts.wholesalerId, wholesalerId),
+        eq(broadcasts.status, 'scheduled')
+      ))
+      .returning();
+    return cancelled;
+  }
+
+  async rescheduleBroadcast(id: number, wholesalerId: string, scheduledAt: Date): Promise<Broadcast | undefined> {
+    const [rescheduled] = await db
+      .update(broadcasts)
+      .set({ status: 'scheduled', scheduledAt, updatedAt: new Date() })
+      .where(and(
+        eq(broadcasts.id, id),
+        eq(broadcasts.wholesalerId, wholesalerId),
+        inArray(broadcasts.status, ['scheduled', 'cancelled'])
+      ))
+      .returning();
+    return rescheduled;
+  }
+
+  async getTemplateCampaign(id: number): Promise<TemplateCampaign | undefined> {
+    const [campaign] = await db.select().from(templateCampaigns).where(eq(templateCampaigns.id, id));
+    return campaign;
+  }
+
+  async updateTemplateCampaign(id: number, updates: Partial<InsertTemplateCampaign>): Promise<TemplateCampaign> {
+    const [updated] = await db
+      .update(templateCampaigns)
+      .set(updates)
+      .where(eq(templateCampaigns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async claimDueTemplateCampaigns(now: Date, staleBefore: Date): Promise<TemplateCampaign[]> {
+    return await db
+      .update(templateCampaigns)
+      .set({ status: 'sending', dispatchStartedAt: now })
+      .where(or(
+        and(eq(templateCampaigns.status, 'scheduled'), lte(templateCampaigns.scheduledAt, now)),
+        and(eq(templateCampaigns.status, 'sending'), lt(templateCampaigns.dispatchStartedAt, staleBefore))
+      ))
+      .returning();
+  }
+
+  async claimTemplateCampaign(id: number): Promise<TemplateCampaign | undefined> {
+    const [claimed] = await db
+      .update(templateCampaigns)
+      .set({ status: 'sending', dispatchStartedAt: new Date() })
+      .where(and(
+        eq(templateCampaigns.id, id),
+        inArray(templateCampaigns.status, ['pending', 'scheduled'])
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async cancelTemplateCampaign(id: number, wholesalerId: string): Promise<TemplateCampaign | undefined> {
+    const [cancelled] = await db
+      .update(templateCampaigns)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(templateCampaigns.id, id),
+        eq(templateCampaigns.wholesalerId, wholesalerId),
+        eq(templateCampaigns.status, 'scheduled')
+      ))
+      .returning();
+    return cancelled;
+  }
+
+  async rescheduleTemplateCampaign(id: number, wholesalerId: string, scheduledAt: Date): Promise<TemplateCampaign | undefined> {
+    const [rescheduled] = await db
+      .update(templateCampaigns)
+      .set({ status: 'scheduled', scheduledAt })
+      .where(and(
+        eq(templateCampaigns.id, id),
+        eq(templateCampaigns.wholesalerId, wholesalerId),
+        inArray(templateCampaigns.status, ['scheduled', 'cancelled'])
+      ))
+      .returning();
+    return rescheduled;
+  }
+
+  async getCampaignDeliveryLog(campaignType: string, campaignId: number): Promise<(CampaignRecipient & { customer: User | null })[]> {
+    const rows = await db
+      .select()
+      .from(campaignRecipients)
+      .leftJoin(users, eq(campaignRecipients.customerId, users.id))
+      .where(and(
+        eq(campaignRecipients.campaignType, campaignType),
+        eq(campaignRecipients.campaignId, campaignId)
+      ))
+      .orderBy(campaignRecipients.createdAt);
+
+    return rows.map(row => ({ ...row.campaign_recipients, customer: row.users }));
+  }
+
+  // Returns undefined when this recipient has already been attempted for the campaign
+  async startCampaignRecipient(recipient: InsertCampaignRecipient): Promise<CampaignRecipient | undefined> {
+    const [created] = await db
+      .insert(campaignRecipients)
+      .values({ ...recipient, status: 'sending' })
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient> {
+    const [updated] = await db
+      .update(campaignRecipients)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(campaignRecipients.id, id))
+      .returning();
+    return updated;
+  }
+
+  // A recipient left in 'sending' may or may not have received the message, so it is
+  // marked failed rather than retried
+  async failInterruptedCampaignRecipients(campaignType: string, campaignId: number): Promise<number> {
+    const interrupted = await db
+      .update(campaignRecipients)
+      .set({ status: 'failed', errorMessage: 'Dispatch interrupted before delivery was confirmed', updatedAt: new Date() })
+      .where(and(
+        eq(campaignRecipients.campaignType, campaignType),
+        eq(campaignRecipients.campaignId, campaignId),
+        eq(campaignRecipients.status, 'sending')
+      ))
+      .returning({ id: campaignRecipients.id });
+    return interrupted.length;
+  }
+
+  // Partial fulfilment and shipment operations
+  async getOrderShipments(orderId: number): Promise<(OrderShipment & { items: OrderShipmentItem[] })[]> {
+    const shipments = await db
+      .select()
+      .from(orderShipments)
+      .where(eq(orderShipments.orderId, orderId))
+      .orderBy(orderShipments.shipmentNumber);
+
+    if (shipments.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(orderShipmentItems)
+      .where(inArray(orderShipmentItems.shipmentId, shipments.map(s => s.id)));
+
+    return shipments.map(shipment => ({
+      ...shipment,
+      items: items.filter(item => item.shipmentId === shipment.id)
+    }));
+  }
+
+  async getOrderShipment(id: number): Promise<OrderShipment | undefined> {
+    const [shipment] = await db.select().from(orderShipments).where(eq(orderShipments.id, id));
+    return shipment;
+  }
+
+  async createOrderShipment(
+    orderId: number,
+    shipment: Omit<InsertOrderShipment, 'orderId' | 'shipmentNumber'>,
+    lines: { orderItemId: number; quantity: number }[]
+  ): Promise<OrderShipment & { items: OrderShipmentItem[] }> {
+    return await db.transaction(async (trx) => {
+      // Lock the order lines so concurrent shipments can't both ship the same stock
+      const items = await trx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId))
+        .for('update');
+
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.orderItemId);
+        if (!item) {
+          throw new Error(`Order item ${line.orderItemId} does not belong to order ${orderId}`);
+        }
+        const outstanding = getOutstandingQuantity(item);
+        if (!Number.isInteger(line.quantity) || line.quantity <= 0 || line.quantity > outstanding) {
+          throw new Error(`Cannot ship ${line.quantity} of order item ${item.id}: ${outstanding} outstanding`);
+        }
+      }
+
+      const [{ shipmentCount }] = await trx
+        .select({ shipmentCount: count(orderShipments.id) })
+        .from(orderShipments)
+        .where(eq(orderShipments.orderId, orderId));
+
+      const [created] = await trx
+        .insert(orderShipments)
+        .values({ ...shipment, orderId, shipmentNumber: Number(shipmentCount) + 1 })
+        .returning();
+
+      const shipmentItems = await trx
+        .insert(orderShipmentItems)
+        .values(lines.map(line => ({ shipmentId: created.id, orderItemId: line.orderItemId, quantity: line.quantity })))
+        .returning();
+
+      for (const line of lines) {
+        await trx
+          .update(orderItems)
+          .set({ fulfilledQuantity: sql`${orderItems.fulfilledQuantity} + ${line.quantity}` })
+          .where(eq(orderItems.id, line.orderItemId));
+      }
+
+      // Keep the order-level tracking fields pointing at the latest shipment for existing screens
+      const trackingUpdates: Partial<Order> = {};
+      if (created.trackingNumber) trackingUpdates.deliveryTrackingNumber = created.trackingNumber;
+      if (created.carrier) trackingUpdates.deliveryCarrier = created.carrier;
+      if (created.shippingOrderId) {
+        trackingUpdates.shippingOrderId = created.shippingOrderId;
+        trackingUpdates.shippingHash = created.shippingHash;
+      }
+      await this.syncOrderFulfilmentStatus(trx, orderId, trackingUpdates);
+
+      return { ...created, items: shipmentItems };
+    });
+  }
+
+  async updateOrderShipment(id: number, updates: Partial<InsertOrderShipment>): Promise<OrderShipment> {
+    const [updated] = await db
+      .update(orderShipments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(orderShipments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async adjustOrderItemFulfilment(
+    orderId: number,
+    lines: { orderItemId: number; backorderQuantity?: number; cancelQuantity?: number }[]
+  ): Promise<OrderItem[]> {
+    return await db.transaction(async (trx) => {
+      const [order] = await trx.select().from(orders).where(eq(orders.id, orderId));
+      const items = await trx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId))
+        .for('update');
+
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.orderItemId);
+        if (!item) {
+          throw new Error(`Order item ${line.orderItemId} does not belong to order ${orderId}`);
+        }
+
+        const backorder = line.backorderQuantity || 0;
+        const cancel = line.cancelQuantity || 0;
+        const outstanding = getOutstandingQuantity(item);
+
+        if (backorder < 0 || cancel < 0 || !Number.isInteger(backorder) || !Number.isInteger(cancel)) {
+          throw new Error(`Quantities for order item ${item.id} must be positive whole numbers`);
+        }
+        if (backorder > outstanding) {
+          throw new Error(`Cannot backorder ${backorder} of order item ${item.id}: ${outstanding} outstanding`);
+        }
+
+        // Cancelling takes from the backorder first; only cancelled in-stock units go back on the shelf
+        const backorderedAfter = item.backorderedQuantity + backorder;
+        const cancelFromBackorder = Math.min(cancel, backorderedAfter);
+        const cancelFromStock = cancel - cancelFromBackorder;
+        if (cancelFromStock > outstanding - backorder) {
+          throw new Error(`Cannot cancel ${cancel} of order item ${item.id}: only ${outstanding + item.backorderedQuantity} unshipped`);
+        }
+
+        await trx
+          .update(orderItems)
+          .set({
+            backorderedQuantity: backorderedAfter - cancelFromBackorder,
+            cancelledQuantity: item.cancelledQuantity + cancel
+          })
+          .where(eq(orderItems.id, item.id));
+
+        if (cancelFromStock > 0) {
+          const [product] = await trx.select().from(products).where(eq(products.id, item.productId)).for('update');
+          if (product) {
+            const isPallets = item.sellingType === 'pallets';
+            const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+            const stockAfter = stockBefore + cancelFromStock;
+
+            await trx
+              .update(products)
+              .set(isPallets ? { palletStock: stockAfter, updatedAt: new Date() } : { stock: stockAfter, updatedAt: new Date() })
+              .where(eq(products.id, product.id));
+
+            await trx.insert(stockMovements).values({
+              productId: product.id,
+              wholesalerId: product.wholesalerId,
+              movementType: 'order_cancellation',
+              quantity: cancelFromStock,
+              unitType: isPallets ? 'pallets' : 'units',
+              stockBefore,
+              stockAfter,
+              reason: `Cancelled on order ${order?.orderNumber || orderId}`,
+              orderId,
+              customerName: order?.customerName || null
+            });
+
+            await this.releaseStockLots(trx, item.id, cancelFromStock);
+            await this.adjustWarehouseStock(trx, product.id, order?.warehouseId, item.sellingType, cancelFromStock);
+          }
+        }
+      }
+
+      await this.syncOrderFulfilmentStatus(trx, orderId);
+
+      return await trx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    });
+  }
+
+  async getBackorderedItems(wholesalerId: string): Promise<(OrderItem & { product: Product; order: Order })[]> {
+    const rows = await db
+      .select()
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(and(
+        eq(orders.wholesalerId, wholesalerId),
+        sql`${orderItems.backorderedQuantity} > 0`
+      ))
+      .orderBy(orders.createdAt);
+
+    return rows.map(row => ({ ...row.order_items, product: row.products, order: row.orders }));
+  }
+
+  async releaseBackorders(productId: number): Promise<{ orderId: number; orderNumber: string; orderItemId: number; quantity: number }[]> {
+    return await db.transaction(async (trx) => {
+      const [product] = await trx.select().from(products).where(eq(products.id, productId)).for('update');
+      if (!product) return [];
+
+      // Oldest orders are served first
+      const waiting = await trx
+        .select({ item: orderItems, order: orders })
+        .from(orderItems)
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .where(and(
+          eq(orderItems.productId, productId),
+          sql`${orderItems.backorderedQuantity} > 0`,
+          sql`${orders.status} <> 'cancelled'`
+        ))
+        .orderBy(orders.createdAt, orderItems.id)
+        .for('update');
+
+      let unitStock = product.stock;
+      let palletStock = product.palletStock || 0;
+      const releases: { orderId: number; orderNumber: string; orderItemId: number; quantity: number }[] = [];
+
+      for (const { item, order } of waiting) {
+        const isPallets = item.sellingType === 'pallets';
+        const available = isPallets ? palletStock : unitStock;
+        // Only what the order's depot holds can go out from it
+        const depotStock = await this.getDepotStock(trx, productId, order.warehouseId, item.sellingType);
+        const quantity = Math.min(item.backorderedQuantity, available, depotStock ?? available);
+        if (quantity <= 0) continue;
+
+        const stockAfter = available - quantity;
+        if (isPallets) palletStock = stockAfter; else unitStock = stockAfter;
+
+        await trx
+          .update(orderItems)
+          .set({ backorderedQuantity: item.backorderedQuantity - quantity })
+          .where(eq(orderItems.id, item.id));
+
+        await trx.insert(stockMovements).values({
+          productId,
+          wholesalerId: product.wholesalerId,
+          movementType: 'backorder_release',
+          quantity: -quantity,
+          unitType: isPallets ? 'pallets' : 'units',
+          stockBefore: available,
+          stockAfter,
+          reason: `Backorder released to order ${order.orderNumber}`,
+          orderId: order.id,
+          customerName: order.customerName
+        });
+
+        await this.allocateStockLots(trx, { ...item, quantity });
+        await this.adjustWarehouseStock(trx, productId, order.warehouseId, item.sellingType, -quantity);
+
+        releases.push({ orderId: order.id, orderNumber: order.orderNumber, orderItemId: item.id, quantity });
+      }
+
+      if (releases.length > 0) {
+        await trx
+          .update(products)
+          .set({ stock: unitStock, palletStock, updatedAt: new Date() })
+          .where(eq(products.id, productId));
+      }
+
+      return releases;
+    });
+  }
+
+  // Return (RMA) operations
+  async createReturnRequest(
+    request: Omit<InsertReturnRequest, 'returnNumber'>,
+    items: Omit<InsertReturnRequestItem, 'returnRequestId'>[],
+    orderNumber: string
+  ): Promise<ReturnRequest & { items: ReturnRequestItem[] }> {
+    return await db.transaction(async (trx) => {
+      const [{ returnCount }] = await trx
+        .select({ returnCount: count(returnRequests.id) })
+        .from(returnRequests)
+        .where(eq(returnRequests.orderId, request.orderId));
+
+      const [created] = await trx
+        .insert(returnRequests)
+        .values({ ...request, returnNumber: `${orderNumber}-R${Number(returnCount) + 1}` })
+        .returning();
+
+      const createdItems = await trx
+        .insert(returnRequestItems)
+        .values(items.map(item => ({ ...item, returnRequestId: created.id })))
+        .returning();
+
+      return { ...created, items: createdItems };
+    });
+  }
+
+  async getReturnRequest(id: number): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[]; orderNumber: string; customerName: string | null }) | undefined> {
+    const [row] = await db
+      .select({ returnRequest: returnRequests, orderNumber: orders.orderNumber, customerName: orders.customerName })
+      .from(returnRequests)
+      .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+      .where(eq(returnRequests.id, id));
+
+    if (!row) return undefined;
+
+    const items = await this.getReturnRequestItems([id]);
+    return { ...row.returnRequest, orderNumber: row.orderNumber, customerName: row.customerName, items };
+  }
+
+  async getReturnRequests(wholesalerId: string, status?: string): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[]; orderNumber: string; customerName: string | null })[]> {
+    const conditions = [eq(returnRequests.wholesalerId, wholesalerId)];
+    if (status) conditions.push(eq(returnRequests.status, status));
+
+    const rows = await db
+      .select({ returnRequest: returnRequests, orderNumber: orders.orderNumber, customerName: orders.customerName })
+      .from(returnRequests)
+      .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+      .where(and(...conditions))
+      .orderBy(desc(returnRequests.createdAt));
+
+    if (rows.length === 0) return [];
+
+    const items = await this.getReturnRequestItems(rows.map(row => row.returnRequest.id));
+    return rows.map(row => ({
+      ...row.returnRequest,
+      orderNumber: row.orderNumber,
+      customerName: row.customerName,
+      items: items.filter(item => item.returnRequestId === row.returnRequest.id)
+    }));
+  }
+
+  async getOrderReturnRequests(orderId: number): Promise<(ReturnRequest & { items: (ReturnRequestItem & { productName: string | null })[] })[]> {
+    const requests = await db
+      .select()
+      .from(returnRequests)
+      .where(eq(returnRequests.orderId, orderId))
+      .orderBy(desc(returnRequests.createdAt));
+
+    if (requests.length === 0) return [];
+
+    const items = await this.getReturnRequestItems(requests.map(r => r.id));
+    return requests.map(request => ({
+      ...request,
+      items: items.filter(item => item.returnRequestId === request.id)
+    }));
+  }
+
+  async getReturnedQuantities(orderId: number): Promise<Record<number, number>> {
+    // Anything on a live return (or accepted at inspection) can't be returned again
+    const rows = await db
+      .select({
+        orderItemId: returnRequestItems.orderItemId,
+        quantity: sql<number>`COALESCE(SUM(${returnRequestItems.quantity}), 0)`
+      })
+      .from(returnRequestItems)
+      .innerJoin(returnRequests, eq(returnRequestItems.returnRequestId, returnRequests.id))
+      .where(and(
+        eq(returnRequests.orderId, orderId),
+        sql`${returnRequests.status} <> 'rejected'`,
+        sql`${returnRequestItems.outcome} <> 'rejected'`
+      ))
+      .groupBy(returnRequestItems.orderItemId);
+
+    const returned: Record<number, number> = {};
+    for (const row of rows) {
+      returned[row.orderItemId] = Number(row.quantity);
+    }
+    return returned;
+  }
+
+  async updateReturnRequest(id: number, updates: Partial<InsertReturnRequest>): Promise<ReturnRequest> {
+    const [updated] = await db
+      .update(returnRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(returnRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Move a return between statuses only if it is still in the expected one, so two requests can't both act on it
+  async transitionReturnRequest(id: number, from: ReturnStatus, to: ReturnStatus): Promise<ReturnRequest | undefined> {
+    const [updated] = await db
+      .update(returnRequests)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(returnRequests.id, id), eq(returnRequests.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async inspectReturnRequest(
+    id: number,
+    outcomes: { itemId: number; outcome: 'restock' | 'write_off' | 'rejected'; notes?: string }[]
+  ): Promise<{ returnRequest: ReturnRequest; restockedProductIds: number[] }> {
+    return await db.transaction(async (trx) => {
+      // Lock the return so a double-submitted inspection can't restock twice
+      const [returnRequest] = await trx.select().from(returnRequests).where(eq(returnRequests.id, id)).for('update');
+      if (!returnRequest || returnRequest.status !== 'received') {
+        throw new Error('Only received returns can be inspected');
+      }
+
+      const [order] = await trx.select().from(orders).where(eq(orders.id, returnRequest.orderId));
+      const items = await trx.select().from(returnRequestItems).where(eq(returnRequestItems.returnRequestId, id));
+
+      const missing = items.filter(item => !outcomes.some(o => o.itemId === item.id));
+      if (missing.length > 0) {
+        throw new Error('Every returned line needs an inspection outcome');
+      }
+
+      const restockedProductIds: number[] = [];
+      const inspectedItems: ReturnRequestItem[] = [];
+
+      for (const item of items) {
+        const result = outcomes.find(o => o.itemId === item.id)!;
+
+        const [inspected] = await trx
+          .update(returnRequestItems)
+          .set({ outcome: result.outcome, inspectionNotes: result.notes || null })
+          .where(eq(returnRequestItems.id, item.id))
+          .returning();
+        inspectedItems.push(inspected);
+
+        if (result.outcome !== 'restock') continue;
+
+        const [product] = await trx.select().from(products).where(eq(products.id, item.productId)).for('update');
+        if (!product) continue;
+
+        const isPallets = item.sellingType === 'pallets';
+        const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+        const stockAfter = stockBefore + item.quantity;
+
+        await trx
+          .update(products)
+          .set(isPallets ? { palletStock: stockAfter, updatedAt: new Date() } : { stock: stockAfter, updatedAt: new Date() })
+          .where(eq(products.id, product.id));
+
+        await trx.insert(stockMovements).values({
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'return',
+          quantity: item.quantity,
+          unitType: isPallets ? 'pallets' : 'units',
+          stockBefore,
+          stockAfter,
+          reason: `Returned on ${returnRequest.returnNumber}`,
+          orderId: returnRequest.orderId,
+          customerName: order?.customerName || null
+        });
+
+        await this.releaseStockLots(trx, item.orderItemId, item.quantity);
+        await this.adjustWarehouseStock(trx, product.id, order?.warehouseId, item.sellingType, item.quantity);
+
+        restockedProductIds.push(product.id);
+      }
+
+      const refundAmount = calculateReturnRefund(inspectedItems);
+      const allRejected = !inspectedItems.some(isAcceptedReturnLine);
+
+      const [updated] = await trx
+        .update(returnRequests)
+        .set({
+          status: allRejected ? 'rejected' : 'inspected',
+          refundAmount: refundAmount.toFixed(2),
+          inspectedAt: new Date(),
+          rejectedAt: allRejected ? new Date() : null,
+          updatedAt: new Date()
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+
+      return { returnRequest: updated, restockedProductIds };
+    });
+  }
+
+  private async getReturnRequestItems(returnRequestIds: number[]): Promise<(ReturnRequestItem & { productName: string | null })[]> {
+    const rows = await db
+      .select({ item: returnRequestItems, productName: products.name })
+      .from(returnRequestItems)
+      .leftJoin(products, eq(returnRequestItems.productId, products.id))
+      .where(inArray(returnRequestItems.returnRequestId, returnRequestIds))
+      .orderBy(returnRequestItems.id);
+
+    return rows.map(row => ({ ...row.item, productName: row.productName }));
+  }
+
+  // Negotiation inbox operations
+  async getWholesalerNegotiations(wholesalerId: string, status?: string): Promise<NegotiationThread[]> {
+    const conditions = [eq(products.wholesalerId, wholesalerId)];
+    if (status) conditions.push(eq(negotiations.status, status));
+    return await this.getNegotiationThreads(and(...conditions));
+  }
+
+  async getRetailerNegotiations(retailerId: string, wholesalerId: string): Promise<NegotiationThread[]> {
+    return await this.getNegotiationThreads(and(
+      eq(negotiations.retailerId, retailerId),
+      eq(products.wholesalerId, wholesalerId)
+    ));
+  }
+
+  async getNegotiationThread(id: number): Promise<NegotiationThread | undefined> {
+    const [thread] = await this.getNegotiationThreads(eq(negotiations.id, id));
+    return thread;
+  }
+
+  async addNegotiationMessage(message: InsertNegotiationMessage): Promise<NegotiationMessage> {
+    const [created] = await db.insert(negotiationMessages).values(message).returning();
+    return created;
+  }
+
+  // Moves a negotiation on only if nobody else has since - returns undefined when the status has changed underneath us
+  async transitionNegotiation(
+    id: number,
+    fromStatuses: string[],
+    updates: Partial<Negotiation>,
+    message: Omit<InsertNegotiationMessage, 'negotiationId'>
+  ): Promise<Negotiation | undefined> {
+    return await db.transaction(async (trx) => {
+      const [updated] = await trx
+        .update(negotiations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(negotiations.id, id), inArray(negotiations.status, fromStatuses)))
+        .returning();
+
+      if (!updated) return undefined;
+
+      await trx.insert(negotiationMessages).values({ ...message, negotiationId: id });
+      return updated;
+    });
+  }
+
+  async expireNegotiations(now: Date): Promise<Negotiation[]> {
+    return await db.transaction(async (trx) => {
+      const expired = await trx
+        .update(negotiations)
+        .set({ status: 'expired', updatedAt: now })
+        .where(and(
+          inArray(negotiations.status, ['pending', 'countered', 'accepted']),
+          lt(negotiations.expiresAt, now)
+        ))
+        .returning();
+
+      if (expired.length > 0) {
+        await trx.insert(negotiationMessages).values(expired.map(negotiation => ({
+          negotiationId: negotiation.id,
+          senderRole: 'system',
+          action: 'expire'
+        })));
+      }
+
+      return expired;
+    });
+  }
+
+  async markNegotiationOrdered(id: number, orderId: number, trx: any = db): Promise<Negotiation | undefined> {
+    // Concurrent checkouts of the same negotiation queue here until the first transaction ends
+    await trx.execute(sql`select pg_advisory_xact_lock(hashtext(${`negotiation_${id}`}))`);
+    const [updated] = await trx
+      .update(negotiations)
+      .set({ status: 'ordered', orderId, updatedAt: new Date() })
+      .where(and(eq(negotiations.id, id), eq(negotiations.status, 'accepted')))
+      .returning();
+    return updated;
+  }
+
+  // Supplier and purchase order operations
+  async getSuppliers(wholesalerId: string): Promise<Supplier[]> {
+    return await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.wholesalerId, wholesalerId))
+      .orderBy(suppliers.name);
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [created] = await db.insert(suppliers).values(supplier).returning();
+    return created;
+  }
+
+  async updateSupplier(id: number, updates: Partial<InsertSupplier>): Promise<Supplier> {
+    const [updated] = await db
+      .update(suppliers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPurchaseOrders(wholesalerId: string, status?: string): Promise<(PurchaseOrder & { supplierName: string; items: (PurchaseOrderItem & { productName: string | null })[] })[]> {
+    const conditions = [eq(purchaseOrders.wholesalerId, wholesalerId)];
+    if (status) conditions.push(eq(purchaseOrders.status, status));
+
+    const rows = await db
+      .select({ purchaseOrder: purchaseOrders, supplierName: suppliers.name })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    if (rows.length === 0) return [];
+
+    const items = await this.getPurchaseOrderItems(rows.map(row => row.purchaseOrder.id));
+    return rows.map(row => ({
+      ...row.purchaseOrder,
+      supplierName: row.supplierName,
+      items: items.filter(item => item.purchaseOrderId === row.purchaseOrder.id)
+    }));
+  }
+
+  async getPurchaseOrder(id: number): Promise<(PurchaseOrder & { supplierName: string; items: (PurchaseOrderItem & { productName: string | null })[] }) | undefined> {
+    const [row] = await db
+      .select({ purchaseOrder: purchaseOrders, supplierName: suppliers.name })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.id, id));
+
+    if (!row) return undefined;
+
+    const items = await this.getPurchaseOrderItems([id]);
+    return { ...row.purchaseOrder, supplierName: row.supplierName, items };
+  }
+
+  async createPurchaseOrder(
+    purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber' | 'totalCost'>,
+    items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]
+  ): Promise<PurchaseOrder & { items: PurchaseOrderItem[] }> {
+    return await db.transaction(async (trx) => {
+      const [{ poCount }] = await trx
+        .select({ poCount: count(purchaseOrders.id) })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.wholesalerId, purchaseOrder.wholesalerId));
+
+      const [created] = await trx
+        .insert(purchaseOrders)
+        .values({
+          ...purchaseOrder,
+          poNumber: `PO-${String(Number(poCount) + 1).padStart(4, '0')}`,
+          totalCost: calculatePurchaseOrderTotal(items).toFixed(2)
+        })
+        .returning();
+
+      const createdItems = await trx
+        .insert(purchaseOrderItems)
+        .values(items.map(item => ({ ...item, purchaseOrderId: created.id })))
+        .returning();
+
+      return { ...created, items: createdItems };
+    });
+  }
+
+  async updatePurchaseOrder(id: number, updates: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder> {
+    const [updated] = await db
+      .update(purchaseOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  }
+
+  async receivePurchaseOrder(
+    id: number,
+    lines: { itemId: number; quantity: number; batchCode?: string | null; expiryDate?: Date | null }[]
+  ): Promise<{ purchaseOrder: PurchaseOrder; receivedProductIds: number[] }> {
+    return await db.transaction(async (trx) => {
+      // Lock the purchase order so a double-submitted receipt can't book stock twice
+      const [purchaseOrder] = await trx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!purchaseOrder || !['ordered', 'partially_received'].includes(purchaseOrder.status)) {
+        throw new Error('Only ordered purchase orders can be received');
+      }
+
+      const items = await trx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const receivedProductIds: number[] = [];
+
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) {
+          throw new Error(`Purchase order line ${line.itemId} does not belong to this purchase order`);
+        }
+        const outstanding = getOutstandingReceiptQuantity(item);
+        if (!Number.isInteger(line.quantity) || line.quantity <= 0 || line.quantity > outstanding) {
+          throw new Error(`Only ${outstanding} can be received on this line`);
+        }
+
+        const [product] = await trx.select().from(products).where(eq(products.id, item.productId)).for('update');
+        if (!product) continue;
+
+        const isPallets = item.unitType === 'pallets';
+        const inventoryData = {
+          stock: product.stock,
+          palletStock: product.palletStock || 0,
+          baseUnitStock: product.baseUnitStock,
+          quantityInPack: product.quantityInPack || 1,
+          unitsPerPallet: product.unitsPerPallet || 1
+        };
+        const receivedBaseUnits = InventoryCalculator.calculateOrderDecrement(line.quantity, isPallets ? 'pallets' : 'units', inventoryData).baseUnitsToSubtract;
+        const onHandBaseUnits = product.stock + InventoryCalculator.calculateOrderDecrement(product.palletStock || 0, 'pallets', inventoryData).baseUnitsToSubtract;
+
+        const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+        const stockAfter = stockBefore + line.quantity;
+
+        const [updatedProduct] = await trx
+          .update(products)
+          .set({
+            ...(isPallets ? { palletStock: stockAfter } : { stock: stockAfter }),
+            baseUnitStock: product.baseUnitStock + receivedBaseUnits,
+            updatedAt: new Date()
+          })
+          .where(eq(products.id, product.id))
+          .returning();
+
+        await trx.insert(stockMovements).values({
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'purchase_receipt',
+          quantity: line.quantity,
+          unitType: isPallets ? 'pallets' : 'units',
+          stockBefore,
+          stockAfter,
+          reason: `Received on ${purchaseOrder.poNumber}`,
+          orderId: null,
+          customerName: null,
+          purchaseOrderId: purchaseOrder.id
+        });
+
+        await this.adjustWarehouseStock(trx, product.id, purchaseOrder.warehouseId, item.unitType, line.quantity);
+
+        // Every delivery becomes a lot so it can be sold first-expiry-first-out
+        const receivedAt = new Date();
+        await trx.insert(stockLots).values({
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          batchCode: line.batchCode?.trim() || `${purchaseOrder.poNumber}-${item.id}`,
+          expiryDate: line.expiryDate || getDefaultLotExpiry(receivedAt, product.shelfLife),
+          unitType: isPallets ? 'pallets' : 'units',
+          quantityReceived: line.quantity,
+          quantityRemaining: line.quantity,
+          purchaseOrderId: purchaseOrder.id,
+          receivedAt
+        });
+
+        await trx
+          .update(purchaseOrderItems)
+          .set({ receivedQuantity: (item.receivedQuantity || 0) + line.quantity })
+          .where(eq(purchaseOrderItems.id, item.id));
+        item.receivedQuantity = (item.receivedQuantity || 0) + line.quantity;
+
+        const receivedCostPerBaseUnit = (parseFloat(item.unitCost) * line.quantity) / receivedBaseUnits;
+        await this.recordPurchaseCost(trx, updatedProduct, onHandBaseUnits, receivedBaseUnits, receivedCostPerBaseUnit);
+
+        receivedProductIds.push(product.id);
+      }
+
+      const fullyReceived = items.every(item => getOutstandingReceiptQuantity(item) === 0);
+      const [updated] = await trx
+        .update(purchaseOrders)
+        .set({
+          status: fullyReceived ? 'received' : 'partially_received',
+          receivedAt: fullyReceived ? new Date() : null,
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      return { purchaseOrder: updated, receivedProductIds };
+    });
+  }
+
+  // Batch/lot operations
+  async getStockLots(
+    wholesalerId: string,
+    options: { productId?: number; includeEmpty?: boolean } = {}
+  ): Promise<(StockLot & { productName: string })[]> {
+    const conditions = [eq(stockLots.wholesalerId, wholesalerId)];
+    if (options.productId) conditions.push(eq(stockLots.productId, options.productId));
+    if (!options.includeEmpty) conditions.push(sql`${stockLots.quantityRemaining} > 0`);
+
+    const rows = await db
+      .select({ lot: stockLots, productName: products.name })
+      .from(stockLots)
+      .innerJoin(products, eq(stockLots.productId, products.id))
+      .where(and(...conditions));
+
+    return sortLotsFefo(rows.map(row => ({ ...row.lot, productName: row.productName })));
+  }
+
+  async getStockLot(id: number): Promise<StockLot | undefined> {
+    const [lot] = await db.select().from(stockLots).where(eq(stockLots.id, id));
+    return lot;
+  }
+
+  async createStockLot(lot: InsertStockLot, addToStock: boolean): Promise<StockLot> {
+    return await db.transaction(async (trx) => {
+      const [product] = await trx.select().from(products).where(eq(products.id, lot.productId)).for('update');
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const isPallets = lot.unitType === 'pallets';
+      const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+
+      if (addToStock) {
+        const stockAfter = stockBefore + lot.quantityReceived;
+        const addedBaseUnits = InventoryCalculator.calculateOrderDecrement(lot.quantityReceived, isPallets ? 'pallets' : 'units', {
+          stock: product.stock,
+          palletStock: product.palletStock || 0,
+          quantityInPack: product.quantityInPack || 1,
+          unitsPerPallet: product.unitsPerPallet || 1
+        }).baseUnitsToSubtract;
+
+        await trx
+          .update(products)
+          .set({
+            ...(isPallets ? { palletStock: stockAfter } : { stock: stockAfter }),
+            baseUnitStock: product.baseUnitStock + addedBaseUnits,
+            updatedAt: new Date()
+          })
+          .where(eq(products.id, product.id));
+
+        await trx.insert(stockMovements).values({
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'manual_increase',
+          quantity: lot.quantityReceived,
+          unitType: isPallets ? 'pallets' : 'units',
+          stockBefore,
+          stockAfter,
+          reason: `Batch ${lot.batchCode} booked in`,
+          orderId: null,
+          customerName: null
+        });
+      } else {
+        // Labelling stock already on the shelf - lots can't add up to more than we hold
+        const [{ onLots }] = await trx
+          .select({ onLots: sql<number>`coalesce(sum(${stockLots.quantityRemaining}), 0)` })
+          .from(stockLots)
+          .where(and(eq(stockLots.productId, product.id), eq(stockLots.unitType, isPallets ? 'pallets' : 'units')));
+        const untracked = stockBefore - Number(onLots);
+        if (lot.quantityReceived > untracked) {
+          throw new Error(`Only ${Math.max(0, untracked)} ${isPallets ? 'pallets' : 'units'} of ${product.name} are not already on a batch`);
+        }
+      }
+
+      const [created] = await trx.insert(stockLots).values(lot).returning();
+      return created;
+    });
+  }
+
+  async writeOffStockLot(id: number, quantity: number, reason: string): Promise<StockLot> {
+    return await db.transaction(async (trx) => {
+      const [lot] = await trx.select().from(stockLots).where(eq(stockLots.id, id)).for('update');
+      if (!lot) {
+        throw new Error('Batch not found');
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0 || quantity > lot.quantityRemaining) {
+        throw new Error(`Only ${lot.quantityRemaining} can be written off from batch ${lot.batchCode}`);
+      }
+
+      const [product] = await trx.select().from(products).where(eq(products.id, lot.productId)).for('update');
+      if (product) {
+        const isPallets = lot.unitType === 'pallets';
+        const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+        const stockAfter = Math.max(0, stockBefore - quantity);
+        const removedBaseUnits = InventoryCalculator.calculateOrderDecrement(quantity, isPallets ? 'pallets' : 'units', {
+          stock: product.stock,
+          palletStock: product.palletStock || 0,
+          quantityInPack: product.quantityInPack || 1,
+          unitsPerPallet: product.unitsPerPallet || 1
+        }).baseUnitsToSubtract;
+
+        await trx
+          .update(products)
+          .set({
+            ...(isPallets ? { palletStock: stockAfter } : { stock: stockAfter }),
+            baseUnitStock: Math.max(0, product.baseUnitStock - removedBaseUnits),
+            updatedAt: new Date()
+          })
+          .where(eq(products.id, product.id));
+
+        await trx.insert(stockMovements).values({
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'expiry_write_off',
+          quantity: -quantity,
+          unitType: isPallets ? 'pallets' : 'units',
+          stockBefore,
+          stockAfter,
+          reason: `Batch ${lot.batchCode} written off - ${reason}`,
+          orderId: null,
+          customerName: null
+        });
+      }
+
+      const quantityRemaining = lot.quantityRemaining - quantity;
+      const [updated] = await trx
+        .update(stockLots)
+        .set({ quantityRemaining, writtenOffAt: quantityRemaining === 0 ? new Date() : null })
+        .where(eq(stockLots.id, id))
+        .returning();
+
+      if (quantityRemaining === 0) {
+        await trx
+          .update(stockAlerts)
+          .set({ isResolved: true, resolvedAt: new Date() })
+          .where(and(eq(stockAlerts.stockLotId, id), eq(stockAlerts.isResolved, false)));
+      }
+
+      return updated;
+    });
+  }
+
+  async getStockLotAllocations(
+    stockLotId: number
+  ): Promise<(OrderItemLot & { orderNumber: string; customerName: string | null; customerEmail: string | null; orderDate: Date | null })[]> {
+    const rows = await db
+      .select({
+        allocation: orderItemLots,
+        orderNumber: orders.orderNumber,
+        customerName: orders.customerName,
+        customerEmail: orders.customerEmail,
+        orderDate: orders.createdAt
+      })
+      .from(orderItemLots)
+      .innerJoin(orders, eq(orderItemLots.orderId, orders.id))
+      .where(eq(orderItemLots.stockLotId, stockLotId))
+      .orderBy(orders.createdAt);
+
+    return rows.map(row => ({
+      ...row.allocation,
+      orderNumber: row.orderNumber,
+      customerName: row.customerName,
+      customerEmail: row.customerEmail,
+      orderDate: row.orderDate
+    }));
+  }
+
+  async getOrderItemLots(orderId: number): Promise<OrderItemLot[]> {
+    return await db
+      .select()
+      .from(orderItemLots)
+      .where(eq(orderItemLots.orderId, orderId))
+      .orderBy(orderItemLots.id);
+  }
+
+  async getExpiringStockLots(before: Date): Promise<(StockLot & { productName: string; temperatureRequirement: string | null })[]> {
+    const rows = await db
+      .select({ lot: stockLots, productName: products.name, temperatureRequirement: products.temperatureRequirement })
+      .from(stockLots)
+      .innerJoin(products, eq(stockLots.productId, products.id))
+      .where(and(
+        sql`${stockLots.quantityRemaining} > 0`,
+        lte(stockLots.expiryDate, before)
+      ))
+      .orderBy(stockLots.expiryDate);
+
+    return rows.map(row => ({ ...row.lot, productName: row.productName, temperatureRequirement: row.temperatureRequirement }));
+  }
+
+  async createNearExpiryAlert(lot: StockLot, warningDays: number): Promise<StockAlert | null> {
+    const [existing] = await db
+      .select()
+      .from(stockAlerts)
+      .where(and(eq(stockAlerts.stockLotId, lot.id), eq(stockAlerts.isResolved, false)))
+      .limit(1);
+    if (existing) return null;
+
+    return await this.createStockAlert({
+      productId: lot.productId,
+      wholesalerId: lot.wholesalerId,
+      alertType: 'near_expiry',
+      currentStock: lot.quantityRemaining,
+      threshold: warningDays,
+      stockLotId: lot.id,
+      isRead: false,
+      isResolved: false,
+      notificationSent: false,
+    });
+  }
+
+  async resolveStockLotAlerts(stockLotId: number): Promise<void> {
+    await db
+      .update(stockAlerts)
+      .set({ isResolved: true, resolvedAt: new Date() })
+      .where(and(eq(stockAlerts.stockLotId, stockLotId), eq(stockAlerts.isResolved, false)));
+  }
+
+  // Warehouse (stock location) operations
+  async getWarehouses(wholesalerId: string): Promise<Warehouse[]> {
+    return await db
+      .select()
+      .from(warehouses)
+      .where(eq(warehouses.wholesalerId, wholesalerId))
+      .orderBy(desc(warehouses.isDefault), warehouses.name);
+  }
+
+  async getWarehouse(id: number): Promise<Warehouse | undefined> {
+    const [warehouse] = await db.select().from(warehouses).where(eq(warehouses.id, id));
+    return warehouse;
+  }
+
+  async getCollectionDepots(wholesalerId: string): Promise<Warehouse[]> {
+    return await db
+      .select()
+      .from(warehouses)
+      .where(and(
+        eq(warehouses.wholesalerId, wholesalerId),
+        eq(warehouses.isActive, true),
+        eq(warehouses.allowCollection, true)
+      ))
+      .orderBy(desc(warehouses.isDefault), warehouses.name);
+  }
+
+  async createWarehouse(warehouse: InsertWarehouse): Promise<Warehouse> {
+    return await db.transaction(async (trx) => {
+      const [{ warehouseCount }] = await trx
+        .select({ warehouseCount: count(warehouses.id) })
+        .from(warehouses)
+        .where(eq(warehouses.wholesalerId, warehouse.wholesalerId));
+
+      // The first location becomes the default and takes over all existing stock
+      const [created] = await trx
+        .insert(warehouses)
+        .values({ ...warehouse, isDefault: Number(warehouseCount) === 0 })
+        .returning();
+      return created;
+    });
+  }
+
+  async updateWarehouse(id: number, updates: Partial<InsertWarehouse>): Promise<Warehouse> {
+    const [updated] = await db
+      .update(warehouses)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(warehouses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setDefaultWarehouse(wholesalerId: string, warehouseId: number): Promise<Warehouse> {
+    return await db.transaction(async (trx) => {
+      const locations = await trx.select().from(warehouses).where(eq(warehouses.wholesalerId, wholesalerId)).for('update');
+      const target = locations.find(w => w.id === warehouseId);
+      const current = locations.find(w => w.isDefault);
+      if (!target) {
+        throw new Error('Warehouse not found');
+      }
+      if (current?.id === target.id) return target;
+
+      // The old default's stock was implied; write it down before the new default's row is dropped
+      if (current) {
+        const levels = await this.getWarehouseStockLevels(wholesalerId, undefined, trx);
+        for (const level of levels.filter(l => l.warehouseId === current.id)) {
+          await trx
+            .insert(warehouseStock)
+            .values({ warehouseId: current.id, productId: level.productId, stock: level.stock, palletStock: level.palletStock })
+            .onConflictDoUpdate({
+              target: [warehouseStock.warehouseId, warehouseStock.productId],
+              set: { stock: level.stock, palletStock: level.palletStock, updatedAt: new Date() }
+            });
+        }
+        await trx.update(warehouses).set({ isDefault: false, updatedAt: new Date() }).where(eq(warehouses.id, current.id));
+      }
+
+      await trx.delete(warehouseStock).where(eq(warehouseStock.warehouseId, target.id));
+      const [updated] = await trx
+        .update(warehouses)
+        .set({ isDefault: true, isActive: true, updatedAt: new Date() })
+        .where(eq(warehouses.id, target.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getWarehouseStockLevels(wholesalerId: string, productIds?: number[], trx: any = db): Promise<WarehouseStockLevel[]> {
+    const locations: Warehouse[] = await trx.select().from(warehouses).where(eq(warehouses.wholesalerId, wholesalerId));
+    if (locations.length === 0) return [];
+
+    const productConditions = [eq(products.wholesalerId, wholesalerId)];
+    if (productIds?.length) productConditions.push(inArray(products.id, productIds));
+    const productRows: { id: number; stock: number; palletStock: number | null }[] = await trx
+      .select({ id: products.id, stock: products.stock, palletStock: products.palletStock })
+      .from(products)
+      .where(and(...productConditions));
+    if (productRows.length === 0) return [];
+
+    const rows: WarehouseStock[] = await trx
+      .select()
+      .from(warehouseStock)
+      .where(and(
+        inArray(warehouseStock.warehouseId, locations.map(w => w.id)),
+        inArray(warehouseStock.productId, productRows.map(p => p.id))
+      ));
+
+    const levels: WarehouseStockLevel[] = [];
+    for (const product of productRows) {
+      const held = rows.filter(row => row.productId === product.id && !locations.find(w => w.id === row.warehouseId)?.isDefault);
+      for (const warehouse of locations) {
+        if (warehouse.isDefault) {
+          levels.push({
+            warehouseId: warehouse.id,
+            productId: product.id,
+            stock: getDefaultWarehouseStock(product.stock, held.reduce((sum, row) => sum + row.stock, 0)),
+            palletStock: getDefaultWarehouseStock(product.palletStock || 0, held.reduce((sum, row) => sum + row.palletStock, 0))
+          });
+        } else {
+          const row = held.find(r => r.warehouseId === warehouse.id);
+          levels.push({ warehouseId: warehouse.id, productId: product.id, stock: row?.stock || 0, palletStock: row?.palletStock || 0 });
+        }
+      }
+    }
+    return levels;
+  }
+
+  async transferStock(transfer: {
+    productId: number;
+    fromWarehouseId: number;
+    toWarehouseId: number;
+    quantity: number;
+    unitType: 'units' | 'pallets';
+    reason?: string | null;
+  }): Promise<{ transferId: string; from: WarehouseStockLevel; to: WarehouseStockLevel }> {
+    return await db.transaction(async (trx) => {
+      // Lock the product so a concurrent order can't take the stock mid-transfer
+      const [product] = await trx.select().from(products).where(eq(products.id, transfer.productId)).for('update');
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const levelsBefore = await this.getWarehouseStockLevels(product.wholesalerId, [product.id], trx);
+      const fromBefore = levelsBefore.find(l => l.warehouseId === transfer.fromWarehouseId);
+      const toBefore = levelsBefore.find(l => l.warehouseId === transfer.toWarehouseId);
+      if (!fromBefore || !toBefore) {
+        throw new Error('Warehouse not found');
+      }
+
+      const isPallets = transfer.unitType === 'pallets';
+      const available = isPallets ? fromBefore.palletStock : fromBefore.stock;
+      if (transfer.quantity > available) {
+        throw new Error(`Only ${available} ${transfer.unitType} of ${product.name} are at that warehouse`);
+      }
+
+      await this.adjustWarehouseStock(trx, product.id, transfer.fromWarehouseId, transfer.unitType, -transfer.quantity);
+      await this.adjustWarehouseStock(trx, product.id, transfer.toWarehouseId, transfer.unitType, transfer.quantity);
+
+      const levelsAfter = await this.getWarehouseStockLevels(product.wholesalerId, [product.id], trx);
+      const fromAfter = levelsAfter.find(l => l.warehouseId === transfer.fromWarehouseId)!;
+      const toAfter = levelsAfter.find(l => l.warehouseId === transfer.toWarehouseId)!;
+      const pick = (level: WarehouseStockLevel) => isPallets ? level.palletStock : level.stock;
+
+      const transferId = `TRF-${Date.now().toString(36).toUpperCase()}-${product.id}`;
+      const reason = transfer.reason?.trim() || 'Stock transfer';
+      await trx.insert(stockMovements).values([
+        {
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'transfer_out',
+          quantity: -transfer.quantity,
+          unitType: transfer.unitType,
+          stockBefore: pick(fromBefore),
+          stockAfter: pick(fromAfter),
+          reason,
+          orderId: null,
+          customerName: null,
+          warehouseId: transfer.fromWarehouseId,
+          transferId
+        },
+        {
+          productId: product.id,
+          wholesalerId: product.wholesalerId,
+          movementType: 'transfer_in',
+          quantity: transfer.quantity,
+          unitType: transfer.unitType,
+          stockBefore: pick(toBefore),
+          stockAfter: pick(toAfter),
+          reason,
+          orderId: null,
+          customerName: null,
+          warehouseId: transfer.toWarehouseId,
+          transferId
+        }
+      ]);
+
+      return { transferId, from: fromAfter, to: toAfter };
+    });
+  }
+
+  // VAT reporting
+  async getVatReport(wholesalerId: string, from: Date, to: Date): Promise<VatReport> {
+    const inPeriod = and(
+      eq(orders.wholesalerId, wholesalerId),
+      sql`${orders.createdAt} >= ${from}`,
+      sql`${orders.createdAt} <= ${to}`,
+      sql`${orders.status} <> 'cancelled'`
+    );
+
+    const lines = await db
+      .select({
+        orderId: orderItems.orderId,
+        vatRate: orderItems.vatRate,
+        vatRatePercent: orderItems.vatRatePercent,
+        netAmount: orderItems.netAmount,
+        vatAmount: orderItems.vatAmount,
+        quantity: orderItems.quantity,
+        cancelledQuantity: orderItems.cancelledQuantity
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(inPeriod, sql`${orderItems.vatRate} IS NOT NULL`));
+
+    const deliveries = await db
+      .select({ id: orders.id, deliveryCost: orders.deliveryCost, deliveryVatAmount: orders.deliveryVatAmount })
+      .from(orders)
+      .where(and(inPeriod, sql`${orders.deliveryVatAmount} > 0`));
+
+    // Quantities cancelled after the order was placed were never supplied
+    const supplied = lines.map(line => {
+      const share = line.quantity > 0 ? (line.quantity - line.cancelledQuantity) / line.quantity : 0;
+      return {
+        rate: line.vatRate as VatRateCode,
+        percent: parseFloat(line.vatRatePercent || '0'),
+        net: parseFloat(line.netAmount || '0') * share,
+        vat: parseFloat(line.vatAmount || '0') * share
+      };
+    });
+    const deliveryLines = deliveries.map(order => {
+      const vat = parseFloat(order.deliveryVatAmount || '0');
+      return {
+        rate: 'standard' as VatRateCode,
+        percent: VAT_RATES.standard.percent,
+        net: parseFloat(order.deliveryCost || '0') - vat,
+        vat
+      };
+    });
+
+    const rates = summarizeVatByRate([...supplied, ...deliveryLines]);
+    const totals = rates.reduce(
+      (sum, rate) => ({ net: sum.net + rate.net, vat: sum.vat + rate.vat, gross: sum.gross + rate.gross }),
+      { net: 0, vat: 0, gross: 0 }
+    );
+    const [wholesaler] = await db.select({ vatNumber: users.vatNumber }).from(users).where(eq(users.id, wholesalerId));
+
+    return {
+      from,
+      to,
+      vatNumber: wholesaler?.vatNumber || null,
+      orderCount: new Set(lines.map(line => line.orderId)).size,
+      rates,
+      totals: {
+        net: Math.round(totals.net * 100) / 100,
+        vat: Math.round(totals.vat * 100) / 100,
+        gross: Math.round(totals.gross * 100) / 100
+      }
+    };
+  }
+
+  // Price history and dynamic pricing approval operations
+  async getProductPriceHistory(productId: number): Promise<(ProductPriceHistory & { changedByName: string | null })[]> {
+    const rows = await db
+      .select({
+        history: productPriceHistory,
+        changedByName: sql<string | null>`NULLIF(TRIM(CONCAT(${users.firstName}, ' ', ${users.lastName})), '')`,
+        changedByEmail: users.email
+      })
+      .from(productPriceHistory)
+      .leftJoin(users, eq(productPriceHistory.changedBy, users.id))
+      .where(eq(productPriceHistory.productId, productId))
+      .orderBy(desc(productPriceHistory.createdAt), desc(productPriceHistory.id));
+
+    return rows.map(row => ({ ...row.history, changedByName: row.changedByName || row.changedByEmail || null }));
+  }
+
+  async recordProductPriceChanges(
+    before: Pick<Product, 'id' | 'wholesalerId' | 'price' | 'palletPrice'>,
+    after: Pick<Product, 'price' | 'palletPrice'>,
+    change: PriceChangeRecord,
+    trx: any = db
+  ): Promise<void> {
+    const entries = (['price', 'palletPrice'] as const)
+      .filter(field => !isSamePrice(before[field], after[field]))
+      .map(field => ({
+        productId: before.id,
+        wholesalerId: before.wholesalerId,
+        priceField: field,
+        oldPrice: before[field],
+        newPrice: after[field],
+        source: change.source,
+        changedBy: change.changedBy || null,
+        reason: change.reason || null,
+        priceChangeBatchId: change.priceChangeBatchId || null
+      }));
+
+    if (entries.length > 0) {
+      await trx.insert(productPriceHistory).values(entries);
+    }
+  }
+
+  async updateProductPriceGuardrails(productId: number, priceFloor: string | null, priceCeiling: string | null): Promise<Product> {
+    const [product] = await db
+      .update(products)
+      .set({ priceFloor, priceCeiling, updatedAt: new Date() })
+      .where(eq(products.id, productId))
+      .returning();
+    return product;
+  }
+
+  // Only the wholesaler's own products; ids belonging to anyone else are left out
+  async getWholesalerProductsByIds(wholesalerId: string, productIds: number[]): Promise<Product[]> {
+    if (productIds.length === 0) return [];
+    return await db
+      .select()
+      .from(products)
+      .where(and(eq(products.wholesalerId, wholesalerId), inArray(products.id, productIds)));
+  }
+
+  async createPriceChangeBatch(batch: InsertPriceChangeBatch, proposals: Omit<InsertPriceChangeProposal, 'batchId'>[]): Promise<PriceChangeBatchWithProposals> {
+    const batchId = await db.transaction(async (trx) => {
+      // Only the latest recommendations are worth reviewing
+      await trx
+        .update(priceChangeBatches)
+        .set({ status: 'superseded', updatedAt: new Date() })
+        .where(and(eq(priceChangeBatches.wholesalerId, batch.wholesalerId), eq(priceChangeBatches.status, 'pending')));
+
+      const [newBatch] = await trx.insert(priceChangeBatches).values(batch).returning();
+      if (proposals.length > 0) {
+        await trx.insert(priceChangeProposals).values(proposals.map(proposal => ({ ...proposal, batchId: newBatch.id })));
+      }
+      return newBatch.id;
+    });
+
+    return (await this.getPriceChangeBatch(batchId))!;
+  }
+
+  async getPriceChangeBatches(wholesalerId: string, status?: string): Promise<PriceChangeBatchWithProposals[]> {
+    const conditions = [eq(priceChangeBatches.wholesalerId, wholesalerId)];
+    if (status) conditions.push(eq(priceChangeBatches.status, status));
+
+    const batches = await db
+      .select()
+      .from(priceChangeBatches)
+      .where(and(...conditions))
+      .orderBy(desc(priceChangeBatches.createdAt))
+      .limit(50);
+
+    if (batches.length === 0) return [];
+
+    const proposals = await this.getPriceChangeProposals(batches.map(batch => batch.id));
+    return batches.map(batch => ({
+      ...batch,
+      proposals: proposals.filter(proposal => proposal.batchId === batch.id)
+    }));
+  }
+
+  async getPriceChangeBatch(id: number): Promise<PriceChangeBatchWithProposals | undefined> {
+    const [batch] = await db.select().from(priceChangeBatches).where(eq(priceChangeBatches.id, id));
+    if (!batch) return undefined;
+
+    return { ...batch, proposals: await this.getPriceChangeProposals([batch.id]) };
+  }
+
+  async approvePriceChangeBatch(id: number, reviewedBy: string, proposalIds?: number[]): Promise<PriceChangeBatchWithProposals> {
+    await db.transaction(async (trx) => {
+      const [batch] = await trx.select().from(priceChangeBatches).where(eq(priceChangeBatches.id, id)).for('update');
+      if (!batch) {
+        throw new Error('Price change batch not found');
+      }
+      if (batch.status !== 'pending') {
+        throw new Error(`This batch has already been ${batch.status.replace('_', ' ')}`);
+      }
+
+      const proposals = await trx
+        .select()
+        .from(priceChangeProposals)
+        .where(and(eq(priceChangeProposals.batchId, id), eq(priceChangeProposals.status, 'pending')));
+
+      for (const proposal of proposals) {
+        if (proposalIds && !proposalIds.includes(proposal.id)) {
+          await trx.update(priceChangeProposals).set({ status: 'rejected' }).where(eq(priceChangeProposals.id, proposal.id));
+          continue;
+        }
+
+        const [product] = await trx.select().from(products).where(eq(products.id, proposal.productId)).for('update');
+
+        // Someone changed the price since the recommendation was made - don't overwrite it
+        if (!product || !isSamePrice(product.price, proposal.currentPrice)) {
+          await trx.update(priceChangeProposals).set({ status: 'stale' }).where(eq(priceChangeProposals.id, proposal.id));
+          continue;
+        }
+
+        // Guardrails may have been tightened while the batch was waiting
+        const { price, guardrail } = applyPriceGuardrails(parseFloat(proposal.recommendedPrice), product);
+        if (isSamePrice(price, product.price)) {
+          await trx.update(priceChangeProposals).set({ status: 'blocked', guardrail }).where(eq(priceChangeProposals.id, proposal.id));
+          continue;
+        }
+
+        const newPrice = price.toFixed(2);
+        await trx.update(products).set({ price: newPrice, updatedAt: new Date() }).where(eq(products.id, product.id));
+        await this.recordProductPriceChanges(product, { price: newPrice, palletPrice: product.palletPrice }, {
+          source: 'dynamic_pricing',
+          changedBy: reviewedBy,
+          reason: proposal.reasoning,
+          priceChangeBatchId: id
+        }, trx);
+        await trx
+          .update(priceChangeProposals)
+          .set({ status: 'approved', proposedPrice: newPrice, guardrail, appliedAt: new Date() })
+          .where(eq(priceChangeProposals.id, proposal.id));
+      }
+
+      await trx
+        .update(priceChangeBatches)
+        .set({ status: 'approved', reviewedBy, reviewedAt: new Date(), updatedAt: new Date() })
+        .where(eq(priceChangeBatches.id, id));
+    });
+
+    return (await this.getPriceChangeBatch(id))!;
+  }
+
+  async rejectPriceChangeBatch(id: number, reviewedBy: string): Promise<PriceChangeBatchWithProposals> {
+    await db.transaction(async (trx) => {
+      const [batch] = await trx.select().from(priceChangeBatches).where(eq(priceChangeBatches.id, id)).for('update');
+      if (!batch) {
+        throw new Error('Price change batch not found');
+      }
+      if (batch.status !== 'pending') {
+        throw new Error(`This batch has already been ${batch.status.replace('_', ' ')}`);
+      }
+
+      await trx
+        .update(priceChangeProposals)
+        .set({ status: 'rejected' })
+        .where(and(eq(priceChangeProposals.batchId, id), eq(priceChangeProposals.status, 'pending')));
+      await trx
+        .update(priceChangeBatches)
+        .set({ status: 'rejected', reviewedBy, reviewedAt: new Date(), updatedAt: new Date() })
+        .where(eq(priceChangeBatches.id, id));
+    });
+
+    return (await this.getPriceChangeBatch(id))!;
+  }
+
+  async rollbackPriceChangeBatch(id: number, rolledBackBy: string): Promise<{ batch: PriceChangeBatchWithProposals; skipped: number }> {
+    let skipped = 0;
+
+    await db.transaction(async (trx) => {
+      const [batch] = await trx.select().from(priceChangeBatches).where(eq(priceChangeBatches.id, id)).for('update');
+      if (!batch) {
+        throw new Error('Price change batch not found');
+      }
+      if (batch.status !== 'approved') {
+        throw new Error('Only approved batches can be rolled back');
+      }
+
+      const applied = await trx
+        .select()
+        .from(priceChangeProposals)
+        .where(and(eq(priceChangeProposals.batchId, id), eq(priceChangeProposals.status, 'approved')));
+
+      for (const proposal of applied) {
+        const [product] = await trx.select().from(products).where(eq(products.id, proposal.productId)).for('update');
+
+        // Leave prices that have been changed again since the batch was approved
+        if (!product || !isSamePrice(product.price, proposal.proposedPrice)) {
+          skipped++;
+          continue;
+        }
+
+        await trx.update(products).set({ price: proposal.currentPrice, updatedAt: new Date() }).where(eq(products.id, product.id));
+        await this.recordProductPriceChanges(product, { price: proposal.currentPrice, palletPrice: product.palletPrice }, {
+          source: 'rollback',
+          changedBy: rolledBackBy,
+          reason: `Rolled back price change batch #${id}`,
+          priceChangeBatchId: id
+        }, trx);
+        await trx.update(priceChangeProposals).set({ status: 'rolled_back' }).where(eq(priceChangeProposals.id, proposal.id));
+      }
+
+      await trx
+        .update(priceChangeBatches)
+        .set({ status: 'rolled_back', rolledBackBy, rolledBackAt: new Date(), updatedAt: new Date() })
+        .where(eq(priceChangeBatches.id, id));
+    });
+
+    return { batch: (await this.getPriceChangeBatch(id))!, skipped };
+  }
+
+  async getStandingOrders(retailerId: string, wholesalerId: string): Promise<StandingOrderWithDetails[]> {
+    const rows = await db
+      .select()
+      .from(standingOrders)
+      .where(and(
+        eq(standingOrders.retailerId, retailerId),
+        eq(standingOrders.wholesalerId, wholesalerId),
+        inArray(standingOrders.status, ['active', 'paused'])
+      ))
+      .orderBy(standingOrders.nextRunDate);
+
+    return await this.withStandingOrderDetails(rows);
+  }
+
+  async getStandingOrder(id: number): Promise<StandingOrderWithDetails | undefined> {
+    const [standingOrder] = await db.select().from(standingOrders).where(eq(standingOrders.id, id));
+    if (!standingOrder) return undefined;
+
+    const [withDetails] = await this.withStandingOrderDetails([standingOrder]);
+    return withDetails;
+  }
+
+  async createStandingOrder(
+    standingOrder: InsertStandingOrder,
+    items: Omit<InsertStandingOrderItem, 'standingOrderId'>[]
+  ): Promise<StandingOrderWithDetails> {
+    const id = await db.transaction(async (trx) => {
+      const [created] = await trx.insert(standingOrders).values(standingOrder).returning();
+      await trx.insert(standingOrderItems).values(items.map(item => ({ ...item, standingOrderId: created.id })));
+      return created.id;
+    });
+
+    return (await this.getStandingOrder(id))!;
+  }
+
+  async updateStandingOrder(
+    id: number,
+    updates: Partial<InsertStandingOrder>,
+    items?: Omit<InsertStandingOrderItem, 'standingOrderId'>[]
+  ): Promise<StandingOrderWithDetails> {
+    await db.transaction(async (trx) => {
+      const [updated] = await trx
+        .update(standingOrders)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(standingOrders.id, id))
+        .returning();
+      if (!updated) {
+        throw new Error('Standing order not found');
+      }
+
+      if (items) {
+        await trx.delete(standingOrderItems).where(eq(standingOrderItems.standingOrderId, id));
+        await trx.insert(standingOrderItems).values(items.map(item => ({ ...item, standingOrderId: id })));
+      }
+    });
+
+    return (await this.getStandingOrder(id))!;
+  }
+
+  async skipNextStandingOrderRun(id: number, message: string): Promise<StandingOrderWithDetails> {
+    await db.transaction(async (trx) => {
+      const [standingOrder] = await trx.select().from(standingOrders).where(eq(standingOrders.id, id)).for('update');
+      if (!standingOrder) {
+        throw new Error('Standing order not found');
+      }
+      if (standingOrder.status !== 'active') {
+        throw new Error('Only active standing orders can skip a delivery');
+      }
+
+      await trx.insert(standingOrderRuns).values({
+        standingOrderId: id,
+        scheduledFor: standingOrder.nextRunDate,
+        status: 'skipped',
+        message
+      });
+      await trx
+        .update(standingOrders)
+        .set({
+          nextRunDate: getNextStandingOrderDate(standingOrder.nextRunDate, standingOrder.cadence as StandingOrderCadence),
+          updatedAt: new Date()
+        })
+        .where(eq(standingOrders.id, id));
+    });
+
+    return (await this.getStandingOrder(id))!;
+  }
+
+  // Move each due standing order on to its next run date and log a 'processing' run for
+  // the date that fell due. The unique run index stops the same date being generated twice.
+  async claimDueStandingOrders(now: Date): Promise<{ run: StandingOrderRun; standingOrder: StandingOrderWithDetails }[]> {
+    const claimed = await db.transaction(async (trx) => {
+      const due = await trx
+        .select()
+        .from(standingOrders)
+        .where(and(eq(standingOrders.status, 'active'), lte(standingOrders.nextRunDate, now)))
+        .for('update', { skipLocked: true });
+
+      const runs: StandingOrderRun[] = [];
+      for (const standingOrder of due) {
+        const [run] = await trx
+          .insert(standingOrderRuns)
+          .values({ standingOrderId: standingOrder.id, scheduledFor: standingOrder.nextRunDate, status: 'processing' })
+          .onConflictDoNothing()
+          .returning();
+
+        await trx
+          .update(standingOrders)
+          .set({
+            nextRunDate: getNextStandingOrderDate(standingOrder.nextRunDate, standingOrder.cadence as StandingOrderCadence),
+            updatedAt: now
+          })
+          .where(eq(standingOrders.id, standingOrder.id));
+
+        if (run) runs.push(run);
+      }
+      return { due, runs };
+    });
+
+    const withDetails = await this.withStandingOrderDetails(claimed.due);
+    return claimed.runs.map(run => ({
+      run,
+      standingOrder: withDetails.find(standingOrder => standingOrder.id === run.standingOrderId)!
+    }));
+  }
+
+  async completeStandingOrderRun(
+    runId: number,
+    result: { status: string; orderId?: number | null; message?: string | null }
+  ): Promise<StandingOrderRun> {
+    const [run] = await db
+      .update(standingOrderRuns)
+      .set({ status: result.status, orderId: result.orderId ?? null, message: result.message ?? null })
+      .where(eq(standingOrderRuns.id, runId))
+      .returning();
+    return run;
+  }
+
+  // Runs still 'processing' long after they were claimed were cut short (e.g. by a restart).
+  // Stamping attemptedAt hands each one to a single caller until it goes stale again.
+  async claimInterruptedStandingOrderRuns(staleBefore: Date): Promise<{ run: StandingOrderRun; standingOrder: StandingOrderWithDetails }[]> {
+    const runs = await db
+      .update(standingOrderRuns)
+      .set({ attemptedAt: new Date() })
+      .where(and(
+        eq(standingOrderRuns.status, 'processing'),
+        sql`coalesce(${standingOrderRuns.attemptedAt}, ${standingOrderRuns.createdAt}) < ${staleBefore}`
+      ))
+      .returning();
+    if (runs.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(standingOrders)
+      .where(inArray(standingOrders.id, Array.from(new Set(runs.map(run => run.standingOrderId)))));
+    const withDetails = await this.withStandingOrderDetails(rows);
+    return runs.map(run => ({
+      run,
+      standingOrder: withDetails.find(standingOrder => standingOrder.id === run.standingOrderId)!
+    }));
+  }
+
+  async recordStandingOrderRunPayment(runId: number, stripePaymentIntentId: string): Promise<void> {
+    await db
+      .update(standingOrderRuns)
+      .set({ stripePaymentIntentId })
+      .where(eq(standingOrderRuns.id, runId));
+  }
+
+  async getStandingOrdersUsingCard(retailerId: string, stripePaymentMethodId: string): Promise<StandingOrder[]> {
+    return await db
+      .select()
+      .from(standingOrders)
+      .where(and(
+        eq(standingOrders.retailerId, retailerId),
+        eq(standingOrders.stripePaymentMethodId, stripePaymentMethodId),
+        inArray(standingOrders.status, ['active', 'paused'])
+      ));
+  }
+
+  async getOrderCharges(orderId: number): Promise<OrderCharge[]> {
+    return await db
+      .select()
+      .from(orderCharges)
+      .where(eq(orderCharges.orderId, orderId))
+      .orderBy(desc(orderCharges.createdAt));
+  }
+
+  async createOrderCharge(charge: InsertOrderCharge): Promise<OrderCharge> {
+    const [created] = await db.insert(orderCharges).values(charge).returning();
+    return created;
+  }
+
+  /**
+   * Record the outcome of an extra charge. A successful delivery top-up is added
+   * to the order's delivery cost and totals in the same transaction; order edit
+   * charges are already in the edited totals.
+   */
+  async completeOrderCharge(
+    id: number,
+    result: { status: 'succeeded' | 'failed'; stripePaymentIntentId?: string | null; failureMessage?: string | null }
+  ): Promise<OrderCharge> {
+    return await db.transaction(async (tx) => {
+      const [charge] = await tx
+        .update(orderCharges)
+        .set({
+          status: result.status,
+          stripePaymentIntentId: result.stripePaymentIntentId ?? null,
+          failureMessage: result.failureMessage ?? null
+        })
+        .where(and(eq(orderCharges.id, id), eq(orderCharges.status, 'pending')))
+        .returning();
+      if (!charge) {
+        throw new Error('This charge has already been completed');
+      }
+
+      if (charge.status === 'succeeded' && charge.type === 'delivery_top_up') {
+        await tx
+          .update(orders)
+          .set({
+            total: sql`${orders.total} + ${charge.amount} + ${charge.transactionFee}`,
+            customerTransactionFee: sql`coalesce(${orders.customerTransactionFee}, 0) + ${charge.transactionFee}`,
+            deliveryCost: sql`coalesce(${orders.deliveryCost}, 0) + ${charge.amount}`,
+            updatedAt: new Date()
+          })
+          .where(eq(orders.id, charge.orderId));
+      }
+
+      return charge;
+    });
+  }
+
+  async getOrderEdits(orderId: number): Promise<OrderEdit[]> {
+    return await db
+      .select()
+      .from(orderEdits)
+      .where(eq(orderEdits.orderId, orderId))
+      .orderBy(desc(orderEdits.createdAt));
+  }
+
+  /**
+   * Change an order's lines in one transaction: stock is taken or put back
+   * (including lots and depot stock), VAT and totals are recalculated and the
+   * edit is logged. `expectedTotal` guards against the order changing since
+   * the edit was priced and any extra card charge was taken.
+   */
+  async applyOrderEdit(
+    orderId: number,
+    expectedTotal: string,
+    lines: OrderEditLine[],
+    edit: Pick<InsertOrderEdit, 'editedBy' | 'reason' | 'settlement' | 'settlementStatus' | 'orderChargeId'>
+  ): Promise<{ order: Order; edit: OrderEdit }> {
+    return await db.transaction(async (trx) => {
+      const [order] = await trx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      const items: OrderItem[] = await trx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      if (!canEditOrder(order, items)) {
+        throw new Error('This order can no longer be edited');
+      }
+      if (parseFloat(order.total) !== parseFloat(expectedTotal)) {
+        throw new Error('The order changed while you were editing it - refresh and try again');
+      }
+
+      const changes: OrderEditLineChange[] = [];
+      let subtotalDelta = 0;
+
+      for (const line of lines) {
+        const item = line.orderItemId ? items.find(i => i.id === line.orderItemId) : undefined;
+        if (line.orderItemId && !item) {
+          throw new Error(`Order item ${line.orderItemId} does not belong to order ${orderId}`);
+        }
+        if (item && (item.backorderedQuantity > 0 || item.cancelledQuantity > 0)) {
+          throw new Error(`Order item ${item.id} has backordered or cancelled units - resolve those before editing it`);
+        }
+
+        const [product] = await trx.select().from(products).where(eq(products.id, line.productId)).for('update');
+        if (!product) {
+          throw new Error(`Product ${line.productId} not found`);
+        }
+
+        const sellingType = item ? (item.sellingType === 'pallets' ? 'pallets' : 'units') : line.sellingType;
+        const quantityBefore = item?.quantity || 0;
+        const delta = line.quantity - quantityBefore;
+
+        let orderItemId = item?.id;
+        if (!item) {
+          const [added] = await trx.insert(orderItems).values({
+            orderId,
+            productId: product.id,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            total: line.total,
+            sellingType
+          }).returning();
+          orderItemId = added.id;
+        }
+
+        if (delta !== 0) {
+          const isPallets = sellingType === 'pallets';
+          const stockBefore = isPallets ? (product.palletStock || 0) : product.stock;
+          let stockAfter: number;
+          if (delta > 0) {
+            const result = InventoryCalculator.processOrder(delta, sellingType, {
+              stock: product.stock,
+              palletStock: product.palletStock || 0,
+              quantityInPack: product.quantityInPack || 1,
+              unitsPerPallet: product.unitsPerPallet || 1
+            });
+            stockAfter = isPallets ? result.newPalletStock : result.newUnitStock;
+          } else {
+            stockAfter = stockBefore - delta;
+          }
+
+          await trx
+            .update(products)
+            .set(isPallets ? { palletStock: stockAfter, updatedAt: new Date() } : { stock: stockAfter, updatedAt: new Date() })
+            .where(eq(products.id, product.id));
+
+          if (delta > 0) {
+            await this.allocateStockLots(trx, { id: orderItemId!, orderId, productId: product.id, quantity: delta, sellingType });
+          } else {
+            await this.releaseStockLots(trx, orderItemId!, -delta);
+          }
+          await this.adjustWarehouseStock(trx, product.id, order.warehouseId, sellingType, -delta);
+
+          await trx.insert(stockMovements).values({
+            productId: product.id,
+            wholesalerId: order.wholesalerId,
+            movementType: 'order_edit',
+            quantity: -delta,
+            unitType: sellingType,
+            stockBefore,
+            stockAfter,
+            reason: `Order ${order.orderNumber} edited - ${quantityBefore} → ${line.quantity} ${sellingType}`,
+            orderId,
+            customerName: order.customerName || null
+          });
+        }
+
+        if (item && line.quantity === 0) {
+          await trx.delete(orderItems).where(eq(orderItems.id, item.id));
+        } else if (item) {
+          await trx
+            .update(orderItems)
+            .set({ quantity: line.quantity, unitPrice: line.unitPrice, total: line.total })
+            .where(eq(orderItems.id, item.id));
+        }
+
+        subtotalDelta += parseFloat(line.total) - parseFloat(item?.total || '0');
+        changes.push({
+          orderItemId: line.quantity === 0 ? null : orderItemId!,
+          productId: product.id,
+          productName: product.name,
+          sellingType,
+          quantityBefore,
+          quantityAfter: line.quantity,
+          unitPriceBefore: item?.unitPrice || null,
+          unitPriceAfter: line.quantity > 0 ? line.unitPrice : null
+        });
+      }
+
+      const remaining: OrderItem[] = await trx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      if (remaining.length === 0) {
+        throw new Error('An order needs at least one item - cancel it instead');
+      }
+
+      // VAT is worked out again across every line
+      const vat = await this.applyOrderVat(trx, order as InsertOrder, remaining.map(item => ({ ...item })));
+      for (const item of vat.items as OrderItem[]) {
+        await trx
+          .update(orderItems)
+          .set({ vatRate: item.vatRate, vatRatePercent: item.vatRatePercent, netAmount: item.netAmount, vatAmount: item.vatAmount })
+          .where(eq(orderItems.id, item.id));
+      }
+
+      const totals = calculateOrderEditTotals(order, subtotalDelta);
+      const [updatedOrder] = await trx
+        .update(orders)
+        .set({
+          subtotal: totals.subtotal.toFixed(2),
+          platformFee: totals.platformFee.toFixed(2),
+          customerTransactionFee: totals.customerTransactionFee.toFixed(2),
+          total: totals.total.toFixed(2),
+          netAmount: vat.order.netAmount,
+          vatAmount: vat.order.vatAmount,
+          deliveryVatAmount: vat.order.deliveryVatAmount,
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      const [created] = await trx.insert(orderEdits).values({
+        ...edit,
+        orderId,
+        wholesalerId: order.wholesalerId,
+        changes,
+        subtotalBefore: order.subtotal,
+        subtotalAfter: updatedOrder.subtotal,
+        totalBefore: order.total,
+        totalAfter: updatedOrder.total
+      }).returning();
+
+      return { order: updatedOrder, edit: created };
+    });
+  }
+
+  async updateOrderEditSettlement(
+    id: number,
+    updates: Pick<Partial<InsertOrderEdit>, 'settlementStatus' | 'stripeRefundId' | 'settlementMessage'>
+  ): Promise<OrderEdit> {
+    const [updated] = await db.update(orderEdits).set(updates).where(eq(orderEdits.id, id)).returning();
+    return updated;
+  }
+
+  // Paid orders with lines still to ship that aren't already on an open pick list
+  async getPickableOrders(wholesalerId: string): Promise<Order[]> {
+    const candidates = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.wholesalerId, wholesalerId),
+        inArray(orders.status, PICKABLE_ORDER_STATUSES),
+        sql`not exists (
+          select 1 from ${pickListItems}
+          inner join ${pickLists} on ${pickLists.id} = ${pickListItems.pickListId}
+          where ${pickListItems.orderId} = ${orders.id} and ${pickLists.status} = 'open'
+        )`
+      ))
+      .orderBy(orders.createdAt);
+
+    if (candidates.length === 0) return [];
+    const items = await db.select().from(orderItems).where(inArray(orderItems.orderId, candidates.map(order => order.id)));
+    return candidates.filter(order => items.some(item => item.orderId === order.id && getOutstandingQuantity(item) > 0));
+  }
+
+  async getPickLists(wholesalerId: string): Promise<PickListSummary[]> {
+    const rows = await db
+      .select({ pickList: pickLists, warehouseName: warehouses.name })
+      .from(pickLists)
+      .leftJoin(warehouses, eq(pickLists.warehouseId, warehouses.id))
+      .where(eq(pickLists.wholesalerId, wholesalerId))
+      .orderBy(desc(pickLists.createdAt));
+
+    if (rows.length === 0) return [];
+    const items = await db
+      .select()
+      .from(pickListItems)
+      .where(inArray(pickListItems.pickListId, rows.map(row => row.pickList.id)));
+
+    return rows.map(row => {
+      const lines = items.filter(item => item.pickListId === row.pickList.id);
+      return {
+        ...row.pickList,
+        warehouseName: row.warehouseName,
+        orderCount: new Set(lines.map(line => line.orderId)).size,
+        lineCount: lines.length,
+        pickedLineCount: lines.filter(isPickLineComplete).length
+      };
+    });
+  }
+
+  async getPickList(id: number): Promise<PickListWithDetails | undefined> {
+    const [row] = await db
+      .select({ pickList: pickLists, warehouseName: warehouses.name })
+      .from(pickLists)
+      .leftJoin(warehouses, eq(pickLists.warehouseId, warehouses.id))
+      .where(eq(pickLists.id, id));
+    if (!row) return undefined;
+
+    const items = await db
+      .select({
+        item: pickListItems,
+        productName: products.name,
+        quantityInPack: products.quantityInPack,
+        unitsPerPallet: products.unitsPerPallet,
+        orderNumber: orders.orderNumber,
+        customerName: orders.customerName,
+        fulfillmentType: orders.fulfillmentType
+      })
+      .from(pickListItems)
+      .innerJoin(products, eq(pickListItems.productId, products.id))
+      .innerJoin(orders, eq(pickListItems.orderId, orders.id))
+      .where(eq(pickListItems.pickListId, id))
+      .orderBy(orders.orderNumber, products.name);
+
+    return {
+      ...row.pickList,
+      warehouseName: row.warehouseName,
+      items: items.map(({ item, ...details }) => ({ ...item, ...details }))
+    };
+  }
+
+  /**
+   * Batch the outstanding lines of the chosen orders into a new pick list.
+   * An order can only be on one open pick list at a time.
+   */
+  async createPickList(wholesalerId: string, orderIds: number[], createdBy: string): Promise<PickList> {
+    const uniqueOrderIds = Array.from(new Set(orderIds));
+    if (uniqueOrderIds.length === 0) {
+      throw new Error('Choose at least one order to pick');
+    }
+
+    return await db.transaction(async (trx) => {
+      const selected = await trx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.wholesalerId, wholesalerId), inArray(orders.id, uniqueOrderIds)))
+        .for('update');
+      if (selected.length !== uniqueOrderIds.length) {
+        throw new Error('One or more orders were not found');
+      }
+
+      const notReady = selected.find(order => !PICKABLE_ORDER_STATUSES.includes(order.status));
+      if (notReady) {
+        throw new Error(`Order ${notReady.orderNumber} is not ready to pick (${notReady.status})`);
+      }
+
+      const [alreadyListed] = await trx
+        .select({ orderId: pickListItems.orderId, pickListNumber: pickLists.pickListNumber })
+        .from(pickListItems)
+        .innerJoin(pickLists, eq(pickListItems.pickListId, pickLists.id))
+        .where(and(inArray(pickListItems.orderId, uniqueOrderIds), eq(pickLists.status, 'open')));
+      if (alreadyListed) {
+        const order = selected.find(o => o.id === alreadyListed.orderId);
+        throw new Error(`Order ${order?.orderNumber} is already on pick list ${alreadyListed.pickListNumber}`);
+      }
+
+      const items: OrderItem[] = await trx.select().from(orderItems).where(inArray(orderItems.orderId, uniqueOrderIds));
+      const lines = items
+        .map(item => ({ item, quantity: getOutstandingQuantity(item) }))
+        .filter(line => line.quantity > 0);
+      if (lines.length === 0) {
+        throw new Error('There is nothing left to pick on these orders');
+      }
+
+      const [{ pickListCount }] = await trx
+        .select({ pickListCount: count(pickLists.id) })
+        .from(pickLists)
+        .where(eq(pickLists.wholesalerId, wholesalerId));
+
+      const warehouseIds = new Set(selected.map(order => order.warehouseId));
+      const [created] = await trx
+        .insert(pickLists)
+        .values({
+          wholesalerId,
+          pickListNumber: formatPickListNumber(Number(pickListCount) + 1),
+          warehouseId: warehouseIds.size === 1 ? selected[0].warehouseId : null,
+          createdBy
+        })
+        .returning();
+
+      await trx.insert(pickListItems).values(lines.map(({ item, quantity }) => ({
+        pickListId: created.id,
+        orderId: item.orderId,
+        orderItemId: item.id,
+        productId: item.productId,
+        sellingType: item.sellingType === 'pallets' ? 'pallets' : 'units',
+        quantity
+      })));
+
+      return created;
+    });
+  }
+
+  async recordPick(pickListId: number, itemId: number, pickedQuantity: number, pickedBy: string): Promise<PickListItem> {
+    return await db.transaction(async (trx) => {
+      const [row] = await trx
+        .select({ item: pickListItems, status: pickLists.status })
+        .from(pickListItems)
+        .innerJoin(pickLists, eq(pickListItems.pickListId, pickLists.id))
+        .where(and(eq(pickListItems.id, itemId), eq(pickListItems.pickListId, pickListId)))
+        .for('update');
+      if (!row) {
+        throw new Error('Pick list line not found');
+      }
+      if (row.status !== 'open') {
+        throw new Error('This pick list is no longer open');
+      }
+      if (!Number.isInteger(pickedQuantity) || pickedQuantity < 0 || pickedQuantity > row.item.quantity) {
+        throw new Error(`Picked quantity must be between 0 and ${row.item.quantity}`);
+      }
+
+      const [updated] = await trx
+        .update(pickListItems)
+        .set({
+          pickedQuantity,
+          pickedBy: pickedQuantity > 0 ? pickedBy : null,
+          pickedAt: pickedQuantity > 0 ? new Date() : null
+        })
+        .where(eq(pickListItems.id, itemId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async updatePickListStatus(id: number, status: 'completed' | 'cancelled'): Promise<PickList> {
+    const [updated] = await db
+      .update(pickLists)
+      .set({ status, completedAt: status === 'completed' ? new Date() : null, updatedAt: new Date() })
+      .where(eq(pickLists.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Paid delivery orders that haven't been booked with a carrier and aren't
+   * already waiting on a van (other than exceptRunId, when re-planning that run).
+   * Failed drops come back here to be re-planned.
+   */
+  async getRoutableOrders(wholesalerId: string, orderIds?: number[], exceptRunId?: number): Promise<RoutableOrder[]> {
+    const conditions = [
+      eq(orders.wholesalerId, wholesalerId),
+      eq(orders.fulfillmentType, 'delivery'),
+      inArray(orders.status, ROUTABLE_ORDER_STATUSES),
+      isNull(orders.shippingOrderId),
+      isNull(orders.deliveryTrackingNumber),
+      sql`not exists (
+        select 1 from ${deliveryRunStops}
+        inner join ${deliveryRuns} on ${deliveryRuns.id} = ${deliveryRunStops.runId}
+        where ${deliveryRunStops.orderId} = ${orders.id}
+          and ${deliveryRunStops.status} = 'pending'
+          and ${deliveryRuns.status} in ('planned', 'out_for_delivery')
+          and ${deliveryRuns.id} <> ${exceptRunId ?? 0}
+      )`
+    ];
+    if (orderIds) {
+      if (orderIds.length === 0) return [];
+      conditions.push(inArray(orders.id, orderIds));
+    }
+
+    const rows = await db
+      .select({ order: orders, postcode: deliveryAddresses.postalCode })
+      .from(orders)
+      .leftJoin(deliveryAddresses, eq(orders.deliveryAddressId, deliveryAddresses.id))
+      .where(and(...conditions))
+      .orderBy(orders.createdAt);
+
+    return rows.map(row => ({ ...row.order, postcode: row.postcode || getPostcodeFromAddress(row.order.deliveryAddress) }));
+  }
+
+  async getDeliveryRuns(wholesalerId: string): Promise<DeliveryRunSummary[]> {
+    const rows = await db
+      .select({ run: deliveryRuns, warehouseName: warehouses.name })
+      .from(deliveryRuns)
+      .leftJoin(warehouses, eq(deliveryRuns.warehouseId, warehouses.id))
+      .where(eq(deliveryRuns.wholesalerId, wholesalerId))
+      .orderBy(desc(deliveryRuns.deliveryDate), desc(deliveryRuns.id));
+
+    if (rows.length === 0) return [];
+    const stops = await db
+      .select()
+      .from(deliveryRunStops)
+      .where(inArray(deliveryRunStops.runId, rows.map(row => row.run.id)));
+
+    return rows.map(row => {
+      const runStops = stops.filter(stop => stop.runId === row.run.id);
+      return {
+        ...row.run,
+        warehouseName: row.warehouseName,
+        stopCount: runStops.length,
+        deliveredCount: runStops.filter(stop => stop.status === 'delivered').length,
+        failedCount: runStops.filter(stop => stop.status === 'failed').length
+      };
+    });
+  }
+
+  async getDeliveryRun(id: number): Promise<DeliveryRunWithStops | undefined> {
+    const [row] = await db
+      .select({ run: deliveryRuns, warehouseName: warehouses.name })
+      .from(deliveryRuns)
+      .leftJoin(warehouses, eq(deliveryRuns.warehouseId, warehouses.id))
+      .where(eq(deliveryRuns.id, id));
+    if (!row) return undefined;
+
+    const stops = await db
+      .select({
+        stop: deliveryRunStops,
+        orderNumber: orders.orderNumber,
+        orderStatus: orders.status,
+        customerName: orders.customerName,
+        customerPhone: orders.customerPhone,
+        deliveryAddress: orders.deliveryAddress,
+        addressLine1: deliveryAddresses.addressLine1,
+        addressLine2: deliveryAddresses.addressLine2,
+        city: deliveryAddresses.city,
+        deliveryInstructions: deliveryAddresses.instructions,
+        total: orders.total,
+        paymentMethod: orders.paymentMethod
+      })
+      .from(deliveryRunStops)
+      .innerJoin(orders, eq(deliveryRunStops.orderId, orders.id))
+      .leftJoin(deliveryAddresses, eq(orders.deliveryAddressId, deliveryAddresses.id))
+      .where(eq(deliveryRunStops.runId, id))
+      .orderBy(deliveryRunStops.sequence);
+
+    return {
+      ...row.run,
+      warehouseName: row.warehouseName,
+      stops: stops.map(({ stop, ...details }) => ({ ...stop, ...details }))
+    };
+  }
+
+  async createDeliveryRun(
+    run: Omit<InsertDeliveryRun, 'runNumber'>,
+    stops: Omit<InsertDeliveryRunStop, 'runId'>[]
+  ): Promise<DeliveryRun> {
+    return await db.transaction(async (trx) => {
+      await this.assertStopsAvailable(trx, stops.map(stop => stop.orderId), null);
+
+      const [{ runCount }] = await trx
+        .select({ runCount: count(deliveryRuns.id) })
+        .from(deliveryRuns)
+        .where(eq(deliveryRuns.wholesalerId, run.wholesalerId));
+
+      const [created] = await trx
+        .insert(deliveryRuns)
+        .values({ ...run, runNumber: formatDeliveryRunNumber(Number(runCount) + 1) })
+        .returning();
+
+      if (stops.length > 0) {
+        await trx.insert(deliveryRunStops).values(stops.map(stop => ({ ...stop, runId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  // Swap a planned run's stops for a new set, e.g. after adding orders or re-ordering the route
+  async replaceDeliveryRunStops(runId: number, stops: Omit<InsertDeliveryRunStop, 'runId'>[], totalDistanceKm: string | null): Promise<void> {
+    await db.transaction(async (trx) => {
+      const [run] = await trx.select().from(deliveryRuns).where(eq(deliveryRuns.id, runId)).for('update');
+      if (!run || run.status !== 'planned') {
+        throw new Error('Stops can only be changed before the run starts');
+      }
+      await this.assertStopsAvailable(trx, stops.map(stop => stop.orderId), runId);
+
+      await trx.delete(deliveryRunStops).where(eq(deliveryRunStops.runId, runId));
+      if (stops.length > 0) {
+        await trx.insert(deliveryRunStops).values(stops.map(stop => ({ ...stop, runId })));
+      }
+      await trx
+        .update(deliveryRuns)
+        .set({ totalDistanceKm, updatedAt: new Date() })
+        .where(eq(deliveryRuns.id, runId));
+    });
+  }
+
+  async updateDeliveryRun(id: number, updates: Partial<InsertDeliveryRun>): Promise<DeliveryRun> {
+    const [updated] = await db
+      .update(deliveryRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(deliveryRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Record the outcome of a drop. Delivered orders are closed off (with their
+   * own-van shipments); failed ones are flagged so they can go on another run.
+   * The run completes with its last drop.
+   */
+  async completeDeliveryRunStop(
+    runId: number,
+    stopId: number,
+    outcome: Pick<InsertDeliveryRunStop, 'status' | 'recipientName' | 'failureReason' | 'proofPhotoUrl' | 'completedBy'>
+  ): Promise<{ stop: DeliveryRunStop; run: DeliveryRun; order: Order }> {
+    return await db.transaction(async (trx) => {
+      const [run] = await trx.select().from(deliveryRuns).where(eq(deliveryRuns.id, runId)).for('update');
+      if (!run || run.status !== 'out_for_delivery') {
+        throw new Error('Drops can only be updated while the run is out for delivery');
+      }
+      const [stop] = await trx
+        .select()
+        .from(deliveryRunStops)
+        .where(and(eq(deliveryRunStops.id, stopId), eq(deliveryRunStops.runId, runId)))
+        .for('update');
+      if (!stop) {
+        throw new Error('Stop not found');
+      }
+      if (stop.status !== 'pending') {
+        throw new Error('This drop has already been recorded');
+      }
+
+      const [updatedStop] = await trx
+        .update(deliveryRunStops)
+        .set({ ...outcome, completedAt: new Date() })
+        .where(eq(deliveryRunStops.id, stopId))
+        .returning();
+
+      const delivered = outcome.status === 'delivered';
+      const [order] = await trx
+        .update(orders)
+        .set({ status: delivered ? 'delivered' : 'delivery_failed', updatedAt: new Date() })
+        .where(eq(orders.id, stop.orderId))
+        .returning();
+      if (delivered) {
+        await trx
+          .update(orderShipments)
+          .set({ status: 'delivered', deliveredAt: new Date(), updatedAt: new Date() })
+          .where(and(
+            eq(orderShipments.orderId, stop.orderId),
+            eq(orderShipments.carrier, OWN_DELIVERY_CARRIER),
+            eq(orderShipments.status, 'dispatched')
+          ));
+      }
+
+      const [{ pendingCount }] = await trx
+        .select({ pendingCount: count(deliveryRunStops.id) })
+        .from(deliveryRunStops)
+        .where(and(eq(deliveryRunStops.runId, runId), eq(deliveryRunStops.status, 'pending')));
+
+      let updatedRun = run;
+      if (Number(pendingCount) === 0) {
+        [updatedRun] = await trx
+          .update(deliveryRuns)
+          .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+          .where(eq(deliveryRuns.id, runId))
+          .returning();
+      }
+
+      return { stop: updatedStop, run: updatedRun, order };
+    });
+  }
+
+  async getFulfilmentSlots(wholesalerId: string, type?: string): Promise<FulfilmentSlot[]> {
+    const conditions = [eq(fulfilmentSlots.wholesalerId, wholesalerId)];
+    if (type) conditions.push(eq(fulfilmentSlots.type, type));
+    return await db
+      .select()
+      .from(fulfilmentSlots)
+      .where(and(...conditions))
+      .orderBy(fulfilmentSlots.type, fulfilmentSlots.dayOfWeek, fulfilmentSlots.startTime);
+  }
+
+  async getFulfilmentSlot(id: number): Promise<FulfilmentSlot | undefined> {
+    const [slot] = await db.select().from(fulfilmentSlots).where(eq(fulfilmentSlots.id, id));
+    return slot;
+  }
+
+  async createFulfilmentSlot(slot: InsertFulfilmentSlot): Promise<FulfilmentSlot> {
+    const [created] = await db.insert(fulfilmentSlots).values(slot).returning();
+    return created;
+  }
+
+  async updateFulfilmentSlot(id: number, updates: Partial<InsertFulfilmentSlot>): Promise<FulfilmentSlot> {
+    const [updated] = await db
+      .update(fulfilmentSlots)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(fulfilmentSlots.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Orders keep their booked times, so removing a slot doesn't change past bookings
+  async deleteFulfilmentSlot(id: number): Promise<void> {
+    await db.delete(fulfilmentSlots).where(eq(fulfilmentSlots.id, id));
+  }
+
+  async getFulfilmentClosures(wholesalerId: string, from?: Date): Promise<FulfilmentClosure[]> {
+    const conditions = [eq(fulfilmentClosures.wholesalerId, wholesalerId)];
+    if (from) conditions.push(gte(fulfilmentClosures.endsOn, from));
+    return await db
+      .select()
+      .from(fulfilmentClosures)
+      .where(and(...conditions))
+      .orderBy(fulfilmentClosures.startsOn);
+  }
+
+  async getFulfilmentClosure(id: number): Promise<FulfilmentClosure | undefined> {
+    const [closure] = await db.select().from(fulfilmentClosures).where(eq(fulfilmentClosures.id, id));
+    return closure;
+  }
+
+  async createFulfilmentClosure(closure: InsertFulfilmentClosure): Promise<FulfilmentClosure> {
+    const [created] = await db.insert(fulfilmentClosures).values(closure).returning();
+    return created;
+  }
+
+  async deleteFulfilmentClosure(id: number): Promise<void> {
+    await db.delete(fulfilmentClosures).where(eq(fulfilmentClosures.id, id));
+  }
+
+  // Orders booked into each upcoming slot, for capacity checks (cancelled orders free their place)
+  async getSlotBookingCounts(wholesalerId: string, from: Date): Promise<SlotBookingCount[]> {
+    const rows = await db
+      .select({
+        slotId: orders.fulfilmentSlotId,
+        slotStartsAt: orders.slotStartsAt,
+        bookings: count(orders.id)
+      })
+      .from(orders)
+      .where(and(
+        eq(orders.wholesalerId, wholesalerId),
+        gte(orders.slotStartsAt, from),
+        sql`${orders.fulfilmentSlotId} is not null`,
+        sql`${orders.status} <> 'cancelled'`
+      ))
+      .groupBy(orders.fulfilmentSlotId, orders.slotStartsAt);
+
+    return rows.map(row => ({ slotId: row.slotId!, slotStartsAt: row.slotStartsAt!, bookings: Number(row.bookings) }));
+  }
+
+  // Held until the caller's transaction ends, so bookings into one slot on one day are counted one at a time
+  async lockSlotBookings(trx: any, slotId: number, slotStartsAt: Date): Promise<void> {
+    await trx.execute(sql`select pg_advisory_xact_lock(hashtext(${`slot_${slotId}_${slotStartsAt.toISOString()}`}))`);
+  }
+
+  async countSlotBookings(trx: any, slotId: number, slotStartsAt: Date): Promise<number> {
+    const [row] = await trx
+      .select({ bookings: count(orders.id) })
+      .from(orders)
+      .where(and(
+        eq(orders.fulfilmentSlotId, slotId),
+        eq(orders.slotStartsAt, slotStartsAt),
+        sql`${orders.status} <> 'cancelled'`
+      ));
+    return Number(row?.bookings || 0);
+  }
+
+  async getTrackableBookings(): Promise<TrackableBooking[]> {
+    const unfinished = (column: typeof orderShipments.trackingStatus | typeof orders.shippingStatus) =>
+      or(isNull(column), sql`${column} not in (${sql.join(FINAL_SHIPPING_STATUSES.map(status => sql`${status}`), sql`, `)})`);
+
+    const shipmentRows = await db
+      .select({ shipment: orderShipments, order: orders })
+      .from(orderShipments)
+      .innerJoin(orders, eq(orderShipments.orderId, orders.id))
+      .where(and(
+        sql`${orderShipments.shippingOrderLineId} is not null`,
+        sql`${orderShipments.status} not in ('delivered', 'cancelled')`,
+        unfinished(orderShipments.trackingStatus)
+      ));
+
+    // Bookings made against the whole order before it was split into shipments
+    const orderRows = await db
+      .select()
+      .from(orders)
+      .where(and(
+        sql`${orders.shippingOrderLineId} is not null`,
+        sql`${orders.status} <> 'cancelled'`,
+        unfinished(orders.shippingStatus),
+        sql`not exists (select 1 from ${orderShipments} where ${orderShipments.orderId} = ${orders.id} and ${orderShipments.shippingOrderLineId} = ${orders.shippingOrderLineId})`
+      ));
+
+    return [
+      ...shipmentRows.map(({ shipment, order }) => ({
+        order,
+        shipment,
+        orderLineId: shipment.shippingOrderLineId!,
+        status: shipment.trackingStatus as ShippingStatusKey | null
+      })),
+      ...orderRows.map(order => ({
+        order,
+        shipment: null,
+        orderLineId: order.shippingOrderLineId!,
+        status: order.shippingStatus as ShippingStatusKey | null
+      }))
+    ];
+  }
+
+  // Store new scans only - ones already recorded are skipped and left out of the result
+  async recordTrackingEvents(events: InsertTrackingEvent[]): Promise<TrackingEventRecord[]> {
+    if (events.length === 0) return [];
+    return await db.insert(trackingEvents).values(events).onConflictDoNothing().returning();
+  }
+
+  async getTrackingEvents(orderId: number): Promise<TrackingEventRecord[]> {
+    return await db
+      .select()
+      .from(trackingEvents)
+      .where(eq(trackingEvents.orderId, orderId))
+      .orderBy(desc(trackingEvents.occurredAt));
+  }
+
+  /**
+   * Record a booking's latest carrier state and roll it up to the order. The
+   * order is marked delivered once every tracked parcel has arrived.
+   */
+  async updateTrackingStatus(orderId: number, shipmentId: number | null, status: ShippingStatusKey | null): Promise<Order> {
+    return await db.transaction(async (trx) => {
+      const [order] = await trx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      let shippingStatus = status ?? order.shippingStatus;
+      if (shipmentId) {
+        const [shipment] = await trx.select().from(orderShipments).where(eq(orderShipments.id, shipmentId));
+        const shipmentUpdates: Partial<OrderShipment> = { trackingStatus: status, lastTrackedAt: new Date(), updatedAt: new Date() };
+        if (status === 'delivered') {
+          shipmentUpdates.status = 'delivered';
+          shipmentUpdates.deliveredAt = new Date();
+        } else if (status && status !== 'pending' && shipment?.status === 'pending') {
+          // The carrier has the parcel, so it has left even if it wasn't marked dispatched
+          shipmentUpdates.status = 'dispatched';
+          shipmentUpdates.dispatchedAt = new Date();
+        }
+        await trx
+          .update(orderShipments)
+          .set(shipmentUpdates)
+          .where(eq(orderShipments.id, shipmentId));
+
+        const tracked = await trx
+          .select({ trackingStatus: orderShipments.trackingStatus })
+          .from(orderShipments)
+          .where(and(
+            eq(orderShipments.orderId, orderId),
+            sql`${orderShipments.trackingStatus} is not null`,
+            sql`${orderShipments.status} <> 'cancelled'`
+          ));
+        shippingStatus = combineShippingStatuses(tracked.map(row => row.trackingStatus as ShippingStatusKey)) ?? shippingStatus;
+      }
+
+      const orderUpdates: Partial<Order> = { shippingStatus, lastTrackedAt: new Date(), updatedAt: new Date() };
+      if (shippingStatus === 'delivered' && order.status === 'shipped') {
+        orderUpdates.status = 'delivered';
+      }
+
+      const [updated] = await trx
+        .update(orders)
+        .set(orderUpdates)
+        .where(eq(orders.id, orderId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getShippingProviderAccounts(wholesalerId: string): Promise<ShippingProviderAccount[]> {
+    return await db
+      .select()
+      .from(shippingProviderAccounts)
+      .where(eq(shippingProviderAccounts.wholesalerId, wholesalerId))
+      .orderBy(shippingProviderAccounts.createdAt);
+  }
+
+  async getShippingProviderAccount(id: number): Promise<ShippingProviderAccount | undefined> {
+    const [account] = await db.select().from(shippingProviderAccounts).where(eq(shippingProviderAccounts.id, id));
+    return account;
+  }
+
+  async createShippingProviderAccount(account: InsertShippingProviderAccount): Promise<ShippingProviderAccount> {
+    const [created] = await db.insert(shippingProviderAccounts).values(account).returning();
+    return created;
+  }
+
+  async updateShippingProviderAccount(id: number, updates: Partial<InsertShippingProviderAccount>): Promise<ShippingProviderAccount> {
+    const [updated] = await db
+      .update(shippingProviderAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shippingProviderAccounts.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Bookings made with the account keep its id, but labels and tracking for them stop once it's gone
+  async deleteShippingProviderAccount(id: number): Promise<void> {
+    await db.delete(shippingProviderAccounts).where(eq(shippingProviderAccounts.id, id));
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  // The order's invoice and any credit notes against it, oldest first
+  async getOrderInvoices(orderId: number): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.orderId, orderId))
+      .orderBy(invoices.issuedAt, invoices.id);
+  }
+
+  /**
+   * Number and save a document. The sequence row is bumped inside the same
+   * transaction, so a failed insert never uses up a number. An order only ever
+   * gets one invoice - asking again returns the one already issued.
+   */
+  async createInvoice(document: Omit<InsertInvoice, 'invoiceNumber' | 'sequenceNumber'>, numberPrefix: string | null): Promise<Invoice> {
+    return await db.transaction(async (trx) => {
+      // Serialise documents for the same order so two requests can't both issue its invoice
+      await trx.select({ id: orders.id }).from(orders).where(eq(orders.id, document.orderId)).for('update');
+
+      if (document.documentType === 'invoice') {
+        const [existing] = await trx
+          .select()
+          .from(invoices)
+          .where(and(eq(invoices.orderId, document.orderId), eq(invoices.documentType, 'invoice')));
+        if (existing) return existing;
+      }
+
+      const [sequence] = await trx
+        .insert(invoiceSequences)
+        .values({ wholesalerId: document.wholesalerId, documentType: document.documentType, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: [invoiceSequences.wholesalerId, invoiceSequences.documentType],
+          set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1` }
+        })
+        .returning();
+
+      const [created] = await trx
+        .insert(invoices)
+        .values({
+          ...document,
+          sequenceNumber: sequence.lastNumber,
+          invoiceNumber: formatInvoiceNumber(numberPrefix, document.documentType, sequence.lastNumber)
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  // Only where the PDF lives and when it was emailed can change once a document is issued
+  async updateInvoiceDelivery(id: number, updates: Pick<Partial<InsertInvoice>, 'pdfPath' | 'emailedAt'>): Promise<Invoice> {
+    const [updated] = await db
+      .update(invoices)
+      .set(updates)
+      .where(eq(invoices.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getInvoicesForDateRange(wholesalerId: string, fromDate: Date, toDate: Date): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.wholesalerId, wholesalerId),
+        gte(invoices.issuedAt, fromDate),
+        lte(invoices.issuedAt, toDate)
+      ))
+      .orderBy(invoices.issuedAt, invoices.id);
+  }
+
+  async getAccountingExports(wholesalerId: string): Promise<AccountingExport[]> {
+    return await db
+      .select()
+      .from(accountingExports)
+      .where(eq(accountingExports.wholesalerId, wholesalerId))
+      .orderBy(desc(accountingExports.lastExportedAt))
+      .limit(50);
+  }
+
+  // Exporting the same period again reuses its export, so it claims the same items
+  async startAccountingExport(wholesalerId: string, format: AccountingExportFormat, periodStart: Date, periodEnd: Date, createdBy: string): Promise<AccountingExport> {
+    const [accountingExport] = await db
+      .insert(accountingExports)
+      .values({ wholesalerId, format, periodStart, periodEnd, createdBy })
+      .onConflictDoUpdate({
+        target: [accountingExports.wholesalerId, accountingExports.format, accountingExports.periodStart, accountingExports.periodEnd],
+        set: { lastExportedAt: new Date(), createdBy }
+      })
+      .returning();
+    return accountingExport;
+  }
+
+  /**
+   * Claim items for an export. Anything already claimed by another export in
+   * the same format is left out, so overlapping periods never double count.
+   * Returns every item the export owns.
+   */
+  async claimAccountingExportItems(accountingExport: AccountingExport, items: Array<{ sourceType: AccountingSourceType; sourceId: string }>): Promise<AccountingExportItem[]> {
+    if (items.length > 0) {
+      await db
+        .insert(accountingExportItems)
+        .values(items.map(item => ({
+          exportId: accountingExport.id,
+          wholesalerId: accountingExport.wholesalerId,
+          format: accountingExport.format,
+          sourceType: item.sourceType,
+          sourceId: item.sourceId
+        })))
+        .onConflictDoNothing({
+          target: [accountingExportItems.wholesalerId, accountingExportItems.format, accountingExportItems.sourceType, accountingExportItems.sourceId]
+        });
+    }
+
+    return await db
+      .select()
+      .from(accountingExportItems)
+      .where(eq(accountingExportItems.exportId, accountingExport.id));
+  }
+
+  async updateAccountingExportRowCount(id: number, rowCount: number): Promise<AccountingExport> {
+    const [updated] = await db
+      .update(accountingExports)
+      .set({ rowCount })
+      .where(eq(accountingExports.id, id))
+      .returning();
+    return updated;
+  }
+
+  // One row per wholesaler, period and period type - recalculating replaces it
+  async saveFinancialPerformance(performance: InsertFinancialPerformance): Promise<FinancialPerformance> {
+    const [existing] = await db
+      .select({ id: financialPerformance.id })
+      .from(financialPerformance)
+      .where(and(
+        eq(financialPerformance.wholesalerId, performance.wholesalerId),
+        eq(financialPerformance.periodType, performance.periodType),
+        eq(financialPerformance.periodStart, performance.periodStart),
+        eq(financialPerformance.periodEnd, performance.periodEnd)
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(financialPerformance)
+        .set(performance)
+        .where(eq(financialPerformance.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(financialPerformance).values(performance).returning();
+    return created;
+  }
+
+  // Written inside the caller's transaction (e.g. with the order), or on its own when trx is null
+  async enqueueOutboxMessages(trx: any, messages: InsertOutboxMessage[]): Promise<OutboxMessage[]> {
+    if (messages.length === 0) return [];
+    return await (trx || db).insert(outboxMessages).values(messages).returning();
+  }
+
+  /**
+   * Claim messages that are due, plus any a worker abandoned mid-delivery.
+   * SKIP LOCKED lets several workers (or servers) claim without overlapping.
+   */
+  async claimDueOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+    return await db.transaction(async (trx) => {
+      const now = new Date();
+      const due = await trx
+        .select({ id: outboxMessages.id })
+        .from(outboxMessages)
+        .where(or(
+          and(eq(outboxMessages.status, 'pending'), lte(outboxMessages.nextAttemptAt, now)),
+          and(eq(outboxMessages.status, 'processing'), lt(outboxMessages.lockedAt, new Date(now.getTime() - OUTBOX_LOCK_TIMEOUT_MS)))
+        ))
+        .orderBy(outboxMessages.nextAttemptAt, outboxMessages.id)
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return await trx
+        .update(outboxMessages)
+        .set({ status: 'processing', lockedAt: now })
+        .where(inArray(outboxMessages.id, due.map(message => message.id)))
+        .returning();
+    });
+  }
+
+  async markOutboxMessageDelivered(id: number): Promise<void> {
+    await db
+      .update(outboxMessages)
+      .set({
+        status: 'delivered',
+        attempts: sql`${outboxMessages.attempts} + 1`,
+        deliveredAt: new Date(),
+        lockedAt: null,
+        lastError: null
+      })
+      .where(eq(outboxMessages.id, id));
+  }
+
+  // A null next attempt means the message is out of attempts and goes to the dead letters
+  async markOutboxMessageFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<OutboxMessage> {
+    const [updated] = await db
+      .update(outboxMessages)
+      .set({
+        status: nextAttemptAt ? 'pending' : 'dead',
+        attempts: sql`${outboxMessages.attempts} + 1`,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+        lockedAt: null,
+        lastError: error
+      })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getOutboxMessage(id: number): Promise<OutboxMessage | undefined> {
+    const [message] = await db.select().from(outboxMessages).where(eq(outboxMessages.id, id));
+    return message;
+  }
+
+  async getOutboxMessages(wholesalerId: string, filters: { status?: OutboxStatus; orderId?: number; limit?: number }): Promise<OutboxMessage[]> {
+    const conditions = [eq(outboxMessages.wholesalerId, wholesalerId)];
+    if (filters.status) conditions.push(eq(outboxMessages.status, filters.status));
+    if (filters.orderId) conditions.push(eq(outboxMessages.orderId, filters.orderId));
+
+    return await db
+      .select()
+      .from(outboxMessages)
+      .where(and(...conditions))
+      .orderBy(desc(outboxMessages.createdAt), desc(outboxMessages.id))
+      .limit(filters.limit || 100);
+  }
+
+  // Replay a message with a fresh set of attempts
+  async requeueOutboxMessage(id: number): Promise<OutboxMessage> {
+    const [updated] = await db
+      .update(outboxMessages)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), lockedAt: null })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Stored once per Stripe event; a redelivery returns the existing row untouched
+  async recordStripeWebhookEvent(event: InsertStripeWebhookEvent): Promise<StripeWebhookEvent> {
+    await db.insert(stripeWebhookEvents).values(event).onConflictDoNothing({ target: stripeWebhookEvents.eventId });
+    const [stored] = await db.select().from(stripeWebhookEvents).where(eq(stripeWebhookEvents.eventId, event.eventId));
+    return stored;
+  }
+
+  /**
+   * Claim an event for processing. Only one caller wins: processed events and
+   * ones being processed are left alone, unless the lock has gone stale.
+   * Forcing (a super admin's replay) also re-runs an event that was processed.
+   */
+  async claimStripeWebhookEvent(eventId: string, options: { force?: boolean } = {}): Promise<StripeWebhookEvent | undefined> {
+    const staleBefore = new Date(Date.now() - STRIPE_WEBHOOK_LOCK_TIMEOUT_MS);
+    const claimableStatuses: StripeWebhookEventStatus[] = options.force ? ['received', 'failed', 'processed'] : ['received', 'failed'];
+
+    const [claimed] = await db
+      .update(stripeWebhookEvents)
+      .set({
+        status: 'processing',
+        attempts: sql`${stripeWebhookEvents.attempts} + 1`,
+        lockedAt: new Date()
+      })
+      .where(and(
+        eq(stripeWebhookEvents.eventId, eventId),
+        or(
+          inArray(stripeWebhookEvents.status, claimableStatuses),
+          and(eq(stripeWebhookEvents.status, 'processing'), lt(stripeWebhookEvents.lockedAt, staleBefore))
+        )
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async markStripeWebhookEventProcessed(eventId: string): Promise<void> {
+    await db
+      .update(stripeWebhookEvents)
+      .set({ status: 'processed', processedAt: new Date(), lockedAt: null, lastError: null })
+      .where(eq(stripeWebhookEvents.eventId, eventId));
+  }
+
+  async markStripeWebhookEventFailed(eventId: string, error: string): Promise<void> {
+    await db
+      .update(stripeWebhookEvents)
+      .set({ status: 'failed', lockedAt: null, lastError: error })
+      .where(eq(stripeWebhookEvents.eventId, eventId));
+  }
+
+  async getStripeWebhookEvent(eventId: string): Promise<StripeWebhookEvent | undefined> {
+    const [event] = await db.select().from(stripeWebhookEvents).where(eq(stripeWebhookEvents.eventId, eventId));
+    return event;
+  }
+
+  async getStripeWebhookEvents(wholesalerId: string | null | undefined, filters: { status?: StripeWebhookEventStatus; type?: string; limit?: number }): Promise<StripeWebhookEvent[]> {
+    const conditions = [];
+    if (wholesalerId === null) conditions.push(isNull(stripeWebhookEvents.wholesalerId));
+    else if (wholesalerId !== undefined) conditions.push(eq(stripeWebhookEvents.wholesalerId, wholesalerId));
+    if (filters.status) conditions.push(eq(stripeWebhookEvents.status, filters.status));
+    if (filters.type) conditions.push(eq(stripeWebhookEvents.type, filters.type));
+
+    return await db
+      .select()
+      .from(stripeWebhookEvents)
+      .where(and(...conditions))
+      .orderBy(desc(stripeWebhookEvents.receivedAt), desc(stripeWebhookEvents.id))
+      .limit(filters.limit || 100);
+  }
+
+  // Keep the product's cost of goods up to date so inventory insights can show margins
+  private async recordPurchaseCost(
+    trx: any,
+    product: Product,
+    onHandBaseUnits: number,
+    receivedBaseUnits: number,
+    receivedCostPerBaseUnit: number
+  ): Promise<void> {
+    const [insight] = await trx
+      .select()
+      .from(inventoryInsights)
+      .where(and(eq(inventoryInsights.productId, product.id), eq(inventoryInsights.wholesalerId, product.wholesalerId)));
+
+    const costPerUnit = getWeightedAverageCost(
+      insight?.costPerUnit ? parseFloat(insight.costPerUnit) : null,
+      onHandBaseUnits,
+      receivedBaseUnits,
+      receivedCostPerBaseUnit
+    );
+    const sellingPrice = parseFloat(product.price);
+    const grossProfitPerUnit = sellingPrice - costPerUnit;
+    // profit_margin is decimal(5,2) - keep wildly unprofitable items inside the column range
+    const profitMargin = sellingPrice > 0
+      ? Math.max(-999.99, Math.min(999.99, (grossProfitPerUnit / sellingPrice) * 100))
+      : 0;
+
+    const values = {
+      costPerUnit: costPerUnit.toFixed(2),
+      sellingPrice: sellingPrice.toFixed(2),
+      grossProfitPerUnit: grossProfitPerUnit.toFixed(2),
+      profitMargin: profitMargin.toFixed(2),
+      lastUpdated: new Date()
+    };
+
+    if (insight) {
+      await trx.update(inventoryInsights).set(values).where(eq(inventoryInsights.id, insight.id));
+    } else {
+      await trx.insert(inventoryInsights).values({ ...values, wholesalerId: product.wholesalerId, productId: product.id });
+    }
+  }
+
+  private async getPurchaseOrderItems(purchaseOrderIds: number[]): Promise<(PurchaseOrderItem & { productName: string | null })[]> {
+    const rows = await db
+      .select({ item: purchaseOrderItems, productName: products.name })
+      .from(purchaseOrderItems)
+      .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(inArray(purchaseOrderItems.purchaseOrderId, purchaseOrderIds))
+      .orderBy(purchaseOrderItems.id);
+
+    return rows.map(row => ({ ...row.item, productName: row.productName }));
+  }
+
+  private async getPriceChangeProposals(batchIds: number[]): Promise<(PriceChangeProposal & { productName: string | null; livePrice: string | null })[]> {
+    const rows = await db
+      .select({ proposal: priceChangeProposals, productName: products.name, livePrice: products.price })
+      .from(priceChangeProposals)
+      .leftJoin(products, eq(priceChangeProposals.productId, products.id))
+      .where(inArray(priceChangeProposals.batchId, batchIds))
+      .orderBy(priceChangeProposals.id);
+
+    return rows.map(row => ({ ...row.proposal, productName: row.productName, livePrice: row.livePrice }));
+  }
+
+  private async withStandingOrderDetails(rows: StandingOrder[]): Promise<StandingOrderWithDetails[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(row => row.id);
+
+    const [items, runs] = await Promise.all([
+      db
+        .select({ item: standingOrderItems, productName: products.name, productStatus: products.status })
+        .from(standingOrderItems)
+        .leftJoin(products, eq(standingOrderItems.productId, products.id))
+        .where(inArray(standingOrderItems.standingOrderId, ids))
+        .orderBy(standingOrderItems.id),
+      db
+        .select()
+        .from(standingOrderRuns)
+        .where(inArray(standingOrderRuns.standingOrderId, ids))
+        .orderBy(desc(standingOrderRuns.scheduledFor))
+    ]);
+
+    return rows.map(row => ({
+      ...row,
+      items: items
+        .filter(entry => entry.item.standingOrderId === row.id)
+        .map(entry => ({ ...entry.item, productName: entry.productName, productStatus: entry.productStatus })),
+      recentRuns: runs.filter(run => run.standingOrderId === row.id).slice(0, 5)
+    }));
+  }
+
+  // An order can only be waiting on one van at a time
+  private async assertStopsAvailable(trx: any, orderIds: number[], exceptRunId: number | null): Promise<void> {
+    if (orderIds.length === 0) return;
+    const conditions = [
+      inArray(deliveryRunStops.orderId, orderIds),
+      eq(deliveryRunStops.status, 'pending'),
+      inArray(deliveryRuns.status, ['planned', 'out_for_delivery'])
+    ];
+    if (exceptRunId) conditions.push(sql`${deliveryRuns.id} <> ${exceptRunId}`);
+
+    const [conflict] = await trx
+      .select({ orderNumber: orders.orderNumber, runNumber: deliveryRuns.runNumber })
+      .from(deliveryRunStops)
+      .innerJoin(deliveryRuns, eq(deliveryRunStops.runId, deliveryRuns.id))
+      .innerJoin(orders, eq(deliveryRunStops.orderId, orders.id))
+      .where(and(...conditions));
+    if (conflict) {
+      throw new Error(`Order ${conflict.orderNumber} is already on ${conflict.runNumber}`);
+    }
+  }
+
+  // Pick an order line from the product's lots first-expiry-first-out and record the batches used
+  private async allocateStockLots(
+    trx: any,
+    orderItem: { id: number; orderId: number; productId: number; quantity: number; sellingType: string | null }
+  ): Promise<void> {
+    const lots: StockLot[] = await trx
+      .select()
+      .from(stockLots)
+      .where(and(
+        eq(stockLots.productId, orderItem.productId),
+        eq(stockLots.unitType, orderItem.sellingType === 'pallets' ? 'pallets' : 'units'),
+        sql`${stockLots.quantityRemaining} > 0`
+      ))
+      .for('update');
+
+    for (const allocation of allocateLotsFefo(lots, orderItem.quantity)) {
+      const lot = lots.find(l => l.id === allocation.stockLotId)!;
+      await trx
+        .update(stockLots)
+        .set({ quantityRemaining: lot.quantityRemaining - allocation.quantity })
+        .where(eq(stockLots.id, lot.id));
+
+      await trx.insert(orderItemLots).values({
+        orderItemId: orderItem.id,
+        orderId: orderItem.orderId,
+        stockLotId: lot.id,
+        batchCode: allocation.batchCode,
+        quantity: allocation.quantity
+      });
+    }
+  }
+
+  // Put cancelled or restocked quantity back on the lots it was picked from, latest pick first
+  private async releaseStockLots(trx: any, orderItemId: number, quantity: number): Promise<void> {
+    const allocations: OrderItemLot[] = await trx
+      .select()
+      .from(orderItemLots)
+      .where(eq(orderItemLots.orderItemId, orderItemId))
+      .orderBy(desc(orderItemLots.id));
+
+    let remaining = quantity;
+    for (const allocation of allocations) {
+      if (remaining <= 0) break;
+      const released = Math.min(remaining, allocation.quantity);
+      remaining -= released;
+
+      if (released === allocation.quantity) {
+        await trx.delete(orderItemLots).where(eq(orderItemLots.id, allocation.id));
+      } else {
+        await trx
+          .update(orderItemLots)
+          .set({ quantity: allocation.quantity - released })
+          .where(eq(orderItemLots.id, allocation.id));
+      }
+
+      await trx
+        .update(stockLots)
+        .set({ quantityRemaining: sql`${stockLots.quantityRemaining} + ${released}`, writtenOffAt: null })
+        .where(eq(stockLots.id, allocation.stockLotId));
+    }
+  }
+
+  // Move stock in or out of a warehouse. The default warehouse holds whatever the product
+  // total doesn't put elsewhere, so changes there only need the product total to move.
+  // Taking more than a depot holds throws, so per-depot stock always adds up to the product's.
+  private async adjustWarehouseStock(
+    trx: any,
+    productId: number,
+    warehouseId: number | null | undefined,
+    unitType: string | null,
+    delta: number
+  ): Promise<void> {
+    if (!warehouseId || delta === 0) return;
+
+    const [warehouse] = await trx.select().from(warehouses).where(eq(warehouses.id, warehouseId));
+    if (!warehouse || warehouse.isDefault) return;
+
+    const column = unitType === 'pallets' ? 'palletStock' : 'stock';
+    if (delta < 0) {
+      const [taken] = await trx
+        .update(warehouseStock)
+        .set({ [column]: sql`${warehouseStock[column]} + ${delta}`, updatedAt: new Date() })
+        .where(and(
+          eq(warehouseStock.warehouseId, warehouseId),
+          eq(warehouseStock.productId, productId),
+          gte(warehouseStock[column], -delta)
+        ))
+        .returning();
+      if (!taken) {
+        throw new Error(`Not enough stock at ${warehouse.name}: ${-delta} ${unitType === 'pallets' ? 'pallets' : 'units'} needed`);
+      }
+      return;
+    }
+
+    await trx
+      .insert(warehouseStock)
+      .values({ warehouseId, productId, [column]: delta })
+      .onConflictDoUpdate({
+        target: [warehouseStock.warehouseId, warehouseStock.productId],
+        set: {
+          [column]: sql`${warehouseStock[column]} + ${delta}`,
+          updatedAt: new Date()
+        }
+      });
+  }
+
+  // What a non-default depot holds of a product; null when the order has no such depot
+  private async getDepotStock(trx: any, productId: number, warehouseId: number | null | undefined, unitType: string | null): Promise<number | null> {
+    if (!warehouseId) return null;
+    const [warehouse] = await trx.select().from(warehouses).where(eq(warehouses.id, warehouseId));
+    if (!warehouse || warehouse.isDefault) return null;
+
+    const [row] = await trx
+      .select()
+      .from(warehouseStock)
+      .where(and(eq(warehouseStock.warehouseId, warehouseId), eq(warehouseStock.productId, productId)));
+    return (unitType === 'pallets' ? row?.palletStock : row?.stock) || 0;
+  }
+
+  // Catalogue prices include VAT, so each line's VAT is worked out of its total.
+  // Wholesalers without a VAT number charge none and their lines carry no rate.
+  private async applyOrderVat(
+    trx: any,
+    order: InsertOrder,
+    items: InsertOrderItem[]
+  ): Promise<{ order: InsertOrder; items: InsertOrderItem[] }> {
+    const [wholesaler] = await trx
+      .select({ vatNumber: users.vatNumber })
+      .from(users)
+      .where(eq(users.id, order.wholesalerId));
+    const vatRegistered = !!wholesaler?.vatNumber;
+
+    const productIds = items.map(item => item.productId);
+    const productRates: { id: number; vatRate: string }[] = productIds.length > 0
+      ? await trx.select({ id: products.id, vatRate: products.vatRate }).from(products).where(inArray(products.id, productIds))
+      : [];
+
+    let netAmount = 0;
+    let vatAmount = 0;
+    const vatItems = items.map(item => {
+      const productRate = productRates.find(p => p.id === item.productId)?.vatRate;
+      const rate = isVatRateCode(productRate) ? productRate : 'standard';
+      const percent = vatRegistered ? VAT_RATES[rate].percent : 0;
+      const split = splitGrossAmount(parseFloat(item.total), percent);
+      netAmount += split.net;
+      vatAmount += split.vat;
+      return {
+        ...item,
+        vatRate: vatRegistered ? rate : null,
+        vatRatePercent: vatRegistered ? percent.toFixed(2) : null,
+        netAmount: split.net.toFixed(2),
+        vatAmount: split.vat.toFixed(2)
+      };
+    });
+
+    // Delivery is charged at the standard rate
+    const delivery = splitGrossAmount(parseFloat(order.deliveryCost || '0') || 0, vatRegistered ? VAT_RATES.standard.percent : 0);
+    netAmount += delivery.net;
+    vatAmount += delivery.vat;
+
+    return {
+      order: {
+        ...order,
+        netAmount: netAmount.toFixed(2),
+        vatAmount: vatAmount.toFixed(2),
+        deliveryVatAmount: delivery.vat.toFixed(2)
+      },
+      items: vatItems
+    };
+  }
+
+  private async getNegotiationThreads(condition: any): Promise<NegotiationThread[]> {
+    const rows = await db
+      .select({
+        negotiation: negotiations,
+        productName: products.name,
+        wholesalerId: products.wholesalerId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        businessName: users.businessName
+      })
+      .from(negotiations)
+      .innerJoin(products, eq(negotiations.productId, products.id))
+      .leftJoin(users, eq(negotiations.retailerId, users.id))
+      .where(condition)
+      .orderBy(desc(negotiations.updatedAt));
+
+    if (rows.length === 0) return [];
+
+    const messages = await db
+      .select()
+      .from(negotiationMessages)
+      .where(inArray(negotiationMessages.negotiationId, rows.map(row => row.negotiation.id)))
+      .orderBy(negotiationMessages.createdAt, negotiationMessages.id);
+
+    return rows.map(row => ({
+      ...row.negotiation,
+      productName: row.productName,
+      wholesalerId: row.wholesalerId,
+      retailerName: row.businessName || [row.firstName, row.lastName].filter(Boolean).join(' ') || null,
+      messages: messages.filter(message => message.negotiationId === row.negotiation.id)
+    }));
+  }
+
+  // Derive orders.status from line fulfilment after a shipment or adjustment
+  private async syncOrderFulfilmentStatus(trx: any, orderId: number, extraUpdates: Partial<Order> = {}): Promise<void> {
+    const items = await trx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    const state = getOrderFulfilmentState(items);
+    const allCancelled = items.length > 0 && items.every((item: OrderItem) => item.cancelledQuantity >= item.quantity);
+
+    const updates: Partial<Order> = { ...extraUpdates, updatedAt: new Date() };
+    if (allCancelled) {
+      updates.status = 'cancelled';
+    } else if (state === 'fulfilled') {
+      updates.status = 'shipped';
+    } else if (state === 'partially_fulfilled') {
+      updates.status = 'partially_shipped';
+    }
+
+    await trx.update(orders).set(updates).where(eq(orders.id, orderId));
+  }
 }
 
 export const storage = new DatabaseStorage();
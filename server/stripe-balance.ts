@@ -0,0 +1,184 @@
+import Stripe from 'stripe';
+import { readFileSync } from 'fs';
+import type { PayoutBalanceTransaction, PayoutSummary } from '../shared/payout-reconciliation';
+
+/**
+ * Payouts and balance transactions for a connected account. Reconciliation
+ * only talks to Stripe through this, so it can run against recorded fixtures.
+ */
+export interface StripeBalanceSource {
+  listPayouts(stripeAccountId: string, options: { from?: Date; to?: Date; limit: number }): Promise<PayoutSummary[]>;
+  getPayout(stripeAccountId: string, payoutId: string): Promise<PayoutSummary | null>;
+  listPayoutTransactions(stripeAccountId: string, payoutId: string): Promise<PayoutBalanceTransaction[]>;
+}
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id || null);
+
+export class StripeApiBalanceSource implements StripeBalanceSource {
+  constructor(private stripe: Stripe) {}
+
+  async listPayouts(stripeAccountId: string, options: { from?: Date; to?: Date; limit: number }): Promise<PayoutSummary[]> {
+    const arrivalDate = options.from || options.to
+      ? {
+          ...(options.from ? { gte: Math.floor(options.from.getTime() / 1000) } : {}),
+          ...(options.to ? { lte: Math.floor(options.to.getTime() / 1000) } : {})
+        }
+      : undefined;
+
+    const payouts = await this.stripe.payouts
+      .list({ limit: Math.min(options.limit, 100), ...(arrivalDate ? { arrival_date: arrivalDate } : {}) }, { stripeAccount: stripeAccountId })
+      .autoPagingToArray({ limit: options.limit });
+    return payouts.map(payout => this.toSummary(payout));
+  }
+
+  async getPayout(stripeAccountId: string, payoutId: string): Promise<PayoutSummary | null> {
+    try {
+      return this.toSummary(await this.stripe.payouts.retrieve(payoutId, {}, { stripeAccount: stripeAccountId }));
+    } catch (error: any) {
+      if (error?.code === 'resource_missing') return null;
+      throw error;
+    }
+  }
+
+  async listPayoutTransactions(stripeAccountId: string, payoutId: string): Promise<PayoutBalanceTransaction[]> {
+    const transactions = await this.stripe.balanceTransactions
+      .list({ payout: payoutId, limit: 100, expand: ['data.source'] }, { stripeAccount: stripeAccountId })
+      .autoPagingToArray({ limit: 10000 });
+
+    const resolved = new Map<string, Promise<string | null>>();
+    const results: PayoutBalanceTransaction[] = [];
+    for (const transaction of transactions) {
+      results.push({
+        id: transaction.id,
+        type: transaction.type,
+        description: transaction.description,
+        amount: transaction.amount / 100,
+        fee: transaction.fee / 100,
+        net: transaction.net / 100,
+        createdAt: toIso(transaction.created),
+        sourceId: idOf(transaction.source as any),
+        paymentIntentId: transaction.type === 'payout' ? null : await this.resolvePaymentIntent(transaction.source, stripeAccountId, resolved)
+      });
+    }
+    return results;
+  }
+
+  private toSummary(payout: Stripe.Payout): PayoutSummary {
+    return {
+      id: payout.id,
+      amount: payout.amount / 100,
+      currency: payout.currency.toUpperCase(),
+      status: payout.status,
+      arrivalDate: toIso(payout.arrival_date),
+      createdAt: toIso(payout.created),
+      automatic: payout.automatic
+    };
+  }
+
+  /**
+   * Follow a transaction's source back to the payment intent it came from.
+   * Destination charges land on the connected account as a payment whose
+   * transfer points at the platform charge; refunds and fees point at the
+   * charge they were taken from. Lookups are cached per payout.
+   */
+  private resolvePaymentIntent(source: any, stripeAccountId: string, resolved: Map<string, Promise<string | null>>): Promise<string | null> {
+    const sourceId = idOf(source);
+    if (!source || typeof source === 'string' || !sourceId) return Promise.resolve(null);
+
+    if (!resolved.has(sourceId)) {
+      resolved.set(sourceId, this.lookupPaymentIntent(source, stripeAccountId, resolved).catch(error => {
+        console.error(`Could not resolve payment intent for ${sourceId}:`, error.message);
+        return null;
+      }));
+    }
+    return resolved.get(sourceId)!;
+  }
+
+  private async lookupPaymentIntent(source: any, stripeAccountId: string, resolved: Map<string, Promise<string | null>>): Promise<string | null> {
+    switch (source.object) {
+      case 'charge': {
+        const paymentIntentId = idOf(source.payment_intent);
+        if (paymentIntentId) return paymentIntentId;
+        const transferId = idOf(source.source_transfer);
+        return transferId ? await this.getTransferPaymentIntent(transferId) : null;
+      }
+      case 'refund': {
+        const chargeId = idOf(source.charge);
+        if (!chargeId) return idOf(source.payment_intent);
+        const charge = await this.stripe.charges.retrieve(chargeId, {}, { stripeAccount: stripeAccountId });
+        return await this.resolvePaymentIntent(charge, stripeAccountId, resolved);
+      }
+      case 'application_fee': {
+        const chargeId = idOf(source.originating_transaction);
+        if (!chargeId) return null;
+        const charge = await this.stripe.charges.retrieve(chargeId, {}, { stripeAccount: stripeAccountId });
+        return await this.resolvePaymentIntent(charge, stripeAccountId, resolved);
+      }
+      case 'fee_refund': {
+        const feeId = idOf(source.fee);
+        if (!feeId) return null;
+        return await this.resolvePaymentIntent(await this.stripe.applicationFees.retrieve(feeId), stripeAccountId, resolved);
+      }
+      case 'transfer_reversal': {
+        const transferId = idOf(source.transfer);
+        return transferId ? await this.getTransferPaymentIntent(transferId) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Platform transfer -> the platform charge it was funded by -> its payment intent
+  private async getTransferPaymentIntent(transferId: string): Promise<string | null> {
+    const transfer = await this.stripe.transfers.retrieve(transferId);
+    const chargeId = idOf(transfer.source_transaction as any);
+    if (!chargeId) return null;
+    const charge = await this.stripe.charges.retrieve(chargeId);
+    return idOf(charge.payment_intent);
+  }
+}
+
+// Recorded payouts and their transactions, keyed by connected account
+export type StripeBalanceFixtures = Record<string, {
+  payouts: PayoutSummary[];
+  transactions: Record<string, PayoutBalanceTransaction[]>; // By payout id
+}>;
+
+/**
+ * Serves recorded payouts instead of calling Stripe, filtered the same way
+ * the API filters them: newest first, by arrival date, up to the limit.
+ */
+export class FixtureBalanceSource implements StripeBalanceSource {
+  constructor(private fixtures: StripeBalanceFixtures) {}
+
+  static fromFile(path: string): FixtureBalanceSource {
+    return new FixtureBalanceSource(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async listPayouts(stripeAccountId: string, options: { from?: Date; to?: Date; limit: number }): Promise<PayoutSummary[]> {
+    return (this.fixtures[stripeAccountId]?.payouts || [])
+      .filter(payout => !options.from || new Date(payout.arrivalDate) >= options.from)
+      .filter(payout => !options.to || new Date(payout.arrivalDate) <= options.to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit);
+  }
+
+  async getPayout(stripeAccountId: string, payoutId: string): Promise<PayoutSummary | null> {
+    return this.fixtures[stripeAccountId]?.payouts.find(payout => payout.id === payoutId) || null;
+  }
+
+  async listPayoutTransactions(stripeAccountId: string, payoutId: string): Promise<PayoutBalanceTransaction[]> {
+    return this.fixtures[stripeAccountId]?.transactions[payoutId] || [];
+  }
+}
+
+// STRIPE_BALANCE_FIXTURES points at a recorded fixtures file to use in place of the live API
+export function createStripeBalanceSource(): StripeBalanceSource | null {
+  if (process.env.STRIPE_BALANCE_FIXTURES) return FixtureBalanceSource.fromFile(process.env.STRIPE_BALANCE_FIXTURES);
+  if (!process.env.STRIPE_SECRET_KEY) return null;
+  return new StripeApiBalanceSource(new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: "2025-08-27.basil",
+  }));
+}
@@ -0,0 +1,93 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { fulfilmentSlotService, SlotUnavailableError, type BookedSlot } from "../services/fulfilmentSlotService";
+
+const bookedSlot: BookedSlot = {
+  fulfilmentSlotId: 3,
+  slotStartsAt: new Date("2026-11-02T08:00:00.000Z"),
+  slotEndsAt: new Date("2026-11-02T12:00:00.000Z"),
+};
+
+/**
+ * Bookings for one slot, with the advisory lock held until the fake
+ * transaction commits - as pg_advisory_xact_lock is
+ */
+function stubSlotBookings(capacity: number | null, booked = 0) {
+  let lockHeld: Promise<void> = Promise.resolve();
+  const steps: string[] = [];
+
+  mock.method(storage, "getFulfilmentSlot", async () => ({ id: 3, type: "collection", capacity }));
+  mock.method(storage, "lockSlotBookings", async (trx: any) => {
+    const previous = lockHeld;
+    lockHeld = new Promise(resolve => { trx.commit = resolve; });
+    await previous;
+    steps.push(`lock ${trx.name}`);
+  });
+  mock.method(storage, "countSlotBookings", async (trx: any) => {
+    steps.push(`count ${trx.name}`);
+    return booked;
+  });
+
+  // Reserve the slot and write the order, as checkout does inside its transaction
+  const checkout = async (name: string) => {
+    const trx: any = { name, commit: () => {} };
+    try {
+      await fulfilmentSlotService.reserveSlot(trx, bookedSlot);
+      await new Promise(resolve => setImmediate(resolve));
+      booked++;
+    } finally {
+      trx.commit();
+    }
+  };
+
+  return { checkout, steps, booked: () => booked };
+}
+
+afterEach(() => mock.restoreAll());
+
+test("two checkouts racing for the last place can't both get it", async () => {
+  const slot = stubSlotBookings(5, 4);
+
+  const results = await Promise.allSettled([slot.checkout("first"), slot.checkout("second")]);
+
+  assert.equal(results[0].status, "fulfilled");
+  assert.equal(results[1].status, "rejected");
+  assert.ok((results[1] as PromiseRejectedResult).reason instanceof SlotUnavailableError);
+  assert.match((results[1] as PromiseRejectedResult).reason.message, /collection slot has just filled up/);
+  assert.equal(slot.booked(), 5);
+});
+
+test("counts bookings only once it holds the slot's lock", async () => {
+  const slot = stubSlotBookings(10);
+
+  await Promise.all([slot.checkout("first"), slot.checkout("second")]);
+
+  assert.deepEqual(slot.steps, ["lock first", "count first", "lock second", "count second"]);
+});
+
+test("keeps a paid order in a slot that filled after payment", async () => {
+  stubSlotBookings(2, 2);
+
+  await fulfilmentSlotService.reserveSlot({}, bookedSlot, { paid: true });
+});
+
+test("refuses an unpaid order once the slot is full", async () => {
+  stubSlotBookings(2, 2);
+
+  await assert.rejects(fulfilmentSlotService.reserveSlot({}, bookedSlot), SlotUnavailableError);
+});
+
+test("doesn't limit slots without a capacity", async () => {
+  const slot = stubSlotBookings(null, 500);
+
+  await fulfilmentSlotService.reserveSlot({ name: "only" }, bookedSlot);
+  assert.deepEqual(slot.steps, ["lock only"]);
+});
+
+test("does nothing for orders without a slot", async () => {
+  const slot = stubSlotBookings(1, 1);
+
+  await fulfilmentSlotService.reserveSlot({}, null);
+  assert.deepEqual(slot.steps, []);
+});
@@ -0,0 +1,143 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { outboxService, getWhatsAppAlertProvider } from "../services/outboxService";
+import { invoiceService } from "../services/invoiceService";
+import { orderNotificationService } from "../services/orderNotificationService";
+import { whatsAppBusinessService } from "../whatsapp-simple";
+import { getOutboxRetryDelay } from "../../shared/outbox";
+import type { Order, OutboxMessage } from "@shared/schema";
+
+const order = { id: 42, orderNumber: "ORD-42", wholesalerId: "wholesaler-1", customerEmail: "shop@example.com", status: "shipped" } as Order;
+
+const outboxMessage = (overrides: Partial<OutboxMessage> = {}) =>
+  ({ id: 1, type: "order_invoice", orderId: 42, wholesalerId: "wholesaler-1", payload: {}, attempts: 0, maxAttempts: 8, ...overrides }) as OutboxMessage;
+
+// Hand out one batch of due messages, then nothing
+function stubDueMessages(messages: OutboxMessage[]) {
+  let claimed = false;
+  mock.method(storage, "claimDueOutboxMessages", async () => {
+    if (claimed) return [];
+    claimed = true;
+    return messages;
+  });
+  return {
+    delivered: mock.method(storage, "markOutboxMessageDelivered", async () => {}),
+    failed: mock.method(storage, "markOutboxMessageFailed", async () => {})
+  };
+}
+
+afterEach(() => mock.restoreAll());
+
+test("queues every side-effect of a new order against the order", () => {
+  const messages = outboxService.getOrderPlacedMessages(order, {
+    stripeInvoice: true,
+    whatsappMessage: "New order ORD-42",
+    welcome: { customerId: "customer-1" } as any
+  });
+
+  assert.deepEqual(messages.map(message => message.type), [
+    "order_confirmation_email",
+    "order_invoice",
+    "stripe_invoice",
+    "wholesaler_order_email",
+    "wholesaler_whatsapp",
+    "welcome_messages"
+  ]);
+  assert.ok(messages.every(message => message.orderId === 42 && message.wholesalerId === "wholesaler-1"));
+  assert.deepEqual(messages[4].payload, { message: "New order ORD-42" });
+});
+
+test("leaves out customer emails when the order has no email address", () => {
+  const messages = outboxService.getOrderPlacedMessages({ ...order, customerEmail: null }, { stripeInvoice: true });
+
+  assert.deepEqual(messages.map(message => message.type), ["order_invoice", "wholesaler_order_email"]);
+});
+
+test("queues a status update carrying the order's new status", () => {
+  const [message] = outboxService.getOrderStatusMessages(order);
+
+  assert.equal(message.type, "order_status_update");
+  assert.deepEqual(message.payload, { status: "shipped" });
+});
+
+test("marks delivered messages as delivered", async () => {
+  const issue = mock.method(invoiceService, "issueForOrder", async () => ({}) as any);
+  const { delivered, failed } = stubDueMessages([outboxMessage()]);
+
+  const result = await outboxService.deliverDueMessages();
+
+  assert.deepEqual(result, { delivered: 1, retrying: 0, dead: 0 });
+  assert.deepEqual(issue.mock.calls[0].arguments, [42]);
+  assert.deepEqual(delivered.mock.calls[0].arguments, [1]);
+  assert.equal(failed.mock.callCount(), 0);
+});
+
+test("retries a failed message with backoff until it runs out of attempts", async () => {
+  mock.method(invoiceService, "issueForOrder", async () => {
+    throw new Error("Object storage unavailable");
+  });
+  const { delivered, failed } = stubDueMessages([
+    outboxMessage({ id: 1, attempts: 2 }),
+    outboxMessage({ id: 2, attempts: 7 })
+  ]);
+
+  const before = Date.now();
+  const result = await outboxService.deliverDueMessages();
+
+  assert.deepEqual(result, { delivered: 0, retrying: 1, dead: 1 });
+  assert.equal(delivered.mock.callCount(), 0);
+
+  const [retryId, retryError, nextAttemptAt] = failed.mock.calls[0].arguments as [number, string, Date];
+  assert.equal(retryId, 1);
+  assert.equal(retryError, "Object storage unavailable");
+  assert.ok(nextAttemptAt.getTime() >= before + getOutboxRetryDelay(3));
+
+  assert.deepEqual(failed.mock.calls[1].arguments, [2, "Object storage unavailable", null]);
+});
+
+test("sends status updates to the customer with the queued status", async () => {
+  const send = mock.method(orderNotificationService, "sendOrderStatusUpdate", async () => {});
+  mock.method(storage, "getOrder", async () => ({
+    ...order,
+    status: "delivered",
+    retailer: { firstName: "Sam", lastName: "Shop", phoneNumber: "+447700900001", email: "shop@example.com" },
+    wholesaler: { businessName: "Cash & Carry" },
+    items: []
+  }));
+  stubDueMessages([outboxMessage({ type: "order_status_update", payload: { status: "shipped" } })]);
+
+  await outboxService.deliverDueMessages();
+
+  const [notification] = send.mock.calls[0].arguments as any[];
+  assert.equal(notification.status, "shipped");
+  assert.equal(notification.customerName, "Sam Shop");
+  assert.equal(notification.wholesalerName, "Cash & Carry");
+});
+
+test("sends WhatsApp alerts through the wholesaler's WhatsApp Business account", async () => {
+  const send = mock.method(whatsAppBusinessService, "sendMessage", async () => ({ success: true }) as any);
+  mock.method(storage, "getOrder", async () => ({
+    ...order,
+    items: [],
+    retailer: {},
+    wholesaler: { businessPhone: "+447700900002", whatsappAccessToken: "token", whatsappBusinessPhoneId: "phone-id" }
+  }));
+  const { delivered } = stubDueMessages([outboxMessage({ type: "wholesaler_whatsapp", payload: { message: "New order ORD-42" } })]);
+
+  await outboxService.deliverDueMessages();
+
+  assert.deepEqual(send.mock.calls[0].arguments, ["+447700900002", "New order ORD-42", { accessToken: "token", phoneNumberId: "phone-id" }]);
+  assert.equal(delivered.mock.callCount(), 1);
+});
+
+test("picks the WhatsApp provider the wholesaler has set up", () => {
+  const direct = { businessPhone: "+447700900002", whatsappAccessToken: "token", whatsappBusinessPhoneId: "phone-id" };
+  const viaTwilio = { twilioAccountSid: "AC1", twilioAuthToken: "auth", twilioPhoneNumber: "+447700900003" };
+
+  assert.equal(getWhatsAppAlertProvider(direct), "direct");
+  assert.equal(getWhatsAppAlertProvider(viaTwilio), "twilio");
+  assert.equal(getWhatsAppAlertProvider({ ...direct, ...viaTwilio }), "twilio");
+  assert.equal(getWhatsAppAlertProvider({ ...direct, ...viaTwilio, whatsappProvider: "direct" }), "direct");
+  assert.equal(getWhatsAppAlertProvider({ businessPhone: "+447700900002" }), null);
+});
@@ -0,0 +1,110 @@
+import { test, mock, afterEach, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { paymentMethodService, OffSessionChargeError, type OffSessionChargeInput } from "../services/paymentMethodService";
+import { stubStripe } from "./stripe-stub";
+import type { User } from "@shared/schema";
+
+const wholesaler = { id: "wholesaler-1", stripeAccountId: "acct_wholesaler" } as User;
+
+const charge = (overrides: Partial<OffSessionChargeInput> = {}): OffSessionChargeInput => ({
+  customerId: "customer-1",
+  wholesaler,
+  amount: 12.5,
+  wholesalerReceives: 0,
+  paymentMethodId: "pm_card",
+  description: "Delivery top-up",
+  metadata: { orderId: "1" },
+  idempotencyKey: "order_charge_1",
+  ...overrides
+});
+
+let connectReady = true;
+
+beforeEach(() => {
+  connectReady = true;
+  mock.method(storage, "getUser", async () => ({ id: "customer-1", email: "shop@example.com", stripeCustomerId: "cus_1" }));
+  stubStripe("accounts", "retrieve", async () => ({ charges_enabled: connectReady, details_submitted: connectReady }));
+});
+
+afterEach(() => mock.restoreAll());
+
+function stubPaymentIntents(confirm: (id: string) => any = id => ({ id, status: "succeeded" })) {
+  const create = stubStripe("paymentIntents", "create", async (params: any) => ({ id: "pi_1", status: "requires_confirmation", ...params }));
+  const confirmed = stubStripe("paymentIntents", "confirm", async (id: string) => confirm(id));
+  return { create, confirm: confirmed };
+}
+
+test("charges on behalf of the wholesaler even when nothing is transferred to them", async () => {
+  const { create } = stubPaymentIntents();
+
+  await paymentMethodService.chargeOffSession(charge({ wholesalerReceives: 0 }));
+
+  const [params] = create.mock.calls[0].arguments;
+  assert.equal(params.on_behalf_of, "acct_wholesaler");
+  assert.equal(params.transfer_data, undefined);
+  assert.equal(params.amount, 1250);
+  assert.equal(params.metadata.wholesalerId, "wholesaler-1");
+});
+
+test("transfers the wholesaler's share when they receive part of the charge", async () => {
+  const { create } = stubPaymentIntents();
+
+  await paymentMethodService.chargeOffSession(charge({ amount: 110, wholesalerReceives: 96.7 }));
+
+  const [params] = create.mock.calls[0].arguments;
+  assert.equal(params.on_behalf_of, "acct_wholesaler");
+  assert.deepEqual(params.transfer_data, { destination: "acct_wholesaler", amount: 9670 });
+});
+
+test("keeps the charge on the platform when the Connect account can't take charges", async () => {
+  connectReady = false;
+  const { create } = stubPaymentIntents();
+
+  await paymentMethodService.chargeOffSession(charge({ wholesalerReceives: 50 }));
+
+  const [params] = create.mock.calls[0].arguments;
+  assert.equal(params.on_behalf_of, undefined);
+  assert.equal(params.transfer_data, undefined);
+});
+
+test("hands over the PaymentIntent before the card is charged", async () => {
+  const steps: string[] = [];
+  const create = stubStripe("paymentIntents", "create", async () => {
+    steps.push("create");
+    return { id: "pi_1", status: "requires_confirmation" };
+  });
+  const confirm = stubStripe("paymentIntents", "confirm", async (id: string) => {
+    steps.push("confirm");
+    return { id, status: "succeeded" };
+  });
+
+  const paymentIntent = await paymentMethodService.chargeOffSession(charge({
+    onCreated: async created => { steps.push(`recorded ${created.id}`); }
+  }));
+
+  assert.deepEqual(steps, ["create", "recorded pi_1", "confirm"]);
+  assert.equal(paymentIntent.status, "succeeded");
+  assert.equal(create.mock.calls[0].arguments[0].confirm, undefined);
+  assert.deepEqual(create.mock.calls[0].arguments[1], { idempotencyKey: "order_charge_1" });
+  assert.deepEqual(confirm.mock.calls[0].arguments[1], { off_session: true });
+  assert.deepEqual(confirm.mock.calls[0].arguments[2], { idempotencyKey: "order_charge_1_confirm" });
+});
+
+test("turns a declined card into an OffSessionChargeError", async () => {
+  stubPaymentIntents(() => {
+    throw Object.assign(new Error("Your card was declined."), { type: "StripeCardError" });
+  });
+
+  await assert.rejects(paymentMethodService.chargeOffSession(charge()), (error: any) =>
+    error instanceof OffSessionChargeError && /Card payment failed - Your card was declined/.test(error.message)
+  );
+});
+
+test("refuses to charge a customer with no saved card", async () => {
+  mock.method(storage, "getUser", async () => ({ id: "customer-1", stripeCustomerId: null }));
+  const { create } = stubPaymentIntents();
+
+  await assert.rejects(paymentMethodService.chargeOffSession(charge()), OffSessionChargeError);
+  assert.equal(create.mock.callCount(), 0);
+});
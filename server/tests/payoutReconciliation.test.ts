@@ -0,0 +1,114 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { storage } from "../storage";
+import { FixtureBalanceSource } from "../stripe-balance";
+import { PayoutReconciliationService } from "../services/payoutReconciliationService";
+import type { PayoutOrderMatch } from "../../shared/payout-reconciliation";
+import type { User } from "@shared/schema";
+
+const source = FixtureBalanceSource.fromFile(path.join(import.meta.dirname, "fixtures/stripe-balance.json"));
+const service = new PayoutReconciliationService(source);
+const wholesaler = { id: "wholesaler-1", stripeAccountId: "acct_wholesaler" } as User;
+
+// Orders the wholesaler has on record for the fixture's payment intents
+const ORDER_MATCHES: PayoutOrderMatch[] = [
+  { paymentIntentId: "pi_order", orderId: 101, orderNumber: "ORD-101", chargeId: null },
+  { paymentIntentId: "pi_topup", orderId: 101, orderNumber: "ORD-101", chargeId: 7 },
+];
+
+function stubOrderMatches() {
+  return mock.method(storage, "getOrdersForPaymentIntents", async (_wholesalerId: string, paymentIntentIds: string[]) =>
+    ORDER_MATCHES.filter(match => paymentIntentIds.includes(match.paymentIntentId))
+  );
+}
+
+afterEach(() => mock.restoreAll());
+
+test("matches payout transactions to orders and order charges by payment intent", async () => {
+  const lookup = stubOrderMatches();
+
+  const reconciliation = await service.reconcile(wholesaler, "po_march");
+  assert.ok(reconciliation);
+
+  assert.deepEqual(lookup.mock.calls[0].arguments, ["wholesaler-1", ["pi_order", "pi_topup", "pi_unknown"]]);
+
+  const byId = new Map(reconciliation.transactions.map(transaction => [transaction.id, transaction]));
+  assert.equal(byId.get("txn_order_payment")?.orderNumber, "ORD-101");
+  assert.equal(byId.get("txn_order_payment")?.orderChargeId, null);
+  assert.equal(byId.get("txn_order_refund")?.orderId, 101);
+  assert.equal(byId.get("txn_order_refund")?.category, "refund");
+  assert.equal(byId.get("txn_topup_payment")?.orderChargeId, 7);
+  assert.equal(byId.get("txn_order_payment")?.unmatched, false);
+});
+
+test("flags charges and refunds with no order but not Stripe's own fees", async () => {
+  stubOrderMatches();
+
+  const reconciliation = await service.reconcile(wholesaler, "po_march");
+  assert.ok(reconciliation);
+
+  const flagged = reconciliation.transactions.filter(transaction => transaction.unmatched).map(transaction => transaction.id);
+  assert.deepEqual(flagged, ["txn_unknown_payment", "txn_unresolved_refund"]);
+  assert.equal(reconciliation.unmatchedCount, 2);
+
+  const stripeFee = reconciliation.transactions.find(transaction => transaction.id === "txn_stripe_fee");
+  assert.equal(stripeFee?.category, "adjustment");
+  assert.equal(stripeFee?.unmatched, false);
+});
+
+test("leaves the payout itself out and balances against its transactions", async () => {
+  stubOrderMatches();
+
+  const reconciliation = await service.reconcile(wholesaler, "po_march");
+  assert.ok(reconciliation);
+
+  assert.ok(!reconciliation.transactions.some(transaction => transaction.type === "payout"));
+  assert.deepEqual(reconciliation.totals, { gross: 91.7, fees: 0, net: 91.7 });
+  assert.equal(reconciliation.difference, 0);
+});
+
+test("reports the difference when a payout doesn't add up to its transactions", async () => {
+  stubOrderMatches();
+
+  const reconciliation = await service.reconcile(wholesaler, "po_april");
+  assert.ok(reconciliation);
+
+  assert.equal(reconciliation.difference, 5);
+  assert.equal(reconciliation.unmatchedCount, 1);
+});
+
+test("doesn't expect manual payouts to balance", async () => {
+  stubOrderMatches();
+
+  const reconciliation = await service.reconcile(wholesaler, "po_manual");
+  assert.ok(reconciliation);
+
+  assert.equal(reconciliation.transactions.length, 0);
+  assert.equal(reconciliation.difference, 0);
+});
+
+test("returns null for a payout that isn't on the wholesaler's account", async () => {
+  stubOrderMatches();
+
+  assert.equal(await service.reconcile(wholesaler, "po_missing"), null);
+  assert.equal(await service.reconcile({ ...wholesaler, stripeAccountId: "acct_other" }, "po_march"), null);
+});
+
+test("lists payouts newest first within the arrival date range", async () => {
+  const all = await service.listPayouts(wholesaler);
+  assert.deepEqual(all.map(payout => payout.id), ["po_manual", "po_april", "po_march"]);
+
+  const april = await service.listPayouts(wholesaler, { from: new Date("2026-04-01"), to: new Date("2026-04-05") });
+  assert.deepEqual(april.map(payout => payout.id), ["po_april"]);
+
+  const latest = await service.listPayouts(wholesaler, { limit: 1 });
+  assert.deepEqual(latest.map(payout => payout.id), ["po_manual"]);
+});
+
+test("refuses wholesalers without a connected Stripe account", async () => {
+  await assert.rejects(
+    service.listPayouts({ ...wholesaler, stripeAccountId: null } as User),
+    /Connect a Stripe account/
+  );
+});
@@ -0,0 +1,60 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { PriceChangeService } from "../services/priceChangeService";
+import type { Product } from "@shared/schema";
+
+const service = new PriceChangeService();
+
+const product = (id: number, price: string, guardrails: Partial<Product> = {}) =>
+  ({ id, wholesalerId: "wholesaler-1", price, priceFloor: null, priceCeiling: null, ...guardrails }) as Product;
+
+afterEach(() => mock.restoreAll());
+
+test("loads the wholesaler's products in one query and skips anyone else's", async () => {
+  const lookup = mock.method(storage, "getWholesalerProductsByIds", async () => [product(1, "10.00"), product(2, "5.00")]);
+  const getProduct = mock.method(storage, "getProduct", async () => undefined);
+  const create = mock.method(storage, "createPriceChangeBatch", async (_batch: any, proposals: any[]) => ({ id: 9, proposals }) as any);
+
+  await service.queueRecommendations("wholesaler-1", "demand_based", [
+    { productId: 1, recommendedPrice: 11 },
+    { productId: 2, recommendedPrice: 4.5 },
+    { productId: 1, recommendedPrice: 12 },
+    { productId: 99, recommendedPrice: 1 },
+  ]);
+
+  assert.equal(lookup.mock.callCount(), 1);
+  assert.deepEqual(lookup.mock.calls[0].arguments, ["wholesaler-1", [1, 2, 99]]);
+  assert.equal(getProduct.mock.callCount(), 0);
+
+  const proposals = create.mock.calls[0].arguments[1];
+  assert.deepEqual(proposals.map((proposal: any) => proposal.productId), [1, 2, 1]);
+});
+
+test("clamps recommendations to guardrails and blocks ones left at the current price", async () => {
+  mock.method(storage, "getWholesalerProductsByIds", async () => [
+    product(1, "10.00", { priceCeiling: "10.50" }),
+    product(2, "5.00", { priceFloor: "5.00" }),
+  ]);
+  const create = mock.method(storage, "createPriceChangeBatch", async (_batch: any, proposals: any[]) => ({ id: 9, proposals }) as any);
+
+  await service.queueRecommendations("wholesaler-1", "demand_based", [
+    { productId: 1, recommendedPrice: 12 },
+    { productId: 2, recommendedPrice: 4 },
+  ]);
+
+  const [ceiling, floor] = create.mock.calls[0].arguments[1];
+  assert.equal(ceiling.proposedPrice, "10.50");
+  assert.equal(ceiling.guardrail, "ceiling");
+  assert.equal(ceiling.status, "pending");
+  assert.equal(floor.proposedPrice, "5.00");
+  assert.equal(floor.status, "blocked");
+});
+
+test("queues nothing when none of the products are the wholesaler's", async () => {
+  mock.method(storage, "getWholesalerProductsByIds", async () => []);
+  const create = mock.method(storage, "createPriceChangeBatch", async () => ({}) as any);
+
+  assert.equal(await service.queueRecommendations("wholesaler-1", "demand_based", [{ productId: 99, recommendedPrice: 1 }]), null);
+  assert.equal(create.mock.callCount(), 0);
+});
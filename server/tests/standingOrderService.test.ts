@@ -0,0 +1,64 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { standingOrderService } from "../services/standingOrderService";
+import { stubStripe } from "./stripe-stub";
+
+const run = (overrides: Record<string, any> = {}) => ({
+  id: 5,
+  standingOrderId: 3,
+  scheduledFor: new Date("2026-10-19T05:00:00.000Z"),
+  status: "processing",
+  orderId: null,
+  message: null,
+  stripePaymentIntentId: null,
+  attemptedAt: new Date(),
+  createdAt: new Date("2026-10-19T05:00:05.000Z"),
+  ...overrides
+});
+
+const standingOrder = (status: string) => ({ id: 3, status, retailerId: "customer-1", wholesalerId: "wholesaler-1", failureCount: 0 });
+
+// Runs a crash left 'processing', and nothing newly due
+function stubInterruptedRuns(...interrupted: { run: ReturnType<typeof run>; standingOrder: ReturnType<typeof standingOrder> }[]) {
+  mock.method(storage, "claimInterruptedStandingOrderRuns", async () => interrupted);
+  mock.method(storage, "claimDueStandingOrders", async () => []);
+  return mock.method(storage, "completeStandingOrderRun", async () => ({}));
+}
+
+afterEach(() => mock.restoreAll());
+
+test("completes an interrupted run whose order was committed without placing it again", async () => {
+  const complete = stubInterruptedRuns({ run: run({ orderId: 77, stripePaymentIntentId: "pi_run" }), standingOrder: standingOrder("active") });
+  const retrieve = stubStripe("paymentIntents", "retrieve", async () => ({}));
+  const getUser = mock.method(storage, "getUser", async () => undefined);
+
+  await standingOrderService.processDueStandingOrders();
+
+  assert.deepEqual(complete.mock.calls[0].arguments, [5, { status: "ordered", orderId: 77 }]);
+  assert.equal(retrieve.mock.callCount(), 0);
+  assert.equal(getUser.mock.callCount(), 0);
+});
+
+test("refunds the charge of an interrupted run once its standing order has been paused", async () => {
+  const complete = stubInterruptedRuns({ run: run({ stripePaymentIntentId: "pi_run" }), standingOrder: standingOrder("paused") });
+  stubStripe("paymentIntents", "retrieve", async (id: string) => ({ id, status: "succeeded", transfer_data: { destination: "acct_wholesaler" } }));
+  const refund = stubStripe("refunds", "create", async () => ({ id: "re_1" }));
+
+  await standingOrderService.processDueStandingOrders();
+
+  assert.deepEqual(refund.mock.calls[0].arguments[0], { payment_intent: "pi_run", reverse_transfer: true });
+  assert.deepEqual(complete.mock.calls[0].arguments, [5, { status: "skipped", message: "Skipped - standing order paused" }]);
+});
+
+test("cancels a payment that was never confirmed rather than refunding it", async () => {
+  stubInterruptedRuns({ run: run({ stripePaymentIntentId: "pi_run" }), standingOrder: standingOrder("cancelled") });
+  stubStripe("paymentIntents", "retrieve", async (id: string) => ({ id, status: "requires_confirmation" }));
+  const cancel = stubStripe("paymentIntents", "cancel", async () => ({}));
+  const refund = stubStripe("refunds", "create", async () => ({}));
+
+  await standingOrderService.processDueStandingOrders();
+
+  assert.deepEqual(cancel.mock.calls[0].arguments[0], "pi_run");
+  assert.equal(refund.mock.callCount(), 0);
+});
@@ -0,0 +1,10 @@
+import Stripe from "stripe";
+import { mock, type Mock } from "node:test";
+
+// Resource methods live on prototypes shared by every client, so stubbing one
+// here reaches the client each service creates for itself
+const client = new Stripe("sk_test_stub");
+
+export function stubStripe(resource: keyof Stripe, method: string, implementation: (...args: any[]) => any): Mock<(...args: any[]) => any> {
+  return mock.method(Object.getPrototypeOf(client[resource]), method, implementation);
+}
@@ -0,0 +1,109 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import { stripeWebhookService } from "../services/stripeWebhookService";
+import { stubStripe } from "./stripe-stub";
+
+const PAID_AT = Date.UTC(2026, 2, 1, 9, 30) / 1000;
+
+const planPaymentEvent = {
+  id: "evt_plan",
+  type: "payment_intent.succeeded",
+  created: PAID_AT,
+  account: null,
+  livemode: false,
+  data: { object: { id: "pi_plan", created: PAID_AT, metadata: { userId: "wholesaler-1", tier: "premium" } } }
+} as unknown as Stripe.Event;
+
+// The stored event as the claim hands it back, or null when it isn't this caller's to process
+function stubEventStore(claim: (eventId: string, options: { force?: boolean }) => any = () => ({ type: planPaymentEvent.type, attempts: 1, payload: planPaymentEvent })) {
+  return {
+    record: mock.method(storage, "recordStripeWebhookEvent", async () => {}),
+    claim: mock.method(storage, "claimStripeWebhookEvent", async (eventId: string, options: { force?: boolean }) => claim(eventId, options)),
+    processed: mock.method(storage, "markStripeWebhookEventProcessed", async () => {}),
+    failed: mock.method(storage, "markStripeWebhookEventFailed", async () => {}),
+    get: mock.method(storage, "getStripeWebhookEvent", async (eventId: string) => ({ eventId }))
+  };
+}
+
+afterEach(() => mock.restoreAll());
+
+test("stores a received event and processes it once", async () => {
+  const store = stubEventStore();
+  const updateUser = mock.method(storage, "updateUser", async () => ({}));
+
+  const result = await stripeWebhookService.receive(planPaymentEvent);
+
+  assert.equal(result.duplicate, false);
+  assert.equal((store.record.mock.calls[0].arguments[0] as any).wholesalerId, "wholesaler-1");
+  assert.deepEqual(store.claim.mock.calls[0].arguments, ["evt_plan", { force: false }]);
+  assert.equal(updateUser.mock.callCount(), 1);
+  assert.equal(store.processed.mock.callCount(), 1);
+});
+
+test("skips an event that was already processed", async () => {
+  const store = stubEventStore(() => null);
+  const updateUser = mock.method(storage, "updateUser", async () => ({}));
+
+  const result = await stripeWebhookService.receive(planPaymentEvent);
+
+  assert.equal(result.duplicate, true);
+  assert.equal(updateUser.mock.callCount(), 0);
+  assert.equal(store.processed.mock.callCount(), 0);
+});
+
+test("only re-runs a processed event when the replay asks to", async () => {
+  const store = stubEventStore((_eventId, options) => options.force ? { type: planPaymentEvent.type, attempts: 2, payload: planPaymentEvent } : null);
+  mock.method(storage, "updateUser", async () => ({}));
+
+  assert.equal((await stripeWebhookService.replay("evt_plan")).duplicate, true);
+  assert.equal((await stripeWebhookService.replay("evt_plan", { includeProcessed: true })).duplicate, false);
+  assert.deepEqual(store.claim.mock.calls.map(call => call.arguments[1]), [{ force: false }, { force: true }]);
+});
+
+test("dates a plan payment's period from when it was paid, so a replay can't extend it", async () => {
+  stubEventStore(() => ({ type: planPaymentEvent.type, attempts: 1, payload: planPaymentEvent }));
+  const updateUser = mock.method(storage, "updateUser", async () => ({}));
+
+  await stripeWebhookService.receive(planPaymentEvent);
+  await stripeWebhookService.replay("evt_plan", { includeProcessed: true });
+
+  const periodEnds = updateUser.mock.calls.map(call => (call.arguments[1] as any).subscriptionPeriodEnd.toISOString());
+  assert.deepEqual(periodEnds, ["2026-03-31T09:30:00.000Z", "2026-03-31T09:30:00.000Z"]);
+});
+
+test("records a failure so the event can be retried", async () => {
+  const store = stubEventStore();
+  mock.method(storage, "updateUser", async () => {
+    throw new Error("Database unavailable");
+  });
+
+  await stripeWebhookService.receive(planPaymentEvent);
+
+  assert.equal(store.processed.mock.callCount(), 0);
+  assert.deepEqual(store.failed.mock.calls[0].arguments, ["evt_plan", "Database unavailable"]);
+});
+
+test("fetches a missed event from the platform, then from the connected account", async () => {
+  const retrieve = stubStripe("events", "retrieve", async (_eventId: string, _params: any, options?: { stripeAccount?: string }) => {
+    if (!options?.stripeAccount) {
+      throw Object.assign(new Error("No such event"), { code: "resource_missing" });
+    }
+    return { ...planPaymentEvent, account: options.stripeAccount };
+  });
+
+  const record = await stripeWebhookService.fetch("evt_plan", "acct_wholesaler");
+
+  assert.equal(record?.eventId, "evt_plan");
+  assert.equal(record?.account, "acct_wholesaler");
+  assert.deepEqual(retrieve.mock.calls.map(call => call.arguments[2]), [undefined, { stripeAccount: "acct_wholesaler" }]);
+});
+
+test("fetches nothing for an event Stripe doesn't have", async () => {
+  stubStripe("events", "retrieve", async () => {
+    throw Object.assign(new Error("No such event"), { code: "resource_missing" });
+  });
+
+  assert.equal(await stripeWebhookService.fetch("evt_missing"), undefined);
+});
@@ -1,43 +1,169 @@
+import {
+  CARRIER_PARCEL_LIMITS,
+  PALLET_BASE_WEIGHT_KG,
+  PALLET_LIMITS,
+  getCarrierKey,
+  packShipment,
+  type CarrierKey,
+  type PackItem,
+  type PackedShipment,
+  type PalletLine
+} from "../../shared/parcel-packing";
+import type { ParcelDimensions } from "../parcel2go";
+
+// Typical height of a loaded pallet when the product doesn't say
+const DEFAULT_PALLET_HEIGHT_CM = 150;
+
 export class PreciseShippingCalculator {
   /**
-   * Create precise parcel data from cart items using unit configuration
+   * Parcels for a cart, packed to the limits most couriers accept.
+   * Pallet lines and heavy carts come back as pallets.
    */
   static createPreciseParcel(cartItems: any[]) {
-    return cartItems.map(item => {
-      const product = item.product || {};
-      const quantity = item.quantity || 1;
-      
-      // Use unitSize field (from database) with fallback to sizePerUnit
-      const unitSize = parseFloat(product.unitSize || product.sizePerUnit || '0');
-      const packQuantity = parseInt(product.packQuantity || '1');
-      const unitOfMeasure = product.unitOfMeasure || 'kg';
-      
-      // Calculate weight based on unit configuration
-      let weight = 0;
-      if (unitOfMeasure === 'g' || unitOfMeasure === 'ml') {
-        // Convert grams/ml to kg (assuming 1ml = 1g density)
-        weight = (unitSize * packQuantity * quantity) / 1000;
-      } else if (unitOfMeasure === 'kg' || unitOfMeasure === 'l') {
-        // Already in kg/l
-        weight = unitSize * packQuantity * quantity;
+    return this.packCart(cartItems).parcels;
+  }
+
+  /**
+   * Pack a cart for one carrier (by carrier or service name)
+   */
+  static packCart(cartItems: any[], carrierName?: string | null): PackedShipment {
+    const { items, palletLines } = this.toPackingLines(cartItems);
+    return packShipment(items, palletLines, getCarrierKey(carrierName));
+  }
+
+  /**
+   * Pack a cart once per carrier, so each carrier is quoted for the boxes it
+   * would actually be given. Carriers that end up with the same parcels share
+   * a packing, which keeps the number of quote requests down.
+   */
+  static packCartByCarrier(cartItems: any[]): Array<{ carriers: CarrierKey[]; shipment: PackedShipment }> {
+    const { items, palletLines } = this.toPackingLines(cartItems);
+    const packings: Array<{ carriers: CarrierKey[]; shipment: PackedShipment; signature: string }> = [];
+
+    for (const carrier of Object.keys(CARRIER_PARCEL_LIMITS) as CarrierKey[]) {
+      const shipment = packShipment(items, palletLines, carrier);
+      const signature = JSON.stringify(shipment.parcels.map(p => [p.kind, p.weight, p.length, p.width, p.height]));
+      const existing = packings.find(packing => packing.signature === signature);
+      if (existing) {
+        existing.carriers.push(carrier);
       } else {
-        // For pieces, cans, bottles, etc. - use estimated weight
-        weight = packQuantity * quantity * 0.25; // 250g per unit estimate
+        packings.push({ carriers: [carrier], shipment, signature });
       }
-      
-      // Ensure minimum weight
-      weight = Math.max(weight, 0.1);
-      
-      const dimensions = this.calculatePackageDimensions(product, quantity);
-      
-      return {
-        weight: parseFloat(weight.toFixed(3)),
-        length: dimensions.length,
-        width: dimensions.width,
-        height: dimensions.height,
-        contents: product.name || 'Product'
-      };
-    });
+    }
+
+    return packings.map(({ carriers, shipment }) => ({ carriers, shipment }));
+  }
+
+  /**
+   * Packed parcels in the shape Parcel2Go quotes and bookings take
+   */
+  static toQuoteParcels(shipment: PackedShipment): ParcelDimensions[] {
+    return shipment.parcels.map(parcel => ({
+      weight: parcel.weight,
+      length: parcel.length,
+      width: parcel.width,
+      height: parcel.height,
+      value: parcel.value,
+      contentDescription: parcel.contents
+    }));
+  }
+
+  /**
+   * One pack item per unit ordered, using the product's shipping weight and
+   * box size, or an estimate from its unit configuration when they aren't set
+   */
+  static toPackingLines(cartItems: any[]): { items: PackItem[]; palletLines: PalletLine[] } {
+    const items: PackItem[] = [];
+    const palletLines: PalletLine[] = [];
+
+    for (const cartItem of cartItems) {
+      const product = cartItem.product || {};
+      const quantity = Math.max(0, parseInt(cartItem.quantity || '0'));
+      if (quantity === 0) continue;
+
+      const unitWeightKg = this.getUnitWeightKg(product);
+      const dimensions = this.getUnitDimensions(product);
+      const description = product.name || cartItem.productName || 'Product';
+
+      if (cartItem.sellingType === 'pallets') {
+        const unitsPerPallet = parseInt(product.unitsPerPallet || '1') || 1;
+        const palletWeightKg = parseFloat(product.palletWeight || product.pallet_weight || '0') || unitWeightKg * unitsPerPallet + PALLET_BASE_WEIGHT_KG;
+        const loadVolume = dimensions.length * dimensions.width * dimensions.height * unitsPerPallet;
+        palletLines.push({
+          pallets: quantity,
+          palletWeightKg,
+          palletHeightCm: loadVolume > 0 ? Math.max(50, loadVolume / (PALLET_LIMITS.maxLengthCm * PALLET_LIMITS.maxWidthCm) + 15) : DEFAULT_PALLET_HEIGHT_CM,
+          palletValue: parseFloat(cartItem.unitPrice || product.palletPrice || '0') || 0,
+          description
+        });
+        continue;
+      }
+
+      const unitValue = parseFloat(cartItem.unitPrice || product.price || '0') || 0;
+      for (let i = 0; i < quantity; i++) {
+        items.push({
+          weightKg: unitWeightKg,
+          lengthCm: dimensions.length,
+          widthCm: dimensions.width,
+          heightCm: dimensions.height,
+          value: unitValue,
+          description
+        });
+      }
+    }
+
+    return { items, palletLines };
+  }
+
+  /**
+   * Shipping weight of one unit as sold, in kg
+   */
+  static getUnitWeightKg(product: any): number {
+    const recorded = parseFloat(product.unitWeightKg || product.unitWeight || product.totalPackageWeight || '0');
+    if (recorded > 0) return recorded;
+    return this.estimateWeightKg(product, 1);
+  }
+
+  /**
+   * Box size of one unit as sold, from packageDimensions when the wholesaler has entered them
+   */
+  static getUnitDimensions(product: any): { length: number; width: number; height: number } {
+    const dimensions = product.packageDimensions || {};
+    const length = parseFloat(dimensions.length);
+    const width = parseFloat(dimensions.width);
+    const height = parseFloat(dimensions.height);
+    if (length > 0 && width > 0 && height > 0) {
+      return { length, width, height };
+    }
+    return this.calculatePackageDimensions(product, 1);
+  }
+
+  /**
+   * Weight estimated from the unit configuration, e.g. "20 x 100g"
+   */
+  static estimateWeightKg(product: any, quantity: number): number {
+    // Use unitSize field (from database) with fallback to sizePerUnit
+    const unitSize = parseFloat(product.unitSize || product.sizePerUnit || '0');
+    const packQuantity = parseInt(product.packQuantity || '1');
+    const unitOfMeasure = product.unitOfMeasure || 'kg';
+    
+    // Calculate weight based on unit configuration
+    let weight = 0;
+    if (unitOfMeasure === 'g' || unitOfMeasure === 'ml') {
+      // Convert grams/ml to kg (assuming 1ml = 1g density)
+      weight = (unitSize * packQuantity * quantity) / 1000;
+    } else if (unitOfMeasure === 'kg' || unitOfMeasure === 'l') {
+      // Already in kg/l
+      weight = unitSize * packQuantity * quantity;
+    } else {
+      // For pieces, cans, bottles, etc. - use estimated weight
+      weight = packQuantity * quantity * 0.25; // 250g per unit estimate
+    }
+    
+    // Ensure minimum weight
+    weight = Math.max(weight, 0.1);
+    
+    return parseFloat(weight.toFixed(3));
   }
   
   /**
@@ -0,0 +1,105 @@
+// Accounting exports: CSV layouts for Xero and QuickBooks sales imports and a general journal, with the wholesaler's account codes
+import type { InvoiceLine } from './invoices';
+import type { VatRateCode } from './vat';
+
+export type AccountingExportFormat = 'xero' | 'quickbooks' | 'journal';
+
+export const ACCOUNTING_EXPORT_FORMATS: Record<AccountingExportFormat, { label: string; description: string }> = {
+  xero: {
+    label: 'Xero sales invoices',
+    description: 'Import in Xero under Sales > Import, with amounts tax inclusive. Credit notes have negative quantities.',
+  },
+  quickbooks: {
+    label: 'QuickBooks invoices',
+    description: 'Import in QuickBooks Online under Import data > Invoices. Credit notes have negative amounts.',
+  },
+  journal: {
+    label: 'General journal',
+    description: 'Double-entry lines for invoices, credit notes, Stripe payouts and platform fees.',
+  },
+};
+
+export function isAccountingExportFormat(value: unknown): value is AccountingExportFormat {
+  return typeof value === 'string' && value in ACCOUNTING_EXPORT_FORMATS;
+}
+
+// What a row in an export came from - each is exported once per format
+export type AccountingSourceType = 'invoice' | 'credit_note' | 'payout' | 'platform_fee';
+
+export interface AccountingSettings {
+  salesAccount: string; // Products without a category code
+  deliveryAccount: string;
+  transactionFeeAccount: string; // Card transaction fees charged to customers
+  platformFeeAccount: string; // Quikpik's platform fee, an expense
+  receivablesAccount: string;
+  stripeClearingAccount: string; // Money held by Stripe until it is paid out
+  bankAccount: string;
+  vatAccount: string;
+  categoryAccounts: Record<string, string>; // Product category -> sales account code
+}
+
+// Codes from Xero's default UK chart of accounts
+export const DEFAULT_ACCOUNTING_SETTINGS: AccountingSettings = {
+  salesAccount: '200',
+  deliveryAccount: '260',
+  transactionFeeAccount: '260',
+  platformFeeAccount: '404',
+  receivablesAccount: '610',
+  stripeClearingAccount: '611',
+  bankAccount: '090',
+  vatAccount: '820',
+  categoryAccounts: {},
+};
+
+export function getAccountingSettings(saved?: Partial<AccountingSettings> | null): AccountingSettings {
+  return {
+    ...DEFAULT_ACCOUNTING_SETTINGS,
+    ...(saved || {}),
+    categoryAccounts: { ...(saved?.categoryAccounts || {}) },
+  };
+}
+
+// Revenue account an invoice line posts to
+export function getLineAccount(settings: AccountingSettings, line: InvoiceLine): string {
+  switch (line.kind) {
+    case 'delivery':
+      return settings.deliveryAccount;
+    case 'fee':
+      return settings.transactionFeeAccount;
+    default:
+      return (line.category && settings.categoryAccounts[line.category]) || settings.salesAccount;
+  }
+}
+
+const XERO_TAX_TYPES: Record<VatRateCode, string> = {
+  standard: '20% (VAT on Income)',
+  reduced: '5% (VAT on Income)',
+  zero: 'Zero Rated Income',
+  exempt: 'Exempt Income',
+};
+
+const QUICKBOOKS_TAX_CODES: Record<VatRateCode, string> = {
+  standard: '20.0% S',
+  reduced: '5.0% R',
+  zero: '0.0% Z',
+  exempt: 'Exempt',
+};
+
+export const getXeroTaxType = (line: InvoiceLine) => (line.vatRate ? XERO_TAX_TYPES[line.vatRate] : 'No VAT');
+
+export const getQuickBooksTaxCode = (line: InvoiceLine) => (line.vatRate ? QUICKBOOKS_TAX_CODES[line.vatRate] : 'No VAT');
+
+// Dates as both importers expect them for UK organisations
+export function formatExportDate(date: Date | string): string {
+  const value = new Date(date);
+  return `${String(value.getDate()).padStart(2, '0')}/${String(value.getMonth() + 1).padStart(2, '0')}/${value.getFullYear()}`;
+}
+
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row => row.map(value => {
+      const text = value == null ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(','))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,128 @@
+// Delivery run statuses and stop ordering shared by the delivery API, the manifest and the runs page
+import { getDistanceKm, type GeoPoint } from "./warehouses";
+
+export type DeliveryRunStatus = 'planned' | 'out_for_delivery' | 'completed' | 'cancelled';
+export type DeliveryStopStatus = 'pending' | 'delivered' | 'failed';
+
+export const DELIVERY_RUN_STATUS_LABELS: Record<DeliveryRunStatus, string> = {
+  planned: 'Planned',
+  out_for_delivery: 'Out for delivery',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const DELIVERY_STOP_STATUS_LABELS: Record<DeliveryStopStatus, string> = {
+  pending: 'To deliver',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+export const DELIVERY_FAILURE_REASONS = [
+  'Nobody available to receive',
+  'Premises closed',
+  'Address not found',
+  'Refused by customer',
+  'Access problem',
+];
+
+// Orders that can go on a van: paid delivery orders not booked with a carrier, or a failed drop to retry
+export const ROUTABLE_ORDER_STATUSES = ['paid', 'confirmed', 'items_prepared', 'partially_shipped', 'shipped', 'delivery_failed'];
+
+// Carrier name recorded on shipments that go out on the wholesaler's own van
+export const OWN_DELIVERY_CARRIER = 'Own delivery';
+
+export const formatDeliveryRunNumber = (sequence: number) => `RUN-${String(sequence).padStart(4, '0')}`;
+
+/**
+ * UK postcode from an order's stored delivery address, for orders without a saved address record
+ */
+export function getPostcodeFromAddress(address?: string | null): string | null {
+  if (!address) return null;
+  try {
+    if (address.includes('{')) {
+      const parsed = JSON.parse(address);
+      if (parsed.postalCode) return String(parsed.postalCode).trim().toUpperCase();
+    }
+  } catch {
+    // Not JSON - look for a postcode in the text
+  }
+  const match = address.toUpperCase().match(/\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/);
+  return match ? `${match[1]} ${match[2]}` : null;
+}
+
+export interface RoutableStop {
+  orderId: number;
+  postcode: string | null;
+  point: GeoPoint | null;
+}
+
+export interface SequencedStop extends RoutableStop {
+  sequence: number;
+  legDistanceKm: number | null;
+}
+
+const routeLength = (start: GeoPoint | null, points: GeoPoint[]) => points.reduce(
+  (total, point, index) => {
+    const previous = index === 0 ? start : points[index - 1];
+    return previous ? total + getDistanceKm(previous, point) : total;
+  },
+  0
+);
+
+/**
+ * Put stops in driving order. Located stops are chained nearest-first from the
+ * depot and then tidied with 2-opt swaps, which removes most crossed legs on
+ * the 10-40 drops of a typical van run. Stops whose postcode could not be
+ * located follow, grouped by postcode.
+ */
+export function sequenceStops(start: GeoPoint | null, stops: RoutableStop[]): SequencedStop[] {
+  const located = stops.filter(stop => stop.point);
+  const unlocated = stops
+    .filter(stop => !stop.point)
+    .sort((a, b) => (a.postcode || '').localeCompare(b.postcode || ''));
+
+  // Nearest neighbour from the depot (or the first stop when the depot isn't located)
+  const route: RoutableStop[] = [];
+  const remaining = [...located];
+  let current = start;
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    if (current) {
+      let nearestDistance = Infinity;
+      remaining.forEach((stop, index) => {
+        const distance = getDistanceKm(current!, stop.point!);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestIndex = index;
+        }
+      });
+    }
+    const [next] = remaining.splice(nearestIndex, 1);
+    route.push(next);
+    current = next.point;
+  }
+
+  // 2-opt: reverse any section that shortens the route until nothing improves
+  let improved = route.length > 3;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const candidate = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)];
+        if (routeLength(start, candidate.map(s => s.point!)) + 0.001 < routeLength(start, route.map(s => s.point!))) {
+          route.splice(0, route.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return [...route, ...unlocated].map((stop, index, ordered) => {
+    const previous = index === 0 ? start : ordered[index - 1].point;
+    return {
+      ...stop,
+      sequence: index + 1,
+      legDistanceKm: previous && stop.point ? Math.round(getDistanceKm(previous, stop.point) * 10) / 10 : null
+    };
+  });
+}
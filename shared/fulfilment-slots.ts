@@ -0,0 +1,144 @@
+// Delivery day and collection window rules shared by checkout, order creation and the slot settings page
+export type FulfilmentSlotType = 'delivery' | 'collection';
+
+export const FULFILMENT_SLOT_TYPE_LABELS: Record<FulfilmentSlotType, string> = {
+  delivery: 'Delivery',
+  collection: 'Collection',
+};
+
+// 0 = Sunday, matching Date.getDay()
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// How far ahead customers can book
+export const SLOT_BOOKING_DAYS = 14;
+
+// Slot times are wall-clock times at the wholesaler, who are all UK based
+const SLOT_TIME_ZONE = 'Europe/London';
+
+export interface SlotRule {
+  id: number;
+  type: string;
+  warehouseId: number | null;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number | null;
+  cutoffDaysBefore: number;
+  cutoffTime: string;
+  isActive: boolean;
+}
+
+export interface SlotClosure {
+  startsOn: Date | string;
+  endsOn: Date | string;
+}
+
+export interface SlotBookingCount {
+  slotId: number;
+  slotStartsAt: Date | string;
+  bookings: number;
+}
+
+export interface SlotOption {
+  slotId: number;
+  date: string; // YYYY-MM-DD
+  startsAt: string;
+  endsAt: string;
+  label: string;
+  remaining: number | null; // null = no capacity limit
+}
+
+export function isSlotTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+/**
+ * The UK calendar date of an instant, as YYYY-MM-DD
+ */
+export function toUkDate(value: Date | string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: SLOT_TIME_ZONE }).format(new Date(value));
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+/**
+ * The instant a UK date and wall-clock time refer to, allowing for British Summer Time
+ */
+export function toUkTime(date: string, time: string): Date {
+  const asUtc = new Date(`${date}T${time}:00Z`);
+  const offsetName = new Intl.DateTimeFormat('en-GB', { timeZone: SLOT_TIME_ZONE, timeZoneName: 'shortOffset' })
+    .formatToParts(asUtc)
+    .find(part => part.type === 'timeZoneName')?.value || 'GMT';
+  const offsetHours = parseInt(offsetName.replace('GMT', '') || '0', 10) || 0;
+  return new Date(asUtc.getTime() - offsetHours * 60 * 60 * 1000);
+}
+
+/**
+ * Last moment an order can be placed for a slot on the given date,
+ * e.g. 17:00 the day before
+ */
+export function getSlotCutoff(slot: Pick<SlotRule, 'cutoffDaysBefore' | 'cutoffTime'>, date: string): Date {
+  return toUkTime(addDays(date, -slot.cutoffDaysBefore), slot.cutoffTime);
+}
+
+export function isClosedOn(date: string, closures: SlotClosure[]): boolean {
+  return closures.some(closure => toUkDate(closure.startsOn) <= date && date <= toUkDate(closure.endsOn));
+}
+
+/**
+ * "Tue 14 Oct, 09:00-12:00" - how a booked slot is shown on emails and the orders table
+ */
+export function formatSlotLabel(startsAt: Date | string, endsAt: Date | string): string {
+  const day = new Date(startsAt).toLocaleDateString('en-GB', { timeZone: SLOT_TIME_ZONE, weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (value: Date | string) => new Date(value).toLocaleTimeString('en-GB', { timeZone: SLOT_TIME_ZONE, hour: '2-digit', minute: '2-digit' });
+  return `${day}, ${time(startsAt)}-${time(endsAt)}`;
+}
+
+/**
+ * Every slot a customer can still book over the next SLOT_BOOKING_DAYS days:
+ * skips closures, slots past their cut-off and slots that are fully booked
+ */
+export function listSlotOptions(
+  slots: SlotRule[],
+  closures: SlotClosure[],
+  bookings: SlotBookingCount[],
+  now: Date = new Date(),
+  days: number = SLOT_BOOKING_DAYS
+): SlotOption[] {
+  const today = toUkDate(now);
+  const options: SlotOption[] = [];
+
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(today, offset);
+    if (isClosedOn(date, closures)) continue;
+    const dayOfWeek = new Date(`${date}T12:00:00Z`).getUTCDay();
+
+    for (const slot of slots) {
+      if (!slot.isActive || slot.dayOfWeek !== dayOfWeek) continue;
+      if (getSlotCutoff(slot, date) <= now) continue;
+
+      const startsAt = toUkTime(date, slot.startTime);
+      const endsAt = toUkTime(date, slot.endTime);
+      const booked = bookings
+        .filter(booking => booking.slotId === slot.id && new Date(booking.slotStartsAt).getTime() === startsAt.getTime())
+        .reduce((total, booking) => total + booking.bookings, 0);
+      const remaining = slot.capacity != null ? Math.max(0, slot.capacity - booked) : null;
+      if (remaining === 0) continue;
+
+      options.push({
+        slotId: slot.id,
+        date,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        label: formatSlotLabel(startsAt, endsAt),
+        remaining
+      });
+    }
+  }
+
+  return options.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+}
@@ -157,6 +157,29 @@ export class InventoryCalculator {
     };
   }
   
+  /**
+   * Break an order quantity into what the picker handles: whole pallets for
+   * pallet lines, full packs plus loose units for unit lines
+   */
+  static calculatePickQuantities(
+    orderQuantity: number,
+    sellingType: 'units' | 'pallets',
+    data: ProductInventoryData
+  ): { pallets: number; packs: number; units: number; baseUnits: number } {
+    const { baseUnitsToSubtract } = this.calculateOrderDecrement(orderQuantity, sellingType, data);
+    if (sellingType === 'pallets') {
+      return { pallets: orderQuantity, packs: 0, units: 0, baseUnits: baseUnitsToSubtract };
+    }
+
+    const quantityInPack = Math.max(1, data.quantityInPack || 1);
+    return {
+      pallets: 0,
+      packs: quantityInPack > 1 ? Math.floor(orderQuantity / quantityInPack) : 0,
+      units: quantityInPack > 1 ? orderQuantity % quantityInPack : orderQuantity,
+      baseUnits: baseUnitsToSubtract
+    };
+  }
+
   /**
    * Helper to format inventory display for UI
    */
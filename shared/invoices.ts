@@ -0,0 +1,68 @@
+// Invoice and credit note documents: numbering, line and VAT totals shared by the server and the portals
+import { summarizeVatByRate, isVatRateCode, type VatRateCode, type VatSummaryLine } from './vat';
+
+export type InvoiceDocumentType = 'invoice' | 'credit_note';
+
+export const INVOICE_DOCUMENT_LABELS: Record<InvoiceDocumentType, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit note',
+};
+
+export const DEFAULT_INVOICE_NUMBER_PREFIX = 'INV';
+
+export type InvoiceLineKind = 'product' | 'delivery' | 'fee' | 'adjustment';
+
+// Amounts are VAT inclusive; on a credit note they are what is being credited back
+export interface InvoiceLine {
+  kind?: InvoiceLineKind; // Missing on documents issued before lines were tagged - treat as product
+  productId?: number | null;
+  category?: string | null; // Product category when issued, for accounting codes
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: VatRateCode | null; // Null when no VAT applies (not registered, or a payment fee)
+  vatPercent: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+// Seller and buyer details as they stood when the document was issued
+export interface InvoiceParty {
+  name: string;
+  address?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  vatNumber?: string | null;
+  logoUrl?: string | null;
+}
+
+export interface InvoiceTotals {
+  netTotal: number;
+  vatTotal: number;
+  total: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Invoices run INV-000001, INV-000002, ...; credit notes have their own run
+ * under the same prefix (INV-CN-000001)
+ */
+export function formatInvoiceNumber(prefix: string | null | undefined, type: InvoiceDocumentType, sequenceNumber: number): string {
+  const base = (prefix || DEFAULT_INVOICE_NUMBER_PREFIX).trim().toUpperCase();
+  const number = sequenceNumber.toString().padStart(6, '0');
+  return type === 'credit_note' ? `${base}-CN-${number}` : `${base}-${number}`;
+}
+
+export function totalInvoiceLines(lines: InvoiceLine[]): InvoiceTotals {
+  const netTotal = roundMoney(lines.reduce((sum, line) => sum + line.net, 0));
+  const vatTotal = roundMoney(lines.reduce((sum, line) => sum + line.vat, 0));
+  return { netTotal, vatTotal, total: roundMoney(netTotal + vatTotal) };
+}
+
+export function summarizeInvoiceVat(lines: InvoiceLine[]): VatSummaryLine[] {
+  return summarizeVatByRate(lines.flatMap(line =>
+    isVatRateCode(line.vatRate) ? [{ rate: line.vatRate, percent: line.vatPercent, net: line.net, vat: line.vat }] : []
+  ));
+}
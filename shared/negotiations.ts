@@ -0,0 +1,47 @@
+// Negotiation statuses and timings shared by the server, the wholesaler inbox and the buyer portal
+export type NegotiationStatus = 'pending' | 'countered' | 'accepted' | 'declined' | 'expired' | 'ordered';
+export type NegotiationAction = 'offer' | 'counter' | 'accept' | 'decline' | 'expire';
+
+export const NEGOTIATION_STATUS_LABELS: Record<NegotiationStatus, string> = {
+  pending: 'Awaiting supplier',
+  countered: 'Counter-offer sent',
+  accepted: 'Accepted - price locked',
+  declined: 'Declined',
+  expired: 'Expired',
+  ordered: 'Ordered',
+};
+
+export const NEGOTIATION_ACTION_LABELS: Record<NegotiationAction, string> = {
+  offer: 'Offer',
+  counter: 'Counter-offer',
+  accept: 'Accepted',
+  decline: 'Declined',
+  expire: 'Expired',
+};
+
+// How long the other side has to respond to an offer or counter-offer
+export const NEGOTIATION_RESPONSE_DAYS = 3;
+
+// How long an accepted price stays available at checkout
+export const NEGOTIATION_PRICE_LOCK_DAYS = 7;
+
+/**
+ * The price currently on the table - the latest counter if there is one, otherwise the buyer's offer
+ */
+export function getCurrentNegotiationPrice(negotiation: {
+  status: string;
+  offeredPrice: string;
+  counterPrice?: string | null;
+  agreedPrice?: string | null;
+}): number {
+  if (negotiation.agreedPrice) return parseFloat(negotiation.agreedPrice);
+  if (negotiation.status === 'countered' && negotiation.counterPrice) return parseFloat(negotiation.counterPrice);
+  return parseFloat(negotiation.offeredPrice);
+}
+
+/**
+ * Date a negotiation action expires, counted from now
+ */
+export function getNegotiationExpiry(days: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+}
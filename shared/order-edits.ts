@@ -0,0 +1,67 @@
+// Order edit rules and change descriptions shared by the order API, the wholesaler UI and the buyer portal
+import type { FulfilmentLine } from "./order-fulfilment";
+
+export type OrderEditSettlement = 'none' | 'charge' | 'refund' | 'account';
+export type OrderEditSettlementStatus = 'not_required' | 'pending' | 'succeeded' | 'failed';
+
+export interface OrderEditLineChange {
+  orderItemId: number | null;
+  productId: number;
+  productName: string;
+  sellingType: 'units' | 'pallets';
+  quantityBefore: number;
+  quantityAfter: number;
+  unitPriceBefore: string | null;
+  unitPriceAfter: string | null;
+}
+
+// Orders can be edited until anything has been shipped or collected
+export const EDITABLE_ORDER_STATUSES = ['pending', 'paid', 'confirmed'];
+
+// Card orders carry the 5.5% transaction fee on every pound of product
+export const ORDER_EDIT_TRANSACTION_FEE_RATE = 0.055;
+export const ORDER_EDIT_PLATFORM_FEE_RATE = 0.033;
+
+export const ORDER_EDIT_SETTLEMENT_LABELS: Record<OrderEditSettlement, string> = {
+  none: 'No payment change',
+  charge: 'Extra card charge',
+  refund: 'Partial refund',
+  account: 'Account balance adjusted',
+};
+
+export function canEditOrder(order: { status: string }, lines: FulfilmentLine[]): boolean {
+  return EDITABLE_ORDER_STATUSES.includes(order.status)
+    && lines.every(line => (line.fulfilledQuantity || 0) === 0);
+}
+
+export function describeOrderEditChange(change: OrderEditLineChange): string {
+  const unit = change.sellingType === 'pallets' ? 'pallets' : 'units';
+  if (change.quantityBefore === 0) {
+    return `Added ${change.quantityAfter} ${unit} of ${change.productName}`;
+  }
+  if (change.quantityAfter === 0) {
+    return `Removed ${change.productName}`;
+  }
+  const priceChange = change.unitPriceBefore !== change.unitPriceAfter && change.unitPriceAfter
+    ? ` (now £${change.unitPriceAfter} each)`
+    : '';
+  return `${change.productName}: ${change.quantityBefore} → ${change.quantityAfter} ${unit}${priceChange}`;
+}
+
+/**
+ * New order totals after the product subtotal moves by `subtotalDelta`. Fees
+ * move with the products only, so delivery and any earlier top-ups are kept.
+ */
+export function calculateOrderEditTotals(
+  order: { subtotal: string; total: string; platformFee?: string | null; customerTransactionFee?: string | null; paymentMethod?: string | null },
+  subtotalDelta: number
+): { subtotal: number; platformFee: number; customerTransactionFee: number; total: number } {
+  const feeDelta = order.paymentMethod === 'account' ? 0 : subtotalDelta * ORDER_EDIT_TRANSACTION_FEE_RATE;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    subtotal: round(parseFloat(order.subtotal) + subtotalDelta),
+    platformFee: round(parseFloat(order.platformFee || '0') + subtotalDelta * ORDER_EDIT_PLATFORM_FEE_RATE),
+    customerTransactionFee: round(parseFloat(order.customerTransactionFee || '0') + feeDelta),
+    total: round(parseFloat(order.total) + subtotalDelta + feeDelta)
+  };
+}
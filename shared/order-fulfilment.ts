@@ -0,0 +1,32 @@
+// Partial fulfilment helpers shared by the order API and the wholesaler UI
+export interface FulfilmentLine {
+  quantity: number;
+  fulfilledQuantity?: number | null;
+  backorderedQuantity?: number | null;
+  cancelledQuantity?: number | null;
+}
+
+export type OrderFulfilmentState = 'unfulfilled' | 'partially_fulfilled' | 'fulfilled';
+
+/**
+ * Quantity that is in stock and still waiting to be shipped
+ */
+export function getOutstandingQuantity(line: FulfilmentLine): number {
+  return Math.max(
+    0,
+    line.quantity - (line.fulfilledQuantity || 0) - (line.backorderedQuantity || 0) - (line.cancelledQuantity || 0)
+  );
+}
+
+/**
+ * A line is complete once every unit has been shipped or cancelled
+ */
+export function isLineComplete(line: FulfilmentLine): boolean {
+  return (line.fulfilledQuantity || 0) + (line.cancelledQuantity || 0) >= line.quantity;
+}
+
+export function getOrderFulfilmentState(lines: FulfilmentLine[]): OrderFulfilmentState {
+  if (lines.length > 0 && lines.every(isLineComplete)) return 'fulfilled';
+  if (lines.some(line => (line.fulfilledQuantity || 0) > 0)) return 'partially_fulfilled';
+  return 'unfulfilled';
+}
@@ -0,0 +1,61 @@
+// Transactional outbox: side-effects of an order, written with it and delivered afterwards with retries
+
+export type OutboxMessageType =
+  | 'order_confirmation_email'
+  | 'order_invoice'
+  | 'stripe_invoice'
+  | 'wholesaler_order_email'
+  | 'wholesaler_whatsapp'
+  | 'welcome_messages'
+  | 'order_status_update';
+
+export const OUTBOX_MESSAGE_LABELS: Record<OutboxMessageType, string> = {
+  order_confirmation_email: 'Customer confirmation email',
+  order_invoice: 'Invoice PDF',
+  stripe_invoice: 'Stripe invoice',
+  wholesaler_order_email: 'New order email to wholesaler',
+  wholesaler_whatsapp: 'New order WhatsApp to wholesaler',
+  welcome_messages: 'Welcome messages to new customer',
+  order_status_update: 'Order status update to customer',
+};
+
+// pending -> processing -> delivered, or back to pending to retry; dead once out of attempts
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead';
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Waiting',
+  processing: 'Sending',
+  delivered: 'Delivered',
+  dead: 'Failed',
+};
+
+export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 8;
+
+// A message stuck in processing this long was abandoned (e.g. the server restarted) and is picked up again
+export const OUTBOX_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6 hours, so eight
+ * attempts span roughly an hour before a message is given up on
+ */
+export function getOutboxRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+export interface WholesalerWhatsAppPayload {
+  message: string;
+}
+
+export interface WelcomeMessagesPayload {
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  portalUrl: string;
+}
+
+export interface OrderStatusUpdatePayload {
+  status: string;
+}
@@ -0,0 +1,191 @@
+// Splits a cart into courier parcels or pallets for shipping quotes and bookings
+export type CarrierKey = 'royal_mail' | 'evri' | 'dpd' | 'parcelforce' | 'ups' | 'default';
+
+export interface ParcelLimits {
+  maxWeightKg: number;
+  maxLengthCm: number;
+  maxWidthCm: number;
+  maxHeightCm: number;
+}
+
+// Largest single parcel each carrier takes through Parcel2Go (UK domestic)
+export const CARRIER_PARCEL_LIMITS: Record<CarrierKey, ParcelLimits> = {
+  royal_mail: { maxWeightKg: 20, maxLengthCm: 61, maxWidthCm: 46, maxHeightCm: 46 },
+  evri: { maxWeightKg: 15, maxLengthCm: 120, maxWidthCm: 60, maxHeightCm: 60 },
+  dpd: { maxWeightKg: 30, maxLengthCm: 120, maxWidthCm: 70, maxHeightCm: 60 },
+  parcelforce: { maxWeightKg: 30, maxLengthCm: 150, maxWidthCm: 75, maxHeightCm: 75 },
+  ups: { maxWeightKg: 30, maxLengthCm: 150, maxWidthCm: 80, maxHeightCm: 70 },
+  default: { maxWeightKg: 30, maxLengthCm: 120, maxWidthCm: 70, maxHeightCm: 70 },
+};
+
+// A standard UK pallet, loaded to the usual half-height/full-height limits
+export const PALLET_LIMITS: ParcelLimits = { maxWeightKg: 1000, maxLengthCm: 120, maxWidthCm: 100, maxHeightCm: 220 };
+export const PALLET_BASE_WEIGHT_KG = 25;
+const PALLET_BASE_HEIGHT_CM = 15;
+
+// Beyond this many boxes a consignment goes as freight instead
+export const MAX_PARCELS_PER_CONSIGNMENT = 20;
+
+// Boxes are never packed completely full
+const PACKING_FILL_FACTOR = 0.85;
+
+export interface PackItem {
+  weightKg: number;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  value: number;
+  description: string;
+}
+
+// A line sold by the pallet, which always ships as freight
+export interface PalletLine {
+  pallets: number;
+  palletWeightKg: number;
+  palletHeightCm: number;
+  palletValue: number;
+  description: string;
+}
+
+export interface PackedParcel {
+  kind: 'parcel' | 'pallet';
+  weight: number; // kg
+  length: number; // cm
+  width: number;
+  height: number;
+  value: number;
+  contents: string;
+  itemCount: number;
+}
+
+export interface PackedShipment {
+  carrier: CarrierKey;
+  freight: boolean;
+  parcels: PackedParcel[];
+  totalWeight: number;
+}
+
+const CARRIER_NAME_PATTERNS: Array<[CarrierKey, RegExp]> = [
+  ['royal_mail', /royal ?mail/i],
+  ['parcelforce', /parcel ?force/i],
+  ['evri', /evri|hermes/i],
+  ['dpd', /\bdpd\b/i],
+  ['ups', /\bups\b/i],
+];
+
+/**
+ * Which packing rules apply to a Parcel2Go service, from its carrier or service name
+ */
+export function getCarrierKey(carrierName?: string | null): CarrierKey {
+  if (!carrierName) return 'default';
+  return CARRIER_NAME_PATTERNS.find(([, pattern]) => pattern.test(carrierName))?.[0] || 'default';
+}
+
+export const isFreightService = (serviceName?: string | null) => /pallet|freight/i.test(serviceName || '');
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Longest side first, so an item can be turned to fit
+const sides = (item: Pick<PackItem, 'lengthCm' | 'widthCm' | 'heightCm'>) =>
+  [item.lengthCm, item.widthCm, item.heightCm].sort((a, b) => b - a);
+
+function fitsWithin(item: PackItem, limits: ParcelLimits): boolean {
+  const [length, width, height] = sides(item);
+  const [maxLength, maxWidth, maxHeight] = [limits.maxLengthCm, limits.maxWidthCm, limits.maxHeightCm].sort((a, b) => b - a);
+  return item.weightKg <= limits.maxWeightKg && length <= maxLength && width <= maxWidth && height <= maxHeight;
+}
+
+interface OpenBox {
+  items: PackItem[];
+  weight: number;
+  volume: number;
+}
+
+/**
+ * First-fit-decreasing: heaviest items first, each into the first box with
+ * weight and room left, opening a new box when none has
+ */
+function packIntoBoxes(items: PackItem[], limits: ParcelLimits): OpenBox[] {
+  const maxVolume = limits.maxLengthCm * limits.maxWidthCm * limits.maxHeightCm * PACKING_FILL_FACTOR;
+  const boxes: OpenBox[] = [];
+
+  for (const item of [...items].sort((a, b) => b.weightKg - a.weightKg)) {
+    const volume = item.lengthCm * item.widthCm * item.heightCm;
+    let box = boxes.find(open => open.weight + item.weightKg <= limits.maxWeightKg && open.volume + volume <= maxVolume);
+    if (!box) {
+      box = { items: [], weight: 0, volume: 0 };
+      boxes.push(box);
+    }
+    box.items.push(item);
+    box.weight += item.weightKg;
+    box.volume += volume;
+  }
+
+  return boxes;
+}
+
+function describeContents(items: { description: string }[]): string {
+  const names = Array.from(new Set(items.map(item => item.description)));
+  return names.length <= 2 ? names.join(', ') : `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+}
+
+// Outer size of a box: wide enough for its largest item, tall enough for its contents' volume
+function toParcel(box: OpenBox, limits: ParcelLimits, kind: PackedParcel['kind']): PackedParcel {
+  const length = Math.max(...box.items.map(item => sides(item)[0]));
+  const width = Math.max(...box.items.map(item => sides(item)[1]));
+  const stackedHeight = box.volume / PACKING_FILL_FACTOR / (length * width);
+  const height = Math.min(limits.maxHeightCm, Math.max(...box.items.map(item => sides(item)[2]), stackedHeight));
+
+  return {
+    kind,
+    weight: round(box.weight + (kind === 'pallet' ? PALLET_BASE_WEIGHT_KG : 0), 3),
+    length: kind === 'pallet' ? limits.maxLengthCm : Math.ceil(length),
+    width: kind === 'pallet' ? limits.maxWidthCm : Math.ceil(width),
+    height: Math.ceil(height + (kind === 'pallet' ? PALLET_BASE_HEIGHT_CM : 0)),
+    value: round(box.items.reduce((total, item) => total + item.value, 0), 2),
+    contents: describeContents(box.items),
+    itemCount: box.items.length
+  };
+}
+
+/**
+ * Pack loose items and pallet lines for one carrier. Loose items go in as few
+ * boxes as the carrier's weight and size limits allow. The whole consignment
+ * goes as freight when anything is sold by the pallet, an item is too big for
+ * the carrier, or there would be more than MAX_PARCELS_PER_CONSIGNMENT boxes;
+ * loose items are then stacked onto pallets of their own.
+ */
+export function packShipment(items: PackItem[], palletLines: PalletLine[], carrier: CarrierKey = 'default'): PackedShipment {
+  const limits = CARRIER_PARCEL_LIMITS[carrier];
+  const oversized = items.some(item => !fitsWithin(item, limits));
+  const boxes = oversized ? [] : packIntoBoxes(items, limits);
+  const freight = palletLines.some(line => line.pallets > 0) || oversized || boxes.length > MAX_PARCELS_PER_CONSIGNMENT;
+
+  let parcels: PackedParcel[];
+  if (!freight) {
+    parcels = boxes.map(box => toParcel(box, limits, 'parcel'));
+  } else {
+    const palletLimits = { ...PALLET_LIMITS, maxWeightKg: PALLET_LIMITS.maxWeightKg - PALLET_BASE_WEIGHT_KG, maxHeightCm: PALLET_LIMITS.maxHeightCm - PALLET_BASE_HEIGHT_CM };
+    const fullPallets: PackedParcel[] = palletLines.flatMap(line =>
+      Array.from({ length: line.pallets }, () => ({
+        kind: 'pallet' as const,
+        weight: round(line.palletWeightKg, 3),
+        length: PALLET_LIMITS.maxLengthCm,
+        width: PALLET_LIMITS.maxWidthCm,
+        height: Math.min(PALLET_LIMITS.maxHeightCm, Math.ceil(line.palletHeightCm)),
+        value: round(line.palletValue, 2),
+        contents: line.description,
+        itemCount: 1
+      }))
+    );
+    const loosePallets = items.length > 0 ? packIntoBoxes(items, palletLimits).map(box => toParcel(box, palletLimits, 'pallet')) : [];
+    parcels = [...fullPallets, ...loosePallets];
+  }
+
+  return {
+    carrier,
+    freight,
+    parcels,
+    totalWeight: round(parcels.reduce((total, parcel) => total + parcel.weight, 0), 3)
+  };
+}
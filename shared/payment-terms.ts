@@ -0,0 +1,66 @@
+// Payment terms and aged-debtor helpers for on-account (credit) ordering
+export const PAYMENT_TERMS_DAYS = {
+  immediate: 0,
+  net_7: 7,
+  net_14: 14,
+  net_30: 30,
+  net_60: 60,
+  net_90: 90,
+} as const;
+
+export type PaymentTerms = keyof typeof PAYMENT_TERMS_DAYS;
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+  immediate: 'Immediate (card)',
+  net_7: 'Net 7',
+  net_14: 'Net 14',
+  net_30: 'Net 30',
+  net_60: 'Net 60',
+  net_90: 'Net 90',
+};
+
+export type AgedDebtBucket = 'current' | 'days30' | 'days60' | 'days90Plus';
+
+export const AGED_DEBT_BUCKET_LABELS: Record<AgedDebtBucket, string> = {
+  current: 'Current',
+  days30: '31-60 days',
+  days60: '61-90 days',
+  days90Plus: '90+ days',
+};
+
+/**
+ * Accepts stored values such as "net_30", "Net 30" or "30" and returns the
+ * number of days credit, or 0 when the terms require immediate payment.
+ */
+export function getPaymentTermsDays(terms: string | null | undefined): number {
+  if (!terms) return 0;
+  const normalised = terms.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalised in PAYMENT_TERMS_DAYS) {
+    return PAYMENT_TERMS_DAYS[normalised as PaymentTerms];
+  }
+  const match = normalised.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+export function isCreditTerms(terms: string | null | undefined): boolean {
+  return getPaymentTermsDays(terms) > 0;
+}
+
+export function calculatePaymentDueDate(terms: string | null | undefined, from: Date = new Date()): Date {
+  const dueDate = new Date(from);
+  dueDate.setDate(dueDate.getDate() + getPaymentTermsDays(terms));
+  return dueDate;
+}
+
+/**
+ * Buckets an unpaid invoice by its age (days since the order was placed),
+ * matching the usual Current / 30 / 60 / 90+ aged-debtors layout.
+ */
+export function getAgedDebtBucket(invoiceDate: Date | string, asOf: Date = new Date()): AgedDebtBucket {
+  const invoiced = new Date(invoiceDate);
+  const ageInDays = Math.floor((asOf.getTime() - invoiced.getTime()) / (1000 * 60 * 60 * 24));
+  if (ageInDays <= 30) return 'current';
+  if (ageInDays <= 60) return 'days30';
+  if (ageInDays <= 90) return 'days60';
+  return 'days90Plus';
+}
@@ -0,0 +1,131 @@
+// Stripe payout reconciliation: matching the balance transactions inside a payout back to orders
+
+// Stripe balance transaction types, grouped the way the report shows them
+export type PayoutTransactionCategory = 'charge' | 'refund' | 'application_fee' | 'transfer' | 'adjustment' | 'other';
+
+export const PAYOUT_TRANSACTION_CATEGORY_LABELS: Record<PayoutTransactionCategory, string> = {
+  charge: 'Charge',
+  refund: 'Refund',
+  application_fee: 'Application fee',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+  other: 'Other',
+};
+
+const CATEGORY_BY_STRIPE_TYPE: Record<string, PayoutTransactionCategory> = {
+  charge: 'charge',
+  payment: 'charge',
+  refund: 'refund',
+  payment_refund: 'refund',
+  payment_failure_refund: 'refund',
+  transfer_refund: 'refund',
+  application_fee: 'application_fee',
+  application_fee_refund: 'application_fee',
+  transfer: 'transfer',
+  transfer_cancel: 'transfer',
+  transfer_failure: 'transfer',
+  adjustment: 'adjustment',
+  payment_reversal: 'adjustment',
+  stripe_fee: 'adjustment',
+};
+
+export function getPayoutTransactionCategory(stripeType: string): PayoutTransactionCategory {
+  return CATEGORY_BY_STRIPE_TYPE[stripeType] || 'other';
+}
+
+// Only these are expected to belong to an order; anything else is reported but never flagged
+export const ORDER_LINKED_CATEGORIES: PayoutTransactionCategory[] = ['charge', 'refund', 'application_fee'];
+
+// Amounts in major units (pounds), as Stripe reports them for the connected account
+export interface PayoutSummary {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  arrivalDate: string; // ISO
+  createdAt: string; // ISO
+  automatic: boolean; // Manual payouts aren't tied to a set of transactions
+}
+
+export interface PayoutBalanceTransaction {
+  id: string;
+  type: string; // Stripe balance transaction type
+  description: string | null;
+  amount: number;
+  fee: number;
+  net: number;
+  createdAt: string; // ISO
+  sourceId: string | null;
+  paymentIntentId: string | null; // Resolved through the charge, refund or fee it came from
+}
+
+export interface PayoutOrderMatch {
+  paymentIntentId: string;
+  orderId: number;
+  orderNumber: string;
+  chargeId: number | null; // Set when it was an extra charge on the order rather than checkout
+}
+
+export interface ReconciledTransaction extends PayoutBalanceTransaction {
+  category: PayoutTransactionCategory;
+  orderId: number | null;
+  orderNumber: string | null;
+  orderChargeId: number | null;
+  unmatched: boolean;
+}
+
+export interface PayoutReconciliation {
+  payout: PayoutSummary;
+  transactions: ReconciledTransaction[];
+  totals: {
+    gross: number;
+    fees: number;
+    net: number;
+  };
+  unmatchedCount: number;
+  difference: number; // Payout amount less the net of its transactions - 0 when it balances
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Link each transaction to its order by payment intent. Charges, refunds and
+ * fees with no order are flagged, as is a payout that doesn't add up to the
+ * transactions inside it.
+ */
+export function reconcilePayout(
+  payout: PayoutSummary,
+  transactions: PayoutBalanceTransaction[],
+  matches: PayoutOrderMatch[]
+): PayoutReconciliation {
+  const matchByIntent = new Map(matches.map(match => [match.paymentIntentId, match]));
+
+  const reconciled: ReconciledTransaction[] = transactions
+    .filter(transaction => transaction.type !== 'payout')
+    .map(transaction => {
+      const category = getPayoutTransactionCategory(transaction.type);
+      const match = transaction.paymentIntentId ? matchByIntent.get(transaction.paymentIntentId) : undefined;
+      return {
+        ...transaction,
+        category,
+        orderId: match?.orderId ?? null,
+        orderNumber: match?.orderNumber ?? null,
+        orderChargeId: match?.chargeId ?? null,
+        unmatched: !match && ORDER_LINKED_CATEGORIES.includes(category),
+      };
+    });
+
+  const totals = {
+    gross: roundMoney(reconciled.reduce((sum, transaction) => sum + transaction.amount, 0)),
+    fees: roundMoney(reconciled.reduce((sum, transaction) => sum + transaction.fee, 0)),
+    net: roundMoney(reconciled.reduce((sum, transaction) => sum + transaction.net, 0)),
+  };
+
+  return {
+    payout,
+    transactions: reconciled,
+    totals,
+    unmatchedCount: reconciled.filter(transaction => transaction.unmatched).length,
+    difference: payout.automatic ? roundMoney(payout.amount - totals.net) : 0,
+  };
+}
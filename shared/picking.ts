@@ -0,0 +1,103 @@
+// Pick list rules and quantity formatting shared by the picking API, printouts and the picking page
+import { InventoryCalculator } from "./inventory-calculator";
+
+export type PickListStatus = 'open' | 'completed' | 'cancelled';
+
+// Orders that have been paid for but not fully shipped or collected
+export const PICKABLE_ORDER_STATUSES = ['paid', 'confirmed', 'items_prepared', 'partially_shipped'];
+
+export const PICK_LIST_STATUS_LABELS: Record<PickListStatus, string> = {
+  open: 'Picking',
+  completed: 'Picked',
+  cancelled: 'Cancelled',
+};
+
+export interface PickQuantityProduct {
+  quantityInPack?: number | null;
+  unitsPerPallet?: number | null;
+}
+
+export interface PickLineInput {
+  productId: number;
+  productName: string;
+  sellingType: string;
+  quantity: number;
+  pickedQuantity: number;
+  product: PickQuantityProduct;
+}
+
+export interface ConsolidatedPickLine {
+  productId: number;
+  productName: string;
+  sellingType: 'units' | 'pallets';
+  quantity: number;
+  pickedQuantity: number;
+  orderCount: number;
+  display: string;
+}
+
+export const formatPickListNumber = (sequence: number) => `PL-${String(sequence).padStart(4, '0')}`;
+
+/**
+ * "2 packs of 12 + 3 units", "4 pallets" - how the picker should count the quantity
+ */
+export function formatPickQuantity(quantity: number, sellingType: string, product: PickQuantityProduct): string {
+  const type = sellingType === 'pallets' ? 'pallets' : 'units';
+  const quantityInPack = product.quantityInPack || 1;
+  const pick = InventoryCalculator.calculatePickQuantities(quantity, type, {
+    stock: 0,
+    palletStock: 0,
+    quantityInPack,
+    unitsPerPallet: product.unitsPerPallet || 1
+  });
+
+  if (type === 'pallets') {
+    return `${pick.pallets} ${pick.pallets === 1 ? 'pallet' : 'pallets'}`;
+  }
+  const parts: string[] = [];
+  if (pick.packs > 0) parts.push(`${pick.packs} ${pick.packs === 1 ? 'pack' : 'packs'} of ${quantityInPack}`);
+  if (pick.units > 0 || parts.length === 0) parts.push(`${pick.units} ${pick.units === 1 ? 'unit' : 'units'}`);
+  return parts.join(' + ');
+}
+
+/**
+ * One line per product and selling type across every order on the pick list
+ */
+export function consolidatePickLines(lines: (PickLineInput & { orderId: number })[]): ConsolidatedPickLine[] {
+  const grouped = new Map<string, ConsolidatedPickLine & { product: PickQuantityProduct; orderIds: Set<number> }>();
+
+  for (const line of lines) {
+    const sellingType = line.sellingType === 'pallets' ? 'pallets' : 'units';
+    const key = `${line.productId}:${sellingType}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.pickedQuantity += line.pickedQuantity;
+      existing.orderIds.add(line.orderId);
+    } else {
+      grouped.set(key, {
+        productId: line.productId,
+        productName: line.productName,
+        sellingType,
+        quantity: line.quantity,
+        pickedQuantity: line.pickedQuantity,
+        orderCount: 0,
+        display: '',
+        product: line.product,
+        orderIds: new Set([line.orderId])
+      });
+    }
+  }
+
+  return Array.from(grouped.values())
+    .map(({ product, orderIds, ...line }) => ({
+      ...line,
+      orderCount: orderIds.size,
+      display: formatPickQuantity(line.quantity, line.sellingType, product)
+    }))
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+export function isPickLineComplete(line: { quantity: number; pickedQuantity: number }): boolean {
+  return line.pickedQuantity >= line.quantity;
+}
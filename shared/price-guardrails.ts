@@ -0,0 +1,36 @@
+// Dynamic pricing guardrails shared by the approval queue and the price changes page
+export type PriceGuardrail = 'floor' | 'ceiling';
+
+export interface PriceGuardrails {
+  priceFloor?: string | number | null;
+  priceCeiling?: string | number | null;
+}
+
+const toPrice = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const price = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(price) ? null : price;
+};
+
+/**
+ * Keep an automatic price inside the product's floor and ceiling. Reports
+ * which guardrail was hit so reviewers can see the recommendation was clamped.
+ */
+export function applyPriceGuardrails(price: number, guardrails: PriceGuardrails): { price: number; guardrail: PriceGuardrail | null } {
+  const floor = toPrice(guardrails.priceFloor);
+  const ceiling = toPrice(guardrails.priceCeiling);
+
+  if (floor !== null && price < floor) return { price: floor, guardrail: 'floor' };
+  if (ceiling !== null && price > ceiling) return { price: ceiling, guardrail: 'ceiling' };
+  return { price: Math.round(price * 100) / 100, guardrail: null };
+}
+
+/**
+ * Prices are stored to the penny - anything closer is the same price
+ */
+export function isSamePrice(a: string | number | null | undefined, b: string | number | null | undefined): boolean {
+  const first = toPrice(a);
+  const second = toPrice(b);
+  if (first === null || second === null) return first === second;
+  return Math.abs(first - second) < 0.005;
+}
@@ -0,0 +1,75 @@
+// Customer price list (contract pricing) resolution
+export interface PriceListRule {
+  priceListId: number;
+  priceListName: string;
+  discountPercentage: string | number | null; // List-wide markdown
+  items: Map<number, {
+    unitPrice: string | null;
+    palletPrice: string | null;
+    discountPercentage: string | null;
+  }>;
+}
+
+export interface ContractPrice {
+  unitPrice: number;
+  palletPrice: number | null;
+  applied: boolean;
+}
+
+export function toPriceListRule(priceList: {
+  id: number;
+  name: string;
+  discountPercentage: string | null;
+  items: Array<{ productId: number; unitPrice: string | null; palletPrice: string | null; discountPercentage: string | null }>;
+}): PriceListRule {
+  return {
+    priceListId: priceList.id,
+    priceListName: priceList.name,
+    discountPercentage: priceList.discountPercentage,
+    items: new Map(priceList.items.map(item => [item.productId, {
+      unitPrice: item.unitPrice,
+      palletPrice: item.palletPrice,
+      discountPercentage: item.discountPercentage
+    }]))
+  };
+}
+
+function applyMarkdown(price: number, percentage: string | number | null | undefined): number {
+  const pct = percentage != null ? parseFloat(percentage.toString()) : 0;
+  if (!pct || isNaN(pct)) return price;
+  return Math.round(price * (1 - pct / 100) * 100) / 100;
+}
+
+/**
+ * Resolves a product's contract price on a price list. A product-specific
+ * fixed price wins, then a product-specific markdown, then the list-wide markdown.
+ */
+export function resolveContractPrice(
+  productId: number,
+  basePrice: string | number,
+  basePalletPrice: string | number | null | undefined,
+  rule: PriceListRule | null | undefined
+): ContractPrice {
+  const unitBase = parseFloat(basePrice.toString()) || 0;
+  const palletBase = basePalletPrice != null && basePalletPrice !== '' ? parseFloat(basePalletPrice.toString()) : null;
+
+  if (!rule) {
+    return { unitPrice: unitBase, palletPrice: palletBase, applied: false };
+  }
+
+  const item = rule.items.get(productId);
+  const markdown = item?.discountPercentage ?? rule.discountPercentage;
+
+  const unitPrice = item?.unitPrice != null
+    ? parseFloat(item.unitPrice)
+    : applyMarkdown(unitBase, markdown);
+  const palletPrice = item?.palletPrice != null
+    ? parseFloat(item.palletPrice)
+    : palletBase != null ? applyMarkdown(palletBase, markdown) : null;
+
+  return {
+    unitPrice,
+    palletPrice,
+    applied: unitPrice !== unitBase || palletPrice !== palletBase
+  };
+}
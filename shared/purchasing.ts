@@ -0,0 +1,49 @@
+// Purchase order statuses and costing maths shared by the server and the purchasing page
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export interface PurchaseOrderLine {
+  quantity: number;
+  unitCost: string | number;
+  receivedQuantity?: number;
+}
+
+/**
+ * Quantity on a purchase order line still to arrive
+ */
+export function getOutstandingReceiptQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantity - (line.receivedQuantity || 0));
+}
+
+/**
+ * Total cost of a purchase order from its lines
+ */
+export function calculatePurchaseOrderTotal(lines: PurchaseOrderLine[]): number {
+  const total = lines.reduce((sum, line) => sum + line.quantity * parseFloat(String(line.unitCost)), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Weighted average cost per base unit after receiving new stock. Stock already
+ * on hand keeps its old cost; without a previous cost the receipt cost is used.
+ */
+export function getWeightedAverageCost(
+  currentCost: number | null,
+  onHandBaseUnits: number,
+  receivedBaseUnits: number,
+  receivedCostPerBaseUnit: number
+): number {
+  if (currentCost === null || onHandBaseUnits <= 0) {
+    return Math.round(receivedCostPerBaseUnit * 100) / 100;
+  }
+  const totalUnits = onHandBaseUnits + receivedBaseUnits;
+  const cost = (currentCost * onHandBaseUnits + receivedCostPerBaseUnit * receivedBaseUnits) / totalUnits;
+  return Math.round(cost * 100) / 100;
+}
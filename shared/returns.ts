@@ -0,0 +1,43 @@
+// Return (RMA) statuses and refund maths shared by the server and both portals
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'inspected' | 'refunding' | 'refunded';
+export type ReturnLineOutcome = 'pending' | 'restock' | 'write_off' | 'rejected';
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved - awaiting goods',
+  rejected: 'Rejected',
+  received: 'Goods received',
+  inspected: 'Inspected',
+  refunding: 'Refund in progress',
+  refunded: 'Refunded',
+};
+
+export const RETURN_OUTCOME_LABELS: Record<ReturnLineOutcome, string> = {
+  pending: 'Awaiting inspection',
+  restock: 'Restock',
+  write_off: 'Write off',
+  rejected: 'Not accepted',
+};
+
+export interface ReturnRefundLine {
+  quantity: number;
+  unitPrice: string | number;
+  outcome: ReturnLineOutcome | string;
+}
+
+/**
+ * A line is accepted (and refunded) when it was restocked or written off
+ */
+export function isAcceptedReturnLine(line: { outcome: ReturnLineOutcome | string }): boolean {
+  return line.outcome === 'restock' || line.outcome === 'write_off';
+}
+
+/**
+ * Refund due for a return, from its accepted lines at the price the customer paid
+ */
+export function calculateReturnRefund(lines: ReturnRefundLine[]): number {
+  const total = lines
+    .filter(isAcceptedReturnLine)
+    .reduce((sum, line) => sum + line.quantity * parseFloat(String(line.unitPrice)), 0);
+  return Math.round(total * 100) / 100;
+}
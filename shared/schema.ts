@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   decimal,
@@ -14,6 +15,12 @@ import {
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import type { OrderEditLineChange } from "./order-edits";
+import type { ShippingProviderKey, Parcel2GoProviderCredentials, TableRateSettings } from "./shipping-providers";
+import type { InvoiceDocumentType, InvoiceLine, InvoiceParty } from "./invoices";
+import type { AccountingExportFormat, AccountingSettings, AccountingSourceType } from "./accounting-export";
+import type { OutboxMessageType, OutboxStatus } from "./outbox";
+import type { StripeWebhookEventStatus } from "./stripe-webhook-events";
 
 // Promotional offer types
 export type PromotionalOfferType = 
@@ -122,6 +129,7 @@ export const users = pgTable("users", {
   businessName: varchar("business_name"),
   businessAddress: varchar("business_address"),
   businessPhone: varchar("business_phone"),
+  vatNumber: varchar("vat_number"), // VAT registration number - VAT is only charged when set
   logoUrl: varchar("logo_url"), // Custom uploaded logo
   logoType: varchar("logo_type").default("initials"), // 'initials', 'business_name', 'uploaded'
   
@@ -168,6 +176,8 @@ export const users = pgTable("users", {
   
   storeTagline: varchar("store_tagline").default("Premium wholesale products"), // Customizable customer portal tagline
   orderNumberPrefix: varchar("order_number_prefix").default("ORD"), // Prefix for order numbers (e.g., "SF", "QP")
+  invoiceNumberPrefix: varchar("invoice_number_prefix").default("INV"), // Prefix for invoice and credit note numbers
+  accountingSettings: jsonb("accounting_settings").$type<Partial<AccountingSettings>>(), // Account codes for accounting exports
   
   // Marketplace settings
   showPricesToWholesalers: boolean("show_prices_to_wholesalers").default(false), // Whether to show prices to other wholesalers in marketplace
@@ -447,6 +457,11 @@ export const products = pgTable("products", {
   specialHandling: jsonb("special_handling").default({}), // {fragile: boolean, hazardous: boolean, perishable: boolean}
   shelfLife: integer("shelf_life"), // Days before expiry
   contentCategory: varchar("content_category").default("general"), // 'food', 'pharmaceuticals', 'electronics', 'textiles', 'general'
+  vatRate: varchar("vat_rate").notNull().default("standard"), // 'standard' | 'reduced' | 'zero' | 'exempt'
+
+  // Dynamic pricing guardrails - automatic price changes are kept inside this range
+  priceFloor: decimal("price_floor", { precision: 10, scale: 2 }),
+  priceCeiling: decimal("price_ceiling", { precision: 10, scale: 2 }),
   
 
   
@@ -474,7 +489,7 @@ export const stockMovements = pgTable("stock_movements", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull().references(() => products.id),
   wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
-  movementType: varchar("movement_type").notNull(), // 'purchase', 'manual_increase', 'manual_decrease', 'initial'
+  movementType: varchar("movement_type").notNull(), // 'purchase', 'manual_increase', 'manual_decrease', 'initial', 'backorder_release', 'order_cancellation', 'return', 'purchase_receipt', 'expiry_write_off', 'transfer_out', 'transfer_in', 'order_edit'
   quantity: integer("quantity").notNull(), // positive for increases, negative for decreases
   unitType: varchar("unit_type").notNull().default("units"), // 'units', 'pallets', 'boxes', 'kg', 'tonnes'
   stockBefore: integer("stock_before").notNull(),
@@ -482,6 +497,9 @@ export const stockMovements = pgTable("stock_movements", {
   reason: varchar("reason"), // description of the movement
   orderId: integer("order_id"), // reference to order if movement is from purchase
   customerName: varchar("customer_name"), // customer name if movement is from purchase
+  purchaseOrderId: integer("purchase_order_id"), // reference to purchase order if movement is a goods receipt
+  warehouseId: integer("warehouse_id"), // Location the movement happened at (null = default location)
+  transferId: varchar("transfer_id"), // Shared by the paired transfer_out/transfer_in movements of one transfer
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -493,7 +511,7 @@ export const orders = pgTable("orders", {
   customerName: varchar("customer_name"), // Store customer name for guest checkouts
   customerEmail: varchar("customer_email"), // Store customer email for guest checkouts
   customerPhone: varchar("customer_phone"), // Store customer phone for guest checkouts
-  status: varchar("status").notNull().default("pending"), // 'pending' | 'processing' | 'shipped' | 'completed' | 'cancelled'
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'processing' | 'partially_shipped' | 'shipped' | 'completed' | 'cancelled'
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   platformFee: decimal("platform_fee", { precision: 10, scale: 2 }).notNull(),
   customerTransactionFee: decimal("customer_transaction_fee", { precision: 10, scale: 2 }).default("0.00"), // Customer transaction fee (5.5% + £0.50)
@@ -526,10 +544,36 @@ export const orders = pgTable("orders", {
   shippingHash: varchar("shipping_hash"), // Parcel2Go order hash for authentication
   shippingTotal: decimal("shipping_total", { precision: 10, scale: 2 }), // Total shipping cost from Parcel2Go
   shippingStatus: varchar("shipping_status"), // Status from Parcel2Go (created, paid, dispatched, delivered)
+  shippingOrderLineId: varchar("shipping_order_line_id"), // Parcel2Go order line, used to poll tracking
+  lastTrackedAt: timestamp("last_tracked_at"), // Last time tracking was fetched from Parcel2Go
+  shippingProviderAccountId: integer("shipping_provider_account_id"), // Carrier account the booking was made with; null = account-level Parcel2Go
   
   // Ready for Collection feature
   readyToCollectAt: timestamp("ready_to_collect_at"), // When order was marked ready for collection
-  
+
+  // Credit account (on-account) payment fields
+  paymentMethod: varchar("payment_method").notNull().default("card"), // 'card' | 'account'
+  paymentStatus: varchar("payment_status").notNull().default("paid"), // 'paid' | 'unpaid'
+  paymentDueDate: timestamp("payment_due_date"), // Due date derived from relationship payment terms
+  paidAt: timestamp("paid_at"), // When an on-account order was settled
+  accountCredit: decimal("account_credit", { precision: 10, scale: 2 }).default("0.00"), // Credited back on account, e.g. for returned goods
+
+  // Multi-warehouse: depot the order ships from, or the collection depot for pickup orders
+  warehouseId: integer("warehouse_id"),
+
+  // VAT breakdown of the goods and delivery (subtotal + delivery = net + VAT)
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }),
+  deliveryVatAmount: decimal("delivery_vat_amount", { precision: 10, scale: 2 }),
+
+  // Standing orders: the recurring order this order was generated from
+  standingOrderId: integer("standing_order_id"),
+
+  // Delivery slots: the delivery day or collection window the customer booked
+  fulfilmentSlotId: integer("fulfilment_slot_id"),
+  slotStartsAt: timestamp("slot_starts_at"),
+  slotEndsAt: timestamp("slot_ends_at"),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -542,6 +586,16 @@ export const orderItems = pgTable("order_items", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   sellingType: varchar("selling_type", { length: 10 }).default('units'), // 'units' or 'pallets'
+  // Partial fulfilment: quantity = fulfilled + backordered + cancelled + still to ship
+  fulfilledQuantity: integer("fulfilled_quantity").notNull().default(0), // Shipped or collected
+  backorderedQuantity: integer("backordered_quantity").notNull().default(0), // Short, waiting for stock
+  cancelledQuantity: integer("cancelled_quantity").notNull().default(0), // Will not be supplied
+  // VAT on the line total, fixed when the order is placed. No rate when the wholesaler
+  // is not VAT registered, or on orders placed before VAT was recorded.
+  vatRate: varchar("vat_rate"), // 'standard' | 'reduced' | 'zero' | 'exempt'
+  vatRatePercent: decimal("vat_rate_percent", { precision: 5, scale: 2 }),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }),
 });
 
 export const negotiations = pgTable("negotiations", {
@@ -551,9 +605,13 @@ export const negotiations = pgTable("negotiations", {
   originalPrice: decimal("original_price", { precision: 10, scale: 2 }).notNull(),
   offeredPrice: decimal("offered_price", { precision: 10, scale: 2 }).notNull(),
   counterPrice: decimal("counter_price", { precision: 10, scale: 2 }),
-  status: varchar("status").notNull().default("pending"), // 'pending' | 'accepted' | 'declined' | 'countered'
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'accepted' | 'declined' | 'countered' | 'expired' | 'ordered'
   quantity: integer("quantity").notNull(),
   message: text("message"),
+  agreedPrice: decimal("agreed_price", { precision: 10, scale: 2 }), // Locked unit price once accepted
+  expiresAt: timestamp("expires_at"), // Offer response deadline, or end of the price lock once accepted
+  acceptedAt: timestamp("accepted_at"),
+  orderId: integer("order_id").references(() => orders.id), // Order the locked price was used on
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -571,10 +629,11 @@ export const broadcasts = pgTable("broadcasts", {
   // New promotional offers system
   promotionalOffers: jsonb("promotional_offers").$type<PromotionalOffer[]>().default([]),
   
-  status: varchar("status").notNull().default("pending"), // pending, sent, failed
+  status: varchar("status").notNull().default("pending"), // pending, scheduled, sending, sent, failed, cancelled
   recipientCount: integer("recipient_count").notNull().default(0),
   sentAt: timestamp("sent_at"),
   scheduledAt: timestamp("scheduled_at"),
+  dispatchStartedAt: timestamp("dispatch_started_at"), // Set when the dispatcher claims the broadcast
   openRate: integer("open_rate"), // percentage
   clickRate: integer("click_rate"), // percentage
   messageId: varchar("message_id"),
@@ -663,8 +722,12 @@ export const templateCampaigns = pgTable("template_campaigns", {
   customerGroupId: integer("customer_group_id").notNull().references(() => customerGroups.id),
   wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
   campaignUrl: varchar("campaign_url"), // Unique URL for this campaign
+  customMessage: text("custom_message"), // Overrides the template intro for this send
   sentAt: timestamp("sent_at"),
-  status: varchar("status").default("pending"), // 'pending', 'sent', 'failed'
+  scheduledAt: timestamp("scheduled_at"),
+  dispatchStartedAt: timestamp("dispatch_started_at"), // Set when the dispatcher claims the campaign
+  errorMessage: text("error_message"),
+  status: varchar("status").default("pending"), // 'pending', 'scheduled', 'sending', 'sent', 'failed', 'cancelled'
   recipientCount: integer("recipient_count").default(0),
   clickCount: integer("click_count").default(0),
   orderCount: integer("order_count").default(0),
@@ -755,9 +818,10 @@ export const stockAlerts = pgTable("stock_alerts", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  alertType: varchar("alert_type").notNull().default("low_stock"), // 'low_stock', 'out_of_stock'
-  currentStock: integer("current_stock").notNull(),
-  threshold: integer("threshold").notNull(),
+  alertType: varchar("alert_type").notNull().default("low_stock"), // 'low_stock', 'out_of_stock', 'near_expiry'
+  currentStock: integer("current_stock").notNull(), // For near_expiry alerts: quantity left on the lot
+  threshold: integer("threshold").notNull(), // For near_expiry alerts: warning window in days
+  stockLotId: integer("stock_lot_id"), // Lot that is about to expire (near_expiry alerts only)
   isRead: boolean("is_read").notNull().default(false),
   isResolved: boolean("is_resolved").notNull().default(false), // Mark as resolved when stock is replenished
   notificationSent: boolean("notification_sent").notNull().default(false),
@@ -879,7 +943,7 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
   }),
 }));
 
-export const negotiationsRelations = relations(negotiations, ({ one }) => ({
+export const negotiationsRelations = relations(negotiations, ({ one, many }) => ({
   product: one(products, {
     fields: [negotiations.productId],
     references: [products.id],
@@ -888,6 +952,11 @@ export const negotiationsRelations = relations(negotiations, ({ one }) => ({
     fields: [negotiations.retailerId],
     references: [users.id],
   }),
+  order: one(orders, {
+    fields: [negotiations.orderId],
+    references: [orders.id],
+  }),
+  messages: many(negotiationMessages),
 }));
 
 export const broadcastsRelations = relations(broadcasts, ({ one }) => ({
@@ -1017,6 +1086,7 @@ export const insertProductSchema = createInsertSchema(products).omit({
   stock: z.union([z.string(), z.number()]).transform((val) => parseInt(val.toString())),
   lowStockThreshold: z.union([z.string(), z.number(), z.null()]).optional().transform((val) => val ? parseInt(val.toString()) : 50),
   shelfLife: z.union([z.string(), z.number(), z.null()]).optional().transform((val) => val ? parseInt(val.toString()) : null),
+  vatRate: z.enum(["standard", "reduced", "zero", "exempt"]).optional(),
 });
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
@@ -1437,3 +1507,1307 @@ export type UpsertUser = Omit<InsertUser, 'createdAt' | 'updatedAt'> & {
 };
 
 
+
+// Price lists for customer-specific / contract pricing
+export const priceLists = pgTable("price_lists", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  // Percentage markdown applied to every product without a specific price on this list
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    wholesalerIdIdx: index("price_lists_wholesaler_id_idx").on(table.wholesalerId),
+  };
+});
+
+// Per-product overrides on a price list - either a fixed price or a percentage markdown
+export const priceListItems = pgTable("price_list_items", {
+  id: serial("id").primaryKey(),
+  priceListId: integer("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // Fixed unit price
+  palletPrice: decimal("pallet_price", { precision: 10, scale: 2 }), // Fixed pallet price
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }), // Markdown off the base price
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    priceListIdIdx: index("price_list_items_price_list_id_idx").on(table.priceListId),
+    priceListProductIdx: index("price_list_items_list_product_idx").on(table.priceListId, table.productId),
+  };
+});
+
+// Assigns a price list to a single customer or a whole customer group
+export const priceListAssignments = pgTable("price_list_assignments", {
+  id: serial("id").primaryKey(),
+  priceListId: integer("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").references(() => users.id, { onDelete: "cascade" }),
+  customerGroupId: integer("customer_group_id").references(() => customerGroups.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    wholesalerIdIdx: index("price_list_assignments_wholesaler_id_idx").on(table.wholesalerId),
+    customerIdIdx: index("price_list_assignments_customer_id_idx").on(table.customerId),
+    customerGroupIdIdx: index("price_list_assignments_group_id_idx").on(table.customerGroupId),
+  };
+});
+
+export const priceListsRelations = relations(priceLists, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [priceLists.wholesalerId],
+    references: [users.id],
+  }),
+  items: many(priceListItems),
+  assignments: many(priceListAssignments),
+}));
+
+export const priceListItemsRelations = relations(priceListItems, ({ one }) => ({
+  priceList: one(priceLists, {
+    fields: [priceListItems.priceListId],
+    references: [priceLists.id],
+  }),
+  product: one(products, {
+    fields: [priceListItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const priceListAssignmentsRelations = relations(priceListAssignments, ({ one }) => ({
+  priceList: one(priceLists, {
+    fields: [priceListAssignments.priceListId],
+    references: [priceLists.id],
+  }),
+  customer: one(users, {
+    fields: [priceListAssignments.customerId],
+    references: [users.id],
+  }),
+  customerGroup: one(customerGroups, {
+    fields: [priceListAssignments.customerGroupId],
+    references: [customerGroups.id],
+  }),
+}));
+
+// Price list types
+export const insertPriceListSchema = createInsertSchema(priceLists).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type PriceList = typeof priceLists.$inferSelect;
+
+export const insertPriceListItemSchema = createInsertSchema(priceListItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPriceListItem = z.infer<typeof insertPriceListItemSchema>;
+export type PriceListItem = typeof priceListItems.$inferSelect;
+
+export const insertPriceListAssignmentSchema = createInsertSchema(priceListAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPriceListAssignment = z.infer<typeof insertPriceListAssignmentSchema>;
+export type PriceListAssignment = typeof priceListAssignments.$inferSelect;
+
+// Per-recipient delivery log for broadcasts and template campaigns
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: serial("id").primaryKey(),
+  campaignType: varchar("campaign_type").notNull(), // 'broadcast' | 'template'
+  campaignId: integer("campaign_id").notNull(), // broadcasts.id or template_campaigns.id
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  channel: varchar("channel"), // 'whatsapp' | 'sms' | 'email'
+  destination: varchar("destination"), // Phone number or email address used
+  status: varchar("status").notNull().default("sending"), // 'sending', 'sent', 'failed', 'skipped'
+  messageId: varchar("message_id"),
+  errorMessage: text("error_message"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  campaignRecipientIdx: uniqueIndex("campaign_recipients_campaign_customer_idx").on(table.campaignType, table.campaignId, table.customerId),
+  wholesalerIdIdx: index("campaign_recipients_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const campaignRecipientsRelations = relations(campaignRecipients, ({ one }) => ({
+  customer: one(users, {
+    fields: [campaignRecipients.customerId],
+    references: [users.id],
+  }),
+}));
+
+// Campaign recipient types
+export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipients).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+
+// Shipments - an order can be sent in several consignments, each with its own carrier booking
+export const orderShipments = pgTable("order_shipments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  shipmentNumber: integer("shipment_number").notNull(), // 1, 2, 3... within the order
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'dispatched' | 'delivered' | 'cancelled'
+  carrier: varchar("carrier"),
+  serviceId: varchar("service_id"),
+  trackingNumber: varchar("tracking_number"),
+  // Parcel2Go booking for this shipment
+  shippingOrderId: varchar("shipping_order_id"),
+  shippingHash: varchar("shipping_hash"),
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }),
+  shippingOrderLineId: varchar("shipping_order_line_id"), // Parcel2Go order line, used to poll tracking
+  trackingStatus: varchar("tracking_status"), // Latest carrier state, see SHIPPING_STATUS_LABELS
+  lastTrackedAt: timestamp("last_tracked_at"),
+  shippingProviderAccountId: integer("shipping_provider_account_id"), // Carrier account the booking was made with
+  notes: text("notes"),
+  dispatchedAt: timestamp("dispatched_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  orderIdIdx: index("order_shipments_order_id_idx").on(table.orderId),
+  wholesalerIdIdx: index("order_shipments_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const orderShipmentItems = pgTable("order_shipment_items", {
+  id: serial("id").primaryKey(),
+  shipmentId: integer("shipment_id").notNull().references(() => orderShipments.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  shipmentIdIdx: index("order_shipment_items_shipment_id_idx").on(table.shipmentId),
+}));
+
+export const orderShipmentsRelations = relations(orderShipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [orderShipments.orderId],
+    references: [orders.id],
+  }),
+  items: many(orderShipmentItems),
+}));
+
+export const orderShipmentItemsRelations = relations(orderShipmentItems, ({ one }) => ({
+  shipment: one(orderShipments, {
+    fields: [orderShipmentItems.shipmentId],
+    references: [orderShipments.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [orderShipmentItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+// Shipment types
+export const insertOrderShipmentSchema = createInsertSchema(orderShipments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertOrderShipment = z.infer<typeof insertOrderShipmentSchema>;
+export type OrderShipment = typeof orderShipments.$inferSelect;
+
+export const insertOrderShipmentItemSchema = createInsertSchema(orderShipmentItems).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertOrderShipmentItem = z.infer<typeof insertOrderShipmentItemSchema>;
+export type OrderShipmentItem = typeof orderShipmentItems.$inferSelect;
+
+// Carrier tracking history - one row per scan, polled from Parcel2Go for parcels in flight
+export const trackingEvents = pgTable("tracking_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  shipmentId: integer("shipment_id").references(() => orderShipments.id, { onDelete: "cascade" }), // Null for bookings made against the whole order
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  eventKey: varchar("event_key").notNull(), // Identifies the scan so repeat polls don't duplicate it
+  status: varchar("status").notNull(), // 'pending' | 'collected' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception' | 'returned'
+  carrierStatus: varchar("carrier_status"), // The carrier's own wording
+  description: text("description"),
+  location: varchar("location"),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orderEventIdx: uniqueIndex("tracking_events_order_event_idx").on(table.orderId, table.eventKey),
+  shipmentIdIdx: index("tracking_events_shipment_id_idx").on(table.shipmentId),
+}));
+
+export const trackingEventsRelations = relations(trackingEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [trackingEvents.orderId],
+    references: [orders.id],
+  }),
+  shipment: one(orderShipments, {
+    fields: [trackingEvents.shipmentId],
+    references: [orderShipments.id],
+  }),
+}));
+
+export const insertTrackingEventSchema = createInsertSchema(trackingEvents).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertTrackingEvent = z.infer<typeof insertTrackingEventSchema>;
+export type TrackingEventRecord = typeof trackingEvents.$inferSelect;
+
+// Returns (RMA) - customer requests a return, wholesaler approves, receives and inspects each line
+export const returnRequests = pgTable("return_requests", {
+  id: serial("id").primaryKey(),
+  returnNumber: varchar("return_number").notNull(), // e.g. "SF-001-R1"
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  customerId: varchar("customer_id").notNull().references(() => users.id),
+  status: varchar("status").notNull().default("requested"), // 'requested' | 'approved' | 'rejected' | 'received' | 'inspected' | 'refunding' | 'refunded'
+  reason: text("reason").notNull(),
+  wholesalerNotes: text("wholesaler_notes"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }), // Calculated from accepted lines at inspection
+  stripeRefundId: varchar("stripe_refund_id"),
+  approvedAt: timestamp("approved_at"),
+  rejectedAt: timestamp("rejected_at"),
+  receivedAt: timestamp("received_at"),
+  inspectedAt: timestamp("inspected_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  orderIdIdx: index("return_requests_order_id_idx").on(table.orderId),
+  wholesalerIdIdx: index("return_requests_wholesaler_id_idx").on(table.wholesalerId),
+  statusIdx: index("return_requests_status_idx").on(table.status),
+}));
+
+export const returnRequestItems = pgTable("return_request_items", {
+  id: serial("id").primaryKey(),
+  returnRequestId: integer("return_request_id").notNull().references(() => returnRequests.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  productId: integer("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // Price paid, copied from the order line
+  sellingType: varchar("selling_type", { length: 10 }).default('units'), // 'units' or 'pallets'
+  outcome: varchar("outcome").notNull().default("pending"), // 'pending' | 'restock' | 'write_off' | 'rejected'
+  inspectionNotes: text("inspection_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  returnRequestIdIdx: index("return_request_items_return_request_id_idx").on(table.returnRequestId),
+}));
+
+export const returnRequestsRelations = relations(returnRequests, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returnRequests.orderId],
+    references: [orders.id],
+  }),
+  wholesaler: one(users, {
+    fields: [returnRequests.wholesalerId],
+    references: [users.id],
+  }),
+  customer: one(users, {
+    fields: [returnRequests.customerId],
+    references: [users.id],
+  }),
+  items: many(returnRequestItems),
+}));
+
+export const returnRequestItemsRelations = relations(returnRequestItems, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnRequestItems.returnRequestId],
+    references: [returnRequests.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnRequestItems.orderItemId],
+    references: [orderItems.id],
+  }),
+  product: one(products, {
+    fields: [returnRequestItems.productId],
+    references: [products.id],
+  }),
+}));
+
+// Return types
+export const insertReturnRequestSchema = createInsertSchema(returnRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+
+export const insertReturnRequestItemSchema = createInsertSchema(returnRequestItems).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertReturnRequestItem = z.infer<typeof insertReturnRequestItemSchema>;
+export type ReturnRequestItem = typeof returnRequestItems.$inferSelect;
+
+// Negotiation thread - every offer, counter-offer and outcome in order
+export const negotiationMessages = pgTable("negotiation_messages", {
+  id: serial("id").primaryKey(),
+  negotiationId: integer("negotiation_id").notNull().references(() => negotiations.id, { onDelete: "cascade" }),
+  senderRole: varchar("sender_role").notNull(), // 'buyer' | 'wholesaler' | 'system'
+  action: varchar("action").notNull(), // 'offer' | 'counter' | 'accept' | 'decline' | 'expire'
+  price: decimal("price", { precision: 10, scale: 2 }),
+  quantity: integer("quantity"),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  negotiationIdIdx: index("negotiation_messages_negotiation_id_idx").on(table.negotiationId),
+}));
+
+export const negotiationMessagesRelations = relations(negotiationMessages, ({ one }) => ({
+  negotiation: one(negotiations, {
+    fields: [negotiationMessages.negotiationId],
+    references: [negotiations.id],
+  }),
+}));
+
+// Negotiation thread types
+export const insertNegotiationMessageSchema = createInsertSchema(negotiationMessages).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertNegotiationMessage = z.infer<typeof insertNegotiationMessageSchema>;
+export type NegotiationMessage = typeof negotiationMessages.$inferSelect;
+
+// Suppliers the wholesaler buys stock from
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  contactName: varchar("contact_name"),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  address: text("address"),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("suppliers_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+// Purchase orders for inbound stock
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id),
+  poNumber: varchar("po_number").notNull(), // e.g. "PO-0001", sequential per wholesaler
+  status: varchar("status").notNull().default("draft"), // 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled'
+  expectedDeliveryDate: timestamp("expected_delivery_date"),
+  warehouseId: integer("warehouse_id"), // Depot the goods are delivered to (null = default location)
+  totalCost: decimal("total_cost", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  notes: text("notes"),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("purchase_orders_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull(),
+  unitType: varchar("unit_type", { length: 10 }).notNull().default("units"), // 'units' or 'pallets'
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(), // Cost per unit or per pallet, matching unitType
+  receivedQuantity: integer("received_quantity").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  purchaseOrderIdIdx: index("purchase_order_items_purchase_order_id_idx").on(table.purchaseOrderId),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [suppliers.wholesalerId],
+    references: [users.id],
+  }),
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [purchaseOrders.wholesalerId],
+    references: [users.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  items: many(purchaseOrderItems),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+// Purchasing types
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
+// Batch/lot tracking - stock received with a batch code and expiry date, sold first-expiry-first-out
+export const stockLots = pgTable("stock_lots", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  batchCode: varchar("batch_code").notNull(),
+  expiryDate: timestamp("expiry_date"), // Null for lots that do not expire
+  unitType: varchar("unit_type", { length: 10 }).notNull().default("units"), // 'units' or 'pallets', matching the stock pool the lot sits in
+  quantityReceived: integer("quantity_received").notNull(),
+  quantityRemaining: integer("quantity_remaining").notNull(),
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id), // Set when booked in against a purchase order
+  receivedAt: timestamp("received_at").defaultNow(),
+  writtenOffAt: timestamp("written_off_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productIdIdx: index("stock_lots_product_id_idx").on(table.productId),
+  wholesalerIdIdx: index("stock_lots_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+// Which lots each order line was picked from, for recall traceability
+export const orderItemLots = pgTable("order_item_lots", {
+  id: serial("id").primaryKey(),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id, { onDelete: "cascade" }),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  stockLotId: integer("stock_lot_id").notNull().references(() => stockLots.id),
+  batchCode: varchar("batch_code").notNull(), // Copied from the lot so the record survives lot edits
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orderItemIdIdx: index("order_item_lots_order_item_id_idx").on(table.orderItemId),
+  stockLotIdIdx: index("order_item_lots_stock_lot_id_idx").on(table.stockLotId),
+}));
+
+export const stockLotsRelations = relations(stockLots, ({ one, many }) => ({
+  product: one(products, {
+    fields: [stockLots.productId],
+    references: [products.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [stockLots.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  allocations: many(orderItemLots),
+}));
+
+export const orderItemLotsRelations = relations(orderItemLots, ({ one }) => ({
+  orderItem: one(orderItems, {
+    fields: [orderItemLots.orderItemId],
+    references: [orderItems.id],
+  }),
+  stockLot: one(stockLots, {
+    fields: [orderItemLots.stockLotId],
+    references: [stockLots.id],
+  }),
+}));
+
+// Batch tracking types
+export const insertStockLotSchema = createInsertSchema(stockLots).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertStockLot = z.infer<typeof insertStockLotSchema>;
+export type StockLot = typeof stockLots.$inferSelect;
+export type OrderItemLot = typeof orderItemLots.$inferSelect;
+
+// Multi-warehouse stock locations. products.stock/palletStock stay the wholesaler-wide
+// totals; warehouseStock holds what sits at each non-default warehouse and the default
+// warehouse holds the remainder, so single-location code paths keep working unchanged.
+export const warehouses = pgTable("warehouses", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  addressLine1: varchar("address_line1"),
+  city: varchar("city"),
+  postcode: varchar("postcode"),
+  latitude: decimal("latitude", { precision: 9, scale: 6 }), // Geocoded from the postcode for nearest-depot allocation
+  longitude: decimal("longitude", { precision: 9, scale: 6 }),
+  isDefault: boolean("is_default").notNull().default(false),
+  allowCollection: boolean("allow_collection").notNull().default(true), // Offered to buyers as a pickup depot
+  collectionInstructions: text("collection_instructions"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("warehouses_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const warehouseStock = pgTable("warehouse_stock", {
+  id: serial("id").primaryKey(),
+  warehouseId: integer("warehouse_id").notNull().references(() => warehouses.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  stock: integer("stock").notNull().default(0), // Units held at this warehouse
+  palletStock: integer("pallet_stock").notNull().default(0), // Pallets held at this warehouse
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  warehouseProductIdx: uniqueIndex("warehouse_stock_warehouse_product_idx").on(table.warehouseId, table.productId),
+}));
+
+export const warehousesRelations = relations(warehouses, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [warehouses.wholesalerId],
+    references: [users.id],
+  }),
+  stock: many(warehouseStock),
+}));
+
+export const warehouseStockRelations = relations(warehouseStock, ({ one }) => ({
+  warehouse: one(warehouses, {
+    fields: [warehouseStock.warehouseId],
+    references: [warehouses.id],
+  }),
+  product: one(products, {
+    fields: [warehouseStock.productId],
+    references: [products.id],
+  }),
+}));
+
+// Warehouse types
+export const insertWarehouseSchema = createInsertSchema(warehouses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
+export type Warehouse = typeof warehouses.$inferSelect;
+export type WarehouseStock = typeof warehouseStock.$inferSelect;
+
+// Price change history and dynamic pricing approval queue.
+// Every change to a product's unit or pallet price is recorded in productPriceHistory.
+// Automatic recommendations are queued as a batch of proposals that a person approves,
+// and an approved batch can be rolled back in one go.
+export const priceChangeBatches = pgTable("price_change_batches", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  strategy: varchar("strategy").notNull(), // 'profit_optimization' | 'market_penetration' | 'inventory_clearance' | 'demand_based'
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'approved' | 'rejected' | 'superseded' | 'rolled_back'
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  rolledBackBy: varchar("rolled_back_by").references(() => users.id),
+  rolledBackAt: timestamp("rolled_back_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("price_change_batches_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const priceChangeProposals = pgTable("price_change_proposals", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => priceChangeBatches.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  currentPrice: decimal("current_price", { precision: 10, scale: 2 }).notNull(), // Price when the proposal was made
+  recommendedPrice: decimal("recommended_price", { precision: 10, scale: 2 }).notNull(), // Before guardrails
+  proposedPrice: decimal("proposed_price", { precision: 10, scale: 2 }).notNull(), // After guardrails
+  guardrail: varchar("guardrail"), // 'floor' | 'ceiling' when the recommendation was clamped
+  reasoning: text("reasoning"),
+  confidence: integer("confidence"),
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'blocked' | 'approved' | 'rejected' | 'stale' | 'rolled_back'
+  appliedAt: timestamp("applied_at"),
+}, (table) => ({
+  batchIdIdx: index("price_change_proposals_batch_id_idx").on(table.batchId),
+}));
+
+export const productPriceHistory = pgTable("product_price_history", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  priceField: varchar("price_field").notNull().default("price"), // 'price' | 'palletPrice'
+  oldPrice: decimal("old_price", { precision: 10, scale: 2 }),
+  newPrice: decimal("new_price", { precision: 10, scale: 2 }),
+  source: varchar("source").notNull(), // 'manual' | 'dynamic_pricing' | 'rollback'
+  changedBy: varchar("changed_by").references(() => users.id), // Null for system changes
+  reason: text("reason"),
+  priceChangeBatchId: integer("price_change_batch_id").references(() => priceChangeBatches.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productIdIdx: index("product_price_history_product_id_idx").on(table.productId),
+}));
+
+export const priceChangeBatchesRelations = relations(priceChangeBatches, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [priceChangeBatches.wholesalerId],
+    references: [users.id],
+  }),
+  proposals: many(priceChangeProposals),
+}));
+
+export const priceChangeProposalsRelations = relations(priceChangeProposals, ({ one }) => ({
+  batch: one(priceChangeBatches, {
+    fields: [priceChangeProposals.batchId],
+    references: [priceChangeBatches.id],
+  }),
+  product: one(products, {
+    fields: [priceChangeProposals.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productPriceHistoryRelations = relations(productPriceHistory, ({ one }) => ({
+  product: one(products, {
+    fields: [productPriceHistory.productId],
+    references: [products.id],
+  }),
+  batch: one(priceChangeBatches, {
+    fields: [productPriceHistory.priceChangeBatchId],
+    references: [priceChangeBatches.id],
+  }),
+}));
+
+// Price change types
+export const insertPriceChangeBatchSchema = createInsertSchema(priceChangeBatches).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertPriceChangeProposalSchema = createInsertSchema(priceChangeProposals).omit({
+  id: true,
+});
+export const insertProductPriceHistorySchema = createInsertSchema(productPriceHistory).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPriceChangeBatch = z.infer<typeof insertPriceChangeBatchSchema>;
+export type PriceChangeBatch = typeof priceChangeBatches.$inferSelect;
+export type InsertPriceChangeProposal = z.infer<typeof insertPriceChangeProposalSchema>;
+export type PriceChangeProposal = typeof priceChangeProposals.$inferSelect;
+export type InsertProductPriceHistory = z.infer<typeof insertProductPriceHistorySchema>;
+export type ProductPriceHistory = typeof productPriceHistory.$inferSelect;
+
+// Standing (recurring) orders. A retail customer subscribes to a set of items on a
+// cadence; the scheduler generates a normal order on each run date and charges the
+// saved card or puts it on account. Every run is logged, including skips and failures.
+export const standingOrders = pgTable("standing_orders", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  retailerId: varchar("retailer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  cadence: varchar("cadence").notNull().default("weekly"), // 'weekly' | 'fortnightly' | 'monthly'
+  status: varchar("status").notNull().default("active"), // 'active' | 'paused' | 'cancelled'
+  nextRunDate: timestamp("next_run_date").notNull(),
+  fulfillmentType: varchar("fulfillment_type").notNull().default("pickup"), // 'pickup' | 'delivery'
+  deliveryAddressId: integer("delivery_address_id").references(() => deliveryAddresses.id),
+  collectionWarehouseId: integer("collection_warehouse_id").references(() => warehouses.id),
+  deliveryCost: decimal("delivery_cost", { precision: 10, scale: 2 }).default("0.00"), // Carried over from the order it was set up from
+  shortfallAction: varchar("shortfall_action").notNull().default("send_available"), // 'send_available' | 'skip_order'
+  paymentMethod: varchar("payment_method").notNull().default("card"), // 'card' | 'account'
+  stripePaymentMethodId: varchar("stripe_payment_method_id"), // Saved card charged off-session
+  cardBrand: varchar("card_brand"),
+  cardLast4: varchar("card_last4"),
+  failureCount: integer("failure_count").notNull().default(0), // Consecutive failed runs; paused after too many
+  createdFromOrderId: integer("created_from_order_id").references(() => orders.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  retailerIdIdx: index("standing_orders_retailer_id_idx").on(table.retailerId),
+  nextRunDateIdx: index("standing_orders_next_run_date_idx").on(table.nextRunDate),
+}));
+
+export const standingOrderItems = pgTable("standing_order_items", {
+  id: serial("id").primaryKey(),
+  standingOrderId: integer("standing_order_id").notNull().references(() => standingOrders.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  sellingType: varchar("selling_type").notNull().default("units"), // 'units' | 'pallets'
+});
+
+export const standingOrderRuns = pgTable("standing_order_runs", {
+  id: serial("id").primaryKey(),
+  standingOrderId: integer("standing_order_id").notNull().references(() => standingOrders.id, { onDelete: "cascade" }),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: varchar("status").notNull().default("processing"), // 'processing' | 'ordered' | 'partial' | 'skipped' | 'failed'
+  orderId: integer("order_id").references(() => orders.id),
+  message: text("message"), // Shortfalls, payment failures, or who skipped the run
+  stripePaymentIntentId: varchar("stripe_payment_intent_id"), // Recorded before the card is charged, so a crashed run can be reconciled
+  attemptedAt: timestamp("attempted_at"), // Last time an interrupted run was picked up again
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  standingOrderRunIdx: uniqueIndex("standing_order_runs_order_date_idx").on(table.standingOrderId, table.scheduledFor),
+}));
+
+export const standingOrdersRelations = relations(standingOrders, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [standingOrders.wholesalerId],
+    references: [users.id],
+  }),
+  retailer: one(users, {
+    fields: [standingOrders.retailerId],
+    references: [users.id],
+  }),
+  items: many(standingOrderItems),
+  runs: many(standingOrderRuns),
+}));
+
+export const standingOrderItemsRelations = relations(standingOrderItems, ({ one }) => ({
+  standingOrder: one(standingOrders, {
+    fields: [standingOrderItems.standingOrderId],
+    references: [standingOrders.id],
+  }),
+  product: one(products, {
+    fields: [standingOrderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const standingOrderRunsRelations = relations(standingOrderRuns, ({ one }) => ({
+  standingOrder: one(standingOrders, {
+    fields: [standingOrderRuns.standingOrderId],
+    references: [standingOrders.id],
+  }),
+  order: one(orders, {
+    fields: [standingOrderRuns.orderId],
+    references: [orders.id],
+  }),
+}));
+
+// Standing order types
+export const insertStandingOrderSchema = createInsertSchema(standingOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertStandingOrderItemSchema = createInsertSchema(standingOrderItems).omit({
+  id: true,
+});
+export type InsertStandingOrder = z.infer<typeof insertStandingOrderSchema>;
+export type StandingOrder = typeof standingOrders.$inferSelect;
+export type InsertStandingOrderItem = z.infer<typeof insertStandingOrderItemSchema>;
+export type StandingOrderItem = typeof standingOrderItems.$inferSelect;
+export type StandingOrderRun = typeof standingOrderRuns.$inferSelect;
+
+// Extra charges taken against an existing order after checkout, e.g. a delivery
+// cost top-up charged off-session to the customer's saved card
+export const orderCharges = pgTable("order_charges", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  retailerId: varchar("retailer_id").references(() => users.id),
+  type: varchar("type").notNull(), // 'delivery_top_up' | 'order_edit'
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Excluding the card transaction fee
+  transactionFee: decimal("transaction_fee", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'succeeded' | 'failed'
+  stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  stripePaymentMethodId: varchar("stripe_payment_method_id"),
+  reason: text("reason"),
+  failureMessage: text("failure_message"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orderIdIdx: index("order_charges_order_id_idx").on(table.orderId),
+}));
+
+export const orderChargesRelations = relations(orderCharges, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderCharges.orderId],
+    references: [orders.id],
+  }),
+}));
+
+// Order charge types
+export const insertOrderChargeSchema = createInsertSchema(orderCharges).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertOrderCharge = z.infer<typeof insertOrderChargeSchema>;
+export type OrderCharge = typeof orderCharges.$inferSelect;
+
+// Changes made to an order's lines after it was placed. Each edit records the
+// line changes, the totals before and after, and how the difference was settled.
+export const orderEdits = pgTable("order_edits", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  editedBy: varchar("edited_by").references(() => users.id),
+  changes: jsonb("changes").$type<OrderEditLineChange[]>().notNull(),
+  subtotalBefore: decimal("subtotal_before", { precision: 10, scale: 2 }).notNull(),
+  subtotalAfter: decimal("subtotal_after", { precision: 10, scale: 2 }).notNull(),
+  totalBefore: decimal("total_before", { precision: 10, scale: 2 }).notNull(),
+  totalAfter: decimal("total_after", { precision: 10, scale: 2 }).notNull(),
+  settlement: varchar("settlement").notNull().default("none"), // 'none' | 'charge' | 'refund' | 'account'
+  settlementStatus: varchar("settlement_status").notNull().default("not_required"), // 'not_required' | 'pending' | 'succeeded' | 'failed'
+  orderChargeId: integer("order_charge_id").references(() => orderCharges.id),
+  stripeRefundId: varchar("stripe_refund_id"),
+  settlementMessage: text("settlement_message"),
+  reason: text("reason"), // Shown to the customer
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orderIdIdx: index("order_edits_order_id_idx").on(table.orderId),
+}));
+
+export const orderEditsRelations = relations(orderEdits, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderEdits.orderId],
+    references: [orders.id],
+  }),
+  charge: one(orderCharges, {
+    fields: [orderEdits.orderChargeId],
+    references: [orderCharges.id],
+  }),
+}));
+
+// Order edit types
+export const insertOrderEditSchema = createInsertSchema(orderEdits).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertOrderEdit = z.infer<typeof insertOrderEditSchema>;
+export type OrderEdit = typeof orderEdits.$inferSelect;
+
+// Warehouse pick lists. A pick list batches the outstanding lines of several
+// orders so the team can pick them in one walk; lines are ticked off as they
+// are picked and each order moves on once all of its lines are picked.
+export const pickLists = pgTable("pick_lists", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pickListNumber: varchar("pick_list_number").notNull(), // PL-0001, per wholesaler
+  warehouseId: integer("warehouse_id").references(() => warehouses.id), // Set when every order ships from the same depot
+  status: varchar("status").notNull().default("open"), // 'open' | 'completed' | 'cancelled'
+  createdBy: varchar("created_by").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("pick_lists_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const pickListItems = pgTable("pick_list_items", {
+  id: serial("id").primaryKey(),
+  pickListId: integer("pick_list_id").notNull().references(() => pickLists.id, { onDelete: "cascade" }),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id),
+  sellingType: varchar("selling_type").notNull().default("units"), // 'units' | 'pallets'
+  quantity: integer("quantity").notNull(), // Outstanding quantity when the list was created
+  pickedQuantity: integer("picked_quantity").notNull().default(0),
+  pickedBy: varchar("picked_by").references(() => users.id),
+  pickedAt: timestamp("picked_at"),
+}, (table) => ({
+  pickListIdIdx: index("pick_list_items_pick_list_id_idx").on(table.pickListId),
+  orderIdIdx: index("pick_list_items_order_id_idx").on(table.orderId),
+}));
+
+export const pickListsRelations = relations(pickLists, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [pickLists.wholesalerId],
+    references: [users.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [pickLists.warehouseId],
+    references: [warehouses.id],
+  }),
+  items: many(pickListItems),
+}));
+
+export const pickListItemsRelations = relations(pickListItems, ({ one }) => ({
+  pickList: one(pickLists, {
+    fields: [pickListItems.pickListId],
+    references: [pickLists.id],
+  }),
+  order: one(orders, {
+    fields: [pickListItems.orderId],
+    references: [orders.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [pickListItems.orderItemId],
+    references: [orderItems.id],
+  }),
+  product: one(products, {
+    fields: [pickListItems.productId],
+    references: [products.id],
+  }),
+}));
+
+// Pick list types
+export const insertPickListSchema = createInsertSchema(pickLists).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPickList = z.infer<typeof insertPickListSchema>;
+export type PickList = typeof pickLists.$inferSelect;
+export type PickListItem = typeof pickListItems.$inferSelect;
+
+// Own-van delivery runs. A run is a driver's round for one day: delivery orders
+// are added as stops, put in driving order and marked delivered or failed with
+// a proof-of-delivery photo as the driver goes.
+export const deliveryRuns = pgTable("delivery_runs", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  runNumber: varchar("run_number").notNull(), // RUN-0001, per wholesaler
+  deliveryDate: timestamp("delivery_date").notNull(),
+  driverName: varchar("driver_name").notNull(),
+  driverPhone: varchar("driver_phone"),
+  warehouseId: integer("warehouse_id").references(() => warehouses.id), // Where the van is loaded; null = default warehouse
+  status: varchar("status").notNull().default("planned"), // 'planned' | 'out_for_delivery' | 'completed' | 'cancelled'
+  totalDistanceKm: decimal("total_distance_km", { precision: 8, scale: 1 }), // Estimated, straight-line between stops
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerDateIdx: index("delivery_runs_wholesaler_date_idx").on(table.wholesalerId, table.deliveryDate),
+}));
+
+export const deliveryRunStops = pgTable("delivery_run_stops", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => deliveryRuns.id, { onDelete: "cascade" }),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // 1, 2, 3... in driving order
+  postcode: varchar("postcode"),
+  latitude: decimal("latitude", { precision: 9, scale: 6 }),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }),
+  legDistanceKm: decimal("leg_distance_km", { precision: 8, scale: 1 }), // From the previous stop or the depot
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'delivered' | 'failed'
+  recipientName: varchar("recipient_name"),
+  failureReason: text("failure_reason"),
+  proofPhotoUrl: varchar("proof_photo_url"), // Object storage path of the proof-of-delivery photo
+  completedBy: varchar("completed_by").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  runIdIdx: index("delivery_run_stops_run_id_idx").on(table.runId),
+  orderIdIdx: index("delivery_run_stops_order_id_idx").on(table.orderId),
+}));
+
+export const deliveryRunsRelations = relations(deliveryRuns, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [deliveryRuns.wholesalerId],
+    references: [users.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [deliveryRuns.warehouseId],
+    references: [warehouses.id],
+  }),
+  stops: many(deliveryRunStops),
+}));
+
+export const deliveryRunStopsRelations = relations(deliveryRunStops, ({ one }) => ({
+  run: one(deliveryRuns, {
+    fields: [deliveryRunStops.runId],
+    references: [deliveryRuns.id],
+  }),
+  order: one(orders, {
+    fields: [deliveryRunStops.orderId],
+    references: [orders.id],
+  }),
+}));
+
+// Delivery run types
+export const insertDeliveryRunSchema = createInsertSchema(deliveryRuns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertDeliveryRun = z.infer<typeof insertDeliveryRunSchema>;
+export type DeliveryRun = typeof deliveryRuns.$inferSelect;
+export type DeliveryRunStop = typeof deliveryRunStops.$inferSelect;
+export type InsertDeliveryRunStop = typeof deliveryRunStops.$inferInsert;
+
+// Delivery slots: weekly delivery days and collection windows customers book at checkout
+export const fulfilmentSlots = pgTable("fulfilment_slots", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type").notNull(), // 'delivery' | 'collection'
+  warehouseId: integer("warehouse_id").references(() => warehouses.id, { onDelete: "cascade" }), // Collection depot; null = any depot
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: varchar("start_time", { length: 5 }).notNull(), // 'HH:MM', UK time
+  endTime: varchar("end_time", { length: 5 }).notNull(),
+  capacity: integer("capacity"), // Orders per slot; null = unlimited
+  cutoffDaysBefore: integer("cutoff_days_before").notNull().default(1), // Order by cutoffTime this many days before
+  cutoffTime: varchar("cutoff_time", { length: 5 }).notNull().default("17:00"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerTypeIdx: index("fulfilment_slots_wholesaler_type_idx").on(table.wholesalerId, table.type),
+}));
+
+// Holiday closures: no delivery or collection slots are offered between these dates (inclusive)
+export const fulfilmentClosures = pgTable("fulfilment_closures", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startsOn: timestamp("starts_on").notNull(),
+  endsOn: timestamp("ends_on").notNull(),
+  reason: varchar("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("fulfilment_closures_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const fulfilmentSlotsRelations = relations(fulfilmentSlots, ({ one }) => ({
+  wholesaler: one(users, {
+    fields: [fulfilmentSlots.wholesalerId],
+    references: [users.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [fulfilmentSlots.warehouseId],
+    references: [warehouses.id],
+  }),
+}));
+
+export const fulfilmentClosuresRelations = relations(fulfilmentClosures, ({ one }) => ({
+  wholesaler: one(users, {
+    fields: [fulfilmentClosures.wholesalerId],
+    references: [users.id],
+  }),
+}));
+
+// Delivery slot types
+export const insertFulfilmentSlotSchema = createInsertSchema(fulfilmentSlots).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertFulfilmentSlot = z.infer<typeof insertFulfilmentSlotSchema>;
+export type FulfilmentSlot = typeof fulfilmentSlots.$inferSelect;
+export const insertFulfilmentClosureSchema = createInsertSchema(fulfilmentClosures).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertFulfilmentClosure = z.infer<typeof insertFulfilmentClosureSchema>;
+export type FulfilmentClosure = typeof fulfilmentClosures.$inferSelect;
+
+// Shipping carriers: each wholesaler can connect several (Parcel2Go accounts, table-rate pricing)
+export const shippingProviderAccounts = pgTable("shipping_provider_accounts", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: varchar("provider").notNull().$type<ShippingProviderKey>(),
+  name: varchar("name").notNull(), // Shown to customers as the carrier name
+  credentials: jsonb("credentials").$type<Parcel2GoProviderCredentials>(), // Parcel2Go API keys
+  settings: jsonb("settings").$type<TableRateSettings>(), // Table-rate services and bands
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  wholesalerIdIdx: index("shipping_provider_accounts_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const shippingProviderAccountsRelations = relations(shippingProviderAccounts, ({ one }) => ({
+  wholesaler: one(users, {
+    fields: [shippingProviderAccounts.wholesalerId],
+    references: [users.id],
+  }),
+}));
+
+// Shipping carrier types
+export const insertShippingProviderAccountSchema = createInsertSchema(shippingProviderAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertShippingProviderAccount = typeof shippingProviderAccounts.$inferInsert;
+export type ShippingProviderAccount = typeof shippingProviderAccounts.$inferSelect;
+
+// Invoices and credit notes. Issued documents never change: the lines, parties
+// and totals are copied in when the document is numbered, and corrections are
+// made with a credit note against the original invoice.
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  customerId: varchar("customer_id").notNull().references(() => users.id),
+  documentType: varchar("document_type").notNull().$type<InvoiceDocumentType>(),
+  invoiceNumber: varchar("invoice_number").notNull(), // e.g. "INV-000042" or "INV-CN-000007"
+  sequenceNumber: integer("sequence_number").notNull(),
+  creditedInvoiceId: integer("credited_invoice_id"), // Credit notes: the invoice being credited
+  returnRequestId: integer("return_request_id"), // Credit notes raised by a refunded return
+  stripeRefundId: varchar("stripe_refund_id"),
+  reason: text("reason"),
+  currency: varchar("currency").notNull().default("GBP"),
+  seller: jsonb("seller").notNull().$type<InvoiceParty>(),
+  buyer: jsonb("buyer").notNull().$type<InvoiceParty>(),
+  lines: jsonb("lines").notNull().$type<InvoiceLine[]>(),
+  netTotal: decimal("net_total", { precision: 10, scale: 2 }).notNull(),
+  vatTotal: decimal("vat_total", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  pdfPath: varchar("pdf_path"), // Object storage path of the rendered PDF
+  emailedAt: timestamp("emailed_at"),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  wholesalerNumberIdx: uniqueIndex("invoices_wholesaler_number_idx").on(table.wholesalerId, table.invoiceNumber),
+  orderIdIdx: index("invoices_order_id_idx").on(table.orderId),
+}));
+
+// Last number used per wholesaler and document type - bumped in the same transaction as the insert, so numbers have no gaps
+export const invoiceSequences = pgTable("invoice_sequences", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentType: varchar("document_type").notNull().$type<InvoiceDocumentType>(),
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => ({
+  wholesalerTypeIdx: uniqueIndex("invoice_sequences_wholesaler_type_idx").on(table.wholesalerId, table.documentType),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  wholesaler: one(users, {
+    fields: [invoices.wholesalerId],
+    references: [users.id],
+  }),
+  order: one(orders, {
+    fields: [invoices.orderId],
+    references: [orders.id],
+  }),
+  creditedInvoice: one(invoices, {
+    fields: [invoices.creditedInvoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+// Invoice types
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertInvoice = typeof invoices.$inferInsert;
+export type Invoice = typeof invoices.$inferSelect;
+
+// Accounting exports. Each invoice, credit note, payout and platform fee is
+// claimed by the first export (per format) whose period covers it, so
+// re-exporting a period gives the same rows and overlapping periods never
+// export anything twice.
+export const accountingExports = pgTable("accounting_exports", {
+  id: serial("id").primaryKey(),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  format: varchar("format").notNull().$type<AccountingExportFormat>(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  rowCount: integer("row_count").notNull().default(0),
+  createdBy: varchar("created_by"),
+  lastExportedAt: timestamp("last_exported_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  wholesalerPeriodIdx: uniqueIndex("accounting_exports_wholesaler_period_idx").on(table.wholesalerId, table.format, table.periodStart, table.periodEnd),
+}));
+
+export const accountingExportItems = pgTable("accounting_export_items", {
+  id: serial("id").primaryKey(),
+  exportId: integer("export_id").notNull().references(() => accountingExports.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  format: varchar("format").notNull().$type<AccountingExportFormat>(),
+  sourceType: varchar("source_type").notNull().$type<AccountingSourceType>(),
+  sourceId: varchar("source_id").notNull(), // Invoice id, Stripe payout id or order id
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  sourceIdx: uniqueIndex("accounting_export_items_source_idx").on(table.wholesalerId, table.format, table.sourceType, table.sourceId),
+  exportIdIdx: index("accounting_export_items_export_id_idx").on(table.exportId),
+}));
+
+export const accountingExportsRelations = relations(accountingExports, ({ one, many }) => ({
+  wholesaler: one(users, {
+    fields: [accountingExports.wholesalerId],
+    references: [users.id],
+  }),
+  items: many(accountingExportItems),
+}));
+
+export const accountingExportItemsRelations = relations(accountingExportItems, ({ one }) => ({
+  export: one(accountingExports, {
+    fields: [accountingExportItems.exportId],
+    references: [accountingExports.id],
+  }),
+}));
+
+// Accounting export types
+export type InsertAccountingExport = typeof accountingExports.$inferInsert;
+export type AccountingExport = typeof accountingExports.$inferSelect;
+export type AccountingExportItem = typeof accountingExportItems.$inferSelect;
+
+// Transactional outbox. Side-effects of an order (emails, invoices, notifications)
+// are written in the same transaction as the order and delivered by a worker,
+// so a failure is retried and, once out of attempts, left here to be replayed.
+export const outboxMessages = pgTable("outbox_messages", {
+  id: serial("id").primaryKey(),
+  type: varchar("type").notNull().$type<OutboxMessageType>(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }),
+  wholesalerId: varchar("wholesaler_id").references(() => users.id, { onDelete: "cascade" }),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: varchar("status").notNull().default("pending").$type<OutboxStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(8),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"), // When a worker claimed it
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  dueIdx: index("outbox_messages_due_idx").on(table.status, table.nextAttemptAt),
+  orderIdIdx: index("outbox_messages_order_id_idx").on(table.orderId),
+  wholesalerIdIdx: index("outbox_messages_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+export const outboxMessagesRelations = relations(outboxMessages, ({ one }) => ({
+  order: one(orders, {
+    fields: [outboxMessages.orderId],
+    references: [orders.id],
+  }),
+}));
+
+// Outbox types
+export type InsertOutboxMessage = typeof outboxMessages.$inferInsert;
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+
+// Every Stripe webhook event received, keyed by its Stripe ID. Processing is
+// claimed per event so a redelivery or replay never applies it twice.
+export const stripeWebhookEvents = pgTable("stripe_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: varchar("event_id").notNull().unique(), // evt_...
+  type: varchar("type").notNull(),
+  account: varchar("account"), // Connected account the event came from, if any
+  wholesalerId: varchar("wholesaler_id"), // From the event's metadata; not a foreign key so events for deleted users are still kept
+  livemode: boolean("livemode").notNull().default(false),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  status: varchar("status").notNull().default("received").$type<StripeWebhookEventStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  stripeCreatedAt: timestamp("stripe_created_at"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  statusIdx: index("stripe_webhook_events_status_idx").on(table.status),
+  typeIdx: index("stripe_webhook_events_type_idx").on(table.type),
+  wholesalerIdIdx: index("stripe_webhook_events_wholesaler_id_idx").on(table.wholesalerId),
+}));
+
+// Stripe webhook event types
+export type InsertStripeWebhookEvent = typeof stripeWebhookEvents.$inferInsert;
+export type StripeWebhookEvent = typeof stripeWebhookEvents.$inferSelect;
@@ -0,0 +1,106 @@
+// Shipping carriers a wholesaler can connect, and the weight/postcode band pricing of the built-in table-rate carrier
+export type ShippingProviderKey = 'parcel2go' | 'table_rate';
+
+export const SHIPPING_PROVIDER_LABELS: Record<ShippingProviderKey, string> = {
+  parcel2go: 'Parcel2Go',
+  table_rate: 'Table rate',
+};
+
+export function isShippingProviderKey(value: unknown): value is ShippingProviderKey {
+  return typeof value === 'string' && value in SHIPPING_PROVIDER_LABELS;
+}
+
+export interface Parcel2GoProviderCredentials {
+  clientId: string;
+  clientSecret: string;
+  environment: 'sandbox' | 'live';
+}
+
+// Orders weighing up to maxWeightKg cost price; a band with no limit catches everything heavier
+export interface TableRateWeightBand {
+  maxWeightKg: number | null;
+  price: number;
+}
+
+// Postcode areas or districts (e.g. 'BT', 'PA20') that cost extra; a null surcharge means no delivery there
+export interface TableRatePostcodeBand {
+  prefixes: string[];
+  surcharge: number | null;
+}
+
+export interface TableRateService {
+  id: string;
+  name: string;
+  transitTime: string;
+  weightBands: TableRateWeightBand[];
+  postcodeBands: TableRatePostcodeBand[];
+  freeOverValue?: number | null; // Goods value at which the weight band price is waived
+}
+
+export interface TableRateSettings {
+  services: TableRateService[];
+}
+
+// Starting point for a new table-rate carrier: two weight bands with a Highlands & Islands surcharge
+export const DEFAULT_TABLE_RATE_SETTINGS: TableRateSettings = {
+  services: [
+    {
+      id: 'standard',
+      name: 'Standard delivery',
+      transitTime: '2-3 business days',
+      weightBands: [
+        { maxWeightKg: 30, price: 6.95 },
+        { maxWeightKg: null, price: 14.95 },
+      ],
+      postcodeBands: [
+        { prefixes: ['BT', 'HS', 'IV', 'KW', 'ZE', 'GY', 'JE', 'IM'], surcharge: 15 },
+      ],
+      freeOverValue: null,
+    },
+  ],
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const normalisePostcode = (postcode?: string | null) => (postcode || '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Whether a postcode falls in an area ('IV' matches IV1 but 'B' doesn't match
+ * BT1) or district/sector prefix ('PA20', 'PA20 9')
+ */
+export function postcodeMatchesPrefix(postcode: string, prefix: string): boolean {
+  const code = normalisePostcode(postcode);
+  const wanted = normalisePostcode(prefix);
+  if (!wanted || !code.startsWith(wanted)) return false;
+  return !/^[A-Z]+$/.test(wanted) || /\d/.test(code.charAt(wanted.length));
+}
+
+// The most specific band a postcode falls in, if any
+export function findPostcodeBand(bands: TableRatePostcodeBand[], postcode: string): TableRatePostcodeBand | undefined {
+  let best: { band: TableRatePostcodeBand; length: number } | undefined;
+  for (const band of bands) {
+    for (const prefix of band.prefixes) {
+      const length = normalisePostcode(prefix).length;
+      if (postcodeMatchesPrefix(postcode, prefix) && (!best || length > best.length)) {
+        best = { band, length };
+      }
+    }
+  }
+  return best?.band;
+}
+
+/**
+ * What a table-rate service charges for a consignment, VAT inclusive.
+ * Null when the service doesn't deliver that weight or to that postcode.
+ */
+export function priceTableRate(service: TableRateService, totalWeightKg: number, goodsValue: number, postcode: string): number | null {
+  const bands = [...service.weightBands].sort((a, b) => (a.maxWeightKg ?? Infinity) - (b.maxWeightKg ?? Infinity));
+  const band = bands.find(b => b.maxWeightKg == null || totalWeightKg <= b.maxWeightKg);
+  if (!band) return null;
+
+  const postcodeBand = findPostcodeBand(service.postcodeBands, postcode);
+  if (postcodeBand && postcodeBand.surcharge == null) return null;
+
+  const base = service.freeOverValue != null && goodsValue >= service.freeOverValue ? 0 : band.price;
+  return roundMoney(base + (postcodeBand?.surcharge || 0));
+}
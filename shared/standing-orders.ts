@@ -0,0 +1,67 @@
+// Standing order cadences, statuses and scheduling shared by the scheduler and the buyer portal
+export type StandingOrderCadence = 'weekly' | 'fortnightly' | 'monthly';
+export type StandingOrderStatus = 'active' | 'paused' | 'cancelled';
+export type StandingOrderRunStatus = 'processing' | 'ordered' | 'partial' | 'skipped' | 'failed';
+export type StandingOrderShortfallAction = 'send_available' | 'skip_order';
+
+export const STANDING_ORDER_CADENCE_LABELS: Record<StandingOrderCadence, string> = {
+  weekly: 'Every week',
+  fortnightly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+export const STANDING_ORDER_STATUS_LABELS: Record<StandingOrderStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+};
+
+export const STANDING_ORDER_RUN_STATUS_LABELS: Record<StandingOrderRunStatus, string> = {
+  processing: 'Processing',
+  ordered: 'Ordered',
+  partial: 'Part ordered',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+export const STANDING_ORDER_SHORTFALL_LABELS: Record<StandingOrderShortfallAction, string> = {
+  send_available: 'Send what is in stock',
+  skip_order: 'Skip the whole order',
+};
+
+// Consecutive failed runs (declined card, no credit) before a standing order is paused
+export const STANDING_ORDER_MAX_FAILURES = 3;
+
+export function isStandingOrderCadence(value: unknown): value is StandingOrderCadence {
+  return typeof value === 'string' && value in STANDING_ORDER_CADENCE_LABELS;
+}
+
+/**
+ * The run date after `from`. Monthly runs keep the day of the month, falling
+ * back to the last day of shorter months.
+ */
+export function getNextStandingOrderDate(from: Date, cadence: StandingOrderCadence): Date {
+  const next = new Date(from);
+  if (cadence === 'monthly') {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, lastDay));
+    return next;
+  }
+  next.setUTCDate(next.getUTCDate() + (cadence === 'fortnightly' ? 14 : 7));
+  return next;
+}
+
+/**
+ * Roll a run date forward until it is after `now` - used when a paused
+ * standing order is resumed so missed runs aren't all generated at once
+ */
+export function getUpcomingStandingOrderDate(runDate: Date, cadence: StandingOrderCadence, now: Date = new Date()): Date {
+  let next = new Date(runDate);
+  while (next <= now) {
+    next = getNextStandingOrderDate(next, cadence);
+  }
+  return next;
+}
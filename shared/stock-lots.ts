@@ -0,0 +1,80 @@
+// Batch/lot expiry rules shared by the server, the batches page and stock alerts
+export type TemperatureRequirement = 'frozen' | 'chilled' | 'ambient';
+
+// How far ahead of expiry a lot raises a near-expiry alert. Chilled goods turn over
+// fast, so a long warning window would flag almost every delivery.
+export const NEAR_EXPIRY_WARNING_DAYS: Record<TemperatureRequirement, number> = {
+  chilled: 3,
+  frozen: 14,
+  ambient: 30,
+};
+
+export interface AllocatableLot {
+  id: number;
+  batchCode: string;
+  expiryDate: Date | string | null;
+  receivedAt?: Date | string | null;
+  quantityRemaining: number;
+}
+
+export interface LotAllocation {
+  stockLotId: number;
+  batchCode: string;
+  quantity: number;
+}
+
+const toTime = (value: Date | string | null | undefined, fallback: number) =>
+  value ? new Date(value).getTime() : fallback;
+
+export function getNearExpiryWarningDays(temperatureRequirement?: string | null): number {
+  return NEAR_EXPIRY_WARNING_DAYS[(temperatureRequirement || 'ambient') as TemperatureRequirement] ?? NEAR_EXPIRY_WARNING_DAYS.ambient;
+}
+
+/**
+ * Expiry date for a lot received without one, from the product's shelf life in days
+ */
+export function getDefaultLotExpiry(receivedAt: Date, shelfLife?: number | null): Date | null {
+  if (!shelfLife || shelfLife <= 0) return null;
+  return new Date(receivedAt.getTime() + shelfLife * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whole days until a lot expires - negative once it has expired
+ */
+export function getDaysUntilExpiry(expiryDate: Date | string, now: Date = new Date()): number {
+  return Math.ceil((new Date(expiryDate).getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Order lots first-expiry-first-out. Lots without an expiry go last; ties are
+ * broken by the oldest delivery.
+ */
+export function sortLotsFefo<T extends AllocatableLot>(lots: T[]): T[] {
+  return [...lots].sort((a, b) =>
+    toTime(a.expiryDate, Infinity) - toTime(b.expiryDate, Infinity) ||
+    toTime(a.receivedAt, 0) - toTime(b.receivedAt, 0) ||
+    a.id - b.id
+  );
+}
+
+/**
+ * Pick a quantity from lots first-expiry-first-out. Expired lots are skipped.
+ * If the lots cannot cover the whole quantity, the rest is left unallocated
+ * (stock that was never booked in against a batch).
+ */
+export function allocateLotsFefo(lots: AllocatableLot[], quantity: number, now: Date = new Date()): LotAllocation[] {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+
+  for (const lot of sortLotsFefo(lots)) {
+    if (remaining <= 0) break;
+    if (lot.quantityRemaining <= 0) continue;
+    if (lot.expiryDate && new Date(lot.expiryDate).getTime() <= now.getTime()) continue;
+
+    const take = Math.min(remaining, lot.quantityRemaining);
+    allocations.push({ stockLotId: lot.id, batchCode: lot.batchCode, quantity: take });
+    remaining -= take;
+  }
+
+  return allocations;
+}
@@ -0,0 +1,9 @@
+// Stripe webhook event store: every event received, so processing is idempotent and a failed or missed event can be replayed
+
+// received -> processing -> processed, or failed to be retried by Stripe or replayed
+export type StripeWebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+export const STRIPE_WEBHOOK_EVENT_STATUSES: StripeWebhookEventStatus[] = ['received', 'processing', 'processed', 'failed'];
+
+// An event stuck in processing this long was abandoned (e.g. the server restarted) and may be claimed again
+export const STRIPE_WEBHOOK_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
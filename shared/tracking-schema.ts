@@ -36,4 +36,43 @@ export const SHIPPING_STATUS_COLORS = {
   delivered: 'text-green-600 bg-green-50',
   exception: 'text-red-600 bg-red-50',
   returned: 'text-gray-600 bg-gray-50'
-} as const;
\ No newline at end of file
+} as const;
+
+export type ShippingStatusKey = ShippingStatus['status'];
+
+// Statuses the customer is told about when a parcel moves into them
+export const NOTIFY_SHIPPING_STATUSES: ShippingStatusKey[] = ['out_for_delivery', 'delivered', 'exception'];
+
+// No more tracking updates are expected once a parcel reaches one of these
+export const FINAL_SHIPPING_STATUSES: ShippingStatusKey[] = ['delivered', 'returned'];
+
+// Checked in order, so "out for delivery" wins over "delivery" and "returned to sender" over "sender"
+const CARRIER_STATUS_KEYWORDS: Array<[ShippingStatusKey, RegExp]> = [
+  ['returned', /return(ed|ing)? to sender|\breturned\b/i],
+  ['delivered', /\bdelivered\b|signed for|left (in|with|at)|safe ?place/i],
+  ['out_for_delivery', /out for delivery|with (the )?(driver|courier) for delivery|on vehicle/i],
+  ['exception', /exception|fail|unable|delay|damaged|held|missed|card left|address (issue|problem|incomplete)|refused/i],
+  ['collected', /collected|picked up|received by (the )?carrier|accepted/i],
+  ['in_transit', /transit|hub|depot|sort|arrived|departed|on (its|the) way|processed/i],
+];
+
+/**
+ * Map a carrier's free-text tracking status onto our shipping states
+ */
+export function mapCarrierStatus(carrierStatus: string | null | undefined): ShippingStatusKey {
+  if (!carrierStatus) return 'pending';
+  const match = CARRIER_STATUS_KEYWORDS.find(([, pattern]) => pattern.test(carrierStatus));
+  return match ? match[0] : 'in_transit';
+}
+
+/**
+ * The overall state of an order shipped in several parcels: any problem first,
+ * otherwise the parcel furthest behind
+ */
+export function combineShippingStatuses(statuses: ShippingStatusKey[]): ShippingStatusKey | null {
+  if (statuses.length === 0) return null;
+  if (statuses.includes('exception')) return 'exception';
+  if (statuses.every(status => status === 'returned')) return 'returned';
+  const progress: ShippingStatusKey[] = ['pending', 'collected', 'in_transit', 'out_for_delivery', 'delivered', 'returned'];
+  return statuses.reduce((slowest, status) => progress.indexOf(status) < progress.indexOf(slowest) ? status : slowest);
+}
@@ -0,0 +1,80 @@
+// UK VAT rules shared by order creation, invoices and the VAT report.
+// Catalogue prices are what the buyer pays, so VAT is worked out of the gross
+// line total rather than added on top of it.
+export type VatRateCode = 'standard' | 'reduced' | 'zero' | 'exempt';
+
+export const VAT_RATES: Record<VatRateCode, { label: string; percent: number }> = {
+  standard: { label: 'Standard (20%)', percent: 20 },
+  reduced: { label: 'Reduced (5%)', percent: 5 },
+  zero: { label: 'Zero-rated (0%)', percent: 0 },
+  exempt: { label: 'Exempt', percent: 0 },
+};
+
+export const VAT_RATE_CODES = Object.keys(VAT_RATES) as VatRateCode[];
+
+export interface VatBreakdown {
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface VatSummaryLine extends VatBreakdown {
+  rate: VatRateCode;
+  percent: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function isVatRateCode(value: unknown): value is VatRateCode {
+  return typeof value === 'string' && value in VAT_RATES;
+}
+
+export function getVatRateLabel(rate?: string | null): string {
+  return isVatRateCode(rate) ? VAT_RATES[rate].label : 'No VAT';
+}
+
+/**
+ * Split a VAT-inclusive amount into net and VAT, rounded per line
+ */
+export function splitGrossAmount(gross: number, percent: number): VatBreakdown {
+  const roundedGross = roundMoney(gross);
+  const vat = percent > 0 ? roundMoney(roundedGross * percent / (100 + percent)) : 0;
+  return { net: roundMoney(roundedGross - vat), vat, gross: roundedGross };
+}
+
+/**
+ * Total up lines by VAT rate for invoices and returns. Lines with the same
+ * rate code but a different percentage (after a rate change) stay separate.
+ */
+export function summarizeVatByRate(
+  lines: { rate: VatRateCode; percent: number; net: number; vat: number }[]
+): VatSummaryLine[] {
+  const summary = new Map<string, VatSummaryLine>();
+  for (const line of lines) {
+    const key = `${line.rate}:${line.percent}`;
+    const entry = summary.get(key) || { rate: line.rate, percent: line.percent, net: 0, vat: 0, gross: 0 };
+    entry.net = roundMoney(entry.net + line.net);
+    entry.vat = roundMoney(entry.vat + line.vat);
+    entry.gross = roundMoney(entry.net + entry.vat);
+    summary.set(key, entry);
+  }
+  return Array.from(summary.values()).sort((a, b) =>
+    VAT_RATE_CODES.indexOf(a.rate) - VAT_RATE_CODES.indexOf(b.rate) || b.percent - a.percent
+  );
+}
+
+/**
+ * Tidy a VAT registration number for storage ("gb 123 4567 89" → "GB123456789")
+ */
+export function normalizeVatNumber(vatNumber: string): string {
+  return vatNumber.replace(/[\s.-]/g, '').toUpperCase();
+}
+
+/**
+ * UK VAT numbers: GB followed by 9 digits (12 for branch traders, GD/HA plus
+ * 3 digits for government departments and health authorities), or XI plus 9
+ * digits for Northern Ireland
+ */
+export function isValidUkVatNumber(vatNumber: string): boolean {
+  return /^(GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})|XI\d{9})$/.test(normalizeVatNumber(vatNumber));
+}
@@ -0,0 +1,74 @@
+// Stock location helpers shared by the server, the warehouses page and the buyer portal
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface WarehouseLocation {
+  id: number;
+  isDefault: boolean;
+  postcode?: string | null;
+  latitude?: string | number | null;
+  longitude?: string | number | null;
+}
+
+export interface CollectionDepot {
+  id: number;
+  name: string;
+  addressLine1: string | null;
+  city: string | null;
+  postcode: string | null;
+  collectionInstructions: string | null;
+  isDefault: boolean;
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function getDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Postcode area - the leading letters of a UK postcode ("M" for M1 1AE, "SW" for SW1A 1AA)
+ */
+export function getPostcodeArea(postcode?: string | null): string | null {
+  const match = postcode?.trim().toUpperCase().match(/^[A-Z]{1,2}/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Closest warehouse to a destination. Uses coordinates where both sides have
+ * them, then a matching postcode area, then the default warehouse.
+ */
+export function chooseNearestWarehouse<T extends WarehouseLocation>(
+  candidates: T[],
+  destination: { postcode?: string | null; point?: GeoPoint | null }
+): T | undefined {
+  if (candidates.length === 0) return undefined;
+
+  if (destination.point) {
+    const located = candidates.filter(w => w.latitude != null && w.longitude != null);
+    if (located.length > 0) {
+      return located
+        .map(w => ({ warehouse: w, distance: getDistanceKm(destination.point!, { latitude: Number(w.latitude), longitude: Number(w.longitude) }) }))
+        .sort((a, b) => a.distance - b.distance)[0].warehouse;
+    }
+  }
+
+  const area = getPostcodeArea(destination.postcode);
+  const sameArea = area ? candidates.find(w => getPostcodeArea(w.postcode) === area) : undefined;
+  return sameArea || candidates.find(w => w.isDefault) || candidates[0];
+}
+
+/**
+ * Stock at the default warehouse - whatever of the total is not held elsewhere
+ */
+export function getDefaultWarehouseStock(total: number, heldElsewhere: number): number {
+  return Math.max(0, total - heldElsewhere);
+}